@@ -0,0 +1,70 @@
+/**
+ * Tests for the /tasks export and import subcommands
+ */
+
+import * as path from "path"
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import { tasksCommand } from "../tasks.js"
+import type { CommandContext } from "../core/types.js"
+
+describe("/tasks command", () => {
+	let mockContext: CommandContext
+	let addMessageMock: ReturnType<typeof vi.fn>
+	let sendWebviewMessageMock: ReturnType<typeof vi.fn>
+
+	beforeEach(() => {
+		addMessageMock = vi.fn()
+		sendWebviewMessageMock = vi.fn().mockResolvedValue(undefined)
+
+		mockContext = {
+			input: "/tasks",
+			args: [],
+			options: {},
+			addMessage: addMessageMock,
+			sendWebviewMessage: sendWebviewMessageMock,
+			taskHistoryData: null,
+		} as unknown as CommandContext
+	})
+
+	describe("export", () => {
+		it("should export the task to the resolved path", async () => {
+			mockContext.args = ["export", "abc123", "task.kilotask"]
+			mockContext.options = { checkpoints: true }
+
+			await tasksCommand.handler(mockContext)
+
+			expect(sendWebviewMessageMock).toHaveBeenCalledWith({
+				type: "exportTaskBundle",
+				text: "abc123",
+				values: { path: path.resolve("task.kilotask"), includeCheckpoints: true },
+			})
+		})
+
+		it("should show the usage without a file", async () => {
+			mockContext.args = ["export", "abc123"]
+
+			await tasksCommand.handler(mockContext)
+
+			expect(sendWebviewMessageMock).not.toHaveBeenCalled()
+			expect(addMessageMock).toHaveBeenCalledWith(
+				expect.objectContaining({
+					type: "error",
+					content: "Usage: /tasks export <task-id> <file> [--checkpoints]",
+				}),
+			)
+		})
+	})
+
+	describe("import", () => {
+		it("should import the bundle from the resolved path", async () => {
+			mockContext.args = ["import", "task.kilotask"]
+
+			await tasksCommand.handler(mockContext)
+
+			expect(sendWebviewMessageMock).toHaveBeenCalledWith({
+				type: "importTaskBundle",
+				values: { path: path.resolve("task.kilotask") },
+			})
+		})
+	})
+})
@@ -2,9 +2,11 @@
  * /tasks command - View and manage task history
  */
 
+import * as path from "path"
 import { generateMessage } from "../ui/utils/messages.js"
 import type { Command, ArgumentProviderContext } from "./core/types.js"
 import type { HistoryItem } from "@roo-code/types"
+import type { TaskHistoryItem } from "../state/atoms/taskHistory.js"
 
 /**
  * Map kebab-case sort options to camelCase
@@ -118,7 +120,7 @@ async function showTaskHistory(context: any, dataOverride?: any): Promise<void>
 	// Build the task list display
 	let content = `**Task History** (Page ${pageIndex + 1}/${pageCount}):\n\n`
 
-	historyItems.forEach((task: HistoryItem, index: number) => {
+	historyItems.forEach((task: TaskHistoryItem, index: number) => {
 		const taskNum = pageIndex * 10 + index + 1
 		const taskText = truncate(task.task || "Untitled task", 60)
 		const time = formatRelativeTime(task.ts || 0)
@@ -128,7 +130,11 @@ async function showTaskHistory(context: any, dataOverride?: any): Promise<void>
 		const favorite = task.isFavorited ? "⭐ " : ""
 
 		content += `${favorite}**${taskNum}.** ${taskText}\n`
-		content += `   ID: ${task.id} | ${time} | ${cost} | ${tokens} tokens\n\n`
+		content += `   ID: ${task.id} | ${time} | ${cost} | ${tokens} tokens\n`
+		if (task.contentMatch) {
+			content += `   Match: ${truncate(task.contentMatch.snippet, 120)}\n`
+		}
+		content += "\n"
 	})
 
 	addMessage({
@@ -220,6 +226,63 @@ async function selectTask(context: any, taskId: string): Promise<void> {
 	}
 }
 
+/**
+ * Export a task as a portable bundle
+ */
+async function exportTask(context: any, taskId: string, file: string): Promise<void> {
+	const { sendWebviewMessage, addMessage, options } = context
+
+	if (!taskId || !file) {
+		addMessage({
+			...generateMessage(),
+			type: "error",
+			content: "Usage: /tasks export <task-id> <file> [--checkpoints]",
+		})
+		return
+	}
+
+	const bundlePath = path.resolve(file)
+	addMessage({
+		...generateMessage(),
+		type: "system",
+		content: `Exporting task ${taskId} to ${bundlePath}...`,
+	})
+
+	await sendWebviewMessage({
+		type: "exportTaskBundle",
+		text: taskId,
+		values: { path: bundlePath, includeCheckpoints: options?.checkpoints === true },
+	})
+}
+
+/**
+ * Import a task bundle into the history and switch to it
+ */
+async function importTask(context: any, file: string): Promise<void> {
+	const { sendWebviewMessage, addMessage } = context
+
+	if (!file) {
+		addMessage({
+			...generateMessage(),
+			type: "error",
+			content: "Usage: /tasks import <file>",
+		})
+		return
+	}
+
+	const bundlePath = path.resolve(file)
+	addMessage({
+		...generateMessage(),
+		type: "system",
+		content: `Importing task from ${bundlePath}...`,
+	})
+
+	await sendWebviewMessage({
+		type: "importTaskBundle",
+		values: { path: bundlePath },
+	})
+}
+
 /**
  * Change page
  */
@@ -511,13 +574,15 @@ export const tasksCommand: Command = {
 		"/tasks prev",
 		"/tasks sort most-expensive",
 		"/tasks filter favorites",
+		"/tasks export abc123 task.kilotask --checkpoints",
+		"/tasks import task.kilotask",
 	],
 	category: "navigation",
 	priority: 9,
 	arguments: [
 		{
 			name: "subcommand",
-			description: "Subcommand: search, select, page, next, prev, sort, filter",
+			description: "Subcommand: search, select, page, next, prev, sort, filter, export, import",
 			required: false,
 			values: [
 				{ value: "search", description: "Search tasks by query" },
@@ -527,6 +592,8 @@ export const tasksCommand: Command = {
 				{ value: "prev", description: "Go to previous page" },
 				{ value: "sort", description: "Change sort order" },
 				{ value: "filter", description: "Filter tasks" },
+				{ value: "export", description: "Export a task as a portable bundle" },
+				{ value: "import", description: "Import a task bundle" },
 			],
 		},
 		{
@@ -535,7 +602,7 @@ export const tasksCommand: Command = {
 			required: false,
 			conditionalProviders: [
 				{
-					condition: (context) => context.getArgument("subcommand") === "select",
+					condition: (context) => ["select", "export"].includes(context.getArgument("subcommand") ?? ""),
 					provider: taskIdAutocompleteProvider,
 				},
 				{
@@ -595,11 +662,19 @@ export const tasksCommand: Command = {
 				await changeFilter(context, args[1] || "")
 				break
 
+			case "export":
+				await exportTask(context, args[1] || "", args[2] || "")
+				break
+
+			case "import":
+				await importTask(context, args[1] || "")
+				break
+
 			default:
 				context.addMessage({
 					...generateMessage(),
 					type: "error",
-					content: `Unknown subcommand "${subcommand}". Available: search, select, page, next, prev, sort, filter`,
+					content: `Unknown subcommand "${subcommand}". Available: search, select, page, next, prev, sort, filter, export, import`,
 				})
 		}
 	},
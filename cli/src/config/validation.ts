@@ -109,6 +109,16 @@ function handleSpecialValidations(provider: ProviderConfig, errors: string[]): v
 				errors.push("profiles is required and must be a non-empty array for selected provider")
 			}
 			break
+
+		case "provider-router":
+			if (
+				!provider.routerCandidates ||
+				!Array.isArray(provider.routerCandidates) ||
+				provider.routerCandidates.length === 0
+			) {
+				errors.push("routerCandidates is required and must be a non-empty array for selected provider")
+			}
+			break
 	}
 }
 
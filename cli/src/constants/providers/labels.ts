@@ -41,8 +41,10 @@ export const PROVIDER_LABELS: Record<ProviderName, string> = {
 	roo: "Roo",
 	"vercel-ai-gateway": "Vercel AI Gateway",
 	"virtual-quota-fallback": "Virtual Quota Fallback",
+	"provider-router": "Provider Router",
 	"human-relay": "Human Relay",
 	"fake-ai": "Fake AI",
+	replay: "Replay",
 }
 
 /**
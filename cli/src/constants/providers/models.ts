@@ -120,6 +120,7 @@ export const PROVIDER_TO_ROUTER_NAME: Record<ProviderName, RouterName | null> =
 	"qwen-code": null,
 	"human-relay": null,
 	"fake-ai": null,
+	replay: null,
 	xai: null,
 	groq: null,
 	chutes: null,
@@ -132,6 +133,7 @@ export const PROVIDER_TO_ROUTER_NAME: Record<ProviderName, RouterName | null> =
 	"claude-code": null,
 	"gemini-cli": null,
 	"virtual-quota-fallback": null,
+	"provider-router": null,
 	huggingface: null,
 }
 
@@ -165,6 +167,7 @@ export const PROVIDER_MODEL_FIELD: Record<ProviderName, string | null> = {
 	"qwen-code": null,
 	"human-relay": null,
 	"fake-ai": null,
+	replay: null,
 	xai: null,
 	groq: null,
 	chutes: null,
@@ -177,6 +180,7 @@ export const PROVIDER_MODEL_FIELD: Record<ProviderName, string | null> = {
 	"claude-code": null,
 	"gemini-cli": null,
 	"virtual-quota-fallback": null,
+	"provider-router": null,
 	huggingface: null,
 }
 
@@ -249,6 +249,17 @@ export const FIELD_REGISTRY: Record<string, FieldMetadata> = {
 		placeholder: "Enter model selector...",
 	},
 
+	// Replay fields
+	replayCassettePath: {
+		label: "Cassette Path",
+		type: "text",
+		placeholder: "Enter the path of the api_cassette.jsonl file...",
+	},
+	replayStrict: {
+		label: "Strict Matching",
+		type: "boolean",
+	},
+
 	// OpenAI fields
 	openAiApiKey: {
 		label: "API Key",
@@ -757,6 +768,24 @@ export const getProviderSettings = (provider: ProviderName, config: ProviderSett
 				},
 			]
 
+		case "provider-router":
+			return [
+				{
+					field: "routerStrategy",
+					label: "Routing Strategy",
+					value: config.routerStrategy || "order",
+					actualValue: config.routerStrategy || "order",
+					type: "text",
+				},
+				{
+					field: "routerCandidates",
+					label: "Candidate Profiles",
+					value: config.routerCandidates ? `${config.routerCandidates.length} profile(s)` : "Not configured",
+					actualValue: config.routerCandidates ? JSON.stringify(config.routerCandidates) : "",
+					type: "text",
+				},
+			]
+
 		case "human-relay":
 			return [
 				{
@@ -779,6 +808,9 @@ export const getProviderSettings = (provider: ProviderName, config: ProviderSett
 				},
 			]
 
+		case "replay":
+			return [createFieldConfig("replayCassettePath", config), createFieldConfig("replayStrict", config)]
+
 		default:
 			return []
 	}
@@ -824,8 +856,10 @@ export const PROVIDER_DEFAULT_MODELS: Record<ProviderName, string> = {
 	roo: "gpt-4o",
 	"vercel-ai-gateway": "gpt-4o",
 	"virtual-quota-fallback": "gpt-4o",
+	"provider-router": "gpt-4o",
 	"human-relay": "human",
 	"fake-ai": "fake-model",
+	replay: "replay",
 }
 
 /**
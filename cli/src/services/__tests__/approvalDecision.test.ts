@@ -87,6 +87,25 @@ describe("approvalDecision", () => {
 			})
 		})
 
+		describe("messages the mode requires approval for", () => {
+			it("should require manual approval even when auto-approval is enabled", () => {
+				const message = {
+					...createMessage("tool", JSON.stringify({ tool: "readFile" })),
+					requiresApproval: true,
+				}
+				const config = { ...createBaseConfig(), read: { enabled: true, outside: false } }
+				const decision = getApprovalDecision(message, config, false)
+				expect(decision.action).toBe("manual")
+			})
+
+			it("should auto-reject in CI mode", () => {
+				const message = { ...createMessage("command", "npm test"), requiresApproval: true }
+				const config = { ...createBaseConfig(), execute: { enabled: true, allowed: ["*"], denied: [] } }
+				const decision = getApprovalDecision(message, config, true)
+				expect(decision).toEqual({ action: "auto-reject", message: CI_MODE_MESSAGES.AUTO_REJECTED })
+			})
+		})
+
 		describe("tool requests - read operations", () => {
 			it("should auto-approve readFile when config enabled", () => {
 				const message = createMessage("tool", JSON.stringify({ tool: "readFile" }))
@@ -190,6 +209,42 @@ describe("approvalDecision", () => {
 			})
 		})
 
+		describe("MCP server requests", () => {
+			const mcpConfig = () => ({ ...createBaseConfig(), mcp: { enabled: true } })
+			const samplingMessage = () =>
+				createMessage(
+					"use_mcp_server",
+					JSON.stringify({ type: "sampling", serverName: "docs", arguments: "{}" }),
+				)
+
+			it("should auto-approve MCP tool use when config enabled", () => {
+				const message = createMessage(
+					"use_mcp_server",
+					JSON.stringify({ type: "use_mcp_tool", serverName: "docs", toolName: "search" }),
+				)
+				const decision = getApprovalDecision(message, mcpConfig(), false)
+				expect(decision.action).toBe("auto-approve")
+			})
+
+			it("should only auto-approve sampling for servers always allowed to sample", () => {
+				const servers = [{ name: "docs", command: "docs", alwaysAllowSampling: true }]
+				expect(getApprovalDecision(samplingMessage(), mcpConfig(), false, servers).action).toBe("auto-approve")
+				expect(getApprovalDecision(samplingMessage(), createBaseConfig(), false, servers).action).toBe("manual")
+			})
+
+			it("should not auto-approve sampling when the server is not always allowed to sample", () => {
+				const servers = [{ name: "docs", command: "docs" }]
+				expect(getApprovalDecision(samplingMessage(), mcpConfig(), false, servers).action).toBe("manual")
+				expect(getApprovalDecision(samplingMessage(), mcpConfig(), false).action).toBe("manual")
+			})
+
+			it("should auto-reject sampling in CI mode when the server is not always allowed to sample", () => {
+				const decision = getApprovalDecision(samplingMessage(), mcpConfig(), true)
+				expect(decision.action).toBe("auto-reject")
+				expect(decision.message).toBe(CI_MODE_MESSAGES.AUTO_REJECTED)
+			})
+		})
+
 		describe("tool requests - other operations", () => {
 			it("should auto-approve mode switching when config enabled", () => {
 				const message = createMessage("tool", JSON.stringify({ tool: "switchMode" }))
@@ -211,6 +266,16 @@ describe("approvalDecision", () => {
 				const decision = getApprovalDecision(message, config, false)
 				expect(decision.action).toBe("auto-approve")
 			})
+
+			it("should only auto-approve killing background jobs when execute is enabled", () => {
+				const message = createMessage("tool", JSON.stringify({ tool: "killBackgroundJob", jobId: 1 }))
+				const config = createBaseConfig()
+				expect(getApprovalDecision(message, config, false).action).toBe("manual")
+				expect(getApprovalDecision(message, config, true).action).toBe("auto-reject")
+
+				const executeConfig = { ...config, execute: { ...config.execute, enabled: true } }
+				expect(getApprovalDecision(message, executeConfig, false).action).toBe("auto-approve")
+			})
 		})
 
 		describe("command execution", () => {
@@ -3,7 +3,12 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from "vitest"
-import { detectFileMentionContext, getFileMentionSuggestions } from "../autocomplete.js"
+import {
+	detectFileMentionContext,
+	getContextMentionSuggestions,
+	getFileMentionSuggestions,
+	getMentionSuggestions,
+} from "../autocomplete.js"
 import { fileSearchService } from "../fileSearch.js"
 
 // Mock the fileSearchService
@@ -193,4 +198,61 @@ describe("File Mention Autocomplete", () => {
 			expect(fileSearchService.searchFiles).toHaveBeenCalledWith("test", "/workspace", 25)
 		})
 	})
+
+	describe("getContextMentionSuggestions", () => {
+		it("should suggest the context mentions matching the query", async () => {
+			const result = await getContextMentionSuggestions("te", "/workspace")
+
+			expect(result.map((suggestion) => suggestion.value)).toEqual(["tests"])
+			expect(result[0]?.type).toBe("mention")
+		})
+
+		it("should complete the symbol name", async () => {
+			const result = await getContextMentionSuggestions("symbol:Task.abort", "/workspace")
+
+			expect(result.map((suggestion) => suggestion.value)).toEqual(["symbol:Task.abort"])
+		})
+
+		it("should suggest refs for the diff mention", async () => {
+			expect((await getContextMentionSuggestions("diff:", "/workspace")).map((s) => s.value)).toEqual([
+				"diff:main..HEAD",
+				"diff:HEAD~1",
+				"diff:HEAD",
+			])
+			expect((await getContextMentionSuggestions("diff:dev", "/workspace")).map((s) => s.value)).toEqual([
+				"diff:dev",
+				"diff:dev..HEAD",
+			])
+		})
+
+		it("should suggest folders for the folder tree mention", async () => {
+			vi.mocked(fileSearchService.searchFiles).mockResolvedValue([
+				{ path: "src/test.ts", type: "file" as const, basename: "test.ts", dirname: "src" },
+				{ path: "src/utils", type: "folder" as const, basename: "utils", dirname: "src" },
+			])
+
+			const result = await getContextMentionSuggestions("folder-tree:/uti", "/workspace")
+
+			expect(fileSearchService.searchFiles).toHaveBeenCalledWith("uti", "/workspace")
+			expect(result.map((suggestion) => suggestion.value)).toEqual(["folder-tree:/src/utils/"])
+		})
+	})
+
+	describe("getMentionSuggestions", () => {
+		it("should list the files before the context mentions", async () => {
+			vi.mocked(fileSearchService.searchFiles).mockResolvedValue([
+				{ path: "src/test.ts", type: "file" as const, basename: "test.ts", dirname: "src" },
+			])
+
+			const result = await getMentionSuggestions("test", "/workspace")
+
+			expect(result.map((suggestion) => suggestion.value)).toEqual(["src/test.ts", "tests"])
+		})
+
+		it("should not search files for a mention prefix", async () => {
+			await getMentionSuggestions("symbol:Foo", "/workspace")
+
+			expect(fileSearchService.searchFiles).not.toHaveBeenCalled()
+		})
+	})
 })
@@ -8,7 +8,9 @@
  * @module approvalDecision
  */
 
-import type { ExtensionChatMessage } from "../types/messages.js"
+import type { ExtensionChatMessage, McpServer } from "../types/messages.js"
+import type { McpServerData } from "../ui/messages/extension/types.js"
+import { parseMessageJson } from "../ui/messages/extension/utils.js"
 import type { AutoApprovalConfig } from "../config/types.js"
 import { CI_MODE_MESSAGES } from "../constants/ci.js"
 import { logs } from "./logs.js"
@@ -59,6 +61,39 @@ function matchesCommandPattern(command: string, patterns: string[]): boolean {
 	})
 }
 
+/**
+ * Determines the approval decision for an MCP server request. Sampling requests spend the user's
+ * provider credits, so they are only auto-approved for the servers always allowed to sample.
+ */
+function getMcpServerApprovalDecision(
+	message: ExtensionChatMessage,
+	config: AutoApprovalConfig,
+	isCIMode: boolean,
+	mcpServers: McpServer[],
+): ApprovalDecision {
+	const mcpServerData = parseMessageJson<McpServerData>(message.text)
+	if (mcpServerData?.type === "sampling") {
+		const server = mcpServers.find((server) => server.name === mcpServerData.serverName)
+		if (config.mcp?.enabled && server?.alwaysAllowSampling) {
+			return { action: "auto-approve" }
+		}
+		logs.warn("MCP sampling request not auto-approved - alwaysAllowSampling is off", "approvalDecision", {
+			serverName: mcpServerData.serverName,
+			mcpEnabled: config.mcp?.enabled,
+		})
+		return isCIMode ? { action: "auto-reject", message: CI_MODE_MESSAGES.AUTO_REJECTED } : { action: "manual" }
+	}
+
+	if (config.mcp?.enabled) {
+		return { action: "auto-approve" }
+	}
+	logs.warn("MCP operation rejected - mcp.enabled is false", "approvalDecision", {
+		askType: message.ask,
+		mcpEnabled: config.mcp?.enabled,
+	})
+	return isCIMode ? { action: "auto-reject", message: CI_MODE_MESSAGES.AUTO_REJECTED } : { action: "manual" }
+}
+
 /**
  * Determines the approval decision for a tool request
  */
@@ -152,6 +187,14 @@ function getToolApprovalDecision(
 			return isCIMode ? { action: "auto-reject", message: CI_MODE_MESSAGES.AUTO_REJECTED } : { action: "manual" }
 		}
 
+		// Stopping a background job, allowed along with running commands
+		if (tool === "killBackgroundJob") {
+			if (config.execute?.enabled) {
+				return { action: "auto-approve" }
+			}
+			return isCIMode ? { action: "auto-reject", message: CI_MODE_MESSAGES.AUTO_REJECTED } : { action: "manual" }
+		}
+
 		// Todo list updates
 		if (tool === "updateTodoList") {
 			if (config.todo?.enabled) {
@@ -296,6 +339,7 @@ function getRetryApprovalDecision(
  * @param message - The message requiring approval
  * @param config - The approval configuration
  * @param isCIMode - Whether CI mode is active
+ * @param mcpServers - The connected MCP servers, for their sampling approval setting
  * @returns The approval decision
  *
  * @example
@@ -314,6 +358,7 @@ export function getApprovalDecision(
 	message: ExtensionChatMessage,
 	config: AutoApprovalConfig,
 	isCIMode: boolean,
+	mcpServers: McpServer[] = [],
 ): ApprovalDecision {
 	// Only process ask messages
 	if (message.type !== "ask") {
@@ -325,6 +370,11 @@ export function getApprovalDecision(
 		return { action: "manual" }
 	}
 
+	// The mode requires the user to approve this tool, whatever the auto-approval config
+	if (message.requiresApproval) {
+		return isCIMode ? { action: "auto-reject", message: CI_MODE_MESSAGES.AUTO_REJECTED } : { action: "manual" }
+	}
+
 	const askType = message.ask
 
 	switch (askType) {
@@ -342,6 +392,8 @@ export function getApprovalDecision(
 
 		// Handle MCP server requests (extension uses this as ask type instead of "tool")
 		case "use_mcp_server":
+			return getMcpServerApprovalDecision(message, config, isCIMode, mcpServers)
+
 		case "access_mcp_resource":
 			if (config.mcp?.enabled) {
 				return { action: "auto-approve" }
@@ -39,8 +39,8 @@ export interface FileMentionSuggestion {
 	matchScore: number
 	/** Highlighted value for display */
 	highlightedValue: string
-	/** Type of file entry */
-	type: "file" | "folder"
+	/** Type of file entry, or a context mention such as @tests */
+	type: "file" | "folder" | "mention"
 	/** Loading state */
 	loading?: boolean
 	/** Error message if any */
@@ -760,6 +760,86 @@ export async function getFileMentionSuggestions(
 	}
 }
 
+const SYMBOL_MENTION_PREFIX = "symbol:"
+const DIFF_MENTION_PREFIX = "diff:"
+const FOLDER_TREE_MENTION_PREFIX = "folder-tree:"
+const DEFAULT_DIFF_REFS = ["main..HEAD", "HEAD~1", "HEAD"]
+
+function createMentionSuggestion(value: string, description: string): FileMentionSuggestion {
+	return { value, description, matchScore: 100, highlightedValue: value, type: "mention" }
+}
+
+/**
+ * Get the context mention suggestions (symbol, diff, tests and folder tree) for a query
+ * @param query Search query (text after @)
+ * @param cwd Current working directory (workspace root)
+ * @returns Array of mention suggestions
+ */
+export async function getContextMentionSuggestions(query: string, cwd: string): Promise<FileMentionSuggestion[]> {
+	const lowerQuery = query.toLowerCase()
+
+	if (lowerQuery.startsWith(SYMBOL_MENTION_PREFIX)) {
+		const name = query.slice(SYMBOL_MENTION_PREFIX.length)
+		return /^[\w$]+(?:\.[\w$]+)*$/.test(name)
+			? [createMentionSuggestion(`${SYMBOL_MENTION_PREFIX}${name}`, "Symbol definition")]
+			: []
+	}
+
+	if (lowerQuery.startsWith(DIFF_MENTION_PREFIX)) {
+		const ref = query.slice(DIFF_MENTION_PREFIX.length)
+		if (ref && !/^[\w./~^-]+$/.test(ref)) {
+			return []
+		}
+		const refs = ref ? [ref, ...(ref.includes("..") ? [] : [`${ref}..HEAD`])] : DEFAULT_DIFF_REFS
+		return refs.map((diffRef) => createMentionSuggestion(`${DIFF_MENTION_PREFIX}${diffRef}`, "Git diff"))
+	}
+
+	if (lowerQuery.startsWith(FOLDER_TREE_MENTION_PREFIX)) {
+		const folderQuery = query.slice(FOLDER_TREE_MENTION_PREFIX.length).replace(/^\//, "")
+		const results = await fileSearchService.searchFiles(folderQuery, cwd).catch(() => [])
+		return results
+			.filter((result) => result.type === "folder")
+			.map((result) =>
+				createMentionSuggestion(
+					`${FOLDER_TREE_MENTION_PREFIX}/${result.path.replace(/\/?$/, "/")}`,
+					"Folder tree",
+				),
+			)
+	}
+
+	const suggestions: FileMentionSuggestion[] = []
+	if ("symbol:".startsWith(lowerQuery)) {
+		suggestions.push(createMentionSuggestion(SYMBOL_MENTION_PREFIX, "Symbol definition, type its name"))
+	}
+	if ("diff:".startsWith(lowerQuery)) {
+		suggestions.push(createMentionSuggestion(DIFF_MENTION_PREFIX, "Git diff, type a ref or range"))
+	}
+	if ("tests".startsWith(lowerQuery)) {
+		suggestions.push(createMentionSuggestion("tests", "Failures of the last test run"))
+	}
+	if ("folder-tree".startsWith(lowerQuery)) {
+		suggestions.push(createMentionSuggestion("folder-tree", "Compact directory tree"))
+	}
+	return suggestions
+}
+
+/**
+ * Get the suggestions for an @ mention: the matching files first, then the context mentions
+ * @param query Search query (text after @)
+ * @param cwd Current working directory (workspace root)
+ * @returns Array of mention suggestions
+ */
+export async function getMentionSuggestions(query: string, cwd: string): Promise<FileMentionSuggestion[]> {
+	const contextMentions = await getContextMentionSuggestions(query, cwd)
+	const lowerQuery = query.toLowerCase()
+	if (
+		[SYMBOL_MENTION_PREFIX, DIFF_MENTION_PREFIX, FOLDER_TREE_MENTION_PREFIX].some((p) => lowerQuery.startsWith(p))
+	) {
+		return contextMentions
+	}
+	return [...(await getFileMentionSuggestions(query, cwd)), ...contextMentions]
+}
+
 // ============================================================================
 // MAIN API
 // ============================================================================
@@ -787,7 +867,7 @@ export async function getAllSuggestions(
 	if (fileMentionCtx?.isInMention && cwd) {
 		return {
 			type: "file-mention",
-			suggestions: await getFileMentionSuggestions(fileMentionCtx.query, cwd),
+			suggestions: await getMentionSuggestions(fileMentionCtx.query, cwd),
 		}
 	}
 
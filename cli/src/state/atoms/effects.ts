@@ -8,6 +8,7 @@ import type { ExtensionMessage } from "../../types/messages.js"
 import { extensionServiceAtom, setServiceReadyAtom, setServiceErrorAtom, setIsInitializingAtom } from "./service.js"
 import { updateExtensionStateAtom, updateChatMessageByTsAtom, updateRouterModelsAtom } from "./extension.js"
 import { ciCompletionDetectedAtom } from "./ci.js"
+import { addMessageAtom } from "./ui.js"
 import {
 	updateProfileDataAtom,
 	updateBalanceDataAtom,
@@ -197,6 +198,21 @@ export const messageHandlerEffectAtom = atom(null, (get, set, message: Extension
 				}
 				break
 
+			case "taskBundleResult":
+				// Result of /tasks export and /tasks import
+				set(addMessageAtom, {
+					id: `task-bundle-${Date.now()}`,
+					type: message.success ? "system" : "error",
+					ts: Date.now(),
+					content: message.success
+						? message.values?.operation === "export"
+							? `Task exported to ${message.text}`
+							: `Imported task ${message.text}`
+						: `Failed to ${message.values?.operation} the task: ${message.error}`,
+					partial: false,
+				})
+				break
+
 			case "action":
 				// Action messages are typically handled by the UI
 				break
@@ -8,6 +8,8 @@ import type {
 	ExtensionChatMessage,
 	HistoryItem,
 	TodoItem,
+	BackgroundJob,
+	CostBudgetStatus,
 	RouterModels,
 	ProviderSettings,
 	McpServer,
@@ -47,6 +49,16 @@ export const currentTaskAtom = atom<HistoryItem | null>(null)
  */
 export const taskTodosAtom = atom<TodoItem[]>([])
 
+/**
+ * Atom to hold the background jobs started by the agent
+ */
+export const backgroundJobsAtom = atom<BackgroundJob[]>([])
+
+/**
+ * Atom to hold the spending of the current task against the cost budgets, null when no budget is set
+ */
+export const costBudgetAtom = atom<CostBudgetStatus | null>(null)
+
 /**
  * Atom to hold available router models
  */
@@ -191,6 +203,14 @@ export const inProgressTodosCountAtom = atom<number>((get) => {
 	return todos.filter((todo) => todo.status === "in_progress").length
 })
 
+/**
+ * Derived atom to get the running background jobs
+ */
+export const runningBackgroundJobsAtom = atom<BackgroundJob[]>((get) => {
+	const jobs = get(backgroundJobsAtom)
+	return jobs.filter((job) => job.status === "running")
+})
+
 /**
  * Action atom to update the complete extension state
  * This syncs all derived atoms with the new state
@@ -236,6 +256,8 @@ export const updateExtensionStateAtom = atom(null, (get, set, state: ExtensionSt
 		// Sync other derived atoms
 		set(currentTaskAtom, state.currentTaskItem || null)
 		set(taskTodosAtom, state.currentTaskTodos || [])
+		set(backgroundJobsAtom, state.backgroundJobs || [])
+		set(costBudgetAtom, state.costBudget || null)
 		// Preserve existing routerModels if not provided in new state
 		set(routerModelsAtom, state.routerModels || currentRouterModels)
 		set(apiConfigurationAtom, state.apiConfiguration || null)
@@ -248,6 +270,8 @@ export const updateExtensionStateAtom = atom(null, (get, set, state: ExtensionSt
 		set(chatMessagesAtom, [])
 		set(currentTaskAtom, null)
 		set(taskTodosAtom, [])
+		set(backgroundJobsAtom, [])
+		set(costBudgetAtom, null)
 		set(routerModelsAtom, null)
 		set(apiConfigurationAtom, null)
 		set(extensionModeAtom, "code")
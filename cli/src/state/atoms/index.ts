@@ -36,6 +36,8 @@ export {
 	chatMessagesAtom,
 	currentTaskAtom,
 	taskTodosAtom,
+	backgroundJobsAtom,
+	costBudgetAtom,
 	routerModelsAtom,
 	apiConfigurationAtom,
 	extensionModeAtom,
@@ -56,6 +58,7 @@ export {
 	pendingTodosCountAtom,
 	completedTodosCountAtom,
 	inProgressTodosCountAtom,
+	runningBackgroundJobsAtom,
 
 	// Extension state action atoms
 	updateExtensionStateAtom,
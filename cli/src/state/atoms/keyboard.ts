@@ -351,6 +351,25 @@ function calculateRowColumnFromPosition(text: string, absolutePosition: number):
 	return { row, column: col }
 }
 
+/**
+ * Whether the suggestion is inserted as an @ mention (files, folders and context mentions)
+ */
+function isMentionSuggestion(
+	suggestion: CommandSuggestion | ArgumentSuggestion | FileMentionSuggestion,
+): suggestion is FileMentionSuggestion {
+	return (
+		"type" in suggestion &&
+		(suggestion.type === "file" || suggestion.type === "folder" || suggestion.type === "mention")
+	)
+}
+
+/**
+ * Mention prefixes such as "symbol:" are completed without a space, so that their argument can be typed next
+ */
+function getMentionSeparator(suggestion: FileMentionSuggestion): string {
+	return suggestion.value.endsWith(":") ? "" : " "
+}
+
 /**
  * Helper function to format autocomplete suggestions for display/submission
  */
@@ -362,9 +381,9 @@ function formatSuggestion(
 	if ("command" in suggestion) {
 		// CommandSuggestion - return full command with slash
 		return `/${suggestion.command.name}`
-	} else if ("type" in suggestion && (suggestion.type === "file" || suggestion.type === "folder")) {
+	} else if (isMentionSuggestion(suggestion)) {
 		// FileMentionSuggestion - insert file path at @ position with proper escaping
-		const fileSuggestion = suggestion as FileMentionSuggestion
+		const fileSuggestion = suggestion
 
 		if (!fileMentionContext) {
 			return currentInput
@@ -377,7 +396,7 @@ function formatSuggestion(
 		const beforeMention = currentInput.slice(0, fileMentionContext.mentionStart)
 		const afterMention = currentInput.slice(fileMentionContext.mentionStart + 1 + fileMentionContext.query.length)
 
-		return beforeMention + "@" + escapedPath + " " + afterMention
+		return beforeMention + "@" + escapedPath + getMentionSeparator(fileSuggestion) + afterMention
 	} else {
 		// ArgumentSuggestion - replace last part with suggestion value
 		const parts = currentInput.split(" ")
@@ -526,14 +545,13 @@ function handleAutocompleteKeys(get: any, set: any, key: Key): void {
 				set(setTextAtom, newText)
 
 				// For file mentions, set cursor after the inserted path + space
-				if (
-					"type" in suggestion &&
-					(suggestion.type === "file" || suggestion.type === "folder") &&
-					fileMentionContext
-				) {
-					const fileSuggestion = suggestion as FileMentionSuggestion
-					const escapedPath = fileSuggestion.value.replace(/ /g, "\\ ")
-					const cursorPosition = fileMentionContext.mentionStart + 1 + escapedPath.length + 1 // @ + path + space
+				if (isMentionSuggestion(suggestion) && fileMentionContext) {
+					const escapedPath = suggestion.value.replace(/ /g, "\\ ")
+					const cursorPosition =
+						fileMentionContext.mentionStart +
+						1 +
+						escapedPath.length +
+						getMentionSeparator(suggestion).length // @ + path + space
 
 					// Calculate row and column from absolute position and set cursor
 					const { row, column } = calculateRowColumnFromPosition(newText, cursorPosition)
@@ -548,16 +566,19 @@ function handleAutocompleteKeys(get: any, set: any, key: Key): void {
 				const currentText = get(textBufferStringAtom)
 
 				// For file mentions, Enter should insert (like Tab), not submit
-				if ("type" in suggestion && (suggestion.type === "file" || suggestion.type === "folder")) {
+				if (isMentionSuggestion(suggestion)) {
 					// Format the suggestion
 					const newText = formatSuggestion(suggestion, currentText, fileMentionContext)
 					set(setTextAtom, newText)
 
 					// Set cursor after the inserted path + space
 					if (fileMentionContext) {
-						const fileSuggestion = suggestion as FileMentionSuggestion
-						const escapedPath = fileSuggestion.value.replace(/ /g, "\\ ")
-						const cursorPosition = fileMentionContext.mentionStart + 1 + escapedPath.length + 1 // @ + path + space
+						const escapedPath = suggestion.value.replace(/ /g, "\\ ")
+						const cursorPosition =
+							fileMentionContext.mentionStart +
+							1 +
+							escapedPath.length +
+							getMentionSeparator(suggestion).length // @ + path + space
 
 						// Calculate row and column from absolute position and set cursor
 						const { row, column } = calculateRowColumnFromPosition(newText, cursorPosition)
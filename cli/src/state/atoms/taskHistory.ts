@@ -5,11 +5,25 @@
 import { atom } from "jotai"
 import type { HistoryItem } from "@roo-code/types"
 
+/**
+ * Message of a task matching the search, the snippet is the text around the match
+ */
+export interface TaskContentMatch {
+	ts: number
+	snippet: string
+	highlight: string
+}
+
+/**
+ * Task history item, with the matching message when searching
+ */
+export type TaskHistoryItem = HistoryItem & { contentMatch?: TaskContentMatch }
+
 /**
  * Task history response data
  */
 export interface TaskHistoryData {
-	historyItems: HistoryItem[]
+	historyItems: TaskHistoryItem[]
 	pageIndex: number
 	pageCount: number
 }
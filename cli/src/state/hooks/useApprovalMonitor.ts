@@ -16,6 +16,7 @@
 import { useEffect, useRef } from "react"
 import { useAtomValue, useSetAtom, useStore } from "jotai"
 import { lastAskMessageAtom } from "../atoms/ui.js"
+import { mcpServersAtom } from "../atoms/extension.js"
 import { setPendingApprovalAtom, clearPendingApprovalAtom, approvalProcessingAtom } from "../atoms/approval.js"
 import {
 	autoApproveReadAtom,
@@ -89,6 +90,7 @@ export function useApprovalMonitor(): void {
 	const autoApproveQuestionTimeout = useAtomValue(autoApproveQuestionTimeoutAtom)
 	const autoApproveTodo = useAtomValue(autoApproveTodoAtom)
 	const isCIMode = useAtomValue(ciModeAtom)
+	const mcpServers = useAtomValue(mcpServersAtom)
 
 	const { approve, reject } = useApprovalHandler()
 	const approvalTelemetry = useApprovalTelemetry()
@@ -198,7 +200,7 @@ export function useApprovalMonitor(): void {
 			autoApprovalHandledRef.current.add(lastAskMessage.ts)
 
 			// Get approval decision from service
-			const decision = getApprovalDecision(lastAskMessage, config, isCIMode)
+			const decision = getApprovalDecision(lastAskMessage, config, isCIMode, mcpServers)
 
 			// Execute based on decision
 			if (decision.action === "auto-approve") {
@@ -254,6 +256,7 @@ export function useApprovalMonitor(): void {
 		reject,
 		config,
 		isCIMode,
+		mcpServers,
 		store,
 		approvalTelemetry,
 	])
@@ -17,7 +17,7 @@ import {
 	detectInputState,
 	isCommandInput as checkIsCommandInput,
 	detectFileMentionContext,
-	getFileMentionSuggestions,
+	getMentionSuggestions,
 } from "../../services/autocomplete.js"
 import {
 	showAutocompleteAtom,
@@ -239,7 +239,7 @@ export function useCommandInput(): UseCommandInputReturn {
 		const fileMentionCtx = detectFileMentionContext(inputValue, cursorPosition)
 		if (fileMentionCtx?.isInMention) {
 			// Get file suggestions
-			const suggestions = await getFileMentionSuggestions(fileMentionCtx.query, cwd)
+			const suggestions = await getMentionSuggestions(fileMentionCtx.query, cwd)
 			setFileMentionSuggestionsAction(suggestions)
 			setFileMentionContextAction(fileMentionCtx)
 			setSuggestionsAction([])
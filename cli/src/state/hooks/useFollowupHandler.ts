@@ -6,9 +6,34 @@
 import { useEffect } from "react"
 import { useExtensionMessage } from "./useExtensionMessage.js"
 import { useFollowupSuggestions } from "./useFollowupSuggestions.js"
-import { parseFollowUpData } from "../../ui/messages/extension/utils.js"
+import { parseFollowUpData, parseMcpElicitationData } from "../../ui/messages/extension/utils.js"
+import type { McpElicitationData } from "../../ui/messages/extension/types.js"
+import type { FollowupSuggestion } from "../atoms/ui.js"
 import { logs } from "../../services/logs.js"
 
+/**
+ * Build suggestions for an MCP elicitation request
+ *
+ * A form with a single enum or boolean field can be answered by picking one of its values.
+ * Declining is always offered.
+ */
+export function getMcpElicitationSuggestions(data: McpElicitationData): FollowupSuggestion[] {
+	const fields = Object.values(data.requestedSchema.properties)
+	const suggestions: FollowupSuggestion[] = []
+
+	if (fields.length === 1) {
+		const [field] = fields
+		if (field?.enum) {
+			suggestions.push(...field.enum.map((value) => ({ answer: value })))
+		} else if (field?.type === "boolean") {
+			suggestions.push({ answer: "true" }, { answer: "false" })
+		}
+	}
+
+	suggestions.push({ answer: "decline" })
+	return suggestions
+}
+
 /**
  * Hook for handling followup questions
  *
@@ -57,7 +82,18 @@ export function useFollowupHandler(): void {
 		} else if (
 			lastMessage &&
 			lastMessage.type === "ask" &&
-			lastMessage.ask === "followup" &&
+			lastMessage.ask === "mcp_elicitation" &&
+			!lastMessage.isAnswered &&
+			!lastMessage.partial &&
+			lastMessage.text
+		) {
+			// MCP elicitation: offer the options of a single-choice form plus declining
+			const elicitationData = parseMcpElicitationData(lastMessage)
+			setSuggestions(elicitationData ? getMcpElicitationSuggestions(elicitationData) : [])
+		} else if (
+			lastMessage &&
+			lastMessage.type === "ask" &&
+			(lastMessage.ask === "followup" || lastMessage.ask === "mcp_elicitation") &&
 			lastMessage.isAnswered
 		) {
 			// Question was answered, clear suggestions
@@ -0,0 +1,47 @@
+/**
+ * Hook for handling MCP elicitation requests in CI mode
+ *
+ * Elicitation requests ask the user to fill in a form for an MCP server.
+ * No user is available in CI mode, so the request is declined automatically
+ * and the server continues without the input.
+ *
+ * @module useMcpElicitationCIResponse
+ */
+
+import { useEffect, useRef } from "react"
+import { useAtomValue } from "jotai"
+import { ciModeAtom } from "../atoms/ci.js"
+import { useWebviewMessage } from "./useWebviewMessage.js"
+import type { ExtensionChatMessage } from "../../types/messages.js"
+import { logs } from "../../services/logs.js"
+
+/**
+ * Hook that automatically declines MCP elicitation requests in CI mode
+ *
+ * @param message - The elicitation message to handle
+ */
+export function useMcpElicitationCIResponse(message: ExtensionChatMessage): void {
+	const isCIMode = useAtomValue(ciModeAtom)
+	const { sendAskResponse } = useWebviewMessage()
+
+	// Track which messages we've already responded to
+	const respondedToRef = useRef<Set<number>>(new Set())
+
+	useEffect(() => {
+		if (!isCIMode || message.isAnswered || message.partial || respondedToRef.current.has(message.ts)) {
+			return
+		}
+
+		respondedToRef.current.add(message.ts)
+
+		logs.info("CI mode: Declining MCP elicitation request", "useMcpElicitationCIResponse", {
+			ts: message.ts,
+		})
+
+		sendAskResponse({ response: "noButtonClicked" }).catch((error) => {
+			logs.error("CI mode: Failed to decline MCP elicitation request", "useMcpElicitationCIResponse", {
+				error,
+			})
+		})
+	}, [message.ts, message.isAnswered, message.partial, isCIMode, sendAskResponse])
+}
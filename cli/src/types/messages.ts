@@ -45,6 +45,7 @@ export interface ExtensionChatMessage {
 	images?: string[]
 	partial?: boolean
 	isProtected?: boolean
+	requiresApproval?: boolean
 	isAnswered?: boolean
 	checkpoint?: any
 	metadata?: any
@@ -87,6 +88,7 @@ export type ProviderName =
 	| "requesty"
 	| "human-relay"
 	| "fake-ai"
+	| "replay"
 	| "xai"
 	| "groq"
 	| "chutes"
@@ -94,6 +96,7 @@ export type ProviderName =
 	| "kilocode"
 	| "gemini-cli"
 	| "virtual-quota-fallback"
+	| "provider-router"
 	| "huggingface"
 	| "cerebras"
 	| "sambanova"
@@ -332,6 +335,25 @@ export interface TodoItem {
 	updatedAt: number
 }
 
+export interface BackgroundJob {
+	id: number
+	command: string
+	cwd: string
+	taskId?: string
+	status: "running" | "exited" | "killed"
+	exitCode?: number
+	startedAt: number
+	endedAt?: number
+}
+
+export interface CostBudgetStatus {
+	taskCost: number
+	taskBudget?: number
+	workspaceCost: number
+	workspaceBudget?: number
+	exceeded?: "task" | "workspace"
+}
+
 export interface McpServer {
 	name: string
 	command: string
@@ -339,6 +361,7 @@ export interface McpServer {
 	env?: Record<string, string>
 	disabled?: boolean
 	alwaysAllow?: boolean
+	alwaysAllowSampling?: boolean
 	tools?: McpTool[]
 	resources?: McpResource[]
 }
@@ -377,6 +400,8 @@ export interface ExtensionState {
 	clineMessages?: ExtensionChatMessage[] // Cline Legacy
 	currentTaskItem?: HistoryItem
 	currentTaskTodos?: TodoItem[]
+	backgroundJobs?: BackgroundJob[]
+	costBudget?: CostBudgetStatus
 	mode: string
 	customModes: any[]
 	taskHistoryFullLength: number
@@ -110,9 +110,11 @@ const SuggestionRow: React.FC<SuggestionRowProps> = ({ type, suggestion, isSelec
 	// Handle file mention suggestions
 	if (type === "file-mention") {
 		const fileSuggestion = suggestion as FileMentionSuggestion
-		// Extract just the filename from the full path
+		// Extract just the filename from the full path, context mentions are shown whole
 		const parts = fileSuggestion.value.split("/")
-		const filename = parts[parts.length - 1] || fileSuggestion.value
+		const filename =
+			fileSuggestion.type === "mention" ? fileSuggestion.value : parts[parts.length - 1] || fileSuggestion.value
+		const icon = fileSuggestion.type === "mention" ? "@ " : fileSuggestion.type === "folder" ? "📁 " : "📄 "
 
 		return (
 			<Box>
@@ -123,8 +125,8 @@ const SuggestionRow: React.FC<SuggestionRowProps> = ({ type, suggestion, isSelec
 				)}
 				{!isSelected && <Text>{"  "}</Text>}
 
-				{/* Show file/folder icon */}
-				<Text color={theme.ui.text.dimmed}>{fileSuggestion.type === "folder" ? "📁 " : "📄 "}</Text>
+				{/* Show file/folder/mention icon */}
+				<Text color={theme.ui.text.dimmed}>{icon}</Text>
 
 				<Text color={isSelected ? theme.semantic.success : theme.ui.text.primary} bold={isSelected}>
 					{filename}
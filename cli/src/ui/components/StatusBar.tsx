@@ -1,5 +1,5 @@
 /**
- * StatusBar component - displays project info, git branch, mode, model, and context usage
+ * StatusBar component - displays project info, git branch, background jobs, mode, model, context usage and cost budget
  */
 
 import React, { useEffect, useMemo, useState } from "react"
@@ -12,6 +12,8 @@ import {
 	apiConfigurationAtom,
 	chatMessagesAtom,
 	routerModelsAtom,
+	runningBackgroundJobsAtom,
+	costBudgetAtom,
 } from "../../state/atoms/index.js"
 import { useGitInfo } from "../../state/hooks/useGitInfo.js"
 import { useContextUsage } from "../../state/hooks/useContextUsage.js"
@@ -23,11 +25,12 @@ import {
 	prettyModelName,
 	type RouterModels,
 } from "../../constants/providers/models.js"
-import type { ProviderSettings } from "../../types/messages.js"
+import type { BackgroundJob, CostBudgetStatus, ProviderSettings } from "../../types/messages.js"
 import path from "path"
 import { isGitWorktree } from "../../utils/git.js"
 
 const MAX_MODEL_NAME_LENGTH = 40
+const MAX_BACKGROUND_JOBS_LENGTH = 40
 
 /**
  * Get the display name for the current model
@@ -86,6 +89,39 @@ function getProjectName(cwd: string | null): string {
 	return path.basename(cwd)
 }
 
+/**
+ * Get the display text for the running background jobs
+ */
+function getBackgroundJobsDisplayText(jobs: BackgroundJob[]): string {
+	const text = `Jobs: ${jobs.map((job) => `#${job.id} ${job.command}`).join(", ")}`
+
+	return text.length > MAX_BACKGROUND_JOBS_LENGTH ? text.substring(0, MAX_BACKGROUND_JOBS_LENGTH - 3) + "..." : text
+}
+
+/**
+ * Get the display text for the spending against the cost budgets, the task budget first
+ */
+function getCostBudgetDisplayText(costBudget: CostBudgetStatus): string {
+	const format = (cost: number, budget?: number) =>
+		budget === undefined ? `$${cost.toFixed(2)}` : `$${cost.toFixed(2)}/$${budget.toFixed(2)}`
+	const parts = [format(costBudget.taskCost, costBudget.taskBudget)]
+	if (costBudget.workspaceBudget !== undefined) {
+		parts.push(`today ${format(costBudget.workspaceCost, costBudget.workspaceBudget)}`)
+	}
+	return `Budget: ${parts.join(", ")}`
+}
+
+/**
+ * Whether the spending is over 80% of one of the budgets
+ */
+function isNearCostBudget(costBudget: CostBudgetStatus): boolean {
+	const isNear = (cost: number, budget?: number) => budget !== undefined && cost >= budget * 0.8
+	return (
+		isNear(costBudget.taskCost, costBudget.taskBudget) ||
+		isNear(costBudget.workspaceCost, costBudget.workspaceBudget)
+	)
+}
+
 /**
  * StatusBar component that displays current project status
  */
@@ -100,6 +136,8 @@ export const StatusBar: React.FC = () => {
 	const apiConfig = useAtomValue(apiConfigurationAtom)
 	const messages = useAtomValue(chatMessagesAtom)
 	const routerModels = useAtomValue(routerModelsAtom)
+	const runningBackgroundJobs = useAtomValue(runningBackgroundJobsAtom)
+	const costBudget = useAtomValue(costBudgetAtom)
 
 	// Get git info
 	const gitInfo = useGitInfo(cwd)
@@ -156,6 +194,13 @@ export const StatusBar: React.FC = () => {
 
 	const contextText = formatContextUsage(contextUsage)
 
+	// Cost budget color (error once used up, warning when close to a budget)
+	const costBudgetColor = costBudget?.exceeded
+		? theme.semantic.error
+		: costBudget && isNearCostBudget(costBudget)
+			? theme.semantic.warning
+			: theme.semantic.success
+
 	// Git status color (success if clean, warning if dirty)
 	const gitStatusColor = gitInfo.isClean ? theme.semantic.success : theme.semantic.warning
 
@@ -177,9 +222,21 @@ export const StatusBar: React.FC = () => {
 						<Text color={gitStatusColor}>{gitInfo.branch}</Text>
 					</>
 				) : null}
+
+				{/* Running Background Jobs */}
+				{runningBackgroundJobs.length > 0 ? (
+					<>
+						<Text color={theme.ui.text.dimmed} dimColor>
+							{" | "}
+						</Text>
+						<Text color={theme.semantic.success}>
+							{getBackgroundJobsDisplayText(runningBackgroundJobs)}
+						</Text>
+					</>
+				) : null}
 			</Box>
 
-			{/* Right side: Mode, Model, and Context */}
+			{/* Right side: Mode, Model, Context, and Cost Budget */}
 			<Box>
 				{/* Mode */}
 				<Text color={theme.ui.text.highlight} bold>
@@ -201,6 +258,16 @@ export const StatusBar: React.FC = () => {
 				<Text color={contextColor} bold>
 					{contextText}
 				</Text>
+
+				{/* Cost Budget */}
+				{costBudget ? (
+					<>
+						<Text color={theme.ui.text.dimmed} dimColor>
+							{" | "}
+						</Text>
+						<Text color={costBudgetColor}>{getCostBudgetDisplayText(costBudget)}</Text>
+					</>
+				) : null}
 			</Box>
 		</Box>
 	)
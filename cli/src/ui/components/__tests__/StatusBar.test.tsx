@@ -12,7 +12,10 @@ import * as useContextUsageHook from "../../../state/hooks/useContextUsage.js"
 import { useAtomValue } from "jotai"
 
 // Mock the hooks and atoms
-vi.mock("jotai")
+vi.mock("jotai", async (importOriginal) => ({
+	...(await importOriginal<typeof import("jotai")>()),
+	useAtomValue: vi.fn(),
+}))
 
 vi.mock("../../../state/hooks/useGitInfo.js")
 vi.mock("../../../state/hooks/useContextUsage.js")
@@ -36,6 +39,7 @@ describe("StatusBar", () => {
 				}
 			if (atom === atoms.chatMessagesAtom) return []
 			if (atom === atoms.routerModelsAtom) return null
+			if (atom === atoms.runningBackgroundJobsAtom) return []
 			return null
 		})
 
@@ -126,6 +130,7 @@ describe("StatusBar", () => {
 				}
 			if (atom === atoms.chatMessagesAtom) return []
 			if (atom === atoms.routerModelsAtom) return null
+			if (atom === atoms.runningBackgroundJobsAtom) return []
 			return null
 		})
 
@@ -142,6 +147,7 @@ describe("StatusBar", () => {
 			if (atom === atoms.apiConfigurationAtom) return null
 			if (atom === atoms.chatMessagesAtom) return []
 			if (atom === atoms.routerModelsAtom) return null
+			if (atom === atoms.runningBackgroundJobsAtom) return []
 			return null
 		})
 
@@ -160,6 +166,7 @@ describe("StatusBar", () => {
 				}
 			if (atom === atoms.chatMessagesAtom) return []
 			if (atom === atoms.routerModelsAtom) return null
+			if (atom === atoms.runningBackgroundJobsAtom) return []
 			return null
 		})
 
@@ -170,6 +177,29 @@ describe("StatusBar", () => {
 		expect(frame).toContain("project")
 	})
 
+	it("should render running background jobs", () => {
+		const defaultImplementation = vi.mocked(useAtomValue).getMockImplementation()!
+		vi.mocked(useAtomValue).mockImplementation((atom: any) => {
+			if (atom === atoms.runningBackgroundJobsAtom)
+				return [{ id: 1, command: "npm run dev", cwd: "/home/user/kilocode", status: "running", startedAt: 0 }]
+			return defaultImplementation(atom)
+		})
+
+		const { lastFrame } = render(<StatusBar />)
+		expect(lastFrame()).toContain("Jobs: #1 npm run dev")
+	})
+
+	it("should render the spending against the cost budget", () => {
+		const defaultImplementation = vi.mocked(useAtomValue).getMockImplementation()!
+		vi.mocked(useAtomValue).mockImplementation((atom: any) => {
+			if (atom === atoms.costBudgetAtom) return { taskCost: 1.5, taskBudget: 2, workspaceCost: 4 }
+			return defaultImplementation(atom)
+		})
+
+		const { lastFrame } = render(<StatusBar />)
+		expect(lastFrame()).toContain("Budget: $1.50/$2.00")
+	})
+
 	it("should include section separators", () => {
 		const { lastFrame } = render(<StatusBar />)
 		const frame = lastFrame()
@@ -197,6 +227,7 @@ describe("StatusBar", () => {
 				}
 			if (atom === atoms.chatMessagesAtom) return []
 			if (atom === atoms.routerModelsAtom) return null
+			if (atom === atoms.runningBackgroundJobsAtom) return []
 			return null
 		})
 
@@ -244,6 +275,7 @@ describe("StatusBar", () => {
 					}
 				if (atom === atoms.chatMessagesAtom) return []
 				if (atom === atoms.routerModelsAtom) return null
+				if (atom === atoms.runningBackgroundJobsAtom) return []
 				return null
 			})
 
@@ -17,6 +17,7 @@ import {
 	AskAutoApprovalMaxReachedMessage,
 	AskBrowserActionLaunchMessage,
 	AskResumeTaskMessage,
+	AskMcpElicitationMessage,
 } from "./ask/index.js"
 
 /**
@@ -65,6 +66,9 @@ export const AskMessageRouter: React.FC<MessageComponentProps> = ({ message }) =
 		case "followup":
 			return <AskFollowupMessage message={message} />
 
+		case "mcp_elicitation":
+			return <AskMcpElicitationMessage message={message} />
+
 		case "condense":
 			return <AskCondenseMessage message={message} />
 
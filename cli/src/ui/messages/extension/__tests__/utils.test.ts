@@ -249,6 +249,15 @@ describe("isMcpServerData", () => {
 		expect(isMcpServerData(valid)).toBe(true)
 	})
 
+	it("should validate valid MCP sampling data", () => {
+		const valid = {
+			type: "sampling",
+			serverName: "docs",
+			arguments: '{"maxTokens":100}',
+		}
+		expect(isMcpServerData(valid)).toBe(true)
+	})
+
 	it("should reject invalid type", () => {
 		const invalid = {
 			type: "invalid_type",
@@ -0,0 +1,82 @@
+import React from "react"
+import { Box, Text } from "ink"
+import type { MessageComponentProps } from "../types.js"
+import { getMessageIcon, parseMcpElicitationData } from "../utils.js"
+import { useMcpElicitationCIResponse } from "../../../../state/hooks/useMcpElicitationCIResponse.js"
+import { useTheme } from "../../../../state/hooks/useTheme.js"
+
+/**
+ * Display an MCP elicitation request with the fields the server asks for
+ *
+ * Like follow-up questions, the request is answered by typing a reply:
+ * `name=value` pairs, a JSON object, or `decline`.
+ * In CI mode, the request is declined automatically.
+ */
+export const AskMcpElicitationMessage: React.FC<MessageComponentProps> = ({ message }) => {
+	const theme = useTheme()
+	useMcpElicitationCIResponse(message)
+
+	const icon = getMessageIcon("ask", "mcp_elicitation")
+	const data = parseMcpElicitationData(message)
+
+	if (!data) {
+		return (
+			<Box marginY={1}>
+				<Text color={theme.semantic.warning} bold>
+					{icon} MCP Input Request (invalid data)
+				</Text>
+			</Box>
+		)
+	}
+
+	const required = data.requestedSchema.required ?? []
+	const fields = Object.entries(data.requestedSchema.properties)
+
+	return (
+		<Box flexDirection="column" marginY={1}>
+			<Box>
+				<Text color={theme.semantic.warning} bold>
+					{icon} {data.serverName} asks: {data.message}
+				</Text>
+			</Box>
+
+			<Box flexDirection="column" marginLeft={2} marginTop={1}>
+				{fields.map(([name, field]) => (
+					<Box key={name}>
+						<Text color={theme.semantic.info}>
+							{name}
+							{required.includes(name) ? "*" : ""}
+						</Text>
+						<Text color={theme.ui.text.dimmed} dimColor>
+							{" "}
+							({field.enum ? field.enum.join(" | ") : field.type})
+							{field.description ? ` - ${field.description}` : ""}
+						</Text>
+					</Box>
+				))}
+			</Box>
+
+			{data.response ? (
+				<Box marginLeft={2} marginTop={1}>
+					<Text color={theme.ui.text.dimmed} dimColor>
+						{data.response.action === "accept"
+							? `✓ Sent ${Object.entries(data.response.content ?? {})
+									.map(([name, value]) => `${name}=${value}`)
+									.join(" ")}`
+							: data.response.action === "reject"
+								? "✖ Declined"
+								: "✖ Cancelled"}
+					</Text>
+				</Box>
+			) : (
+				!message.isAnswered && (
+					<Box marginLeft={2} marginTop={1}>
+						<Text color={theme.ui.text.dimmed} dimColor>
+							Reply with name=value pairs (or JSON), or type &quot;decline&quot;
+						</Text>
+					</Box>
+				)
+			)}
+		</Box>
+	)
+}
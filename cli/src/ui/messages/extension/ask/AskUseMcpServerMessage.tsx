@@ -35,7 +35,8 @@ export const AskUseMcpServerMessage: React.FC<MessageComponentProps> = ({ messag
 		}
 
 		const isToolUse = mcpData.type === "use_mcp_tool"
-		const title = isToolUse ? "Use MCP Tool" : "Access MCP Resource"
+		const isSampling = mcpData.type === "sampling"
+		const title = isToolUse ? "Use MCP Tool" : isSampling ? "MCP Sampling Request" : "Access MCP Resource"
 
 		// Format arguments if present
 		const formattedArgs = mcpData.arguments ? formatContentWithMetadata(mcpData.arguments, MAX_LINES, PREVIEW_LINES) : null
@@ -58,7 +59,7 @@ export const AskUseMcpServerMessage: React.FC<MessageComponentProps> = ({ messag
 					</Box>
 				)}
 
-				{!isToolUse && mcpData.uri && (
+				{!isToolUse && !isSampling && mcpData.uri && (
 					<Box marginLeft={2}>
 						<Text color={theme.ui.text.primary}>URI: {mcpData.uri}</Text>
 					</Box>
@@ -98,6 +99,15 @@ export const AskUseMcpServerMessage: React.FC<MessageComponentProps> = ({ messag
 					</>
 				)}
 
+				{isSampling && mcpData.model && (
+					<Box marginLeft={2} marginTop={1}>
+						<Text color={theme.ui.text.dimmed} dimColor>
+							{mcpData.model} · {mcpData.tokensIn ?? 0} in / {mcpData.tokensOut ?? 0} out · $
+							{(mcpData.cost ?? 0).toFixed(4)}
+						</Text>
+					</Box>
+				)}
+
 				{message.isAnswered && (
 					<Box marginLeft={2} marginTop={1}>
 						<Text color={theme.ui.text.dimmed} dimColor>
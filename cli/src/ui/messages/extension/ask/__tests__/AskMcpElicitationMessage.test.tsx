@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest"
+import React from "react"
+import { render } from "ink-testing-library"
+import { AskMcpElicitationMessage } from "../AskMcpElicitationMessage.js"
+import { getMcpElicitationSuggestions } from "../../../../../state/hooks/useFollowupHandler.js"
+import type { ExtensionChatMessage } from "../../../../../types/messages.js"
+import type { McpElicitationData } from "../../types.js"
+
+const data: McpElicitationData = {
+	serverName: "github",
+	message: "Which repository?",
+	requestedSchema: {
+		type: "object",
+		properties: {
+			repo: { type: "string", description: "owner/name" },
+			visibility: { type: "string", enum: ["public", "private"] },
+		},
+		required: ["repo"],
+	},
+}
+
+describe("AskMcpElicitationMessage", () => {
+	it("should render the request and its fields", () => {
+		const message: ExtensionChatMessage = {
+			ts: Date.now(),
+			type: "ask",
+			ask: "mcp_elicitation",
+			text: JSON.stringify(data),
+			partial: false,
+		}
+
+		const { lastFrame } = render(<AskMcpElicitationMessage message={message} />)
+
+		expect(lastFrame()).toContain("github asks: Which repository?")
+		expect(lastFrame()).toContain("repo*")
+		expect(lastFrame()).toContain("owner/name")
+		expect(lastFrame()).toContain("public | private")
+		expect(lastFrame()).toContain("decline")
+	})
+
+	it("should render the submitted answer", () => {
+		const message: ExtensionChatMessage = {
+			ts: Date.now(),
+			type: "ask",
+			ask: "mcp_elicitation",
+			text: JSON.stringify({ ...data, response: { action: "accept", content: { repo: "kilo/code" } } }),
+			partial: false,
+		}
+
+		const { lastFrame } = render(<AskMcpElicitationMessage message={message} />)
+
+		expect(lastFrame()).toContain("Sent repo=kilo/code")
+	})
+})
+
+describe("getMcpElicitationSuggestions", () => {
+	it("should offer enum values for a single-choice form", () => {
+		const single: McpElicitationData = {
+			...data,
+			requestedSchema: {
+				type: "object",
+				properties: { visibility: data.requestedSchema.properties.visibility! },
+			},
+		}
+
+		expect(getMcpElicitationSuggestions(single)).toEqual([
+			{ answer: "public" },
+			{ answer: "private" },
+			{ answer: "decline" },
+		])
+	})
+
+	it("should only offer declining for forms with several fields", () => {
+		expect(getMcpElicitationSuggestions(data)).toEqual([{ answer: "decline" }])
+	})
+})
@@ -10,3 +10,4 @@ export { AskReportBugMessage } from "./AskReportBugMessage.js"
 export { AskAutoApprovalMaxReachedMessage } from "./AskAutoApprovalMaxReachedMessage.js"
 export { AskBrowserActionLaunchMessage } from "./AskBrowserActionLaunchMessage.js"
 export { AskResumeTaskMessage } from "./AskResumeTaskMessage.js"
+export { AskMcpElicitationMessage } from "./AskMcpElicitationMessage.js"
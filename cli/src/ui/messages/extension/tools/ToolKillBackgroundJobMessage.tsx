@@ -0,0 +1,40 @@
+import React from "react"
+import { Box, Text } from "ink"
+import type { ToolMessageProps } from "../types.js"
+import { getToolIcon } from "../utils.js"
+import { useTheme } from "../../../../state/hooks/useTheme.js"
+
+/**
+ * Display killing a background job
+ */
+export const ToolKillBackgroundJobMessage: React.FC<ToolMessageProps> = ({ toolData }) => {
+	const theme = useTheme()
+	const icon = getToolIcon("killBackgroundJob")
+
+	return (
+		<Box flexDirection="column" marginY={1}>
+			<Box>
+				<Text color={theme.ui.text.highlight} bold>
+					{icon} Kill Background Job {toolData.jobId ?? ""}
+				</Text>
+			</Box>
+
+			<Box marginLeft={2} flexDirection="column">
+				<Box>
+					<Text color={theme.ui.text.dimmed} dimColor>
+						Command:{" "}
+					</Text>
+					<Text color={theme.semantic.info}>{toolData.command || ""}</Text>
+				</Box>
+				{toolData.path && (
+					<Box>
+						<Text color={theme.ui.text.dimmed} dimColor>
+							Directory:{" "}
+						</Text>
+						<Text color={theme.ui.text.dimmed}>{toolData.path}</Text>
+					</Box>
+				)}
+			</Box>
+		</Box>
+	)
+}
@@ -20,6 +20,7 @@ import {
 	ToolFinishTaskMessage,
 	ToolFetchInstructionsMessage,
 	ToolRunSlashCommandMessage,
+	ToolKillBackgroundJobMessage,
 } from "./index.js"
 
 /**
@@ -82,6 +83,9 @@ export const ToolRouter: React.FC<ToolMessageProps> = ({ message, toolData }) =>
 		case "runSlashCommand":
 			return <ToolRunSlashCommandMessage message={message} toolData={toolData} />
 
+		case "killBackgroundJob":
+			return <ToolKillBackgroundJobMessage message={message} toolData={toolData} />
+
 		default:
 			return (
 				<Box marginY={1}>
@@ -15,3 +15,4 @@ export { ToolNewTaskMessage } from "./ToolNewTaskMessage.js"
 export { ToolFinishTaskMessage } from "./ToolFinishTaskMessage.js"
 export { ToolFetchInstructionsMessage } from "./ToolFetchInstructionsMessage.js"
 export { ToolRunSlashCommandMessage } from "./ToolRunSlashCommandMessage.js"
+export { ToolKillBackgroundJobMessage } from "./ToolKillBackgroundJobMessage.js"
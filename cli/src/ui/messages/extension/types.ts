@@ -39,6 +39,7 @@ export interface ToolData {
 	source?: string
 	additionalFileCount?: number
 	fastApplyResult?: any
+	jobId?: number
 }
 
 /**
@@ -54,12 +55,45 @@ export interface TodoItem {
  * MCP server data structure
  */
 export interface McpServerData {
-	type: "use_mcp_tool" | "access_mcp_resource"
+	type: "use_mcp_tool" | "access_mcp_resource" | "sampling"
 	serverName: string
 	toolName?: string
 	arguments?: string
 	uri?: string
 	response?: any
+	model?: string
+	tokensIn?: number
+	tokensOut?: number
+	cost?: number
+}
+
+/**
+ * MCP elicitation field structure
+ */
+export interface McpElicitationField {
+	type: "string" | "number" | "integer" | "boolean"
+	title?: string
+	description?: string
+	enum?: string[]
+	enumNames?: string[]
+	default?: string | number | boolean
+}
+
+/**
+ * MCP elicitation data structure
+ */
+export interface McpElicitationData {
+	serverName: string
+	message: string
+	requestedSchema: {
+		type: "object"
+		properties: Record<string, McpElicitationField>
+		required?: string[]
+	}
+	response?: {
+		action: "accept" | "reject" | "cancel"
+		content?: Record<string, string | number | boolean>
+	}
 }
 
 /**
@@ -1,6 +1,6 @@
 import { z } from "zod"
 import type { ExtensionChatMessage } from "../../../types/messages.js"
-import type { ToolData, McpServerData, FollowUpData, ApiReqInfo, ImageData } from "./types.js"
+import type { ToolData, McpServerData, McpElicitationData, FollowUpData, ApiReqInfo, ImageData } from "./types.js"
 
 /**
  * Parse JSON from message text safely
@@ -25,7 +25,7 @@ export function parseToolData(message: ExtensionChatMessage): ToolData | null {
  * Zod schema for MCP server data validation
  */
 const McpServerDataSchema = z.object({
-	type: z.enum(["use_mcp_tool", "access_mcp_resource"]),
+	type: z.enum(["use_mcp_tool", "access_mcp_resource", "sampling"]),
 	serverName: z.string(),
 	toolName: z.string().optional(),
 	arguments: z.string().optional(),
@@ -50,6 +50,14 @@ export function parseMcpServerData(message: ExtensionChatMessage): McpServerData
 	return result.success ? (result.data as McpServerData) : null
 }
 
+/**
+ * Parse MCP elicitation data from message
+ */
+export function parseMcpElicitationData(message: ExtensionChatMessage): McpElicitationData | null {
+	const parsed = parseMessageJson<McpElicitationData>(message.text)
+	return parsed?.serverName && parsed.requestedSchema?.properties ? parsed : null
+}
+
 /**
  * Parse follow-up data from message
  * Checks both text and metadata fields
@@ -106,6 +114,8 @@ export function getMessageIcon(type: "ask" | "say", subtype?: string): string {
 				return "✓"
 			case "followup":
 				return "?"
+			case "mcp_elicitation":
+				return "✎"
 			case "condense":
 				return "📦"
 			case "payment_required_prompt":
@@ -200,6 +210,8 @@ export function getToolIcon(tool: string): string {
 			return "📖"
 		case "runSlashCommand":
 			return "▶"
+		case "killBackgroundJob":
+			return "■"
 		default:
 			return "⚙"
 	}
@@ -273,7 +285,7 @@ export interface FormattedContent {
 export function formatContentWithMetadata(
 	text: string,
 	maxLines: number = 20,
-	previewLines: number = 5
+	previewLines: number = 5,
 ): FormattedContent {
 	if (!text) {
 		return {
@@ -1,6 +1,8 @@
 import * as fs from "fs"
 import * as path from "path"
+import { createHash } from "crypto" // kilocode_change
 import { execSync } from "child_process"
+import { createRequire } from "module"
 
 import { ViewsContainer, Views, Menus, Configuration, Keybindings, contributesSchema } from "./types.js"
 
@@ -160,6 +162,234 @@ export function copyWasms(srcDir: string, distDir: string): void {
 	console.log(`[copyWasms] Copied ${wasmFiles.length} tree-sitter language wasms to ${distDir}`)
 }
 
+// kilocode_change start
+/**
+ * A model of the local embedder, pinned to a commit of its Hugging Face repository. `files` holds the
+ * SHA-256 of each file transformers.js loads for the quantized (q8) feature extraction pipeline.
+ */
+export interface LocalEmbeddingModel {
+	id: string
+	revision: string
+	files: Record<string, string>
+}
+
+// Finds the root directory of a package from a file inside it, for packages that don't export their package.json.
+function findPackageDir(filePath: string, name: string): string {
+	let dir = path.dirname(filePath)
+
+	while (dir !== path.dirname(dir)) {
+		const packageJsonPath = path.join(dir, "package.json")
+
+		if (fs.existsSync(packageJsonPath) && JSON.parse(fs.readFileSync(packageJsonPath, "utf8")).name === name) {
+			return dir
+		}
+
+		dir = path.dirname(dir)
+	}
+
+	throw new Error(`Could not find the ${name} package containing ${filePath}`)
+}
+
+// The `<platform>-<arch>` targets onnxruntime-node has native bindings for, from its `bin/napi-v*/<platform>/<arch>` directories.
+function getOnnxruntimeTargets(packageDir: string): string[] {
+	const binDir = path.join(packageDir, "bin")
+
+	if (!fs.existsSync(binDir)) {
+		return []
+	}
+
+	const targets = new Set<string>()
+
+	for (const napiDir of fs.readdirSync(binDir)) {
+		for (const platform of fs.readdirSync(path.join(binDir, napiDir))) {
+			for (const arch of fs.readdirSync(path.join(binDir, napiDir, platform))) {
+				targets.add(`${platform}-${arch}`)
+			}
+		}
+	}
+
+	return [...targets].sort()
+}
+
+// Whether a file of onnxruntime-node is needed on the target, the bindings of the other targets are left out.
+function isOnnxruntimeFileForTarget(packageDir: string, src: string, target: string): boolean {
+	const [napiDir, platform, arch] = path.relative(path.join(packageDir, "bin"), src).split(path.sep)
+
+	if (napiDir === ".." || !platform) {
+		return true
+	}
+
+	return arch ? `${platform}-${arch}` === target : target.startsWith(`${platform}-`)
+}
+
+function sha256File(filePath: string): string {
+	return createHash("sha256").update(fs.readFileSync(filePath)).digest("hex")
+}
+
+function assertModelPinned(model: LocalEmbeddingModel): void {
+	if (!/^[0-9a-f]{40}$/.test(model.revision)) {
+		throw new Error(`The model ${model.id} is not pinned to a commit: ${model.revision || "no revision"}`)
+	}
+
+	for (const [file, sha256] of Object.entries(model.files)) {
+		if (!/^[0-9a-f]{64}$/.test(sha256)) {
+			throw new Error(`The model file ${file} of ${model.id} has no SHA-256`)
+		}
+	}
+}
+
+// Downloads the files of the model at its pinned revision, a file is only cached once its SHA-256 matches.
+async function downloadModelFiles(model: LocalEmbeddingModel, modelDir: string): Promise<void> {
+	for (const [file, sha256] of Object.entries(model.files)) {
+		const filePath = path.join(modelDir, file)
+
+		if (fs.existsSync(filePath) && sha256File(filePath) === sha256) {
+			continue
+		}
+
+		const url = `https://huggingface.co/${model.id}/resolve/${model.revision}/${file}`
+		const response = await fetch(url)
+
+		if (!response.ok) {
+			throw new Error(`Failed to download ${url}: ${response.status} ${response.statusText}`)
+		}
+
+		const content = Buffer.from(await response.arrayBuffer())
+		const actualSha256 = createHash("sha256").update(content).digest("hex")
+
+		if (actualSha256 !== sha256) {
+			throw new Error(`The SHA-256 of ${url} is ${actualSha256}, expected ${sha256}`)
+		}
+
+		// Write to a temporary file first so that an interrupted download is not mistaken for a cached file.
+		fs.mkdirSync(path.dirname(filePath), { recursive: true })
+		fs.writeFileSync(`${filePath}.download`, content)
+		fs.renameSync(`${filePath}.download`, filePath)
+		console.log(`[copyLocalEmbedder] Downloaded ${url}`)
+	}
+}
+
+/**
+ * Pins a model of the local embedder to the commit a revision of its Hugging Face repository points to,
+ * with the SHA-256 of the given files at that commit.
+ */
+export async function pinLocalEmbeddingModel(
+	id: string,
+	files: string[],
+	revision: string = "main",
+): Promise<LocalEmbeddingModel> {
+	const apiUrl = `https://huggingface.co/api/models/${id}/revision/${revision}`
+	const response = await fetch(apiUrl)
+
+	if (!response.ok) {
+		throw new Error(`Failed to resolve ${apiUrl}: ${response.status} ${response.statusText}`)
+	}
+
+	const { sha } = (await response.json()) as { sha: string }
+	const model: LocalEmbeddingModel = { id, revision: sha, files: {} }
+
+	for (const file of files) {
+		const url = `https://huggingface.co/${id}/resolve/${sha}/${file}`
+		const fileResponse = await fetch(url)
+
+		if (!fileResponse.ok) {
+			throw new Error(`Failed to download ${url}: ${fileResponse.status} ${fileResponse.statusText}`)
+		}
+
+		model.files[file] = createHash("sha256")
+			.update(Buffer.from(await fileResponse.arrayBuffer()))
+			.digest("hex")
+	}
+
+	return model
+}
+
+/**
+ * Copies what the local embedder needs at runtime into the dist directory: the native ONNX runtime
+ * bindings, which can't be bundled and are required from `dist/node_modules`, and the code embedding
+ * model, which is downloaded from Hugging Face at its pinned revision once and cached in
+ * `node_modules/.cache`. Each model file is checked against its SHA-256 before it is cached or copied.
+ *
+ * The ONNX runtime has native bindings for each platform, a `target` in the `<platform>-<arch>` form
+ * of `vsce package --target` only copies the bindings of that platform.
+ *
+ * A model that isn't pinned or can't be downloaded fails the build.
+ */
+export async function copyLocalEmbedder(
+	srcDir: string,
+	distDir: string,
+	{ model, target }: { model: LocalEmbeddingModel; target?: string },
+): Promise<void> {
+	assertModelPinned(model)
+
+	const transformersPath = createRequire(path.join(srcDir, "package.json")).resolve("@huggingface/transformers")
+	const onnxruntimeNodeDir = findPackageDir(
+		createRequire(transformersPath).resolve("onnxruntime-node"),
+		"onnxruntime-node",
+	)
+	const onnxruntimeCommonDir = findPackageDir(
+		createRequire(path.join(onnxruntimeNodeDir, "package.json")).resolve("onnxruntime-common"),
+		"onnxruntime-common",
+	)
+
+	const runtimePackages: [string, string][] = [
+		["onnxruntime-node", onnxruntimeNodeDir],
+		["onnxruntime-common", onnxruntimeCommonDir],
+	]
+
+	const targets = getOnnxruntimeTargets(onnxruntimeNodeDir)
+
+	if (target && !targets.includes(target)) {
+		throw new Error(`onnxruntime-node has no native bindings for ${target}, only for ${targets.join(", ")}`)
+	}
+
+	const copiedTargets = target ? [target] : targets
+
+	for (const [name, packageDir] of runtimePackages) {
+		const destDir = path.join(distDir, "node_modules", name)
+
+		// Copied again when an earlier build was for other targets
+		if (
+			fs.existsSync(destDir) &&
+			name === "onnxruntime-node" &&
+			getOnnxruntimeTargets(destDir).join() !== copiedTargets.join()
+		) {
+			fs.rmSync(destDir, { recursive: true, force: true })
+		}
+
+		if (!fs.existsSync(destDir)) {
+			fs.cpSync(packageDir, destDir, {
+				recursive: true,
+				dereference: true,
+				filter: (src) =>
+					path.basename(src) !== "node_modules" &&
+					(!target || name !== "onnxruntime-node" || isOnnxruntimeFileForTarget(packageDir, src, target)),
+			})
+		}
+	}
+
+	console.log(
+		`[copyLocalEmbedder] Copied the ONNX runtime for ${copiedTargets.join(", ")} to ${path.join(distDir, "node_modules")}`,
+	)
+
+	const cachedModelDir = path.join(srcDir, "node_modules", ".cache", "embedding-models", model.id, model.revision)
+	const modelDir = path.join(distDir, "embedding-models", model.id)
+
+	await downloadModelFiles(model, cachedModelDir)
+
+	for (const [file, sha256] of Object.entries(model.files)) {
+		const destPath = path.join(modelDir, file)
+
+		if (!fs.existsSync(destPath) || sha256File(destPath) !== sha256) {
+			fs.mkdirSync(path.dirname(destPath), { recursive: true })
+			fs.copyFileSync(path.join(cachedModelDir, file), destPath)
+		}
+	}
+
+	console.log(`[copyLocalEmbedder] Copied the model ${model.id}@${model.revision} to ${modelDir}`)
+}
+// kilocode_change end
+
 export function copyLocales(srcDir: string, distDir: string): void {
 	const destDir = path.join(distDir, "i18n", "locales")
 	fs.mkdirSync(destDir, { recursive: true })
@@ -1,2 +1,11 @@
 export { getGitSha } from "./git.js"
-export { copyPaths, copyWasms, copyLocales, setupLocaleWatcher, generatePackageJson } from "./esbuild.js"
+export {
+	copyPaths,
+	copyWasms,
+	copyLocales,
+	setupLocaleWatcher,
+	generatePackageJson,
+	copyLocalEmbedder, // kilocode_change
+	pinLocalEmbeddingModel, // kilocode_change
+} from "./esbuild.js"
+export type { LocalEmbeddingModel } from "./esbuild.js" // kilocode_change
@@ -11,6 +11,8 @@ export const autoPurgeSettingsSchema = z.object({
 	favoritedTaskRetentionDays: z.number().min(1).nullable(), // null = never purge
 	completedTaskRetentionDays: z.number().min(1),
 	incompleteTaskRetentionDays: z.number().min(1),
+	storageQuotaMb: z.number().min(1).nullable().optional(), // null = no quota
+	maxCheckpointSizeMb: z.number().min(1).nullable().optional(), // null = keep all checkpoints
 	lastRunTimestamp: z.number().optional(),
 })
 
@@ -26,6 +28,11 @@ export enum TaskType {
 	REGULAR = "regular",
 }
 
+/**
+ * Why a task is purged, or only its checkpoints for "checkpoint_size"
+ */
+export type PurgeReason = "age" | "storage_quota" | "checkpoint_size"
+
 /**
  * Information about a task eligible for purging
  */
@@ -39,6 +46,18 @@ export interface TaskPurgeInfo {
 	taskDirectoryPath: string
 }
 
+/**
+ * A task deleted (or that would be deleted in a dry run) by a purge operation
+ */
+export interface PurgedTaskInfo {
+	taskId: string
+	task: string
+	taskType: TaskType
+	reason: PurgeReason
+	ageInDays: number
+	sizeBytes: number
+}
+
 /**
  * Result of a purge operation
  */
@@ -48,6 +67,10 @@ export interface PurgeResult {
 	tasksSuccessfullyPurged: number
 	tasksPurgeErrors: number
 	diskSpaceFreedBytes: number
+	checkpointsPruned: number
+	/** Size of the tasks left after the purge, only measured when a quota or checkpoint limit is set */
+	storageUsedBytes?: number
+	purgedTasks: PurgedTaskInfo[]
 	errors: PurgeError[]
 	duration: number
 	timestamp: number
@@ -59,7 +82,7 @@ export interface PurgeResult {
 export interface PurgeError {
 	taskId: string
 	error: string
-	operation: "delete_files" | "remove_history" | "classify_task"
+	operation: "delete_files" | "delete_checkpoints" | "remove_history" | "classify_task"
 }
 
 /**
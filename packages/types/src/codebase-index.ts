@@ -12,6 +12,12 @@ export const CODEBASE_INDEX_DEFAULTS = {
 	MAX_SEARCH_SCORE: 1,
 	DEFAULT_SEARCH_MIN_SCORE: 0.4,
 	SEARCH_SCORE_STEP: 0.05,
+	// kilocode_change start
+	MIN_SEARCH_KEYWORD_WEIGHT: 0,
+	MAX_SEARCH_KEYWORD_WEIGHT: 1,
+	DEFAULT_SEARCH_KEYWORD_WEIGHT: 0,
+	SEARCH_KEYWORD_WEIGHT_STEP: 0.05,
+	// kilocode_change end
 } as const
 
 /**
@@ -21,8 +27,9 @@ export const CODEBASE_INDEX_DEFAULTS = {
 export const codebaseIndexConfigSchema = z.object({
 	codebaseIndexEnabled: z.boolean().optional(),
 	codebaseIndexQdrantUrl: z.string().optional(),
+	codebaseIndexVectorStoreProvider: z.enum(["qdrant", "local"]).optional(), // kilocode_change
 	codebaseIndexEmbedderProvider: z
-		.enum(["openai", "ollama", "openai-compatible", "gemini", "mistral", "vercel-ai-gateway"])
+		.enum(["openai", "ollama", "openai-compatible", "gemini", "mistral", "vercel-ai-gateway", "local"]) // kilocode_change: local
 		.optional(),
 	codebaseIndexEmbedderBaseUrl: z.string().optional(),
 	codebaseIndexEmbedderModelId: z.string().optional(),
@@ -33,6 +40,13 @@ export const codebaseIndexConfigSchema = z.object({
 		.min(CODEBASE_INDEX_DEFAULTS.MIN_SEARCH_RESULTS)
 		.max(CODEBASE_INDEX_DEFAULTS.MAX_SEARCH_RESULTS)
 		.optional(),
+	// kilocode_change start
+	codebaseIndexSearchKeywordWeight: z
+		.number()
+		.min(CODEBASE_INDEX_DEFAULTS.MIN_SEARCH_KEYWORD_WEIGHT)
+		.max(CODEBASE_INDEX_DEFAULTS.MAX_SEARCH_KEYWORD_WEIGHT)
+		.optional(),
+	// kilocode_change end
 	// OpenAI Compatible specific fields
 	codebaseIndexOpenAiCompatibleBaseUrl: z.string().optional(),
 	codebaseIndexOpenAiCompatibleModelDimension: z.number().optional(),
@@ -51,6 +65,7 @@ export const codebaseIndexModelsSchema = z.object({
 	gemini: z.record(z.string(), z.object({ dimension: z.number() })).optional(),
 	mistral: z.record(z.string(), z.object({ dimension: z.number() })).optional(),
 	"vercel-ai-gateway": z.record(z.string(), z.object({ dimension: z.number() })).optional(),
+	local: z.record(z.string(), z.object({ dimension: z.number() })).optional(), // kilocode_change
 })
 
 export type CodebaseIndexModels = z.infer<typeof codebaseIndexModelsSchema>
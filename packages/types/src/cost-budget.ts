@@ -0,0 +1,18 @@
+// kilocode_change - file added
+import { z } from "zod"
+
+/**
+ * Spending of the current task and of its workspace against the cost budgets, in USD
+ */
+export const costBudgetStatusSchema = z.object({
+	/** Cost of the task, including the estimated cost of the response being streamed */
+	taskCost: z.number(),
+	taskBudget: z.number().optional(),
+	/** Cost of the tasks of the workspace active today, including this task */
+	workspaceCost: z.number(),
+	workspaceBudget: z.number().optional(),
+	/** The budget that is used up, the task can not make requests until it is raised */
+	exceeded: z.enum(["task", "workspace"]).optional(),
+})
+
+export type CostBudgetStatus = z.infer<typeof costBudgetStatusSchema>
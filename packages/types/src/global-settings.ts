@@ -14,6 +14,7 @@ import { telemetrySettingsSchema } from "./telemetry.js"
 import { modeConfigSchema } from "./mode.js"
 import { customModePromptsSchema, customSupportPromptsSchema } from "./mode.js"
 import { languagesSchema } from "./vscode.js"
+import { condensingStrategySchema } from "./message.js" // kilocode_change
 import { fastApplyModelSchema, ghostServiceSettingsSchema } from "./kilocode/kilocode.js"
 
 /**
@@ -51,6 +52,7 @@ export const globalSettingsSchema = z.object({
 
 	condensingApiConfigId: z.string().optional(),
 	customCondensingPrompt: z.string().optional(),
+	condensingStrategy: condensingStrategySchema.optional(), // kilocode_change
 
 	autoApprovalEnabled: z.boolean().optional(),
 	yoloMode: z.boolean().optional(), // kilocode_change
@@ -77,6 +79,10 @@ export const globalSettingsSchema = z.object({
 	preventCompletionWithOpenTodos: z.boolean().optional(),
 	allowedMaxRequests: z.number().nullish(),
 	allowedMaxCost: z.number().nullish(),
+	// kilocode_change start
+	taskCostBudget: z.number().min(0).nullish(),
+	workspaceDailyCostBudget: z.number().min(0).nullish(),
+	// kilocode_change end
 	autoCondenseContext: z.boolean().optional(),
 	autoCondenseContextPercent: z.number().optional(),
 	maxConcurrentFileReads: z.number().optional(),
@@ -117,6 +123,8 @@ export const globalSettingsSchema = z.object({
 	autoPurgeFavoritedTaskRetentionDays: z.number().min(1).nullable().optional(),
 	autoPurgeCompletedTaskRetentionDays: z.number().min(1).optional(),
 	autoPurgeIncompleteTaskRetentionDays: z.number().min(1).optional(),
+	autoPurgeStorageQuotaMb: z.number().min(1).nullable().optional(),
+	autoPurgeMaxCheckpointSizeMb: z.number().min(1).nullable().optional(),
 	autoPurgeLastRunTimestamp: z.number().optional(),
 	// kilocode_change end
 
@@ -144,6 +152,10 @@ export const globalSettingsSchema = z.object({
 	terminalZshP10k: z.boolean().optional(),
 	terminalZdotdir: z.boolean().optional(),
 	terminalCompressProgressBar: z.boolean().optional(),
+	// kilocode_change start
+	terminalSandboxModes: z.array(z.string()).optional(),
+	terminalSandboxNetworkEnabled: z.boolean().optional(),
+	// kilocode_change end
 
 	diagnosticsEnabled: z.boolean().optional(),
 
@@ -352,6 +364,8 @@ export const EVALS_SETTINGS: RooCodeSettings = {
 	autoPurgeFavoritedTaskRetentionDays: null, // null = never purge
 	autoPurgeCompletedTaskRetentionDays: 30,
 	autoPurgeIncompleteTaskRetentionDays: 7,
+	autoPurgeStorageQuotaMb: null, // null = no quota
+	autoPurgeMaxCheckpointSizeMb: null, // null = keep all checkpoints
 	// kilocode_change end
 
 	rateLimitSeconds: 0,
@@ -20,6 +20,11 @@ export const historyItemSchema = z.object({
 	workspace: z.string().optional(),
 	isFavorited: z.boolean().optional(), // kilocode_change
 	fileNotfound: z.boolean().optional(), // kilocode_change
+	forkedFromTaskId: z.string().optional(), // kilocode_change
+	// kilocode_change start
+	/** Cost of the requests made on the day of the last activity, `day` is the start of that day */
+	dailyCost: z.object({ day: z.number(), cost: z.number() }).optional(),
+	// kilocode_change end
 	mode: z.string().optional(),
 })
 
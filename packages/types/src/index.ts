@@ -2,6 +2,7 @@ export * from "./api.js"
 export * from "./auto-purge.js" // kilocode_change
 export * from "./cloud.js"
 export * from "./codebase-index.js"
+export * from "./cost-budget.js" // kilocode_change
 export * from "./cookie-consent.js"
 export * from "./events.js"
 export * from "./experiment.js"
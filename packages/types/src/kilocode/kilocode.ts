@@ -12,6 +12,9 @@ export const ghostServiceSettingsSchema = z
 		enableQuickInlineTaskKeybinding: z.boolean().optional(),
 		enableSmartInlineTaskKeybinding: z.boolean().optional(),
 		useNewAutocomplete: z.boolean().optional(),
+		enableNextEdit: z.boolean().optional(),
+		recordCompletionEvents: z.boolean().optional(),
+		recordCompletionContexts: z.boolean().optional(),
 		provider: z.string().optional(),
 		model: z.string().optional(),
 	})
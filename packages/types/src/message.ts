@@ -44,6 +44,7 @@ export const clineAsks = [
 	"invalid_model",
 	"report_bug",
 	"condense",
+	"mcp_elicitation", // An MCP server requests structured input from the user
 	// kilocode_change end
 ] as const
 
@@ -101,6 +102,7 @@ export const interactiveAsks = [
 	"tool",
 	"browser_action_launch",
 	"use_mcp_server",
+	"mcp_elicitation", // kilocode_change
 ] as const satisfies readonly ClineAsk[]
 
 export type InteractiveAsk = (typeof interactiveAsks)[number]
@@ -194,11 +196,32 @@ export type ToolProgressStatus = z.infer<typeof toolProgressStatusSchema>
  * ContextCondense
  */
 
+// kilocode_change start
+export const condensingStrategies = [
+	"llmSummary",
+	"topicSummaries",
+	"dropStaleToolResults",
+	"collapseSupersededFiles",
+] as const
+
+export const condensingStrategySchema = z.enum(condensingStrategies)
+
+export type CondensingStrategy = z.infer<typeof condensingStrategySchema>
+
+export const condensingStrategyReportSchema = z.object({
+	strategy: condensingStrategySchema,
+	tokensSaved: z.number(),
+})
+
+export type CondensingStrategyReport = z.infer<typeof condensingStrategyReportSchema>
+// kilocode_change end
+
 export const contextCondenseSchema = z.object({
 	cost: z.number(),
 	prevContextTokens: z.number(),
 	newContextTokens: z.number(),
 	summary: z.string(),
+	strategies: z.array(condensingStrategyReportSchema).optional(), // kilocode_change
 })
 
 export type ContextCondense = z.infer<typeof contextCondenseSchema>
@@ -221,6 +244,7 @@ export const clineMessageSchema = z.object({
 	progressStatus: toolProgressStatusSchema.optional(),
 	contextCondense: contextCondenseSchema.optional(),
 	isProtected: z.boolean().optional(),
+	requiresApproval: z.boolean().optional(), // kilocode_change: the mode requires approval, even when auto-approval is on
 	apiProtocol: z.union([z.literal("openai"), z.literal("anthropic")]).optional(),
 	isAnswered: z.boolean().optional(),
 	metadata: z
@@ -1,6 +1,7 @@
 import { z } from "zod"
 
-import { toolGroupsSchema } from "./tool.js"
+import { toolGroupsSchema, toolNamesSchema /* kilocode_change */ } from "./tool.js"
+import { condensingStrategySchema } from "./message.js" // kilocode_change
 
 /**
  * GroupOptions
@@ -26,6 +27,18 @@ export const groupOptionsSchema = z.object({
 			{ message: "Invalid regular expression pattern" },
 		),
 	description: z.string().optional(),
+	// kilocode_change start
+	/** For the command group, the prefixes of the commands that may be run, `*` allows any command */
+	allowedCommands: z.array(z.string()).optional(),
+	/** For the mcp group, the servers (`server`) or tools (`server/tool`) that may be used */
+	allowedMcpTools: z.array(z.string()).optional(),
+	/**
+	 * For the read group, gitignore style patterns of the workspace paths that may not be read with
+	 * read_file, setting it denies the paths outside of the workspace and the tools searching or
+	 * listing directories too
+	 */
+	deniedPaths: z.array(z.string()).optional(),
+	// kilocode_change end
 })
 
 export type GroupOptions = z.infer<typeof groupOptionsSchema>
@@ -71,16 +84,52 @@ export const modeConfigSchema = z.object({
 	groups: groupEntryArraySchema,
 	source: z.enum(["global", "project", "organization"]).optional(), // kilocode_change: Added "organization" source
 	iconName: z.string().optional(), // kilocode_change
+	condensingStrategy: condensingStrategySchema.optional(), // kilocode_change
+	extends: z.string().optional(), // kilocode_change: slug of the mode this mode inherits from
+	inheritGroups: z.boolean().optional(), // kilocode_change: false to use only the groups of the mode
+	requireApproval: z.array(toolNamesSchema).optional(), // kilocode_change: tools that are never auto-approved
 })
 
 export type ModeConfig = z.infer<typeof modeConfigSchema>
 
+// kilocode_change start
+/**
+ * CustomModeConfig
+ *
+ * A mode as written in .kilocodemodes or custom_modes.yaml, a mode that extends another one only
+ * needs the fields it overrides.
+ */
+
+export const customModeConfigSchema = modeConfigSchema
+	.extend({
+		roleDefinition: modeConfigSchema.shape.roleDefinition.optional(),
+		groups: groupEntryArraySchema.optional(),
+	})
+	.superRefine((mode, ctx) => {
+		if (mode.extends) {
+			return
+		}
+		if (mode.roleDefinition === undefined) {
+			ctx.addIssue({
+				code: z.ZodIssueCode.custom,
+				path: ["roleDefinition"],
+				message: "Role definition is required",
+			})
+		}
+		if (mode.groups === undefined) {
+			ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["groups"], message: "Required" })
+		}
+	})
+
+export type CustomModeConfig = z.infer<typeof customModeConfigSchema>
+// kilocode_change end
+
 /**
  * CustomModesSettings
  */
 
 export const customModesSettingsSchema = z.object({
-	customModes: z.array(modeConfigSchema).refine(
+	customModes: z.array(customModeConfigSchema /* kilocode_change */).refine(
 		(modes) => {
 			const slugs = new Set()
 
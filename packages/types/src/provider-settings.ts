@@ -112,7 +112,7 @@ export const isCustomProvider = (key: string): key is CustomProvider => customPr
  * model lists.
  */
 
-export const fauxProviders = ["fake-ai", "human-relay"] as const
+export const fauxProviders = ["fake-ai", "human-relay", "replay"] as const // kilocode_change: add replay
 
 export type FauxProvider = (typeof fauxProviders)[number]
 
@@ -149,6 +149,7 @@ export const providerNames = [
 	"kilocode",
 	"gemini-cli",
 	"virtual-quota-fallback",
+	"provider-router",
 	"synthetic",
 	"inception",
 	// kilocode_change end
@@ -381,6 +382,15 @@ const fakeAiSchema = baseProviderSettingsSchema.extend({
 	fakeAi: z.unknown().optional(),
 })
 
+// kilocode_change start
+const replaySchema = baseProviderSettingsSchema.extend({
+	/** Cassette recorded from a real session, whose responses are played back */
+	replayCassettePath: z.string().optional(),
+	/** Only play back the responses recorded for the exact same request, instead of the next recorded one */
+	replayStrict: z.boolean().optional(),
+})
+// kilocode_change end
+
 const xaiSchema = apiModelIdProviderModelSchema.extend({
 	xaiApiKey: z.string().optional(),
 })
@@ -456,6 +466,64 @@ export const virtualQuotaFallbackProfileDataSchema = z.object({
 const virtualQuotaFallbackSchema = baseProviderSettingsSchema.extend({
 	profiles: z.array(virtualQuotaFallbackProfileDataSchema).optional(),
 })
+
+/**
+ * Conditions a request has to meet to be routed to a profile. Besides these, a profile is
+ * only used when the prompt fits in the context window of its model, when its model
+ * supports images if the request has any and when it uses native tools if the request does.
+ */
+export const providerRouterRulesSchema = z.object({
+	/** Mode slugs the profile is used in, all modes when empty */
+	modes: z.array(z.string()).optional(),
+	minPromptTokens: z.coerce.number().optional(),
+	maxPromptTokens: z.coerce.number().optional(),
+	/** Skip the profile while the p95 latency of its recent requests is above this */
+	maxLatencyMs: z.coerce.number().optional(),
+	/** Skip the profile while the share of its recent requests that failed is above this, from 0 to 1 */
+	maxErrorRate: z.coerce.number().min(0).max(1).optional(),
+})
+
+export type ProviderRouterRules = z.infer<typeof providerRouterRulesSchema>
+
+export const providerRouterCandidateSchema = z.object({
+	profileName: z.string().optional(),
+	profileId: z.string().optional(),
+	rules: providerRouterRulesSchema.optional(),
+})
+
+export type ProviderRouterCandidate = z.infer<typeof providerRouterCandidateSchema>
+
+/**
+ * How the profiles matching a request are ordered: as configured, cheapest input price
+ * first or lowest p95 latency first. The next one is tried when a request fails.
+ */
+export const providerRouterStrategies = ["order", "cost", "latency"] as const
+
+export const providerRouterStrategySchema = z.enum(providerRouterStrategies)
+
+export type ProviderRouterStrategy = z.infer<typeof providerRouterStrategySchema>
+
+const providerRouterSchema = baseProviderSettingsSchema.extend({
+	routerCandidates: z.array(providerRouterCandidateSchema).optional(),
+	routerStrategy: providerRouterStrategySchema.optional(),
+})
+
+/**
+ * How a request was routed, saved with its `api_req_started` message
+ */
+export interface ProviderRouterTrace {
+	strategy: ProviderRouterStrategy
+	mode?: string
+	promptTokens: number
+	hasImages: boolean
+	usesTools: boolean
+	candidates: Array<{
+		profileName: string
+		modelId?: string
+		status: "selected" | "failed" | "skipped" | "unused"
+		reason?: string
+	}>
+}
 // kilocode_change end
 
 export const zaiApiLineSchema = z.enum(["international_coding", "china_coding"])
@@ -526,11 +594,13 @@ export const providerSettingsSchemaDiscriminated = z.discriminatedUnion("apiProv
 	requestySchema.merge(z.object({ apiProvider: z.literal("requesty") })),
 	humanRelaySchema.merge(z.object({ apiProvider: z.literal("human-relay") })),
 	fakeAiSchema.merge(z.object({ apiProvider: z.literal("fake-ai") })),
+	replaySchema.merge(z.object({ apiProvider: z.literal("replay") })), // kilocode_change
 	xaiSchema.merge(z.object({ apiProvider: z.literal("xai") })),
 	// kilocode_change start
 	geminiCliSchema.merge(z.object({ apiProvider: z.literal("gemini-cli") })),
 	kilocodeSchema.merge(z.object({ apiProvider: z.literal("kilocode") })),
 	virtualQuotaFallbackSchema.merge(z.object({ apiProvider: z.literal("virtual-quota-fallback") })),
+	providerRouterSchema.merge(z.object({ apiProvider: z.literal("provider-router") })),
 	syntheticSchema.merge(z.object({ apiProvider: z.literal("synthetic") })),
 	inceptionSchema.merge(z.object({ apiProvider: z.literal("inception") })),
 	// kilocode_change end
@@ -567,6 +637,7 @@ export const providerSettingsSchema = z.object({
 	...geminiCliSchema.shape,
 	...kilocodeSchema.shape,
 	...virtualQuotaFallbackSchema.shape,
+	...providerRouterSchema.shape,
 	...syntheticSchema.shape,
 	...ovhcloudSchema.shape,
 	...inceptionSchema.shape,
@@ -581,6 +652,7 @@ export const providerSettingsSchema = z.object({
 	...requestySchema.shape,
 	...humanRelaySchema.shape,
 	...fakeAiSchema.shape,
+	...replaySchema.shape, // kilocode_change
 	...xaiSchema.shape,
 	...groqSchema.shape,
 	...huggingFaceSchema.shape,
@@ -687,6 +759,7 @@ export const modelIdKeysByProvider: Record<TypicalProvider, ModelIdKey> = {
 	"vercel-ai-gateway": "vercelAiGatewayModelId",
 	kilocode: "kilocodeModel",
 	"virtual-quota-fallback": "apiModelId",
+	"provider-router": "apiModelId",
 	ovhcloud: "ovhCloudAiEndpointsModelId", // kilocode_change
 	inception: "inceptionLabsModelId", // kilocode_change
 }
@@ -720,7 +793,7 @@ export const getApiProtocol = (provider: ProviderName | undefined, modelId?: str
  */
 
 export const MODELS_BY_PROVIDER: Record<
-	Exclude<ProviderName, "fake-ai" | "human-relay" | "gemini-cli" | "openai" | "gemini">, // kilocode_change: add gemini
+	Exclude<ProviderName, "fake-ai" | "human-relay" | "replay" | "gemini-cli" | "openai" | "gemini">, // kilocode_change: add gemini, replay
 	{ id: ProviderName; label: string; models: string[] }
 > = {
 	anthropic: {
@@ -827,6 +900,7 @@ export const MODELS_BY_PROVIDER: Record<
 	kilocode: { id: "kilocode", label: "Kilocode", models: [] },
 	"kilocode-openrouter": { id: "kilocode-openrouter", label: "Kilocode", models: [] }, // temporarily needed to satisfy because we're using 2 inconsistent names apparently
 	"virtual-quota-fallback": { id: "virtual-quota-fallback", label: "Virtual Quota Fallback", models: [] },
+	"provider-router": { id: "provider-router", label: "Provider Router", models: [] },
 	// kilocode_change end
 	deepinfra: { id: "deepinfra", label: "DeepInfra", models: [] },
 	"vercel-ai-gateway": { id: "vercel-ai-gateway", label: "Vercel AI Gateway", models: [] },
@@ -32,3 +32,24 @@ export const commandExecutionStatusSchema = z.discriminatedUnion("status", [
 ])
 
 export type CommandExecutionStatus = z.infer<typeof commandExecutionStatusSchema>
+
+// kilocode_change start
+/**
+ * BackgroundJob
+ */
+
+export const backgroundJobStatuses = ["running", "exited", "killed"] as const
+
+export const backgroundJobSchema = z.object({
+	id: z.number(),
+	command: z.string(),
+	cwd: z.string(),
+	taskId: z.string().optional(),
+	status: z.enum(backgroundJobStatuses),
+	exitCode: z.number().optional(),
+	startedAt: z.number(),
+	endedAt: z.number().optional(),
+})
+
+export type BackgroundJob = z.infer<typeof backgroundJobSchema>
+// kilocode_change end
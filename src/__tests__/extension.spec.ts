@@ -196,6 +196,7 @@ vi.mock("../integrations/terminal/TerminalRegistry", () => ({
 	TerminalRegistry: {
 		initialize: vi.fn(),
 		cleanup: vi.fn(),
+		onDidChangeBackgroundJobs: vi.fn(() => ({ dispose: vi.fn() })),
 	},
 }))
 
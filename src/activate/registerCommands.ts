@@ -257,6 +257,19 @@ const getCommandsMap = ({ context, outputChannel }: RegisterCommandOptions): Rec
 			contextProxy: visibleProvider.contextProxy,
 		})
 	},
+	previewAutoPurge: async () => {
+		const visibleProvider = getVisibleProviderOrLog(outputChannel)
+		if (!visibleProvider) return
+
+		try {
+			await visibleProvider.previewAutoPurge()
+		} catch (error) {
+			outputChannel.appendLine(`Error in previewAutoPurge: ${error}`)
+			vscode.window.showErrorMessage(
+				`Auto-purge preview failed: ${error instanceof Error ? error.message : error}`,
+			)
+		}
+	},
 	// Handle external URI - used by JetBrains plugin to forward auth tokens
 	handleExternalUri: async (uriString: string) => {
 		const visibleProvider = getVisibleProviderOrLog(outputChannel)
@@ -32,6 +32,8 @@ import {
 	LiteLLMHandler,
 	// kilocode_change start
 	VirtualQuotaFallbackHandler,
+	ProviderRouterHandler,
+	ReplayHandler,
 	GeminiCliHandler,
 	// kilocode_change end
 	ClaudeCodeHandler,
@@ -126,6 +128,8 @@ export function buildApiHandler(configuration: ProviderSettings): ApiHandler {
 			return new GeminiCliHandler(options)
 		case "virtual-quota-fallback":
 			return new VirtualQuotaFallbackHandler(options)
+		case "provider-router":
+			return new ProviderRouterHandler(options)
 		// kilocode_change end
 		case "anthropic":
 			return new AnthropicHandler(options)
@@ -171,6 +175,10 @@ export function buildApiHandler(configuration: ProviderSettings): ApiHandler {
 			return new HumanRelayHandler()
 		case "fake-ai":
 			return new FakeAIHandler(options)
+		// kilocode_change start
+		case "replay":
+			return new ReplayHandler(options)
+		// kilocode_change end
 		case "xai":
 			return new XAIHandler(options)
 		case "groq":
@@ -0,0 +1,242 @@
+// kilocode_change - new file
+// npx vitest run src/api/providers/__tests__/provider-router.spec.ts
+
+vitest.mock("vscode", () => ({
+	window: {
+		showInformationMessage: vitest.fn(),
+	},
+	workspace: {
+		workspaceFolders: [{ uri: { fsPath: "/test/path" } }],
+	},
+}))
+
+import type { ExtensionContext } from "vscode"
+import type { ProviderRouterCandidate } from "@roo-code/types"
+
+import { ProviderSettingsManager } from "../../../core/config/ProviderSettingsManager"
+import { ContextProxy } from "../../../core/config/ContextProxy"
+import { buildApiHandler } from "../../index"
+import { ProviderRouterHandler, ProviderRouterStats } from "../provider-router"
+
+vitest.mock("../../../core/config/ProviderSettingsManager")
+vitest.mock("../../index")
+vitest.mock("../../../core/config/ContextProxy")
+
+const createHandler = (id: string, info: Record<string, unknown> = {}) => ({
+	getModel: () => ({ id: `${id}-model`, info: { contextWindow: 100_000, supportsImages: true, ...info } }),
+	countTokens: vitest.fn(),
+	createMessage: vitest.fn(),
+})
+
+async function* streamOf(...texts: string[]) {
+	for (const text of texts) {
+		yield { type: "text" as const, text }
+	}
+}
+
+async function* failingStream(error: Error, ...textsBefore: string[]) {
+	for (const text of textsBefore) {
+		yield { type: "text" as const, text }
+	}
+	throw error
+}
+
+const collect = async (stream: AsyncIterable<{ type: string; text?: string }>) => {
+	const texts: string[] = []
+	for await (const chunk of stream) {
+		texts.push(chunk.text ?? "")
+	}
+	return texts
+}
+
+describe("ProviderRouterStats", () => {
+	let stats: ProviderRouterStats
+
+	beforeEach(() => {
+		stats = new ProviderRouterStats()
+	})
+
+	it("should only report statistics once a profile has enough requests", () => {
+		for (let i = 0; i < 4; i++) {
+			stats.record("p1", { latencyMs: 100, failed: false })
+		}
+		expect(stats.getP95LatencyMs("p1")).toBeUndefined()
+		expect(stats.getErrorRate("p1")).toBeUndefined()
+
+		stats.record("p1", { latencyMs: 100, failed: false })
+		expect(stats.getP95LatencyMs("p1")).toBe(100)
+		expect(stats.getErrorRate("p1")).toBe(0)
+	})
+
+	it("should compute the p95 latency and the error rate", () => {
+		for (let i = 1; i <= 20; i++) {
+			stats.record("p1", { latencyMs: i * 10, failed: i % 4 === 0 })
+		}
+
+		expect(stats.getP95LatencyMs("p1")).toBe(190)
+		expect(stats.getErrorRate("p1")).toBe(0.25)
+	})
+
+	it("should only keep the most recent requests", () => {
+		for (let i = 0; i < 50; i++) {
+			stats.record("p1", { failed: true })
+		}
+		for (let i = 0; i < 50; i++) {
+			stats.record("p1", { latencyMs: 10, failed: false })
+		}
+
+		expect(stats.getErrorRate("p1")).toBe(0)
+	})
+})
+
+describe("ProviderRouterHandler", () => {
+	let mockSettingsManager: { getProfile: any }
+	let handlers: Record<string, ReturnType<typeof createHandler>>
+
+	const createRouter = (candidates: ProviderRouterCandidate[], routerStrategy?: "order" | "cost" | "latency") =>
+		new ProviderRouterHandler({ apiProvider: "provider-router", routerCandidates: candidates, routerStrategy })
+
+	beforeEach(() => {
+		vitest.clearAllMocks()
+		ProviderRouterStats.getInstance().clear()
+
+		vitest.spyOn(ContextProxy, "instance", "get").mockReturnValue({
+			rawContext: {} as ExtensionContext,
+		} as any)
+
+		handlers = {
+			p1: createHandler("p1", { inputPrice: 3 }),
+			p2: createHandler("p2", { inputPrice: 1 }),
+			p3: createHandler("p3", { inputPrice: 2, supportsImages: false, contextWindow: 1_000 }),
+		}
+
+		mockSettingsManager = {
+			getProfile: vitest.fn(async ({ id }: { id: string }) => ({ id, name: `${id}-profile` })),
+		}
+		;(ProviderSettingsManager as any).mockImplementation(() => mockSettingsManager)
+		;(buildApiHandler as any).mockImplementation((profile: { id: string }) => handlers[profile.id])
+	})
+
+	it("should try the matching profiles in the order of the strategy", async () => {
+		const router = createRouter([{ profileId: "p1" }, { profileId: "p2" }, { profileId: "p3" }], "cost")
+		handlers.p2.createMessage.mockReturnValue(streamOf("cheapest"))
+
+		const texts = await collect(router.createMessage("system", [{ role: "user", content: "hello" }]))
+
+		expect(texts).toEqual(["cheapest"])
+		expect(handlers.p1.createMessage).not.toHaveBeenCalled()
+		expect(router.routingTrace?.candidates.map((entry) => [entry.profileName, entry.status])).toEqual([
+			["p2-profile", "selected"],
+			["p3-profile", "unused"],
+			["p1-profile", "unused"],
+		])
+	})
+
+	it("should skip the profiles whose rules or model do not match the request", async () => {
+		const router = createRouter([
+			{ profileId: "p1", rules: { modes: ["architect"] } },
+			{ profileId: "p3" },
+			{ profileId: "p2", rules: { maxPromptTokens: 10_000 } },
+		])
+		handlers.p2.createMessage.mockReturnValue(streamOf("ok"))
+
+		await collect(
+			router.createMessage(
+				"system",
+				[
+					{
+						role: "user",
+						content: [
+							{ type: "text", text: "what is in this image?" },
+							{ type: "image", source: { type: "base64", media_type: "image/png", data: "abc" } },
+						],
+					},
+				],
+				{ taskId: "task", mode: "code" },
+			),
+		)
+
+		const trace = router.routingTrace!
+		expect(trace.mode).toBe("code")
+		expect(trace.hasImages).toBe(true)
+		expect(trace.candidates.find((entry) => entry.profileName === "p1-profile")?.reason).toBe(
+			"only used in the architect modes",
+		)
+		expect(trace.candidates.find((entry) => entry.profileName === "p3-profile")?.reason).toBe(
+			"model does not support images",
+		)
+		expect(trace.candidates.find((entry) => entry.profileName === "p2-profile")?.status).toBe("selected")
+	})
+
+	it("should throw when no profile matches the request", async () => {
+		const router = createRouter([{ profileId: "p1", rules: { minPromptTokens: 1_000 } }])
+
+		await expect(collect(router.createMessage("system", [{ role: "user", content: "hi" }]))).rejects.toThrow(
+			"No provider router profile matches the request. p1-profile: prompt is under 1000 tokens",
+		)
+	})
+
+	it("should retry with the next profile when a request fails before responding", async () => {
+		const router = createRouter([{ profileId: "p1" }, { profileId: "p2" }])
+		const handlerChanged = vitest.fn()
+		router.on("handlerChanged", handlerChanged)
+		handlers.p1.createMessage.mockReturnValue(failingStream(new Error("rate limited")))
+		handlers.p2.createMessage.mockReturnValue(streamOf("fallback"))
+
+		const texts = await collect(router.createMessage("system", [{ role: "user", content: "hello" }]))
+
+		expect(texts).toEqual(["fallback"])
+		expect(handlerChanged).toHaveBeenLastCalledWith(handlers.p2)
+		expect(router.getModel().id).toBe("p2-model")
+		expect(router.routingTrace?.candidates[0]).toEqual({
+			profileName: "p1-profile",
+			modelId: "p1-model",
+			status: "failed",
+			reason: "rate limited",
+		})
+		expect(router.routingTrace?.candidates[1].status).toBe("selected")
+	})
+
+	it("should not retry once the response started streaming", async () => {
+		const router = createRouter([{ profileId: "p1" }, { profileId: "p2" }])
+		handlers.p1.createMessage.mockReturnValue(failingStream(new Error("connection reset"), "partial"))
+
+		await expect(collect(router.createMessage("system", [{ role: "user", content: "hello" }]))).rejects.toThrow(
+			"connection reset",
+		)
+		expect(handlers.p2.createMessage).not.toHaveBeenCalled()
+	})
+
+	it("should skip the profiles over their error rate", async () => {
+		const stats = ProviderRouterStats.getInstance()
+		for (let i = 0; i < 10; i++) {
+			stats.record("p1", { failed: i < 5 })
+		}
+		const router = createRouter([{ profileId: "p1", rules: { maxErrorRate: 0.2 } }, { profileId: "p2" }])
+		handlers.p2.createMessage.mockReturnValue(streamOf("ok"))
+
+		await collect(router.createMessage("system", [{ role: "user", content: "hello" }]))
+
+		expect(handlers.p1.createMessage).not.toHaveBeenCalled()
+		expect(router.routingTrace?.candidates[1]).toMatchObject({
+			profileName: "p1-profile",
+			status: "skipped",
+			reason: "error rate of 50% is over 20%",
+		})
+	})
+
+	it("should not load nested routers", async () => {
+		mockSettingsManager.getProfile.mockImplementation(async ({ id }: { id: string }) => ({
+			id,
+			name: `${id}-profile`,
+			apiProvider: id === "p1" ? "provider-router" : "anthropic",
+		}))
+		const router = createRouter([{ profileId: "p1" }, { profileId: "p2" }])
+
+		await router.initialize()
+
+		expect(buildApiHandler).toHaveBeenCalledTimes(1)
+		expect(router.getModel().id).toBe("p2-model")
+		expect(router.contextWindow).toBe(100_000)
+	})
+})
@@ -0,0 +1,198 @@
+// kilocode_change - new file
+// npx vitest run src/api/providers/__tests__/replay.spec.ts
+
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import type { ApiHandler, ApiHandlerCreateMessageMetadata } from "../../index"
+import type { ApiStream, ApiStreamChunk } from "../../transform/stream"
+import { fingerprintRequest, parseCassette, withCassetteRecording } from "../kilocode/cassette"
+import { ReplayHandler } from "../replay"
+
+const model = { id: "recorded-model", info: { contextWindow: 200_000, supportsPromptCache: true } }
+
+class RecordedHandler implements ApiHandler {
+	responses: ApiStreamChunk[][] = []
+	failAfterChunks = false
+
+	async *createMessage(
+		_systemPrompt: string,
+		_messages: Anthropic.Messages.MessageParam[],
+		_metadata?: ApiHandlerCreateMessageMetadata,
+	): ApiStream {
+		const chunks = this.responses.shift() ?? []
+		yield* chunks
+		if (this.failAfterChunks) {
+			throw new Error("connection reset")
+		}
+	}
+
+	getModel() {
+		return model
+	}
+
+	async countTokens() {
+		return 0
+	}
+}
+
+const userMessage = (text: string): Anthropic.Messages.MessageParam[] => [{ role: "user", content: text }]
+
+const collect = async (stream: ApiStream) => {
+	const chunks: ApiStreamChunk[] = []
+	for await (const chunk of stream) {
+		chunks.push(chunk)
+	}
+	return chunks
+}
+
+describe("API cassettes", () => {
+	let tempDir: string
+	let cassettePath: string
+
+	beforeEach(async () => {
+		tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "kilo-cassette-"))
+		cassettePath = path.join(tempDir, "api_cassette.jsonl")
+	})
+
+	afterEach(async () => {
+		await fs.rm(tempDir, { recursive: true, force: true })
+	})
+
+	const firstResponse: ApiStreamChunk[] = [
+		{ type: "reasoning", text: "Thinking" },
+		{ type: "text", text: "Hello" },
+		{
+			type: "native_tool_calls",
+			toolCalls: [{ index: 0, id: "call_1", function: { name: "read_file", arguments: '{"path":"a.ts"}' } }],
+		},
+		{ type: "usage", inputTokens: 10, outputTokens: 5, totalCost: 0.01 },
+	]
+	const secondResponse: ApiStreamChunk[] = [{ type: "text", text: "Done" }]
+
+	const readCassette = async () => parseCassette(await fs.readFile(cassettePath, "utf8"))
+
+	const record = async () => {
+		const handler = new RecordedHandler()
+		handler.responses = [firstResponse, secondResponse]
+		const recording = withCassetteRecording(handler, async () => cassettePath)
+
+		expect(await collect(recording.createMessage("system", userMessage("first"), { taskId: "a" }))).toEqual(
+			firstResponse,
+		)
+		await collect(recording.createMessage("system", userMessage("second"), { taskId: "a", mode: "code" }))
+		return recording
+	}
+
+	it("should record the streamed chunks and the requests", async () => {
+		const recording = await record()
+
+		expect(recording).toBeInstanceOf(RecordedHandler)
+		const cassette = await readCassette()
+		expect(cassette.format).toBe("kilo-api-cassette")
+		expect(cassette.interactions).toHaveLength(2)
+		expect(cassette.interactions[0]).toEqual({
+			fingerprint: fingerprintRequest("system", userMessage("first"), { taskId: "a" }),
+			model,
+			chunks: firstResponse,
+		})
+		expect(cassette.interactions[1].mode).toBe("code")
+	})
+
+	it("should append one line per request", async () => {
+		await record()
+
+		const lines = (await fs.readFile(cassettePath, "utf8")).trimEnd().split("\n")
+		expect(lines).toHaveLength(3)
+		expect(JSON.parse(lines[0])).toEqual({
+			format: "kilo-api-cassette",
+			version: 1,
+			recordedAt: expect.any(Number),
+		})
+		expect(JSON.parse(lines[2]).chunks).toEqual(secondResponse)
+	})
+
+	it("should go on with the cassette when the handler is rebuilt in the middle of a task", async () => {
+		await record()
+
+		const rebuilt = new RecordedHandler()
+		rebuilt.responses = [[{ type: "text", text: "After the rebuild" }]]
+		const recording = withCassetteRecording(rebuilt, async () => cassettePath)
+		await collect(recording.createMessage("system", userMessage("third"), { taskId: "a" }))
+
+		const cassette = await readCassette()
+		expect(cassette.interactions.map((interaction) => interaction.chunks)).toEqual([
+			firstResponse,
+			secondResponse,
+			[{ type: "text", text: "After the rebuild" }],
+		])
+	})
+
+	it("should record the error a stream ended with", async () => {
+		const handler = new RecordedHandler()
+		handler.responses = [secondResponse]
+		handler.failAfterChunks = true
+		const recording = withCassetteRecording(handler, async () => cassettePath)
+
+		await expect(collect(recording.createMessage("system", userMessage("first")))).rejects.toThrow(
+			"connection reset",
+		)
+
+		const cassette = await readCassette()
+		expect(cassette.interactions[0]).toMatchObject({ chunks: secondResponse, error: "connection reset" })
+
+		const replay = new ReplayHandler({ replayCassettePath: cassettePath })
+		const replayed: ApiStreamChunk[] = []
+		await expect(async () => {
+			for await (const chunk of replay.createMessage("system", userMessage("first"))) {
+				replayed.push(chunk)
+			}
+		}).rejects.toThrow("connection reset")
+		expect(replayed).toEqual(secondResponse)
+	})
+
+	it("should play back the response recorded for the same request", async () => {
+		await record()
+		const replay = new ReplayHandler({ replayCassettePath: cassettePath })
+
+		expect(replay.getModel()).toEqual(model)
+		// The task id is not part of the fingerprint
+		expect(
+			await collect(replay.createMessage("system", userMessage("second"), { taskId: "b", mode: "code" })),
+		).toEqual(secondResponse)
+		expect(await collect(replay.createMessage("system", userMessage("first"), { taskId: "b" }))).toEqual(
+			firstResponse,
+		)
+	})
+
+	it("should play back the next recorded response when the request changed", async () => {
+		await record()
+		const replay = new ReplayHandler({ replayCassettePath: cassettePath })
+
+		expect(await collect(replay.createMessage("system", userMessage("changed")))).toEqual(firstResponse)
+		expect(await collect(replay.createMessage("system", userMessage("changed")))).toEqual(secondResponse)
+		await expect(collect(replay.createMessage("system", userMessage("changed")))).rejects.toThrow(
+			"The replay cassette has no more recorded responses",
+		)
+	})
+
+	it("should only play back the responses of the same request in strict mode", async () => {
+		await record()
+		const replay = new ReplayHandler({ replayCassettePath: cassettePath, replayStrict: true })
+
+		await expect(collect(replay.createMessage("system", userMessage("changed")))).rejects.toThrow(
+			"The replay cassette has no recorded response for this request",
+		)
+	})
+
+	it("should reject files that are not cassettes", async () => {
+		await fs.writeFile(cassettePath, JSON.stringify({ format: "kilo-api-cassette", version: 2 }))
+		const replay = new ReplayHandler({ replayCassettePath: cassettePath })
+
+		await expect(collect(replay.createMessage("system", userMessage("first")))).rejects.toThrow(
+			"Unsupported cassette version 2",
+		)
+	})
+})
@@ -30,6 +30,8 @@ export { VertexHandler } from "./vertex"
 // kilocode_change start
 export { GeminiCliHandler } from "./gemini-cli"
 export { VirtualQuotaFallbackHandler } from "./virtual-quota-fallback"
+export { ProviderRouterHandler } from "./provider-router"
+export { ReplayHandler } from "./replay"
 export { SyntheticHandler } from "./synthetic"
 export { InceptionLabsHandler } from "./inception"
 // kilocode_change end
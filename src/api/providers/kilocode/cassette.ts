@@ -0,0 +1,203 @@
+import crypto from "crypto"
+import * as fs from "fs/promises"
+import * as path from "path"
+import * as vscode from "vscode"
+import { Anthropic } from "@anthropic-ai/sdk"
+import { z } from "zod"
+
+import type { ModelInfo } from "@roo-code/types"
+
+import { GlobalFileNames } from "../../../shared/globalFileNames"
+import { getTaskDirectoryPath } from "../../../utils/storage"
+import type { ApiHandler, ApiHandlerCreateMessageMetadata } from "../../index"
+import type { ApiStream, ApiStreamChunk } from "../../transform/stream"
+
+const CASSETTE_FORMAT = "kilo-api-cassette"
+const CASSETTE_VERSION = 1
+
+const cassetteInteractionSchema = z.object({
+	/** Hash of the request, see {@link fingerprintRequest} */
+	fingerprint: z.string(),
+	mode: z.string().optional(),
+	model: z.object({
+		id: z.string(),
+		info: z.custom<ModelInfo>((value) => typeof value === "object" && value !== null),
+	}),
+	chunks: z.array(
+		z.custom<ApiStreamChunk>((value) => typeof value === "object" && value !== null && "type" in value),
+	),
+	/** Message of the error the stream ended with, after the chunks */
+	error: z.string().optional(),
+})
+
+/**
+ * The first line of a cassette file, each following line is an interaction
+ */
+const cassetteHeaderSchema = z.object({
+	format: z.literal(CASSETTE_FORMAT),
+	version: z.literal(CASSETTE_VERSION),
+	recordedAt: z.number(),
+})
+
+export type CassetteInteraction = z.infer<typeof cassetteInteractionSchema>
+/**
+ * The streamed responses of the API requests of a session, in the order they were made
+ */
+export type Cassette = z.infer<typeof cassetteHeaderSchema> & { interactions: CassetteInteraction[] }
+
+/**
+ * Identifies a request by what the model sees, the task id and the other bookkeeping of the
+ * metadata are left out so the same conversation has the same fingerprint in every session
+ */
+export function fingerprintRequest(
+	systemPrompt: string,
+	messages: Anthropic.Messages.MessageParam[],
+	metadata?: ApiHandlerCreateMessageMetadata,
+): string {
+	return crypto
+		.createHash("sha256")
+		.update(
+			JSON.stringify({
+				systemPrompt,
+				messages,
+				mode: metadata?.mode,
+				tools: metadata?.allowedTools,
+			}),
+		)
+		.digest("hex")
+}
+
+/**
+ * Parses a cassette file, a JSON Lines file with a header line followed by one line per interaction
+ */
+export function parseCassette(content: string): Cassette {
+	const [headerLine, ...interactionLines] = content.split("\n").filter((line) => line.trim() !== "")
+	const header = JSON.parse(headerLine ?? "null")
+	const headerResult = cassetteHeaderSchema.safeParse(header)
+	if (!headerResult.success) {
+		const version = (header as { version?: unknown })?.version
+		throw new Error(
+			typeof version === "number" && version > CASSETTE_VERSION
+				? `Unsupported cassette version ${version}`
+				: `Invalid cassette: ${headerResult.error.issues[0]?.message}`,
+		)
+	}
+
+	const interactions = interactionLines.map((line, index) => {
+		const result = cassetteInteractionSchema.safeParse(JSON.parse(line))
+		if (!result.success) {
+			throw new Error(`Invalid cassette interaction ${index + 1}: ${result.error.issues[0]?.message}`)
+		}
+		return result.data
+	})
+
+	return { ...headerResult.data, interactions }
+}
+
+/** Writes of each cassette file, queued so the handlers of the same task append in order */
+const pendingWrites = new Map<string, Promise<void>>()
+
+async function hasContent(filePath: string): Promise<boolean> {
+	try {
+		return (await fs.stat(filePath)).size > 0
+	} catch (error) {
+		if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+			return false
+		}
+		throw error
+	}
+}
+
+/**
+ * Appends an interaction as a line of the cassette, so a request only writes its own response
+ * however long the recorded session is. The header line is written first for a new cassette.
+ */
+function appendInteraction(cassettePath: string, interaction: CassetteInteraction): Promise<void> {
+	const write = (pendingWrites.get(cassettePath) ?? Promise.resolve())
+		.then(async () => {
+			let lines = JSON.stringify(interaction) + "\n"
+			if (!(await hasContent(cassettePath))) {
+				const header = { format: CASSETTE_FORMAT, version: CASSETTE_VERSION, recordedAt: Date.now() }
+				lines = JSON.stringify(header) + "\n" + lines
+			}
+			await fs.appendFile(cassettePath, lines, "utf8")
+		})
+		.catch((error) => console.error("Failed to write the API cassette:", error))
+		.finally(() => {
+			if (pendingWrites.get(cassettePath) === write) {
+				pendingWrites.delete(cassettePath)
+			}
+		})
+	pendingWrites.set(cassettePath, write)
+	return write
+}
+
+/**
+ * Records the streamed responses of a handler to a cassette, which the replay provider plays back.
+ *
+ * The returned handler is a proxy of the given one, so it can still be told apart with `instanceof`
+ * and its events can still be listened to. Every request is appended to the cassette on disk, so a
+ * handler rebuilt in the middle of a task, or for a resumed task, goes on with the same cassette.
+ */
+export function withCassetteRecording<T extends ApiHandler>(handler: T, getCassettePath: () => Promise<string>): T {
+	const save = async (interaction: CassetteInteraction) => {
+		try {
+			await appendInteraction(await getCassettePath(), interaction)
+		} catch (error) {
+			console.error("Failed to write the API cassette:", error)
+		}
+	}
+
+	async function* recordMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		metadata?: ApiHandlerCreateMessageMetadata,
+	): ApiStream {
+		const fingerprint = fingerprintRequest(systemPrompt, messages, metadata)
+		const chunks: ApiStreamChunk[] = []
+		let errorMessage: string | undefined
+		try {
+			for await (const chunk of handler.createMessage(systemPrompt, messages, metadata)) {
+				chunks.push(structuredClone(chunk))
+				yield chunk
+			}
+		} catch (error) {
+			errorMessage = error instanceof Error ? error.message : String(error)
+			throw error
+		} finally {
+			// Also runs when the request is aborted, the cassette then ends where the stream stopped
+			await save({
+				fingerprint,
+				mode: metadata?.mode,
+				// Read after the request, the model of a virtual provider is only known once it was routed
+				model: handler.getModel(),
+				chunks,
+				error: errorMessage,
+			})
+		}
+	}
+
+	return new Proxy(handler, {
+		get(target, property, receiver) {
+			return property === "createMessage" ? recordMessage : Reflect.get(target, property, receiver)
+		},
+	})
+}
+
+/**
+ * Records the responses of the handler of a task to the cassette of the task when the
+ * `recordApiCassettes` setting is on. Used wherever the handler of a task is built, so recording
+ * goes on after the task switches to another profile.
+ */
+export function withTaskCassetteRecording<T extends ApiHandler>(
+	handler: T,
+	globalStoragePath: string,
+	taskId: string,
+): T {
+	if (!vscode.workspace.getConfiguration("kilo-code").get<boolean>("recordApiCassettes", false)) {
+		return handler
+	}
+	return withCassetteRecording(handler, async () =>
+		path.join(await getTaskDirectoryPath(globalStoragePath, taskId), GlobalFileNames.apiCassette),
+	)
+}
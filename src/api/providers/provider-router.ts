@@ -0,0 +1,379 @@
+// kilocode_change - new file
+import { Anthropic } from "@anthropic-ai/sdk"
+import EventEmitter from "events"
+import {
+	getActiveToolUseStyle,
+	type ModelInfo,
+	type ProviderRouterRules,
+	type ProviderRouterStrategy,
+	type ProviderRouterTrace,
+	type ProviderSettings,
+} from "@roo-code/types"
+
+import { ProviderSettingsManager } from "../../core/config/ProviderSettingsManager"
+import { ContextProxy } from "../../core/config/ContextProxy"
+import { ApiStream } from "../transform/stream"
+import type { ApiHandler, ApiHandlerCreateMessageMetadata } from "../index"
+import { buildApiHandler } from "../index"
+import { OpenRouterHandler } from "./openrouter"
+
+/** Number of recent requests per profile the latency and error rate are computed from */
+const STATS_WINDOW_SIZE = 50
+/** The latency and error rate rules only apply once a profile has this many recent requests */
+const MIN_STATS_SAMPLES = 5
+/** Rough size of a token, good enough to compare a prompt with the context windows */
+const CHARS_PER_TOKEN = 4
+
+interface RequestSample {
+	/** Time until the first chunk of the response */
+	latencyMs?: number
+	failed: boolean
+}
+
+/**
+ * Rolling latency and error rate of the recent requests of each profile, shared by the
+ * routers of all tasks
+ */
+export class ProviderRouterStats {
+	private static instance: ProviderRouterStats | undefined
+
+	private samples = new Map<string, RequestSample[]>()
+
+	static getInstance(): ProviderRouterStats {
+		if (!ProviderRouterStats.instance) {
+			ProviderRouterStats.instance = new ProviderRouterStats()
+		}
+		return ProviderRouterStats.instance
+	}
+
+	record(profileId: string, sample: RequestSample): void {
+		const samples = [...(this.samples.get(profileId) ?? []), sample]
+		this.samples.set(profileId, samples.slice(-STATS_WINDOW_SIZE))
+	}
+
+	getP95LatencyMs(profileId: string): number | undefined {
+		const latencies = (this.samples.get(profileId) ?? [])
+			.map((sample) => sample.latencyMs)
+			.filter((latencyMs): latencyMs is number => latencyMs !== undefined)
+			.sort((a, b) => a - b)
+		if (latencies.length < MIN_STATS_SAMPLES) {
+			return undefined
+		}
+		return latencies[Math.ceil(latencies.length * 0.95) - 1]
+	}
+
+	getErrorRate(profileId: string): number | undefined {
+		const samples = this.samples.get(profileId) ?? []
+		if (samples.length < MIN_STATS_SAMPLES) {
+			return undefined
+		}
+		return samples.filter((sample) => sample.failed).length / samples.length
+	}
+
+	clear(): void {
+		this.samples.clear()
+	}
+}
+
+interface RouterCandidate {
+	handler: ApiHandler
+	profileId: string
+	profileName: string
+	settings: ProviderSettings
+	rules: ProviderRouterRules
+}
+
+interface RoutedRequest {
+	mode?: string
+	promptTokens: number
+	hasImages: boolean
+	usesTools: boolean
+}
+
+type TraceEntry = ProviderRouterTrace["candidates"][number]
+
+/**
+ * Provider Router API processor.
+ * Chooses the profile of each request with the rules of the configured profiles, and retries
+ * the request with the next matching profile when one fails before responding.
+ */
+export class ProviderRouterHandler extends EventEmitter implements ApiHandler {
+	private settingsManager: ProviderSettingsManager
+	private settings: ProviderSettings
+	private stats: ProviderRouterStats
+
+	private candidates: RouterCandidate[] = []
+	private activeCandidate: RouterCandidate | undefined
+	private lastTrace: ProviderRouterTrace | undefined
+	private isInitialized: boolean = false
+
+	constructor(options: ProviderSettings) {
+		super()
+		this.settings = options
+		this.settingsManager = new ProviderSettingsManager(ContextProxy.instance.rawContext)
+		this.stats = ProviderRouterStats.getInstance()
+	}
+
+	async initialize(): Promise<void> {
+		if (!this.isInitialized) {
+			await this.loadCandidates()
+			this.isInitialized = true
+		}
+	}
+
+	/**
+	 * How the last request was routed
+	 */
+	get routingTrace(): ProviderRouterTrace | undefined {
+		return this.lastTrace
+	}
+
+	async *createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		metadata?: ApiHandlerCreateMessageMetadata,
+	): ApiStream {
+		await this.initialize()
+
+		const request = this.describeRequest(systemPrompt, messages, metadata)
+		const { matching, trace } = this.route(request)
+		this.lastTrace = trace
+
+		if (matching.length === 0) {
+			const reasons = trace.candidates.map((entry) => `${entry.profileName}: ${entry.reason}`).join("; ")
+			throw new Error(`No provider router profile matches the request. ${reasons}`)
+		}
+
+		let lastError: unknown
+		for (const [candidate, entry] of matching) {
+			const startTime = Date.now()
+			let latencyMs: number | undefined
+
+			try {
+				this.setActiveCandidate(candidate)
+				entry.status = "selected"
+
+				for await (const chunk of candidate.handler.createMessage(systemPrompt, messages, metadata)) {
+					latencyMs ??= Date.now() - startTime
+					yield chunk
+				}
+
+				this.stats.record(candidate.profileId, {
+					latencyMs: latencyMs ?? Date.now() - startTime,
+					failed: false,
+				})
+				return
+			} catch (error) {
+				this.stats.record(candidate.profileId, { latencyMs, failed: true })
+				entry.status = "failed"
+				entry.reason = error instanceof Error ? error.message : String(error)
+
+				// The response was partly streamed already, it can't be restarted with another profile
+				if (latencyMs !== undefined) {
+					throw error
+				}
+
+				console.warn(`ProviderRouterHandler: ${candidate.profileName} failed, trying the next profile`, error)
+				lastError = error
+			}
+		}
+
+		throw lastError
+	}
+
+	async countTokens(content: Array<Anthropic.Messages.ContentBlockParam>): Promise<number> {
+		await this.initialize()
+		const handler = (this.activeCandidate ?? this.candidates[0])?.handler
+		return handler ? handler.countTokens(content) : 0
+	}
+
+	getModel(): { id: string; info: ModelInfo } {
+		const handler = (this.activeCandidate ?? this.candidates[0])?.handler
+		if (!handler) {
+			return {
+				id: "",
+				info: {
+					maxTokens: 1,
+					contextWindow: 1,
+					supportsPromptCache: false,
+				},
+			}
+		}
+		return handler.getModel()
+	}
+
+	/**
+	 * The largest context window of the profiles, the large prompts are routed to the
+	 * long context models so the context only has to be condensed when it fits none of them
+	 */
+	get contextWindow(): number | undefined {
+		if (this.candidates.length === 0) {
+			return undefined
+		}
+		return Math.max(...this.candidates.map((candidate) => candidate.handler.getModel().info.contextWindow))
+	}
+
+	/**
+	 * Find the profiles matching the request, in the order they should be tried
+	 */
+	private route(request: RoutedRequest): {
+		matching: Array<[RouterCandidate, TraceEntry]>
+		trace: ProviderRouterTrace
+	} {
+		const strategy: ProviderRouterStrategy = this.settings.routerStrategy ?? "order"
+		const matching: Array<[RouterCandidate, TraceEntry]> = []
+		const skipped: TraceEntry[] = []
+
+		for (const candidate of this.candidates) {
+			const reason = this.getSkipReason(candidate, request)
+			const entry: TraceEntry = {
+				profileName: candidate.profileName,
+				modelId: candidate.handler.getModel().id,
+				status: reason ? "skipped" : "unused",
+				reason,
+			}
+			if (reason) {
+				skipped.push(entry)
+			} else {
+				matching.push([candidate, entry])
+			}
+		}
+
+		const sortKey = (candidate: RouterCandidate): number => {
+			switch (strategy) {
+				case "cost":
+					return candidate.handler.getModel().info.inputPrice ?? Infinity
+				case "latency":
+					return this.stats.getP95LatencyMs(candidate.profileId) ?? Infinity
+				default:
+					return 0
+			}
+		}
+		matching.sort(([a], [b]) => sortKey(a) - sortKey(b))
+
+		return {
+			matching,
+			trace: {
+				strategy,
+				...request,
+				candidates: [...matching.map(([, entry]) => entry), ...skipped],
+			},
+		}
+	}
+
+	private getSkipReason(candidate: RouterCandidate, request: RoutedRequest): string | undefined {
+		const { rules } = candidate
+		const { info } = candidate.handler.getModel()
+
+		if (rules.modes?.length && !(request.mode && rules.modes.includes(request.mode))) {
+			return `only used in the ${rules.modes.join(", ")} modes`
+		}
+		if (rules.minPromptTokens && request.promptTokens < rules.minPromptTokens) {
+			return `prompt is under ${rules.minPromptTokens} tokens`
+		}
+		if (rules.maxPromptTokens && request.promptTokens > rules.maxPromptTokens) {
+			return `prompt is over ${rules.maxPromptTokens} tokens`
+		}
+		if (request.promptTokens > info.contextWindow) {
+			return `prompt does not fit in the ${info.contextWindow} tokens context window`
+		}
+		if (request.hasImages && !info.supportsImages) {
+			return "model does not support images"
+		}
+		if (request.usesTools && getActiveToolUseStyle(candidate.settings) !== "json") {
+			return "profile does not use native tool calls"
+		}
+
+		const p95LatencyMs = this.stats.getP95LatencyMs(candidate.profileId)
+		if (rules.maxLatencyMs && p95LatencyMs !== undefined && p95LatencyMs > rules.maxLatencyMs) {
+			return `p95 latency of ${p95LatencyMs}ms is over ${rules.maxLatencyMs}ms`
+		}
+		const errorRate = this.stats.getErrorRate(candidate.profileId)
+		if (rules.maxErrorRate !== undefined && errorRate !== undefined && errorRate > rules.maxErrorRate) {
+			return `error rate of ${Math.round(errorRate * 100)}% is over ${Math.round(rules.maxErrorRate * 100)}%`
+		}
+
+		return undefined
+	}
+
+	private describeRequest(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		metadata?: ApiHandlerCreateMessageMetadata,
+	): RoutedRequest {
+		let characters = systemPrompt.length
+		let hasImages = false
+
+		const addBlocks = (
+			blocks: string | Array<Anthropic.Messages.ContentBlockParam | Anthropic.ImageBlockParam>,
+		) => {
+			if (typeof blocks === "string") {
+				characters += blocks.length
+				return
+			}
+			for (const block of blocks) {
+				if (block.type === "text") {
+					characters += block.text.length
+				} else if (block.type === "image") {
+					hasImages = true
+				} else if (block.type === "tool_use") {
+					characters += JSON.stringify(block.input).length
+				} else if (block.type === "tool_result" && block.content) {
+					addBlocks(block.content)
+				}
+			}
+		}
+		messages.forEach((message) => addBlocks(message.content))
+
+		return {
+			mode: metadata?.mode,
+			promptTokens: Math.ceil(characters / CHARS_PER_TOKEN),
+			hasImages,
+			usesTools: !!metadata?.allowedTools?.length,
+		}
+	}
+
+	private setActiveCandidate(candidate: RouterCandidate): void {
+		if (this.activeCandidate !== candidate) {
+			this.activeCandidate = candidate
+			this.emit("handlerChanged", candidate.handler)
+		}
+	}
+
+	private async loadCandidates(): Promise<void> {
+		const candidates: RouterCandidate[] = []
+
+		for (const candidate of this.settings.routerCandidates ?? []) {
+			if (!candidate.profileId) {
+				continue
+			}
+
+			try {
+				const settings = await this.settingsManager.getProfile({ id: candidate.profileId })
+				if (settings.apiProvider === "provider-router") {
+					console.warn(`ProviderRouterHandler: skipping nested router profile ${settings.name}`)
+					continue
+				}
+
+				const handler = buildApiHandler(settings)
+				if (handler instanceof OpenRouterHandler) {
+					await handler.fetchModel().catch((error) => {
+						console.warn(`Failed to fetch model for profile ${settings.name}:`, error)
+					})
+				}
+
+				candidates.push({
+					handler,
+					profileId: candidate.profileId,
+					profileName: candidate.profileName ?? settings.name,
+					settings,
+					rules: candidate.rules ?? {},
+				})
+			} catch (error) {
+				console.error(`ProviderRouterHandler: failed to load profile ${candidate.profileName}:`, error)
+			}
+		}
+
+		this.candidates = candidates
+	}
+}
@@ -0,0 +1,95 @@
+// kilocode_change - new file
+import * as fs from "fs"
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import type { ModelInfo } from "@roo-code/types"
+
+import type { ApiHandlerCreateMessageMetadata } from "../index"
+import type { ApiHandlerOptions } from "../../shared/api"
+import { ApiStream } from "../transform/stream"
+import { BaseProvider } from "./base-provider"
+import { type Cassette, type CassetteInteraction, fingerprintRequest, parseCassette } from "./kilocode/cassette"
+
+/**
+ * Plays back the responses of a cassette recorded with `withCassetteRecording`, without any network
+ * call. Each recorded response is served once: the one recorded for the same request when there is
+ * one, otherwise the next one in the order they were recorded, unless `replayStrict` is set.
+ */
+export class ReplayHandler extends BaseProvider {
+	private options: ApiHandlerOptions
+	private cassette: Cassette | undefined
+	private served = new Set<number>()
+	private lastServed: CassetteInteraction | undefined
+
+	constructor(options: ApiHandlerOptions) {
+		super()
+		this.options = options
+	}
+
+	async *createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		metadata?: ApiHandlerCreateMessageMetadata,
+	): ApiStream {
+		const interaction = this.takeInteraction(fingerprintRequest(systemPrompt, messages, metadata))
+		yield* interaction.chunks
+
+		if (interaction.error !== undefined) {
+			throw new Error(interaction.error)
+		}
+	}
+
+	getModel(): { id: string; info: ModelInfo } {
+		try {
+			const interaction = this.lastServed ?? this.loadCassette().interactions[0]
+			if (interaction) {
+				return interaction.model
+			}
+		} catch (error) {
+			console.warn("ReplayHandler: failed to load the cassette", error)
+		}
+		return {
+			id: "replay",
+			info: {
+				maxTokens: 1,
+				contextWindow: 1,
+				supportsPromptCache: false,
+			},
+		}
+	}
+
+	private takeInteraction(fingerprint: string): CassetteInteraction {
+		const { interactions } = this.loadCassette()
+		const isUnserved = (_: CassetteInteraction, index: number) => !this.served.has(index)
+
+		let index = interactions.findIndex(
+			(interaction, i) => isUnserved(interaction, i) && interaction.fingerprint === fingerprint,
+		)
+		if (index === -1 && !this.options.replayStrict) {
+			index = interactions.findIndex(isUnserved)
+		}
+		if (index === -1) {
+			throw new Error(
+				this.options.replayStrict
+					? `The replay cassette has no recorded response for this request (fingerprint ${fingerprint})`
+					: "The replay cassette has no more recorded responses",
+			)
+		}
+
+		this.served.add(index)
+		this.lastServed = interactions[index]
+		return interactions[index]
+	}
+
+	private loadCassette(): Cassette {
+		if (!this.cassette) {
+			const cassettePath = this.options.replayCassettePath
+			if (!cassettePath) {
+				throw new Error("Replay cassette path is not set")
+			}
+			// Read synchronously, the model of the cassette is needed by getModel before the first request
+			this.cassette = parseCassette(fs.readFileSync(cassettePath, "utf8"))
+		}
+		return this.cassette
+	}
+}
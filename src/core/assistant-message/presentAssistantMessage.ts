@@ -4,7 +4,7 @@ import { serializeError } from "serialize-error"
 import type { ToolName, ClineAsk, ToolProgressStatus } from "@roo-code/types"
 import { TelemetryService } from "@roo-code/telemetry"
 
-import { defaultModeSlug, getModeBySlug } from "../../shared/modes"
+import { defaultModeSlug, getModeBySlug, isApprovalRequiredForMode /* kilocode_change */ } from "../../shared/modes"
 import type { ToolParamName, ToolResponse } from "../../shared/tools"
 
 import { fetchInstructionsTool } from "../tools/fetchInstructionsTool"
@@ -38,6 +38,7 @@ import { Task } from "../task/Task"
 import { newRuleTool } from "../tools/newRuleTool" // kilocode_change
 import { reportBugTool } from "../tools/reportBugTool" // kilocode_change
 import { condenseTool } from "../tools/condenseTool" // kilocode_change
+import { backgroundJobTool } from "../tools/backgroundJobTool" // kilocode_change
 import { codebaseSearchTool } from "../tools/codebaseSearchTool"
 import { experiments, EXPERIMENT_IDS } from "../../shared/experiments"
 import { applyDiffToolLegacy } from "../tools/applyDiffTool"
@@ -240,6 +241,8 @@ export async function presentAssistantMessage(cline: Task) {
 						return `[${block.name}]`
 					case "condense":
 						return `[${block.name}]`
+					case "background_job":
+						return `[${block.name} for '${block.params.action}'${block.params.job_id ? ` of job ${block.params.job_id}` : ""}]`
 					// kilocode_change end
 					case "run_slash_command":
 						return `[${block.name} for '${block.params.command}'${block.params.args ? ` with args: ${block.params.args}` : ""}]`
@@ -297,6 +300,7 @@ export async function presentAssistantMessage(cline: Task) {
 					items.push(...content)
 				}
 				pushToolResult_withToolUseId_kilocode(...items)
+				cline.toolRepetitionDetector.recordToolResult(block, content)
 				// kilocode_change end
 
 				// Once a tool result has been collected, ignore all other tool
@@ -314,7 +318,12 @@ export async function presentAssistantMessage(cline: Task) {
 				// kilocode_change start: yolo mode
 
 				const state = await cline.providerRef.deref()?.getState()
-				if (state?.yoloMode) {
+				const requiresApproval = isApprovalRequiredForMode(
+					block.name,
+					state?.mode ?? defaultModeSlug,
+					state?.customModes ?? [],
+				)
+				if (state?.yoloMode && !requiresApproval) {
 					return true
 				}
 				// kilocode_change end
@@ -325,6 +334,7 @@ export async function presentAssistantMessage(cline: Task) {
 					false,
 					progressStatus,
 					isProtected || false,
+					requiresApproval, // kilocode_change
 				)
 
 				if (response !== "yesButtonClicked") {
@@ -414,6 +424,8 @@ export async function presentAssistantMessage(cline: Task) {
 					customModes ?? [],
 					{ apply_diff: cline.diffEnabled },
 					block.params,
+					block.partial, // kilocode_change
+					cline.cwd, // kilocode_change
 				)
 			} catch (error) {
 				cline.consecutiveMistakeCount++
@@ -608,6 +620,9 @@ export async function presentAssistantMessage(cline: Task) {
 				case "condense":
 					await condenseTool(cline, block, askApproval, handleError, pushToolResult, removeClosingTag)
 					break
+				case "background_job":
+					await backgroundJobTool(cline, block, askApproval, handleError, pushToolResult, removeClosingTag)
+					break
 				// kilocode_change end
 				case "run_slash_command":
 					await runSlashCommandTool(cline, block, askApproval, handleError, pushToolResult, removeClosingTag)
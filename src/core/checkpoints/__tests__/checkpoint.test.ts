@@ -2,6 +2,9 @@ import { describe, it, expect, vi, beforeEach, afterEach } from "vitest"
 import { Task } from "../../task/Task"
 import { ClineProvider } from "../../webview/ClineProvider"
 import { checkpointSave, checkpointRestore, checkpointDiff, getCheckpointService } from "../index"
+import { checkpointFork, checkpointTimeline, checkpointTimelineDiff, checkpointRestorePartial } from "../index" // kilocode_change
+import { ShadowCheckpointService } from "../../../services/checkpoints/ShadowCheckpointService" // kilocode_change
+import { saveApiMessages, saveTaskMessages, taskMetadata } from "../../task-persistence" // kilocode_change
 import * as vscode from "vscode"
 
 // Mock vscode
@@ -38,6 +41,17 @@ vi.mock("../../../utils/path", () => ({
 
 vi.mock("../../../services/checkpoints")
 
+// kilocode_change start
+vi.mock("../../task-persistence", () => ({
+	saveApiMessages: vi.fn(),
+	saveTaskMessages: vi.fn(),
+	taskMetadata: vi.fn(async ({ taskId, forkedFromTaskId }) => ({
+		historyItem: { id: taskId, forkedFromTaskId },
+		tokenUsage: {},
+	})),
+}))
+// kilocode_change end
+
 describe("Checkpoint functionality", () => {
 	let mockProvider: any
 	let mockTask: any
@@ -274,6 +288,170 @@ describe("Checkpoint functionality", () => {
 		})
 	})
 
+	// kilocode_change start
+	describe("checkpointFork", () => {
+		beforeEach(() => {
+			vi.spyOn(ShadowCheckpointService, "forkTask").mockResolvedValue(undefined)
+			mockCheckpointService.workspaceDir = "/test/workspace"
+			mockProvider.contextProxy = { globalStorageUri: { fsPath: "/test/storage" } }
+			mockProvider.updateTaskHistory = vi.fn()
+			mockTask.taskNumber = 3
+			mockTask.taskMode = "code"
+			mockTask.cwd = "/test/workspace"
+			mockTask.clineMessages = [
+				{ ts: 1, say: "text", text: "Task" },
+				{ ts: 2, say: "checkpoint_saved", text: "abc123" },
+				{ ts: 3, say: "text", text: "After checkpoint" },
+			]
+			mockTask.apiConversationHistory = [
+				{ ts: 1, role: "user", content: [{ type: "text", text: "Task" }] },
+				{ ts: 3, role: "assistant", content: [{ type: "text", text: "After checkpoint" }] },
+			]
+		})
+
+		it("should create a new task from the checkpoint without changing the task", async () => {
+			const historyItem = await checkpointFork(mockTask, { ts: 2, commitHash: "abc123" })
+
+			expect(historyItem?.id).toEqual(expect.any(String))
+			expect(historyItem?.id).not.toBe("test-task-id")
+			expect(historyItem?.forkedFromTaskId).toBe("test-task-id")
+
+			// The current state is saved before the workspace is rewound
+			expect(mockCheckpointService.saveCheckpoint).toHaveBeenCalledWith(expect.any(String), {
+				suppressMessage: true,
+			})
+			expect(ShadowCheckpointService.forkTask).toHaveBeenCalledWith({
+				parentTaskId: "test-task-id",
+				taskId: historyItem!.id,
+				commitHash: "abc123",
+				globalStorageDir: "/test/storage",
+				workspaceDir: "/test/workspace",
+			})
+			expect(saveApiMessages).toHaveBeenCalledWith({
+				messages: [mockTask.apiConversationHistory[0]],
+				taskId: historyItem!.id,
+				globalStoragePath: "/test/storage",
+			})
+			expect(saveTaskMessages).toHaveBeenCalledWith({
+				messages: mockTask.clineMessages.slice(0, 2),
+				taskId: historyItem!.id,
+				globalStoragePath: "/test/storage",
+			})
+			expect(taskMetadata).toHaveBeenCalledWith(expect.objectContaining({ taskNumber: 3, mode: "code" }))
+			expect(mockProvider.updateTaskHistory).toHaveBeenCalledWith(historyItem)
+
+			expect(mockTask.overwriteClineMessages).not.toHaveBeenCalled()
+			expect(mockTask.overwriteApiConversationHistory).not.toHaveBeenCalled()
+			expect(mockCheckpointService.restoreCheckpoint).not.toHaveBeenCalled()
+		})
+
+		it("should drop the API messages after the checkpoint that have no timestamp", async () => {
+			mockTask.apiConversationHistory = [
+				...mockTask.apiConversationHistory,
+				{ role: "user", content: [{ type: "text", text: "No timestamp" }] },
+			]
+
+			await checkpointFork(mockTask, { ts: 2, commitHash: "abc123" })
+
+			expect(saveApiMessages).toHaveBeenCalledWith(
+				expect.objectContaining({ messages: [mockTask.apiConversationHistory[0]] }),
+			)
+		})
+
+		it("should not fork from a missing message", async () => {
+			expect(await checkpointFork(mockTask, { ts: 999, commitHash: "abc123" })).toBeUndefined()
+			expect(ShadowCheckpointService.forkTask).not.toHaveBeenCalled()
+		})
+
+		it("should keep checkpoints enabled when the fork fails", async () => {
+			vi.mocked(ShadowCheckpointService.forkTask).mockRejectedValueOnce(new Error("Fork failed"))
+
+			await expect(checkpointFork(mockTask, { ts: 2, commitHash: "abc123" })).rejects.toThrow("Fork failed")
+
+			expect(mockTask.enableCheckpoints).toBe(true)
+			expect(saveTaskMessages).not.toHaveBeenCalled()
+			expect(mockProvider.updateTaskHistory).not.toHaveBeenCalled()
+		})
+	})
+
+	describe("checkpointTimeline", () => {
+		beforeEach(() => {
+			mockTask.clineMessages = [
+				{ ts: 1, say: "text", text: "Task" },
+				{ ts: 2, say: "checkpoint_saved", text: "commit1" },
+				{ ts: 3, say: "checkpoint_saved", text: "commit2" },
+			]
+		})
+
+		it("should list each checkpoint with the one it is compared with, without diffing them", async () => {
+			const entries = await checkpointTimeline(mockTask)
+
+			expect(entries).toEqual([
+				{ ts: 2, commitHash: "commit1", nextCommitHash: "commit2" },
+				{ ts: 3, commitHash: "commit2", nextCommitHash: undefined },
+			])
+			expect(mockCheckpointService.getDiff).not.toHaveBeenCalled()
+		})
+	})
+
+	describe("checkpointTimelineDiff", () => {
+		it("should list the files changed until the next checkpoint", async () => {
+			mockCheckpointService.getDiff.mockResolvedValue([
+				{
+					paths: { relative: "src/a.ts", absolute: "/test/workspace/src/a.ts" },
+					content: { before: "one\ntwo\n", after: "one\n2\nthree\n" },
+				},
+			])
+
+			const files = await checkpointTimelineDiff(mockTask, { commitHash: "commit1", nextCommitHash: "commit2" })
+
+			expect(mockCheckpointService.getDiff).toHaveBeenCalledWith({ from: "commit1", to: "commit2" })
+			expect(files).toMatchObject([{ path: "src/a.ts", insertions: 2, deletions: 1 }])
+			expect(files[0].hunks).toHaveLength(1)
+		})
+
+		it("should return no files if the diff fails", async () => {
+			mockCheckpointService.getDiff.mockRejectedValue(new Error("Diff failed"))
+
+			expect(await checkpointTimelineDiff(mockTask, { commitHash: "commit1" })).toEqual([])
+			expect(mockTask.enableCheckpoints).toBe(true)
+		})
+	})
+
+	describe("checkpointRestorePartial", () => {
+		beforeEach(() => {
+			mockCheckpointService.restoreFiles = vi.fn().mockResolvedValue(undefined)
+			mockCheckpointService.restoreHunks = vi.fn().mockResolvedValue(undefined)
+		})
+
+		it("should restore whole files and hunks separately", async () => {
+			await checkpointRestorePartial(mockTask, {
+				commitHash: "commit1",
+				nextCommitHash: "commit2",
+				files: [{ path: "a.ts" }, { path: "b.ts", hunkIndexes: [0, 2] }, { path: "c.ts" }],
+			})
+
+			expect(mockCheckpointService.restoreFiles).toHaveBeenCalledWith("commit1", ["a.ts", "c.ts"])
+			expect(mockCheckpointService.restoreHunks).toHaveBeenCalledWith({
+				from: "commit1",
+				to: "commit2",
+				relativePath: "b.ts",
+				hunkIndexes: [0, 2],
+			})
+			expect(mockCheckpointService.restoreCheckpoint).not.toHaveBeenCalled()
+		})
+
+		it("should rethrow errors without disabling checkpoints", async () => {
+			mockCheckpointService.restoreFiles.mockRejectedValue(new Error("Restore failed"))
+
+			await expect(
+				checkpointRestorePartial(mockTask, { commitHash: "commit1", files: [{ path: "a.ts" }] }),
+			).rejects.toThrow("Restore failed")
+			expect(mockTask.enableCheckpoints).toBe(true)
+		})
+	})
+	// kilocode_change end
+
 	describe("checkpointDiff", () => {
 		beforeEach(() => {
 			mockTask.clineMessages = [
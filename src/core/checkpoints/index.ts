@@ -17,7 +17,18 @@ import { DIFF_VIEW_URI_SCHEME } from "../../integrations/editor/DiffViewProvider
 import { CheckpointServiceOptions, RepoPerTaskCheckpointService } from "../../services/checkpoints"
 
 // kilocode_change start
+import crypto from "crypto"
+import type { HistoryItem } from "@roo-code/types"
 import { TelemetryEventName } from "@roo-code/types"
+import { ShadowCheckpointService } from "../../services/checkpoints/ShadowCheckpointService"
+import { countHunkLines, getHunks } from "../../services/checkpoints/hunks"
+import { saveApiMessages, saveTaskMessages, taskMetadata } from "../task-persistence"
+import type {
+	CheckpointRestorePartialPayload,
+	CheckpointTimelineDiffPayload,
+	CheckpointTimelineEntry,
+	CheckpointTimelineFile,
+} from "../../shared/WebviewMessage"
 import { stringifyError } from "../../shared/kilocode/errorUtils"
 
 function reportError(callsite: string, error: unknown) {
@@ -345,3 +356,169 @@ export async function checkpointDiff(task: Task, { ts, previousCommitHash, commi
 		reportError("checkpointDiff", err) // kilocode_change
 	}
 }
+
+// kilocode_change start
+export type CheckpointForkOptions = {
+	ts: number
+	commitHash: string
+}
+
+/**
+ * Creates a new task that continues from a checkpoint of the given task, with a copy of the
+ * conversation up to the checkpoint and its own shadow repo starting at the checkpoint's commit.
+ * The workspace is rewound to the checkpoint while the given task keeps its messages and checkpoints.
+ * @returns The history item of the new task, or undefined if checkpoints are unavailable
+ */
+export async function checkpointFork(
+	task: Task,
+	{ ts, commitHash }: CheckpointForkOptions,
+): Promise<HistoryItem | undefined> {
+	const service = await getCheckpointService(task)
+	const provider = task.providerRef.deref()
+
+	if (!service || !provider) {
+		return undefined
+	}
+
+	const index = task.clineMessages.findIndex((m) => m.ts === ts)
+
+	if (index === -1) {
+		return undefined
+	}
+
+	try {
+		// Save the current workspace state first, so the task can still be restored to it after the
+		// workspace was rewound for the fork.
+		await service.saveCheckpoint(`Task: ${task.taskId}, Time: ${Date.now()}`, { suppressMessage: true })
+
+		const taskId = crypto.randomUUID()
+		const globalStoragePath = provider.contextProxy.globalStorageUri.fsPath
+
+		await ShadowCheckpointService.forkTask({
+			parentTaskId: task.taskId,
+			taskId,
+			commitHash,
+			globalStorageDir: globalStoragePath,
+			workspaceDir: service.workspaceDir,
+		})
+
+		const messages = task.clineMessages.slice(0, index + 1)
+		// The API history is cut at the first message sent after the checkpoint, so the messages
+		// following it are dropped too when they have no timestamp.
+		const apiIndex = task.apiConversationHistory.findIndex((m) => m.ts && m.ts >= ts)
+		await saveApiMessages({
+			messages: apiIndex === -1 ? task.apiConversationHistory : task.apiConversationHistory.slice(0, apiIndex),
+			taskId,
+			globalStoragePath,
+		})
+		await saveTaskMessages({ messages, taskId, globalStoragePath })
+
+		const { historyItem } = await taskMetadata({
+			taskId,
+			rootTaskId: task.rootTaskId,
+			parentTaskId: task.parentTaskId,
+			taskNumber: task.taskNumber,
+			messages,
+			globalStoragePath,
+			workspace: task.cwd,
+			mode: task.taskMode,
+			forkedFromTaskId: task.taskId,
+		})
+
+		await provider.updateTaskHistory(historyItem)
+		return historyItem
+	} catch (err) {
+		provider.log(`[checkpointFork] failed to fork task ${task.taskId}: ${err.message}`)
+		reportError("checkpointFork", err)
+		throw err
+	}
+}
+
+/**
+ * Lists the checkpoints of a task with the checkpoint each is compared with, the next checkpoint or
+ * the current workspace for the latest checkpoint. The changed files are only listed for the
+ * checkpoints that are expanded, see checkpointTimelineDiff.
+ */
+export async function checkpointTimeline(task: Task): Promise<CheckpointTimelineEntry[]> {
+	const service = await getCheckpointService(task)
+
+	if (!service) {
+		return []
+	}
+
+	// The checkpoint_saved messages are used rather than service.getCheckpoints(), since they
+	// survive reloading the task.
+	const checkpoints = task.clineMessages.filter(({ say, text }) => say === "checkpoint_saved" && text)
+
+	return checkpoints.map(({ ts, text }, index) => ({
+		ts,
+		commitHash: text!,
+		nextCommitHash: checkpoints[index + 1]?.text,
+	}))
+}
+
+/**
+ * Lists the files a checkpoint changed compared with the next checkpoint, or with the current
+ * workspace when there is no next checkpoint.
+ */
+export async function checkpointTimelineDiff(
+	task: Task,
+	{ commitHash, nextCommitHash }: CheckpointTimelineDiffPayload,
+): Promise<CheckpointTimelineFile[]> {
+	const service = await getCheckpointService(task)
+
+	if (!service) {
+		return []
+	}
+
+	try {
+		const changes = await service.getDiff({ from: commitHash, to: nextCommitHash })
+
+		return changes.map(({ paths, content }) => {
+			const hunks = getHunks(content.before ?? "", content.after ?? "")
+			return { path: paths.relative, ...countHunkLines(hunks), hunks }
+		})
+	} catch (err) {
+		task.providerRef
+			.deref()
+			?.log(`[checkpointTimelineDiff] failed to diff checkpoint ${commitHash}: ${err.message}`)
+		reportError("checkpointTimelineDiff", err)
+		return []
+	}
+}
+
+/**
+ * Reverts the changes made to some files, or some hunks of them, since a checkpoint without
+ * rewinding the rest of the workspace or the conversation.
+ */
+export async function checkpointRestorePartial(
+	task: Task,
+	{ commitHash, nextCommitHash, files }: CheckpointRestorePartialPayload,
+) {
+	const service = await getCheckpointService(task)
+
+	if (!service) {
+		return
+	}
+
+	try {
+		const wholeFiles = files.filter(({ hunkIndexes }) => !hunkIndexes).map(({ path }) => path)
+
+		if (wholeFiles.length > 0) {
+			await service.restoreFiles(commitHash, wholeFiles)
+		}
+
+		for (const { path: relativePath, hunkIndexes } of files) {
+			if (hunkIndexes) {
+				await service.restoreHunks({ from: commitHash, to: nextCommitHash, relativePath, hunkIndexes })
+			}
+		}
+
+		TelemetryService.instance.captureCheckpointRestored(task.taskId)
+	} catch (err) {
+		task.providerRef.deref()?.log(`[checkpointRestorePartial] failed to restore files: ${err.message}`)
+		reportError("checkpointRestorePartial", err)
+		throw err
+	}
+}
+// kilocode_change end
@@ -0,0 +1,217 @@
+// kilocode_change - new file
+// npx vitest src/core/condense/__tests__/strategies.spec.ts
+
+import { Anthropic } from "@anthropic-ai/sdk"
+import type { ModelInfo } from "@roo-code/types"
+import { TelemetryService } from "@roo-code/telemetry"
+
+import { BaseProvider } from "../../../api/providers/base-provider"
+import { ApiMessage } from "../../task-persistence/apiMessages"
+import { condenseConversation, selectCondensingStrategy } from "../index"
+import { dropStaleToolResults } from "../strategies/dropStaleToolResults"
+import { collapseSupersededFiles } from "../strategies/collapseSupersededFiles"
+
+class MockApiHandler extends BaseProvider {
+	createMessage(): any {
+		return {
+			async *[Symbol.asyncIterator]() {
+				yield { type: "text", text: "Mock summary" }
+				yield { type: "usage", inputTokens: 100, outputTokens: 5, totalCost: 0.01 }
+			},
+		}
+	}
+
+	getModel(): { id: string; info: ModelInfo } {
+		return {
+			id: "test-model",
+			info: { contextWindow: 100000, supportsPromptCache: true },
+		}
+	}
+
+	override async countTokens(content: Array<Anthropic.Messages.ContentBlockParam>): Promise<number> {
+		return content.reduce(
+			(tokens, block) => tokens + (block.type === "text" ? Math.ceil(block.text.length / 4) : 0),
+			0,
+		)
+	}
+}
+
+const apiHandler = new MockApiHandler()
+const taskId = "test-task-id"
+const fileContent = "const value = 1\n".repeat(200)
+
+const readResult = (path: string, lines = "1-200", content = fileContent): ApiMessage => ({
+	role: "user",
+	content: [
+		{ type: "text", text: `[read_file for '${path}'] Result:` },
+		{
+			type: "text",
+			text: `<files>\n<file><path>${path}</path>\n<content lines="${lines}">\n${content}</content>\n</file>\n</files>`,
+		},
+	],
+})
+
+const writeToFile = (path: string, content = fileContent): ApiMessage => ({
+	role: "assistant",
+	content: `I will update the file.\n<write_to_file>\n<path>${path}</path>\n<content>\n${content}</content>\n<line_count>200</line_count>\n</write_to_file>`,
+})
+
+const text = (role: ApiMessage["role"], content: string): ApiMessage => ({ role, content })
+
+const tail: ApiMessage[] = [text("user", "Continue"), text("assistant", "Working on it"), text("user", "Thanks")]
+
+describe("dropStaleToolResults", () => {
+	it("replaces reads of files that were changed later", () => {
+		const messages = [
+			text("user", "Fix the bug"),
+			text("assistant", "<read_file><args><file><path>src/a.ts</path></file></args></read_file>"),
+			readResult("src/a.ts"),
+			text("assistant", "<apply_diff>\n<path>./src/a.ts</path>\n<diff>...</diff>\n</apply_diff>"),
+			readResult("src/b.ts"),
+			...tail,
+		]
+
+		const result = dropStaleToolResults(messages, 3)
+
+		expect(JSON.stringify(result[2])).toContain("Content omitted because src/a.ts was changed later")
+		expect(JSON.stringify(result[2])).not.toContain("const value")
+		expect(result[4]).toBe(messages[4])
+		expect(result.slice(-3)).toEqual(tail)
+	})
+
+	it("keeps reads that happened after the last change", () => {
+		const messages = [text("user", "Task"), writeToFile("src/a.ts"), readResult("src/a.ts"), ...tail]
+
+		expect(dropStaleToolResults(messages, 3)).toEqual(messages)
+	})
+
+	it("handles tool results of native tool calls", () => {
+		const messages: ApiMessage[] = [
+			text("user", "Task"),
+			{
+				role: "user",
+				content: [
+					{ type: "tool_result", tool_use_id: "1", content: (readResult("a.ts").content as any[]).slice(1) },
+				],
+			},
+			{
+				role: "assistant",
+				content: [{ type: "tool_use", id: "2", name: "write_to_file", input: { path: "a.ts" } }],
+			},
+			...tail,
+		]
+
+		const result = dropStaleToolResults(messages, 3)
+
+		expect(JSON.stringify(result[1])).toContain("Content omitted because a.ts was changed later")
+	})
+})
+
+describe("collapseSupersededFiles", () => {
+	it("replaces reads that a later read covers", () => {
+		const messages = [
+			text("user", "Task"),
+			readResult("src/a.ts", "1-50"),
+			readResult("src/a.ts", "100-200"),
+			readResult("src/a.ts", "1-120"),
+			...tail,
+		]
+
+		const result = collapseSupersededFiles(messages, 3)
+
+		expect(JSON.stringify(result[1])).toContain("Content omitted because a later copy of src/a.ts follows")
+		expect(result[2]).toBe(messages[2])
+		expect(result[3]).toBe(messages[3])
+	})
+
+	it("replaces the content of earlier writes of the same file", () => {
+		const messages = [text("user", "Task"), writeToFile("src/a.ts"), writeToFile("src/a.ts", "short\n"), ...tail]
+
+		const result = collapseSupersededFiles(messages, 3)
+
+		expect(result[1].content).toContain(
+			"<content>Content omitted because a later copy of src/a.ts follows</content>",
+		)
+		expect(result[1].content).toContain("<path>src/a.ts</path>")
+		expect(result[2]).toBe(messages[2])
+	})
+
+	it("leaves the most recent messages untouched", () => {
+		const messages = [text("user", "Task"), readResult("src/a.ts"), readResult("src/a.ts"), text("user", "Thanks")]
+
+		expect(collapseSupersededFiles(messages, 3)).toEqual(messages)
+	})
+})
+
+describe("condenseConversation", () => {
+	beforeEach(() => {
+		if (!TelemetryService.hasInstance()) {
+			TelemetryService.createInstance([])
+		}
+	})
+
+	const messages = [
+		text("user", "Task"),
+		readResult("src/a.ts"),
+		writeToFile("src/a.ts"),
+		text("user", "Looks good"),
+		text("assistant", "Next step"),
+		...tail,
+	]
+
+	const context = {
+		messages,
+		apiHandler,
+		systemPrompt: "System prompt",
+		taskId,
+		prevContextTokens: 2000,
+	}
+
+	it("stops after a pruning strategy that reaches the target", async () => {
+		const result = await condenseConversation("dropStaleToolResults", context, 1500)
+
+		expect(result.error).toBeUndefined()
+		expect(result.summary).toBe("")
+		expect(result.cost).toBe(0)
+		expect(result.strategies).toEqual([{ strategy: "dropStaleToolResults", tokensSaved: expect.any(Number) }])
+		expect(result.newContextTokens).toBe(2000 - result.strategies![0].tokensSaved)
+		expect(result.messages[2]).toBe(messages[2])
+		expect(JSON.stringify(result.messages[1])).not.toContain("const value")
+	})
+
+	it("falls back to the LLM summary when pruning does not reach the target", async () => {
+		const result = await condenseConversation("collapseSupersededFiles", context, 100)
+
+		expect(result.summary).toBe("Mock summary")
+		expect(result.strategies).toEqual([
+			{ strategy: "collapseSupersededFiles", tokensSaved: expect.any(Number) },
+			{ strategy: "llmSummary", tokensSaved: expect.any(Number) },
+		])
+		expect(result.messages.some((message) => message.isSummary)).toBe(true)
+	})
+
+	it("falls back to the LLM summary when a pruning strategy has nothing to prune", async () => {
+		const result = await condenseConversation("dropStaleToolResults", {
+			...context,
+			messages: messages.filter((message) => message !== messages[1]),
+		})
+
+		expect(result.strategies?.map(({ strategy }) => strategy)).toEqual(["llmSummary"])
+	})
+
+	it("returns an error when no strategy saves tokens", async () => {
+		const result = await condenseConversation("dropStaleToolResults", { ...context, messages: tail })
+
+		expect(result.error).toBeTruthy()
+		expect(result.messages).toBe(tail)
+		expect(result.strategies).toBeUndefined()
+	})
+})
+
+describe("selectCondensingStrategy", () => {
+	it("prefers the strategy of the mode over the setting", () => {
+		expect(selectCondensingStrategy("topicSummaries", "dropStaleToolResults")).toBe("topicSummaries")
+		expect(selectCondensingStrategy(undefined, "dropStaleToolResults")).toBe("dropStaleToolResults")
+		expect(selectCondensingStrategy()).toBe("llmSummary")
+	})
+})
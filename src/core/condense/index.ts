@@ -1,11 +1,16 @@
 import Anthropic from "@anthropic-ai/sdk"
 
 import { TelemetryService } from "@roo-code/telemetry"
+import type { CondensingStrategy, CondensingStrategyReport } from "@roo-code/types" // kilocode_change
 
 import { t } from "../../i18n"
 import { ApiHandler } from "../../api"
 import { ApiMessage } from "../task-persistence/apiMessages"
 import { maybeRemoveImageBlocks } from "../../api/transform/image-cleaning"
+// kilocode_change start
+import { dropStaleToolResults } from "./strategies/dropStaleToolResults"
+import { collapseSupersededFiles } from "./strategies/collapseSupersededFiles"
+// kilocode_change end
 
 export const N_MESSAGES_TO_KEEP = 3
 export const MIN_CONDENSE_THRESHOLD = 5 // Minimum percentage of context window to trigger condensing
@@ -251,3 +256,180 @@ export function getMessagesSinceLastSummary(messages: ApiMessage[]): ApiMessage[
 
 	return messagesSinceSummary
 }
+
+// kilocode_change start
+const TOPIC_SUMMARY_PROMPT = `\
+Your task is to create a summary of the conversation so far, organized by topic, paying close attention to the user's explicit requests and your previous actions.
+A topic is a distinct request, question or area of work, such as a feature, a bug being investigated or a part of the codebase being changed.
+
+Write one section per topic, in the order the topics came up, structured as follows:
+## [Topic name]
+- Request: What the user asked for, quoting the user where it matters.
+- Work Done: The files examined, created or modified and the decisions made, with code snippets where they add clarity.
+- Status: Whether the topic is done, in progress or blocked, and any problems that remain.
+
+End with a section "## Current Work and Next Steps" that describes in detail what was being worked on last and the next steps, including direct quotes from the most recent conversation showing exactly where you left off.
+
+Output only the summary of the conversation so far, without any additional commentary or explanation.
+`
+
+export type CondenseStrategyContext = {
+	messages: ApiMessage[]
+	apiHandler: ApiHandler
+	systemPrompt: string
+	taskId: string
+	prevContextTokens: number
+	isAutomaticTrigger?: boolean
+	customCondensingPrompt?: string
+	condensingApiHandler?: ApiHandler
+}
+
+/**
+ * A way of making the conversation take up fewer tokens
+ */
+export interface CondenseStrategy {
+	name: CondensingStrategy
+	condense(context: CondenseStrategyContext): Promise<SummarizeResponse>
+}
+
+export type CondenseResponse = SummarizeResponse & {
+	strategies?: CondensingStrategyReport[] // The tokens saved by each strategy that changed the conversation
+}
+
+/**
+ * Creates a strategy that rewrites messages without calling the LLM
+ */
+function pruningStrategy(
+	name: CondensingStrategy,
+	prune: (messages: ApiMessage[], keepCount: number) => ApiMessage[],
+): CondenseStrategy {
+	return {
+		name,
+		async condense({ messages, apiHandler, systemPrompt, prevContextTokens }) {
+			const prunedMessages = prune(messages, N_MESSAGES_TO_KEEP)
+
+			if (prunedMessages.every((message, index) => message === messages[index])) {
+				return { messages, summary: "", cost: 0, newContextTokens: prevContextTokens }
+			}
+
+			const tokensSaved =
+				(await countContextTokens(messages, systemPrompt, apiHandler)) -
+				(await countContextTokens(prunedMessages, systemPrompt, apiHandler))
+
+			return { messages: prunedMessages, summary: "", cost: 0, newContextTokens: prevContextTokens - tokensSaved }
+		},
+	}
+}
+
+export const condenseStrategies: Record<CondensingStrategy, CondenseStrategy> = {
+	llmSummary: {
+		name: "llmSummary",
+		condense: (context) =>
+			summarizeConversation(
+				context.messages,
+				context.apiHandler,
+				context.systemPrompt,
+				context.taskId,
+				context.prevContextTokens,
+				context.isAutomaticTrigger,
+				context.customCondensingPrompt,
+				context.condensingApiHandler,
+			),
+	},
+	topicSummaries: {
+		name: "topicSummaries",
+		condense: (context) =>
+			summarizeConversation(
+				context.messages,
+				context.apiHandler,
+				context.systemPrompt,
+				context.taskId,
+				context.prevContextTokens,
+				context.isAutomaticTrigger,
+				TOPIC_SUMMARY_PROMPT,
+				context.condensingApiHandler,
+			),
+	},
+	dropStaleToolResults: pruningStrategy("dropStaleToolResults", dropStaleToolResults),
+	collapseSupersededFiles: pruningStrategy("collapseSupersededFiles", collapseSupersededFiles),
+}
+
+/**
+ * Picks the condensing strategy of the current mode, falling back to the one from the settings
+ */
+export function selectCondensingStrategy(
+	modeCondensingStrategy?: CondensingStrategy,
+	condensingStrategy?: CondensingStrategy,
+): CondensingStrategy {
+	return modeCondensingStrategy ?? condensingStrategy ?? "llmSummary"
+}
+
+/**
+ * Condenses the conversation with the given strategy, falling back to the LLM summary if the strategy fails or
+ * does not bring the context down to the target size
+ *
+ * @param {CondensingStrategy} strategy - The strategy to try first
+ * @param {number} targetContextTokens - The context size to reach; without a target the first strategy that saves tokens wins
+ * @returns {CondenseResponse} - The result of the condensing operation, with the tokens saved per strategy
+ */
+export async function condenseConversation(
+	strategy: CondensingStrategy,
+	context: CondenseStrategyContext,
+	targetContextTokens?: number,
+): Promise<CondenseResponse> {
+	const pipeline: CondensingStrategy[] = strategy === "llmSummary" ? [strategy] : [strategy, "llmSummary"]
+	const strategies: CondensingStrategyReport[] = []
+
+	let { messages, prevContextTokens: contextTokens } = context
+	let summary = ""
+	let cost = 0
+	let error: string | undefined
+
+	for (const name of pipeline) {
+		const result = await condenseStrategies[name].condense({
+			...context,
+			messages,
+			prevContextTokens: contextTokens,
+		})
+
+		cost += result.cost
+		const newContextTokens = result.newContextTokens ?? contextTokens
+
+		if (result.error || newContextTokens >= contextTokens) {
+			error = result.error
+			continue
+		}
+
+		strategies.push({ strategy: name, tokensSaved: contextTokens - newContextTokens })
+		messages = result.messages
+		summary = result.summary || summary
+		contextTokens = newContextTokens
+
+		if (targetContextTokens === undefined || contextTokens <= targetContextTokens) {
+			break
+		}
+	}
+
+	if (strategies.length === 0) {
+		return { messages: context.messages, summary: "", cost, error: error ?? t("common:errors.condense_failed") }
+	}
+
+	return { messages, summary, cost, newContextTokens: contextTokens, strategies }
+}
+
+/**
+ * Estimates the tokens of the context sent with the next API request
+ */
+async function countContextTokens(messages: ApiMessage[], systemPrompt: string, apiHandler: ApiHandler) {
+	const contextMessages: ApiMessage[] = [
+		{ role: "user", content: systemPrompt },
+		...getMessagesSinceLastSummary(messages),
+	]
+
+	return apiHandler.countTokens(
+		contextMessages.flatMap((message) =>
+			typeof message.content === "string" ? [{ text: message.content, type: "text" as const }] : message.content,
+		),
+	)
+}
+// kilocode_change end
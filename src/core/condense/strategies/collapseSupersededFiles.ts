@@ -0,0 +1,48 @@
+// kilocode_change - new file
+import type { ApiMessage } from "../../task-persistence/apiMessages"
+
+import { type FileContent, visitFileContents } from "./fileContents"
+
+/**
+ * Replaces copies of file contents that a later copy in the conversation covers, such as a file that was read
+ * again or written again.
+ * @param messages The messages to prune
+ * @param keepCount The number of most recent messages to leave untouched
+ */
+export function collapseSupersededFiles(messages: ApiMessage[], keepCount: number): ApiMessage[] {
+	const contents: FileContent[][] = messages.map((message) => {
+		const found: FileContent[] = []
+		visitFileContents(message, (content) => {
+			found.push(content)
+			return undefined
+		})
+		return found
+	})
+
+	// Walk the copies from the most recent to the oldest, collecting the line ranges of each file seen later.
+	const laterRanges = new Map<string, Array<[number, number]>>()
+	const superseded = contents.map((found) => found.map(() => false))
+
+	for (let index = messages.length - 1; index >= 0; index--) {
+		for (let i = contents[index].length - 1; i >= 0; i--) {
+			const { path, kind, startLine, endLine } = contents[index][i]
+			const ranges = laterRanges.get(path) ?? []
+
+			superseded[index][i] = ranges.some(([start, end]) => start <= startLine && end >= endLine)
+			// A write replaces the whole file, whatever its length was before.
+			laterRanges.set(path, [...ranges, kind === "write" ? [1, Number.MAX_SAFE_INTEGER] : [startLine, endLine]])
+		}
+	}
+
+	return messages.map((message, index) => {
+		if (index >= messages.length - keepCount || !superseded[index].includes(true)) {
+			return message
+		}
+
+		let i = 0
+
+		return visitFileContents(message, ({ path }) =>
+			superseded[index][i++] ? `Content omitted because a later copy of ${path} follows` : undefined,
+		)
+	})
+}
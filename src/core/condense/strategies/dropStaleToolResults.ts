@@ -0,0 +1,32 @@
+// kilocode_change - new file
+import type { ApiMessage } from "../../task-persistence/apiMessages"
+
+import { getEditedFiles, visitFileContents } from "./fileContents"
+
+/**
+ * Replaces the read_file results of files that were changed later in the conversation, since they no longer
+ * show the current content of the file.
+ * @param messages The messages to prune
+ * @param keepCount The number of most recent messages to leave untouched
+ */
+export function dropStaleToolResults(messages: ApiMessage[], keepCount: number): ApiMessage[] {
+	const lastEdits = new Map<string, number>()
+
+	messages.forEach((message, index) => {
+		for (const filePath of getEditedFiles(message)) {
+			lastEdits.set(filePath, index)
+		}
+	})
+
+	return messages.map((message, index) => {
+		if (message.role !== "user" || index >= messages.length - keepCount) {
+			return message
+		}
+
+		return visitFileContents(message, ({ path, kind }) =>
+			kind === "read" && (lastEdits.get(path) ?? -1) > index
+				? `Content omitted because ${path} was changed later in the conversation`
+				: undefined,
+		)
+	})
+}
@@ -0,0 +1,178 @@
+// kilocode_change - new file
+import * as path from "path"
+
+import type { Anthropic } from "@anthropic-ai/sdk"
+
+import type { ApiMessage } from "../../task-persistence/apiMessages"
+
+/**
+ * Tools that change the content of a file, with the parameter that holds the path of the file
+ */
+const FILE_EDIT_TOOLS: Record<string, string> = {
+	write_to_file: "path",
+	apply_diff: "path",
+	insert_content: "path",
+	search_and_replace: "path",
+	edit_file: "target_file",
+}
+
+const FILE_EDIT_TOOL_REGEX = new RegExp(`<(${Object.keys(FILE_EDIT_TOOLS).join("|")})>([\\s\\S]*?)(?:</\\1>|$)`, "g")
+const TOOL_PATH_REGEX = /<(path|target_file)>([^<]*)<\/\1>/g
+const READ_FILE_REGEX = /<file><path>([^<]*)<\/path>([\s\S]*?)<\/file>/g
+const READ_CONTENT_REGEX = /<content(?: lines="(\d+)-(\d+)")?>[\s\S]*?<\/content>/g
+const WRITE_CONTENT_REGEX = /<content>([\s\S]*?)<\/content>/
+
+/**
+ * A copy of (part of) a file in the conversation, either a read_file result or the content of a write_to_file call
+ */
+export type FileContent = {
+	path: string
+	kind: "read" | "write"
+	startLine: number
+	endLine: number
+}
+
+/**
+ * Returns the replacement for the content of a file, or undefined to keep it
+ */
+export type FileContentVisitor = (content: FileContent) => string | undefined
+
+export function normalizeFilePath(filePath: string) {
+	return path.posix.normalize(filePath.trim().replace(/\\/g, "/")).replace(/^\.\//, "")
+}
+
+/**
+ * Lists the files that the tool uses of an assistant message change
+ */
+export function getEditedFiles(message: ApiMessage): string[] {
+	if (message.role !== "assistant") {
+		return []
+	}
+
+	const blocks =
+		typeof message.content === "string" ? [{ type: "text" as const, text: message.content }] : message.content
+
+	return blocks.flatMap((block) => {
+		if (block.type === "text") {
+			return Array.from(block.text.matchAll(FILE_EDIT_TOOL_REGEX)).flatMap(([, , params]) =>
+				Array.from(params.matchAll(TOOL_PATH_REGEX)).map(([, , filePath]) => normalizeFilePath(filePath)),
+			)
+		}
+
+		if (block.type === "tool_use" && block.name in FILE_EDIT_TOOLS) {
+			const filePath = (block.input as Record<string, unknown>)?.[FILE_EDIT_TOOLS[block.name]]
+			return typeof filePath === "string" ? [normalizeFilePath(filePath)] : []
+		}
+
+		return []
+	})
+}
+
+/**
+ * Calls the visitor for every copy of a file in a message, in order, and replaces the copies it returns a
+ * replacement for. Returns the message itself if nothing was replaced.
+ */
+export function visitFileContents(message: ApiMessage, visitor: FileContentVisitor): ApiMessage {
+	if (typeof message.content === "string") {
+		const content = visitText(message.content, message.role, visitor)
+		return content === message.content ? message : { ...message, content }
+	}
+
+	let changed = false
+
+	const content = message.content.map((block) => {
+		const visited = visitBlock(block, message.role, visitor)
+		changed ||= visited !== block
+		return visited
+	})
+
+	return changed ? { ...message, content } : message
+}
+
+function visitBlock(
+	block: Anthropic.Messages.ContentBlockParam,
+	role: ApiMessage["role"],
+	visitor: FileContentVisitor,
+): Anthropic.Messages.ContentBlockParam {
+	if (block.type === "text") {
+		const text = visitText(block.text, role, visitor)
+		return text === block.text ? block : { ...block, text }
+	}
+
+	if (block.type === "tool_result" && block.content) {
+		if (typeof block.content === "string") {
+			const content = visitText(block.content, role, visitor)
+			return content === block.content ? block : { ...block, content }
+		}
+
+		let changed = false
+
+		const content = block.content.map((item) => {
+			if (item.type !== "text") {
+				return item
+			}
+
+			const text = visitText(item.text, role, visitor)
+			changed ||= text !== item.text
+			return text === item.text ? item : { ...item, text }
+		})
+
+		return changed ? { ...block, content } : block
+	}
+
+	if (block.type === "tool_use" && block.name === "write_to_file") {
+		const input = block.input as Record<string, unknown>
+
+		if (typeof input?.path === "string" && typeof input.content === "string") {
+			const replacement = visitor({
+				path: normalizeFilePath(input.path),
+				kind: "write",
+				startLine: 1,
+				endLine: input.content.split("\n").length,
+			})
+
+			return replacement === undefined ? block : { ...block, input: { ...input, content: replacement } }
+		}
+	}
+
+	return block
+}
+
+function visitText(text: string, role: ApiMessage["role"], visitor: FileContentVisitor): string {
+	if (role === "assistant") {
+		return text.replace(FILE_EDIT_TOOL_REGEX, (toolUse, toolName: string, params: string) => {
+			const filePath = params.match(/<path>([^<]*)<\/path>/)?.[1]
+			const content = params.match(WRITE_CONTENT_REGEX)?.[1]
+
+			if (toolName !== "write_to_file" || filePath === undefined || content === undefined) {
+				return toolUse
+			}
+
+			const replacement = visitor({
+				path: normalizeFilePath(filePath),
+				kind: "write",
+				startLine: 1,
+				endLine: content.replace(/^\n|\n$/g, "").split("\n").length,
+			})
+
+			return replacement === undefined
+				? toolUse
+				: toolUse.replace(WRITE_CONTENT_REGEX, () => `<content>${replacement}</content>`)
+		})
+	}
+
+	return text.replace(READ_FILE_REGEX, (file, filePath: string, body: string) => {
+		const visitedBody = body.replace(READ_CONTENT_REGEX, (content, startLine?: string, endLine?: string) => {
+			const replacement = visitor({
+				path: normalizeFilePath(filePath),
+				kind: "read",
+				startLine: startLine ? Number(startLine) : 1,
+				endLine: endLine ? Number(endLine) : Number.MAX_SAFE_INTEGER,
+			})
+
+			return replacement === undefined ? content : `<notice>${replacement}</notice>`
+		})
+
+		return visitedBody === body ? file : `<file><path>${filePath}</path>${visitedBody}</file>`
+	})
+}
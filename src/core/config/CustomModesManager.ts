@@ -7,7 +7,14 @@ import * as yaml from "yaml"
 import stripBom from "strip-bom"
 import axios from "axios" // kilocode_change
 
-import { type ModeConfig, type PromptComponent, customModesSettingsSchema, modeConfigSchema } from "@roo-code/types"
+import {
+	type CustomModeConfig, // kilocode_change
+	type ModeConfig,
+	type PromptComponent,
+	customModesSettingsSchema,
+	modeConfigSchema,
+	DEFAULT_MODES, // kilocode_change
+} from "@roo-code/types"
 
 import { fileExistsAtPath } from "../../utils/fs"
 import { getWorkspacePath } from "../../utils/path"
@@ -19,6 +26,11 @@ import { t } from "../../i18n"
 // kilocode_change start
 import { getKiloUrlFromToken } from "@roo-code/types"
 import { X_KILOCODE_ORGANIZATIONID, X_KILOCODE_TESTER } from "../../shared/kilocode/headers"
+import {
+	type ModeInheritanceError,
+	resolveModeInheritance,
+	withoutInheritedFields,
+} from "../../shared/kilocode/modeInheritance"
 // kilocode_change end
 
 const ROOMODES_FILENAME = ".kilocodemodes"
@@ -56,6 +68,7 @@ export class CustomModesManager {
 	private writeQueue: Array<() => Promise<void>> = []
 	private cachedModes: ModeConfig[] | null = null
 	private cachedAt: number = 0
+	private reportedInheritanceErrors = new Set<string>() // kilocode_change
 
 	constructor(
 		private readonly context: vscode.ExtensionContext,
@@ -184,7 +197,7 @@ export class CustomModesManager {
 		}
 	}
 
-	private async loadModesFromFile(filePath: string): Promise<ModeConfig[]> {
+	private async loadModesFromFile(filePath: string): Promise<CustomModeConfig[] /* kilocode_change */> {
 		try {
 			const content = await fs.readFile(filePath, "utf-8")
 			const settings = this.parseYamlSafely(content, filePath)
@@ -229,12 +242,12 @@ export class CustomModesManager {
 
 	// kilocode_change start: Added organizationModes parameter and precedence logic
 	private async mergeCustomModes(
-		projectModes: ModeConfig[],
-		globalModes: ModeConfig[],
+		projectModes: CustomModeConfig[],
+		globalModes: CustomModeConfig[],
 		organizationModes: ModeConfig[] = [],
 	): Promise<ModeConfig[]> {
 		const slugs = new Set<string>()
-		const merged: ModeConfig[] = []
+		const merged: CustomModeConfig[] = []
 
 		// Precedence order: organization > project > global
 
@@ -263,9 +276,34 @@ export class CustomModesManager {
 			}
 		}
 
-		return merged
+		// kilocode_change start
+		const { modes, errors } = resolveModeInheritance(merged)
+		this.reportInheritanceErrors(errors)
+		return modes
+		// kilocode_change end
 	}
 
+	// kilocode_change start
+	/**
+	 * Shows each inheritance error once, the modes are merged again on every change
+	 */
+	private reportInheritanceErrors(errors: ModeInheritanceError[]) {
+		for (const error of errors) {
+			const message = t(
+				error.reason === "cycle"
+					? "common:customModes.errors.extendsCycle"
+					: "common:customModes.errors.extendsUnknownMode",
+				{ slug: error.slug, chain: error.chain.join(" → ") },
+			)
+			console.error(`[CustomModesManager] ${message}`)
+			if (!this.reportedInheritanceErrors.has(message)) {
+				this.reportedInheritanceErrors.add(message)
+				vscode.window.showErrorMessage(message)
+			}
+		}
+	}
+	// kilocode_change end
+
 	public async getCustomModesFilePath(): Promise<string> {
 		const settingsDir = await ensureSettingsDirectoryExists(this.context)
 		const filePath = path.join(settingsDir, GlobalFileNames.customModes)
@@ -467,10 +505,24 @@ export class CustomModesManager {
 				targetPath = await this.getCustomModesFilePath()
 			}
 
+			// kilocode_change start: only save what the mode overrides of the mode it extends
+			let modeToSave: CustomModeConfig = config
+			if (config.extends) {
+				const parent =
+					config.extends === slug
+						? undefined
+						: (await this.getCustomModes()).find((mode) => mode.slug === config.extends)
+				const inherited = parent ?? DEFAULT_MODES.find((mode) => mode.slug === config.extends)
+				if (inherited) {
+					modeToSave = withoutInheritedFields(config, inherited)
+				}
+			}
+			// kilocode_change end
+
 			await this.queueWrite(async () => {
 				// Ensure source is set correctly based on target file.
 				const modeWithSource = {
-					...config,
+					...modeToSave, // kilocode_change
 					source: isProjectMode ? ("project" as const) : ("global" as const),
 				}
 
@@ -490,7 +542,10 @@ export class CustomModesManager {
 		}
 	}
 
-	private async updateModesInFile(filePath: string, operation: (modes: ModeConfig[]) => ModeConfig[]): Promise<void> {
+	private async updateModesInFile(
+		filePath: string,
+		operation: (modes: CustomModeConfig[]) => CustomModeConfig[], // kilocode_change
+	): Promise<void> {
 		let content = "{}"
 
 		try {
@@ -593,7 +648,11 @@ export class CustomModesManager {
 	 * @param slug - The mode slug
 	 * @param mode - The mode configuration to determine the scope
 	 */
-	private async deleteRulesFolder(slug: string, mode: ModeConfig, fromMarketplace = false): Promise<void> {
+	private async deleteRulesFolder(
+		slug: string,
+		mode: CustomModeConfig, // kilocode_change
+		fromMarketplace = false,
+	): Promise<void> {
 		try {
 			// Determine the scope based on source (project or global)
 			const scope = mode.source || "global"
@@ -8,7 +8,7 @@ import * as fs from "fs/promises"
 import * as yaml from "yaml"
 import * as vscode from "vscode"
 
-import type { ModeConfig } from "@roo-code/types"
+import { type ModeConfig, DEFAULT_MODES } from "@roo-code/types" // kilocode_change
 
 import { fileExistsAtPath } from "../../../utils/fs"
 import { getWorkspacePath, arePathsEqual } from "../../../utils/path"
@@ -148,6 +148,35 @@ describe("CustomModesManager", () => {
 			expect(mode2?.roleDefinition).toBe("Role 2 Override")
 		})
 
+		// kilocode_change start
+		it("should resolve the modes that extend other modes", async () => {
+			const settingsModes = [{ slug: "base", name: "Base", roleDefinition: "Base role", groups: ["read"] }]
+			const roomodesModes = [
+				{ slug: "child", name: "Child", extends: "base", groups: ["edit"] },
+				{ slug: "loop1", name: "Loop 1", extends: "loop2" },
+				{ slug: "loop2", name: "Loop 2", extends: "loop1" },
+			]
+
+			;(fs.readFile as Mock).mockImplementation(async (path: string) => {
+				if (path === mockSettingsPath) {
+					return yaml.stringify({ customModes: settingsModes })
+				}
+				if (path === mockRoomodes) {
+					return yaml.stringify({ customModes: roomodesModes })
+				}
+				throw new Error("File not found")
+			})
+
+			const modes = await manager.getCustomModes()
+
+			expect(modes.map((m) => m.slug)).toEqual(["child", "base"])
+			expect(modes[0]).toMatchObject({ roleDefinition: "Base role", groups: ["read", "edit"], source: "project" })
+			expect(vscode.window.showErrorMessage).toHaveBeenCalledWith(
+				expect.stringContaining("customModes.errors.extendsCycle"),
+			)
+		})
+		// kilocode_change end
+
 		it("should handle missing .kilocodemodes file", async () => {
 			const settingsModes = [{ slug: "mode1", name: "Mode 1", roleDefinition: "Role 1", groups: ["read"] }]
 
@@ -440,6 +469,45 @@ describe("CustomModesManager", () => {
 	})
 
 	describe("updateCustomMode", () => {
+		// kilocode_change start
+		it("should only save what a mode that extends another mode overrides", async () => {
+			let settingsContent = { customModes: [] as ModeConfig[] }
+			;(fs.readFile as Mock).mockImplementation(async (path: string) => {
+				if (path === mockSettingsPath) {
+					return yaml.stringify(settingsContent)
+				}
+				throw new Error("File not found")
+			})
+			;(fs.writeFile as Mock).mockImplementation(async (path: string, content: string) => {
+				if (path === mockSettingsPath) {
+					settingsContent = yaml.parse(content)
+				}
+			})
+
+			const codeMode = DEFAULT_MODES.find((mode) => mode.slug === "code")!
+			await manager.updateCustomMode("careful-code", {
+				...codeMode,
+				slug: "careful-code",
+				name: "Careful Code",
+				extends: "code",
+				customInstructions: "Ask before editing",
+				groups: [...codeMode.groups, "modes"],
+				source: "global",
+			})
+
+			expect(settingsContent.customModes).toEqual([
+				{
+					slug: "careful-code",
+					name: "Careful Code",
+					extends: "code",
+					customInstructions: "Ask before editing",
+					groups: ["modes"],
+					source: "global",
+				},
+			])
+		})
+		// kilocode_change end
+
 		it("should update mode in settings file while preserving .kilocodemodes precedence", async () => {
 			const newMode: ModeConfig = {
 				slug: "mode1",
@@ -134,6 +134,7 @@ describe("getEnvironmentDetails", () => {
 		;(TerminalRegistry.getBackgroundTerminals as Mock).mockReturnValue([])
 		;(TerminalRegistry.isProcessHot as Mock).mockReturnValue(false)
 		;(TerminalRegistry.getUnretrievedOutput as Mock).mockReturnValue("")
+		;(TerminalRegistry.getBackgroundJobs as Mock).mockReturnValue([]) // kilocode_change
 		vi.mocked(pWaitFor).mockResolvedValue(undefined)
 		vi.mocked(delay).mockResolvedValue(undefined)
 	})
@@ -361,6 +362,26 @@ describe("getEnvironmentDetails", () => {
 
 		await expect(getEnvironmentDetails(mockCline as Task)).resolves.not.toThrow()
 	})
+
+	// kilocode_change start
+	it("should list the running background jobs of the task and its jobs with unread output", async () => {
+		;(TerminalRegistry.getBackgroundJobs as Mock).mockReturnValue([
+			{ id: 1, command: "npm run dev", cwd: "/test/path", status: "running", startedAt: 0 },
+			{ id: 2, command: "npm run build", cwd: "/test/path", status: "exited", exitCode: 1, startedAt: 0 },
+			{ id: 3, command: "npm run lint", cwd: "/test/path", status: "exited", exitCode: 0, startedAt: 0 },
+		])
+		;(TerminalRegistry.hasUnreadBackgroundJobOutput as Mock).mockImplementation((id: number) => id === 2)
+
+		const result = await getEnvironmentDetails(mockCline as Task)
+
+		expect(TerminalRegistry.getBackgroundJobs).toHaveBeenCalledWith(mockTaskId)
+		expect(result).toContain("# Background Jobs")
+		expect(result).toContain("- Job 1 (running): `npm run dev` in '/test/path'")
+		expect(result).toContain("- Job 2 (exited with code 1): `npm run build` in '/test/path' (has new output)")
+		expect(result).not.toContain("npm run lint")
+	})
+	// kilocode_change end
+
 	it("should include REMINDERS section when todoListEnabled is true", async () => {
 		mockProvider.getState.mockResolvedValue({
 			...mockState,
@@ -19,6 +19,7 @@ import { arePathsEqual } from "../../utils/path"
 import { formatResponse } from "../prompts/responses"
 
 import { Task } from "../task/Task"
+import { describeBackgroundJob } from "../tools/backgroundJobTool" // kilocode_change
 import { formatReminderSection } from "./reminder"
 
 // kilocode_change start
@@ -180,6 +181,22 @@ export async function getEnvironmentDetails(cline: Task, includeFileDetails: boo
 		}
 	}
 
+	// kilocode_change start
+	// The jobs of the task are listed while they run or have output that was
+	// not read yet.
+	const backgroundJobs = TerminalRegistry.getBackgroundJobs(cline.taskId)
+		.map((job) => ({ job, hasNewOutput: TerminalRegistry.hasUnreadBackgroundJobOutput(job.id) }))
+		.filter(({ job, hasNewOutput }) => job.status === "running" || hasNewOutput)
+
+	if (backgroundJobs.length > 0) {
+		terminalDetails += "\n\n# Background Jobs"
+
+		for (const { job, hasNewOutput } of backgroundJobs) {
+			terminalDetails += `\n- ${describeBackgroundJob(job)}${hasNewOutput ? " (has new output)" : ""}`
+		}
+	}
+	// kilocode_change end
+
 	// console.log(`[Task#getEnvironmentDetails] terminalDetails: ${terminalDetails}`)
 
 	// Add recently modified files section.
@@ -0,0 +1,108 @@
+// kilocode_change - new file
+// npx vitest core/mentions/__tests__/contextMentions.spec.ts
+
+import * as vscode from "vscode"
+
+import { parseMentions } from "../index"
+import { UrlContentFetcher } from "../../../services/browser/UrlContentFetcher"
+import { getRefDiff } from "../../../utils/git"
+import { findSymbolDefinitions } from "../../../services/tree-sitter/symbolDefinitions"
+import { getFolderTree } from "../folderTree"
+
+vi.mock("vscode", () => ({
+	window: {
+		showErrorMessage: vi.fn(),
+	},
+	commands: {
+		executeCommand: vi.fn(),
+	},
+	env: {
+		clipboard: {
+			readText: vi.fn(),
+			writeText: vi.fn(),
+		},
+	},
+}))
+
+vi.mock("../../../i18n", () => ({
+	t: vi.fn((key: string) => key),
+}))
+
+vi.mock("../../../utils/git", () => ({
+	getCommitInfo: vi.fn(),
+	getWorkingState: vi.fn(),
+	getRefDiff: vi.fn(),
+}))
+
+vi.mock("../../../services/tree-sitter/symbolDefinitions", () => ({
+	findSymbolDefinitions: vi.fn(),
+}))
+
+vi.mock("../folderTree", () => ({
+	getFolderTree: vi.fn(),
+}))
+
+describe("parseMentions - context mentions", () => {
+	const urlContentFetcher = {} as UrlContentFetcher
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+	})
+
+	it("should include the symbol definitions", async () => {
+		vi.mocked(findSymbolDefinitions).mockResolvedValue([
+			{ filePath: "src/task.ts", startLine: 3, endLine: 5, source: "function abortTask() {\n\treturn\n}" },
+		])
+
+		const result = await parseMentions("Explain @symbol:abortTask.", "/test", urlContentFetcher)
+
+		expect(findSymbolDefinitions).toHaveBeenCalledWith("abortTask", "/test", undefined)
+		expect(result).toContain("Explain Symbol 'abortTask' (see below for definition).")
+		expect(result).toContain(
+			'<symbol_definition name="abortTask">\n# src/task.ts:3-5\nfunction abortTask() {\n\treturn\n}\n</symbol_definition>',
+		)
+	})
+
+	it("should say when a symbol is not found", async () => {
+		vi.mocked(findSymbolDefinitions).mockResolvedValue([])
+
+		const result = await parseMentions("@symbol:Missing", "/test", urlContentFetcher)
+
+		expect(result).toContain("No definition found for 'Missing'.")
+	})
+
+	it("should include the diff of a ref range", async () => {
+		vi.mocked(getRefDiff).mockResolvedValue("Changes in main..HEAD:")
+
+		const result = await parseMentions("Review @diff:main..HEAD", "/test", urlContentFetcher)
+
+		expect(getRefDiff).toHaveBeenCalledWith("main..HEAD", "/test")
+		expect(result).toContain("Review Git diff 'main..HEAD' (see below for diff)")
+		expect(result).toContain('<git_diff ref="main..HEAD">\nChanges in main..HEAD:\n</git_diff>')
+	})
+
+	it("should include the failures parsed from the terminal output", async () => {
+		vi.mocked(vscode.env.clipboard.readText)
+			.mockResolvedValueOnce("original clipboard")
+			.mockResolvedValueOnce("$ npm test\n--- FAIL: TestAdd (0.00s)\n    math_test.go:8: expected 4\nFAIL\n$")
+
+		const result = await parseMentions("Fix @tests", "/test", urlContentFetcher)
+
+		expect(result).toContain("Fix Test failures (see below for failures)")
+		expect(result).toContain(
+			"<test_failures>\n1 failing test:\n\nTestAdd\n    math_test.go:8: expected 4\n</test_failures>",
+		)
+		expect(vscode.env.clipboard.writeText).toHaveBeenCalledWith("original clipboard")
+	})
+
+	it("should include the folder tree", async () => {
+		vi.mocked(getFolderTree).mockResolvedValue("src/\n└── index.ts")
+
+		const result = await parseMentions("Look at @folder-tree:/src/ and @folder-tree", "/test", urlContentFetcher)
+
+		expect(getFolderTree).toHaveBeenCalledWith("src/", "/test", undefined)
+		expect(getFolderTree).toHaveBeenCalledWith("", "/test", undefined)
+		expect(result).toContain("Look at Folder tree of 'src/' (see below for tree) and Folder tree of '.'")
+		expect(result).toContain('<folder_tree path="src/">\nsrc/\n└── index.ts\n</folder_tree>')
+	})
+})
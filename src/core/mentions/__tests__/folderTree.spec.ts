@@ -0,0 +1,68 @@
+// kilocode_change - new file
+// npx vitest core/mentions/__tests__/folderTree.spec.ts
+
+import fs from "fs"
+import os from "os"
+import * as path from "path"
+
+import { getFolderTree } from "../folderTree"
+
+describe("getFolderTree", () => {
+	let cwd: string
+
+	const write = (relPath: string) => {
+		const filePath = path.join(cwd, relPath)
+		fs.mkdirSync(path.dirname(filePath), { recursive: true })
+		fs.writeFileSync(filePath, "")
+	}
+
+	beforeEach(() => {
+		cwd = fs.mkdtempSync(path.join(os.tmpdir(), "folder-tree-"))
+		write("README.md")
+		write("src/index.ts")
+		write("src/utils/path.ts")
+		write("src/utils/deep/nested/file.ts")
+		write("node_modules/pkg/index.js")
+		write(".git/HEAD")
+	})
+
+	afterEach(() => {
+		fs.rmSync(cwd, { recursive: true, force: true })
+	})
+
+	it("should list the directories first and skip the ignored directories", async () => {
+		const tree = await getFolderTree("", cwd)
+
+		expect(tree).toBe(
+			[
+				"./",
+				"├── src/",
+				"│   ├── utils/",
+				"│   │   ├── deep/ (1 entry)",
+				"│   │   └── path.ts",
+				"│   └── index.ts",
+				"└── README.md",
+			].join("\n"),
+		)
+	})
+
+	it("should build the tree of a sub folder", async () => {
+		const tree = await getFolderTree("src/utils/", cwd, undefined, 1)
+
+		expect(tree).toBe(["src/utils/", "├── deep/ (1 entry)", "└── path.ts"].join("\n"))
+	})
+
+	it("should leave out the files ignored by the ignore controller", async () => {
+		const rooIgnoreController = {
+			validateAccess: (filePath: string) => !filePath.endsWith("README.md"),
+		} as any
+
+		const tree = await getFolderTree("", cwd, rooIgnoreController, 1)
+
+		expect(tree).toBe(["./", "└── src/ (2 entries)"].join("\n"))
+	})
+
+	it("should throw for a missing folder", async () => {
+		await expect(getFolderTree("missing/", cwd)).rejects.toThrow('Not a directory: "missing/"')
+	})
+})
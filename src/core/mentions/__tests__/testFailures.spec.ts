@@ -0,0 +1,93 @@
+// kilocode_change - new file
+// npx vitest core/mentions/__tests__/testFailures.spec.ts
+
+import { formatTestFailures, parseTestFailures } from "../testFailures"
+
+describe("parseTestFailures", () => {
+	it("should parse the vitest failure reports", () => {
+		const output = [
+			"\x1b[31m ❯ src/math.spec.ts (2 tests | 1 failed) 5ms\x1b[39m",
+			"   × adds numbers 3ms",
+			"",
+			"⎯⎯⎯⎯⎯⎯⎯ Failed Tests 1 ⎯⎯⎯⎯⎯⎯⎯",
+			"",
+			" FAIL  src/math.spec.ts > math > adds numbers",
+			"AssertionError: expected 3 to be 4",
+			" ❯ src/math.spec.ts:5:17",
+			"",
+			"⎯⎯⎯⎯⎯⎯⎯⎯⎯⎯[1/1]⎯",
+			"",
+			" Test Files  1 failed (1)",
+		].join("\n")
+
+		expect(parseTestFailures(output)).toEqual([
+			{
+				name: "src/math.spec.ts > math > adds numbers",
+				details: ["AssertionError: expected 3 to be 4", " ❯ src/math.spec.ts:5:17"],
+			},
+		])
+	})
+
+	it("should parse the jest failure reports", () => {
+		const output = [
+			"  ● math › adds numbers",
+			"",
+			"    expect(received).toBe(expected)",
+			"",
+			"    Expected: 4",
+			"    Received: 3",
+			"",
+			"Tests:       1 failed, 1 passed, 2 total",
+		].join("\n")
+
+		expect(parseTestFailures(output)).toEqual([
+			{
+				name: "math › adds numbers",
+				details: ["    expect(received).toBe(expected)", "", "    Expected: 4", "    Received: 3"],
+			},
+		])
+	})
+
+	it("should parse the go test failures", () => {
+		const output = [
+			"=== RUN   TestAdd",
+			"--- FAIL: TestAdd (0.00s)",
+			"    math_test.go:8: expected 4, got 3",
+			"FAIL",
+			"FAIL\texample.com/math\t0.002s",
+		].join("\n")
+
+		expect(parseTestFailures(output)).toEqual([
+			{ name: "TestAdd", details: ["    math_test.go:8: expected 4, got 3"] },
+		])
+	})
+
+	it("should fall back to the summary lines", () => {
+		const output = [
+			"FAILED tests/test_math.py::test_add - assert 3 == 4",
+			"test tests::subtracts ... FAILED",
+			"test tests::adds ... ok",
+		].join("\n")
+
+		expect(parseTestFailures(output).map((failure) => failure.name)).toEqual([
+			"tests/test_math.py::test_add - assert 3 == 4",
+			"tests::subtracts",
+		])
+	})
+
+	it("should return nothing for a passing run", () => {
+		expect(parseTestFailures(" Test Files  3 passed (3)\n      Tests  12 passed (12)")).toEqual([])
+	})
+})
+
+describe("formatTestFailures", () => {
+	it("should list the failures with their details", () => {
+		expect(formatTestFailures([{ name: "adds numbers", details: ["expected 3 to be 4"] }])).toBe(
+			"1 failing test:\n\nadds numbers\nexpected 3 to be 4",
+		)
+	})
+
+	it("should say when there are no failures", () => {
+		expect(formatTestFailures([])).toBe("No test failures found in the latest terminal output.")
+	})
+})
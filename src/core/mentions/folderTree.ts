@@ -0,0 +1,71 @@
+// kilocode_change - new file
+import fs from "fs/promises"
+import * as path from "path"
+
+import { isPathInIgnoredDirectory } from "../../services/glob/ignore-utils"
+import { RooIgnoreController } from "../ignore/RooIgnoreController"
+
+const MAX_FOLDER_TREE_DEPTH = 3
+const MAX_FOLDER_TREE_ENTRIES = 300
+
+/**
+ * Builds a compact directory tree, without file contents. Directories are listed
+ * first, the large generated directories and the ignored files are left out, and
+ * the directories below the maximum depth only show their number of entries.
+ */
+export async function getFolderTree(
+	folderPath: string,
+	cwd: string,
+	rooIgnoreController?: RooIgnoreController,
+	maxDepth: number = MAX_FOLDER_TREE_DEPTH,
+): Promise<string> {
+	const absPath = path.resolve(cwd, folderPath)
+	const stats = await fs.stat(absPath).catch(() => undefined)
+	if (!stats?.isDirectory()) {
+		throw new Error(`Not a directory: "${folderPath || "."}"`)
+	}
+
+	const lines: string[] = [`${path.relative(cwd, absPath).toPosix() || "."}/`]
+	let truncated = false
+
+	const walk = async (dirPath: string, indent: string, depth: number): Promise<void> => {
+		const entries = (await fs.readdir(dirPath, { withFileTypes: true }))
+			.filter((entry) => {
+				const entryPath = path.join(dirPath, entry.name)
+				if (entry.isDirectory() && isPathInIgnoredDirectory(entry.name)) {
+					return false
+				}
+				return !rooIgnoreController || rooIgnoreController.validateAccess(entryPath)
+			})
+			.sort((a, b) => Number(b.isDirectory()) - Number(a.isDirectory()) || a.name.localeCompare(b.name))
+
+		for (let index = 0; index < entries.length; index++) {
+			if (lines.length > MAX_FOLDER_TREE_ENTRIES) {
+				truncated = true
+				return
+			}
+
+			const entry = entries[index]
+			const isLast = index === entries.length - 1
+			const linePrefix = `${indent}${isLast ? "└── " : "├── "}`
+			const entryPath = path.join(dirPath, entry.name)
+
+			if (!entry.isDirectory()) {
+				lines.push(`${linePrefix}${entry.name}`)
+			} else if (depth >= maxDepth) {
+				const count = (await fs.readdir(entryPath).catch(() => [])).length
+				lines.push(`${linePrefix}${entry.name}/ (${count} ${count === 1 ? "entry" : "entries"})`)
+			} else {
+				lines.push(`${linePrefix}${entry.name}/`)
+				await walk(entryPath, `${indent}${isLast ? "    " : "│   "}`, depth + 1)
+			}
+		}
+	}
+
+	await walk(absPath, "", 1)
+
+	if (truncated) {
+		lines.push(`(Tree truncated after ${MAX_FOLDER_TREE_ENTRIES} entries)`)
+	}
+	return lines.join("\n")
+}
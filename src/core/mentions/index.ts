@@ -6,7 +6,7 @@ import { isBinaryFile } from "isbinaryfile"
 
 import { mentionRegexGlobal, commandRegexGlobal, unescapeSpaces } from "../../shared/context-mentions"
 
-import { getCommitInfo, getWorkingState } from "../../utils/git"
+import { getCommitInfo, getWorkingState, getRefDiff } from "../../utils/git" // kilocode_change
 
 import { openFile } from "../../integrations/misc/open-file"
 import { extractTextFromFile } from "../../integrations/misc/extract-text"
@@ -18,9 +18,16 @@ import { FileContextTracker } from "../context-tracking/FileContextTracker"
 
 import { RooIgnoreController } from "../ignore/RooIgnoreController"
 import { getCommand, type Command } from "../../services/command/commands"
+import { runMcpPromptCommand } from "../../services/command/mcp-prompts" // kilocode_change
+import type { McpHub } from "../../services/mcp/McpHub" // kilocode_change
 
 import { t } from "../../i18n"
 import { isSupportedImageFormat } from "../tools/helpers/imageHelpers" // kilocode_change
+// kilocode_change start
+import { findSymbolDefinitions } from "../../services/tree-sitter/symbolDefinitions"
+import { formatTestFailures, parseTestFailures } from "./testFailures"
+import { getFolderTree } from "./folderTree"
+// kilocode_change end
 
 function getUrlErrorMessage(error: unknown): string {
 	const errorMessage = error instanceof Error ? error.message : String(error)
@@ -67,6 +74,13 @@ export async function openMention(cwd: string, mention?: string): Promise<void>
 		vscode.commands.executeCommand("workbench.actions.view.problems")
 	} else if (mention === "terminal") {
 		vscode.commands.executeCommand("workbench.action.terminal.focus")
+		// kilocode_change start
+	} else if (mention === "tests") {
+		vscode.commands.executeCommand("workbench.action.terminal.focus")
+	} else if (mention.startsWith("folder-tree:/")) {
+		const absPath = path.resolve(cwd, unescapeSpaces(mention.slice("folder-tree:/".length)))
+		vscode.commands.executeCommand("revealInExplorer", vscode.Uri.file(absPath))
+		// kilocode_change end
 	} else if (mention.startsWith("http")) {
 		vscode.env.openExternal(vscode.Uri.parse(mention))
 	}
@@ -82,9 +96,11 @@ export async function parseMentions(
 	includeDiagnosticMessages: boolean = true,
 	maxDiagnosticMessages: number = 50,
 	maxReadFileLine?: number,
+	mcpHub?: McpHub, // kilocode_change
 ): Promise<string> {
 	const mentions: Set<string> = new Set()
 	const validCommands: Map<string, Command> = new Map()
+	const commandInputs: Map<string, string> = new Map() // kilocode_change
 
 	// First pass: check which command mentions exist and cache the results
 	const commandMatches = Array.from(text.matchAll(commandRegexGlobal))
@@ -93,7 +109,7 @@ export async function parseMentions(
 	const commandExistenceChecks = await Promise.all(
 		Array.from(uniqueCommandNames).map(async (commandName) => {
 			try {
-				const command = await getCommand(cwd, commandName)
+				const command = await getCommand(cwd, commandName, mcpHub) // kilocode_change
 				return { commandName, command }
 			} catch (error) {
 				// If there's an error checking command existence, treat it as non-existent
@@ -111,8 +127,17 @@ export async function parseMentions(
 
 	// Only replace text for commands that actually exist
 	let parsedText = text
-	for (const [match, commandName] of commandMatches) {
+	// kilocode_change start
+	for (const commandMatch of commandMatches) {
+		const [match, commandName] = commandMatch
+		// kilocode_change end
 		if (validCommands.has(commandName)) {
+			// kilocode_change start: keep the rest of the line as input for MCP prompt arguments
+			if (!commandInputs.has(commandName)) {
+				const restOfLine = text.slice((commandMatch.index ?? 0) + match.length).split("\n")[0]
+				commandInputs.set(commandName, restOfLine.split("</")[0])
+			}
+			// kilocode_change end
 			parsedText = parsedText.replace(match, `Command '${commandName}' (see below for command content)`)
 		}
 	}
@@ -135,6 +160,17 @@ export async function parseMentions(
 			return `Git commit '${mention}' (see below for commit info)`
 		} else if (mention === "terminal") {
 			return `Terminal Output (see below for output)`
+			// kilocode_change start
+		} else if (mention.startsWith("symbol:")) {
+			return `Symbol '${mention.slice("symbol:".length)}' (see below for definition)`
+		} else if (mention.startsWith("diff:")) {
+			return `Git diff '${mention.slice("diff:".length)}' (see below for diff)`
+		} else if (mention === "tests") {
+			return `Test failures (see below for failures)`
+		} else if (mention.startsWith("folder-tree")) {
+			const folderPath = getFolderTreePath(mention)
+			return `Folder tree of '${folderPath || "."}' (see below for tree)`
+			// kilocode_change end
 		}
 		return match
 	})
@@ -233,6 +269,48 @@ export async function parseMentions(
 			} catch (error) {
 				parsedText += `\n\n<terminal_output>\nError fetching terminal output: ${error.message}\n</terminal_output>`
 			}
+			// kilocode_change start
+		} else if (mention.startsWith("symbol:")) {
+			const symbol = mention.slice("symbol:".length)
+			try {
+				const definitions = await findSymbolDefinitions(symbol, cwd, rooIgnoreController)
+				const content =
+					definitions.length > 0
+						? definitions
+								.map(
+									({ filePath, startLine, endLine, source }) =>
+										`# ${filePath}:${startLine}-${endLine}\n${source}`,
+								)
+								.join("\n\n")
+						: `No definition found for '${symbol}'.`
+				parsedText += `\n\n<symbol_definition name="${symbol}">\n${content}\n</symbol_definition>`
+			} catch (error) {
+				parsedText += `\n\n<symbol_definition name="${symbol}">\nError finding symbol definition: ${error.message}\n</symbol_definition>`
+			}
+		} else if (mention.startsWith("diff:")) {
+			const ref = mention.slice("diff:".length)
+			try {
+				const diff = await getRefDiff(ref, cwd)
+				parsedText += `\n\n<git_diff ref="${ref}">\n${diff}\n</git_diff>`
+			} catch (error) {
+				parsedText += `\n\n<git_diff ref="${ref}">\nError fetching diff: ${error.message}\n</git_diff>`
+			}
+		} else if (mention === "tests") {
+			try {
+				const terminalOutput = await getLatestTerminalOutput()
+				parsedText += `\n\n<test_failures>\n${formatTestFailures(parseTestFailures(terminalOutput))}\n</test_failures>`
+			} catch (error) {
+				parsedText += `\n\n<test_failures>\nError fetching test failures: ${error.message}\n</test_failures>`
+			}
+		} else if (mention.startsWith("folder-tree")) {
+			const folderPath = getFolderTreePath(mention)
+			try {
+				const tree = await getFolderTree(unescapeSpaces(folderPath), cwd, rooIgnoreController)
+				parsedText += `\n\n<folder_tree path="${folderPath || "."}">\n${tree}\n</folder_tree>`
+			} catch (error) {
+				parsedText += `\n\n<folder_tree path="${folderPath || "."}">\nError fetching folder tree: ${error.message}\n</folder_tree>`
+			}
+			// kilocode_change end
 		}
 	}
 
@@ -240,6 +318,13 @@ export async function parseMentions(
 	for (const [commandName, command] of validCommands) {
 		try {
 			let commandOutput = ""
+			// kilocode_change start
+			if (command.source === "mcp" && mcpHub) {
+				commandOutput = await runMcpPromptCommand(mcpHub, command, commandInputs.get(commandName) ?? "")
+				parsedText += `\n\n<command name="${commandName}">\n${commandOutput}\n</command>`
+				continue
+			}
+			// kilocode_change end
 			if (command.description) {
 				commandOutput += `Description: ${command.description}\n\n`
 			}
@@ -261,6 +346,15 @@ export async function parseMentions(
 	return parsedText
 }
 
+// kilocode_change start
+/**
+ * The folder of a folder tree mention, relative to the workspace
+ */
+function getFolderTreePath(mention: string): string {
+	return mention.startsWith("folder-tree:/") ? mention.slice("folder-tree:/".length) : ""
+}
+// kilocode_change end
+
 async function getFileOrFolderContent(
 	mentionPath: string,
 	cwd: string,
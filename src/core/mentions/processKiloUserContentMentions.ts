@@ -2,6 +2,7 @@ import { Anthropic } from "@anthropic-ai/sdk"
 import { parseMentions } from "./index"
 import { UrlContentFetcher } from "../../services/browser/UrlContentFetcher"
 import { FileContextTracker } from "../context-tracking/FileContextTracker"
+import type { McpHub } from "../../services/mcp/McpHub" // kilocode_change
 
 import { GlobalFileNames } from "../../shared/globalFileNames"
 import { ensureLocalKilorulesDirExists } from "../context/instructions/kilo-rules"
@@ -23,6 +24,7 @@ export async function processKiloUserContentMentions({
 	includeDiagnosticMessages = true,
 	maxDiagnosticMessages = 50,
 	maxReadFileLine,
+	mcpHub, // kilocode_change
 }: {
 	context: vscode.ExtensionContext // kilocode_change
 	userContent: Anthropic.Messages.ContentBlockParam[]
@@ -34,6 +36,7 @@ export async function processKiloUserContentMentions({
 	includeDiagnosticMessages?: boolean
 	maxDiagnosticMessages?: number
 	maxReadFileLine?: number
+	mcpHub?: McpHub // kilocode_change
 }): Promise<[Anthropic.Messages.ContentBlockParam[], boolean]> {
 	// Track if we need to check kilorules file
 	let needsRulesFileCheck = false
@@ -72,6 +75,7 @@ export async function processKiloUserContentMentions({
 							includeDiagnosticMessages,
 							maxDiagnosticMessages,
 							maxReadFileLine,
+							mcpHub, // kilocode_change
 						)
 
 						// when parsing slash commands, we still want to allow the user to provide their desired context
@@ -108,6 +112,7 @@ export async function processKiloUserContentMentions({
 									includeDiagnosticMessages,
 									maxDiagnosticMessages,
 									maxReadFileLine,
+									mcpHub, // kilocode_change
 								),
 							}
 						}
@@ -129,6 +134,7 @@ export async function processKiloUserContentMentions({
 											includeDiagnosticMessages,
 											maxDiagnosticMessages,
 											maxReadFileLine,
+											mcpHub, // kilocode_change
 										),
 									}
 								}
@@ -0,0 +1,105 @@
+// kilocode_change - new file
+import stripAnsi from "strip-ansi"
+
+const MAX_FAILURE_DETAIL_LINES = 20
+
+export interface TestFailure {
+	name: string
+	details: string[]
+}
+
+/**
+ * Failure headers of the common test runners. The detailed headers start a block
+ * with the error of the failure, the others are single summary lines.
+ */
+const DETAILED_FAILURE_PATTERNS = [
+	// vitest: "FAIL  src/a.spec.ts > suite > test"
+	/^\s*FAIL\s+(.+\s>\s.+)$/,
+	// jest: "● suite › test"
+	/^\s*●\s+(?!Console\b)(.+›.+)$/,
+	// go test: "--- FAIL: TestName (0.00s)"
+	/^\s*--- FAIL:\s+(\S+)/,
+	// cargo test: "---- tests::name stdout ----"
+	/^----\s+(\S+)\s+stdout\s+----$/,
+]
+
+const SUMMARY_FAILURE_PATTERNS = [
+	// vitest and jest test lists: "× test name 5ms", "✕ test name (5 ms)"
+	/^\s*[×✕✗]\s+(.+?)(?:\s+\(?\d+\s?ms\)?)?$/,
+	// pytest: "FAILED tests/test_a.py::test_name - AssertionError"
+	/^FAILED\s+(\S+(?:\s+-\s+.+)?)$/,
+	// cargo test: "test tests::name ... FAILED"
+	/^test\s+(\S+)\s+\.\.\.\s+FAILED$/,
+]
+
+/** Lines ending the detail block of a failure */
+const FAILURE_BLOCK_END = /^\s*(?:⎯{3,}|={3,}|FAIL\b|ok\s|PASS\b|Test Files\b|Tests:|failures:$)/
+
+function matchFailure(line: string, patterns: RegExp[]): string | undefined {
+	for (const pattern of patterns) {
+		const match = line.match(pattern)
+		if (match) {
+			return match[1].trim()
+		}
+	}
+	return undefined
+}
+
+/**
+ * Parse the failures of a test run from terminal output. The detailed failure
+ * reports are preferred, the summary lines are only used when there are none.
+ */
+export function parseTestFailures(output: string): TestFailure[] {
+	const lines = stripAnsi(output).split(/\r?\n/)
+	const detailed: TestFailure[] = []
+	const summary: TestFailure[] = []
+	let current: TestFailure | undefined
+
+	for (const line of lines) {
+		const detailedName = matchFailure(line, DETAILED_FAILURE_PATTERNS)
+		if (detailedName) {
+			current = detailed.find((failure) => failure.name === detailedName)
+			if (!current) {
+				current = { name: detailedName, details: [] }
+				detailed.push(current)
+			}
+			continue
+		}
+
+		const summaryName = matchFailure(line, SUMMARY_FAILURE_PATTERNS)
+		if (summaryName) {
+			current = undefined
+			if (!summary.some((failure) => failure.name === summaryName)) {
+				summary.push({ name: summaryName, details: [] })
+			}
+			continue
+		}
+
+		if (!current) {
+			continue
+		}
+		if (FAILURE_BLOCK_END.test(line)) {
+			current = undefined
+		} else if (current.details.length < MAX_FAILURE_DETAIL_LINES && (line.trim() || current.details.length)) {
+			current.details.push(line.trimEnd())
+		}
+	}
+
+	const failures = detailed.length > 0 ? detailed : summary
+	for (const failure of failures) {
+		while (failure.details.length && !failure.details[failure.details.length - 1].trim()) {
+			failure.details.pop()
+		}
+	}
+	return failures
+}
+
+export function formatTestFailures(failures: TestFailure[]): string {
+	if (failures.length === 0) {
+		return "No test failures found in the latest terminal output."
+	}
+
+	const header = `${failures.length} failing test${failures.length === 1 ? "" : "s"}:`
+	const blocks = failures.map(({ name, details }) => [name, ...details].join("\n"))
+	return [header, ...blocks].join("\n\n")
+}
@@ -306,6 +306,8 @@ export async function addCustomInstructions(
 		localRulesToggleState?: ClineRulesToggles
 		globalRulesToggleState?: ClineRulesToggles
 		settings?: SystemPromptSettings
+		/** The modes the mode inherits from, the mode it extends first */
+		inheritedModes?: string[]
 	} = {},
 	// kilocode_change end
 ): Promise<string> {
@@ -319,17 +321,25 @@ export async function addCustomInstructions(
 		const modeRules: string[] = []
 		const rooDirectories = getRooDirectoriesForCwd(cwd)
 
-		// Check for .roo/rules-${mode}/ directories in order (global first, then project-local)
-		for (const rooDir of rooDirectories) {
-			const modeRulesDir = path.join(rooDir, `rules-${mode}`)
-			if (await directoryExists(modeRulesDir)) {
-				const files = await readTextFilesFromDirectory(modeRulesDir)
-				if (files.length > 0) {
-					const content = formatDirectoryContent(modeRulesDir, files)
-					modeRules.push(content)
+		// kilocode_change start: the rules of the inherited modes come before the rules of the mode
+		const ruleModes = new Set([...(options.inheritedModes ?? [])].reverse())
+		ruleModes.delete(mode)
+		ruleModes.add(mode)
+
+		for (const ruleMode of ruleModes) {
+			// Check for .roo/rules-${mode}/ directories in order (global first, then project-local)
+			for (const rooDir of rooDirectories) {
+				const modeRulesDir = path.join(rooDir, `rules-${ruleMode}`)
+				if (await directoryExists(modeRulesDir)) {
+					const files = await readTextFilesFromDirectory(modeRulesDir)
+					if (files.length > 0) {
+						const content = formatDirectoryContent(modeRulesDir, files)
+						modeRules.push(content)
+					}
 				}
 			}
 		}
+		// kilocode_change end
 
 		// If we found mode-specific rules in .roo/rules-${mode}/ directories, use them
 		if (modeRules.length > 0) {
@@ -35,6 +35,7 @@ import {
 	markdownFormattingSection,
 } from "./sections"
 import { type ClineProviderState } from "../webview/ClineProvider" // kilocode_change
+import { getModeInheritanceChain } from "../../shared/kilocode/modeInheritance" // kilocode_change
 
 // Helper function to get prompt component, filtering out empty objects
 export function getPromptComponent(
@@ -149,6 +150,7 @@ ${await addCustomInstructions(baseInstructions, globalCustomInstructions || "",
 	localRulesToggleState: context.workspaceState.get("localRulesToggles"), // kilocode_change
 	globalRulesToggleState: context.globalState.get("globalRulesToggles"), // kilocode_change
 	settings,
+	inheritedModes: getModeInheritanceChain(mode, customModeConfigs), // kilocode_change
 })}`
 
 	return basePrompt
@@ -217,6 +219,7 @@ export const SYSTEM_PROMPT = async (
 				language: language ?? formatLanguage(vscode.env.language),
 				rooIgnoreInstructions,
 				settings,
+				inheritedModes: getModeInheritanceChain(mode, customModes), // kilocode_change
 			},
 		)
 
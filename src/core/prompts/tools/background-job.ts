@@ -0,0 +1,35 @@
+// kilocode_change - new file
+export function getBackgroundJobDescription(): string {
+	return `## background_job
+Description: Check on and control the background jobs started with execute_command and background set to true. Reading a job only returns the output since the last read, so you can follow the log of a dev server or watcher without repeating old output.
+Parameters:
+- action: (required) The action to perform. The available actions are:
+    * list: List the background jobs of this task with their status.
+    * read: Read the new output of a job since the last read.
+    * wait: Wait until the new output of a job matches a pattern, the job finishes, or the timeout expires. Use this to wait for a dev server to be ready or a watcher to finish a build.
+    * kill: Stop a running job, once the user approves it.
+- job_id: (required for read, wait and kill) The id of the job, as returned by execute_command.
+- pattern: (required for wait) A JavaScript regular expression to match against the new output, e.g. \`ready|listening on\`.
+- timeout: (optional for wait) The maximum time to wait in seconds (default: 30, maximum: 300).
+Usage:
+<background_job>
+<action>list, read, wait or kill</action>
+<job_id>Job id (optional)</job_id>
+<pattern>Regular expression (optional)</pattern>
+<timeout>Seconds (optional)</timeout>
+</background_job>
+
+Example: Waiting for a dev server to be ready
+<background_job>
+<action>wait</action>
+<job_id>1</job_id>
+<pattern>ready in \\d+ ms|Local:\\s+http</pattern>
+<timeout>60</timeout>
+</background_job>
+
+Example: Reading the new output of a job
+<background_job>
+<action>read</action>
+<job_id>1</job_id>
+</background_job>`
+}
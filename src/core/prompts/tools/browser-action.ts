@@ -4,22 +4,24 @@ export function getBrowserActionDescription(args: ToolArgs): string | undefined
 	if (!args.supportsComputerUse) {
 		return undefined
 	}
+	// kilocode_change: selector-based actions and accessibility snapshots
 	return `## browser_action
-Description: Request to interact with a Puppeteer-controlled browser. Every action, except \`close\`, will be responded to with a screenshot of the browser's current state, along with any new console logs. You may only perform one browser action per message, and wait for the user's response including a screenshot and logs to determine the next action.
+Description: Request to interact with a Puppeteer-controlled browser. Every action, except \`close\`, will be responded to with a screenshot of the browser's current state, along with any new console logs. Actions that target elements by \`selector\`, and every action when screenshots can't be shown to you, are instead responded to with a text snapshot of the page's accessibility tree, in which elements have refs like \`e12\`. You may only perform one browser action per message, and wait for the user's response including a screenshot or snapshot and logs to determine the next action.
 - The sequence of actions **must always start with** launching the browser at a URL, and **must always end with** closing the browser. If you need to visit a new URL that is not possible to navigate to from the current webpage, you must first close the browser, then launch again at the new URL.
 - While the browser is active, only the \`browser_action\` tool can be used. No other tools should be called during this time. You may proceed to use other tools only after closing the browser. For example if you run into an error and need to fix a file, you must close the browser, then use other tools to make the necessary changes, then re-launch the browser to verify the result.
 - The browser window has a resolution of **${args.browserViewportSize}** pixels. When performing any click actions, ensure the coordinates are within this resolution range.
 - Before clicking on any elements such as icons, links, or buttons, you must consult the provided screenshot of the page to determine the coordinates of the element. The click should be targeted at the **center of the element**, not on its edges.
+- Prefer targeting elements with the \`selector\` parameter, using a ref from the latest snapshot (e.g. \`e12\`) or a CSS selector. This is more reliable than coordinates and uses fewer tokens. Take a \`snapshot\` to get the current refs.
 Parameters:
 - action: (required) The action to perform. The available actions are:
     * launch: Launch a new Puppeteer-controlled browser instance at the specified URL. This **must always be the first action**.
         - Use with the \`url\` parameter to provide the URL.
         - Ensure the URL is valid and includes the appropriate protocol (e.g. http://localhost:3000/page, file:///path/to/file.html, etc.)
-    * hover: Move the cursor to a specific x,y coordinate.
-        - Use with the \`coordinate\` parameter to specify the location.
+    * hover: Move the cursor to a specific x,y coordinate or element.
+        - Use with the \`coordinate\` parameter to specify the location, or the \`selector\` parameter to specify the element.
         - Always move to the center of an element (icon, button, link, etc.) based on coordinates derived from a screenshot.
-    * click: Click at a specific x,y coordinate.
-        - Use with the \`coordinate\` parameter to specify the location.
+    * click: Click at a specific x,y coordinate or element.
+        - Use with the \`coordinate\` parameter to specify the location, or the \`selector\` parameter to specify the element.
         - Always click in the center of an element (icon, button, link, etc.) based on coordinates derived from a screenshot.
     * type: Type a string of text on the keyboard. You might use this after clicking on a text field to input text.
         - Use with the \`text\` parameter to provide the string to type.
@@ -27,21 +29,41 @@ Parameters:
         - Use with the \`size\` parameter to specify the new size.
     * scroll_down: Scroll down the page by one page height.
     * scroll_up: Scroll up the page by one page height.
+    * snapshot: Get a text snapshot of the page's accessibility tree, with refs for its elements.
+    * fill: Replace the value of a text field.
+        - Use with the \`selector\` parameter to specify the field and the \`text\` parameter to provide the new value.
+    * select: Select an option of a select element.
+        - Use with the \`selector\` parameter to specify the element and the \`text\` parameter to provide the value or label of the option.
+    * press: Press a key, such as Enter, Tab, Escape or ArrowDown.
+        - Use with the \`text\` parameter to provide the key, and optionally the \`selector\` parameter to specify the element that receives it.
+    * wait_for: Wait up to 10 seconds for an element to become visible, or for a text to appear on the page.
+        - Use with the \`selector\` parameter to specify the element, or the \`text\` parameter to provide the text.
+    * evaluate: Evaluate a JavaScript expression in the page and get its JSON-serialized result.
+        - Use with the \`text\` parameter to provide the expression.
+    * network_log: Get the requests the browser made during the session, with their status, along with the uncaught errors of the page. Use this to debug failing API calls.
+        - Optionally use with the \`url\` parameter to only get requests whose URL contains it (\`*\` is a wildcard), and the \`status\` parameter to only get requests with a status code (404), a status class (4xx), a range (400-499), \`failed\` for requests without a response, or \`error\` for both failed requests and statuses of 400 and above.
     * close: Close the Puppeteer-controlled browser instance. This **must always be the final browser action**.
         - Example: \`<action>close</action>\`
-- url: (optional) Use this for providing the URL for the \`launch\` action.
+- url: (optional) Use this for providing the URL for the \`launch\` action, or the URL pattern for the \`network_log\` action.
     * Example: <url>https://example.com</url>
 - coordinate: (optional) The X and Y coordinates for the \`click\` and \`hover\` actions. Coordinates should be within the **${args.browserViewportSize}** resolution.
     * Example: <coordinate>450,300</coordinate>
 - size: (optional) The width and height for the \`resize\` action.
     * Example: <size>1280,720</size>
-- text: (optional) Use this for providing the text for the \`type\` action.
+- text: (optional) Use this for providing the text for the \`type\`, \`fill\`, \`select\`, \`press\`, \`wait_for\` and \`evaluate\` actions.
     * Example: <text>Hello, world!</text>
+- selector: (optional) An element ref from the latest snapshot or a CSS selector, for the \`click\`, \`hover\`, \`fill\`, \`select\`, \`press\` and \`wait_for\` actions.
+    * Example: <selector>e12</selector>
+    * Example: <selector>#email</selector>
+- status: (optional) The status filter for the \`network_log\` action.
+    * Example: <status>4xx</status>
 Usage:
 <browser_action>
-<action>Action to perform (e.g., launch, click, type, scroll_down, scroll_up, close)</action>
+<action>Action to perform (e.g., launch, snapshot, click, fill, type, scroll_down, scroll_up, close)</action>
 <url>URL to launch the browser at (optional)</url>
 <coordinate>x,y coordinates (optional)</coordinate>
+<selector>Element ref or CSS selector (optional)</selector>
+<status>Status filter for the network log (optional)</status>
 <text>Text to type (optional)</text>
 </browser_action>
 
@@ -55,5 +77,12 @@ Example: Requesting to click on the element at coordinates 450,300
 <browser_action>
 <action>click</action>
 <coordinate>450,300</coordinate>
+</browser_action>
+
+Example: Requesting to fill the text field with ref e12 from the latest snapshot
+<browser_action>
+<action>fill</action>
+<selector>e12</selector>
+<text>jane@example.com</text>
 </browser_action>`
 }
@@ -1,15 +1,18 @@
 import { ToolArgs } from "./types"
 
 export function getExecuteCommandDescription(args: ToolArgs): string | undefined {
+	// kilocode_change: background jobs
 	return `## execute_command
 Description: Request to execute a CLI command on the system. Use this when you need to perform system operations or run specific commands to accomplish any step in the user's task. You must tailor your command to the user's system and provide a clear explanation of what the command does. For command chaining, use the appropriate chaining syntax for the user's shell. Prefer to execute complex CLI commands over creating executable scripts, as they are more flexible and easier to run. Prefer relative commands and paths that avoid location sensitivity for terminal consistency, e.g: \`touch ./testdata/example.file\`, \`dir ./examples/model1/data/yaml\`, or \`go test ./cmd/front --config ./cmd/front/config.yml\`. If directed by the user, you may open a terminal in a different directory by using the \`cwd\` parameter.
 Parameters:
 - command: (required) The CLI command to execute. This should be valid for the current operating system. Ensure the command is properly formatted and does not contain any harmful instructions.
 - cwd: (optional) The working directory to execute the command in (default: ${args.cwd})
+- background: (optional) Set to true to start a long-running command, such as a dev server or a watcher, as a background job. The tool returns a job id right away instead of waiting for the command to finish; use the background_job tool to read its output, wait for it, or kill it.
 Usage:
 <execute_command>
 <command>Your command here</command>
 <cwd>Working directory path (optional)</cwd>
+<background>true or false (optional)</background>
 </execute_command>
 
 Example: Requesting to execute npm run dev
@@ -17,6 +20,12 @@ Example: Requesting to execute npm run dev
 <command>npm run dev</command>
 </execute_command>
 
+Example: Requesting to start a dev server as a background job
+<execute_command>
+<command>npm run dev</command>
+<background>true</background>
+</execute_command>
+
 Example: Requesting to execute ls in a specific directory if directed
 <execute_command>
 <command>ls -la</command>
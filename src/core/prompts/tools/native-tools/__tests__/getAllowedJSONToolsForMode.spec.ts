@@ -211,7 +211,8 @@ describe("getAllowedJSONToolsForMode", () => {
 			expect(browserActionTool).toBeUndefined()
 		})
 
-		it("should exclude browser_action when supportsImages is false", async () => {
+		// kilocode_change: models without image support use accessibility snapshots instead of screenshots
+		it("should include browser_action when supportsImages is false", async () => {
 			const providerState: Partial<ClineProviderState> = {
 				browserToolEnabled: true,
 				experiments: {},
@@ -229,7 +230,7 @@ describe("getAllowedJSONToolsForMode", () => {
 			const browserActionTool = tools.find(
 				(tool) => "function" in tool && tool.function.name === "browser_action",
 			)
-			expect(browserActionTool).toBeUndefined()
+			expect(browserActionTool).toBeDefined()
 		})
 
 		it("should exclude update_todo_list when todoListEnabled is false", async () => {
@@ -296,6 +297,38 @@ describe("getAllowedJSONToolsForMode", () => {
 			)
 			expect(runSlashCommandTool).toBeUndefined()
 		})
+
+		// kilocode_change start
+		it("should exclude the directory read tools when the mode denies paths", async () => {
+			const providerState: Partial<ClineProviderState> = {
+				customModes: [
+					{
+						slug: "restricted",
+						name: "Restricted",
+						roleDefinition: "You are restricted",
+						groups: [["read", { deniedPaths: [".env*"] }], "edit"],
+					},
+				],
+				experiments: {},
+			}
+
+			vi.mocked(mockProvider.getState!).mockResolvedValue(providerState as ClineProviderState)
+
+			const tools = await getAllowedJSONToolsForMode(
+				"restricted" as Mode,
+				mockProvider as ClineProvider,
+				true,
+				modelWithImages,
+			)
+
+			const toolNames = tools.map((tool) => ("function" in tool ? tool.function.name : ""))
+			expect(toolNames).toContain("read_file")
+			expect(toolNames).toContain("write_to_file")
+			expect(toolNames).not.toContain("list_files")
+			expect(toolNames).not.toContain("search_files")
+			expect(toolNames).not.toContain("list_code_definition_names")
+		})
+		// kilocode_change end
 	})
 
 	describe("always available tools", () => {
@@ -0,0 +1,36 @@
+// kilocode_change - new file
+import type OpenAI from "openai"
+
+export default {
+	type: "function",
+	function: {
+		name: "background_job",
+		description:
+			"Check on and control the background jobs this task started with execute_command and background set to true: list them, read the output since the last read, wait until the output matches a pattern, or kill a job once the user approves it.",
+		strict: true,
+		parameters: {
+			type: "object",
+			properties: {
+				action: {
+					type: "string",
+					description: "Action to perform",
+					enum: ["list", "read", "wait", "kill"],
+				},
+				job_id: {
+					type: ["number", "null"],
+					description: "Id of the job, required for read, wait and kill",
+				},
+				pattern: {
+					type: ["string", "null"],
+					description: "JavaScript regular expression to wait for in the new output, required for wait",
+				},
+				timeout: {
+					type: ["number", "null"],
+					description: "Maximum time to wait in seconds for wait (default 30, maximum 300)",
+				},
+			},
+			required: ["action", "job_id", "pattern", "timeout"],
+			additionalProperties: false,
+		},
+	},
+} satisfies OpenAI.Chat.ChatCompletionTool
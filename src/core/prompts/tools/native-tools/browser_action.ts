@@ -5,7 +5,8 @@ export default {
 	function: {
 		name: "browser_action",
 		description:
-			"Interact with a Puppeteer-controlled browser session. Always start by launching at a URL and always finish by closing the browser. While the browser is active, do not call any other tools. Use coordinates within the viewport to hover or click, provide text for typing, and ensure actions are grounded in the latest screenshot and console logs.",
+			// kilocode_change: selector-based actions and accessibility snapshots
+			"Interact with a Puppeteer-controlled browser session. Always start by launching at a URL and always finish by closing the browser. While the browser is active, do not call any other tools. Use coordinates within the viewport to hover or click, provide text for typing, and ensure actions are grounded in the latest screenshot and console logs. Prefer targeting elements with a selector: an element ref from the latest accessibility snapshot (e.g. e12) or a CSS selector. Actions that use a selector respond with an accessibility snapshot instead of a screenshot. Use network_log to inspect the requests and page errors of the session.",
 		strict: true,
 		parameters: {
 			type: "object",
@@ -13,11 +14,31 @@ export default {
 				action: {
 					type: "string",
 					description: "Browser action to perform",
-					enum: ["launch", "hover", "click", "type", "resize", "scroll_down", "scroll_up", "close"],
+					enum: [
+						"launch",
+						"hover",
+						"click",
+						"type",
+						"resize",
+						"scroll_down",
+						"scroll_up",
+						"close",
+						// kilocode_change start
+						"snapshot",
+						"fill",
+						"select",
+						"press",
+						"wait_for",
+						"evaluate",
+						"network_log",
+						// kilocode_change end
+					],
 				},
 				url: {
 					type: ["string", "null"],
-					description: "URL to open when performing the launch action; must include protocol",
+					// kilocode_change
+					description:
+						"URL to open when performing the launch action; must include protocol. For the network_log action, a substring or * wildcard pattern that the URLs of the requests must match",
 				},
 				coordinate: {
 					type: ["object", "null"],
@@ -54,10 +75,24 @@ export default {
 				},
 				text: {
 					type: ["string", "null"],
-					description: "Text to type when performing the type action",
+					// kilocode_change
+					description:
+						"Text to type for the type action, the value for fill, the option value or label for select, the key for press (e.g. Enter), the text to wait for with wait_for, or the JavaScript expression for evaluate",
+				},
+				// kilocode_change start
+				selector: {
+					type: ["string", "null"],
+					description:
+						"Element ref from the latest accessibility snapshot (e.g. e12) or CSS selector for the click, hover, fill, select, press and wait_for actions",
+				},
+				status: {
+					type: ["string", "null"],
+					description:
+						"Status filter for the network_log action: a status code (404), a status class (4xx), a range (400-499), failed for requests without a response, or error for failed requests and statuses of 400 and above",
 				},
+				// kilocode_change end
 			},
-			required: ["action", "url", "coordinate", "size", "text"],
+			required: ["action", "url", "coordinate", "size", "text", "selector", "status"], // kilocode_change
 			additionalProperties: false,
 		},
 	},
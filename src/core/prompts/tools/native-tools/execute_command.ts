@@ -18,8 +18,15 @@ export default {
 					type: ["string", "null"],
 					description: "Optional working directory for the command, relative or absolute",
 				},
+				// kilocode_change start
+				background: {
+					type: ["boolean", "null"],
+					description:
+						"Set true to start a long-running command, like a dev server or watcher, as a background job and get its job id right away",
+				},
+				// kilocode_change end
 			},
-			required: ["command", "cwd"],
+			required: ["command", "cwd", "background"], // kilocode_change
 			additionalProperties: false,
 		},
 	},
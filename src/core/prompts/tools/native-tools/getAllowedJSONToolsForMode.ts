@@ -116,7 +116,8 @@ export async function getAllowedJSONToolsForMode(
 		tools.delete("run_slash_command")
 	}
 
-	if (!providerState?.browserToolEnabled || !model?.info.supportsImages) {
+	// kilocode_change: models without image support use accessibility snapshots instead of screenshots
+	if (!providerState?.browserToolEnabled) {
 		tools.delete("browser_action")
 	}
 
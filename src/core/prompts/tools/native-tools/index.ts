@@ -1,6 +1,7 @@
 import { OpenAI } from "openai/client"
 import askFollowupQuestion from "./ask_followup_question"
 import attemptCompletion from "./attempt_completion"
+import backgroundJob from "./background_job" // kilocode_change
 import browserAction from "./browser_action"
 import codebaseSearch from "./codebase_search"
 import editFile from "./edit_file"
@@ -25,6 +26,7 @@ export const nativeTools = [
 	apply_diff_multi_file,
 	askFollowupQuestion,
 	attemptCompletion,
+	backgroundJob, // kilocode_change
 	browserAction,
 	codebaseSearch,
 	editFile,
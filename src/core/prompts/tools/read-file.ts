@@ -8,7 +8,7 @@ import { ToolArgs } from "./types"
 export function getReadFileDescription(args: ToolArgs): string {
 	const maxConcurrentReads = args.settings?.maxConcurrentFileReads ?? 5
 	const isMultipleReadsEnabled = maxConcurrentReads > 1
-	const supportsImages = args.supportsComputerUse // kilocode_change: supportsComputerUse==supportsImages in kilo
+	const supportsImages = args.settings?.supportsImages ?? args.supportsComputerUse // kilocode_change
 
 	return `## read_file
 Description: Request to read the contents of ${isMultipleReadsEnabled ? "one or more files" : "a file"}. The tool outputs line-numbered content (e.g. "1 | const x = 1") for easy reference when creating diffs or discussing code.${args.partialReadsEnabled ? " Use line ranges to efficiently read specific portions of large files." : ""} Supports text extraction from ${
@@ -609,6 +609,114 @@ describe("Sliding Window", () => {
 			summarizeSpy.mockRestore()
 		})
 
+		// kilocode_change start
+		it("should use the condensing strategy of the mode over the setting", async () => {
+			const mockCondenseResponse: condenseModule.CondenseResponse = {
+				messages: [
+					{ role: "user", content: "First message" },
+					{ role: "user", content: "Last message" },
+				],
+				summary: "",
+				cost: 0,
+				newContextTokens: 100,
+				strategies: [{ strategy: "collapseSupersededFiles", tokensSaved: 69901 }],
+			}
+
+			const condenseSpy = vi.spyOn(condenseModule, "condenseConversation").mockResolvedValue(mockCondenseResponse)
+			const summarizeSpy = vi.spyOn(condenseModule, "summarizeConversation")
+
+			const modelInfo = createModelInfo(100000, 30000)
+			const totalTokens = 70001 // Above threshold
+			const messagesWithSmallContent = [
+				...messages.slice(0, -1),
+				{ ...messages[messages.length - 1], content: "" },
+			]
+
+			const result = await truncateConversationIfNeeded({
+				messages: messagesWithSmallContent,
+				totalTokens,
+				contextWindow: modelInfo.contextWindow,
+				maxTokens: modelInfo.maxTokens,
+				apiHandler: mockApiHandler,
+				autoCondenseContext: true,
+				autoCondenseContextPercent: 50,
+				systemPrompt: "System prompt",
+				taskId,
+				profileThresholds: {},
+				currentProfileId: "default",
+				condensingStrategy: "dropStaleToolResults",
+				modeCondensingStrategy: "collapseSupersededFiles",
+			})
+
+			expect(summarizeSpy).not.toHaveBeenCalled()
+			expect(condenseSpy).toHaveBeenCalledWith(
+				"collapseSupersededFiles",
+				expect.objectContaining({ messages: messagesWithSmallContent, isAutomaticTrigger: true }),
+				50000,
+			)
+			expect(result).toMatchObject({
+				messages: mockCondenseResponse.messages,
+				strategies: mockCondenseResponse.strategies,
+				prevContextTokens: totalTokens,
+			})
+
+			condenseSpy.mockRestore()
+			summarizeSpy.mockRestore()
+		})
+
+		it("should truncate the condensed messages when they are still above the allowed tokens", async () => {
+			const condensedMessages: ApiMessage[] = [
+				{ role: "user", content: "First message" },
+				{ role: "assistant", content: "Second message" },
+				{ role: "user", content: "Third message" },
+				{ role: "assistant", content: "Fourth message" },
+				{ role: "user", content: "Fifth message" },
+			]
+			const mockCondenseResponse: condenseModule.CondenseResponse = {
+				messages: condensedMessages,
+				summary: "",
+				cost: 0.02,
+				newContextTokens: 65000,
+				strategies: [{ strategy: "dropStaleToolResults", tokensSaved: 5001 }],
+			}
+
+			const condenseSpy = vi.spyOn(condenseModule, "condenseConversation").mockResolvedValue(mockCondenseResponse)
+
+			const modelInfo = createModelInfo(100000, 30000)
+			const totalTokens = 70001 // Above the 60000 allowed tokens
+			const messagesWithSmallContent = [
+				...messages.slice(0, -1),
+				{ ...messages[messages.length - 1], content: "" },
+			]
+
+			const result = await truncateConversationIfNeeded({
+				messages: messagesWithSmallContent,
+				totalTokens,
+				contextWindow: modelInfo.contextWindow,
+				maxTokens: modelInfo.maxTokens,
+				apiHandler: mockApiHandler,
+				autoCondenseContext: true,
+				autoCondenseContextPercent: 50,
+				systemPrompt: "System prompt",
+				taskId,
+				profileThresholds: {},
+				currentProfileId: "default",
+				condensingStrategy: "dropStaleToolResults",
+			})
+
+			expect(result).toEqual({
+				messages: truncateConversation(condensedMessages, 0.5, taskId),
+				summary: "",
+				cost: 0.02,
+				prevContextTokens: totalTokens,
+				error: undefined,
+				strategies: mockCondenseResponse.strategies,
+			})
+
+			condenseSpy.mockRestore()
+		})
+		// kilocode_change end
+
 		it("should fall back to truncateConversation when autoCondenseContext is true but summarization fails", async () => {
 			// Mock the summarizeConversation function to return an error
 			const mockSummarizeResponse: condenseModule.SummarizeResponse = {
@@ -3,9 +3,11 @@ import { Anthropic } from "@anthropic-ai/sdk"
 import { TelemetryService } from "@roo-code/telemetry"
 
 import { ApiHandler } from "../../api"
-import { MAX_CONDENSE_THRESHOLD, MIN_CONDENSE_THRESHOLD, summarizeConversation, SummarizeResponse } from "../condense"
+import { MAX_CONDENSE_THRESHOLD, MIN_CONDENSE_THRESHOLD, summarizeConversation } from "../condense"
+import { condenseConversation, CondenseResponse, selectCondensingStrategy } from "../condense" // kilocode_change
 import { ApiMessage } from "../task-persistence/apiMessages"
 import { ANTHROPIC_DEFAULT_MAX_TOKENS } from "@roo-code/types"
+import type { CondensingStrategy } from "@roo-code/types" // kilocode_change
 
 /**
  * Default percentage of the context window to use as a buffer when deciding when to truncate
@@ -77,9 +79,13 @@ type TruncateOptions = {
 	condensingApiHandler?: ApiHandler
 	profileThresholds: Record<string, number>
 	currentProfileId: string
+	// kilocode_change start
+	condensingStrategy?: CondensingStrategy
+	modeCondensingStrategy?: CondensingStrategy
+	// kilocode_change end
 }
 
-type TruncateResponse = SummarizeResponse & { prevContextTokens: number }
+type TruncateResponse = CondenseResponse & { prevContextTokens: number } // kilocode_change
 
 /**
  * Conditionally truncates the conversation messages if the total token count
@@ -102,9 +108,12 @@ export async function truncateConversationIfNeeded({
 	condensingApiHandler,
 	profileThresholds,
 	currentProfileId,
+	condensingStrategy, // kilocode_change
+	modeCondensingStrategy, // kilocode_change
 }: TruncateOptions): Promise<TruncateResponse> {
 	let error: string | undefined
 	let cost = 0
+	let condensed: CondenseResponse | undefined // kilocode_change
 	// Calculate the maximum tokens reserved for response
 	const reservedTokens = maxTokens || ANTHROPIC_DEFAULT_MAX_TOKENS
 
@@ -145,30 +154,67 @@ export async function truncateConversationIfNeeded({
 	if (autoCondenseContext) {
 		const contextPercent = (100 * prevContextTokens) / contextWindow
 		if (contextPercent >= effectiveThreshold || prevContextTokens > allowedTokens) {
+			// kilocode_change start
+			const strategy = selectCondensingStrategy(modeCondensingStrategy, condensingStrategy)
+
 			// Attempt to intelligently condense the context
-			const result = await summarizeConversation(
-				messages,
-				apiHandler,
-				systemPrompt,
-				taskId,
-				prevContextTokens,
-				true, // automatic trigger
-				customCondensingPrompt,
-				condensingApiHandler,
-			)
+			const result: CondenseResponse =
+				strategy === "llmSummary"
+					? await summarizeConversation(
+							messages,
+							apiHandler,
+							systemPrompt,
+							taskId,
+							prevContextTokens,
+							true, // automatic trigger
+							customCondensingPrompt,
+							condensingApiHandler,
+						)
+					: await condenseConversation(
+							strategy,
+							{
+								messages,
+								apiHandler,
+								systemPrompt,
+								taskId,
+								prevContextTokens,
+								isAutomaticTrigger: true,
+								customCondensingPrompt,
+								condensingApiHandler,
+							},
+							Math.min(allowedTokens, (contextWindow * effectiveThreshold) / 100),
+						)
 			if (result.error) {
 				error = result.error
 				cost = result.cost
 			} else {
-				return { ...result, prevContextTokens }
+				const strategies = result.strategies ?? [
+					{ strategy, tokensSaved: prevContextTokens - (result.newContextTokens ?? prevContextTokens) },
+				]
+				if (strategy === "llmSummary" || (result.newContextTokens ?? prevContextTokens) <= allowedTokens) {
+					return { ...result, strategies, prevContextTokens }
+				}
+				// The condensed context is still too large, so it is truncated below
+				condensed = { ...result, strategies }
+				cost = result.cost
 			}
+			// kilocode_change end
 		}
 	}
 
 	// Fall back to sliding window truncation if needed
 	if (prevContextTokens > allowedTokens) {
-		const truncatedMessages = truncateConversation(messages, 0.5, taskId)
-		return { messages: truncatedMessages, prevContextTokens, summary: "", cost, error }
+		// kilocode_change start
+		const truncatedMessages = truncateConversation(condensed?.messages ?? messages, 0.5, taskId)
+		return {
+			messages: truncatedMessages,
+			prevContextTokens,
+			summary: condensed?.summary ?? "",
+			cost,
+			error,
+			strategies: condensed?.strategies,
+		}
+		// kilocode_change end
 	}
 	// No truncation or condensation needed
 	return { messages, summary: "", cost, prevContextTokens, error }
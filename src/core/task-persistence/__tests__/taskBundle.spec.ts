@@ -0,0 +1,149 @@
+// kilocode_change - new file
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+import { gzipSync } from "zlib"
+import type { ClineMessage, HistoryItem } from "@roo-code/types"
+
+import { createTaskBundle, readTaskBundle, restoreTaskBundle } from "../taskBundle"
+import { readApiMessages, saveApiMessages } from "../apiMessages"
+import { readTaskMessages, saveTaskMessages } from "../taskMessages"
+
+describe("taskBundle", () => {
+	let globalStoragePath: string
+
+	const historyItem: HistoryItem = {
+		id: "0b6f3c1e-4a57-4f0e-9d43-5d1f3f0e8a21",
+		parentTaskId: "parent-task",
+		number: 1,
+		ts: 200,
+		task: "Fix the OAuth refresh",
+		tokensIn: 10,
+		tokensOut: 20,
+		totalCost: 0.01,
+		workspace: "/laptop/project",
+	}
+	const todos = [{ id: "1", content: "Reproduce the bug", status: "completed" }]
+	const uiMessages: ClineMessage[] = [
+		{ ts: 100, type: "say", say: "text", text: "Fix the OAuth refresh" },
+		{ ts: 150, type: "ask", ask: "tool", text: JSON.stringify({ tool: "updateTodoList", todos }) },
+	]
+	const apiMessages = [
+		{ ts: 100, role: "user" as const, content: "Fix the OAuth refresh" },
+		{ ts: 200, role: "assistant" as const, content: [{ type: "text" as const, text: "On it" }] },
+	]
+
+	beforeEach(async () => {
+		globalStoragePath = await fs.mkdtemp(path.join(os.tmpdir(), "task-bundle-"))
+		await saveTaskMessages({ messages: uiMessages, taskId: historyItem.id, globalStoragePath })
+		await saveApiMessages({ messages: apiMessages, taskId: historyItem.id, globalStoragePath })
+		await fs.writeFile(
+			path.join(globalStoragePath, "tasks", historyItem.id, "task_metadata.json"),
+			JSON.stringify({ files_in_context: [{ path: "auth.ts" }] }),
+		)
+	})
+
+	afterEach(async () => {
+		await fs.rm(globalStoragePath, { recursive: true, force: true })
+	})
+
+	it("should bundle the task files and the todo list", async () => {
+		const data = await createTaskBundle({ historyItem, globalStoragePath, includeCheckpoints: true })
+		const bundle = await readTaskBundle(data)
+
+		expect(bundle).toEqual(
+			expect.objectContaining({
+				historyItem,
+				uiMessages,
+				apiConversationHistory: apiMessages,
+				taskMetadata: { files_in_context: [{ path: "auth.ts" }] },
+				todoList: todos,
+			}),
+		)
+		// The task has no shadow repo
+		expect(bundle.checkpoints).toBeUndefined()
+	})
+
+	it("should restore the task in another workspace", async () => {
+		const bundle = await readTaskBundle(
+			await createTaskBundle({ historyItem, globalStoragePath, includeCheckpoints: false }),
+		)
+		await fs.rm(path.join(globalStoragePath, "tasks"), { recursive: true })
+
+		const restored = await restoreTaskBundle({
+			bundle,
+			globalStoragePath,
+			workspace: "/devbox/project",
+			taskHistory: [],
+		})
+
+		expect(restored).toEqual(
+			expect.objectContaining({ id: historyItem.id, workspace: "/devbox/project", parentTaskId: undefined }),
+		)
+		expect(await readTaskMessages({ taskId: historyItem.id, globalStoragePath })).toEqual(uiMessages)
+		expect(await readApiMessages({ taskId: historyItem.id, globalStoragePath })).toEqual(apiMessages)
+		expect(
+			JSON.parse(
+				await fs.readFile(path.join(globalStoragePath, "tasks", historyItem.id, "task_metadata.json"), "utf8"),
+			),
+		).toEqual({ files_in_context: [{ path: "auth.ts" }] })
+	})
+
+	it("should restore the task under a new id when the id is taken", async () => {
+		const bundle = await readTaskBundle(
+			await createTaskBundle({ historyItem, globalStoragePath, includeCheckpoints: false }),
+		)
+
+		const restored = await restoreTaskBundle({
+			bundle,
+			globalStoragePath,
+			workspace: "/laptop/project",
+			taskHistory: [historyItem],
+		})
+
+		expect(restored.id).not.toBe(historyItem.id)
+		expect(await readTaskMessages({ taskId: restored.id, globalStoragePath })).toEqual(uiMessages)
+	})
+
+	it("should not use an id that is not a UUID as a path", async () => {
+		const bundle = await readTaskBundle(
+			await createTaskBundle({ historyItem, globalStoragePath, includeCheckpoints: false }),
+		)
+
+		const restored = await restoreTaskBundle({
+			bundle: { ...bundle, historyItem: { ...bundle.historyItem, id: "../../escaped" } },
+			globalStoragePath,
+			workspace: "/devbox/project",
+			taskHistory: [],
+		})
+
+		expect(restored.id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/)
+		expect(await readTaskMessages({ taskId: restored.id, globalStoragePath })).toEqual(uiMessages)
+		await expect(fs.access(path.join(globalStoragePath, "..", "escaped"))).rejects.toThrow()
+	})
+
+	it("should remove a partially restored task when the restore fails", async () => {
+		const bundle = await readTaskBundle(
+			await createTaskBundle({ historyItem, globalStoragePath, includeCheckpoints: false }),
+		)
+		await fs.rm(path.join(globalStoragePath, "tasks"), { recursive: true })
+
+		await expect(
+			restoreTaskBundle({
+				bundle: { ...bundle, checkpoints: Buffer.from("not a git bundle").toString("base64") },
+				globalStoragePath,
+				workspace: globalStoragePath,
+				taskHistory: [],
+			}),
+		).rejects.toThrow()
+
+		await expect(fs.access(path.join(globalStoragePath, "tasks", historyItem.id))).rejects.toThrow()
+	})
+
+	it("should reject files that are not task bundles", async () => {
+		await expect(readTaskBundle(Buffer.from("# Markdown export"))).rejects.toThrow("Not a task bundle")
+		await expect(
+			readTaskBundle(gzipSync(JSON.stringify({ format: "kilo-task-bundle", version: 2 }))),
+		).rejects.toThrow("Unsupported task bundle version 2")
+	})
+})
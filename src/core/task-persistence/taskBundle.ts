@@ -0,0 +1,188 @@
+// kilocode_change - new file
+import crypto from "crypto"
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+import { promisify } from "util"
+import { gzip, gunzip } from "zlib"
+import { z } from "zod"
+
+import { clineMessageSchema, historyItemSchema, todoItemSchema, type HistoryItem } from "@roo-code/types"
+
+import { GlobalFileNames } from "../../shared/globalFileNames"
+import { getLatestTodo } from "../../shared/todo"
+import { ShadowCheckpointService } from "../../services/checkpoints/ShadowCheckpointService"
+import { fileExistsAtPath } from "../../utils/fs"
+import { safeWriteJson } from "../../utils/safeWriteJson"
+import { getTaskDirectoryPath } from "../../utils/storage"
+import { type ApiMessage, readApiMessages, saveApiMessages } from "./apiMessages"
+import { readTaskMessages, saveTaskMessages } from "./taskMessages"
+
+export const TASK_BUNDLE_EXTENSION = "kilotask"
+
+const TASK_BUNDLE_FORMAT = "kilo-task-bundle"
+const TASK_BUNDLE_VERSION = 1
+
+/**
+ * A task with everything needed to resume it on another machine, stored as gzipped JSON
+ */
+const taskBundleSchema = z.object({
+	format: z.literal(TASK_BUNDLE_FORMAT),
+	version: z.literal(TASK_BUNDLE_VERSION),
+	exportedAt: z.number(),
+	historyItem: historyItemSchema,
+	uiMessages: z.array(clineMessageSchema.passthrough()),
+	apiConversationHistory: z.array(
+		z.custom<ApiMessage>(
+			(value) => typeof value === "object" && value !== null && "role" in value && "content" in value,
+		),
+	),
+	/** Content of the task's `task_metadata.json`, the files in context */
+	taskMetadata: z.unknown().optional(),
+	todoList: z.array(todoItemSchema).optional(),
+	/** Base64 encoded git bundle of the task's shadow checkpoints repo */
+	checkpoints: z.string().optional(),
+})
+
+export type TaskBundle = z.infer<typeof taskBundleSchema>
+
+const withTempDir = async <T>(fn: (tempDir: string) => Promise<T>): Promise<T> => {
+	const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "kilo-task-bundle-"))
+	try {
+		return await fn(tempDir)
+	} finally {
+		await fs.rm(tempDir, { recursive: true, force: true })
+	}
+}
+
+export async function createTaskBundle({
+	historyItem,
+	globalStoragePath,
+	includeCheckpoints,
+}: {
+	historyItem: HistoryItem
+	globalStoragePath: string
+	includeCheckpoints: boolean
+}): Promise<Buffer> {
+	const taskId = historyItem.id
+	const uiMessages = await readTaskMessages({ taskId, globalStoragePath })
+	const apiConversationHistory = await readApiMessages({ taskId, globalStoragePath })
+
+	const taskMetadataPath = path.join(
+		await getTaskDirectoryPath(globalStoragePath, taskId),
+		GlobalFileNames.taskMetadata,
+	)
+	const taskMetadata = (await fileExistsAtPath(taskMetadataPath))
+		? JSON.parse(await fs.readFile(taskMetadataPath, "utf8"))
+		: undefined
+
+	const checkpoints = includeCheckpoints
+		? await withTempDir(async (tempDir) => {
+				const bundlePath = path.join(tempDir, "checkpoints.bundle")
+				const bundled = await ShadowCheckpointService.bundleTask({
+					taskId,
+					globalStorageDir: globalStoragePath,
+					bundlePath,
+				})
+				return bundled ? (await fs.readFile(bundlePath)).toString("base64") : undefined
+			})
+		: undefined
+
+	const bundle: TaskBundle = {
+		format: TASK_BUNDLE_FORMAT,
+		version: TASK_BUNDLE_VERSION,
+		exportedAt: Date.now(),
+		historyItem,
+		uiMessages,
+		apiConversationHistory,
+		taskMetadata,
+		todoList: getLatestTodo(uiMessages),
+		checkpoints,
+	}
+	return promisify(gzip)(JSON.stringify(bundle))
+}
+
+export async function readTaskBundle(data: Buffer): Promise<TaskBundle> {
+	let json: unknown
+	try {
+		json = JSON.parse((await promisify(gunzip)(data)).toString("utf8"))
+	} catch {
+		throw new Error("Not a task bundle")
+	}
+
+	const result = taskBundleSchema.safeParse(json)
+	if (!result.success) {
+		const version = (json as { version?: unknown })?.version
+		throw new Error(
+			typeof version === "number" && version > TASK_BUNDLE_VERSION
+				? `Unsupported task bundle version ${version}`
+				: `Invalid task bundle: ${result.error.issues[0]?.message}`,
+		)
+	}
+	return result.data
+}
+
+/**
+ * Writes the files of a bundled task and returns its history item. The task keeps its id, unless
+ * that id is not a UUID (it ends up in file paths) or is taken by a task in the history. The task
+ * is attached to the given workspace, where its checkpoints can be restored.
+ */
+export async function restoreTaskBundle({
+	bundle,
+	globalStoragePath,
+	workspace,
+	taskHistory,
+}: {
+	bundle: TaskBundle
+	globalStoragePath: string
+	workspace: string
+	taskHistory: HistoryItem[]
+}): Promise<HistoryItem> {
+	const hasTask = (id?: string) => !!id && taskHistory.some((item) => item.id === id)
+
+	const taskId =
+		z.string().uuid().safeParse(bundle.historyItem.id).success && !hasTask(bundle.historyItem.id)
+			? bundle.historyItem.id
+			: crypto.randomUUID()
+
+	try {
+		await saveTaskMessages({ messages: bundle.uiMessages, taskId, globalStoragePath })
+		await saveApiMessages({ messages: bundle.apiConversationHistory, taskId, globalStoragePath })
+
+		if (bundle.taskMetadata !== undefined) {
+			const taskDir = await getTaskDirectoryPath(globalStoragePath, taskId)
+			await safeWriteJson(path.join(taskDir, GlobalFileNames.taskMetadata), bundle.taskMetadata)
+		}
+
+		if (bundle.checkpoints && workspace) {
+			const checkpoints = bundle.checkpoints
+			await withTempDir(async (tempDir) => {
+				const bundlePath = path.join(tempDir, "checkpoints.bundle")
+				await fs.writeFile(bundlePath, Buffer.from(checkpoints, "base64"))
+				await ShadowCheckpointService.unbundleTask({
+					taskId,
+					globalStorageDir: globalStoragePath,
+					workspaceDir: workspace,
+					bundlePath,
+				})
+			})
+		}
+	} catch (error) {
+		// Don't leave a half imported task behind
+		await fs.rm(await getTaskDirectoryPath(globalStoragePath, taskId), { recursive: true, force: true })
+		throw error
+	}
+
+	// The related tasks are only kept when they were imported too
+	const { rootTaskId, parentTaskId, forkedFromTaskId } = bundle.historyItem
+
+	return {
+		...bundle.historyItem,
+		id: taskId,
+		workspace,
+		rootTaskId: hasTask(rootTaskId) ? rootTaskId : undefined,
+		parentTaskId: hasTask(parentTaskId) ? parentTaskId : undefined,
+		forkedFromTaskId: hasTask(forkedFromTaskId) ? forkedFromTaskId : undefined,
+		fileNotfound: undefined,
+	}
+}
@@ -8,6 +8,7 @@ import { combineCommandSequences } from "../../shared/combineCommandSequences"
 import { getApiMetrics } from "../../shared/getApiMetrics"
 import { findLastIndex } from "../../shared/array"
 import { getTaskDirectoryPath } from "../../utils/storage"
+import { getCostSince, getStartOfDay } from "../task/CostBudget" // kilocode_change
 import { t } from "../../i18n"
 
 const taskSizeCache = new NodeCache({ stdTTL: 30, checkperiod: 5 * 60 })
@@ -21,6 +22,7 @@ export type TaskMetadataOptions = {
 	globalStoragePath: string
 	workspace: string
 	mode?: string
+	forkedFromTaskId?: string // kilocode_change
 }
 
 export async function taskMetadata({
@@ -32,6 +34,7 @@ export async function taskMetadata({
 	globalStoragePath,
 	workspace,
 	mode,
+	forkedFromTaskId, // kilocode_change
 }: TaskMetadataOptions) {
 	const taskDir = await getTaskDirectoryPath(globalStoragePath, id)
 
@@ -43,6 +46,7 @@ export async function taskMetadata({
 	let tokenUsage: ReturnType<typeof getApiMetrics>
 	let taskDirSize: number
 	let taskMessage: ClineMessage | undefined
+	let dailyCost: HistoryItem["dailyCost"] // kilocode_change
 
 	if (!hasMessages) {
 		// Handle no messages case
@@ -66,7 +70,12 @@ export async function taskMetadata({
 
 		timestamp = lastRelevantMessage.ts
 
-		tokenUsage = getApiMetrics(combineApiRequests(combineCommandSequences(messages.slice(1))))
+		// kilocode_change start
+		const combinedMessages = combineApiRequests(combineCommandSequences(messages.slice(1)))
+		tokenUsage = getApiMetrics(combinedMessages)
+		const day = getStartOfDay(timestamp)
+		dailyCost = { day, cost: getCostSince(combinedMessages, day) }
+		// kilocode_change end
 
 		// Get task directory size
 		const cachedSize = taskSizeCache.get<number>(taskDir)
@@ -101,6 +110,8 @@ export async function taskMetadata({
 		size: taskDirSize,
 		workspace,
 		mode,
+		forkedFromTaskId, // kilocode_change
+		dailyCost, // kilocode_change
 	}
 
 	return { historyItem, tokenUsage }
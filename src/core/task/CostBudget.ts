@@ -0,0 +1,195 @@
+// kilocode_change - new file
+import type { ClineMessage, CostBudgetStatus, HistoryItem, ModelInfo } from "@roo-code/types"
+
+import type { ApiStreamUsageChunk } from "../../api/transform/stream"
+import type { ClineApiReqInfo } from "../../shared/ExtensionMessage"
+import { calculateApiCostAnthropic } from "../../shared/cost"
+import { getApiMetrics } from "../../shared/getApiMetrics"
+import { safeJsonParse } from "../../shared/safeJsonParse"
+import { t } from "../../i18n"
+
+/** Rough number of characters per token, used until the provider reports the usage */
+const CHARS_PER_TOKEN = 4
+
+export interface CostBudgets {
+	taskCostBudget?: number | null
+	workspaceDailyCostBudget?: number | null
+}
+
+export function hasCostBudget({ taskCostBudget, workspaceDailyCostBudget }: CostBudgets): boolean {
+	return !!taskCostBudget || !!workspaceDailyCostBudget
+}
+
+type RequestUsage = Pick<ClineApiReqInfo, "tokensIn" | "cacheWrites" | "cacheReads">
+
+/**
+ * Estimates the cost of the response being streamed, before the provider reports its usage at the
+ * end of the stream. The prompt is assumed to be cached as in the previous request, with the tokens
+ * it grew by since then as uncached input, and the response to be as long in tokens as a quarter
+ * of its streamed characters.
+ */
+export class StreamingCostEstimator {
+	private usage: Omit<ApiStreamUsageChunk, "type"> | undefined
+	private streamedChars = 0
+	private promptTokens = 0
+
+	constructor(
+		private readonly modelInfo: ModelInfo,
+		private readonly previousRequest: RequestUsage = {},
+	) {}
+
+	addUsage(chunk: ApiStreamUsageChunk) {
+		this.usage = {
+			inputTokens: (this.usage?.inputTokens ?? 0) + chunk.inputTokens,
+			outputTokens: (this.usage?.outputTokens ?? 0) + chunk.outputTokens,
+			cacheWriteTokens: (this.usage?.cacheWriteTokens ?? 0) + (chunk.cacheWriteTokens ?? 0),
+			cacheReadTokens: (this.usage?.cacheReadTokens ?? 0) + (chunk.cacheReadTokens ?? 0),
+			// Same as the task, the last reported cost is the cost of the whole request
+			totalCost: chunk.totalCost,
+		}
+	}
+
+	/**
+	 * Counted tokens of the system prompt and messages of the request
+	 */
+	setPromptTokens(tokens: number) {
+		this.promptTokens = tokens
+	}
+
+	addStreamedText(text: string) {
+		this.streamedChars += text.length
+	}
+
+	get cost(): number {
+		const streamedTokens = Math.ceil(this.streamedChars / CHARS_PER_TOKEN)
+
+		if (!this.usage) {
+			const { tokensIn = 0, cacheWrites = 0, cacheReads = 0 } = this.previousRequest
+			const addedTokens = Math.max(0, this.promptTokens - tokensIn - cacheWrites - cacheReads)
+			return calculateApiCostAnthropic(
+				this.modelInfo,
+				tokensIn + addedTokens,
+				streamedTokens,
+				cacheWrites,
+				cacheReads,
+			)
+		}
+
+		const { inputTokens, outputTokens, cacheWriteTokens, cacheReadTokens, totalCost } = this.usage
+		// Usage is usually reported at the end, but some providers report it along the way
+		const unreportedOutputTokens = Math.max(0, streamedTokens - outputTokens)
+		if (totalCost !== undefined) {
+			return totalCost + calculateApiCostAnthropic(this.modelInfo, 0, unreportedOutputTokens)
+		}
+		return calculateApiCostAnthropic(
+			this.modelInfo,
+			inputTokens,
+			outputTokens + unreportedOutputTokens,
+			cacheWriteTokens,
+			cacheReadTokens,
+		)
+	}
+}
+
+/**
+ * Usage of the last request of a task that reported it, to estimate the cost of the next one
+ */
+export function getLastRequestUsage(messages: ClineMessage[]): RequestUsage | undefined {
+	for (let i = messages.length - 1; i >= 0; i--) {
+		const message = messages[i]
+		if (message.say !== "api_req_started") {
+			continue
+		}
+		const info = safeJsonParse<ClineApiReqInfo>(message.text)
+		if (info?.tokensIn !== undefined) {
+			return { tokensIn: info.tokensIn, cacheWrites: info.cacheWrites, cacheReads: info.cacheReads }
+		}
+	}
+	return undefined
+}
+
+export function getStartOfDay(now = Date.now()): number {
+	return new Date(now).setHours(0, 0, 0, 0)
+}
+
+/**
+ * Cost of the requests of a task made since the given time, from its combined messages
+ */
+export function getCostSince(messages: ClineMessage[], since: number): number {
+	return getApiMetrics(messages.filter((message) => message.ts >= since)).totalCost
+}
+
+/**
+ * Sum of the cost of the requests the other tasks of the workspace made since the start of the day
+ */
+export function getWorkspaceCostToday(
+	taskHistory: HistoryItem[],
+	workspace: string,
+	excludeTaskId: string,
+	now = Date.now(),
+): number {
+	const startOfDay = getStartOfDay(now)
+	return taskHistory
+		.filter(
+			(item) => item.workspace === workspace && item.id !== excludeTaskId && item.dailyCost?.day === startOfDay,
+		)
+		.reduce((sum, item) => sum + (item.dailyCost?.cost || 0), 0)
+}
+
+/**
+ * Spending of a task against the budgets, undefined when no budget is set. The messages are the
+ * combined messages of the task, the streaming cost the estimate of the response being streamed.
+ */
+export function getCostBudgetStatus(
+	budgets: CostBudgets,
+	task: { taskId: string; workspace: string; messages: ClineMessage[]; streamingCost?: number },
+	taskHistory: HistoryItem[],
+	now = Date.now(),
+): CostBudgetStatus | undefined {
+	if (!hasCostBudget(budgets)) {
+		return undefined
+	}
+
+	const streamingCost = task.streamingCost ?? 0
+	return withExceededBudget({
+		taskCost: getApiMetrics(task.messages).totalCost + streamingCost,
+		taskBudget: budgets.taskCostBudget || undefined,
+		workspaceCost:
+			getWorkspaceCostToday(taskHistory, task.workspace, task.taskId, now) +
+			getCostSince(task.messages, getStartOfDay(now)) +
+			streamingCost,
+		workspaceBudget: budgets.workspaceDailyCostBudget || undefined,
+	})
+}
+
+/**
+ * Adds the cost of the response being streamed to a status computed before the request
+ */
+export function addStreamingCost(status: CostBudgetStatus, streamingCost: number): CostBudgetStatus {
+	return withExceededBudget({
+		...status,
+		taskCost: status.taskCost + streamingCost,
+		workspaceCost: status.workspaceCost + streamingCost,
+	})
+}
+
+function withExceededBudget(status: CostBudgetStatus): CostBudgetStatus {
+	const { taskCost, taskBudget, workspaceCost, workspaceBudget } = status
+	let exceeded: CostBudgetStatus["exceeded"]
+	if (taskBudget !== undefined && taskCost >= taskBudget) {
+		exceeded = "task"
+	} else if (workspaceBudget !== undefined && workspaceCost >= workspaceBudget) {
+		exceeded = "workspace"
+	}
+	return { ...status, exceeded }
+}
+
+export function formatCostBudgetExceeded(status: CostBudgetStatus): string {
+	const format = (value = 0) => value.toFixed(2)
+	return status.exceeded === "workspace"
+		? t("kilocode:costBudget.workspaceExceeded", {
+				budget: format(status.workspaceBudget),
+				cost: format(status.workspaceCost),
+			})
+		: t("kilocode:costBudget.taskExceeded", { budget: format(status.taskBudget), cost: format(status.taskCost) })
+}
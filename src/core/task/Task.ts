@@ -18,12 +18,14 @@ import {
 	type ToolUsage,
 	type ToolName,
 	type ContextCondense,
+	type CondensingStrategy, // kilocode_change
 	type ClineMessage,
 	type ClineSay,
 	type ClineAsk,
 	type ToolProgressStatus,
 	type HistoryItem,
 	type CreateTaskOptions,
+	type CostBudgetStatus, // kilocode_change
 	RooCodeEventName,
 	TelemetryEventName,
 	TaskStatus,
@@ -45,6 +47,8 @@ import { ApiHandler, ApiHandlerCreateMessageMetadata, buildApiHandler } from "..
 import { ApiStream, GroundingSource } from "../../api/transform/stream"
 import { maybeRemoveImageBlocks } from "../../api/transform/image-cleaning"
 import { VirtualQuotaFallbackHandler } from "../../api/providers/virtual-quota-fallback" // kilocode_change: Import VirtualQuotaFallbackHandler for model change notifications
+import { ProviderRouterHandler } from "../../api/providers/provider-router" // kilocode_change
+import { withTaskCassetteRecording } from "../../api/providers/kilocode/cassette" // kilocode_change
 
 // shared
 import { findLastIndex } from "../../shared/array"
@@ -53,8 +57,14 @@ import { combineCommandSequences } from "../../shared/combineCommandSequences"
 import { t } from "../../i18n"
 import { ClineApiReqCancelReason, ClineApiReqInfo } from "../../shared/ExtensionMessage"
 import { getApiMetrics, hasTokenUsageChanged } from "../../shared/getApiMetrics"
-import { ClineAskResponse } from "../../shared/WebviewMessage"
-import { defaultModeSlug } from "../../shared/modes"
+// kilocode_change start
+import {
+	ClineAskResponse,
+	CheckpointRestorePartialPayload,
+	CheckpointTimelineDiffPayload,
+} from "../../shared/WebviewMessage"
+// kilocode_change end
+import { defaultModeSlug, getModeBySlug } from "../../shared/modes" // kilocode_change
 import { DiffStrategy } from "../../shared/tools"
 import { EXPERIMENT_IDS, experiments } from "../../shared/experiments"
 import { getModelMaxOutputTokens } from "../../shared/api"
@@ -90,7 +100,7 @@ import { RooProtectedController } from "../protect/RooProtectedController"
 import { type AssistantMessageContent, presentAssistantMessage } from "../assistant-message"
 import { AssistantMessageParser } from "../assistant-message/AssistantMessageParser"
 import { truncateConversationIfNeeded } from "../sliding-window"
-import { ClineProvider } from "../webview/ClineProvider"
+import { ClineProvider, type ClineProviderState } from "../webview/ClineProvider" // kilocode_change
 import { MultiSearchReplaceDiffStrategy } from "../diff/strategies/multi-search-replace"
 import { MultiFileSearchReplaceDiffStrategy } from "../diff/strategies/multi-file-search-replace"
 import {
@@ -106,10 +116,15 @@ import { checkContextWindowExceededError } from "../context/context-management/c
 import {
 	type CheckpointDiffOptions,
 	type CheckpointRestoreOptions,
+	type CheckpointForkOptions, // kilocode_change
 	getCheckpointService,
 	checkpointSave,
 	checkpointRestore,
 	checkpointDiff,
+	checkpointFork, // kilocode_change
+	checkpointTimeline, // kilocode_change
+	checkpointTimelineDiff, // kilocode_change
+	checkpointRestorePartial, // kilocode_change
 } from "../checkpoints"
 import { processKiloUserContentMentions } from "../mentions/processKiloUserContentMentions" // kilocode_change
 import { refreshWorkflowToggles } from "../context/instructions/workflows" // kilocode_change
@@ -117,16 +132,28 @@ import { parseMentions } from "../mentions" // kilocode_change
 import { parseKiloSlashCommands } from "../slash-commands/kilo" // kilocode_change
 import { GlobalFileNames } from "../../shared/globalFileNames" // kilocode_change
 import { ensureLocalKilorulesDirExists } from "../context/instructions/kilo-rules" // kilocode_change
-import { getMessagesSinceLastSummary, summarizeConversation } from "../condense"
+import { getMessagesSinceLastSummary, condenseConversation, selectCondensingStrategy } from "../condense" // kilocode_change
 import { Gpt5Metadata, ClineMessageWithMetadata } from "./types"
 import { MessageQueueService } from "../message-queue/MessageQueueService"
 
 import { AutoApprovalHandler } from "./AutoApprovalHandler"
+// kilocode_change start
+import {
+	type CostBudgets,
+	StreamingCostEstimator,
+	addStreamingCost,
+	formatCostBudgetExceeded,
+	getCostBudgetStatus,
+	getLastRequestUsage,
+	hasCostBudget,
+} from "./CostBudget"
+// kilocode_change end
 import { isAnyRecognizedKiloCodeError, isPaymentRequiredError } from "../../shared/kilocode/errorUtils"
 import { getAppUrl } from "@roo-code/types"
 
 const MAX_EXPONENTIAL_BACKOFF_SECONDS = 600 // 10 minutes
 const DEFAULT_USAGE_COLLECTION_TIMEOUT_MS = 5000 // 5 seconds
+const COST_BUDGET_UPDATE_INTERVAL_MS = 2000 // kilocode_change: how often the cost budget is refreshed while streaming
 const FORCED_CONTEXT_REDUCTION_PERCENT = 75 // Keep 75% of context (remove 25%) on context window errors
 const MAX_CONTEXT_WINDOW_RETRIES = 3 // Maximum retries for context window errors
 
@@ -161,6 +188,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 	private taskIsFavorited?: boolean // kilocode_change
 	readonly rootTaskId?: string
 	readonly parentTaskId?: string
+	readonly forkedFromTaskId?: string // kilocode_change
 	childTaskId?: string
 
 	readonly instanceId: string
@@ -225,6 +253,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 	idleAsk?: ClineMessage
 	resumableAsk?: ClineMessage
 	interactiveAsk?: ClineMessage
+	private waitingAsks = 0 // kilocode_change
 
 	didFinishAbortingStream = false
 	abandoned = false
@@ -296,6 +325,8 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 	// Streaming
 	isWaitingForFirstChunk = false
 	isStreaming = false
+	streamingCostEstimate = 0 // kilocode_change: until the cost of the response is recorded in its api_req_started
+	apiRequestPromptTokens = 0 // kilocode_change: tokens of the prompt of the current request, when a cost budget is set
 	currentStreamingContentIndex = 0
 	currentStreamingDidCheckpoint = false
 	assistantMessageContent: AssistantMessageContent[] = []
@@ -349,6 +380,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		this.taskIsFavorited = historyItem?.isFavorited // kilocode_change
 		this.rootTaskId = historyItem ? historyItem.rootTaskId : rootTask?.taskId
 		this.parentTaskId = historyItem ? historyItem.parentTaskId : parentTask?.taskId
+		this.forkedFromTaskId = historyItem?.forkedFromTaskId // kilocode_change
 		this.childTaskId = undefined
 
 		this.metadata = {
@@ -373,9 +405,15 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		})
 
 		this.apiConfiguration = apiConfiguration
-		this.api = buildApiHandler(apiConfiguration)
+		// kilocode_change start: Record the streamed responses for the replay provider
+		this.api = withTaskCassetteRecording(
+			buildApiHandler(apiConfiguration),
+			provider.context.globalStorageUri.fsPath,
+			this.taskId,
+		)
+		// kilocode_change end
 		// kilocode_change start: Listen for model changes in virtual quota fallback
-		if (this.api instanceof VirtualQuotaFallbackHandler) {
+		if (this.api instanceof VirtualQuotaFallbackHandler || this.api instanceof ProviderRouterHandler) {
 			this.api.on("handlerChanged", () => {
 				this.emit("modelChanged")
 			})
@@ -718,6 +756,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 				globalStoragePath: this.globalStoragePath,
 				workspace: this.cwd,
 				mode: this._taskMode || defaultModeSlug, // Use the task's own mode, not the current provider mode.
+				forkedFromTaskId: this.forkedFromTaskId, // kilocode_change
 			})
 
 			if (hasTokenUsageChanged(tokenUsage, this.tokenUsageSnapshot)) {
@@ -752,6 +791,18 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		return ts
 	}
 
+	// kilocode_change start
+	async updateClineMessageText_kilocode(ts: number, text: string) {
+		const message = this.findMessageByTimestamp(ts)
+		if (!message) {
+			return
+		}
+		message.text = text
+		await this.updateClineMessage(message)
+		await this.saveClineMessages()
+	}
+	// kilocode_change end
+
 	// Note that `partial` has three valid states true (partial message),
 	// false (completion of partial message), undefined (individual complete
 	// message).
@@ -761,6 +812,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		partial?: boolean,
 		progressStatus?: ToolProgressStatus,
 		isProtected?: boolean,
+		requiresApproval?: boolean, // kilocode_change
 	): Promise<{ response: ClineAskResponse; text?: string; images?: string[] }> {
 		// If this Cline instance was aborted by the provider, then the only
 		// thing keeping us alive is a promise still running in the background,
@@ -789,6 +841,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 					lastMessage.partial = partial
 					lastMessage.progressStatus = progressStatus
 					lastMessage.isProtected = isProtected
+					lastMessage.requiresApproval = requiresApproval // kilocode_change
 					// TODO: Be more efficient about saving and posting only new
 					// data or one whole message at a time so ignore partial for
 					// saves, and only post parts of partial message instead of
@@ -800,7 +853,15 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 					// state.
 					askTs = await this.nextClineMessageTimestamp_kilocode()
 					this.lastMessageTs = askTs
-					await this.addToClineMessages({ ts: askTs, type: "ask", ask: type, text, partial, isProtected })
+					await this.addToClineMessages({
+						ts: askTs,
+						type: "ask",
+						ask: type,
+						text,
+						partial,
+						isProtected,
+						requiresApproval, // kilocode_change
+					})
 					throw new Error("Current ask promise was ignored (#2)")
 				}
 			} else {
@@ -828,6 +889,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 					lastMessage.partial = false
 					lastMessage.progressStatus = progressStatus
 					lastMessage.isProtected = isProtected
+					lastMessage.requiresApproval = requiresApproval // kilocode_change
 					await this.saveClineMessages()
 					this.updateClineMessage(lastMessage)
 				} else {
@@ -837,7 +899,14 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 					this.askResponseImages = undefined
 					askTs = await this.nextClineMessageTimestamp_kilocode()
 					this.lastMessageTs = askTs
-					await this.addToClineMessages({ ts: askTs, type: "ask", ask: type, text, isProtected })
+					await this.addToClineMessages({
+						ts: askTs,
+						type: "ask",
+						ask: type,
+						text,
+						isProtected,
+						requiresApproval, // kilocode_change
+					})
 				}
 			}
 		} else {
@@ -847,7 +916,14 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 			this.askResponseImages = undefined
 			askTs = await this.nextClineMessageTimestamp_kilocode()
 			this.lastMessageTs = askTs
-			await this.addToClineMessages({ ts: askTs, type: "ask", ask: type, text, isProtected })
+			await this.addToClineMessages({
+				ts: askTs,
+				type: "ask",
+				ask: type,
+				text,
+				isProtected,
+				requiresApproval, // kilocode_change
+			})
 		}
 
 		// kilocode_change start: YOLO mode auto-answer for follow-up questions
@@ -952,7 +1028,9 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		}
 
 		// Wait for askResponse to be set.
+		this.waitingAsks++ // kilocode_change
 		await pWaitFor(() => this.askResponse !== undefined || this.lastMessageTs !== askTs, { interval: 100 })
+		this.waitingAsks-- // kilocode_change
 
 		if (this.lastMessageTs !== askTs) {
 			// Could happen if we send multiple asks in a row i.e. with
@@ -1102,22 +1180,28 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 
 		const { contextTokens: prevContextTokens } = this.getTokenUsage()
 
+		// kilocode_change start
 		const {
 			messages,
 			summary,
 			cost,
 			newContextTokens = 0,
 			error,
-		} = await summarizeConversation(
-			this.apiConversationHistory,
-			this.api, // Main API handler (fallback)
-			systemPrompt, // Default summarization prompt (fallback)
-			this.taskId,
-			prevContextTokens,
-			false, // manual trigger
-			customCondensingPrompt, // User's custom prompt
-			condensingApiHandler, // Specific handler for condensing
+			strategies,
+		} = await condenseConversation(
+			selectCondensingStrategy(await this.getModeCondensingStrategy(state), state?.condensingStrategy),
+			{
+				messages: this.apiConversationHistory,
+				apiHandler: this.api, // Main API handler (fallback)
+				systemPrompt, // Default summarization prompt (fallback)
+				taskId: this.taskId,
+				prevContextTokens,
+				isAutomaticTrigger: false, // manual trigger
+				customCondensingPrompt, // User's custom prompt
+				condensingApiHandler, // Specific handler for condensing
+			},
 		)
+		// kilocode_change end
 		if (error) {
 			this.say(
 				"condense_context_error",
@@ -1135,7 +1219,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		// Set flag to skip previous_response_id on the next API call after manual condense
 		this.skipPrevResponseIdOnce = true
 
-		const contextCondense: ContextCondense = { summary, cost, newContextTokens, prevContextTokens }
+		const contextCondense: ContextCondense = { summary, cost, newContextTokens, prevContextTokens, strategies } // kilocode_change
 		await this.say(
 			"condense_context",
 			undefined /* text */,
@@ -1935,6 +2019,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 				includeDiagnosticMessages,
 				maxDiagnosticMessages,
 				maxReadFileLine,
+				mcpHub: this.providerRef.deref()?.getMcpHub(),
 			})
 
 			if (needsRulesFileCheck) {
@@ -2011,6 +2096,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 						// kilocode_change start
 						usageMissing,
 						inferenceProvider,
+						routing: this.api instanceof ProviderRouterHandler ? this.api.routingTrace : undefined,
 						// kilocode_change end
 						cancelReason,
 						streamingFailedMessage,
@@ -2067,9 +2153,19 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 				let pendingGroundingSources: GroundingSource[] = []
 				this.isStreaming = true
 
+				// kilocode_change start
+				const costBudgetAtStart = await this.getCurrentCostBudgetStatus()
+				const costEstimator = new StreamingCostEstimator(
+					this.api.getModel().info,
+					getLastRequestUsage(this.clineMessages),
+				)
+				let lastCostBudgetUpdate = Date.now()
+				// kilocode_change end
+
 				try {
 					const iterator = stream[Symbol.asyncIterator]()
 					let item = await iterator.next()
+					costEstimator.setPromptTokens(this.apiRequestPromptTokens) // kilocode_change: counted before the request is made
 					while (!item.done) {
 						const chunk = item.value
 						item = await iterator.next()
@@ -2094,6 +2190,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 									)
 								}
 								await this.say("reasoning", formattedReasoning, undefined, true)
+								costEstimator.addStreamedText(chunk.text) // kilocode_change
 								break
 							}
 							case "usage":
@@ -2103,6 +2200,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 								cacheReadTokens += chunk.cacheReadTokens ?? 0
 								totalCost = chunk.totalCost
 								inferenceProvider = chunk.inferenceProvider // kilocode_change
+								costEstimator.addUsage(chunk) // kilocode_change
 								break
 							case "grounding":
 								// Handle grounding sources separately from regular content
@@ -2120,6 +2218,9 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 								)) {
 									assistantToolUses.push(toolUse)
 								}
+								for (const toolCall of chunk.toolCalls) {
+									costEstimator.addStreamedText(toolCall.function?.arguments ?? "")
+								}
 
 								// Update content blocks after processing native tool calls
 								const prevLength = this.assistantMessageContent.length
@@ -2137,6 +2238,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 							//kilocode_change end
 							case "text": {
 								assistantMessage += chunk.text
+								costEstimator.addStreamedText(chunk.text) // kilocode_change
 
 								// Parse raw assistant message chunk into content blocks.
 								const prevLength = this.assistantMessageContent.length
@@ -2154,6 +2256,24 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 							}
 						}
 
+						// kilocode_change start: stop the response once it uses up a cost budget
+						if (costBudgetAtStart) {
+							this.streamingCostEstimate = costEstimator.cost
+							const costBudget = addStreamingCost(costBudgetAtStart, this.streamingCostEstimate)
+							if (costBudget.exceeded) {
+								// Record the estimate, providers usually only report the usage at the end of the stream
+								totalCost = this.streamingCostEstimate
+								// Close the provider stream so that the request is cancelled and stops generating
+								await iterator.return?.(undefined)
+								throw new Error(formatCostBudgetExceeded(costBudget))
+							}
+							if (Date.now() - lastCostBudgetUpdate >= COST_BUDGET_UPDATE_INTERVAL_MS) {
+								lastCostBudgetUpdate = Date.now()
+								await provider?.postStateToWebview()
+							}
+						}
+						// kilocode_change end
+
 						if (this.abort) {
 							console.log(`aborting stream, this.abandoned = ${this.abandoned}`)
 
@@ -2401,6 +2521,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 					}
 				} finally {
 					this.isStreaming = false
+					this.streamingCostEstimate = 0 // kilocode_change
 				}
 
 				// Need to call here in case the stream was aborted.
@@ -2704,8 +2825,8 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 			return SYSTEM_PROMPT(
 				provider.context,
 				this.cwd,
-				// kilocode_change: supports images => supports browser
-				(this.api.getModel().info.supportsImages ?? false) && (browserToolEnabled ?? true),
+				// kilocode_change: models without image support use accessibility snapshots instead of screenshots
+				browserToolEnabled ?? true,
 				mcpHub,
 				this.diffStrategy,
 				browserViewportSize,
@@ -2726,6 +2847,7 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 					newTaskRequireTodos: vscode.workspace
 						.getConfiguration("kilo-code")
 						.get<boolean>("newTaskRequireTodos", false),
+					supportsImages: this.api.getModel().info.supportsImages ?? false, // kilocode_change
 				},
 				undefined, // todoList
 				this.api.getModel().id,
@@ -2744,13 +2866,21 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		)
 	}
 
+	// kilocode_change start
+	private async getModeCondensingStrategy(
+		state: Pick<ClineProviderState, "customModes"> | undefined,
+	): Promise<CondensingStrategy | undefined> {
+		return getModeBySlug(await this.getTaskMode(), state?.customModes)?.condensingStrategy
+	}
+	// kilocode_change end
+
 	private async handleContextWindowExceededError(): Promise<void> {
 		const state = await this.providerRef.deref()?.getState()
 		const { profileThresholds = {} } = state ?? {}
 
 		const { contextTokens } = this.getTokenUsage()
 		// kilocode_change start: Initialize virtual quota fallback handler
-		if (this.api instanceof VirtualQuotaFallbackHandler) {
+		if (this.api instanceof VirtualQuotaFallbackHandler || this.api instanceof ProviderRouterHandler) {
 			await this.api.initialize()
 		}
 		// kilocode_change end
@@ -2787,15 +2917,21 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 			taskId: this.taskId,
 			profileThresholds,
 			currentProfileId,
+			// kilocode_change start
+			condensingStrategy: state?.condensingStrategy,
+			modeCondensingStrategy: await this.getModeCondensingStrategy(state),
+			// kilocode_change end
 		})
 
 		if (truncateResult.messages !== this.apiConversationHistory) {
 			await this.overwriteApiConversationHistory(truncateResult.messages)
 		}
 
-		if (truncateResult.summary) {
-			const { summary, cost, prevContextTokens, newContextTokens = 0 } = truncateResult
-			const contextCondense: ContextCondense = { summary, cost, newContextTokens, prevContextTokens }
+		// kilocode_change start
+		if (truncateResult.summary || truncateResult.strategies?.length) {
+			const { summary, cost, prevContextTokens, newContextTokens = 0, strategies } = truncateResult
+			const contextCondense: ContextCondense = { summary, cost, newContextTokens, prevContextTokens, strategies }
+			// kilocode_change end
 			await this.say(
 				"condense_context",
 				undefined /* text */,
@@ -2891,6 +3027,9 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 				await this.api.initialize()
 				await this.api.adjustActiveHandler("Pre-Request Adjustment")
 			}
+			if (this.api instanceof ProviderRouterHandler) {
+				await this.api.initialize()
+			}
 			// kilocode_change end
 			const modelInfo = this.api.getModel().info
 
@@ -2919,19 +3058,30 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 				condensingApiHandler,
 				profileThresholds,
 				currentProfileId,
+				// kilocode_change start
+				condensingStrategy: state?.condensingStrategy,
+				modeCondensingStrategy: await this.getModeCondensingStrategy(state),
+				// kilocode_change end
 			})
 			if (truncateResult.messages !== this.apiConversationHistory) {
 				await this.overwriteApiConversationHistory(truncateResult.messages)
 			}
 			if (truncateResult.error) {
 				await this.say("condense_context_error", truncateResult.error)
-			} else if (truncateResult.summary) {
+			} else if (truncateResult.summary || truncateResult.strategies?.length) {
+				// kilocode_change: the pruning strategies condense without a summary
 				// A condense operation occurred; for the next GPT‑5 API call we should NOT
 				// send previous_response_id so the request reflects the fresh condensed context.
 				this.skipPrevResponseIdOnce = true
 
-				const { summary, cost, prevContextTokens, newContextTokens = 0 } = truncateResult
-				const contextCondense: ContextCondense = { summary, cost, newContextTokens, prevContextTokens }
+				const { summary, cost, prevContextTokens, newContextTokens = 0, strategies } = truncateResult // kilocode_change
+				const contextCondense: ContextCondense = {
+					summary,
+					cost,
+					newContextTokens,
+					prevContextTokens,
+					strategies,
+				} // kilocode_change
 				await this.say(
 					"condense_context",
 					undefined /* text */,
@@ -2967,6 +3117,22 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 			throw new Error("Auto-approval limit reached and user did not approve continuation")
 		}
 
+		// kilocode_change start
+		const costBudget = await this.getCurrentCostBudgetStatus()
+		if (costBudget?.exceeded) {
+			throw new Error(formatCostBudgetExceeded(costBudget))
+		}
+		// Only counted for the streaming cost estimate of a budget
+		this.apiRequestPromptTokens = costBudget
+			? await this.api.countTokens([
+					{ type: "text", text: systemPrompt },
+					...cleanConversationHistory.flatMap(({ content }) =>
+						typeof content === "string" ? [{ type: "text" as const, text: content }] : content,
+					),
+				])
+			: 0
+		// kilocode_change end
+
 		// Determine GPT‑5 previous_response_id from last persisted assistant turn (if available),
 		// unless a condense just occurred (skip once after condense).
 		let previousResponseId: string | undefined = undefined
@@ -3182,6 +3348,24 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		return checkpointDiff(this, options)
 	}
 
+	// kilocode_change start
+	public async checkpointFork(options: CheckpointForkOptions) {
+		return checkpointFork(this, options)
+	}
+
+	public async checkpointTimeline() {
+		return checkpointTimeline(this)
+	}
+
+	public async checkpointTimelineDiff(payload: CheckpointTimelineDiffPayload) {
+		return checkpointTimelineDiff(this, payload)
+	}
+
+	public async checkpointRestorePartial(payload: CheckpointRestorePartialPayload) {
+		return checkpointRestorePartial(this, payload)
+	}
+	// kilocode_change end
+
 	// Metrics
 
 	public combineMessages(messages: ClineMessage[]) {
@@ -3192,6 +3376,31 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		return getApiMetrics(this.combineMessages(this.clineMessages.slice(1)))
 	}
 
+	// kilocode_change start
+	public getCostBudgetStatus(budgets: CostBudgets, taskHistory: HistoryItem[]): CostBudgetStatus | undefined {
+		return getCostBudgetStatus(
+			budgets,
+			{
+				taskId: this.taskId,
+				workspace: this.cwd,
+				messages: this.combineMessages(this.clineMessages.slice(1)),
+				streamingCost: this.streamingCostEstimate,
+			},
+			taskHistory,
+		)
+	}
+
+	private async getCurrentCostBudgetStatus(): Promise<CostBudgetStatus | undefined> {
+		const provider = this.providerRef.deref()
+		const state = await provider?.getState()
+		// The task history is only read when there is a budget to check
+		if (!provider || !state || !hasCostBudget(state)) {
+			return undefined
+		}
+		return this.getCostBudgetStatus(state, provider.getTaskHistory())
+	}
+	// kilocode_change end
+
 	public recordToolUsage(toolName: ToolName) {
 		if (!this.toolUsage[toolName]) {
 			this.toolUsage[toolName] = { attempts: 0, failures: 0 }
@@ -3270,6 +3479,16 @@ export class Task extends EventEmitter<TaskEvents> implements TaskLike {
 		return this.idleAsk || this.resumableAsk || this.interactiveAsk
 	}
 
+	// kilocode_change start
+	/**
+	 * Whether an ask waits for its response or is being streamed, another ask would replace it
+	 */
+	public get isAskPending(): boolean {
+		const lastMessage = this.clineMessages.at(-1)
+		return this.waitingAsks > 0 || (lastMessage?.type === "ask" && !!lastMessage.partial)
+	}
+	// kilocode_change end
+
 	public get queuedMessages(): QueuedMessage[] {
 		return this.messageQueueService.messages
 	}
@@ -0,0 +1,142 @@
+// kilocode_change - new file
+// npx vitest run src/core/task/__tests__/CostBudget.spec.ts
+
+import type { ClineMessage, HistoryItem, ModelInfo } from "@roo-code/types"
+
+import {
+	StreamingCostEstimator,
+	addStreamingCost,
+	formatCostBudgetExceeded,
+	getCostBudgetStatus,
+	getLastRequestUsage,
+} from "../CostBudget"
+
+// $1 per million input tokens, $10 per million output tokens
+const modelInfo: ModelInfo = {
+	contextWindow: 200_000,
+	supportsPromptCache: true,
+	inputPrice: 1,
+	outputPrice: 10,
+	cacheReadsPrice: 0.1,
+}
+
+const now = new Date(2025, 5, 15, 12).getTime()
+const yesterday = now - 24 * 60 * 60 * 1000
+
+const historyItem = (id: string, totalCost: number, overrides: Partial<HistoryItem> = {}): HistoryItem => ({
+	id,
+	number: 1,
+	ts: now - 1000,
+	task: id,
+	tokensIn: 0,
+	tokensOut: 0,
+	totalCost,
+	dailyCost: { day: new Date(now).setHours(0, 0, 0, 0), cost: totalCost },
+	workspace: "/workspace",
+	...overrides,
+})
+
+const apiRequest = (ts: number, cost: number) =>
+	({ ts, type: "say", say: "api_req_started", text: JSON.stringify({ cost }) }) as ClineMessage
+
+describe("StreamingCostEstimator", () => {
+	it("should estimate the cost from the previous request and the streamed text", () => {
+		const estimator = new StreamingCostEstimator(modelInfo, { tokensIn: 1_000_000, cacheReads: 1_000_000 })
+		expect(estimator.cost).toBeCloseTo(1.1)
+
+		estimator.addStreamedText("a".repeat(400_000))
+		expect(estimator.cost).toBeCloseTo(2.1)
+	})
+
+	it("should estimate the tokens the prompt grew by since the previous request as uncached input", () => {
+		const estimator = new StreamingCostEstimator(modelInfo, { tokensIn: 1_000_000, cacheReads: 1_000_000 })
+		estimator.setPromptTokens(3_000_000)
+		expect(estimator.cost).toBeCloseTo(2.1)
+	})
+
+	it("should estimate the prompt of the first request from its counted tokens", () => {
+		const estimator = new StreamingCostEstimator(modelInfo)
+		expect(estimator.cost).toBe(0)
+
+		estimator.setPromptTokens(1_000_000)
+		expect(estimator.cost).toBeCloseTo(1)
+	})
+
+	it("should use the reported usage and only estimate the output streamed after it", () => {
+		const estimator = new StreamingCostEstimator(modelInfo, { tokensIn: 1_000_000 })
+		estimator.addStreamedText("a".repeat(40_000))
+		estimator.addUsage({ type: "usage", inputTokens: 500_000, outputTokens: 10_000 })
+		expect(estimator.cost).toBeCloseTo(0.6)
+
+		estimator.addStreamedText("a".repeat(40_000))
+		expect(estimator.cost).toBeCloseTo(0.7)
+	})
+
+	it("should prefer the cost reported by the provider", () => {
+		const estimator = new StreamingCostEstimator(modelInfo)
+		estimator.addUsage({ type: "usage", inputTokens: 500_000, outputTokens: 0, totalCost: 0.25 })
+
+		expect(estimator.cost).toBe(0.25)
+	})
+})
+
+describe("getLastRequestUsage", () => {
+	it("should return the usage of the last request that reported it", () => {
+		const messages = [
+			{ ts: 1, type: "say", say: "api_req_started", text: JSON.stringify({ tokensIn: 10, cacheReads: 5 }) },
+			{ ts: 2, type: "say", say: "text", text: "hello" },
+			{ ts: 3, type: "say", say: "api_req_started", text: JSON.stringify({ apiProtocol: "anthropic" }) },
+		] as ClineMessage[]
+
+		expect(getLastRequestUsage(messages)).toEqual({ tokensIn: 10, cacheWrites: undefined, cacheReads: 5 })
+		expect(getLastRequestUsage([])).toBeUndefined()
+	})
+})
+
+describe("getCostBudgetStatus", () => {
+	const task = { taskId: "current", workspace: "/workspace", messages: [apiRequest(now - 2000, 2)] }
+	const taskHistory = [
+		historyItem("current", 1),
+		historyItem("today", 3),
+		historyItem("yesterday", 100, { ts: yesterday, dailyCost: { day: yesterday, cost: 100 } }),
+		historyItem("other-workspace", 100, { workspace: "/other" }),
+	]
+
+	it("should return nothing without budgets", () => {
+		expect(getCostBudgetStatus({ taskCostBudget: null }, task, taskHistory, now)).toBeUndefined()
+	})
+
+	it("should add the cost of the other tasks of the workspace active today", () => {
+		expect(
+			getCostBudgetStatus({ taskCostBudget: 5, workspaceDailyCostBudget: 10 }, task, taskHistory, now),
+		).toEqual({ taskCost: 2, taskBudget: 5, workspaceCost: 5, workspaceBudget: 10 })
+	})
+
+	it("should only count the requests made today for tasks that span midnight", () => {
+		const midnight = new Date(now).setHours(0, 0, 0, 0)
+		const resumed = {
+			...task,
+			messages: [apiRequest(midnight - 60_000, 20), apiRequest(midnight + 60_000, 1)],
+			streamingCost: 0.5,
+		}
+		const history = [historyItem("resumed-too", 30, { dailyCost: { day: midnight, cost: 2 } })]
+
+		expect(
+			getCostBudgetStatus({ taskCostBudget: 50, workspaceDailyCostBudget: 10 }, resumed, history, now),
+		).toEqual({ taskCost: 21.5, taskBudget: 50, workspaceCost: 3.5, workspaceBudget: 10 })
+	})
+
+	it("should report the budget that is used up", () => {
+		expect(getCostBudgetStatus({ taskCostBudget: 2 }, task, taskHistory, now)?.exceeded).toBe("task")
+		expect(getCostBudgetStatus({ workspaceDailyCostBudget: 5 }, task, taskHistory, now)?.exceeded).toBe("workspace")
+	})
+
+	it("should add the cost of the response being streamed", () => {
+		const status = getCostBudgetStatus({ taskCostBudget: 5, workspaceDailyCostBudget: 10 }, task, taskHistory, now)!
+
+		expect(addStreamingCost(status, 1).exceeded).toBeUndefined()
+		const exceeded = addStreamingCost(status, 3)
+		expect(exceeded).toMatchObject({ taskCost: 5, workspaceCost: 8, exceeded: "task" })
+		expect(formatCostBudgetExceeded(exceeded)).toContain("taskExceeded")
+	})
+})
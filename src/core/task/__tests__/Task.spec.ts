@@ -4,6 +4,7 @@ import * as os from "os"
 import * as path from "path"
 
 import * as vscode from "vscode"
+import pWaitFor from "p-wait-for" // kilocode_change
 import { Anthropic } from "@anthropic-ai/sdk"
 
 import type { GlobalState, ProviderSettings, ModelInfo } from "@roo-code/types"
@@ -1825,4 +1826,74 @@ describe("Cline", () => {
 			consoleErrorSpy.mockRestore()
 		})
 	})
+
+	// kilocode_change start
+	describe("isAskPending", () => {
+		it("should be pending while an ask waits for its response or is streamed", async () => {
+			const task = new Task({
+				provider: mockProvider,
+				apiConfiguration: mockApiConfig,
+				task: "test task",
+				startTask: false,
+				context: mockExtensionContext,
+			})
+			vi.spyOn(task as any, "addToClineMessages").mockImplementation(async (message: any) => {
+				task.clineMessages.push(message)
+			})
+			vi.mocked(pWaitFor).mockImplementationOnce(async (condition) => {
+				while (!(await condition())) {
+					await new Promise((resolve) => setTimeout(resolve, 1))
+				}
+			})
+
+			await expect(task.ask("tool", "partial", true)).rejects.toThrow("Current ask promise was ignored")
+			expect(task.isAskPending).toBe(true)
+
+			const ask = task.ask("tool", "complete", false)
+			await vi.waitFor(() => expect(task.isAskPending).toBe(true))
+			expect(task.clineMessages.at(-1)?.partial).toBe(false)
+
+			task.handleWebviewAskResponse("yesButtonClicked")
+			await ask
+			expect(task.isAskPending).toBe(false)
+		})
+	})
+
+	describe("cost budget", () => {
+		it("should close the provider stream when the budget is used up while streaming", async () => {
+			const task = new Task({
+				provider: mockProvider,
+				apiConfiguration: mockApiConfig,
+				task: "test task",
+				startTask: false,
+				context: mockExtensionContext,
+			})
+			vi.spyOn(task, "dispose").mockImplementation(() => {})
+			vi.spyOn(task.diffViewProvider, "reset").mockResolvedValue(undefined)
+			vi.spyOn(task as any, "getCurrentCostBudgetStatus").mockResolvedValue({
+				taskCost: 0,
+				taskBudget: 0.000001,
+			})
+
+			let finalized = false
+			let chunksYielded = 0
+			vi.spyOn(task, "attemptApiRequest").mockImplementation(async function* () {
+				try {
+					for (let i = 0; i < 100; i++) {
+						chunksYielded++
+						yield { type: "text" as const, text: "a".repeat(1000) }
+					}
+				} finally {
+					finalized = true
+				}
+			})
+
+			await task.recursivelyMakeClineRequests([{ type: "text", text: "test request" }], false)
+
+			expect(task.abort).toBe(true)
+			expect(finalized).toBe(true)
+			expect(chunksYielded).toBeLessThan(100)
+		})
+	})
+	// kilocode_change end
 })
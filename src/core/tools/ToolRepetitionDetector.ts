@@ -1,14 +1,104 @@
-import { ToolUse } from "../../shared/tools"
+import { TOOL_GROUPS, ToolResponse, ToolUse } from "../../shared/tools"
 import { t } from "../../i18n"
 
+// kilocode_change start
+/**
+ * The longest cycle of tool calls (e.g. read_file -> apply_diff -> execute_command)
+ * that is recognized as a loop
+ */
+const MAX_CYCLE_LENGTH = 3
+
+const MAX_LABEL_LENGTH = 60
+const MAX_ERROR_LENGTH = 200
+
+interface ToolCallSignature {
+	/** Normalized representation of the call, trivially different calls share it */
+	signature: string
+	/** Short human-readable description of the call, used in loop descriptions */
+	label: string
+}
+
+interface RepeatedToolError {
+	scope: string
+	toolName: string
+	error: string
+	/** The error without the numbers (line numbers, durations, ...) that change between otherwise identical errors */
+	normalizedError: string
+	count: number
+}
+
+function truncate(text: string, maxLength: number): string {
+	return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text
+}
+
+function collapseWhitespace(text: string): string {
+	return text.replace(/\s+/g, " ").trim()
+}
+
+/**
+ * Normalizes a search regex so that trivially different variants of the same search,
+ * e.g. `foo`, `\bfoo\b`, `^foo.*` or `FOO`, compare equal
+ */
+function normalizeRegex(regex: string): string {
+	return regex
+		.toLowerCase()
+		.replace(/\\[bB]/g, "")
+		.replace(/[\\^$\s]/g, "")
+		.replace(/^(\.\*)+|(\.\*)+$/g, "")
+}
+
+/**
+ * Extracts the error reported by a tool result, if any
+ */
+function getToolResultError(toolName: string, content: ToolResponse): string | undefined {
+	const text =
+		typeof content === "string"
+			? content
+			: content
+					.map((block) => (block.type === "text" ? block.text : ""))
+					.filter(Boolean)
+					.join("\n")
+
+	const error = text.match(/<error>([\s\S]*?)<\/error>/)?.[1]
+	if (error !== undefined) {
+		return collapseWhitespace(error)
+	}
+
+	if (toolName === "execute_command") {
+		// The output tells apart a command that fails the same way from one that fails differently after a fix
+		const exitCode = text.match(/Exit code: (-?\d+)/)?.[1]
+		const status =
+			exitCode !== undefined && exitCode !== "0"
+				? `Exit code: ${exitCode}`
+				: text.match(/Process terminated by signal \w+/)?.[0]
+		if (status === undefined) {
+			return undefined
+		}
+		const output = text.match(/\nOutput:\n([\s\S]*)$/)?.[1] ?? ""
+		return collapseWhitespace(`${status} ${output}`)
+	}
+
+	return undefined
+}
+// kilocode_change end
+
 /**
  * Class for detecting consecutive identical tool calls
  * to prevent the AI from getting stuck in a loop.
+ *
+ * kilocode_change: Also detects cycles of trivially different tool calls over a sliding
+ * window (e.g. read_file/apply_diff oscillating on the same file) and tools that keep
+ * failing with the same error while no file is edited.
  */
 export class ToolRepetitionDetector {
 	private previousToolCallJson: string | null = null
 	private consecutiveIdenticalToolCallCount: number = 0
 	private readonly consecutiveIdenticalToolCallLimit: number
+	// kilocode_change start
+	private recentToolCalls: ToolCallSignature[] = []
+	private repeatedToolErrors = new Map<string, RepeatedToolError>()
+	private pendingErrorLoop: RepeatedToolError | null = null
+	// kilocode_change end
 
 	/**
 	 * Creates a new ToolRepetitionDetector
@@ -56,8 +146,7 @@ export class ToolRepetitionDetector {
 			this.consecutiveIdenticalToolCallCount >= this.consecutiveIdenticalToolCallLimit
 		) {
 			// Reset counters to allow recovery if user guides the AI past this point
-			this.consecutiveIdenticalToolCallCount = 0
-			this.previousToolCallJson = null
+			this.reset() // kilocode_change
 
 			// Return result indicating execution should not be allowed
 			return {
@@ -69,10 +158,161 @@ export class ToolRepetitionDetector {
 			}
 		}
 
+		// kilocode_change start
+		if (this.consecutiveIdenticalToolCallLimit > 0) {
+			const semanticCheck = this.checkSemanticLoops(currentToolCallBlock)
+			if (semanticCheck) {
+				this.reset()
+				return {
+					allowExecution: false,
+					askUser: { messageKey: "mistake_limit_reached", messageDetail: semanticCheck },
+				}
+			}
+		}
+		// kilocode_change end
+
 		// Execution is allowed
 		return { allowExecution: true }
 	}
 
+	// kilocode_change start
+	/**
+	 * Records the result of an executed tool call so that a tool which keeps failing
+	 * with the same error is reported on its next call. Only consecutive identical
+	 * failures count, and editing a file starts over since it may have fixed the error.
+	 *
+	 * @param toolUse The ToolUse object that produced the result
+	 * @param content The result returned to the model
+	 */
+	public recordToolResult(toolUse: ToolUse, content: ToolResponse): void {
+		if (this.consecutiveIdenticalToolCallLimit <= 0) {
+			return
+		}
+
+		const scope = this.getErrorScope(toolUse)
+		const error = getToolResultError(toolUse.name, content)
+
+		if (error === undefined) {
+			if (TOOL_GROUPS.edit.tools.includes(toolUse.name)) {
+				// A file was edited, the errors of all tools may have changed
+				this.repeatedToolErrors.clear()
+				this.pendingErrorLoop = null
+				return
+			}
+			// The tool made progress, forget the errors it returned before
+			this.repeatedToolErrors.delete(scope)
+			if (this.pendingErrorLoop?.scope === scope) {
+				this.pendingErrorLoop = null
+			}
+			return
+		}
+
+		const normalizedError = error.replace(/\d+/g, "#")
+		const previousError = this.repeatedToolErrors.get(scope)
+		const repeatedError =
+			previousError?.normalizedError === normalizedError
+				? previousError
+				: { scope, toolName: toolUse.name, error, normalizedError, count: 0 }
+		repeatedError.count++
+		this.repeatedToolErrors.set(scope, repeatedError)
+
+		if (repeatedError.count >= this.consecutiveIdenticalToolCallLimit) {
+			this.pendingErrorLoop = repeatedError
+		} else if (this.pendingErrorLoop?.scope === scope) {
+			this.pendingErrorLoop = null
+		}
+	}
+
+	/**
+	 * Checks the current tool call against the sliding window of recent calls for
+	 * repeating cycles, and against tools that keep failing with the same error
+	 *
+	 * @returns A description of the loop that was found, or undefined
+	 */
+	private checkSemanticLoops(toolUse: ToolUse): string | undefined {
+		const limit = this.consecutiveIdenticalToolCallLimit
+		const current = this.normalizeToolUse(toolUse)
+
+		if (this.pendingErrorLoop && this.pendingErrorLoop.scope === this.getErrorScope(toolUse)) {
+			const { toolName, error, count } = this.pendingErrorLoop
+			return t("tools:toolErrorLoopDetected", { toolName, count, error: truncate(error, MAX_ERROR_LENGTH) })
+		}
+
+		this.recentToolCalls.push(current)
+		const windowSize = MAX_CYCLE_LENGTH * (limit + 1)
+		if (this.recentToolCalls.length > windowSize) {
+			this.recentToolCalls.splice(0, this.recentToolCalls.length - windowSize)
+		}
+
+		for (let cycleLength = 1; cycleLength <= MAX_CYCLE_LENGTH; cycleLength++) {
+			const calls = this.recentToolCalls.slice(-cycleLength * (limit + 1))
+			if (calls.length < cycleLength * (limit + 1)) {
+				break
+			}
+
+			const cycle = calls.slice(0, cycleLength)
+			const isCycle = calls.every((call, index) => call.signature === cycle[index % cycleLength].signature)
+			// A cycle made of one repeated call was already reported as a shorter cycle
+			const isMinimal = cycleLength === 1 || new Set(cycle.map((call) => call.signature)).size > 1
+
+			if (isCycle && isMinimal) {
+				return t("tools:toolLoopDetected", {
+					cycle: cycle.map((call) => call.label).join(" → "),
+					count: limit + 1,
+				})
+			}
+		}
+
+		return undefined
+	}
+
+	/**
+	 * Normalizes a tool call so that calls which only differ trivially (whitespace,
+	 * parameter order, regex anchors or case) share the same signature
+	 */
+	private normalizeToolUse(toolUse: ToolUse): ToolCallSignature {
+		const params = toolUse.params as Record<string, string | undefined>
+		const normalizedParams: Record<string, string> = {}
+
+		for (const key of Object.keys(params).sort()) {
+			const value = params[key]
+			if (value !== undefined) {
+				normalizedParams[key] =
+					toolUse.name === "search_files" && key === "regex"
+						? normalizeRegex(value)
+						: collapseWhitespace(value)
+			}
+		}
+
+		const target = params.path ?? params.command ?? params.regex ?? params.query ?? params.action
+		return {
+			signature: JSON.stringify({ name: toolUse.name, parameters: normalizedParams }),
+			label: target ? `${toolUse.name}(${truncate(collapseWhitespace(target), MAX_LABEL_LENGTH)})` : toolUse.name,
+		}
+	}
+
+	/**
+	 * Errors are tracked per target since a failing call says nothing about calls on
+	 * other targets: tools that work on a file are tracked per tool and path (so that
+	 * retrying an edit with another diff still counts), all others per call signature
+	 */
+	private getErrorScope(toolUse: ToolUse): string {
+		const path = (toolUse.params as Record<string, string | undefined>).path
+		if (toolUse.name !== "execute_command" && path !== undefined) {
+			return JSON.stringify({ name: toolUse.name, path: collapseWhitespace(path) })
+		}
+		return this.normalizeToolUse(toolUse).signature
+	}
+
+	private reset(): void {
+		this.consecutiveIdenticalToolCallCount = 0
+		this.previousToolCallJson = null
+		this.recentToolCalls = []
+		this.repeatedToolErrors.clear()
+		this.pendingErrorLoop = null
+	}
+	// kilocode_change end
+
 	/**
 	 * Checks if a tool use is a browser scroll action
 	 *
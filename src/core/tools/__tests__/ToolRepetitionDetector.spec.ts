@@ -12,6 +12,14 @@ vitest.mock("../../../i18n", () => ({
 		if (key === "tools:toolRepetitionLimitReached" && options?.toolName) {
 			return `Roo appears to be stuck in a loop, attempting the same action (${options.toolName}) repeatedly. This might indicate a problem with its current strategy.`
 		}
+		// kilocode_change start
+		if (key === "tools:toolLoopDetected") {
+			return `Loop: ${options.cycle} (${options.count} times)`
+		}
+		if (key === "tools:toolErrorLoopDetected") {
+			return `Error loop: ${options.toolName} failed ${options.count} times with ${options.error}`
+		}
+		// kilocode_change end
 		return key
 	}),
 }))
@@ -562,4 +570,186 @@ describe("ToolRepetitionDetector", () => {
 			expect(result.askUser).toBeDefined()
 		})
 	})
+
+	// kilocode_change start
+	// ===== Semantic loop detection tests =====
+	describe("semantic loop detection", () => {
+		it("should detect A/B oscillation between tools on the same file", () => {
+			const detector = new ToolRepetitionDetector(2)
+			const read = createToolUse("read_file", "read_file", { path: "src/app.ts" })
+			const diff = createToolUse("apply_diff", "apply_diff", { path: "src/app.ts", diff: "<<<<<<< SEARCH" })
+
+			for (let i = 0; i < 5; i++) {
+				expect(detector.check(i % 2 === 0 ? read : diff).allowExecution).toBe(true)
+			}
+
+			const result = detector.check(diff)
+			expect(result.allowExecution).toBe(false)
+			expect(result.askUser).toEqual({
+				messageKey: "mistake_limit_reached",
+				messageDetail: "Loop: read_file(src/app.ts) → apply_diff(src/app.ts) (3 times)",
+			})
+		})
+
+		it("should treat searches with trivially different regexes as the same call", () => {
+			const detector = new ToolRepetitionDetector(2)
+			const regexes = ["handleClick", "\\bhandleClick\\b", "^HandleClick.*"]
+
+			expect(
+				detector.check(createToolUse("search_files", "search_files", { path: "src", regex: regexes[0] }))
+					.allowExecution,
+			).toBe(true)
+			expect(
+				detector.check(createToolUse("search_files", "search_files", { path: "src", regex: regexes[1] }))
+					.allowExecution,
+			).toBe(true)
+
+			const result = detector.check(
+				createToolUse("search_files", "search_files", { path: "src", regex: regexes[2] }),
+			)
+			expect(result.allowExecution).toBe(false)
+			expect(result.askUser?.messageDetail).toBe("Loop: search_files(src) (3 times)")
+		})
+
+		it("should treat commands that only differ in whitespace as the same call", () => {
+			const detector = new ToolRepetitionDetector(1)
+
+			expect(
+				detector.check(createToolUse("execute_command", "execute_command", { command: "npm test" }))
+					.allowExecution,
+			).toBe(true)
+			expect(
+				detector.check(createToolUse("execute_command", "execute_command", { command: "npm  test " }))
+					.allowExecution,
+			).toBe(false)
+		})
+
+		it("should not report a sequence of different calls as a loop", () => {
+			const detector = new ToolRepetitionDetector(2)
+
+			for (let i = 0; i < 10; i++) {
+				const result = detector.check(createToolUse("read_file", "read_file", { path: `src/file${i % 4}.ts` }))
+				expect(result.allowExecution).toBe(true)
+			}
+		})
+
+		it("should report a command that keeps failing with the same error on its next call", () => {
+			const detector = new ToolRepetitionDetector(2)
+			const test = createToolUse("execute_command", "execute_command", { command: "npm test" })
+			const read = createToolUse("read_file", "read_file", { path: "src/app.ts" })
+			const failure =
+				"Command executed in terminal. Command execution was not successful.\nExit code: 1\nOutput:\n"
+
+			detector.check(test)
+			detector.recordToolResult(test, `${failure}took 1.2s`)
+			detector.check(read)
+			detector.recordToolResult(read, "contents")
+			detector.check(test)
+			detector.recordToolResult(test, `${failure}took 3.4s`)
+
+			// A different command is not affected
+			const lint = createToolUse("execute_command", "execute_command", { command: "npm run lint" })
+			expect(detector.check(lint).allowExecution).toBe(true)
+
+			const result = detector.check(test)
+			expect(result.allowExecution).toBe(false)
+			expect(result.askUser?.messageDetail).toBe(
+				"Error loop: execute_command failed 2 times with Exit code: 1 took 1.2s",
+			)
+		})
+
+		it("should not report a command that fails again after a file was edited", () => {
+			const detector = new ToolRepetitionDetector(2)
+			const test = createToolUse("execute_command", "execute_command", { command: "npm test" })
+			const failure = "Command executed in terminal.\nExit code: 1\nOutput:\nexpected 1 to be 2"
+
+			for (let i = 0; i < 5; i++) {
+				const edit = createToolUse("apply_diff", "apply_diff", { path: "src/app.ts", diff: `attempt ${i}` })
+				expect(detector.check(test).allowExecution).toBe(true)
+				detector.recordToolResult(test, failure)
+				expect(detector.check(edit).allowExecution).toBe(true)
+				detector.recordToolResult(edit, "Changes successfully applied")
+			}
+		})
+
+		it("should only report consecutive failures with the same output", () => {
+			const detector = new ToolRepetitionDetector(2)
+			const test = createToolUse("execute_command", "execute_command", { command: "npm test" })
+			const failure = (output: string) => `Command executed in terminal.\nExit code: 1\nOutput:\n${output}`
+
+			for (let i = 0; i < 4; i++) {
+				detector.recordToolResult(
+					test,
+					failure(i % 2 === 0 ? "expected 1 to be 2" : "cannot find module './app'"),
+				)
+			}
+			expect(detector.check(test).allowExecution).toBe(true)
+
+			detector.recordToolResult(test, failure("cannot find module './app'"))
+			const result = detector.check(test)
+			expect(result.allowExecution).toBe(false)
+			expect(result.askUser?.messageDetail).toBe(
+				"Error loop: execute_command failed 2 times with Exit code: 1 cannot find module './app'",
+			)
+		})
+
+		it("should report a tool that keeps returning the same tool error", () => {
+			const detector = new ToolRepetitionDetector(2)
+			const diff = (n: number) =>
+				createToolUse("apply_diff", "apply_diff", { path: "src/app.ts", diff: `attempt ${n}` })
+			const error = (line: number) =>
+				`The tool execution failed with the following error:\n<error>\nNo sufficiently similar match found at line ${line}\n</error>`
+
+			detector.check(diff(1))
+			detector.recordToolResult(diff(1), error(10))
+			detector.check(diff(2))
+			detector.recordToolResult(diff(2), [{ type: "text", text: error(12) }])
+
+			const result = detector.check(diff(3))
+			expect(result.allowExecution).toBe(false)
+			expect(result.askUser?.messageDetail).toBe(
+				"Error loop: apply_diff failed 2 times with No sufficiently similar match found at line 10",
+			)
+		})
+
+		it("should not report a tool error loop for a call on a different file", () => {
+			const detector = new ToolRepetitionDetector(2)
+			const read = (path: string) => createToolUse("read_file", "read_file", { path })
+			const error = "<error>\nFile not found: src/missing.ts\n</error>"
+
+			detector.check(read("src/missing.ts"))
+			detector.recordToolResult(read("src/missing.ts"), error)
+			detector.check(read("src/missing.ts"))
+			detector.recordToolResult(read("src/missing.ts"), error)
+
+			expect(detector.check(read("src/app.ts")).allowExecution).toBe(true)
+			const result = detector.check(read("src/missing.ts"))
+			expect(result.allowExecution).toBe(false)
+			expect(result.askUser?.messageDetail).toBe(
+				"Error loop: read_file failed 2 times with File not found: src/missing.ts",
+			)
+		})
+
+		it("should forget repeated errors once the tool succeeds", () => {
+			const detector = new ToolRepetitionDetector(2)
+			const test = createToolUse("execute_command", "execute_command", { command: "npm test" })
+
+			detector.recordToolResult(test, "Exit code: 1")
+			detector.recordToolResult(test, "Exit code: 1")
+			detector.recordToolResult(test, "Exit code: 0")
+
+			expect(detector.check(test).allowExecution).toBe(true)
+		})
+
+		it("should not detect semantic loops when the limit is 0 (unlimited)", () => {
+			const detector = new ToolRepetitionDetector(0)
+			const test = createToolUse("execute_command", "execute_command", { command: "npm test" })
+
+			for (let i = 0; i < 5; i++) {
+				detector.recordToolResult(test, "Exit code: 1")
+				expect(detector.check(i % 2 === 0 ? test : createToolUse("read_file")).allowExecution).toBe(true)
+			}
+		})
+	})
+	// kilocode_change end
 })
@@ -0,0 +1,103 @@
+// kilocode_change - new file
+// npx vitest core/tools/__tests__/backgroundJobTool.spec.ts
+
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import type { BackgroundJob } from "@roo-code/types"
+
+import { backgroundJobTool } from "../backgroundJobTool"
+import { Task } from "../../task/Task"
+import { ToolUse } from "../../../shared/tools"
+import { TerminalRegistry } from "../../../integrations/terminal/TerminalRegistry"
+
+vi.mock("../../../integrations/terminal/TerminalRegistry", () => ({
+	TerminalRegistry: {
+		getBackgroundJobs: vi.fn(),
+		getBackgroundJob: vi.fn(),
+		hasUnreadBackgroundJobOutput: vi.fn().mockReturnValue(false),
+		readBackgroundJobOutput: vi.fn().mockReturnValue(""),
+		killBackgroundJob: vi.fn().mockReturnValue(true),
+	},
+}))
+
+describe("backgroundJobTool", () => {
+	const jobs: BackgroundJob[] = [
+		{ id: 1, command: "npm run dev", cwd: "/test/project", taskId: "task-1", status: "running", startedAt: 0 },
+		{ id: 2, command: "npm run watch", cwd: "/test/project", taskId: "task-2", status: "running", startedAt: 0 },
+	]
+
+	let mockTask: any
+	let mockAskApproval: any
+	let mockPushToolResult: any
+
+	const run = (params: Record<string, string>) => {
+		const block: ToolUse = {
+			type: "tool_use",
+			name: "background_job",
+			params,
+			partial: false,
+		}
+		return backgroundJobTool(
+			mockTask as Task,
+			block,
+			mockAskApproval,
+			vi.fn(),
+			mockPushToolResult,
+			vi.fn((_tag, text) => text || ""),
+		)
+	}
+
+	beforeEach(() => {
+		vi.clearAllMocks()
+
+		vi.mocked(TerminalRegistry.getBackgroundJobs).mockImplementation((taskId?: string) =>
+			jobs.filter((job) => taskId === undefined || job.taskId === taskId),
+		)
+
+		mockTask = {
+			taskId: "task-1",
+			consecutiveMistakeCount: 0,
+			recordToolError: vi.fn(),
+			sayAndCreateMissingParamError: vi.fn().mockResolvedValue("Missing parameter error"),
+			providerRef: { deref: vi.fn().mockReturnValue({ getState: vi.fn().mockResolvedValue({}) }) },
+		}
+
+		mockAskApproval = vi.fn().mockResolvedValue(true)
+		mockPushToolResult = vi.fn()
+	})
+
+	it("should only list the jobs of the task", async () => {
+		await run({ action: "list" })
+
+		expect(TerminalRegistry.getBackgroundJobs).toHaveBeenCalledWith("task-1")
+		expect(mockPushToolResult).toHaveBeenCalledWith(expect.stringContaining("npm run dev"))
+		expect(mockPushToolResult).toHaveBeenCalledWith(expect.not.stringContaining("npm run watch"))
+	})
+
+	it("should not give access to the jobs of other tasks", async () => {
+		await run({ action: "read", job_id: "2" })
+
+		expect(TerminalRegistry.readBackgroundJobOutput).not.toHaveBeenCalled()
+		expect(mockTask.recordToolError).toHaveBeenCalledWith("background_job")
+		expect(mockPushToolResult).toHaveBeenCalledWith(expect.stringContaining("Background job 2 does not exist"))
+	})
+
+	it("should ask for approval before killing a job", async () => {
+		await run({ action: "kill", job_id: "1" })
+
+		expect(mockAskApproval).toHaveBeenCalledWith(
+			"tool",
+			JSON.stringify({ tool: "killBackgroundJob", jobId: 1, command: "npm run dev", path: "/test/project" }),
+		)
+		expect(TerminalRegistry.killBackgroundJob).toHaveBeenCalledWith(1)
+		expect(mockPushToolResult).toHaveBeenCalledWith("Killed background job 1.")
+	})
+
+	it("should not kill a job when the user denies it", async () => {
+		mockAskApproval.mockResolvedValue(false)
+
+		await run({ action: "kill", job_id: "1" })
+
+		expect(TerminalRegistry.killBackgroundJob).not.toHaveBeenCalled()
+		expect(mockPushToolResult).not.toHaveBeenCalled()
+	})
+})
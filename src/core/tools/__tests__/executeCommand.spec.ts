@@ -20,6 +20,12 @@ vitest.mock("../../../integrations/terminal/TerminalRegistry")
 vitest.mock("../../../integrations/terminal/Terminal")
 vitest.mock("../../../integrations/terminal/ExecaTerminal")
 
+// kilocode_change start
+vitest.mock("../../../integrations/terminal/sandbox", () => ({ isSandboxAvailable: vitest.fn() }))
+
+import { isSandboxAvailable } from "../../../integrations/terminal/sandbox"
+// kilocode_change end
+
 // Import the actual executeCommand function (not mocked)
 import { executeCommand } from "../executeCommandTool"
 
@@ -213,7 +219,12 @@ describe("executeCommand", () => {
 
 			// Verify
 			expect(rejected).toBe(false)
-			expect(TerminalRegistry.getOrCreateTerminal).toHaveBeenCalledWith(customCwd, mockTask.taskId, "vscode")
+			expect(TerminalRegistry.getOrCreateTerminal).toHaveBeenCalledWith(
+				customCwd,
+				mockTask.taskId,
+				"vscode",
+				undefined, // kilocode_change
+			)
 			expect(result).toContain(`within working directory '${customCwd}'`)
 		})
 
@@ -243,7 +254,12 @@ describe("executeCommand", () => {
 
 			// Verify
 			expect(rejected).toBe(false)
-			expect(TerminalRegistry.getOrCreateTerminal).toHaveBeenCalledWith(resolvedCwd, mockTask.taskId, "vscode")
+			expect(TerminalRegistry.getOrCreateTerminal).toHaveBeenCalledWith(
+				resolvedCwd,
+				mockTask.taskId,
+				"vscode",
+				undefined, // kilocode_change
+			)
 			expect(result).toContain(`within working directory '${resolvedCwd.toPosix()}'`)
 		})
 
@@ -292,7 +308,12 @@ describe("executeCommand", () => {
 			await executeCommand(mockTask, options)
 
 			// Verify
-			expect(TerminalRegistry.getOrCreateTerminal).toHaveBeenCalledWith(mockTask.cwd, mockTask.taskId, "vscode")
+			expect(TerminalRegistry.getOrCreateTerminal).toHaveBeenCalledWith(
+				mockTask.cwd,
+				mockTask.taskId,
+				"vscode",
+				undefined, // kilocode_change
+			)
 		})
 
 		it("should use execa provider when shell integration is disabled", async () => {
@@ -315,8 +336,66 @@ describe("executeCommand", () => {
 			await executeCommand(mockTask, options)
 
 			// Verify
-			expect(TerminalRegistry.getOrCreateTerminal).toHaveBeenCalledWith(mockTask.cwd, mockTask.taskId, "execa")
+			expect(TerminalRegistry.getOrCreateTerminal).toHaveBeenCalledWith(
+				mockTask.cwd,
+				mockTask.taskId,
+				"execa",
+				undefined, // kilocode_change
+			)
+		})
+
+		// kilocode_change start
+		it("should use sandbox provider when the mode requires the sandbox", async () => {
+			;(isSandboxAvailable as any).mockResolvedValue(true)
+			mockTerminal.runCommand.mockImplementation((command: string, callbacks: RooTerminalCallbacks) => {
+				setTimeout(() => {
+					callbacks.onCompleted("Command output", mockProcess)
+					callbacks.onShellExecutionComplete({ exitCode: 0 }, mockProcess)
+				}, 0)
+				return mockProcess
+			})
+
+			const sandbox = { workspacePath: "/test/project", networkEnabled: false }
+
+			const options: ExecuteCommandOptions = {
+				executionId: "test-123",
+				command: "echo test",
+				terminalShellIntegrationDisabled: false,
+				terminalOutputLineLimit: 500,
+				sandbox,
+			}
+
+			// Execute
+			await executeCommand(mockTask, options)
+
+			// Verify
+			expect(TerminalRegistry.getOrCreateTerminal).toHaveBeenCalledWith(
+				mockTask.cwd,
+				mockTask.taskId,
+				"sandbox",
+				sandbox,
+			)
+		})
+
+		it("should refuse to run the command when the sandbox is not available", async () => {
+			;(isSandboxAvailable as any).mockResolvedValue(false)
+
+			const options: ExecuteCommandOptions = {
+				executionId: "test-123",
+				command: "echo test",
+				sandbox: { workspacePath: "/test/project" },
+			}
+
+			// Execute
+			const [rejected, result] = await executeCommand(mockTask, options)
+
+			// Verify
+			expect(rejected).toBe(false)
+			expect(result).toContain("requires commands to run in a sandbox")
+			expect(mockTask.say).toHaveBeenCalledWith("error", expect.any(String))
+			expect(TerminalRegistry.getOrCreateTerminal).not.toHaveBeenCalled()
 		})
+		// kilocode_change end
 	})
 
 	describe("Command Execution States", () => {
@@ -298,13 +298,19 @@ describe("read_file tool with maxReadFileLine setting", () => {
 			path?: string
 			start_line?: string
 			end_line?: string
+			state?: Record<string, unknown> // kilocode_change
 		} = {},
 	): Promise<ToolResponse | undefined> {
 		// Configure mocks based on test scenario
 		const maxReadFileLine = options.maxReadFileLine ?? 500
 		const totalLines = options.totalLines ?? 5
 
-		mockProvider.getState.mockResolvedValue({ maxReadFileLine, maxImageFileSize: 20, maxTotalImageSize: 20 })
+		mockProvider.getState.mockResolvedValue({
+			maxReadFileLine,
+			maxImageFileSize: 20,
+			maxTotalImageSize: 20,
+			...options.state, // kilocode_change
+		})
 		mockedCountFileLines.mockResolvedValue(totalLines)
 
 		// Reset the spy before each test
@@ -484,6 +490,48 @@ describe("read_file tool with maxReadFileLine setting", () => {
 			expect(rangeResult).toContain(`<content lines="2-4">`)
 		})
 	})
+
+	// kilocode_change start
+	describe("when the mode requires approval for read_file", () => {
+		const state = {
+			yoloMode: true,
+			mode: "restricted",
+			customModes: [
+				{
+					slug: "restricted",
+					name: "Restricted",
+					roleDefinition: "Restricted",
+					groups: ["read"],
+					requireApproval: ["read_file"],
+				},
+			],
+		}
+
+		it("should ask for approval in YOLO mode and flag the ask as requiring approval", async () => {
+			await executeReadFileTool({}, { state })
+
+			expect(mockCline.ask).toHaveBeenCalledTimes(1)
+			expect(mockCline.ask.mock.calls[0][5]).toBe(true)
+		})
+
+		it("should flag the batch ask of several files as requiring approval", async () => {
+			await executeReadFileTool(
+				{ args: "<file><path>a.txt</path></file><file><path>b.txt</path></file>" },
+				{ state },
+			)
+
+			expect(mockCline.ask).toHaveBeenCalledTimes(1)
+			expect(JSON.parse(mockCline.ask.mock.calls[0][1]).batchFiles).toHaveLength(2)
+			expect(mockCline.ask.mock.calls[0][5]).toBe(true)
+		})
+
+		it("should not ask in YOLO mode when the mode does not require approval", async () => {
+			await executeReadFileTool({}, { state: { ...state, mode: "code" } })
+
+			expect(mockCline.ask).not.toHaveBeenCalled()
+		})
+	})
+	// kilocode_change end
 })
 
 describe("read_file tool XML output structure", () => {
@@ -0,0 +1,198 @@
+// kilocode_change - new file
+import { BackgroundJob, DEFAULT_TERMINAL_OUTPUT_CHARACTER_LIMIT } from "@roo-code/types"
+
+import { Task } from "../task/Task"
+import { ToolUse, AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "../../shared/tools"
+import { ClineSayTool } from "../../shared/ExtensionMessage"
+import { formatResponse } from "../prompts/responses"
+import { TerminalRegistry } from "../../integrations/terminal/TerminalRegistry"
+import { Terminal } from "../../integrations/terminal/Terminal"
+
+const backgroundJobActions = ["list", "read", "wait", "kill"] as const
+
+type BackgroundJobAction = (typeof backgroundJobActions)[number]
+
+const DEFAULT_WAIT_TIMEOUT_SECONDS = 30
+const MAX_WAIT_TIMEOUT_SECONDS = 300
+
+export async function backgroundJobTool(
+	task: Task,
+	block: ToolUse,
+	askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	_removeClosingTag: RemoveClosingTag,
+) {
+	const action = block.params.action
+	const jobId = block.params.job_id
+
+	try {
+		if (block.partial) {
+			return
+		}
+
+		if (!action) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("background_job")
+			pushToolResult(await task.sayAndCreateMissingParamError("background_job", "action"))
+			return
+		}
+
+		if (!backgroundJobActions.includes(action as BackgroundJobAction)) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("background_job")
+			pushToolResult(
+				formatResponse.toolError(`Unknown action "${action}". Use one of: ${backgroundJobActions.join(", ")}.`),
+			)
+			return
+		}
+
+		if (action === "list") {
+			task.consecutiveMistakeCount = 0
+			pushToolResult(listBackgroundJobs(task.taskId))
+			return
+		}
+
+		if (!jobId) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("background_job")
+			pushToolResult(await task.sayAndCreateMissingParamError("background_job", "job_id"))
+			return
+		}
+
+		// Jobs of other tasks are not visible to this one
+		const job = TerminalRegistry.getBackgroundJobs(task.taskId).find(({ id }) => id === Number(jobId))
+
+		if (!job) {
+			task.consecutiveMistakeCount++
+			task.recordToolError("background_job")
+			pushToolResult(
+				formatResponse.toolError(
+					`Background job ${jobId} does not exist. Use the list action to see the background jobs.`,
+				),
+			)
+			return
+		}
+
+		const {
+			terminalOutputLineLimit = 500,
+			terminalOutputCharacterLimit = DEFAULT_TERMINAL_OUTPUT_CHARACTER_LIMIT,
+		} = (await task.providerRef.deref()?.getState()) ?? {}
+
+		const formatOutput = (output: string) =>
+			output
+				? `New output:\n${Terminal.compressTerminalOutput(output, terminalOutputLineLimit, terminalOutputCharacterLimit)}`
+				: "(No new output)"
+
+		switch (action as Exclude<BackgroundJobAction, "list">) {
+			case "read": {
+				task.consecutiveMistakeCount = 0
+				const output = TerminalRegistry.readBackgroundJobOutput(job.id)
+				pushToolResult(
+					`${describeBackgroundJob(TerminalRegistry.getBackgroundJob(job.id) ?? job)}\n${formatOutput(output)}`,
+				)
+				break
+			}
+			case "wait": {
+				if (!block.params.pattern) {
+					task.consecutiveMistakeCount++
+					task.recordToolError("background_job")
+					pushToolResult(await task.sayAndCreateMissingParamError("background_job", "pattern"))
+					return
+				}
+
+				let pattern: RegExp
+
+				try {
+					pattern = new RegExp(block.params.pattern)
+				} catch (error) {
+					task.consecutiveMistakeCount++
+					task.recordToolError("background_job")
+					pushToolResult(
+						formatResponse.toolError(
+							`Invalid pattern: ${error instanceof Error ? error.message : String(error)}`,
+						),
+					)
+					return
+				}
+
+				task.consecutiveMistakeCount = 0
+
+				const timeoutSeconds = Math.min(
+					Number(block.params.timeout) || DEFAULT_WAIT_TIMEOUT_SECONDS,
+					MAX_WAIT_TIMEOUT_SECONDS,
+				)
+
+				const { matched, output } = await TerminalRegistry.waitForBackgroundJobOutput(
+					job.id,
+					pattern,
+					timeoutSeconds * 1000,
+				)
+
+				const current = TerminalRegistry.getBackgroundJob(job.id) ?? job
+
+				const outcome = matched
+					? `The output matched /${pattern.source}/.`
+					: current.status !== "running"
+						? `The job finished before its output matched /${pattern.source}/.`
+						: `The output did not match /${pattern.source}/ within ${timeoutSeconds}s.`
+
+				pushToolResult(`${outcome}\n${describeBackgroundJob(current)}\n${formatOutput(output)}`)
+				break
+			}
+			case "kill": {
+				task.consecutiveMistakeCount = 0
+
+				if (job.status !== "running") {
+					pushToolResult(`Background job ${job.id} is not running.\n${describeBackgroundJob(job)}`)
+					break
+				}
+
+				const toolMessage: ClineSayTool = {
+					tool: "killBackgroundJob",
+					jobId: job.id,
+					command: job.command,
+					path: job.cwd.toPosix(),
+				}
+
+				const didApprove = await askApproval("tool", JSON.stringify(toolMessage))
+
+				if (!didApprove) {
+					return
+				}
+
+				if (TerminalRegistry.killBackgroundJob(job.id)) {
+					pushToolResult(`Killed background job ${job.id}.`)
+				} else {
+					pushToolResult(`Background job ${job.id} is not running.\n${describeBackgroundJob(job)}`)
+				}
+
+				break
+			}
+		}
+	} catch (error) {
+		await handleError("managing background job", error)
+	}
+}
+
+function listBackgroundJobs(taskId: string): string {
+	const jobs = TerminalRegistry.getBackgroundJobs(taskId)
+
+	if (jobs.length === 0) {
+		return "There are no background jobs. Start one with execute_command and background set to true."
+	}
+
+	return jobs
+		.map(
+			(job) =>
+				`- ${describeBackgroundJob(job)}${TerminalRegistry.hasUnreadBackgroundJobOutput(job.id) ? " (has new output)" : ""}`,
+		)
+		.join("\n")
+}
+
+export function describeBackgroundJob(job: BackgroundJob): string {
+	const status =
+		job.status === "exited" && job.exitCode !== undefined ? `exited with code ${job.exitCode}` : job.status
+
+	return `Job ${job.id} (${status}): \`${job.command}\` in '${job.cwd.toPosix()}'`
+}
@@ -34,6 +34,29 @@ function toStringlyTyped_kilocode(value: string | number[] | object | null | und
 	return undefined
 }
 
+// kilocode_change start
+function getMissingSelectorActionParam_kilocode(
+	action: BrowserAction,
+	selector: string | undefined,
+	text: string | undefined,
+): string | undefined {
+	switch (action) {
+		case "fill":
+			// An empty text clears the field
+			return !selector ? "selector" : text === undefined ? "text" : undefined
+		case "select":
+			return !selector ? "selector" : !text ? "text" : undefined
+		case "press":
+		case "evaluate":
+			return !text ? "text" : undefined
+		case "wait_for":
+			return !selector && !text ? "selector" : undefined
+		default:
+			return undefined
+	}
+}
+// kilocode_change end
+
 export async function browserActionTool(
 	cline: Task,
 	block: ToolUse,
@@ -47,6 +70,10 @@ export async function browserActionTool(
 	const coordinate: string | undefined = toStringlyTyped_kilocode(block.params.coordinate)
 	const text: string | undefined = block.params.text
 	const size: string | undefined = toStringlyTyped_kilocode(block.params.size)
+	// kilocode_change start
+	const selector: string | undefined = block.params.selector
+	const status: string | undefined = block.params.status
+	// kilocode_change end
 
 	if (!action || !browserActions.includes(action)) {
 		// checking for action to ensure it is complete and valid
@@ -72,6 +99,11 @@ export async function browserActionTool(
 						action: action as BrowserAction,
 						coordinate: removeClosingTag("coordinate", coordinate),
 						text: removeClosingTag("text", text),
+						// kilocode_change start
+						selector: removeClosingTag("selector", selector),
+						url: action === "network_log" ? removeClosingTag("url", url) : undefined,
+						status: removeClosingTag("status", status),
+						// kilocode_change end
 					} satisfies ClineSayBrowserAction),
 					undefined,
 					block.partial,
@@ -82,6 +114,9 @@ export async function browserActionTool(
 			// Initialize with empty object to avoid "used before assigned" errors
 			let browserActionResult: BrowserActionResult = {}
 
+			// kilocode_change: models that can't see screenshots get an accessibility snapshot after every action
+			cline.browserSession.setSnapshotMode(!(cline.api.getModel().info.supportsImages ?? false))
+
 			if (action === "launch") {
 				if (!url) {
 					cline.consecutiveMistakeCount++
@@ -107,7 +142,8 @@ export async function browserActionTool(
 				browserActionResult = await cline.browserSession.navigateToUrl(url)
 			} else {
 				if (action === "click" || action === "hover") {
-					if (!coordinate) {
+					if (!coordinate && !selector) {
+						// kilocode_change: elements can also be targeted by selector
 						cline.consecutiveMistakeCount++
 						cline.recordToolError("browser_action")
 						pushToolResult(await cline.sayAndCreateMissingParamError("browser_action", "coordinate"))
@@ -136,6 +172,18 @@ export async function browserActionTool(
 					}
 				}
 
+				// kilocode_change start
+				const missingParam = getMissingSelectorActionParam_kilocode(action, selector, text)
+
+				if (missingParam) {
+					cline.consecutiveMistakeCount++
+					cline.recordToolError("browser_action")
+					pushToolResult(await cline.sayAndCreateMissingParamError("browser_action", missingParam))
+					await cline.browserSession.closeBrowser()
+					return
+				}
+				// kilocode_change end
+
 				cline.consecutiveMistakeCount = 0
 
 				await cline.say(
@@ -144,18 +192,29 @@ export async function browserActionTool(
 						action: action as BrowserAction,
 						coordinate,
 						text,
+						// kilocode_change start
+						selector,
+						url: action === "network_log" ? url : undefined,
+						status,
+						// kilocode_change end
 					} satisfies ClineSayBrowserAction),
 					undefined,
 					false,
 				)
 
 				switch (action) {
+					// kilocode_change start
 					case "click":
-						browserActionResult = await cline.browserSession.click(coordinate!)
+						browserActionResult = selector
+							? await cline.browserSession.clickElement(selector)
+							: await cline.browserSession.click(coordinate!)
 						break
 					case "hover":
-						browserActionResult = await cline.browserSession.hover(coordinate!)
+						browserActionResult = selector
+							? await cline.browserSession.hoverElement(selector)
+							: await cline.browserSession.hover(coordinate!)
 						break
+					// kilocode_change end
 					case "type":
 						browserActionResult = await cline.browserSession.type(text!)
 						break
@@ -171,6 +230,29 @@ export async function browserActionTool(
 					case "close":
 						browserActionResult = await cline.browserSession.closeBrowser()
 						break
+					// kilocode_change start
+					case "snapshot":
+						browserActionResult = await cline.browserSession.snapshot()
+						break
+					case "fill":
+						browserActionResult = await cline.browserSession.fill(selector!, text!)
+						break
+					case "select":
+						browserActionResult = await cline.browserSession.select(selector!, text!)
+						break
+					case "press":
+						browserActionResult = await cline.browserSession.press(text!, selector)
+						break
+					case "wait_for":
+						browserActionResult = await cline.browserSession.waitFor(selector, text)
+						break
+					case "evaluate":
+						browserActionResult = await cline.browserSession.evaluate(text!)
+						break
+					case "network_log":
+						browserActionResult = await cline.browserSession.queryNetworkLog({ urlPattern: url, status })
+						break
+					// kilocode_change end
 				}
 			}
 
@@ -182,6 +264,31 @@ export async function browserActionTool(
 				case "scroll_down":
 				case "scroll_up":
 				case "resize":
+				case "snapshot": // kilocode_change
+				case "fill": // kilocode_change
+				case "select": // kilocode_change
+				case "press": // kilocode_change
+				case "wait_for": // kilocode_change
+				case "evaluate": // kilocode_change
+					// kilocode_change start
+					if (browserActionResult.snapshot !== undefined) {
+						await cline.say("browser_action_result", JSON.stringify(browserActionResult))
+
+						pushToolResult(
+							formatResponse.toolResult(
+								`The browser action has been executed. The console logs and an accessibility snapshot of the page have been captured for your analysis. Use the element refs of the snapshot (e.g. e12) as the \`selector\` of later actions.${
+									browserActionResult.evaluationResult !== undefined
+										? `\n\nEvaluation result:\n${browserActionResult.evaluationResult}`
+										: ""
+								}\n\nConsole logs:\n${
+									browserActionResult.logs || "(No new logs)"
+								}\n\nAccessibility snapshot:\n${browserActionResult.snapshot}\n\n(REMEMBER: if you need to proceed to using non-\`browser_action\` tools or launch a new browser, you MUST first close cline browser. For example, if after analyzing the logs and snapshot you need to edit a file, you must first close the browser before you can use the write_to_file tool.)`,
+							),
+						)
+
+						break
+					}
+					// kilocode_change end
 					await cline.say("browser_action_result", JSON.stringify(browserActionResult))
 
 					pushToolResult(
@@ -202,6 +309,19 @@ export async function browserActionTool(
 					)
 
 					break
+				// kilocode_change start
+				case "network_log":
+					await cline.say("browser_action_result", JSON.stringify(browserActionResult))
+
+					pushToolResult(
+						formatResponse.toolResult(
+							browserActionResult.networkLog ??
+								`The network log could not be queried.\n\n${browserActionResult.logs ?? ""}`.trim(),
+						),
+					)
+
+					break
+				// kilocode_change end
 			}
 
 			return
@@ -15,6 +15,7 @@ import { unescapeHtmlEntities } from "../../utils/text-normalization"
 import { ExitCodeDetails, RooTerminalCallbacks, RooTerminalProcess } from "../../integrations/terminal/types"
 import { TerminalRegistry } from "../../integrations/terminal/TerminalRegistry"
 import { Terminal } from "../../integrations/terminal/Terminal"
+import { isSandboxAvailable, type SandboxOptions } from "../../integrations/terminal/sandbox" // kilocode_change
 import { Package } from "../../shared/package"
 import { t } from "../../i18n"
 
@@ -30,6 +31,10 @@ export async function executeCommandTool(
 ) {
 	let command: string | undefined = block.params.command
 	const customCwd: string | undefined = block.params.cwd
+	// kilocode_change start
+	const backgroundRaw: string | boolean | null | undefined = block.params.background
+	const background = typeof backgroundRaw === "boolean" ? backgroundRaw : backgroundRaw?.toLowerCase() === "true"
+	// kilocode_change end
 
 	try {
 		if (block.partial) {
@@ -68,6 +73,8 @@ export async function executeCommandTool(
 				terminalOutputLineLimit = 500,
 				terminalOutputCharacterLimit = DEFAULT_TERMINAL_OUTPUT_CHARACTER_LIMIT,
 				terminalShellIntegrationDisabled = false,
+				terminalSandboxModes = [], // kilocode_change
+				terminalSandboxNetworkEnabled = false, // kilocode_change
 			} = providerState ?? {}
 
 			// Get command execution timeout from VSCode configuration (in seconds)
@@ -94,8 +101,21 @@ export async function executeCommandTool(
 				terminalOutputLineLimit,
 				terminalOutputCharacterLimit,
 				commandExecutionTimeout,
+				// kilocode_change start
+				sandbox:
+					terminalSandboxModes.length > 0 && terminalSandboxModes.includes(await task.getTaskMode())
+						? { workspacePath: task.cwd, networkEnabled: terminalSandboxNetworkEnabled }
+						: undefined,
+				// kilocode_change end
 			}
 
+			// kilocode_change start
+			if (background) {
+				pushToolResult(await executeBackgroundCommand(task, options))
+				return
+			}
+			// kilocode_change end
+
 			try {
 				const [rejected, result] = await executeCommand(task, options)
 
@@ -141,8 +161,61 @@ export type ExecuteCommandOptions = {
 	terminalOutputLineLimit?: number
 	terminalOutputCharacterLimit?: number
 	commandExecutionTimeout?: number
+	sandbox?: SandboxOptions // kilocode_change
+}
+
+// kilocode_change start
+/**
+ * Starts the command as a background job and returns right away, the model
+ * follows up on the job with the background_job tool.
+ */
+export async function executeBackgroundCommand(
+	task: Task,
+	{ command, customCwd, terminalShellIntegrationDisabled = true, sandbox }: ExecuteCommandOptions,
+): Promise<ToolResponse> {
+	const workingDir = !customCwd
+		? task.cwd
+		: path.isAbsolute(customCwd)
+			? customCwd
+			: path.resolve(task.cwd, customCwd)
+
+	try {
+		await fs.access(workingDir)
+	} catch (error) {
+		return `Working directory '${workingDir}' does not exist.`
+	}
+
+	if (sandbox && !(await isSandboxAvailable())) {
+		return await refuseUnsandboxedCommand(task)
+	}
+
+	const job = TerminalRegistry.startBackgroundJob(
+		command,
+		workingDir,
+		sandbox ? "sandbox" : terminalShellIntegrationDisabled ? "execa" : "vscode",
+		task.taskId,
+		sandbox,
+	)
+
+	return [
+		`Started background job ${job.id} running \`${command}\` in '${job.cwd.toPosix()}'.`,
+		`Use the background_job tool with job_id ${job.id} to read its new output, wait for output matching a pattern, or kill it.`,
+	].join("\n")
 }
 
+/**
+ * Modes that must use the sandbox never fall back to running commands on the
+ * host.
+ */
+async function refuseUnsandboxedCommand(task: Task): Promise<ToolResponse> {
+	await task.say("error", t("common:errors.sandbox_unavailable"))
+
+	return formatResponse.toolError(
+		"The command was not executed: this mode requires commands to run in a sandbox, but bubblewrap (bwrap) is not available on this system. Do not try to re-run the command.",
+	)
+}
+// kilocode_change end
+
 export async function executeCommand(
 	task: Task,
 	{
@@ -153,6 +226,7 @@ export async function executeCommand(
 		terminalOutputLineLimit = 500,
 		terminalOutputCharacterLimit = DEFAULT_TERMINAL_OUTPUT_CHARACTER_LIMIT,
 		commandExecutionTimeout = 0,
+		sandbox, // kilocode_change
 	}: ExecuteCommandOptions,
 ): Promise<[boolean, ToolResponse]> {
 	// Convert milliseconds back to seconds for display purposes.
@@ -173,6 +247,12 @@ export async function executeCommand(
 		return [false, `Working directory '${workingDir}' does not exist.`]
 	}
 
+	// kilocode_change start
+	if (sandbox && !(await isSandboxAvailable())) {
+		return [false, await refuseUnsandboxedCommand(task)]
+	}
+	// kilocode_change end
+
 	let message: { text?: string; images?: string[] } | undefined
 	let runInBackground = false
 	let completed = false
@@ -180,7 +260,8 @@ export async function executeCommand(
 	let exitDetails: ExitCodeDetails | undefined
 	let shellIntegrationError: string | undefined
 
-	const terminalProvider = terminalShellIntegrationDisabled ? "execa" : "vscode"
+	// kilocode_change: sandbox
+	const terminalProvider = sandbox ? "sandbox" : terminalShellIntegrationDisabled ? "execa" : "vscode"
 	const provider = await task.providerRef.deref()
 
 	let accumulatedOutput = ""
@@ -238,7 +319,7 @@ export async function executeCommand(
 		}
 	}
 
-	const terminal = await TerminalRegistry.getOrCreateTerminal(workingDir, task.taskId, terminalProvider)
+	const terminal = await TerminalRegistry.getOrCreateTerminal(workingDir, task.taskId, terminalProvider, sandbox) // kilocode_change
 
 	if (terminal instanceof Terminal) {
 		terminal.terminal.show(true)
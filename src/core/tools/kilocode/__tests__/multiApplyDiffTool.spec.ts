@@ -386,5 +386,75 @@ new content
 				expect(mockHandleError).not.toHaveBeenCalled()
 			})
 		})
+
+		describe("Batch approval", () => {
+			const diff = "<<<<<<< SEARCH\nold\n=======\nnew\n>>>>>>> REPLACE"
+
+			beforeEach(() => {
+				mockBlock = {
+					name: "apply_diff",
+					params: {
+						files: [
+							{ path: "a.ts", diffs: [{ content: diff }] },
+							{ path: "b.ts", diffs: [{ content: diff }] },
+						],
+					},
+					partial: false,
+				}
+			})
+
+			it("should flag the batch ask as requiring approval when the mode requires it", async () => {
+				mockProvider.getState.mockResolvedValue({
+					mode: "restricted",
+					customModes: [
+						{
+							slug: "restricted",
+							name: "Restricted",
+							roleDefinition: "Restricted",
+							groups: ["edit"],
+							requireApproval: ["apply_diff"],
+						},
+					],
+				})
+
+				await applyDiffTool(
+					mockCline,
+					mockBlock,
+					mockAskApproval,
+					mockHandleError,
+					mockPushToolResult,
+					mockRemoveClosingTag,
+				)
+
+				expect(mockCline.ask).toHaveBeenCalledWith(
+					"tool",
+					expect.stringContaining('"batchDiffs"'),
+					false,
+					undefined,
+					false,
+					true,
+				)
+			})
+
+			it("should not flag the batch ask when the mode does not require approval", async () => {
+				await applyDiffTool(
+					mockCline,
+					mockBlock,
+					mockAskApproval,
+					mockHandleError,
+					mockPushToolResult,
+					mockRemoveClosingTag,
+				)
+
+				expect(mockCline.ask).toHaveBeenCalledWith(
+					"tool",
+					expect.stringContaining('"batchDiffs"'),
+					false,
+					undefined,
+					false,
+					false,
+				)
+			})
+		})
 	})
 })
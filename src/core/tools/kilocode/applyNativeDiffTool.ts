@@ -13,6 +13,7 @@ import { fileExistsAtPath } from "../../../utils/fs"
 import { RecordSource } from "../../context-tracking/FileContextTrackerTypes"
 import { unescapeHtmlEntities } from "../../../utils/text-normalization"
 import { EXPERIMENT_IDS, experiments } from "../../../shared/experiments"
+import { defaultModeSlug, isApprovalRequiredForMode } from "../../../shared/modes"
 import { DiffOperation, OperationResult } from "../multiApplyDiffTool"
 
 // Native tool format types for JSON-based tool calls
@@ -223,7 +224,21 @@ Failed to parse apply_diff JSON arguments. This usually means:
 				isProtected: hasProtectedFiles,
 			} satisfies ClineSayTool)
 
-			const { response, text, images } = await cline.ask("tool", completeMessage, hasProtectedFiles)
+			// The batch is not asked through askApproval, so pass on the approval the mode requires
+			const state = await cline.providerRef.deref()?.getState()
+			const requiresApproval = isApprovalRequiredForMode(
+				block.name,
+				state?.mode ?? defaultModeSlug,
+				state?.customModes ?? [],
+			)
+			const { response, text, images } = await cline.ask(
+				"tool",
+				completeMessage,
+				hasProtectedFiles,
+				undefined,
+				hasProtectedFiles,
+				requiresApproval,
+			)
 
 			// Process batch response
 			if (response === "yesButtonClicked") {
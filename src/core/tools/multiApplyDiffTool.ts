@@ -17,6 +17,7 @@ import { RecordSource } from "../context-tracking/FileContextTrackerTypes"
 import { unescapeHtmlEntities } from "../../utils/text-normalization"
 import { parseXmlForDiff } from "../../utils/xml"
 import { EXPERIMENT_IDS, experiments } from "../../shared/experiments"
+import { defaultModeSlug, isApprovalRequiredForMode } from "../../shared/modes" // kilocode_change
 import { applyDiffToolLegacy } from "./applyDiffTool"
 import { applyNativeDiffTool } from "./kilocode/applyNativeDiffTool"
 
@@ -328,7 +329,22 @@ Original error: ${errorMessage}`
 				isProtected: hasProtectedFiles,
 			} satisfies ClineSayTool)
 
-			const { response, text, images } = await cline.ask("tool", completeMessage, hasProtectedFiles)
+			// kilocode_change start: the batch is not asked through askApproval, so pass on the approval the mode requires
+			const state = await cline.providerRef.deref()?.getState()
+			const requiresApproval = isApprovalRequiredForMode(
+				block.name,
+				state?.mode ?? defaultModeSlug,
+				state?.customModes ?? [],
+			)
+			const { response, text, images } = await cline.ask(
+				"tool",
+				completeMessage,
+				hasProtectedFiles,
+				undefined,
+				hasProtectedFiles,
+				requiresApproval,
+			)
+			// kilocode_change end
 
 			// Process batch response
 			if (response === "yesButtonClicked") {
@@ -5,6 +5,7 @@ import { Task } from "../task/Task"
 import { ClineSayTool } from "../../shared/ExtensionMessage"
 import { formatResponse } from "../prompts/responses"
 import { t } from "../../i18n"
+import { defaultModeSlug, isApprovalRequiredForMode } from "../../shared/modes" // kilocode_change
 import { ToolUse, AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "../../shared/tools"
 import { RecordSource } from "../context-tracking/FileContextTrackerTypes"
 import { isPathOutsideWorkspace } from "../../utils/pathUtils"
@@ -218,9 +219,14 @@ export async function readFileTool(
 		}
 	}
 
-	// kilocode_change start: yolo mode
+	// kilocode_change start: yolo mode, unless the mode requires approving the tool
 	const state = await cline.providerRef.deref()?.getState()
-	const isYoloMode = state?.yoloMode ?? false
+	const requiresApproval = isApprovalRequiredForMode(
+		block.name,
+		state?.mode ?? defaultModeSlug,
+		state?.customModes ?? [],
+	)
+	const isYoloMode = (state?.yoloMode ?? false) && !requiresApproval
 	// kilocode_change end
 
 	try {
@@ -324,7 +330,7 @@ export async function readFileTool(
 			// kilocode_change start: yolo mode
 			const { response, text, images } = isYoloMode
 				? { response: "yesButtonClicked" }
-				: await cline.ask("tool", completeMessage, false)
+				: await cline.ask("tool", completeMessage, false, undefined, false, requiresApproval)
 			// kilocode_change end
 
 			// Process batch response
@@ -428,7 +434,7 @@ export async function readFileTool(
 			// kilocode_change start: yolo mode
 			const { response, text, images } = isYoloMode
 				? { response: "yesButtonClicked" }
-				: await cline.ask("tool", completeMessage, false)
+				: await cline.ask("tool", completeMessage, false, undefined, false, requiresApproval)
 			// kilocode_change end
 
 			if (response !== "yesButtonClicked") {
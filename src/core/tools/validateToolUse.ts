@@ -8,8 +8,21 @@ export function validateToolUse(
 	customModes?: ModeConfig[],
 	toolRequirements?: Record<string, boolean>,
 	toolParams?: Record<string, unknown>,
+	isPartial?: boolean, // kilocode_change
+	cwd?: string, // kilocode_change
 ): void {
-	if (!isToolAllowedForMode(toolName, mode, customModes ?? [], toolRequirements, toolParams)) {
+	if (
+		!isToolAllowedForMode(
+			toolName,
+			mode,
+			customModes ?? [],
+			toolRequirements,
+			toolParams ?? {}, // kilocode_change: the tool policies only apply to calls with parameters
+			undefined,
+			isPartial, // kilocode_change
+			cwd, // kilocode_change
+		)
+	) {
 		throw new Error(`Tool "${toolName}" is not allowed in ${mode} mode.`)
 	}
 }
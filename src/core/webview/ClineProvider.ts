@@ -33,6 +33,7 @@ import {
 	type CloudOrganizationMembership,
 	type CreateTaskOptions,
 	type TokenUsage,
+	type AutoPurgeSettings, // kilocode_change
 	RooCodeEventName,
 	requestyDefaultModelId,
 	openRouterDefaultModelId,
@@ -59,6 +60,7 @@ import { EMBEDDING_MODEL_PROFILES } from "../../shared/embeddingModels"
 import { ProfileValidator } from "../../shared/ProfileValidator"
 
 import { Terminal } from "../../integrations/terminal/Terminal"
+import { TerminalRegistry } from "../../integrations/terminal/TerminalRegistry" // kilocode_change
 import { downloadTask } from "../../integrations/misc/export-markdown"
 import { getTheme } from "../../integrations/theme/getTheme"
 import WorkspaceTracker from "../../integrations/workspace/WorkspaceTracker"
@@ -69,6 +71,7 @@ import { MarketplaceManager } from "../../services/marketplace"
 import { ShadowCheckpointService } from "../../services/checkpoints/ShadowCheckpointService"
 import { CodeIndexManager } from "../../services/code-index/manager"
 import type { IndexProgressUpdate } from "../../services/code-index/interfaces/manager"
+import { getAvailableEmbeddingModelProfiles } from "../../services/code-index/embedders/local" // kilocode_change
 import { MdmService } from "../../services/mdm/MdmService"
 
 import { fileExistsAtPath } from "../../utils/fs"
@@ -82,6 +85,7 @@ import { setPanel } from "../../activate/registerCommands"
 import { t } from "../../i18n"
 
 import { buildApiHandler } from "../../api"
+import { withTaskCassetteRecording } from "../../api/providers/kilocode/cassette" // kilocode_change
 import { forceFullModelDetailsLoad, hasLoadedFullDetails } from "../../api/providers/fetchers/lmstudio"
 
 import { ContextProxy } from "../config/ContextProxy"
@@ -94,6 +98,12 @@ import { getSystemPromptFilePath } from "../prompts/sections/custom-system-promp
 import { webviewMessageHandler } from "./webviewMessageHandler"
 import type { ClineMessage } from "@roo-code/types"
 import { readApiMessages, saveApiMessages, saveTaskMessages } from "../task-persistence"
+import {
+	TASK_BUNDLE_EXTENSION,
+	createTaskBundle,
+	readTaskBundle,
+	restoreTaskBundle,
+} from "../task-persistence/taskBundle" // kilocode_change
 import { getNonce } from "./getNonce"
 import { getUri } from "./getUri"
 
@@ -107,6 +117,7 @@ import { getKilocodeDefaultModel } from "../../api/providers/kilocode/getKilocod
 import { getKiloCodeWrapperProperties } from "../../core/kilocode/wrapper"
 import { getKiloUrlFromToken } from "@roo-code/types" // kilocode_change
 import { getKilocodeConfig, getWorkspaceProjectId, KilocodeConfig } from "../../utils/kilo-config-file" // kilocode_change
+import { hasCostBudget } from "../task/CostBudget" // kilocode_change
 
 export type ClineProviderState = Awaited<ReturnType<ClineProvider["getState"]>>
 // kilocode_change end
@@ -178,7 +189,7 @@ export class ClineProvider
 		ClineProvider.activeInstances.add(this)
 
 		this.mdmService = mdmService
-		this.updateGlobalState("codebaseIndexModels", EMBEDDING_MODEL_PROFILES)
+		this.updateGlobalState("codebaseIndexModels", getAvailableEmbeddingModelProfiles(this.context.extensionPath)) // kilocode_change
 
 		// Start configuration loading (which might trigger indexing) in the background.
 		// Don't await, allowing activation to continue immediately.
@@ -308,6 +319,10 @@ export class ClineProvider
 		// kilocode_change start - Initialize auto-purge scheduler
 		this.initializeAutoPurgeScheduler()
 		// kilocode_change end
+
+		// kilocode_change start
+		this.disposables.push(TerminalRegistry.onDidChangeBackgroundJobs(() => this.postStateToWebview()))
+		// kilocode_change end
 	}
 
 	// kilocode_change start
@@ -321,17 +336,7 @@ export class ClineProvider
 
 			// Start the scheduler with functions to get current settings and task history
 			this.autoPurgeScheduler.start(
-				async () => {
-					const state = await this.getState()
-					return {
-						enabled: state.autoPurgeEnabled ?? false,
-						defaultRetentionDays: state.autoPurgeDefaultRetentionDays ?? 30,
-						favoritedTaskRetentionDays: state.autoPurgeFavoritedTaskRetentionDays ?? null,
-						completedTaskRetentionDays: state.autoPurgeCompletedTaskRetentionDays ?? 30,
-						incompleteTaskRetentionDays: state.autoPurgeIncompleteTaskRetentionDays ?? 7,
-						lastRunTimestamp: state.autoPurgeLastRunTimestamp,
-					}
-				},
+				() => this.getAutoPurgeSettings(),
 				async () => {
 					return this.getTaskHistory()
 				},
@@ -349,6 +354,36 @@ export class ClineProvider
 			)
 		}
 	}
+
+	async getAutoPurgeSettings(): Promise<AutoPurgeSettings> {
+		const state = await this.getState()
+		return {
+			enabled: state.autoPurgeEnabled ?? false,
+			defaultRetentionDays: state.autoPurgeDefaultRetentionDays ?? 30,
+			favoritedTaskRetentionDays: state.autoPurgeFavoritedTaskRetentionDays ?? null,
+			completedTaskRetentionDays: state.autoPurgeCompletedTaskRetentionDays ?? 30,
+			incompleteTaskRetentionDays: state.autoPurgeIncompleteTaskRetentionDays ?? 7,
+			storageQuotaMb: state.autoPurgeStorageQuotaMb ?? null,
+			maxCheckpointSizeMb: state.autoPurgeMaxCheckpointSizeMb ?? null,
+			lastRunTimestamp: state.autoPurgeLastRunTimestamp,
+		}
+	}
+
+	/**
+	 * Open a report of what the auto-purge would delete with the current settings
+	 */
+	async previewAutoPurge() {
+		const { AutoPurgeScheduler, formatPurgeReport } = await import("../../services/auto-purge")
+		const settings = await this.getAutoPurgeSettings()
+		const scheduler = new AutoPurgeScheduler(this.contextProxy.globalStorageUri.fsPath)
+		const result = await scheduler.previewPurge(settings, this.getTaskHistory(), this.getCurrentTask()?.taskId)
+
+		const document = await vscode.workspace.openTextDocument({
+			content: formatPurgeReport(settings, result),
+			language: "markdown",
+		})
+		await vscode.window.showTextDocument(document, { preview: true })
+	}
 	// kilocode_change end
 
 	/**
@@ -1409,7 +1444,7 @@ ${prompt}
 				const task = this.getCurrentTask()
 
 				if (task) {
-					task.api = buildApiHandler(providerSettings)
+					task.api = this.buildTaskApiHandler(task, providerSettings) // kilocode_change
 				}
 
 				await TelemetryService.instance.updateIdentity(providerSettings.kilocodeToken ?? "") // kilocode_change
@@ -1472,7 +1507,7 @@ ${prompt}
 		const task = this.getCurrentTask()
 
 		if (task) {
-			task.api = buildApiHandler(providerSettings)
+			task.api = this.buildTaskApiHandler(task, providerSettings) // kilocode_change
 		}
 
 		await this.postStateToWebview()
@@ -1618,13 +1653,25 @@ ${prompt}
 		vscode.window.showInformationMessage("Kilo Code successfully configured!")
 
 		if (this.getCurrentTask()) {
-			this.getCurrentTask()!.api = buildApiHandler({
+			// kilocode_change start
+			this.getCurrentTask()!.api = this.buildTaskApiHandler(this.getCurrentTask()!, {
 				apiProvider: kilocode,
 				kilocodeToken: token,
 			})
+			// kilocode_change end
 		}
 	}
 
+	// kilocode_change start
+	private buildTaskApiHandler(task: Task, providerSettings: ProviderSettings) {
+		return withTaskCassetteRecording(
+			buildApiHandler(providerSettings),
+			this.contextProxy.globalStorageUri.fsPath,
+			task.taskId,
+		)
+	}
+	// kilocode_change end
+
 	// Task history
 
 	async getTaskWithId(id: string): Promise<{
@@ -1671,7 +1718,7 @@ ${prompt}
 		throw new Error("Task not found")
 	}
 
-	async showTaskWithId(id: string) {
+	async showTaskWithId(id: string, messageTs?: number /* kilocode_change */) {
 		if (id !== this.getCurrentTask()?.taskId) {
 			// Non-current task.
 			const { historyItem } = await this.getTaskWithId(id)
@@ -1679,6 +1726,11 @@ ${prompt}
 		}
 
 		await this.postMessageToWebview({ type: "action", action: "chatButtonClicked" })
+		// kilocode_change start
+		if (messageTs) {
+			await this.postMessageToWebview({ type: "scrollToMessage", text: id, messageTs })
+		}
+		// kilocode_change end
 	}
 
 	async exportTaskWithId(id: string) {
@@ -1686,6 +1738,120 @@ ${prompt}
 		await downloadTask(historyItem.ts, apiConversationHistory)
 	}
 
+	// kilocode_change start
+	/**
+	 * Exports a task as a portable bundle. Without a path, the user picks the file and
+	 * whether the checkpoints are included.
+	 */
+	async exportTaskBundle(id: string, options: { bundlePath?: string; includeCheckpoints?: boolean } = {}) {
+		try {
+			const { historyItem } = await this.getTaskWithId(id)
+			let { bundlePath, includeCheckpoints } = options
+
+			if (!bundlePath) {
+				const saveUri = await vscode.window.showSaveDialog({
+					filters: { [t("kilocode:taskBundle.fileType")]: [TASK_BUNDLE_EXTENSION] },
+					defaultUri: vscode.Uri.file(
+						path.join(
+							os.homedir(),
+							"Downloads",
+							`kilo_code_task_${id.slice(0, 8)}.${TASK_BUNDLE_EXTENSION}`,
+						),
+					),
+				})
+				if (!saveUri) {
+					return
+				}
+				bundlePath = saveUri.fsPath
+
+				if (includeCheckpoints === undefined) {
+					const withCheckpoints = t("kilocode:taskBundle.withCheckpoints")
+					const choice = await vscode.window.showQuickPick(
+						[withCheckpoints, t("kilocode:taskBundle.withoutCheckpoints")],
+						{ placeHolder: t("kilocode:taskBundle.includeCheckpoints") },
+					)
+					if (!choice) {
+						return
+					}
+					includeCheckpoints = choice === withCheckpoints
+				}
+			}
+
+			const bundle = await createTaskBundle({
+				historyItem,
+				globalStoragePath: this.contextProxy.globalStorageUri.fsPath,
+				includeCheckpoints: includeCheckpoints ?? false,
+			})
+			await fs.writeFile(bundlePath, bundle)
+
+			vscode.window.showInformationMessage(t("kilocode:taskBundle.exported", { path: bundlePath }))
+			await this.postMessageToWebview({
+				type: "taskBundleResult",
+				success: true,
+				text: bundlePath,
+				values: { operation: "export" },
+			})
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error)
+			this.log(`Error exporting task bundle: ${message}`)
+			vscode.window.showErrorMessage(t("kilocode:taskBundle.exportFailed", { error: message }))
+			await this.postMessageToWebview({
+				type: "taskBundleResult",
+				success: false,
+				error: message,
+				values: { operation: "export" },
+			})
+		}
+	}
+
+	/**
+	 * Imports a task bundle into the history of the current workspace and opens the task
+	 */
+	async importTaskBundle(bundlePath?: string) {
+		try {
+			if (!bundlePath) {
+				const uris = await vscode.window.showOpenDialog({
+					filters: { [t("kilocode:taskBundle.fileType")]: [TASK_BUNDLE_EXTENSION] },
+					canSelectMany: false,
+				})
+				if (!uris?.[0]) {
+					return
+				}
+				bundlePath = uris[0].fsPath
+			}
+
+			const bundle = await readTaskBundle(await fs.readFile(bundlePath))
+			const historyItem = await restoreTaskBundle({
+				bundle,
+				globalStoragePath: this.contextProxy.globalStorageUri.fsPath,
+				workspace: this.cwd,
+				taskHistory: this.getTaskHistory(),
+			})
+			const taskId = historyItem.id
+			await this.updateTaskHistory(historyItem)
+
+			vscode.window.showInformationMessage(t("kilocode:taskBundle.imported", { task: historyItem.task }))
+			await this.postMessageToWebview({
+				type: "taskBundleResult",
+				success: true,
+				text: taskId,
+				values: { operation: "import" },
+			})
+			await this.showTaskWithId(taskId)
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error)
+			this.log(`Error importing task bundle: ${message}`)
+			vscode.window.showErrorMessage(t("kilocode:taskBundle.importFailed", { error: message }))
+			await this.postMessageToWebview({
+				type: "taskBundleResult",
+				success: false,
+				error: message,
+				values: { operation: "import" },
+			})
+		}
+	}
+	// kilocode_change end
+
 	/* Condenses a task's message history to use fewer tokens. */
 	async condenseTaskContext(taskId: string) {
 		let task: Task | undefined
@@ -1924,6 +2090,8 @@ ${prompt}
 			alwaysAllowUpdateTodoList,
 			allowedMaxRequests,
 			allowedMaxCost,
+			taskCostBudget, // kilocode_change
+			workspaceDailyCostBudget, // kilocode_change
 			autoCondenseContext,
 			autoCondenseContextPercent,
 			soundEnabled,
@@ -1981,6 +2149,8 @@ ${prompt}
 			maxImageFileSize,
 			maxTotalImageSize,
 			terminalCompressProgressBar,
+			terminalSandboxModes, // kilocode_change
+			terminalSandboxNetworkEnabled, // kilocode_change
 			historyPreviewCollapsed,
 			reasoningBlockCollapsed,
 			cloudUserInfo,
@@ -1993,6 +2163,7 @@ ${prompt}
 			ghostServiceSettings, // kilocode_changes
 			condensingApiConfigId,
 			customCondensingPrompt,
+			condensingStrategy, // kilocode_change
 			codebaseIndexConfig,
 			codebaseIndexModels,
 			profileThresholds,
@@ -2017,7 +2188,9 @@ ${prompt}
 
 		// kilocode_change start: Get active model for virtual quota fallback UI display
 		const virtualQuotaActiveModel =
-			apiConfiguration?.apiProvider === "virtual-quota-fallback" && this.getCurrentTask()
+			(apiConfiguration?.apiProvider === "virtual-quota-fallback" ||
+				apiConfiguration?.apiProvider === "provider-router") &&
+			this.getCurrentTask()
 				? this.getCurrentTask()!.api.getModel()
 				: undefined
 		// kilocode_change end
@@ -2067,6 +2240,8 @@ ${prompt}
 			yoloMode: yoloMode ?? false, // kilocode_change
 			allowedMaxRequests,
 			allowedMaxCost,
+			taskCostBudget, // kilocode_change
+			workspaceDailyCostBudget, // kilocode_change
 			autoCondenseContext: autoCondenseContext ?? true,
 			autoCondenseContextPercent: autoCondenseContextPercent ?? 100,
 			uriScheme: vscode.env.uriScheme,
@@ -2081,6 +2256,12 @@ ${prompt}
 				: undefined,
 			clineMessages: this.getCurrentTask()?.clineMessages || [],
 			currentTaskTodos: this.getCurrentTask()?.todoList || [],
+			backgroundJobs: TerminalRegistry.getBackgroundJobs(), // kilocode_change
+			// kilocode_change start
+			costBudget: hasCostBudget({ taskCostBudget, workspaceDailyCostBudget })
+				? this.getCurrentTask()?.getCostBudgetStatus({ taskCostBudget, workspaceDailyCostBudget }, taskHistory)
+				: undefined,
+			// kilocode_change end
 			messageQueue: this.getCurrentTask()?.messageQueueService?.messages,
 			taskHistoryFullLength: taskHistory.length, // kilocode_change
 			taskHistoryVersion: this.kiloCodeTaskHistoryVersion, // kilocode_change
@@ -2149,6 +2330,8 @@ ${prompt}
 			allowVeryLargeReads: allowVeryLargeReads ?? false, // kilocode_change
 			settingsImportedAt: this.settingsImportedAt,
 			terminalCompressProgressBar: terminalCompressProgressBar ?? true,
+			terminalSandboxModes: terminalSandboxModes ?? [], // kilocode_change
+			terminalSandboxNetworkEnabled: terminalSandboxNetworkEnabled ?? false, // kilocode_change
 			hasSystemPromptOverride,
 			historyPreviewCollapsed: historyPreviewCollapsed ?? false,
 			reasoningBlockCollapsed: reasoningBlockCollapsed ?? true,
@@ -2163,10 +2346,12 @@ ${prompt}
 			organizationSettingsVersion,
 			condensingApiConfigId,
 			customCondensingPrompt,
+			condensingStrategy: condensingStrategy ?? "llmSummary", // kilocode_change
 			codebaseIndexModels: codebaseIndexModels ?? EMBEDDING_MODEL_PROFILES,
 			codebaseIndexConfig: {
 				codebaseIndexEnabled: codebaseIndexConfig?.codebaseIndexEnabled ?? true,
 				codebaseIndexQdrantUrl: codebaseIndexConfig?.codebaseIndexQdrantUrl ?? "http://localhost:6333",
+				codebaseIndexVectorStoreProvider: codebaseIndexConfig?.codebaseIndexVectorStoreProvider ?? "qdrant", // kilocode_change
 				codebaseIndexEmbedderProvider: codebaseIndexConfig?.codebaseIndexEmbedderProvider ?? "openai",
 				codebaseIndexEmbedderBaseUrl: codebaseIndexConfig?.codebaseIndexEmbedderBaseUrl ?? "",
 				codebaseIndexEmbedderModelId: codebaseIndexConfig?.codebaseIndexEmbedderModelId ?? "",
@@ -2174,6 +2359,7 @@ ${prompt}
 				codebaseIndexOpenAiCompatibleBaseUrl: codebaseIndexConfig?.codebaseIndexOpenAiCompatibleBaseUrl,
 				codebaseIndexSearchMaxResults: codebaseIndexConfig?.codebaseIndexSearchMaxResults,
 				codebaseIndexSearchMinScore: codebaseIndexConfig?.codebaseIndexSearchMinScore,
+				codebaseIndexSearchKeywordWeight: codebaseIndexConfig?.codebaseIndexSearchKeywordWeight, // kilocode_change
 			},
 			// Only set mdmCompliant if there's an actual MDM policy
 			// undefined means no MDM policy, true means compliant, false means non-compliant
@@ -2205,6 +2391,8 @@ ${prompt}
 			autoPurgeIncompleteTaskRetentionDays: await this.getState().then(
 				(s) => s.autoPurgeIncompleteTaskRetentionDays,
 			),
+			autoPurgeStorageQuotaMb: await this.getState().then((s) => s.autoPurgeStorageQuotaMb),
+			autoPurgeMaxCheckpointSizeMb: await this.getState().then((s) => s.autoPurgeMaxCheckpointSizeMb),
 			autoPurgeLastRunTimestamp: await this.getState().then((s) => s.autoPurgeLastRunTimestamp),
 			// kilocode_change end
 			kiloCodeImageApiKey,
@@ -2340,6 +2528,8 @@ ${prompt}
 			diagnosticsEnabled: stateValues.diagnosticsEnabled ?? true,
 			allowedMaxRequests: stateValues.allowedMaxRequests,
 			allowedMaxCost: stateValues.allowedMaxCost,
+			taskCostBudget: stateValues.taskCostBudget ?? null, // kilocode_change
+			workspaceDailyCostBudget: stateValues.workspaceDailyCostBudget ?? null, // kilocode_change
 			autoCondenseContext: stateValues.autoCondenseContext ?? true,
 			autoCondenseContextPercent: stateValues.autoCondenseContextPercent ?? 100,
 			// taskHistory: stateValues.taskHistory ?? [], // kilocode_change
@@ -2371,6 +2561,8 @@ ${prompt}
 			terminalZshP10k: stateValues.terminalZshP10k ?? false,
 			terminalZdotdir: stateValues.terminalZdotdir ?? false,
 			terminalCompressProgressBar: stateValues.terminalCompressProgressBar ?? true,
+			terminalSandboxModes: stateValues.terminalSandboxModes ?? [], // kilocode_change
+			terminalSandboxNetworkEnabled: stateValues.terminalSandboxNetworkEnabled ?? false, // kilocode_change
 			mode: stateValues.mode ?? defaultModeSlug,
 			language: stateValues.language ?? formatLanguage(vscode.env.language),
 			mcpEnabled: true, // kilocode_change: always true
@@ -2395,6 +2587,8 @@ ${prompt}
 			autoPurgeFavoritedTaskRetentionDays: stateValues.autoPurgeFavoritedTaskRetentionDays ?? null,
 			autoPurgeCompletedTaskRetentionDays: stateValues.autoPurgeCompletedTaskRetentionDays ?? 30,
 			autoPurgeIncompleteTaskRetentionDays: stateValues.autoPurgeIncompleteTaskRetentionDays ?? 7,
+			autoPurgeStorageQuotaMb: stateValues.autoPurgeStorageQuotaMb ?? null,
+			autoPurgeMaxCheckpointSizeMb: stateValues.autoPurgeMaxCheckpointSizeMb ?? null,
 			autoPurgeLastRunTimestamp: stateValues.autoPurgeLastRunTimestamp,
 			// kilocode_change end
 			experiments: stateValues.experiments ?? experimentDefault,
@@ -2429,11 +2623,16 @@ ${prompt}
 			organizationSettingsVersion,
 			condensingApiConfigId: stateValues.condensingApiConfigId,
 			customCondensingPrompt: stateValues.customCondensingPrompt,
+			condensingStrategy: stateValues.condensingStrategy, // kilocode_change
 			codebaseIndexModels: stateValues.codebaseIndexModels ?? EMBEDDING_MODEL_PROFILES,
 			codebaseIndexConfig: {
 				codebaseIndexEnabled: stateValues.codebaseIndexConfig?.codebaseIndexEnabled ?? true,
 				codebaseIndexQdrantUrl:
 					stateValues.codebaseIndexConfig?.codebaseIndexQdrantUrl ?? "http://localhost:6333",
+				// kilocode_change start
+				codebaseIndexVectorStoreProvider:
+					stateValues.codebaseIndexConfig?.codebaseIndexVectorStoreProvider ?? "qdrant",
+				// kilocode_change end
 				codebaseIndexEmbedderProvider:
 					stateValues.codebaseIndexConfig?.codebaseIndexEmbedderProvider ?? "openai",
 				codebaseIndexEmbedderBaseUrl: stateValues.codebaseIndexConfig?.codebaseIndexEmbedderBaseUrl ?? "",
@@ -2444,6 +2643,7 @@ ${prompt}
 					stateValues.codebaseIndexConfig?.codebaseIndexOpenAiCompatibleBaseUrl,
 				codebaseIndexSearchMaxResults: stateValues.codebaseIndexConfig?.codebaseIndexSearchMaxResults,
 				codebaseIndexSearchMinScore: stateValues.codebaseIndexConfig?.codebaseIndexSearchMinScore,
+				codebaseIndexSearchKeywordWeight: stateValues.codebaseIndexConfig?.codebaseIndexSearchKeywordWeight, // kilocode_change
 			},
 			profileThresholds: stateValues.profileThresholds ?? {},
 			includeDiagnosticMessages: stateValues.includeDiagnosticMessages ?? true,
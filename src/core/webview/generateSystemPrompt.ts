@@ -46,26 +46,26 @@ export const generateSystemPrompt = async (provider: ClineProvider, message: Web
 
 	const rooIgnoreInstructions = provider.getCurrentTask()?.rooIgnoreController?.getInstructions()
 
-	// Determine if browser tools can be used based on model support, mode, and user settings
-	let modelSupportsComputerUse = false
+	// kilocode_change start: models without image support use accessibility snapshots instead of screenshots, so
+	// every model supports the browser
+	let modelSupportsImages = false
 
-	// Create a temporary API handler to check if the model supports computer use
+	// Create a temporary API handler to check if the model supports images
 	// This avoids relying on an active Cline instance which might not exist during preview
 	try {
 		const tempApiHandler = buildApiHandler(apiConfiguration)
-		// kilocode_change: supports images => supports browser
-		modelSupportsComputerUse = tempApiHandler.getModel().info.supportsImages ?? false
+		modelSupportsImages = tempApiHandler.getModel().info.supportsImages ?? false
 	} catch (error) {
-		console.error("Error checking if model supports computer use:", error)
+		console.error("Error checking if model supports images:", error)
 	}
+	// kilocode_change end
 
 	// Check if the current mode includes the browser tool group
 	const modeConfig = getModeBySlug(mode, customModes)
 	const modeSupportsBrowser = modeConfig?.groups.some((group) => getGroupName(group) === "browser") ?? false
 
-	// Only enable browser tools if the model supports it, the mode includes browser tools,
-	// and browser tools are enabled in settings
-	const canUseBrowserTool = modelSupportsComputerUse && modeSupportsBrowser && (browserToolEnabled ?? true)
+	// Only enable browser tools if the mode includes browser tools and browser tools are enabled in settings
+	const canUseBrowserTool = modeSupportsBrowser && (browserToolEnabled ?? true) // kilocode_change
 
 	const systemPrompt = await SYSTEM_PROMPT(
 		provider.context,
@@ -91,6 +91,7 @@ export const generateSystemPrompt = async (provider: ClineProvider, message: Web
 			newTaskRequireTodos: vscode.workspace
 				.getConfiguration("kilo-code")
 				.get<boolean>("newTaskRequireTodos", false),
+			supportsImages: modelSupportsImages, // kilocode_change
 		},
 		// kilocode_change start
 		undefined,
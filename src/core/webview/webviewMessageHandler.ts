@@ -27,6 +27,7 @@ import {
 	// kilocode_change start
 	ghostServiceSettingsSchema,
 	fastApplyModelSchema,
+	condensingStrategySchema,
 	// kilocode_change end
 	UserSettingsConfig,
 } from "@roo-code/types"
@@ -48,10 +49,14 @@ import {
 	type EditQueuedMessagePayload,
 	checkoutDiffPayloadSchema,
 	checkoutRestorePayloadSchema,
+	checkpointForkPayloadSchema, // kilocode_change
+	checkpointRestorePartialPayloadSchema, // kilocode_change
+	checkpointTimelineDiffPayloadSchema, // kilocode_change
 } from "../../shared/WebviewMessage"
 import { checkExistKey } from "../../shared/checkExistApiConfig"
 import { experimentDefault } from "../../shared/experiments"
 import { Terminal } from "../../integrations/terminal/Terminal"
+import { TerminalRegistry } from "../../integrations/terminal/TerminalRegistry" // kilocode_change
 import { openFile } from "../../integrations/misc/open-file"
 import { openImage, saveImage } from "../../integrations/misc/image-handler"
 import { selectImages } from "../../integrations/misc/process-images"
@@ -86,6 +91,7 @@ import { seeNewChanges } from "../checkpoints/kilocode/seeNewChanges" // kilocod
 import { getTaskHistory } from "../../shared/kilocode/getTaskHistory" // kilocode_change
 import { fetchAndRefreshOrganizationModesOnStartup, refreshOrganizationModes } from "./kiloWebviewMessgeHandlerHelpers"
 import { AutoPurgeScheduler } from "../../services/auto-purge" // kilocode_change
+import { TaskSearchIndex } from "../../services/task-search" // kilocode_change
 
 export const webviewMessageHandler = async (
 	provider: ClineProvider,
@@ -612,6 +618,13 @@ export const webviewMessageHandler = async (
 			await updateGlobalState("allowedMaxCost", message.value)
 			await provider.postStateToWebview()
 			break
+		// kilocode_change start
+		case "taskCostBudget":
+		case "workspaceDailyCostBudget":
+			await updateGlobalState(message.type, message.value ?? null)
+			await provider.postStateToWebview()
+			break
+		// kilocode_change end
 		case "alwaysAllowSubtasks":
 			await updateGlobalState("alwaysAllowSubtasks", message.bool)
 			await provider.postStateToWebview()
@@ -717,7 +730,7 @@ export const webviewMessageHandler = async (
 			}
 			break
 		case "showTaskWithId":
-			provider.showTaskWithId(message.text!)
+			provider.showTaskWithId(message.text!, message.messageTs) // kilocode_change: jump to the message found by the search
 			break
 		case "condenseTaskContextRequest":
 			provider.condenseTaskContext(message.text!)
@@ -772,6 +785,17 @@ export const webviewMessageHandler = async (
 		case "exportTaskWithId":
 			provider.exportTaskWithId(message.text!)
 			break
+		// kilocode_change start
+		case "exportTaskBundle":
+			await provider.exportTaskBundle(message.text!, {
+				bundlePath: message.values?.path,
+				includeCheckpoints: message.values?.includeCheckpoints,
+			})
+			break
+		case "importTaskBundle":
+			await provider.importTaskBundle(message.values?.path)
+			break
+		// kilocode_change end
 		case "importSettings": {
 			await importSettingsWithFeedback({
 				providerSettingsManager: provider.providerSettingsManager,
@@ -1089,13 +1113,21 @@ export const webviewMessageHandler = async (
 			break
 		}
 		case "taskHistoryRequest": {
+			const request = message.payload as TaskHistoryRequestPayload
+			const taskHistory = provider.getTaskHistory()
+			const contentMatches = request.search
+				? await TaskSearchIndex.getInstance(provider.contextProxy.globalStorageUri.fsPath)
+						.search(request.search, taskHistory)
+						.catch((error) => {
+							provider.log(
+								`Error searching task history: ${error instanceof Error ? error.message : String(error)}`,
+							)
+							return undefined
+						})
+				: undefined
 			await provider.postMessageToWebview({
 				type: "taskHistoryResponse",
-				payload: getTaskHistory(
-					provider.getTaskHistory(),
-					provider.cwd,
-					message.payload as TaskHistoryRequestPayload,
-				),
+				payload: getTaskHistory(taskHistory, provider.cwd, request, contentMatches),
 			})
 			break
 		}
@@ -1121,6 +1153,74 @@ export const webviewMessageHandler = async (
 
 			break
 		}
+		// kilocode_change start
+		case "checkpointFork": {
+			const result = checkpointForkPayloadSchema.safeParse(message.payload)
+
+			if (result.success) {
+				// Stop the current task before the workspace is rewound to the checkpoint
+				await provider.cancelTask()
+
+				try {
+					await pWaitFor(() => provider.getCurrentTask()?.isInitialized === true, { timeout: 3_000 })
+				} catch (error) {
+					vscode.window.showErrorMessage(t("common:errors.checkpoint_timeout"))
+				}
+
+				try {
+					const historyItem = await provider.getCurrentTask()?.checkpointFork(result.data)
+
+					if (historyItem) {
+						await provider.createTaskWithHistoryItem(historyItem)
+					}
+				} catch (error) {
+					vscode.window.showErrorMessage(t("common:errors.checkpoint_fork_failed"))
+				}
+			}
+
+			break
+		}
+		case "checkpointTimelineRequest": {
+			const entries = (await provider.getCurrentTask()?.checkpointTimeline()) ?? []
+			await provider.postMessageToWebview({ type: "checkpointTimelineResponse", payload: { entries } })
+			break
+		}
+		case "checkpointTimelineDiffRequest": {
+			const result = checkpointTimelineDiffPayloadSchema.safeParse(message.payload)
+			const currentTask = provider.getCurrentTask()
+
+			if (result.success && currentTask) {
+				const files = await currentTask.checkpointTimelineDiff(result.data)
+				await provider.postMessageToWebview({
+					type: "checkpointTimelineDiffResponse",
+					payload: { commitHash: result.data.commitHash, files },
+				})
+			}
+
+			break
+		}
+		case "checkpointRestorePartial": {
+			const result = checkpointRestorePartialPayloadSchema.safeParse(message.payload)
+			const currentTask = provider.getCurrentTask()
+
+			if (result.success && currentTask) {
+				try {
+					await currentTask.checkpointRestorePartial(result.data)
+				} catch (error) {
+					vscode.window.showErrorMessage(
+						t("common:errors.checkpoint_partial_restore_failed", {
+							error: error instanceof Error ? error.message : String(error),
+						}),
+					)
+				}
+
+				const entries = await currentTask.checkpointTimeline()
+				await provider.postMessageToWebview({ type: "checkpointTimelineResponse", payload: { entries } })
+			}
+
+			break
+		}
+		// kilocode_change end
 		case "cancelTask":
 			await provider.cancelTask()
 			break
@@ -1257,6 +1357,24 @@ export const webviewMessageHandler = async (
 			}
 			break
 		}
+		// kilocode_change start
+		case "toggleMcpServerSamplingAlwaysAllow": {
+			try {
+				await provider
+					.getMcpHub()
+					?.toggleServerSamplingAlwaysAllow(
+						message.serverName!,
+						message.source as "global" | "project",
+						Boolean(message.alwaysAllow),
+					)
+			} catch (error) {
+				provider.log(
+					`Failed to toggle sampling auto-approve for server ${message.serverName}: ${JSON.stringify(error, Object.getOwnPropertyNames(error), 2)}`,
+				)
+			}
+			break
+		}
+		// kilocode_change end
 		case "toggleToolEnabledForPrompt": {
 			try {
 				await provider
@@ -1618,6 +1736,16 @@ export const webviewMessageHandler = async (
 				Terminal.setCompressProgressBar(message.bool)
 			}
 			break
+		// kilocode_change start
+		case "terminalSandboxModes":
+			await updateGlobalState("terminalSandboxModes", message.ids ?? [])
+			await provider.postStateToWebview()
+			break
+		case "terminalSandboxNetworkEnabled":
+			await updateGlobalState("terminalSandboxNetworkEnabled", message.bool)
+			await provider.postStateToWebview()
+			break
+		// kilocode_change end
 		case "mode":
 			await provider.handleModeSwitch(message.text as Mode)
 			break
@@ -1861,6 +1989,14 @@ export const webviewMessageHandler = async (
 			await updateGlobalState("condensingApiConfigId", message.text)
 			await provider.postStateToWebview()
 			break
+		// kilocode_change start
+		case "condensingStrategy": {
+			const result = condensingStrategySchema.safeParse(message.text)
+			await updateGlobalState("condensingStrategy", result.success ? result.data : undefined)
+			await provider.postStateToWebview()
+			break
+		}
+		// kilocode_change end
 		case "updateCondensingPrompt":
 			// Store the condensing prompt in customSupportPrompts["CONDENSE"] instead of customCondensingPrompt
 			const currentSupportPrompts = getGlobalState("customSupportPrompts") ?? {}
@@ -2995,6 +3131,7 @@ export const webviewMessageHandler = async (
 					...currentConfig,
 					codebaseIndexEnabled: settings.codebaseIndexEnabled,
 					codebaseIndexQdrantUrl: settings.codebaseIndexQdrantUrl,
+					codebaseIndexVectorStoreProvider: settings.codebaseIndexVectorStoreProvider, // kilocode_change
 					codebaseIndexEmbedderProvider: settings.codebaseIndexEmbedderProvider,
 					codebaseIndexEmbedderBaseUrl: settings.codebaseIndexEmbedderBaseUrl,
 					codebaseIndexEmbedderModelId: settings.codebaseIndexEmbedderModelId,
@@ -3002,6 +3139,7 @@ export const webviewMessageHandler = async (
 					codebaseIndexOpenAiCompatibleBaseUrl: settings.codebaseIndexOpenAiCompatibleBaseUrl,
 					codebaseIndexSearchMaxResults: settings.codebaseIndexSearchMaxResults,
 					codebaseIndexSearchMinScore: settings.codebaseIndexSearchMinScore,
+					codebaseIndexSearchKeywordWeight: settings.codebaseIndexSearchKeywordWeight, // kilocode_change
 				}
 
 				// Save global state first
@@ -3533,7 +3671,7 @@ export const webviewMessageHandler = async (
 		case "requestCommands": {
 			try {
 				const { getCommands } = await import("../../services/command/commands")
-				const commands = await getCommands(getCurrentCwd())
+				const commands = await getCommands(getCurrentCwd(), provider.getMcpHub()) // kilocode_change
 
 				// Convert to the format expected by the frontend
 				const commandList = commands.map((command) => ({
@@ -3710,7 +3848,7 @@ export const webviewMessageHandler = async (
 
 				// Refresh commands list
 				const { getCommands } = await import("../../services/command/commands")
-				const commands = await getCommands(getCurrentCwd() || "")
+				const commands = await getCommands(getCurrentCwd() || "", provider.getMcpHub()) // kilocode_change
 				const commandList = commands.map((command) => ({
 					name: command.name,
 					source: command.source,
@@ -3767,17 +3905,26 @@ export const webviewMessageHandler = async (
 			await updateGlobalState("autoPurgeIncompleteTaskRetentionDays", message.value ?? 7)
 			await provider.postStateToWebview()
 			break
+		case "autoPurgeStorageQuotaMb":
+			await updateGlobalState("autoPurgeStorageQuotaMb", message.value ?? null)
+			await provider.postStateToWebview()
+			break
+		case "autoPurgeMaxCheckpointSizeMb":
+			await updateGlobalState("autoPurgeMaxCheckpointSizeMb", message.value ?? null)
+			await provider.postStateToWebview()
+			break
+		case "previewAutoPurge":
+			try {
+				await provider.previewAutoPurge()
+			} catch (error) {
+				const errorMessage = error instanceof Error ? error.message : String(error)
+				provider.log(`Error in auto-purge preview: ${errorMessage}`)
+				vscode.window.showErrorMessage(`Auto-purge preview failed: ${errorMessage}`)
+			}
+			break
 		case "manualPurge":
 			try {
-				const state = await provider.getState()
-				const autoPurgeSettings = {
-					enabled: state.autoPurgeEnabled ?? false,
-					defaultRetentionDays: state.autoPurgeDefaultRetentionDays ?? 30,
-					favoritedTaskRetentionDays: state.autoPurgeFavoritedTaskRetentionDays ?? null,
-					completedTaskRetentionDays: state.autoPurgeCompletedTaskRetentionDays ?? 30,
-					incompleteTaskRetentionDays: state.autoPurgeIncompleteTaskRetentionDays ?? 7,
-					lastRunTimestamp: state.autoPurgeLastRunTimestamp,
-				}
+				const autoPurgeSettings = await provider.getAutoPurgeSettings()
 
 				if (!autoPurgeSettings.enabled) {
 					vscode.window.showWarningMessage("Auto-purge is disabled. Please enable it in settings first.")
@@ -3829,6 +3976,14 @@ export const webviewMessageHandler = async (
 
 			break
 		}
+		// kilocode_change start
+		case "killBackgroundJob": {
+			if (message.value !== undefined) {
+				TerminalRegistry.killBackgroundJob(message.value)
+			}
+			break
+		}
+		// kilocode_change end
 		case "dismissUpsell": {
 			if (message.upsellId) {
 				try {
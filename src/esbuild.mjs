@@ -6,12 +6,50 @@ import { createRequire } from "module"
 import process from "node:process"
 import * as console from "node:console"
 
-import { copyPaths, copyWasms, copyLocales, setupLocaleWatcher } from "@roo-code/build"
+// kilocode_change start
+import {
+	copyPaths,
+	copyWasms,
+	copyLocales,
+	setupLocaleWatcher,
+	copyLocalEmbedder,
+	pinLocalEmbeddingModel,
+} from "@roo-code/build"
+// kilocode_change end
 
 const __filename = fileURLToPath(import.meta.url)
 const __dirname = path.dirname(__filename)
 
+// kilocode_change start
+/**
+ * The default model of the local embedder, see shared/embeddingModels.ts. It is only bundled, with the
+ * ONNX runtime, by builds run with `BUNDLE_EMBEDDING_MODEL=true`, from the pinned commit and with each file
+ * checked against its SHA-256. Pin it with the output of `node esbuild.mjs --pin-embedding-model` before
+ * bundling it. The local embedder is only offered by builds that bundle it.
+ *
+ * @type {import('@roo-code/build').LocalEmbeddingModel}
+ */
+const LOCAL_EMBEDDING_MODEL = {
+	id: "jinaai/jina-embeddings-v2-base-code",
+	revision: "",
+	files: {
+		"config.json": "",
+		"tokenizer.json": "",
+		"tokenizer_config.json": "",
+		"onnx/model_quantized.onnx": "",
+	},
+}
+// kilocode_change end
+
 async function main() {
+	// kilocode_change start
+	if (process.argv.includes("--pin-embedding-model")) {
+		const { id, files } = LOCAL_EMBEDDING_MODEL
+		console.log(JSON.stringify(await pinLocalEmbeddingModel(id, Object.keys(files)), null, "\t"))
+		return
+	}
+	// kilocode_change end
+
 	const name = "extension"
 	const production = process.argv.includes("--production")
 	const watch = process.argv.includes("--watch")
@@ -98,6 +136,36 @@ async function main() {
 				build.onEnd(() => copyLocales(srcDir, distDir))
 			},
 		},
+		// kilocode_change start
+		{
+			name: "copyLocalEmbedder",
+			setup(build) {
+				// Without the model the local embedder is not offered, so its ONNX runtime is not shipped either
+				if (process.env.BUNDLE_EMBEDDING_MODEL !== "true") {
+					return
+				}
+
+				build.onEnd(() =>
+					copyLocalEmbedder(srcDir, distDir, {
+						model: LOCAL_EMBEDDING_MODEL,
+						// The `vsce package --target` of a platform specific VSIX, only its ONNX runtime bindings are copied
+						target: process.env.VSIX_TARGET,
+					}),
+				)
+			},
+		},
+		{
+			// transformers.js loads sharp for image inputs, the local embedder only embeds text and sharp's
+			// native binaries are not shipped
+			name: "stubSharp",
+			setup(build) {
+				build.onResolve({ filter: /^sharp$/ }, () => ({ path: "sharp", namespace: "sharp-stub" }))
+				build.onLoad({ filter: /.*/, namespace: "sharp-stub" }, () => ({
+					contents: `module.exports = () => { throw new Error("Image processing is not available") }`,
+				}))
+			},
+		},
+		// kilocode_change end
 		{
 			name: "esbuild-problem-matcher",
 			setup(build) {
@@ -124,7 +192,7 @@ async function main() {
 		plugins,
 		entryPoints: ["extension.ts"],
 		outfile: "dist/extension.js",
-		external: ["vscode", "sqlite3"],
+		external: ["vscode", "sqlite3", "onnxruntime-node", "onnxruntime-common"], // kilocode_change: native ONNX bindings of the local embedder, copied to dist/node_modules
 	}
 
 	/**
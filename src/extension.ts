@@ -427,6 +427,7 @@ export async function deactivate() {
 		await bridge.disconnect()
 	}
 
+	await CodeIndexManager.flushAll() // kilocode_change
 	await McpServerManager.cleanup(extensionContext)
 	TelemetryService.instance.shutdown()
 	TerminalRegistry.cleanup()
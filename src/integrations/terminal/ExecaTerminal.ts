@@ -2,11 +2,21 @@ import type { RooTerminalCallbacks, RooTerminalProcessResultPromise } from "./ty
 import { BaseTerminal } from "./BaseTerminal"
 import { ExecaTerminalProcess } from "./ExecaTerminalProcess"
 import { mergePromise } from "./mergePromise"
+import type { SandboxOptions } from "./sandbox" // kilocode_change
 
 export class ExecaTerminal extends BaseTerminal {
-	constructor(id: number, cwd: string) {
-		super("execa", id, cwd)
+	// kilocode_change start
+	/**
+	 * Commands of terminals with sandbox options run in a bubblewrap sandbox.
+	 */
+	constructor(
+		id: number,
+		cwd: string,
+		public readonly sandbox?: SandboxOptions,
+	) {
+		super(sandbox ? "sandbox" : "execa", id, cwd)
 	}
+	// kilocode_change end
 
 	/**
 	 * Unlike the VSCode terminal, this is never closed.
@@ -18,7 +28,7 @@ export class ExecaTerminal extends BaseTerminal {
 	public override runCommand(command: string, callbacks: RooTerminalCallbacks): RooTerminalProcessResultPromise {
 		this.busy = true
 
-		const process = new ExecaTerminalProcess(this)
+		const process = new ExecaTerminalProcess(this, this.sandbox) // kilocode_change
 		process.command = command
 		this.process = process
 
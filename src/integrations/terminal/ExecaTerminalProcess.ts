@@ -4,6 +4,7 @@ import process from "process"
 
 import type { RooTerminal } from "./types"
 import { BaseTerminalProcess } from "./BaseTerminalProcess"
+import { getSandboxArgs, SANDBOX_COMMAND, type SandboxOptions } from "./sandbox" // kilocode_change
 
 export class ExecaTerminalProcess extends BaseTerminalProcess {
 	private terminalRef: WeakRef<RooTerminal>
@@ -11,11 +12,13 @@ export class ExecaTerminalProcess extends BaseTerminalProcess {
 	private pid?: number
 	private subprocess?: ReturnType<typeof execa>
 	private pidUpdatePromise?: Promise<void>
+	private sandbox?: SandboxOptions // kilocode_change
 
-	constructor(terminal: RooTerminal) {
+	constructor(terminal: RooTerminal, sandbox?: SandboxOptions /* kilocode_change */) {
 		super()
 
 		this.terminalRef = new WeakRef(terminal)
+		this.sandbox = sandbox // kilocode_change
 
 		this.once("completed", () => {
 			this.terminal.busy = false
@@ -38,9 +41,11 @@ export class ExecaTerminalProcess extends BaseTerminalProcess {
 		try {
 			this.isHot = true
 
-			this.subprocess = execa({
-				shell: true,
-				cwd: this.terminal.getCurrentWorkingDirectory(),
+			// kilocode_change start
+			const cwd = this.terminal.getCurrentWorkingDirectory()
+
+			const options = {
+				cwd,
 				all: true,
 				stdin: "ignore", // kilocode_change: ignore stdin to prevent blocking
 				env: {
@@ -49,7 +54,14 @@ export class ExecaTerminalProcess extends BaseTerminalProcess {
 					LANG: "en_US.UTF-8",
 					LC_ALL: "en_US.UTF-8",
 				},
-			})`${command}`
+			} as const
+
+			// The sandbox runs the command with its own shell, so bubblewrap is
+			// started directly.
+			this.subprocess = this.sandbox
+				? execa(SANDBOX_COMMAND, getSandboxArgs(command, cwd, this.sandbox), options)
+				: execa({ ...options, shell: true })`${command}`
+			// kilocode_change end
 
 			this.pid = this.subprocess.pid
 
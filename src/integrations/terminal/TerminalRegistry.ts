@@ -1,12 +1,17 @@
+import { EventEmitter } from "events" // kilocode_change
 import * as vscode from "vscode"
+import pWaitFor from "p-wait-for" // kilocode_change
+
+import type { BackgroundJob } from "@roo-code/types" // kilocode_change
 
 import { arePathsEqual } from "../../utils/path"
 
-import { RooTerminal, RooTerminalProvider } from "./types"
+import { ExitCodeDetails, RooTerminal, RooTerminalProcess, RooTerminalProvider } from "./types" // kilocode_change
 import { TerminalProcess } from "./TerminalProcess"
 import { Terminal } from "./Terminal"
 import { ExecaTerminal } from "./ExecaTerminal"
 import { ShellIntegrationManager } from "./ShellIntegrationManager"
+import { isSameSandbox, type SandboxOptions } from "./sandbox" // kilocode_change
 
 // Although vscode.window.terminals provides a list of all open terminals,
 // there's no way to know whether they're busy or not (exitStatus does not
@@ -17,11 +22,28 @@ import { ShellIntegrationManager } from "./ShellIntegrationManager"
 // Since we have promises keeping track of terminal processes, we get the added
 // benefit of keep track of busy terminals even after a task is closed.
 
+// kilocode_change start
+// Finished jobs are kept so their remaining output can still be read, the
+// oldest ones are dropped beyond this limit.
+const MAX_FINISHED_BACKGROUND_JOBS = 10
+
+type BackgroundJobEntry = {
+	job: BackgroundJob
+	terminal: RooTerminal
+	process: RooTerminalProcess
+}
+// kilocode_change end
+
 export class TerminalRegistry {
 	private static terminals: RooTerminal[] = []
 	private static nextTerminalId = 1
 	private static disposables: vscode.Disposable[] = []
 	private static isInitialized = false
+	// kilocode_change start
+	private static backgroundJobs: BackgroundJobEntry[] = []
+	private static nextBackgroundJobId = 1
+	private static backgroundJobEvents = new EventEmitter<{ change: [] }>()
+	// kilocode_change end
 
 	public static initialize() {
 		if (this.isInitialized) {
@@ -41,6 +63,12 @@ export class TerminalRegistry {
 			if (terminal) {
 				ShellIntegrationManager.zshCleanupTmpDir(terminal.id)
 			}
+
+			// kilocode_change start
+			this.backgroundJobs
+				.filter((entry) => entry.terminal === terminal)
+				.forEach(({ job }) => this.finishBackgroundJob(job.id, { exitCode: undefined }))
+			// kilocode_change end
 		})
 
 		this.disposables.push(closeDisposable)
@@ -127,11 +155,23 @@ export class TerminalRegistry {
 		}
 	}
 
-	public static createTerminal(cwd: string, provider: RooTerminalProvider): RooTerminal {
+	public static createTerminal(
+		cwd: string,
+		provider: RooTerminalProvider,
+		sandbox?: SandboxOptions /* kilocode_change */,
+	): RooTerminal {
 		let newTerminal
 
 		if (provider === "vscode") {
 			newTerminal = new Terminal(this.nextTerminalId++, undefined, cwd)
+			// kilocode_change start
+		} else if (provider === "sandbox") {
+			if (!sandbox) {
+				throw new Error("Sandbox terminals require sandbox options")
+			}
+
+			newTerminal = new ExecaTerminal(this.nextTerminalId++, cwd, sandbox)
+			// kilocode_change end
 		} else {
 			newTerminal = new ExecaTerminal(this.nextTerminalId++, cwd)
 		}
@@ -147,12 +187,15 @@ export class TerminalRegistry {
 	 *
 	 * @param cwd The working directory path
 	 * @param taskId Optional task ID to associate with the terminal
+	 * @param provider The terminal provider to use
+	 * @param sandbox The sandbox options of "sandbox" terminals
 	 * @returns A Terminal instance
 	 */
 	public static async getOrCreateTerminal(
 		cwd: string,
 		taskId?: string,
 		provider: RooTerminalProvider = "vscode",
+		sandbox?: SandboxOptions, // kilocode_change
 	): Promise<RooTerminal> {
 		const terminals = this.getAllTerminals()
 		let terminal: RooTerminal | undefined
@@ -161,7 +204,8 @@ export class TerminalRegistry {
 		// matching directory.
 		if (taskId) {
 			terminal = terminals.find((t) => {
-				if (t.busy || t.taskId !== taskId || t.provider !== provider) {
+				// kilocode_change: match the sandbox
+				if (t.busy || t.taskId !== taskId || t.provider !== provider || !this.hasSandbox(t, sandbox)) {
 					return false
 				}
 
@@ -178,7 +222,8 @@ export class TerminalRegistry {
 		// Second priority: Find any available terminal with matching directory.
 		if (!terminal) {
 			terminal = terminals.find((t) => {
-				if (t.busy || t.provider !== provider) {
+				// kilocode_change: match the sandbox
+				if (t.busy || t.provider !== provider || !this.hasSandbox(t, sandbox)) {
 					return false
 				}
 
@@ -194,7 +239,7 @@ export class TerminalRegistry {
 
 		// If no suitable terminal found, create a new one.
 		if (!terminal) {
-			terminal = this.createTerminal(cwd, provider)
+			terminal = this.createTerminal(cwd, provider, sandbox) // kilocode_change
 		}
 
 		terminal.taskId = taskId
@@ -269,7 +314,224 @@ export class TerminalRegistry {
 		})
 	}
 
+	// kilocode_change start
+	/**
+	 * Runs a command as a background job in a dedicated terminal. The job does
+	 * not block the task, its output is read with `readBackgroundJobOutput`.
+	 *
+	 * @param command The command to run
+	 * @param cwd The working directory of the job
+	 * @param provider The terminal provider to run the job with
+	 * @param taskId Optional ID of the task that started the job
+	 * @param sandbox The sandbox options of "sandbox" jobs
+	 * @returns The started job
+	 */
+	public static startBackgroundJob(
+		command: string,
+		cwd: string,
+		provider: RooTerminalProvider,
+		taskId?: string,
+		sandbox?: SandboxOptions,
+	): BackgroundJob {
+		const terminal = this.createTerminal(cwd, provider, sandbox)
+
+		const job: BackgroundJob = {
+			id: this.nextBackgroundJobId++,
+			command,
+			cwd: terminal.getCurrentWorkingDirectory(),
+			taskId,
+			status: "running",
+			startedAt: Date.now(),
+		}
+
+		const process = terminal.runCommand(command, {
+			onLine: () => {},
+			onCompleted: () => {},
+			onShellExecutionStarted: () => {},
+			onShellExecutionComplete: (details) => this.finishBackgroundJob(job.id, details),
+			onNoShellIntegration: () => this.finishBackgroundJob(job.id, { exitCode: undefined }),
+		})
+
+		// Stop emitting lines, so that the output stays unretrieved until the
+		// job is read.
+		process.continue()
+		process.catch((error) => {
+			console.error(`[TerminalRegistry] Background job ${job.id} failed:`, error)
+			this.finishBackgroundJob(job.id, { exitCode: undefined })
+		})
+
+		this.backgroundJobs.push({ job, terminal, process })
+		this.backgroundJobEvents.emit("change")
+
+		return job
+	}
+
+	/**
+	 * Gets the background jobs, optionally only the ones of a task.
+	 *
+	 * @param taskId Optional task ID to filter jobs by
+	 * @returns Array of jobs, oldest first
+	 */
+	public static getBackgroundJobs(taskId?: string): BackgroundJob[] {
+		return this.backgroundJobs
+			.filter(({ job }) => taskId === undefined || job.taskId === taskId)
+			.map(({ job }) => ({ ...job }))
+	}
+
+	public static getBackgroundJob(id: number): BackgroundJob | undefined {
+		const entry = this.getBackgroundJobEntry(id)
+		return entry ? { ...entry.job } : undefined
+	}
+
+	/**
+	 * Checks whether a background job has output that was not read yet.
+	 *
+	 * @param id The job ID
+	 * @returns True if there is new output, false otherwise
+	 */
+	public static hasUnreadBackgroundJobOutput(id: number): boolean {
+		return this.getBackgroundJobEntry(id)?.process.hasUnretrievedOutput() ?? false
+	}
+
+	/**
+	 * Reads the output of a background job since the last read.
+	 *
+	 * @param id The job ID
+	 * @returns The new output, or empty string if the job is not found
+	 */
+	public static readBackgroundJobOutput(id: number): string {
+		return this.getBackgroundJobEntry(id)?.process.getUnretrievedOutput() ?? ""
+	}
+
+	/**
+	 * Reads the output of a background job until it matches a pattern, the
+	 * job finishes or the timeout expires.
+	 *
+	 * @param id The job ID
+	 * @param pattern The pattern to wait for
+	 * @param timeoutMs The maximum time to wait in milliseconds
+	 * @returns Whether the pattern matched and the output read while waiting
+	 */
+	public static async waitForBackgroundJobOutput(
+		id: number,
+		pattern: RegExp,
+		timeoutMs: number,
+	): Promise<{ matched: boolean; output: string }> {
+		const entry = this.getBackgroundJobEntry(id)
+
+		if (!entry) {
+			return { matched: false, output: "" }
+		}
+
+		let output = ""
+
+		const isDone = () => {
+			output += entry.process.getUnretrievedOutput()
+			return pattern.test(output) || entry.job.status !== "running"
+		}
+
+		await pWaitFor(isDone, { interval: 100, timeout: timeoutMs }).catch(() => {})
+
+		output += entry.process.getUnretrievedOutput()
+
+		return { matched: pattern.test(output), output }
+	}
+
+	/**
+	 * Kills a running background job.
+	 *
+	 * @param id The job ID
+	 * @returns True if the job was running, false otherwise
+	 */
+	public static killBackgroundJob(id: number): boolean {
+		const entry = this.getBackgroundJobEntry(id)
+
+		if (entry?.job.status !== "running") {
+			return false
+		}
+
+		entry.job.status = "killed"
+		entry.job.endedAt = Date.now()
+
+		if (entry.terminal instanceof Terminal) {
+			// The process stopped listening when the job was started, so
+			// `abort` would not interrupt it anymore.
+			entry.terminal.terminal.sendText("\x03")
+		} else {
+			entry.process.abort()
+		}
+
+		this.dropFinishedBackgroundJobs()
+		this.backgroundJobEvents.emit("change")
+
+		return true
+	}
+
+	/**
+	 * Registers a listener that is called when a background job is started,
+	 * finishes or is killed.
+	 *
+	 * @param listener The listener to call
+	 * @returns A disposable that removes the listener
+	 */
+	public static onDidChangeBackgroundJobs(listener: () => void): vscode.Disposable {
+		this.backgroundJobEvents.on("change", listener)
+		return { dispose: () => this.backgroundJobEvents.off("change", listener) }
+	}
+
+	private static getBackgroundJobEntry(id: number): BackgroundJobEntry | undefined {
+		return this.backgroundJobs.find(({ job }) => job.id === id)
+	}
+
+	private static isBackgroundJobTerminal(terminal: RooTerminal): boolean {
+		return this.backgroundJobs.some((entry) => entry.terminal === terminal)
+	}
+
+	private static finishBackgroundJob(id: number, exitDetails: ExitCodeDetails) {
+		const entry = this.getBackgroundJobEntry(id)
+
+		if (entry?.job.status !== "running") {
+			return
+		}
+
+		entry.job.status = "exited"
+		entry.job.exitCode = exitDetails.exitCode
+		entry.job.endedAt = Date.now()
+
+		this.dropFinishedBackgroundJobs()
+		this.backgroundJobEvents.emit("change")
+	}
+
+	/**
+	 * Drops the oldest exited or killed jobs beyond `MAX_FINISHED_BACKGROUND_JOBS`
+	 * together with their terminals.
+	 */
+	private static dropFinishedBackgroundJobs() {
+		const finished = this.backgroundJobs.filter(({ job }) => job.status !== "running")
+
+		if (finished.length <= MAX_FINISHED_BACKGROUND_JOBS) {
+			return
+		}
+
+		const dropped = finished.slice(0, finished.length - MAX_FINISHED_BACKGROUND_JOBS)
+		this.backgroundJobs = this.backgroundJobs.filter((entry) => !dropped.includes(entry))
+
+		for (const { terminal } of dropped) {
+			this.removeTerminal(terminal.id)
+
+			if (terminal instanceof Terminal) {
+				terminal.terminal.dispose()
+			}
+		}
+	}
+	// kilocode_change end
+
 	public static cleanup() {
+		// kilocode_change start
+		this.backgroundJobs.forEach(({ job }) => this.killBackgroundJob(job.id))
+		this.backgroundJobEvents.removeAllListeners()
+		// kilocode_change end
+
 		// Clean up all temporary directories.
 		ShellIntegrationManager.clear()
 		this.disposables.forEach((disposable) => disposable.dispose())
@@ -291,8 +553,14 @@ export class TerminalRegistry {
 
 	private static getAllTerminals(): RooTerminal[] {
 		this.terminals = this.terminals.filter((t) => !t.isClosed())
-		return this.terminals
+		return this.terminals.filter((t) => !this.isBackgroundJobTerminal(t)) // kilocode_change: jobs own their terminal
+	}
+
+	// kilocode_change start
+	private static hasSandbox(terminal: RooTerminal, sandbox?: SandboxOptions): boolean {
+		return isSameSandbox(terminal instanceof ExecaTerminal ? terminal.sandbox : undefined, sandbox)
 	}
+	// kilocode_change end
 
 	private static getTerminalById(id: number): RooTerminal | undefined {
 		const terminal = this.terminals.find((t) => t.id === id)
@@ -4,16 +4,23 @@ const mockPid = 12345
 
 vitest.mock("execa", () => {
 	const mockKill = vitest.fn()
-	const execa = vitest.fn((options: any) => {
-		return (_template: TemplateStringsArray, ...args: any[]) => ({
-			pid: mockPid,
-			iterable: (_opts: any) =>
-				(async function* () {
-					yield "test output\n"
-				})(),
-			kill: mockKill,
-		})
+	// kilocode_change start
+	const createSubprocess = () => ({
+		pid: mockPid,
+		iterable: (_opts: any) =>
+			(async function* () {
+				yield "test output\n"
+			})(),
+		kill: mockKill,
+	})
+	const execa = vitest.fn((fileOrOptions: any) => {
+		if (typeof fileOrOptions === "string") {
+			return createSubprocess()
+		}
+
+		return (_template: TemplateStringsArray, ...args: any[]) => createSubprocess()
 	})
+	// kilocode_change end
 	return { execa, ExecaError: class extends Error {} }
 })
 
@@ -119,4 +126,22 @@ describe("ExecaTerminalProcess", () => {
 			expect(mockTerminal.setActiveStream).toHaveBeenLastCalledWith(undefined)
 		})
 	})
+
+	// kilocode_change start
+	describe("sandbox", () => {
+		it("should run the command with bubblewrap", async () => {
+			terminalProcess = new ExecaTerminalProcess(mockTerminal, { workspacePath: "/test" })
+			await terminalProcess.run("npm test")
+
+			const execaMock = vitest.mocked(execa)
+			const [file, args, options] = execaMock.mock.calls[0] as unknown as [string, string[], any]
+
+			expect(file).toBe("bwrap")
+			expect(args).toEqual(expect.arrayContaining(["--unshare-all", "--bind", "/test", "--chdir", "/test/cwd"]))
+			expect(args.slice(-3)).toEqual(["/bin/sh", "-c", "npm test"])
+			expect(options).toEqual(expect.objectContaining({ cwd: "/test/cwd", all: true }))
+			expect(options.shell).toBeUndefined()
+		})
+	})
+	// kilocode_change end
 })
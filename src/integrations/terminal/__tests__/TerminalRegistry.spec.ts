@@ -1,8 +1,14 @@
 // npx vitest run src/integrations/terminal/__tests__/TerminalRegistry.spec.ts
 
 import * as vscode from "vscode"
+import { EventEmitter } from "events" // kilocode_change
 import { Terminal } from "../Terminal"
 import { TerminalRegistry } from "../TerminalRegistry"
+// kilocode_change start
+import { ExecaTerminal } from "../ExecaTerminal"
+import { mergePromise } from "../mergePromise"
+import type { RooTerminalCallbacks, RooTerminalProcess } from "../types"
+// kilocode_change end
 
 const PAGER = process.platform === "win32" ? "" : "cat"
 
@@ -10,7 +16,12 @@ vi.mock("execa", () => ({
 	execa: vi.fn(),
 }))
 
-vi.mock("../../../utils/path", () => ({ getWorkspacePath: vi.fn(() => "/test/workspace") })) // kilocode_change
+// kilocode_change start
+vi.mock("../../../utils/path", () => ({
+	getWorkspacePath: vi.fn(() => "/test/workspace"),
+	arePathsEqual: vi.fn((a?: string, b?: string) => a === b),
+}))
+// kilocode_change end
 
 describe("TerminalRegistry", () => {
 	let mockCreateTerminal: any
@@ -125,4 +136,171 @@ describe("TerminalRegistry", () => {
 			}
 		})
 	})
+
+	// kilocode_change start
+	describe("sandbox terminals", () => {
+		it("reuses sandbox terminals only for the same sandbox", async () => {
+			const sandbox = { workspacePath: "/sandbox/app" }
+			const terminal = await TerminalRegistry.getOrCreateTerminal("/sandbox/app", "task-1", "sandbox", sandbox)
+
+			expect(terminal).toBeInstanceOf(ExecaTerminal)
+			expect(terminal.provider).toBe("sandbox")
+			expect((terminal as ExecaTerminal).sandbox).toEqual(sandbox)
+
+			expect(await TerminalRegistry.getOrCreateTerminal("/sandbox/app", "task-1", "sandbox", sandbox)).toBe(
+				terminal,
+			)
+			expect(
+				await TerminalRegistry.getOrCreateTerminal("/sandbox/app", "task-1", "sandbox", {
+					...sandbox,
+					networkEnabled: true,
+				}),
+			).not.toBe(terminal)
+
+			const execaTerminal = await TerminalRegistry.getOrCreateTerminal("/sandbox/app", "task-1", "execa")
+			expect(execaTerminal).not.toBe(terminal)
+			expect(execaTerminal.provider).toBe("execa")
+		})
+
+		it("requires sandbox options", () => {
+			expect(() => TerminalRegistry.createTerminal("/sandbox/app", "sandbox")).toThrow(
+				"Sandbox terminals require sandbox options",
+			)
+		})
+	})
+
+	describe("background jobs", () => {
+		class MockProcess extends EventEmitter {
+			command = ""
+			isHot = false
+			output = ""
+			retrievedIndex = 0
+			run = vi.fn()
+			continue = vi.fn()
+			abort = vi.fn()
+
+			hasUnretrievedOutput() {
+				return this.retrievedIndex < this.output.length
+			}
+
+			getUnretrievedOutput() {
+				const output = this.output.slice(this.retrievedIndex)
+				this.retrievedIndex = this.output.length
+				return output
+			}
+		}
+
+		let process: MockProcess
+		let callbacks: RooTerminalCallbacks
+
+		beforeEach(() => {
+			process = new MockProcess()
+
+			vi.spyOn(ExecaTerminal.prototype, "runCommand").mockImplementation((command, terminalCallbacks) => {
+				process.command = command
+				callbacks = terminalCallbacks
+				return mergePromise(process as unknown as RooTerminalProcess, new Promise(() => {}))
+			})
+		})
+
+		afterEach(() => {
+			vi.restoreAllMocks()
+		})
+
+		const startJob = () => TerminalRegistry.startBackgroundJob("npm run dev", "/test/path", "execa", "task-1")
+
+		it("starts a job in a dedicated terminal without blocking", () => {
+			const job = startJob()
+
+			expect(job).toEqual(
+				expect.objectContaining({
+					command: "npm run dev",
+					cwd: "/test/path",
+					taskId: "task-1",
+					status: "running",
+				}),
+			)
+			expect(process.continue).toHaveBeenCalled()
+			expect(TerminalRegistry.getBackgroundJobs("task-1")).toContainEqual(job)
+			expect(TerminalRegistry.getBackgroundJobs("other-task")).toEqual([])
+			expect(TerminalRegistry.getTerminals(true)).toEqual([])
+			expect(TerminalRegistry.getBackgroundTerminals()).toEqual([])
+		})
+
+		it("reads only the output since the last read", () => {
+			const job = startJob()
+
+			process.output = "compiling...\n"
+			expect(TerminalRegistry.hasUnreadBackgroundJobOutput(job.id)).toBe(true)
+			expect(TerminalRegistry.readBackgroundJobOutput(job.id)).toBe("compiling...\n")
+			expect(TerminalRegistry.readBackgroundJobOutput(job.id)).toBe("")
+
+			process.output += "ready in 300 ms\n"
+			expect(TerminalRegistry.readBackgroundJobOutput(job.id)).toBe("ready in 300 ms\n")
+			expect(TerminalRegistry.readBackgroundJobOutput(12345)).toBe("")
+		})
+
+		it("waits for the output to match a pattern", async () => {
+			const job = startJob()
+
+			setTimeout(() => (process.output = "compiling...\nready in 300 ms\n"), 50)
+			const result = await TerminalRegistry.waitForBackgroundJobOutput(job.id, /ready in \d+ ms/, 5_000)
+
+			expect(result).toEqual({ matched: true, output: "compiling...\nready in 300 ms\n" })
+		})
+
+		it("stops waiting when the timeout expires", async () => {
+			const job = startJob()
+			process.output = "compiling...\n"
+
+			const result = await TerminalRegistry.waitForBackgroundJobOutput(job.id, /ready/, 200)
+
+			expect(result).toEqual({ matched: false, output: "compiling...\n" })
+		})
+
+		it("records the exit code of finished jobs", () => {
+			const listener = vi.fn()
+			const disposable = TerminalRegistry.onDidChangeBackgroundJobs(listener)
+			const job = startJob()
+
+			callbacks.onShellExecutionComplete({ exitCode: 1 }, process as unknown as RooTerminalProcess)
+
+			expect(TerminalRegistry.getBackgroundJob(job.id)).toEqual(
+				expect.objectContaining({ status: "exited", exitCode: 1, endedAt: expect.any(Number) }),
+			)
+			expect(listener).toHaveBeenCalledTimes(2)
+
+			disposable.dispose()
+		})
+
+		it("kills running jobs", () => {
+			const job = startJob()
+
+			expect(TerminalRegistry.killBackgroundJob(job.id)).toBe(true)
+			expect(process.abort).toHaveBeenCalled()
+			expect(TerminalRegistry.getBackgroundJob(job.id)?.status).toBe("killed")
+
+			// The completion after the kill keeps the job killed.
+			callbacks.onShellExecutionComplete({ exitCode: 0 }, process as unknown as RooTerminalProcess)
+			expect(TerminalRegistry.getBackgroundJob(job.id)?.status).toBe("killed")
+			expect(TerminalRegistry.killBackgroundJob(job.id)).toBe(false)
+		})
+
+		it("drops the oldest killed jobs and their terminals", () => {
+			const terminals = () => (TerminalRegistry as any).terminals as { id: number }[]
+			const firstJob = startJob()
+			const firstTerminal = terminals().at(-1)
+
+			TerminalRegistry.killBackgroundJob(firstJob.id)
+
+			for (let i = 0; i < 10; i++) {
+				TerminalRegistry.killBackgroundJob(startJob().id)
+			}
+
+			expect(TerminalRegistry.getBackgroundJob(firstJob.id)).toBeUndefined()
+			expect(TerminalRegistry.getBackgroundJobs().filter((job) => job.status !== "running")).toHaveLength(10)
+			expect(terminals()).not.toContain(firstTerminal)
+		})
+	})
+	// kilocode_change end
 })
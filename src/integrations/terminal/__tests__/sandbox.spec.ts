@@ -0,0 +1,111 @@
+// kilocode_change - new file
+// npx vitest run integrations/terminal/__tests__/sandbox.spec.ts
+
+vitest.mock("execa", () => ({ execa: vitest.fn() }))
+
+import { execa } from "execa"
+
+import { getSandboxArgs, isSameSandbox } from "../sandbox"
+
+describe("sandbox", () => {
+	describe("getSandboxArgs", () => {
+		it("mounts the workspace read-write over a read-only root without network", () => {
+			const args = getSandboxArgs("npm test", "/workspace/app", { workspacePath: "/workspace" })
+
+			expect(args).toEqual([
+				"--die-with-parent",
+				"--new-session",
+				"--unshare-all",
+				"--ro-bind",
+				"/",
+				"/",
+				"--dev",
+				"/dev",
+				"--proc",
+				"/proc",
+				"--tmpfs",
+				"/tmp",
+				"--bind",
+				"/workspace",
+				"/workspace",
+				"--chdir",
+				"/workspace/app",
+				"--",
+				"/bin/sh",
+				"-c",
+				"npm test",
+			])
+		})
+
+		it("shares the network when it is enabled", () => {
+			const args = getSandboxArgs("npm install", "/workspace", {
+				workspacePath: "/workspace",
+				networkEnabled: true,
+			})
+
+			expect(args.indexOf("--share-net")).toBe(args.indexOf("--unshare-all") + 1)
+		})
+	})
+
+	describe("isSameSandbox", () => {
+		it("compares the workspace and the network access", () => {
+			expect(isSameSandbox(undefined, undefined)).toBe(true)
+			expect(isSameSandbox({ workspacePath: "/a" }, { workspacePath: "/a", networkEnabled: false })).toBe(true)
+			expect(isSameSandbox({ workspacePath: "/a" }, { workspacePath: "/b" })).toBe(false)
+			expect(isSameSandbox({ workspacePath: "/a" }, { workspacePath: "/a", networkEnabled: true })).toBe(false)
+			expect(isSameSandbox({ workspacePath: "/a" }, undefined)).toBe(false)
+		})
+	})
+
+	describe("isSandboxAvailable", () => {
+		const originalPlatform = process.platform
+
+		beforeEach(() => {
+			vitest.resetModules()
+			vitest.mocked(execa).mockReset()
+		})
+
+		afterEach(() => {
+			Object.defineProperty(process, "platform", { value: originalPlatform })
+		})
+
+		it("probes bubblewrap once on Linux", async () => {
+			Object.defineProperty(process, "platform", { value: "linux" })
+			vitest.mocked(execa).mockResolvedValue({} as any)
+			const { isSandboxAvailable } = await import("../sandbox")
+
+			await expect(isSandboxAvailable()).resolves.toBe(true)
+			await expect(isSandboxAvailable()).resolves.toBe(true)
+			expect(execa).toHaveBeenCalledTimes(1)
+			expect(execa).toHaveBeenCalledWith(
+				"bwrap",
+				["--unshare-all", "--ro-bind", "/", "/", "true"],
+				expect.any(Object),
+			)
+		})
+
+		it("is unavailable when the probe fails and probes again on the next call", async () => {
+			Object.defineProperty(process, "platform", { value: "linux" })
+			vitest
+				.mocked(execa)
+				.mockRejectedValueOnce(new Error("spawn bwrap ENOENT"))
+				.mockResolvedValue({} as any)
+			const warn = vitest.spyOn(console, "warn").mockImplementation(() => {})
+			const { isSandboxAvailable } = await import("../sandbox")
+
+			await expect(isSandboxAvailable()).resolves.toBe(false)
+			await expect(isSandboxAvailable()).resolves.toBe(true)
+			await expect(isSandboxAvailable()).resolves.toBe(true)
+			expect(execa).toHaveBeenCalledTimes(2)
+			warn.mockRestore()
+		})
+
+		it("is unavailable on other platforms", async () => {
+			Object.defineProperty(process, "platform", { value: "darwin" })
+			const { isSandboxAvailable } = await import("../sandbox")
+
+			await expect(isSandboxAvailable()).resolves.toBe(false)
+			expect(execa).not.toHaveBeenCalled()
+		})
+	})
+})
@@ -0,0 +1,82 @@
+// kilocode_change - new file
+import { execa } from "execa"
+
+export const SANDBOX_COMMAND = "bwrap"
+
+const SANDBOX_SHELL = "/bin/sh"
+const SANDBOX_PROBE_TIMEOUT_MS = 5_000
+
+export type SandboxOptions = {
+	/** The only path the sandboxed command can write to */
+	workspacePath: string
+	/** Whether the command keeps access to the network, defaults to false */
+	networkEnabled?: boolean
+}
+
+let sandboxAvailable: Promise<boolean> | undefined
+
+/**
+ * Builds the bubblewrap arguments to run the command in new Linux namespaces.
+ * The filesystem is mounted read-only except for the workspace and a private
+ * /tmp, and the network is unshared unless it is enabled.
+ */
+export function getSandboxArgs(command: string, cwd: string, { workspacePath, networkEnabled }: SandboxOptions) {
+	return [
+		"--die-with-parent",
+		"--new-session",
+		"--unshare-all",
+		...(networkEnabled ? ["--share-net"] : []),
+		"--ro-bind",
+		"/",
+		"/",
+		"--dev",
+		"/dev",
+		"--proc",
+		"/proc",
+		"--tmpfs",
+		"/tmp",
+		// Mounted after /tmp, so that workspaces inside of /tmp stay writable.
+		"--bind",
+		workspacePath,
+		workspacePath,
+		"--chdir",
+		cwd,
+		"--",
+		SANDBOX_SHELL,
+		"-c",
+		command,
+	]
+}
+
+export function isSameSandbox(a?: SandboxOptions, b?: SandboxOptions) {
+	return a?.workspacePath === b?.workspacePath && !!a?.networkEnabled === !!b?.networkEnabled
+}
+
+/**
+ * Checks whether bubblewrap is installed and allowed to create the namespaces,
+ * which some distributions restrict for unprivileged users. Only a successful
+ * probe is kept, a failed one is probed again on the next call, e.g. after
+ * bubblewrap was installed.
+ */
+export function isSandboxAvailable(): Promise<boolean> {
+	if (!sandboxAvailable) {
+		sandboxAvailable =
+			process.platform !== "linux"
+				? Promise.resolve(false)
+				: execa(SANDBOX_COMMAND, ["--unshare-all", "--ro-bind", "/", "/", "true"], {
+						stdin: "ignore",
+						timeout: SANDBOX_PROBE_TIMEOUT_MS,
+					}).then(
+						() => true,
+						(error) => {
+							sandboxAvailable = undefined
+							console.warn(
+								`[sandbox] ${SANDBOX_COMMAND} is not available: ${error instanceof Error ? error.message : String(error)}`,
+							)
+							return false
+						},
+					)
+	}
+
+	return sandboxAvailable
+}
@@ -1,6 +1,12 @@
 import * as vscode from "vscode"
 import { AutoPurgeService } from "./AutoPurgeService"
-import { type AutoPurgeSettings, type HistoryItem, TelemetryEventName } from "@roo-code/types"
+import {
+	type AutoPurgeSettings,
+	type HistoryItem,
+	type PurgeOptions,
+	type PurgeResult,
+	TelemetryEventName,
+} from "@roo-code/types"
 import { TelemetryService } from "@roo-code/telemetry"
 
 /**
@@ -15,6 +21,10 @@ export class AutoPurgeScheduler {
 	private static readonly PURGE_INTERVAL_MS = 24 * 60 * 60 * 1000
 	// Wait 30 seconds after startup before first check
 	private static readonly STARTUP_DELAY_MS = 30 * 1000
+	private static readonly PURGE_OPTIONS: PurgeOptions = {
+		skipActiveTask: true,
+		maxTasksToProcess: 100, // Limit to prevent excessive processing
+	}
 
 	constructor(globalStoragePath: string) {
 		this.autoPurgeService = new AutoPurgeService(globalStoragePath)
@@ -72,6 +82,20 @@ export class AutoPurgeScheduler {
 		await this.executePurge(settings, taskHistory, currentTaskId, false, onTaskPurged)
 	}
 
+	/**
+	 * Report what a purge would delete with the given settings, without deleting anything
+	 */
+	async previewPurge(
+		settings: AutoPurgeSettings,
+		taskHistory: HistoryItem[],
+		currentTaskId?: string,
+	): Promise<PurgeResult> {
+		return this.autoPurgeService.purgeOldTasks(settings, taskHistory, currentTaskId, {
+			...AutoPurgeScheduler.PURGE_OPTIONS,
+			dryRun: true,
+		})
+	}
+
 	/**
 	 * Run the scheduled purge check
 	 */
@@ -149,21 +173,20 @@ export class AutoPurgeScheduler {
 				settings,
 				taskHistory,
 				currentTaskId,
-				{
-					skipActiveTask: true,
-					maxTasksToProcess: 100, // Limit to prevent excessive processing
-				},
+				AutoPurgeScheduler.PURGE_OPTIONS,
 				onTaskPurged,
 			)
 
 			console.log(
-				`[AutoPurgeScheduler] Purge completed: ${result.tasksSuccessfullyPurged} tasks purged, ${result.diskSpaceFreedBytes} bytes freed`,
+				`[AutoPurgeScheduler] Purge completed: ${result.tasksSuccessfullyPurged} tasks purged, ${result.checkpointsPruned} checkpoints pruned, ${result.diskSpaceFreedBytes} bytes freed`,
 			)
 
 			// Show notification if significant cleanup occurred
-			if (result.tasksSuccessfullyPurged > 0) {
+			if (result.tasksSuccessfullyPurged > 0 || result.checkpointsPruned > 0) {
 				const freedMB = Math.round(result.diskSpaceFreedBytes / (1024 * 1024))
-				const message = `Auto-purge cleaned up ${result.tasksSuccessfullyPurged} old tasks, freeing ${freedMB} MB of disk space.`
+				const checkpointsMessage =
+					result.checkpointsPruned > 0 ? ` and the checkpoints of ${result.checkpointsPruned} tasks` : ""
+				const message = `Auto-purge cleaned up ${result.tasksSuccessfullyPurged} old tasks${checkpointsMessage}, freeing ${freedMB} MB of disk space.`
 
 				vscode.window.showInformationMessage(message)
 			}
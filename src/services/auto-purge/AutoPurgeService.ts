@@ -8,6 +8,8 @@ import {
 	type PurgeError,
 	TaskType,
 	type PurgeOptions,
+	type PurgeReason,
+	type PurgedTaskInfo,
 	type HistoryItem,
 	TelemetryEventName,
 } from "@roo-code/types"
@@ -15,6 +17,15 @@ import { TelemetryService } from "@roo-code/telemetry"
 import { getTaskDirectoryPath } from "../../utils/storage"
 import { fileExistsAtPath } from "../../utils/fs"
 
+const BYTES_PER_MB = 1024 * 1024
+
+/**
+ * A task kept by the retention policies, with the size of its directory
+ */
+interface StoredTaskInfo extends TaskPurgeInfo {
+	sizeBytes: number
+}
+
 /**
  * Service responsible for automatically purging old tasks to manage disk usage
  */
@@ -42,6 +53,8 @@ export class AutoPurgeService {
 			tasksSuccessfullyPurged: 0,
 			tasksPurgeErrors: 0,
 			diskSpaceFreedBytes: 0,
+			checkpointsPruned: 0,
+			purgedTasks: [],
 			errors: [],
 			duration: 0,
 			timestamp: startTime,
@@ -62,43 +75,44 @@ export class AutoPurgeService {
 
 			// Process each eligible task
 			for (const taskInfo of eligibleTasks) {
-				if (options.maxTasksToProcess && result.tasksSuccessfullyPurged >= options.maxTasksToProcess) {
+				if (this.hasReachedMaxTasks(result, options)) {
 					console.log(`[AutoPurgeService] Reached max tasks limit: ${options.maxTasksToProcess}`)
 					break
 				}
 
-				try {
-					const taskSizeBytes = await this.getTaskSizeBytes(taskInfo.taskDirectoryPath)
-
-					if (!options.dryRun) {
-						await this.deleteTaskFiles(taskInfo.taskId)
-
-						// Remove task from state if callback provided
-						if (onTaskPurged) {
-							await onTaskPurged(taskInfo.taskId)
-						}
-
-						console.log(
-							`[AutoPurgeService] Successfully purged task ${taskInfo.taskId} (${taskSizeBytes} bytes)`,
-						)
-					} else {
-						console.log(
-							`[AutoPurgeService] [DRY RUN] Would purge task ${taskInfo.taskId} (${taskSizeBytes} bytes)`,
-						)
-					}
-
-					result.tasksSuccessfullyPurged++
-					result.diskSpaceFreedBytes += taskSizeBytes
-				} catch (error) {
-					const purgeError: PurgeError = {
-						taskId: taskInfo.taskId,
-						error: error instanceof Error ? error.message : String(error),
-						operation: "delete_files",
-					}
-					result.errors.push(purgeError)
-					result.tasksPurgeErrors++
-					console.error(`[AutoPurgeService] Failed to purge task ${taskInfo.taskId}:`, error)
+				const taskSizeBytes = await this.getTaskSizeBytes(taskInfo.taskDirectoryPath)
+				await this.purgeTask(taskInfo, "age", taskSizeBytes, result, options, onTaskPurged)
+			}
+
+			if (settings.maxCheckpointSizeMb || settings.storageQuotaMb) {
+				const purgedTaskIds = new Set(result.purgedTasks.map((purgedTask) => purgedTask.taskId))
+				const remainingTasks = await this.getRemainingTasks(
+					settings,
+					taskHistory.filter((historyItem) => !purgedTaskIds.has(historyItem.id)),
+				)
+
+				if (settings.maxCheckpointSizeMb) {
+					await this.pruneLargeCheckpoints(
+						remainingTasks,
+						settings.maxCheckpointSizeMb,
+						result,
+						currentTaskId,
+						options,
+					)
+				}
+
+				if (settings.storageQuotaMb) {
+					await this.evictTasksOverQuota(
+						remainingTasks,
+						settings.storageQuotaMb,
+						result,
+						currentTaskId,
+						options,
+						onTaskPurged,
+					)
 				}
+
+				result.storageUsedBytes = remainingTasks.reduce((total, task) => total + task.sizeBytes, 0)
 			}
 
 			result.duration = Date.now() - startTime
@@ -110,6 +124,7 @@ export class AutoPurgeService {
 				tasksSuccessfullyPurged: result.tasksSuccessfullyPurged,
 				tasksPurgeErrors: result.tasksPurgeErrors,
 				diskSpaceFreedBytes: result.diskSpaceFreedBytes,
+				checkpointsPruned: result.checkpointsPruned,
 				duration: result.duration,
 				dryRun: options.dryRun || false,
 			})
@@ -118,6 +133,7 @@ export class AutoPurgeService {
 				scanned: result.totalTasksScanned,
 				eligible: result.tasksEligibleForPurge,
 				purged: result.tasksSuccessfullyPurged,
+				checkpointsPruned: result.checkpointsPruned,
 				errors: result.tasksPurgeErrors,
 				freedBytes: result.diskSpaceFreedBytes,
 				duration: result.duration,
@@ -143,6 +159,201 @@ export class AutoPurgeService {
 		}
 	}
 
+	/**
+	 * Delete a task, or only report it in dry run mode
+	 */
+	private async purgeTask(
+		taskInfo: TaskPurgeInfo,
+		reason: PurgeReason,
+		taskSizeBytes: number,
+		result: PurgeResult,
+		options: PurgeOptions,
+		onTaskPurged?: (taskId: string) => Promise<void>,
+	): Promise<boolean> {
+		try {
+			if (!options.dryRun) {
+				await this.deleteTaskFiles(taskInfo.taskId)
+
+				// Remove task from state if callback provided
+				if (onTaskPurged) {
+					await onTaskPurged(taskInfo.taskId)
+				}
+
+				console.log(
+					`[AutoPurgeService] Successfully purged task ${taskInfo.taskId} (${taskSizeBytes} bytes, ${reason})`,
+				)
+			} else {
+				console.log(
+					`[AutoPurgeService] [DRY RUN] Would purge task ${taskInfo.taskId} (${taskSizeBytes} bytes, ${reason})`,
+				)
+			}
+
+			result.tasksSuccessfullyPurged++
+			result.diskSpaceFreedBytes += taskSizeBytes
+			result.purgedTasks.push(this.createPurgedTaskInfo(taskInfo, reason, taskSizeBytes))
+			return true
+		} catch (error) {
+			const purgeError: PurgeError = {
+				taskId: taskInfo.taskId,
+				error: error instanceof Error ? error.message : String(error),
+				operation: "delete_files",
+			}
+			result.errors.push(purgeError)
+			result.tasksPurgeErrors++
+			console.error(`[AutoPurgeService] Failed to purge task ${taskInfo.taskId}:`, error)
+			return false
+		}
+	}
+
+	/**
+	 * Delete the checkpoints of the tasks whose checkpoints repository is larger than the limit,
+	 * the conversations are kept
+	 */
+	private async pruneLargeCheckpoints(
+		remainingTasks: StoredTaskInfo[],
+		maxCheckpointSizeMb: number,
+		result: PurgeResult,
+		currentTaskId: string | undefined,
+		options: PurgeOptions,
+	): Promise<void> {
+		const maxCheckpointSizeBytes = maxCheckpointSizeMb * BYTES_PER_MB
+
+		for (const task of remainingTasks) {
+			if (task.taskType === TaskType.FAVORITED) {
+				continue
+			}
+			if (options.skipActiveTask && this.isTaskActive(task.taskId, currentTaskId)) {
+				continue
+			}
+
+			const checkpointsPath = path.join(task.taskDirectoryPath, "checkpoints")
+			const checkpointsSizeBytes = await this.getTaskSizeBytes(checkpointsPath)
+			if (checkpointsSizeBytes <= maxCheckpointSizeBytes) {
+				continue
+			}
+
+			try {
+				if (!options.dryRun) {
+					await fs.rm(checkpointsPath, { recursive: true, force: true })
+					console.log(
+						`[AutoPurgeService] Pruned checkpoints of task ${task.taskId} (${checkpointsSizeBytes} bytes)`,
+					)
+				} else {
+					console.log(
+						`[AutoPurgeService] [DRY RUN] Would prune checkpoints of task ${task.taskId} (${checkpointsSizeBytes} bytes)`,
+					)
+				}
+
+				task.sizeBytes -= checkpointsSizeBytes
+				result.checkpointsPruned++
+				result.diskSpaceFreedBytes += checkpointsSizeBytes
+				result.purgedTasks.push(this.createPurgedTaskInfo(task, "checkpoint_size", checkpointsSizeBytes))
+			} catch (error) {
+				result.errors.push({
+					taskId: task.taskId,
+					error: error instanceof Error ? error.message : String(error),
+					operation: "delete_checkpoints",
+				})
+				console.error(`[AutoPurgeService] Failed to prune checkpoints of task ${task.taskId}:`, error)
+			}
+		}
+	}
+
+	/**
+	 * Delete the least recently used tasks until the task storage fits in the quota. Favorited
+	 * tasks are never evicted, even when they alone are over the quota.
+	 */
+	private async evictTasksOverQuota(
+		remainingTasks: StoredTaskInfo[],
+		storageQuotaMb: number,
+		result: PurgeResult,
+		currentTaskId: string | undefined,
+		options: PurgeOptions,
+		onTaskPurged?: (taskId: string) => Promise<void>,
+	): Promise<void> {
+		const storageQuotaBytes = storageQuotaMb * BYTES_PER_MB
+		let storageUsedBytes = remainingTasks.reduce((total, task) => total + task.sizeBytes, 0)
+
+		const evictionCandidates = remainingTasks
+			.filter((task) => task.taskType !== TaskType.FAVORITED)
+			.filter((task) => !(options.skipActiveTask && this.isTaskActive(task.taskId, currentTaskId)))
+			.sort((a, b) => a.historyItem.ts - b.historyItem.ts)
+
+		for (const task of evictionCandidates) {
+			if (storageUsedBytes <= storageQuotaBytes) {
+				break
+			}
+			if (this.hasReachedMaxTasks(result, options)) {
+				console.log(`[AutoPurgeService] Reached max tasks limit: ${options.maxTasksToProcess}`)
+				break
+			}
+
+			result.tasksEligibleForPurge++
+			if (await this.purgeTask(task, "storage_quota", task.sizeBytes, result, options, onTaskPurged)) {
+				storageUsedBytes -= task.sizeBytes
+				remainingTasks.splice(remainingTasks.indexOf(task), 1)
+			}
+		}
+
+		if (storageUsedBytes > storageQuotaBytes) {
+			console.warn(
+				`[AutoPurgeService] Task storage (${storageUsedBytes} bytes) is still over the quota (${storageQuotaBytes} bytes)`,
+			)
+		}
+	}
+
+	/**
+	 * Get the tasks left after the retention purge with the size of their directory
+	 */
+	private async getRemainingTasks(
+		settings: AutoPurgeSettings,
+		taskHistory: HistoryItem[],
+	): Promise<StoredTaskInfo[]> {
+		const now = Date.now()
+		const remainingTasks: StoredTaskInfo[] = []
+
+		for (const historyItem of taskHistory) {
+			try {
+				const taskDirectoryPath = await getTaskDirectoryPath(this.globalStoragePath, historyItem.id)
+				if (!(await fileExistsAtPath(taskDirectoryPath))) {
+					continue
+				}
+
+				const taskType = await this.classifyTask(historyItem)
+				const retentionDays = this.getRetentionDaysForTaskType(taskType, settings)
+				remainingTasks.push({
+					taskId: historyItem.id,
+					historyItem,
+					taskType,
+					ageInDays: Math.floor((now - historyItem.ts) / (1000 * 60 * 60 * 24)),
+					shouldPurge: false,
+					retentionDays: retentionDays || -1,
+					taskDirectoryPath,
+					sizeBytes: await this.getTaskSizeBytes(taskDirectoryPath),
+				})
+			} catch (error) {
+				console.error(`[AutoPurgeService] Error processing task ${historyItem.id}:`, error)
+			}
+		}
+
+		return remainingTasks
+	}
+
+	private hasReachedMaxTasks(result: PurgeResult, options: PurgeOptions): boolean {
+		return !!options.maxTasksToProcess && result.tasksSuccessfullyPurged >= options.maxTasksToProcess
+	}
+
+	private createPurgedTaskInfo(taskInfo: TaskPurgeInfo, reason: PurgeReason, sizeBytes: number): PurgedTaskInfo {
+		return {
+			taskId: taskInfo.taskId,
+			task: taskInfo.historyItem.task,
+			taskType: taskInfo.taskType,
+			reason,
+			ageInDays: taskInfo.ageInDays,
+			sizeBytes,
+		}
+	}
+
 	/**
 	 * Get all tasks that are eligible for purging based on settings
 	 */
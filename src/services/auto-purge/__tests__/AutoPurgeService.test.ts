@@ -544,6 +544,133 @@ describe("AutoPurgeService", () => {
 		})
 	})
 
+	describe("storage quota", () => {
+		const MB = 1024 * 1024
+		const now = Date.now()
+		const daysAgo = (days: number) => now - days * 24 * 60 * 60 * 1000
+
+		const settings: AutoPurgeSettings = {
+			enabled: true,
+			defaultRetentionDays: 30,
+			favoritedTaskRetentionDays: null,
+			completedTaskRetentionDays: 30,
+			incompleteTaskRetentionDays: 30,
+			storageQuotaMb: 25,
+		}
+
+		const createTask = (id: string, ts: number, isFavorited = false): HistoryItem => ({
+			id,
+			ts,
+			task: `Task ${id}`,
+			tokensIn: 100,
+			tokensOut: 50,
+			totalCost: 0.01,
+			number: 1,
+			isFavorited,
+		})
+
+		const folderSizes: Record<string, number> = {
+			"/mock/path/oldest": 10 * MB,
+			"/mock/path/favorited": 10 * MB,
+			"/mock/path/older": 10 * MB,
+			"/mock/path/newest": 10 * MB,
+			"/mock/path/older/checkpoints": 8 * MB,
+			"/mock/path/newest/checkpoints": 2 * MB,
+		}
+
+		beforeEach(async () => {
+			const { fileExistsAtPath } = await import("../../../utils/fs")
+			vi.mocked(fileExistsAtPath).mockImplementation(
+				async (filePath: string) => !filePath.includes("ui_messages.json"),
+			)
+
+			const { getTaskDirectoryPath } = await import("../../../utils/storage")
+			vi.mocked(getTaskDirectoryPath).mockImplementation(async (_, taskId) => `/mock/path/${taskId}`)
+
+			mockGetFolderSize.loose = vi
+				.fn()
+				.mockImplementation(async (folderPath: string) => folderSizes[folderPath] ?? 0)
+			mockFs.rm = vi.fn().mockResolvedValue(undefined)
+		})
+
+		it("should evict the least recently used unfavorited tasks until under the quota", async () => {
+			const taskHistory = [
+				createTask("newest", daysAgo(1)),
+				createTask("favorited", daysAgo(20), true),
+				createTask("oldest", daysAgo(10)),
+				createTask("older", daysAgo(5)),
+			]
+
+			const result = await autoPurgeService.purgeOldTasks(settings, taskHistory, "newest", {
+				skipActiveTask: true,
+			})
+
+			expect(result.purgedTasks.map((task) => [task.taskId, task.reason])).toEqual([
+				["oldest", "storage_quota"],
+				["older", "storage_quota"],
+			])
+			expect(mockFs.rm).toHaveBeenCalledTimes(2)
+			expect(mockFs.rm).toHaveBeenCalledWith("/mock/path/oldest", { recursive: true, force: true })
+			expect(mockFs.rm).toHaveBeenCalledWith("/mock/path/older", { recursive: true, force: true })
+			expect(result.tasksSuccessfullyPurged).toBe(2)
+			expect(result.diskSpaceFreedBytes).toBe(20 * MB)
+			expect(result.storageUsedBytes).toBe(20 * MB)
+		})
+
+		it("should prune large checkpoints before evicting tasks and keep the conversation", async () => {
+			const taskHistory = [createTask("newest", daysAgo(1)), createTask("older", daysAgo(5))]
+
+			const result = await autoPurgeService.purgeOldTasks(
+				{ ...settings, storageQuotaMb: 15, maxCheckpointSizeMb: 5 },
+				taskHistory,
+			)
+
+			expect(mockFs.rm).toHaveBeenCalledTimes(1)
+			expect(mockFs.rm).toHaveBeenCalledWith("/mock/path/older/checkpoints", { recursive: true, force: true })
+			expect(result.checkpointsPruned).toBe(1)
+			expect(result.tasksSuccessfullyPurged).toBe(0)
+			expect(result.purgedTasks).toEqual([
+				expect.objectContaining({ taskId: "older", reason: "checkpoint_size", sizeBytes: 8 * MB }),
+			])
+			expect(result.storageUsedBytes).toBe(12 * MB)
+		})
+
+		it("should report what would be deleted in dry run mode", async () => {
+			const onTaskPurged = vi.fn()
+			const taskHistory = [
+				createTask("newest", daysAgo(1)),
+				createTask("older", daysAgo(5)),
+				createTask("oldest", daysAgo(10)),
+			]
+
+			const result = await autoPurgeService.purgeOldTasks(
+				{ ...settings, storageQuotaMb: 15, maxCheckpointSizeMb: 5 },
+				taskHistory,
+				undefined,
+				{ dryRun: true },
+				onTaskPurged,
+			)
+
+			expect(mockFs.rm).not.toHaveBeenCalled()
+			expect(onTaskPurged).not.toHaveBeenCalled()
+			expect(result.purgedTasks.map((task) => [task.taskId, task.reason])).toEqual([
+				["older", "checkpoint_size"],
+				["oldest", "storage_quota"],
+			])
+			expect(result.storageUsedBytes).toBe(12 * MB)
+		})
+
+		it("should not measure the storage without a quota or checkpoint limit", async () => {
+			const taskHistory = [createTask("newest", daysAgo(1))]
+
+			const result = await autoPurgeService.purgeOldTasks({ ...settings, storageQuotaMb: null }, taskHistory)
+
+			expect(mockGetFolderSize.loose).not.toHaveBeenCalled()
+			expect(result.storageUsedBytes).toBeUndefined()
+			expect(result.purgedTasks).toEqual([])
+		})
+	})
+
 	describe("getTaskStorageStats", () => {
 		it("should calculate storage statistics correctly", async () => {
 			const now = Date.now()
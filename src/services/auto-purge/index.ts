@@ -1,2 +1,3 @@
 export { AutoPurgeService } from "./AutoPurgeService"
 export { AutoPurgeScheduler } from "./AutoPurgeScheduler"
+export { formatPurgeReport } from "./purgeReport"
@@ -0,0 +1,73 @@
+import type { AutoPurgeSettings, PurgeReason, PurgeResult } from "@roo-code/types"
+
+const REASON_LABELS: Record<PurgeReason, string> = {
+	age: "Retention period",
+	storage_quota: "Storage quota",
+	checkpoint_size: "Checkpoints only",
+}
+
+function formatMb(bytes: number): string {
+	return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function escapeTableCell(text: string): string {
+	return text.replace(/\s+/g, " ").replace(/\|/g, "\\|").slice(0, 80)
+}
+
+/**
+ * Format the result of a dry run purge as a markdown report of what would be deleted
+ */
+export function formatPurgeReport(settings: AutoPurgeSettings, result: PurgeResult): string {
+	const lines = [
+		"# Auto-Purge Preview",
+		"",
+		`Generated ${new Date(result.timestamp).toLocaleString()}. Nothing has been deleted.`,
+		"",
+		"## Settings",
+		"",
+		`- Completed tasks are kept ${settings.completedTaskRetentionDays} days`,
+		`- Incomplete tasks are kept ${settings.incompleteTaskRetentionDays} days`,
+		`- Favorited tasks are kept ${settings.favoritedTaskRetentionDays === null ? "forever" : `${settings.favoritedTaskRetentionDays} days`}`,
+		`- Storage quota: ${settings.storageQuotaMb ? `${settings.storageQuotaMb} MB` : "none"}`,
+		`- Checkpoint size limit per task: ${settings.maxCheckpointSizeMb ? `${settings.maxCheckpointSizeMb} MB` : "none"}`,
+		"",
+		"## Summary",
+		"",
+		`- Tasks scanned: ${result.totalTasksScanned}`,
+		`- Tasks that would be deleted: ${result.tasksSuccessfullyPurged}`,
+		`- Tasks whose checkpoints would be deleted: ${result.checkpointsPruned}`,
+		`- Disk space that would be freed: ${formatMb(result.diskSpaceFreedBytes)}`,
+	]
+
+	if (result.storageUsedBytes !== undefined) {
+		lines.push(`- Task storage after the purge: ${formatMb(result.storageUsedBytes)}`)
+	}
+
+	lines.push("")
+
+	if (result.purgedTasks.length === 0) {
+		lines.push("No task would be deleted.")
+	} else {
+		lines.push(
+			"## Tasks",
+			"",
+			"| Task | Type | Age (days) | Size | Reason |",
+			"| --- | --- | --- | --- | --- |",
+			...result.purgedTasks.map(
+				(purgedTask) =>
+					`| ${escapeTableCell(purgedTask.task || purgedTask.taskId)} | ${purgedTask.taskType} | ${purgedTask.ageInDays} | ${formatMb(purgedTask.sizeBytes)} | ${REASON_LABELS[purgedTask.reason]} |`,
+			),
+		)
+	}
+
+	if (result.errors.length > 0) {
+		lines.push(
+			"",
+			"## Errors",
+			"",
+			...result.errors.map((purgeError) => `- ${purgeError.taskId}: ${purgeError.error}`),
+		)
+	}
+
+	return lines.join("\n") + "\n"
+}
@@ -0,0 +1,250 @@
+// kilocode_change - new file
+import type { HTTPRequest, HTTPResponse, Page } from "puppeteer-core"
+
+// Bounds of the log, the oldest entries are dropped first
+const MAX_NETWORK_ENTRIES = 500
+const MAX_PAGE_ERRORS = 100
+
+// Limits the number of entries a query returns to the model
+const MAX_QUERY_RESULTS = 50
+
+/**
+ * A request of the browser session, modeled after the entries of a HAR log
+ */
+export type NetworkLogEntry = {
+	startedDateTime: string
+	/** Duration of the request in milliseconds, once it finished or failed */
+	time?: number
+	method: string
+	url: string
+	resourceType: string
+	status?: number
+	statusText?: string
+	mimeType?: string
+	/** Error text of requests that failed without a response, e.g. net::ERR_CONNECTION_REFUSED */
+	failure?: string
+}
+
+export type PageErrorEntry = {
+	timestamp: string
+	url: string
+	message: string
+}
+
+export type NetworkLogFilter = {
+	/** Substring of the URL, or a glob pattern when it contains `*` */
+	urlPattern?: string
+	/** A status code (404), a status class (4xx), a range (400-499), `failed` or `error` (failed or status >= 400) */
+	status?: string
+}
+
+/**
+ * Records the requests, responses and uncaught errors of the pages of a browser session
+ */
+export class BrowserNetworkLog {
+	private entries: NetworkLogEntry[] = []
+	private pageErrors: PageErrorEntry[] = []
+	private droppedEntries = 0
+	private requestEntries = new WeakMap<HTTPRequest, { entry: NetworkLogEntry; startTime: number }>()
+	private pages = new WeakSet<Page>()
+
+	/**
+	 * Starts recording the page, pages are only recorded once
+	 */
+	attach(page: Page) {
+		if (this.pages.has(page)) {
+			return
+		}
+
+		this.pages.add(page)
+
+		page.on("request", (request: HTTPRequest) => this.onRequest(request))
+		page.on("response", (response: HTTPResponse) => this.onResponse(response))
+		page.on("requestfinished", (request: HTTPRequest) => this.onRequestDone(request))
+		page.on("requestfailed", (request: HTTPRequest) => this.onRequestDone(request, request.failure()?.errorText))
+		page.on("pageerror", (error: unknown) => this.onPageError(page, error))
+	}
+
+	clear() {
+		this.entries = []
+		this.pageErrors = []
+		this.droppedEntries = 0
+		this.requestEntries = new WeakMap()
+		this.pages = new WeakSet()
+	}
+
+	getEntries(filter: NetworkLogFilter = {}): NetworkLogEntry[] {
+		const matchesUrl = createUrlMatcher(filter.urlPattern)
+		const matchesStatus = createStatusMatcher(filter.status)
+
+		return this.entries.filter((entry) => matchesUrl(entry.url) && matchesStatus(entry))
+	}
+
+	getPageErrors(): PageErrorEntry[] {
+		return [...this.pageErrors]
+	}
+
+	/**
+	 * Describes the matching requests and the page errors as text for the model
+	 */
+	query(filter: NetworkLogFilter = {}): string {
+		const entries = this.getEntries(filter)
+		const shownEntries = entries.slice(-MAX_QUERY_RESULTS)
+		const sections: string[] = []
+
+		const filters = [
+			filter.urlPattern ? `URL matching "${filter.urlPattern}"` : undefined,
+			filter.status ? `status ${filter.status}` : undefined,
+		].filter(Boolean)
+
+		sections.push(
+			`Requests${filters.length ? ` with ${filters.join(" and ")}` : ""}: ${entries.length} of ${this.entries.length} recorded${
+				this.droppedEntries ? ` (${this.droppedEntries} older requests were dropped)` : ""
+			}`,
+		)
+
+		if (entries.length > shownEntries.length) {
+			sections.push(`(Showing the last ${shownEntries.length} matching requests)`)
+		}
+
+		sections.push(shownEntries.length ? shownEntries.map(formatEntry).join("\n") : "(No matching requests)")
+
+		sections.push(
+			`Page errors: ${this.pageErrors.length}\n${
+				this.pageErrors.length
+					? this.pageErrors.map((error) => `[${error.timestamp}] ${error.url}: ${error.message}`).join("\n")
+					: "(No page errors)"
+			}`,
+		)
+
+		return sections.join("\n\n")
+	}
+
+	private onRequest(request: HTTPRequest) {
+		const entry: NetworkLogEntry = {
+			startedDateTime: new Date().toISOString(),
+			method: request.method(),
+			url: request.url(),
+			resourceType: request.resourceType(),
+		}
+
+		this.requestEntries.set(request, { entry, startTime: Date.now() })
+		this.entries.push(entry)
+
+		if (this.entries.length > MAX_NETWORK_ENTRIES) {
+			this.entries.shift()
+			this.droppedEntries++
+		}
+	}
+
+	private onResponse(response: HTTPResponse) {
+		const recorded = this.requestEntries.get(response.request())
+
+		if (!recorded) {
+			return
+		}
+
+		recorded.entry.status = response.status()
+		recorded.entry.statusText = response.statusText()
+		recorded.entry.mimeType = response.headers()["content-type"]
+	}
+
+	private onRequestDone(request: HTTPRequest, failure?: string) {
+		const recorded = this.requestEntries.get(request)
+
+		if (!recorded) {
+			return
+		}
+
+		recorded.entry.time = Date.now() - recorded.startTime
+
+		if (failure) {
+			recorded.entry.failure = failure
+		}
+	}
+
+	private onPageError(page: Page, error: unknown) {
+		this.pageErrors.push({
+			timestamp: new Date().toISOString(),
+			url: page.url(),
+			message: error instanceof Error ? error.message : String(error),
+		})
+
+		if (this.pageErrors.length > MAX_PAGE_ERRORS) {
+			this.pageErrors.shift()
+		}
+	}
+}
+
+function createUrlMatcher(urlPattern?: string): (url: string) => boolean {
+	const pattern = urlPattern?.trim().toLowerCase()
+
+	if (!pattern) {
+		return () => true
+	}
+
+	if (!pattern.includes("*")) {
+		return (url) => url.toLowerCase().includes(pattern)
+	}
+
+	const regex = new RegExp(
+		pattern
+			.split("*")
+			.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+			.join(".*"),
+	)
+
+	return (url) => regex.test(url.toLowerCase())
+}
+
+function createStatusMatcher(status?: string): (entry: NetworkLogEntry) => boolean {
+	const filter = status?.trim().toLowerCase()
+
+	if (!filter) {
+		return () => true
+	}
+
+	if (filter === "failed") {
+		return (entry) => entry.failure !== undefined
+	}
+
+	if (filter === "error") {
+		return (entry) => entry.failure !== undefined || (entry.status ?? 0) >= 400
+	}
+
+	const statusClass = filter.match(/^([1-5])xx$/)
+
+	if (statusClass) {
+		const min = Number(statusClass[1]) * 100
+		return (entry) => entry.status !== undefined && entry.status >= min && entry.status < min + 100
+	}
+
+	const range = filter.match(/^(\d{3})\s*-\s*(\d{3})$/)
+
+	if (range) {
+		return (entry) =>
+			entry.status !== undefined && entry.status >= Number(range[1]) && entry.status <= Number(range[2])
+	}
+
+	if (/^\d{3}$/.test(filter)) {
+		return (entry) => entry.status === Number(filter)
+	}
+
+	throw new Error(
+		`Invalid status filter "${status}". Use a status code (404), a status class (4xx), a range (400-499), "failed" or "error".`,
+	)
+}
+
+function formatEntry(entry: NetworkLogEntry): string {
+	const outcome = entry.failure
+		? `failed (${entry.failure})`
+		: entry.status !== undefined
+			? `${entry.status}${entry.statusText ? ` ${entry.statusText}` : ""}`
+			: "pending"
+
+	const details = [entry.resourceType, entry.mimeType, entry.time !== undefined ? `${entry.time} ms` : undefined]
+		.filter(Boolean)
+		.join(", ")
+
+	return `[${entry.startedDateTime}] ${entry.method} ${entry.url} -> ${outcome}${details ? ` (${details})` : ""}`
+}
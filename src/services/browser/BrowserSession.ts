@@ -2,6 +2,7 @@ import * as vscode from "vscode"
 import * as fs from "fs/promises"
 import * as path from "path"
 import { Browser, Page, ScreenshotOptions, TimeoutError, launch, connect } from "puppeteer-core"
+import type { ElementHandle, KeyInput, Protocol, SerializedAXNode } from "puppeteer-core" // kilocode_change
 // @ts-ignore
 import PCR from "puppeteer-chromium-resolver"
 import pWaitFor from "p-wait-for"
@@ -9,9 +10,36 @@ import delay from "delay"
 import { fileExistsAtPath } from "../../utils/fs"
 import { BrowserActionResult } from "../../shared/ExtensionMessage"
 import { discoverChromeHostUrl, tryChromeHostUrl } from "./browserDiscovery"
+import { BrowserNetworkLog, NetworkLogFilter } from "./BrowserNetworkLog" // kilocode_change
 
 // Timeout constants
 const BROWSER_NAVIGATION_TIMEOUT = 15_000 // 15 seconds
+// kilocode_change start
+const ELEMENT_TIMEOUT = 5_000 // 5 seconds
+const WAIT_FOR_TIMEOUT = 10_000 // 10 seconds
+
+// Limits the size of accessibility snapshots and evaluation results sent to the model
+const MAX_SNAPSHOT_LENGTH = 20_000
+const MAX_EVALUATION_RESULT_LENGTH = 5_000
+
+const ELEMENT_REF_REGEX = /^(?:ref=)?(e\d+)$/
+
+// Roles of text nodes, which are described by their parent and don't need a ref
+const UNREFERENCED_ROLES = new Set(["StaticText", "InlineTextBox", "LineBreak", "text", "none"])
+
+// Roles of containers that only group their children, they are left out of snapshots unless they have a name
+const GROUPING_ROLES = new Set(["generic", "none", "presentation"])
+
+/** What a snapshot describes of an accessibility node */
+type SnapshotNode = Omit<SerializedAXNode, "children" | "elementHandle">
+
+/** The element a ref of the last snapshot stands for, it is only resolved to an element handle by an action using it */
+interface ElementRef {
+	backendNodeId: number
+	role: string
+	name: string
+}
+// kilocode_change end
 
 interface PCRStats {
 	puppeteer: { launch: typeof launch }
@@ -25,6 +53,13 @@ export class BrowserSession {
 	private currentMousePosition?: string
 	private lastConnectionAttempt?: number
 	private isUsingRemoteBrowser: boolean = false
+	// kilocode_change start
+	private snapshotMode = false
+	private elementRefs = new Map<string, ElementRef>()
+	private nodeRefs = new Map<number, string>()
+	private nextElementRef = 1
+	private networkLog = new BrowserNetworkLog()
+	// kilocode_change end
 
 	constructor(context: vscode.ExtensionContext) {
 		this.context = context
@@ -216,9 +251,18 @@ export class BrowserSession {
 		this.page = undefined
 		this.currentMousePosition = undefined
 		this.isUsingRemoteBrowser = false
+		// kilocode_change start
+		this.clearElementRefs()
+		this.networkLog.clear()
+		// kilocode_change end
 	}
 
-	async doAction(action: (page: Page) => Promise<void>): Promise<BrowserActionResult> {
+	// kilocode_change start
+	async doAction(
+		action: (page: Page) => Promise<void>,
+		captureOptions: { snapshot?: boolean } = {},
+	): Promise<BrowserActionResult> {
+		// kilocode_change end
 		if (!this.page) {
 			throw new Error(
 				"Browser is not launched. This may occur if the browser was automatically closed by a non-`browser_action` tool.",
@@ -260,6 +304,20 @@ export class BrowserSession {
 			interval: 100,
 		}).catch(() => {})
 
+		// kilocode_change start
+		if (captureOptions.snapshot || this.snapshotMode) {
+			this.page.off("console", consoleListener)
+			this.page.off("pageerror", errorListener)
+
+			return {
+				snapshot: await this.takeSnapshot(this.page),
+				logs: logs.join("\n"),
+				currentUrl: this.page.url(),
+				currentMousePosition: this.currentMousePosition,
+			}
+		}
+		// kilocode_change end
+
 		let options: ScreenshotOptions = {
 			encoding: "base64",
 
@@ -340,6 +398,10 @@ export class BrowserSession {
 
 		// Set the new page as the active page
 		this.page = newPage
+		// kilocode_change start
+		this.clearElementRefs()
+		this.networkLog.attach(newPage)
+		// kilocode_change end
 
 		// Navigate to the URL
 		const result = await this.doAction(async (page) => {
@@ -384,6 +446,12 @@ export class BrowserSession {
 			console.log(`Tab with domain ${rootDomain} already exists, switching to it`)
 
 			// Update the active page
+			// kilocode_change start
+			if (this.page !== existingPage) {
+				this.clearElementRefs()
+			}
+			this.networkLog.attach(existingPage)
+			// kilocode_change end
 			this.page = existingPage
 			existingPage.bringToFront()
 
@@ -557,4 +625,463 @@ export class BrowserSession {
 			})
 		})
 	}
+
+	// kilocode_change start
+	/**
+	 * Makes every action return an accessibility snapshot instead of a screenshot, for models that can't see images
+	 */
+	setSnapshotMode(enabled: boolean) {
+		this.snapshotMode = enabled
+	}
+
+	async snapshot(): Promise<BrowserActionResult> {
+		return this.doAction(async () => {}, { snapshot: true })
+	}
+
+	async clickElement(selector: string): Promise<BrowserActionResult> {
+		return this.doAction(
+			async (page) => {
+				await this.withElement(page, selector, (element) =>
+					this.handleElementInteraction(page, () => element.click()),
+				)
+			},
+			{ snapshot: true },
+		)
+	}
+
+	async hoverElement(selector: string): Promise<BrowserActionResult> {
+		return this.doAction(
+			async (page) => {
+				await this.withElement(page, selector, async (element) => {
+					await element.hover()
+					// Small delay to allow any hover effects to appear
+					await delay(300)
+				})
+			},
+			{ snapshot: true },
+		)
+	}
+
+	/**
+	 * Replaces the value of a text field
+	 */
+	async fill(selector: string, text: string): Promise<BrowserActionResult> {
+		return this.doAction(
+			async (page) => {
+				await this.withElement(page, selector, async (element) => {
+					await element.evaluate((el) => {
+						if (el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement) {
+							el.value = ""
+						} else if (el instanceof HTMLElement && el.isContentEditable) {
+							el.textContent = ""
+						}
+					})
+					await element.type(text)
+				})
+			},
+			{ snapshot: true },
+		)
+	}
+
+	/**
+	 * Selects the option of a select element with the given value or label
+	 */
+	async select(selector: string, option: string): Promise<BrowserActionResult> {
+		return this.doAction(
+			async (page) => {
+				await this.withElement(page, selector, async (element) => {
+					const value = await element.evaluate((el, option) => {
+						if (!(el instanceof HTMLSelectElement)) {
+							throw new Error("The element is not a select element")
+						}
+
+						return Array.from(el.options).find(
+							(candidate) =>
+								candidate.value === option ||
+								candidate.label === option ||
+								candidate.text.trim() === option,
+						)?.value
+					}, option)
+
+					if (value === undefined) {
+						throw new Error(`The select element has no option "${option}"`)
+					}
+
+					await element.select(value)
+				})
+			},
+			{ snapshot: true },
+		)
+	}
+
+	/**
+	 * Presses a key, on the given element or on the focused element of the page
+	 */
+	async press(key: string, selector?: string): Promise<BrowserActionResult> {
+		return this.doAction(
+			async (page) => {
+				if (selector) {
+					await this.withElement(page, selector, (element) =>
+						this.handleElementInteraction(page, () => element.press(key as KeyInput)),
+					)
+				} else {
+					await this.handleElementInteraction(page, () => page.keyboard.press(key as KeyInput))
+				}
+			},
+			{ snapshot: true },
+		)
+	}
+
+	/**
+	 * Waits until an element matches the selector or, without a selector, until the text appears on the page
+	 */
+	async waitFor(selector?: string, text?: string): Promise<BrowserActionResult> {
+		return this.doAction(
+			async (page) => {
+				try {
+					const ref = selector?.trim().match(ELEMENT_REF_REGEX)?.[1]
+
+					if (ref) {
+						await this.waitForElementRef(page, ref)
+					} else if (selector) {
+						await page.waitForSelector(selector, { visible: true, timeout: WAIT_FOR_TIMEOUT })
+					} else if (text) {
+						await page.waitForFunction(
+							(text: string) => document.body?.innerText.includes(text) ?? false,
+							{ timeout: WAIT_FOR_TIMEOUT },
+							text,
+						)
+					}
+				} catch (error) {
+					if (error instanceof TimeoutError) {
+						throw new Error(`Timed out after ${WAIT_FOR_TIMEOUT / 1000}s waiting for "${selector ?? text}"`)
+					}
+					throw error
+				}
+			},
+			{ snapshot: true },
+		)
+	}
+
+	/**
+	 * Evaluates a JavaScript expression in the page and returns its JSON-serialized result
+	 */
+	async evaluate(script: string): Promise<BrowserActionResult> {
+		let evaluationResult: string | undefined
+
+		const result = await this.doAction(
+			async (page) => {
+				const value = await page.evaluate(script)
+				const serialized = value === undefined ? "undefined" : JSON.stringify(value, null, 2)
+				evaluationResult =
+					serialized.length > MAX_EVALUATION_RESULT_LENGTH
+						? `${serialized.slice(0, MAX_EVALUATION_RESULT_LENGTH)}\n... (result truncated)`
+						: serialized
+			},
+			{ snapshot: true },
+		)
+
+		return { ...result, evaluationResult }
+	}
+
+	/**
+	 * Describes the requests and uncaught page errors recorded during the session, filtered by URL pattern and status
+	 */
+	async queryNetworkLog(filter: NetworkLogFilter): Promise<BrowserActionResult> {
+		if (!this.page) {
+			throw new Error(
+				"Browser is not launched. This may occur if the browser was automatically closed by a non-`browser_action` tool.",
+			)
+		}
+
+		try {
+			return { networkLog: this.networkLog.query(filter), currentUrl: this.page.url() }
+		} catch (error) {
+			return {
+				logs: `[Error] ${error instanceof Error ? error.message : String(error)}`,
+				currentUrl: this.page.url(),
+			}
+		}
+	}
+
+	/**
+	 * Resolves an element ref from the last snapshot (e.g. `e12`) or a CSS selector, and runs the action on the element
+	 */
+	private async withElement(
+		page: Page,
+		selector: string,
+		action: (element: ElementHandle) => Promise<void>,
+	): Promise<void> {
+		const ref = selector.trim().match(ELEMENT_REF_REGEX)?.[1]
+		let element: ElementHandle | null
+
+		if (ref) {
+			element = await this.resolveElementRef(page, ref)
+			if (!element) {
+				throw new Error(
+					`The element of ref "${ref}" is no longer on the page. Take a new snapshot to get the current element refs.`,
+				)
+			}
+		} else {
+			element = await page.waitForSelector(selector, { timeout: ELEMENT_TIMEOUT }).catch(() => null)
+			if (!element) {
+				throw new Error(`No element matches the selector "${selector}"`)
+			}
+		}
+
+		try {
+			await action(element)
+		} finally {
+			await element.dispose().catch(() => {})
+		}
+	}
+
+	/**
+	 * Runs an interaction and, if it triggered network activity, waits for the page to load
+	 */
+	private async handleElementInteraction(page: Page, action: () => Promise<void>): Promise<void> {
+		let hasNetworkActivity = false
+		const requestListener = () => {
+			hasNetworkActivity = true
+		}
+		page.on("request", requestListener)
+
+		try {
+			await action()
+
+			// Small delay to check if action triggered any network activity
+			await delay(100)
+
+			if (hasNetworkActivity) {
+				await page
+					.waitForNavigation({
+						waitUntil: ["domcontentloaded", "networkidle2"],
+						timeout: BROWSER_NAVIGATION_TIMEOUT,
+					})
+					.catch(() => {})
+				await this.waitTillHTMLStable(page)
+			}
+		} finally {
+			page.off("request", requestListener)
+		}
+	}
+
+	/**
+	 * Describes the accessibility tree of the page as indented text. Elements get a ref (e.g. `e12`) that stays the same
+	 * for as long as the element exists, so that later actions can target them. The tree is read in a single request
+	 * and only walked until the snapshot is full, the elements of the refs are looked up when an action uses them.
+	 */
+	private async takeSnapshot(page: Page): Promise<string> {
+		const session = await page.createCDPSession()
+		let nodes: Protocol.Accessibility.AXNode[]
+
+		try {
+			;({ nodes } = await session.send("Accessibility.getFullAXTree"))
+		} finally {
+			await session.detach().catch(() => {})
+		}
+
+		if (nodes.length === 0) {
+			return "(The page has no accessibility tree)"
+		}
+
+		const nodesById = new Map(nodes.map((node) => [node.nodeId, node]))
+		const elementRefs = new Map<string, ElementRef>()
+		const lines: string[] = []
+		let length = 0
+		let truncated = false
+
+		const visit = (node: Protocol.Accessibility.AXNode, depth: number, parentName?: string) => {
+			const snapshotNode = toSnapshotNode(node)
+			let name = parentName
+
+			if (isSnapshotNodeShown(node, snapshotNode, parentName)) {
+				const ref = this.getElementRef(node, snapshotNode, elementRefs)
+				const line = `${"  ".repeat(depth)}- ${formatSnapshotNode(snapshotNode, ref)}`
+
+				length += line.length + 1
+				if (length > MAX_SNAPSHOT_LENGTH) {
+					truncated = true
+					return
+				}
+
+				lines.push(line)
+				depth++
+				name = snapshotNode.name
+			}
+
+			for (const childId of node.childIds ?? []) {
+				const child = nodesById.get(childId)
+				if (child && !truncated) {
+					visit(child, depth, name)
+				}
+			}
+		}
+
+		visit(nodes[0], 0)
+		this.elementRefs = elementRefs
+
+		const snapshot = lines.join("\n")
+		return truncated ? `${snapshot}\n... (snapshot truncated)` : snapshot
+	}
+
+	private getElementRef(
+		node: Protocol.Accessibility.AXNode,
+		snapshotNode: SnapshotNode,
+		elementRefs: Map<string, ElementRef>,
+	): string | undefined {
+		if (UNREFERENCED_ROLES.has(snapshotNode.role) || node.backendDOMNodeId === undefined) {
+			return undefined
+		}
+
+		let ref = this.nodeRefs.get(node.backendDOMNodeId)
+
+		if (!ref) {
+			ref = `e${this.nextElementRef++}`
+			this.nodeRefs.set(node.backendDOMNodeId, ref)
+		}
+
+		elementRefs.set(ref, {
+			backendNodeId: node.backendDOMNodeId,
+			role: snapshotNode.role,
+			name: snapshotNode.name ?? "",
+		})
+		return ref
+	}
+
+	/**
+	 * Looks up the element of a ref among the elements with its role and name
+	 * @returns The element, or null if it is no longer on the page
+	 */
+	private async resolveElementRef(page: Page, ref: string): Promise<ElementHandle | null> {
+		const elementRef = this.elementRefs.get(ref)
+
+		if (!elementRef) {
+			throw new Error(`Unknown element ref "${ref}". Take a new snapshot to get the current element refs.`)
+		}
+
+		// A name with quotes can't be part of the selector, the elements with the role are compared instead
+		const nameFilter = elementRef.name && !elementRef.name.includes('"') ? `[name="${elementRef.name}"]` : ""
+		const candidates = await page.$$(`aria/${nameFilter}[role="${elementRef.role}"]`)
+		let element: ElementHandle | null = null
+
+		for (const candidate of candidates) {
+			if (!element && (await candidate.backendNodeId().catch(() => undefined)) === elementRef.backendNodeId) {
+				element = candidate
+			} else {
+				await candidate.dispose().catch(() => {})
+			}
+		}
+
+		return element
+	}
+
+	/**
+	 * Waits until the element of a ref is visible
+	 */
+	private async waitForElementRef(page: Page, ref: string): Promise<void> {
+		const isVisible = async () => {
+			const element = await this.resolveElementRef(page, ref)
+
+			try {
+				return (await element?.isVisible()) ?? false
+			} finally {
+				await element?.dispose().catch(() => {})
+			}
+		}
+
+		await pWaitFor(isVisible, {
+			interval: 100,
+			timeout: { milliseconds: WAIT_FOR_TIMEOUT, message: new TimeoutError(`Waiting for ref "${ref}" failed`) },
+		})
+	}
+
+	private clearElementRefs() {
+		this.elementRefs = new Map()
+		this.nodeRefs = new Map()
+	}
+	// kilocode_change end
+}
+
+// kilocode_change start
+function toSnapshotNode(node: Protocol.Accessibility.AXNode): SnapshotNode {
+	const properties = new Map(node.properties?.map((property) => [property.name, property.value.value]))
+	const toTristate = (value: unknown) =>
+		value === "mixed" ? "mixed" : value === undefined ? undefined : value === true || value === "true"
+
+	return {
+		role: String(node.role?.value ?? ""),
+		name: node.name?.value === undefined ? undefined : String(node.name.value),
+		value: node.value?.value,
+		level: properties.get("level"),
+		checked: toTristate(properties.get("checked")),
+		pressed: toTristate(properties.get("pressed")),
+		expanded: properties.get("expanded"),
+		selected: properties.get("selected"),
+		disabled: properties.get("disabled"),
+		focused: properties.get("focused"),
+		required: properties.get("required"),
+		readonly: properties.get("readonly"),
+	}
+}
+
+/**
+ * Whether a node is described by the snapshot, ignored nodes, unnamed containers and the text repeating the name of
+ * its parent are left out, their children are still described
+ */
+function isSnapshotNodeShown(
+	node: Protocol.Accessibility.AXNode,
+	snapshotNode: SnapshotNode,
+	parentName?: string,
+): boolean {
+	if (node.ignored || snapshotNode.role === "InlineTextBox") {
+		return false
+	}
+
+	if (GROUPING_ROLES.has(snapshotNode.role)) {
+		return !!snapshotNode.name
+	}
+
+	return snapshotNode.role !== "StaticText" || (!!snapshotNode.name && snapshotNode.name !== parentName)
+}
+
+function formatSnapshotNode(node: SnapshotNode, ref?: string): string {
+	const parts = [node.role === "RootWebArea" ? "document" : node.role]
+
+	if (node.name) {
+		parts.push(JSON.stringify(node.name))
+	}
+
+	if (ref) {
+		parts.push(`[ref=${ref}]`)
+	}
+
+	if (node.value !== undefined && node.value !== "") {
+		parts.push(`[value=${JSON.stringify(String(node.value))}]`)
+	}
+
+	if (node.level !== undefined) {
+		parts.push(`[level=${node.level}]`)
+	}
+
+	if (node.checked !== undefined) {
+		parts.push(`[checked=${node.checked}]`)
+	}
+
+	if (node.pressed !== undefined) {
+		parts.push(`[pressed=${node.pressed}]`)
+	}
+
+	if (node.expanded !== undefined) {
+		parts.push(`[expanded=${node.expanded}]`)
+	}
+
+	for (const state of ["selected", "disabled", "focused", "required", "readonly"] as const) {
+		if (node[state]) {
+			parts.push(`[${state}]`)
+		}
+	}
+
+	return parts.join(" ")
 }
+// kilocode_change end
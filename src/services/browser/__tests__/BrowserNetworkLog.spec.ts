@@ -0,0 +1,149 @@
+// kilocode_change - new file
+// npx vitest services/browser/__tests__/BrowserNetworkLog.spec.ts
+
+import { EventEmitter } from "events"
+
+import { BrowserNetworkLog } from "../BrowserNetworkLog"
+
+class MockPage extends EventEmitter {
+	url = () => "https://example.com/app"
+}
+
+const createRequest = (url: string, method = "GET", resourceType = "fetch") => ({
+	url: () => url,
+	method: () => method,
+	resourceType: () => resourceType,
+	failure: vi.fn().mockReturnValue(null),
+})
+
+type MockRequest = ReturnType<typeof createRequest>
+
+const respond = (page: MockPage, request: MockRequest, status: number, statusText = "") => {
+	page.emit("response", {
+		request: () => request,
+		status: () => status,
+		statusText: () => statusText,
+		headers: () => ({ "content-type": "application/json" }),
+	})
+	page.emit("requestfinished", request)
+}
+
+describe("BrowserNetworkLog", () => {
+	let networkLog: BrowserNetworkLog
+	let page: MockPage
+
+	beforeEach(() => {
+		networkLog = new BrowserNetworkLog()
+		page = new MockPage()
+		networkLog.attach(page as any)
+	})
+
+	const record = (url: string, status?: number, method?: string) => {
+		const request = createRequest(url, method)
+		page.emit("request", request)
+
+		if (status !== undefined) {
+			respond(page, request, status)
+		}
+
+		return request
+	}
+
+	it("records requests with their responses", () => {
+		record("https://example.com/api/users", 200, "POST")
+
+		expect(networkLog.getEntries()).toEqual([
+			expect.objectContaining({
+				method: "POST",
+				url: "https://example.com/api/users",
+				resourceType: "fetch",
+				status: 200,
+				mimeType: "application/json",
+				time: expect.any(Number),
+			}),
+		])
+	})
+
+	it("records failed requests and page errors", () => {
+		const request = record("https://example.com/api/orders")
+		request.failure.mockReturnValue({ errorText: "net::ERR_CONNECTION_REFUSED" })
+		page.emit("requestfailed", request)
+		page.emit("pageerror", new Error("Cannot read properties of undefined"))
+
+		expect(networkLog.getEntries()[0].failure).toBe("net::ERR_CONNECTION_REFUSED")
+		expect(networkLog.getPageErrors()).toEqual([
+			expect.objectContaining({ url: "https://example.com/app", message: "Cannot read properties of undefined" }),
+		])
+	})
+
+	it("attaches to a page only once", () => {
+		networkLog.attach(page as any)
+		record("https://example.com/api/users", 200)
+
+		expect(networkLog.getEntries()).toHaveLength(1)
+	})
+
+	it("filters by URL pattern and status", () => {
+		record("https://example.com/api/users", 200)
+		record("https://example.com/api/orders", 404)
+		record("https://example.com/api/payments", 503)
+		record("https://cdn.example.com/app.js", 200)
+		const failed = record("https://example.com/api/cart")
+		failed.failure.mockReturnValue({ errorText: "net::ERR_FAILED" })
+		page.emit("requestfailed", failed)
+
+		const urls = (filter: Parameters<BrowserNetworkLog["getEntries"]>[0]) =>
+			networkLog.getEntries(filter).map((entry) => entry.url.replace("https://", ""))
+
+		expect(urls({ urlPattern: "/API/" })).toEqual([
+			"example.com/api/users",
+			"example.com/api/orders",
+			"example.com/api/payments",
+			"example.com/api/cart",
+		])
+		expect(urls({ urlPattern: "*.js" })).toEqual(["cdn.example.com/app.js"])
+		expect(urls({ status: "404" })).toEqual(["example.com/api/orders"])
+		expect(urls({ status: "5xx" })).toEqual(["example.com/api/payments"])
+		expect(urls({ status: "400-499" })).toEqual(["example.com/api/orders"])
+		expect(urls({ status: "failed" })).toEqual(["example.com/api/cart"])
+		expect(urls({ urlPattern: "api", status: "error" })).toEqual([
+			"example.com/api/orders",
+			"example.com/api/payments",
+			"example.com/api/cart",
+		])
+		expect(() => urls({ status: "bad" })).toThrow('Invalid status filter "bad"')
+	})
+
+	it("drops the oldest requests beyond its bound", () => {
+		for (let i = 0; i < 510; i++) {
+			record(`https://example.com/api/items/${i}`, 200)
+		}
+
+		const entries = networkLog.getEntries()
+		expect(entries).toHaveLength(500)
+		expect(entries[0].url).toBe("https://example.com/api/items/10")
+		expect(networkLog.query()).toContain("500 of 500 recorded (10 older requests were dropped)")
+	})
+
+	it("describes the matching requests and page errors", () => {
+		record("https://example.com/api/users", 200)
+		record("https://example.com/api/orders", 404)
+		page.emit("pageerror", new Error("Boom"))
+
+		const result = networkLog.query({ status: "4xx" })
+
+		expect(result).toContain("Requests with status 4xx: 1 of 2 recorded")
+		expect(result).toMatch(/GET https:\/\/example\.com\/api\/orders -> 404 \(fetch, application\/json, \d+ ms\)/)
+		expect(result).not.toContain("/api/users")
+		expect(result).toContain("Page errors: 1")
+		expect(result).toContain("https://example.com/app: Boom")
+	})
+
+	it("forgets everything when cleared", () => {
+		record("https://example.com/api/users", 200)
+		networkLog.clear()
+
+		expect(networkLog.getEntries()).toEqual([])
+		expect(networkLog.query()).toContain("(No matching requests)")
+	})
+})
@@ -2,6 +2,7 @@
 
 import { BrowserSession } from "../BrowserSession"
 import { discoverChromeHostUrl, tryChromeHostUrl } from "../browserDiscovery"
+import pWaitFor from "p-wait-for" // kilocode_change
 
 // Mock dependencies
 vi.mock("vscode", () => ({
@@ -229,4 +230,227 @@ describe("BrowserSession", () => {
 			expect(mockBrowser.close).not.toHaveBeenCalled()
 		})
 	})
+
+	// kilocode_change start
+	describe("accessibility snapshots and selector actions", () => {
+		const createElement = (nodeId: number) => ({
+			backendNodeId: vi.fn().mockResolvedValue(nodeId),
+			evaluate: vi.fn().mockResolvedValue(undefined),
+			click: vi.fn().mockResolvedValue(undefined),
+			type: vi.fn().mockResolvedValue(undefined),
+			select: vi.fn().mockResolvedValue(["b"]),
+			press: vi.fn().mockResolvedValue(undefined),
+			isVisible: vi.fn().mockResolvedValue(true),
+			dispose: vi.fn().mockResolvedValue(undefined),
+		})
+
+		const axNode = (
+			nodeId: string,
+			role: string,
+			name: string,
+			options: { backendDOMNodeId?: number; childIds?: string[]; properties?: any[]; value?: string } = {},
+		) => ({
+			nodeId,
+			ignored: false,
+			role: { type: "role", value: role },
+			name: { type: "computedString", value: name },
+			...(options.value !== undefined && { value: { type: "string", value: options.value } }),
+			properties: options.properties ?? [],
+			childIds: options.childIds ?? [],
+			backendDOMNodeId: options.backendDOMNodeId,
+		})
+
+		let button: ReturnType<typeof createElement>
+		let textbox: ReturnType<typeof createElement>
+		let axNodes: ReturnType<typeof axNode>[]
+		let mockPage: any
+
+		beforeEach(() => {
+			button = createElement(2)
+			textbox = createElement(3)
+			axNodes = [
+				axNode("1", "RootWebArea", "Example", { childIds: ["2", "4"] }),
+				axNode("2", "heading", "Welcome", {
+					childIds: ["3"],
+					properties: [{ name: "level", value: { type: "integer", value: 1 } }],
+				}),
+				axNode("3", "StaticText", "Welcome"),
+				axNode("4", "generic", "", { childIds: ["5", "7"] }),
+				axNode("5", "button", "Submit", { backendDOMNodeId: 2, childIds: ["6"] }),
+				axNode("6", "StaticText", "Submit"),
+				axNode("7", "textbox", "Email", {
+					backendDOMNodeId: 3,
+					value: "jane@example.com",
+					properties: [{ name: "focused", value: { type: "booleanOrUndefined", value: true } }],
+				}),
+			]
+
+			mockPage = {
+				on: vi.fn(),
+				off: vi.fn(),
+				url: vi.fn().mockReturnValue("https://example.com"),
+				screenshot: vi.fn().mockResolvedValue("mockScreenshotBase64"),
+				evaluate: vi.fn(),
+				waitForSelector: vi.fn(),
+				$$: vi.fn().mockImplementation(async () => [textbox, button]),
+				keyboard: { press: vi.fn().mockResolvedValue(undefined) },
+				createCDPSession: vi.fn().mockImplementation(async () => ({
+					send: vi.fn().mockImplementation(async () => ({ nodes: axNodes })),
+					detach: vi.fn().mockResolvedValue(undefined),
+				})),
+			}
+			;(browserSession as any).page = mockPage
+		})
+
+		it("describes the accessibility tree with element refs", async () => {
+			const result = await browserSession.snapshot()
+
+			expect(result.screenshot).toBeUndefined()
+			expect(result.snapshot).toBe(
+				[
+					'- document "Example"',
+					'  - heading "Welcome" [level=1]',
+					'  - button "Submit" [ref=e1]',
+					'  - textbox "Email" [ref=e2] [value="jane@example.com"] [focused]',
+				].join("\n"),
+			)
+			expect(mockPage.screenshot).not.toHaveBeenCalled()
+			// The elements are only looked up when an action uses their ref
+			expect(mockPage.$$).not.toHaveBeenCalled()
+		})
+
+		it("keeps the refs of elements across snapshots", async () => {
+			await browserSession.snapshot()
+
+			axNodes = [
+				axNode("1", "RootWebArea", "Example", { childIds: ["2", "3"] }),
+				axNode("2", "link", "Home", { backendDOMNodeId: 4 }),
+				axNode("3", "textbox", "Email", { backendDOMNodeId: 3 }),
+			]
+
+			const result = await browserSession.snapshot()
+
+			expect(result.snapshot).toContain('link "Home" [ref=e3]')
+			expect(result.snapshot).toContain('textbox "Email" [ref=e2]')
+			// The button is no longer on the page
+			expect((await browserSession.clickElement("e1")).logs).toContain('Unknown element ref "e1"')
+		})
+
+		it("stops describing the tree once the snapshot is full", async () => {
+			const buttonIds = Array.from({ length: 2_000 }, (_, i) => `b${i}`)
+			axNodes = [
+				axNode("1", "RootWebArea", "Example", { childIds: buttonIds }),
+				...buttonIds.map((id, i) => axNode(id, "button", `Button number ${i}`, { backendDOMNodeId: 100 + i })),
+			]
+
+			const result = await browserSession.snapshot()
+
+			expect(result.snapshot!.length).toBeLessThan(20_100)
+			expect(result.snapshot).toMatch(/\n\.\.\. \(snapshot truncated\)$/)
+			expect((await browserSession.clickElement("e1999")).logs).toContain('Unknown element ref "e1999"')
+		})
+
+		it("clicks and fills elements by ref", async () => {
+			await browserSession.snapshot()
+
+			const clickResult = await browserSession.clickElement("e1")
+			const fillResult = await browserSession.fill("ref=e2", "john@example.com")
+
+			expect(mockPage.$$).toHaveBeenCalledWith('aria/[name="Submit"][role="button"]')
+			expect(button.click).toHaveBeenCalled()
+			expect(textbox.type).toHaveBeenCalledWith("john@example.com")
+			expect(textbox.click).not.toHaveBeenCalled()
+			expect(button.dispose).toHaveBeenCalled()
+			expect(clickResult.snapshot).toContain('button "Submit" [ref=e1]')
+			expect(fillResult.logs).toBe("")
+		})
+
+		it("reports refs of elements that are no longer on the page", async () => {
+			await browserSession.snapshot()
+			mockPage.$$.mockResolvedValue([textbox])
+
+			const result = await browserSession.clickElement("e1")
+
+			expect(result.logs).toContain('The element of ref "e1" is no longer on the page')
+			expect(textbox.dispose).toHaveBeenCalled()
+		})
+
+		it("waits until the element of a ref is visible", async () => {
+			await browserSession.snapshot()
+			button.isVisible.mockResolvedValueOnce(false).mockResolvedValueOnce(true)
+			vi.mocked(pWaitFor).mockImplementationOnce(async (condition) => {
+				while (!(await condition())) {
+					// Polls the condition like p-wait-for
+				}
+			})
+
+			const result = await browserSession.waitFor("e1")
+
+			expect(result.logs).toBe("")
+			expect(button.isVisible).toHaveBeenCalledTimes(2)
+			expect(mockPage.waitForSelector).not.toHaveBeenCalled()
+			expect(button.evaluate).not.toHaveBeenCalled()
+		})
+
+		it("resolves CSS selectors and releases the element afterwards", async () => {
+			mockPage.waitForSelector.mockResolvedValue(button)
+
+			await browserSession.press("Enter", "#submit")
+
+			expect(mockPage.waitForSelector).toHaveBeenCalledWith("#submit", expect.any(Object))
+			expect(button.press).toHaveBeenCalledWith("Enter")
+			expect(button.dispose).toHaveBeenCalled()
+		})
+
+		it("reports unknown refs and missing elements in the logs", async () => {
+			mockPage.waitForSelector.mockResolvedValue(null)
+
+			const refResult = await browserSession.clickElement("e42")
+			const selectorResult = await browserSession.fill("#missing", "text")
+
+			expect(refResult.logs).toContain('Unknown element ref "e42"')
+			expect(selectorResult.logs).toContain('No element matches the selector "#missing"')
+		})
+
+		it("selects options by label", async () => {
+			await browserSession.snapshot()
+			textbox.evaluate.mockResolvedValue("b")
+
+			await browserSession.select("e2", "Option B")
+
+			expect(textbox.evaluate).toHaveBeenCalledWith(expect.any(Function), "Option B")
+			expect(textbox.select).toHaveBeenCalledWith("b")
+		})
+
+		it("returns the result of evaluated scripts", async () => {
+			mockPage.evaluate.mockResolvedValue({ title: "Example" })
+
+			const result = await browserSession.evaluate("({ title: document.title })")
+
+			expect(mockPage.evaluate).toHaveBeenCalledWith("({ title: document.title })")
+			expect(result.evaluationResult).toBe(JSON.stringify({ title: "Example" }, null, 2))
+		})
+
+		it("returns snapshots instead of screenshots in snapshot mode", async () => {
+			mockPage.mouse = { click: vi.fn().mockResolvedValue(undefined) }
+
+			const screenshotResult = await browserSession.click("10,10")
+			browserSession.setSnapshotMode(true)
+			const snapshotResult = await browserSession.click("10,10")
+
+			expect(screenshotResult.screenshot).toBe("data:image/webp;base64,mockScreenshotBase64")
+			expect(snapshotResult.screenshot).toBeUndefined()
+			expect(snapshotResult.snapshot).toContain('button "Submit"')
+		})
+
+		it("queries the network log of the session", async () => {
+			const networkResult = await browserSession.queryNetworkLog({ urlPattern: "/api/" })
+			const errorResult = await browserSession.queryNetworkLog({ status: "bad" })
+
+			expect(networkResult.networkLog).toContain('Requests with URL matching "/api/": 0 of 0 recorded')
+			expect(networkResult.screenshot).toBeUndefined()
+			expect(errorResult.logs).toContain('Invalid status filter "bad"')
+		})
+	})
+	// kilocode_change end
 })
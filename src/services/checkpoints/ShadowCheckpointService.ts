@@ -14,6 +14,7 @@ import { t } from "../../i18n"
 
 import { CheckpointDiff, CheckpointResult, CheckpointEventMap } from "./types"
 import { getExcludePatterns } from "./excludes"
+import { revertHunks } from "./hunks" // kilocode_change
 
 // kilocode_change start
 import { TelemetryService } from "@roo-code/telemetry"
@@ -328,6 +329,96 @@ export abstract class ShadowCheckpointService extends EventEmitter {
 		}
 	}
 
+	// kilocode_change start
+	/**
+	 * Restores files to their content at a checkpoint and leaves the rest of the workspace as is.
+	 * Files that did not exist at the checkpoint are deleted.
+	 */
+	public async restoreFiles(commitHash: string, relativePaths: string[]) {
+		try {
+			if (!this.git) {
+				throw new Error("Shadow git repo not initialized")
+			}
+
+			const start = Date.now()
+			const paths = relativePaths.map((relativePath) => this.toWorkspaceRelativePath(relativePath))
+			const existingPaths = (await this.git.raw(["ls-tree", "-r", "--name-only", commitHash, "--", ...paths]))
+				.split("\n")
+				.filter(Boolean)
+
+			if (existingPaths.length > 0) {
+				await this.git.raw(["checkout", commitHash, "--", ...existingPaths])
+			}
+
+			for (const relativePath of paths.filter((relativePath) => !existingPaths.includes(relativePath))) {
+				await fs.rm(path.join(this.workspaceDir, relativePath), { force: true })
+			}
+
+			const duration = Date.now() - start
+			this.log(
+				`[${this.constructor.name}#restoreFiles] restored ${paths.length} file(s) from checkpoint ${commitHash} in ${duration}ms`,
+			)
+		} catch (e) {
+			const error = e instanceof Error ? e : new Error(String(e))
+			this.log(`[${this.constructor.name}#restoreFiles] failed to restore files: ${error.message}`)
+			this.emit("error", { type: "error", error })
+			throw error
+		}
+	}
+
+	/**
+	 * Reverts some of the hunks a file changed by between two checkpoints, or between a checkpoint and
+	 * the workspace, and keeps its other changes.
+	 * @param hunkIndexes Indexes into the hunks of the file's diff, see getHunks
+	 */
+	public async restoreHunks({
+		from,
+		to,
+		relativePath,
+		hunkIndexes,
+	}: {
+		from: string
+		to?: string
+		relativePath: string
+		hunkIndexes: number[]
+	}) {
+		if (!this.git) {
+			throw new Error("Shadow git repo not initialized")
+		}
+
+		const filePath = this.toWorkspaceRelativePath(relativePath)
+		const absolutePath = path.join(this.workspaceDir, filePath)
+		const readWorkspaceFile = () => fs.readFile(absolutePath, "utf8").catch(() => "")
+
+		const before = await this.git.show([`${from}:${filePath}`]).catch(() => "")
+		const after = to ? await this.git.show([`${to}:${filePath}`]).catch(() => "") : await readWorkspaceFile()
+		const reverted = revertHunks(await readWorkspaceFile(), before, after, hunkIndexes)
+
+		if (reverted === undefined) {
+			throw new Error(`The selected changes to ${filePath} no longer match the file`)
+		}
+
+		await fs.mkdir(path.dirname(absolutePath), { recursive: true })
+		await fs.writeFile(absolutePath, reverted)
+		this.log(
+			`[${this.constructor.name}#restoreHunks] reverted ${hunkIndexes.length} hunk(s) of ${filePath} from checkpoint ${from}`,
+		)
+	}
+
+	/**
+	 * Normalizes a path relative to the workspace and rejects paths outside of it
+	 */
+	private toWorkspaceRelativePath(relativePath: string) {
+		const normalizedPath = path.relative(this.workspaceDir, path.resolve(this.workspaceDir, relativePath))
+
+		if (!normalizedPath || normalizedPath.startsWith("..") || path.isAbsolute(normalizedPath)) {
+			throw new Error(`Path is outside of the workspace: ${relativePath}`)
+		}
+
+		return normalizedPath.split(path.sep).join("/")
+	}
+	// kilocode_change end
+
 	public async getDiff({ from, to }: { from?: string; to?: string }): Promise<CheckpointDiff[]> {
 		if (!this.git) {
 			throw new Error("Shadow git repo not initialized")
@@ -434,6 +525,122 @@ export abstract class ShadowCheckpointService extends EventEmitter {
 		}
 	}
 
+	// kilocode_change start
+	/**
+	 * Creates the shadow repo of a forked task as a copy of its parent's shadow repo, with its own
+	 * branch that starts at the given checkpoint, and rewinds the workspace to that checkpoint.
+	 * The parent's shadow repo is left untouched, so both tasks keep their full checkpoint history.
+	 */
+	public static async forkTask({
+		parentTaskId,
+		taskId,
+		commitHash,
+		globalStorageDir,
+		workspaceDir,
+	}: {
+		parentTaskId: string
+		taskId: string
+		commitHash: string
+		globalStorageDir: string
+		workspaceDir: string
+	}) {
+		const parentRepoDir = this.taskRepoDir({ taskId: parentTaskId, globalStorageDir })
+		const forkRepoDir = this.taskRepoDir({ taskId, globalStorageDir })
+
+		if (await fileExistsAtPath(forkRepoDir)) {
+			throw new Error(`Shadow git repo already exists at ${forkRepoDir}`)
+		}
+
+		await fs.mkdir(path.dirname(forkRepoDir), { recursive: true })
+		await simpleGit().clone(parentRepoDir, forkRepoDir, ["--no-checkout", "--no-hardlinks"])
+
+		const git = simpleGit(forkRepoDir)
+		await git.removeRemote("origin")
+		await git.addConfig("core.worktree", workspaceDir)
+		await git.addConfig("commit.gpgSign", "false")
+		await git.addConfig("user.name", "Kilo Code")
+		await git.addConfig("user.email", "noreply@example.com")
+
+		// The excludes are local to the parent's repo and are not cloned, they must be in place
+		// before cleaning the workspace.
+		const dotGitDir = path.join(forkRepoDir, ".git")
+		await fs.mkdir(path.join(dotGitDir, "info"), { recursive: true })
+		await fs.writeFile(path.join(dotGitDir, "info", "exclude"), (await getExcludePatterns(workspaceDir)).join("\n"))
+
+		// The clone has an empty index, so the workspace is reset before it is cleaned, otherwise every
+		// file would be considered untracked.
+		const branchName = `fork-${taskId}`
+		await git.branch([branchName, commitHash])
+		await git.raw(["symbolic-ref", "HEAD", `refs/heads/${branchName}`])
+		await git.reset(["--hard", commitHash])
+		await git.clean("f", ["-d", "-f"])
+
+		console.log(`[${this.name}#forkTask.${taskId}] forked ${parentTaskId} at ${commitHash}`)
+	}
+
+	/**
+	 * Writes the shadow repo of a task to a git bundle, to move its checkpoints to another machine.
+	 * Returns false when the task has no checkpoints.
+	 */
+	public static async bundleTask({
+		taskId,
+		globalStorageDir,
+		bundlePath,
+	}: {
+		taskId: string
+		globalStorageDir: string
+		bundlePath: string
+	}) {
+		const repoDir = this.taskRepoDir({ taskId, globalStorageDir })
+
+		if (!(await fileExistsAtPath(path.join(repoDir, ".git")))) {
+			return false
+		}
+
+		await simpleGit(repoDir).raw(["bundle", "create", bundlePath, "--all"])
+		return true
+	}
+
+	/**
+	 * Creates the shadow repo of an imported task from a git bundle written by `bundleTask`. The
+	 * workspace is left untouched, only the index is reset to the latest checkpoint.
+	 */
+	public static async unbundleTask({
+		taskId,
+		globalStorageDir,
+		workspaceDir,
+		bundlePath,
+	}: {
+		taskId: string
+		globalStorageDir: string
+		workspaceDir: string
+		bundlePath: string
+	}) {
+		const repoDir = this.taskRepoDir({ taskId, globalStorageDir })
+
+		if (await fileExistsAtPath(repoDir)) {
+			throw new Error(`Shadow git repo already exists at ${repoDir}`)
+		}
+
+		await fs.mkdir(path.dirname(repoDir), { recursive: true })
+		await simpleGit().clone(bundlePath, repoDir, ["--no-checkout"])
+
+		const git = simpleGit(repoDir)
+		await git.removeRemote("origin")
+		await git.addConfig("core.worktree", workspaceDir)
+		await git.addConfig("commit.gpgSign", "false")
+		await git.addConfig("user.name", "Kilo Code")
+		await git.addConfig("user.email", "noreply@example.com")
+
+		const dotGitDir = path.join(repoDir, ".git")
+		await fs.mkdir(path.join(dotGitDir, "info"), { recursive: true })
+		await fs.writeFile(path.join(dotGitDir, "info", "exclude"), (await getExcludePatterns(workspaceDir)).join("\n"))
+		await git.reset(["--mixed"])
+
+		console.log(`[${this.name}#unbundleTask.${taskId}] restored the checkpoints from ${bundlePath}`)
+	}
+	// kilocode_change end
+
 	public static async deleteBranch(git: SimpleGit, branchName: string) {
 		const branches = await git.branchLocal()
 
@@ -834,5 +834,190 @@ describe.each([[RepoPerTaskCheckpointService, "RepoPerTaskCheckpointService"]])(
 				expect(await fs.readFile(testFile, "utf-8")).toBe("Hello, world!")
 			})
 		})
+
+		// kilocode_change start
+		describe(`${klass.name}.forkTask`, () => {
+			it("creates a shadow repo for the fork that starts at the checkpoint", async () => {
+				const globalStorageDir = path.resolve(service.checkpointsDir, "..", "..", "..")
+				const untrackedFile = path.join(service.workspaceDir, "untracked.txt")
+
+				await fs.writeFile(testFile, "Forked state")
+				const forkCommit = await service.saveCheckpoint("Checkpoint to fork from")
+				await fs.writeFile(testFile, "Parent state")
+				await fs.writeFile(untrackedFile, "Created after the checkpoint")
+				const parentCommit = await service.saveCheckpoint("Later checkpoint")
+
+				await klass.forkTask({
+					parentTaskId: taskId,
+					taskId: "forked-task",
+					commitHash: forkCommit!.commit,
+					globalStorageDir,
+					workspaceDir: service.workspaceDir,
+				})
+
+				// The workspace is rewound to the checkpoint.
+				expect(await fs.readFile(testFile, "utf-8")).toBe("Forked state")
+				expect(await fileExistsAtPath(untrackedFile)).toBe(false)
+
+				// The fork continues from the checkpoint on its own branch.
+				const fork = klass.create({
+					taskId: "forked-task",
+					shadowDir: globalStorageDir,
+					workspaceDir: service.workspaceDir,
+					log: () => {},
+				})
+				await fork.initShadowGit()
+				expect(fork.baseHash).toBe(forkCommit!.commit)
+
+				await fs.writeFile(testFile, "Fork state")
+				const forkedCommit = await fork.saveCheckpoint("Checkpoint in fork")
+				expect(forkedCommit?.commit).toBeTruthy()
+
+				// The parent keeps all of its checkpoints.
+				const parentGit = simpleGit(service.checkpointsDir)
+				expect(await parentGit.revparse(["HEAD"])).toBe(parentCommit!.commit)
+				await expect(parentGit.catFile(["-t", forkedCommit!.commit])).rejects.toThrow()
+
+				await service.restoreCheckpoint(parentCommit!.commit)
+				expect(await fs.readFile(testFile, "utf-8")).toBe("Parent state")
+				expect(await fs.readFile(untrackedFile, "utf-8")).toBe("Created after the checkpoint")
+			})
+
+			it("does not overwrite an existing shadow repo", async () => {
+				const globalStorageDir = path.resolve(service.checkpointsDir, "..", "..", "..")
+
+				await expect(
+					klass.forkTask({
+						parentTaskId: taskId,
+						taskId,
+						commitHash: service.baseHash!,
+						globalStorageDir,
+						workspaceDir: service.workspaceDir,
+					}),
+				).rejects.toThrow("Shadow git repo already exists")
+			})
+		})
+
+		describe(`${klass.name}.bundleTask`, () => {
+			it("moves the checkpoints of a task to another workspace", async () => {
+				const globalStorageDir = path.resolve(service.checkpointsDir, "..", "..", "..")
+				const bundlePath = path.join(tmpDir, `bundle-${Date.now()}.bundle`)
+				const otherStorageDir = path.join(tmpDir, `other-storage-${Date.now()}`)
+				const otherWorkspaceDir = path.join(tmpDir, `other-workspace-${Date.now()}`)
+
+				await fs.writeFile(testFile, "Checkpoint state")
+				const commit = await service.saveCheckpoint("Checkpoint to move")
+
+				expect(await klass.bundleTask({ taskId, globalStorageDir, bundlePath })).toBe(true)
+
+				await fs.mkdir(otherWorkspaceDir, { recursive: true })
+				await fs.writeFile(path.join(otherWorkspaceDir, "test.txt"), "Other machine")
+				await klass.unbundleTask({
+					taskId,
+					globalStorageDir: otherStorageDir,
+					workspaceDir: otherWorkspaceDir,
+					bundlePath,
+				})
+
+				// The workspace is untouched until a checkpoint is restored.
+				expect(await fs.readFile(path.join(otherWorkspaceDir, "test.txt"), "utf-8")).toBe("Other machine")
+
+				const imported = klass.create({
+					taskId,
+					shadowDir: otherStorageDir,
+					workspaceDir: otherWorkspaceDir,
+					log: () => {},
+				})
+				await imported.initShadowGit()
+				expect(imported.baseHash).toBe(commit!.commit)
+
+				await imported.restoreCheckpoint(commit!.commit)
+				expect(await fs.readFile(path.join(otherWorkspaceDir, "test.txt"), "utf-8")).toBe("Checkpoint state")
+			})
+
+			it("does nothing for a task without checkpoints", async () => {
+				const globalStorageDir = path.resolve(service.checkpointsDir, "..", "..", "..")
+				const bundlePath = path.join(tmpDir, `bundle-${Date.now()}.bundle`)
+
+				expect(await klass.bundleTask({ taskId: "other-task", globalStorageDir, bundlePath })).toBe(false)
+				expect(await fileExistsAtPath(bundlePath)).toBe(false)
+			})
+		})
+
+		describe(`${klass.name}#restoreFiles`, () => {
+			it("restores only the given files", async () => {
+				const otherFile = path.join(service.workspaceDir, "other.txt")
+				const newFile = path.join(service.workspaceDir, "new.txt")
+
+				await fs.writeFile(otherFile, "Other")
+				const commit = await service.saveCheckpoint("Checkpoint")
+
+				await fs.writeFile(testFile, "Changed")
+				await fs.writeFile(otherFile, "Other changed")
+				await fs.writeFile(newFile, "New")
+
+				await service.restoreFiles(commit!.commit, ["test.txt", "new.txt"])
+
+				expect(await fs.readFile(testFile, "utf-8")).toBe("Hello, world!")
+				expect(await fileExistsAtPath(newFile)).toBe(false)
+				expect(await fs.readFile(otherFile, "utf-8")).toBe("Other changed")
+			})
+
+			it("rejects paths outside of the workspace", async () => {
+				await expect(service.restoreFiles(service.baseHash!, ["../outside.txt"])).rejects.toThrow(
+					"Path is outside of the workspace",
+				)
+			})
+		})
+
+		describe(`${klass.name}#restoreHunks`, () => {
+			const lines = (...values: string[]) => values.map((value) => `${value}\n`).join("")
+			const original = lines("a", "b", "c", "d", "e", "f", "g", "h", "i", "j", "k", "l")
+
+			it("reverts the selected hunks and keeps the others", async () => {
+				await fs.writeFile(testFile, original)
+				const from = await service.saveCheckpoint("Before")
+				await fs.writeFile(testFile, original.replace("b\n", "B\n").replace("k\n", "K\n"))
+				const to = await service.saveCheckpoint("After")
+
+				await service.restoreHunks({
+					from: from!.commit,
+					to: to!.commit,
+					relativePath: "test.txt",
+					hunkIndexes: [1],
+				})
+
+				expect(await fs.readFile(testFile, "utf-8")).toBe(original.replace("b\n", "B\n"))
+			})
+
+			it("compares with the workspace when there is no next checkpoint", async () => {
+				await fs.writeFile(testFile, original)
+				const from = await service.saveCheckpoint("Before")
+				await fs.writeFile(testFile, original.replace("b\n", "B\n").replace("k\n", "K\n"))
+
+				await service.restoreHunks({ from: from!.commit, relativePath: "test.txt", hunkIndexes: [0] })
+
+				expect(await fs.readFile(testFile, "utf-8")).toBe(original.replace("k\n", "K\n"))
+			})
+
+			it("throws if the hunks no longer match the file", async () => {
+				await fs.writeFile(testFile, original)
+				const from = await service.saveCheckpoint("Before")
+				await fs.writeFile(testFile, original.replace("b\n", "B\n"))
+				const to = await service.saveCheckpoint("After")
+				await fs.writeFile(testFile, "Rewritten")
+
+				await expect(
+					service.restoreHunks({
+						from: from!.commit,
+						to: to!.commit,
+						relativePath: "test.txt",
+						hunkIndexes: [0],
+					}),
+				).rejects.toThrow("no longer match")
+				expect(await fs.readFile(testFile, "utf-8")).toBe("Rewritten")
+			})
+		})
+		// kilocode_change end
 	},
 )
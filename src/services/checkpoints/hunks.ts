@@ -0,0 +1,42 @@
+// kilocode_change - new file
+import { applyPatch, type Hunk, reversePatch, structuredPatch } from "diff"
+
+/** Lines of unchanged context around each hunk, as in git's default unified diff */
+const HUNK_CONTEXT_LINES = 3
+
+/**
+ * Splits the changes between two versions of a file into hunks
+ */
+export function getHunks(before: string, after: string): Hunk[] {
+	return structuredPatch("", "", before, after, undefined, undefined, { context: HUNK_CONTEXT_LINES }).hunks
+}
+
+/**
+ * Counts the added and removed lines of hunks
+ */
+export function countHunkLines(hunks: Hunk[]): { insertions: number; deletions: number } {
+	let insertions = 0
+	let deletions = 0
+
+	for (const line of hunks.flatMap((hunk) => hunk.lines)) {
+		if (line.startsWith("+")) {
+			insertions++
+		} else if (line.startsWith("-")) {
+			deletions++
+		}
+	}
+
+	return { insertions, deletions }
+}
+
+/**
+ * Reverts some of the hunks between two versions of a file in its current content, which may
+ * contain later changes outside of those hunks.
+ * @param hunkIndexes Indexes into the hunks returned by getHunks(before, after)
+ * @returns The reverted content, or undefined if the hunks no longer match the current content
+ */
+export function revertHunks(content: string, before: string, after: string, hunkIndexes: number[]): string | undefined {
+	const hunks = getHunks(before, after).filter((_, index) => hunkIndexes.includes(index))
+	const reverted = applyPatch(content, reversePatch({ hunks }))
+	return reverted === false ? undefined : reverted
+}
@@ -149,6 +149,23 @@ describe("CacheManager", () => {
 			expect(savedData).toEqual({ [filePath]: hash })
 		})
 
+		// kilocode_change start
+		it("should run the before save callback before writing the hashes", async () => {
+			const calls: string[] = []
+			cacheManager.setBeforeSave(async () => {
+				calls.push("beforeSave")
+			})
+			;(safeWriteJson as Mock).mockImplementation(async () => {
+				calls.push("save")
+			})
+
+			cacheManager.updateHash("test.ts", "hash")
+			await new Promise((resolve) => setTimeout(resolve, 0))
+
+			expect(calls).toEqual(["beforeSave", "save"])
+		})
+		// kilocode_change end
+
 		it("should handle save errors gracefully", async () => {
 			const consoleErrorSpy = vitest.spyOn(console, "error").mockImplementation(() => {})
 			;(safeWriteJson as Mock).mockRejectedValue(new Error("Save failed"))
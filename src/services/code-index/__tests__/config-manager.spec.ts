@@ -104,6 +104,7 @@ describe("CodeIndexConfigManager", () => {
 				modelId: undefined,
 				openAiOptions: { openAiNativeApiKey: "" },
 				ollamaOptions: { ollamaBaseUrl: "" },
+				vectorStoreProvider: "qdrant", // kilocode_change
 				qdrantUrl: "http://localhost:6333",
 				qdrantApiKey: "",
 				searchMinScore: 0.4,
@@ -135,6 +136,7 @@ describe("CodeIndexConfigManager", () => {
 				modelId: "text-embedding-3-large",
 				openAiOptions: { openAiNativeApiKey: "test-openai-key" },
 				ollamaOptions: { ollamaBaseUrl: "" },
+				vectorStoreProvider: "qdrant", // kilocode_change
 				qdrantUrl: "http://qdrant.local",
 				qdrantApiKey: "test-qdrant-key",
 				searchMinScore: 0.4,
@@ -172,6 +174,7 @@ describe("CodeIndexConfigManager", () => {
 					baseUrl: "https://api.example.com/v1",
 					apiKey: "test-openai-compatible-key",
 				},
+				vectorStoreProvider: "qdrant", // kilocode_change
 				qdrantUrl: "http://qdrant.local",
 				qdrantApiKey: "test-qdrant-key",
 				searchMinScore: 0.4,
@@ -210,6 +213,7 @@ describe("CodeIndexConfigManager", () => {
 					baseUrl: "https://api.example.com/v1",
 					apiKey: "test-openai-compatible-key",
 				},
+				vectorStoreProvider: "qdrant", // kilocode_change
 				qdrantUrl: "http://qdrant.local",
 				qdrantApiKey: "test-qdrant-key",
 				searchMinScore: 0.4,
@@ -248,6 +252,7 @@ describe("CodeIndexConfigManager", () => {
 					apiKey: "test-openai-compatible-key",
 					// modelDimension is undefined when not set
 				},
+				vectorStoreProvider: "qdrant", // kilocode_change
 				qdrantUrl: "http://qdrant.local",
 				qdrantApiKey: "test-qdrant-key",
 				searchMinScore: 0.4,
@@ -287,6 +292,7 @@ describe("CodeIndexConfigManager", () => {
 					apiKey: "test-openai-compatible-key",
 				},
 				geminiOptions: undefined,
+				vectorStoreProvider: "qdrant", // kilocode_change
 				qdrantUrl: "http://qdrant.local",
 				qdrantApiKey: "test-qdrant-key",
 				searchMinScore: 0.4,
@@ -1294,6 +1300,7 @@ describe("CodeIndexConfigManager", () => {
 				ollamaOptions: { ollamaBaseUrl: undefined },
 				geminiOptions: undefined,
 				openAiCompatibleOptions: undefined,
+				vectorStoreProvider: "qdrant", // kilocode_change
 				qdrantUrl: "http://qdrant.local",
 				qdrantApiKey: "test-qdrant-key",
 				searchMinScore: 0.4,
@@ -1683,6 +1690,85 @@ describe("CodeIndexConfigManager", () => {
 			expect(configManager.isConfigured()).toBe(false)
 		})
 
+		// kilocode_change start
+		it("should not require a Qdrant URL for the local vector store", () => {
+			mockContextProxy.getGlobalState.mockReturnValue({
+				codebaseIndexEnabled: true,
+				codebaseIndexEmbedderProvider: "openai",
+				codebaseIndexVectorStoreProvider: "local",
+			})
+			mockContextProxy.getSecret.mockImplementation((key: string) => {
+				if (key === "codeIndexOpenAiKey") return "test-key"
+				return undefined
+			})
+
+			configManager = new CodeIndexConfigManager(mockContextProxy)
+			expect(configManager.isConfigured()).toBe(true)
+			expect(configManager.currentVectorStoreProvider).toBe("local")
+			expect(configManager.getConfig().vectorStoreProvider).toBe("local")
+		})
+
+		it("should not require an API key or base URL for the local embedder", () => {
+			mockContextProxy.getGlobalState.mockReturnValue({
+				codebaseIndexEnabled: true,
+				codebaseIndexEmbedderProvider: "local",
+				codebaseIndexQdrantUrl: "http://localhost:6333",
+			})
+			mockContextProxy.getSecret.mockReturnValue(undefined)
+
+			configManager = new CodeIndexConfigManager(mockContextProxy)
+			expect(configManager.isConfigured()).toBe(true)
+			expect(configManager.getConfig().embedderProvider).toBe("local")
+		})
+
+		it("should require a restart when the vector store provider changes", async () => {
+			mockContextProxy.getGlobalState.mockReturnValue({
+				codebaseIndexEnabled: true,
+				codebaseIndexEmbedderProvider: "openai",
+				codebaseIndexQdrantUrl: "http://localhost:6333",
+			})
+			mockContextProxy.getSecret.mockImplementation((key: string) => {
+				if (key === "codeIndexOpenAiKey") return "test-key"
+				return undefined
+			})
+			configManager = new CodeIndexConfigManager(mockContextProxy)
+
+			mockContextProxy.getGlobalState.mockReturnValue({
+				codebaseIndexEnabled: true,
+				codebaseIndexEmbedderProvider: "openai",
+				codebaseIndexQdrantUrl: "http://localhost:6333",
+				codebaseIndexVectorStoreProvider: "local",
+			})
+
+			const { requiresRestart } = await configManager.loadConfiguration()
+			expect(requiresRestart).toBe(true)
+		})
+
+		it("should require a restart only when hybrid search is turned on or off", async () => {
+			const config = (codebaseIndexSearchKeywordWeight?: number) => ({
+				codebaseIndexEnabled: true,
+				codebaseIndexEmbedderProvider: "openai",
+				codebaseIndexQdrantUrl: "http://localhost:6333",
+				codebaseIndexSearchKeywordWeight,
+			})
+			mockContextProxy.getGlobalState.mockReturnValue(config())
+			mockContextProxy.getSecret.mockImplementation((key: string) => {
+				if (key === "codeIndexOpenAiKey") return "test-key"
+				return undefined
+			})
+			configManager = new CodeIndexConfigManager(mockContextProxy)
+
+			mockContextProxy.getGlobalState.mockReturnValue(config(0.3))
+			expect((await configManager.loadConfiguration()).requiresRestart).toBe(true)
+
+			mockContextProxy.getGlobalState.mockReturnValue(config(0.5))
+			expect((await configManager.loadConfiguration()).requiresRestart).toBe(false)
+
+			mockContextProxy.getGlobalState.mockReturnValue(config(0))
+			expect((await configManager.loadConfiguration()).requiresRestart).toBe(true)
+		})
+		// kilocode_change end
+
 		describe("currentModelDimension", () => {
 			beforeEach(() => {
 				vi.clearAllMocks()
@@ -151,6 +151,7 @@ describe("CodeIndexManager - handleSettingsChange regression", () => {
 			const mockCacheManager = {
 				initialize: vi.fn(),
 				clearCacheFile: vi.fn(),
+				setBeforeSave: vi.fn(), // kilocode_change
 			}
 			;(manager as any)._cacheManager = mockCacheManager
 
@@ -218,6 +219,7 @@ describe("CodeIndexManager - handleSettingsChange regression", () => {
 			const mockCacheManager = {
 				initialize: vi.fn(),
 				clearCacheFile: vi.fn(),
+				setBeforeSave: vi.fn(), // kilocode_change
 			}
 			;(manager as any)._cacheManager = mockCacheManager
 
@@ -441,6 +443,7 @@ describe("CodeIndexManager - handleSettingsChange regression", () => {
 			mockCacheManager = {
 				initialize: vi.fn(),
 				clearCacheFile: vi.fn(),
+				setBeforeSave: vi.fn(), // kilocode_change
 			}
 			;(manager as any)._cacheManager = mockCacheManager
 
@@ -1,10 +1,14 @@
 import type { MockedClass, MockedFunction } from "vitest"
+import * as path from "path" // kilocode_change
 import { CodeIndexServiceFactory } from "../service-factory"
 import { OpenAiEmbedder } from "../embedders/openai"
 import { CodeIndexOllamaEmbedder } from "../embedders/ollama"
 import { OpenAICompatibleEmbedder } from "../embedders/openai-compatible"
 import { GeminiEmbedder } from "../embedders/gemini"
 import { QdrantVectorStore } from "../vector-store/qdrant-client"
+import { LocalVectorStore } from "../vector-store/local-vector-store" // kilocode_change
+import { LocalEmbedder } from "../embedders/local" // kilocode_change
+import { Bm25KeywordIndex } from "../keyword-index/bm25-index" // kilocode_change
 
 // Mock the embedders and vector store
 vitest.mock("../embedders/openai")
@@ -12,6 +16,9 @@ vitest.mock("../embedders/ollama")
 vitest.mock("../embedders/openai-compatible")
 vitest.mock("../embedders/gemini")
 vitest.mock("../vector-store/qdrant-client")
+vitest.mock("../vector-store/local-vector-store") // kilocode_change
+vitest.mock("../embedders/local") // kilocode_change
+vitest.mock("../keyword-index/bm25-index") // kilocode_change
 
 // Mock the embedding models module
 vitest.mock("../../../shared/embeddingModels", () => ({
@@ -33,6 +40,9 @@ const MockedCodeIndexOllamaEmbedder = CodeIndexOllamaEmbedder as MockedClass<typ
 const MockedOpenAICompatibleEmbedder = OpenAICompatibleEmbedder as MockedClass<typeof OpenAICompatibleEmbedder>
 const MockedGeminiEmbedder = GeminiEmbedder as MockedClass<typeof GeminiEmbedder>
 const MockedQdrantVectorStore = QdrantVectorStore as MockedClass<typeof QdrantVectorStore>
+const MockedLocalVectorStore = LocalVectorStore as MockedClass<typeof LocalVectorStore> // kilocode_change
+const MockedLocalEmbedder = LocalEmbedder as MockedClass<typeof LocalEmbedder> // kilocode_change
+const MockedBm25KeywordIndex = Bm25KeywordIndex as MockedClass<typeof Bm25KeywordIndex> // kilocode_change
 
 // Import the mocked functions
 import { getDefaultModelId, getModelDimension } from "../../../shared/embeddingModels"
@@ -326,6 +336,29 @@ describe("CodeIndexServiceFactory", () => {
 			expect(() => factory.createEmbedder()).toThrow("serviceFactory.geminiConfigMissing")
 		})
 
+		// kilocode_change start
+		it("should create local embedder with the bundled models directory", () => {
+			// Arrange
+			const testConfig = {
+				embedderProvider: "local",
+				modelId: "jinaai/jina-embeddings-v2-base-code",
+			}
+			mockConfigManager.getConfig.mockReturnValue(testConfig as any)
+			mockConfigManager.getContextProxy = vitest.fn().mockReturnValue({
+				extensionUri: { fsPath: "/extension" },
+			})
+
+			// Act
+			factory.createEmbedder()
+
+			// Assert
+			expect(MockedLocalEmbedder).toHaveBeenCalledWith(
+				path.join("/extension", "dist", "embedding-models"),
+				"jinaai/jina-embeddings-v2-base-code",
+			)
+		})
+		// kilocode_change end
+
 		it("should throw error for invalid embedder provider", () => {
 			// Arrange
 			const testConfig = {
@@ -659,7 +692,86 @@ describe("CodeIndexServiceFactory", () => {
 			// Act & Assert
 			expect(() => factory.createVectorStore()).toThrow("serviceFactory.qdrantUrlMissing")
 		})
+
+		// kilocode_change start
+		it("should create a local vector store without a Qdrant URL", () => {
+			// Arrange
+			const localFactory = new CodeIndexServiceFactory(
+				mockConfigManager,
+				"/test/workspace",
+				mockCacheManager,
+				"/test/storage",
+			)
+			const testConfig = {
+				embedderProvider: "openai",
+				modelId: "text-embedding-3-small",
+				vectorStoreProvider: "local",
+				qdrantUrl: undefined,
+			}
+			mockConfigManager.getConfig.mockReturnValue(testConfig as any)
+			mockGetModelDimension.mockReturnValue(1536)
+
+			// Act
+			localFactory.createVectorStore()
+
+			// Assert
+			expect(MockedLocalVectorStore).toHaveBeenCalledWith("/test/workspace", "/test/storage", 1536)
+			expect(MockedQdrantVectorStore).not.toHaveBeenCalled()
+		})
+
+		it("should throw error when the local vector store has no storage location", () => {
+			// Arrange
+			const testConfig = {
+				embedderProvider: "openai",
+				modelId: "text-embedding-3-small",
+				vectorStoreProvider: "local",
+			}
+			mockConfigManager.getConfig.mockReturnValue(testConfig as any)
+			mockGetModelDimension.mockReturnValue(1536)
+
+			// Act & Assert
+			expect(() => factory.createVectorStore()).toThrow("serviceFactory.localVectorStoreStorageMissing")
+		})
+		// kilocode_change end
+	})
+
+	// kilocode_change start
+	describe("createKeywordIndex", () => {
+		let localFactory: CodeIndexServiceFactory
+
+		beforeEach(() => {
+			MockedBm25KeywordIndex.prototype.delete = vitest.fn().mockResolvedValue(undefined)
+			localFactory = new CodeIndexServiceFactory(
+				mockConfigManager,
+				"/test/workspace",
+				mockCacheManager,
+				"/test/storage",
+			)
+		})
+
+		it("should create the keyword index when keyword matches are weighted", () => {
+			mockConfigManager.currentSearchKeywordWeight = 0.3
+
+			expect(localFactory.createKeywordIndex()).toBeInstanceOf(MockedBm25KeywordIndex)
+			expect(MockedBm25KeywordIndex).toHaveBeenCalledWith("/test/workspace", "/test/storage")
+			expect(MockedBm25KeywordIndex.prototype.delete).not.toHaveBeenCalled()
+		})
+
+		it("should not create the keyword index when hybrid search is off, and remove a stale one", () => {
+			mockConfigManager.currentSearchKeywordWeight = 0
+
+			expect(localFactory.createKeywordIndex()).toBeUndefined()
+			expect(MockedBm25KeywordIndex.prototype.delete).toHaveBeenCalled()
+		})
+
+		it("should not create the keyword index without a storage location", () => {
+			mockConfigManager.currentSearchKeywordWeight = 0.3
+
+			expect(factory.createKeywordIndex()).toBeUndefined()
+			expect(MockedBm25KeywordIndex).not.toHaveBeenCalled()
+		})
 	})
+	// kilocode_change end
 
 	describe("validateEmbedder", () => {
 		let mockEmbedderInstance: any
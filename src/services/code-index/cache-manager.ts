@@ -13,6 +13,7 @@ export class CacheManager implements ICacheManager {
 	private cachePath: vscode.Uri
 	private fileHashes: Record<string, string> = {}
 	private _debouncedSaveCache: () => void
+	private _beforeSave?: () => Promise<void> // kilocode_change
 
 	/**
 	 * Creates a new cache manager
@@ -49,11 +50,26 @@ export class CacheManager implements ICacheManager {
 		}
 	}
 
+	// kilocode_change start
+	/**
+	 * Sets a callback run before the hashes are saved, so that the indexed data is written first
+	 * @param callback Callback writing the pending changes of the index
+	 */
+	setBeforeSave(callback: () => Promise<void>): void {
+		this._beforeSave = callback
+	}
+	// kilocode_change end
+
 	/**
 	 * Saves the cache to disk
 	 */
 	private async _performSave(): Promise<void> {
 		try {
+			// kilocode_change start
+			if (this._beforeSave) {
+				await this._beforeSave()
+			}
+			// kilocode_change end
 			await safeWriteJson(this.cachePath.fsPath, this.fileHashes)
 		} catch (error) {
 			console.error("Failed to save cache:", error)
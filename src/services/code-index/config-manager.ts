@@ -1,8 +1,8 @@
 import { ApiHandlerOptions } from "../../shared/api"
 import { ContextProxy } from "../../core/config/ContextProxy"
-import { EmbedderProvider } from "./interfaces/manager"
+import { EmbedderProvider, VectorStoreProvider } from "./interfaces/manager" // kilocode_change
 import { CodeIndexConfig, PreviousConfigSnapshot } from "./interfaces/config"
-import { DEFAULT_SEARCH_MIN_SCORE, DEFAULT_MAX_SEARCH_RESULTS } from "./constants"
+import { DEFAULT_SEARCH_MIN_SCORE, DEFAULT_MAX_SEARCH_RESULTS, DEFAULT_SEARCH_KEYWORD_WEIGHT } from "./constants" // kilocode_change
 import { getDefaultModelId, getModelDimension, getModelScoreThreshold } from "../../shared/embeddingModels"
 
 /**
@@ -20,10 +20,12 @@ export class CodeIndexConfigManager {
 	private geminiOptions?: { apiKey: string }
 	private mistralOptions?: { apiKey: string }
 	private vercelAiGatewayOptions?: { apiKey: string }
+	private vectorStoreProvider: VectorStoreProvider = "qdrant" // kilocode_change
 	private qdrantUrl?: string = "http://localhost:6333"
 	private qdrantApiKey?: string
 	private searchMinScore?: number
 	private searchMaxResults?: number
+	private searchKeywordWeight?: number // kilocode_change
 
 	constructor(private readonly contextProxy: ContextProxy) {
 		// Initialize with current configuration to avoid false restart triggers
@@ -56,11 +58,13 @@ export class CodeIndexConfigManager {
 		const {
 			codebaseIndexEnabled,
 			codebaseIndexQdrantUrl,
+			codebaseIndexVectorStoreProvider, // kilocode_change
 			codebaseIndexEmbedderProvider,
 			codebaseIndexEmbedderBaseUrl,
 			codebaseIndexEmbedderModelId,
 			codebaseIndexSearchMinScore,
 			codebaseIndexSearchMaxResults,
+			codebaseIndexSearchKeywordWeight, // kilocode_change
 		} = codebaseIndexConfig
 
 		const openAiKey = this.contextProxy?.getSecret("codeIndexOpenAiKey") ?? ""
@@ -74,10 +78,12 @@ export class CodeIndexConfigManager {
 
 		// Update instance variables with configuration
 		this.codebaseIndexEnabled = codebaseIndexEnabled ?? true
+		this.vectorStoreProvider = codebaseIndexVectorStoreProvider === "local" ? "local" : "qdrant" // kilocode_change
 		this.qdrantUrl = codebaseIndexQdrantUrl
 		this.qdrantApiKey = qdrantApiKey ?? ""
 		this.searchMinScore = codebaseIndexSearchMinScore
 		this.searchMaxResults = codebaseIndexSearchMaxResults
+		this.searchKeywordWeight = codebaseIndexSearchKeywordWeight // kilocode_change
 
 		// Validate and set model dimension
 		const rawDimension = codebaseIndexConfig.codebaseIndexEmbedderModelDimension
@@ -108,6 +114,10 @@ export class CodeIndexConfigManager {
 			this.embedderProvider = "mistral"
 		} else if (codebaseIndexEmbedderProvider === "vercel-ai-gateway") {
 			this.embedderProvider = "vercel-ai-gateway"
+			// kilocode_change start
+		} else if (codebaseIndexEmbedderProvider === "local") {
+			this.embedderProvider = "local"
+			// kilocode_change end
 		} else {
 			this.embedderProvider = "openai"
 		}
@@ -147,6 +157,7 @@ export class CodeIndexConfigManager {
 			geminiOptions?: { apiKey: string }
 			mistralOptions?: { apiKey: string }
 			vercelAiGatewayOptions?: { apiKey: string }
+			vectorStoreProvider: VectorStoreProvider // kilocode_change
 			qdrantUrl?: string
 			qdrantApiKey?: string
 			searchMinScore?: number
@@ -167,6 +178,8 @@ export class CodeIndexConfigManager {
 			geminiApiKey: this.geminiOptions?.apiKey ?? "",
 			mistralApiKey: this.mistralOptions?.apiKey ?? "",
 			vercelAiGatewayApiKey: this.vercelAiGatewayOptions?.apiKey ?? "",
+			vectorStoreProvider: this.vectorStoreProvider, // kilocode_change
+			searchKeywordWeight: this.currentSearchKeywordWeight, // kilocode_change
 			qdrantUrl: this.qdrantUrl ?? "",
 			qdrantApiKey: this.qdrantApiKey ?? "",
 		}
@@ -192,6 +205,7 @@ export class CodeIndexConfigManager {
 				geminiOptions: this.geminiOptions,
 				mistralOptions: this.mistralOptions,
 				vercelAiGatewayOptions: this.vercelAiGatewayOptions,
+				vectorStoreProvider: this.vectorStoreProvider, // kilocode_change
 				qdrantUrl: this.qdrantUrl,
 				qdrantApiKey: this.qdrantApiKey,
 				searchMinScore: this.currentSearchMinScore,
@@ -204,36 +218,38 @@ export class CodeIndexConfigManager {
 	 * Checks if the service is properly configured based on the embedder type.
 	 */
 	public isConfigured(): boolean {
+		// kilocode_change start: the local vector store does not need a Qdrant server
+		const hasVectorStore = this.vectorStoreProvider === "local" || !!this.qdrantUrl
+		// kilocode_change end
 		if (this.embedderProvider === "openai") {
 			const openAiKey = this.openAiOptions?.openAiNativeApiKey
-			const qdrantUrl = this.qdrantUrl
-			return !!(openAiKey && qdrantUrl)
+			return !!(openAiKey && hasVectorStore)
 		} else if (this.embedderProvider === "ollama") {
 			// Ollama model ID has a default, so only base URL is strictly required for config
 			const ollamaBaseUrl = this.ollamaOptions?.ollamaBaseUrl
-			const qdrantUrl = this.qdrantUrl
-			return !!(ollamaBaseUrl && qdrantUrl)
+			return !!(ollamaBaseUrl && hasVectorStore)
 		} else if (this.embedderProvider === "openai-compatible") {
 			const baseUrl = this.openAiCompatibleOptions?.baseUrl
 			const apiKey = this.openAiCompatibleOptions?.apiKey
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(baseUrl && apiKey && qdrantUrl)
+			const isConfigured = !!(baseUrl && apiKey && hasVectorStore)
 			return isConfigured
 		} else if (this.embedderProvider === "gemini") {
 			const apiKey = this.geminiOptions?.apiKey
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(apiKey && qdrantUrl)
+			const isConfigured = !!(apiKey && hasVectorStore)
 			return isConfigured
 		} else if (this.embedderProvider === "mistral") {
 			const apiKey = this.mistralOptions?.apiKey
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(apiKey && qdrantUrl)
+			const isConfigured = !!(apiKey && hasVectorStore)
 			return isConfigured
 		} else if (this.embedderProvider === "vercel-ai-gateway") {
 			const apiKey = this.vercelAiGatewayOptions?.apiKey
-			const qdrantUrl = this.qdrantUrl
-			const isConfigured = !!(apiKey && qdrantUrl)
+			const isConfigured = !!(apiKey && hasVectorStore)
 			return isConfigured
+			// kilocode_change start
+		} else if (this.embedderProvider === "local") {
+			// The bundled model needs no credentials
+			return hasVectorStore
+			// kilocode_change end
 		}
 		return false // Should not happen if embedderProvider is always set correctly
 	}
@@ -298,6 +314,18 @@ export class CodeIndexConfigManager {
 			return true
 		}
 
+		// kilocode_change start
+		if ((prev?.vectorStoreProvider ?? "qdrant") !== this.vectorStoreProvider) {
+			return true
+		}
+
+		// The keyword index only exists while hybrid search is on, it is filled by reindexing
+		const prevKeywordWeight = prev?.searchKeywordWeight ?? DEFAULT_SEARCH_KEYWORD_WEIGHT
+		if (prevKeywordWeight > 0 !== this.currentSearchKeywordWeight > 0) {
+			return true
+		}
+		// kilocode_change end
+
 		// Authentication changes (API keys)
 		const currentOpenAiKey = this.openAiOptions?.openAiNativeApiKey ?? ""
 		const currentOllamaBaseUrl = this.ollamaOptions?.ollamaBaseUrl ?? ""
@@ -395,6 +423,7 @@ export class CodeIndexConfigManager {
 			geminiOptions: this.geminiOptions,
 			mistralOptions: this.mistralOptions,
 			vercelAiGatewayOptions: this.vercelAiGatewayOptions,
+			vectorStoreProvider: this.vectorStoreProvider, // kilocode_change
 			qdrantUrl: this.qdrantUrl,
 			qdrantApiKey: this.qdrantApiKey,
 			searchMinScore: this.currentSearchMinScore,
@@ -423,6 +452,15 @@ export class CodeIndexConfigManager {
 		return this.embedderProvider
 	}
 
+	// kilocode_change start
+	/**
+	 * Gets the current vector store provider (qdrant or local)
+	 */
+	public get currentVectorStoreProvider(): VectorStoreProvider {
+		return this.vectorStoreProvider
+	}
+	// kilocode_change end
+
 	/**
 	 * Gets the current Qdrant configuration
 	 */
@@ -480,4 +518,15 @@ export class CodeIndexConfigManager {
 	public get currentSearchMaxResults(): number {
 		return this.searchMaxResults ?? DEFAULT_MAX_SEARCH_RESULTS
 	}
+
+	// kilocode_change start
+	/**
+	 * Gets the weight of keyword matches in hybrid search, between 0 (vector search only)
+	 * and 1 (keyword search only).
+	 * Returns user setting if configured, otherwise returns default.
+	 */
+	public get currentSearchKeywordWeight(): number {
+		return this.searchKeywordWeight ?? DEFAULT_SEARCH_KEYWORD_WEIGHT
+	}
+	// kilocode_change end
 }
@@ -9,6 +9,7 @@ export const MAX_CHARS_TOLERANCE_FACTOR = 1.15 // 15% tolerance for max chars
 /**Search */
 export const DEFAULT_SEARCH_MIN_SCORE = CODEBASE_INDEX_DEFAULTS.DEFAULT_SEARCH_MIN_SCORE
 export const DEFAULT_MAX_SEARCH_RESULTS = CODEBASE_INDEX_DEFAULTS.DEFAULT_SEARCH_RESULTS
+export const DEFAULT_SEARCH_KEYWORD_WEIGHT = CODEBASE_INDEX_DEFAULTS.DEFAULT_SEARCH_KEYWORD_WEIGHT // kilocode_change
 
 /**File Watcher */
 export const QDRANT_CODE_BLOCK_NAMESPACE = "f47ac10b-58cc-4372-a567-0e02b2c3d479"
@@ -27,5 +28,11 @@ export const MAX_BATCH_TOKENS = 100000
 export const MAX_ITEM_TOKENS = 8191
 export const BATCH_PROCESSING_CONCURRENCY = 10
 
+// kilocode_change start
+/**Local Embedder */
+export const LOCAL_EMBEDDER_BATCH_SIZE = 8 // Number of texts embedded per inference call, bounds memory use on the CPU
+export const LOCAL_EMBEDDING_MODELS_PATH = ["dist", "embedding-models"] // Bundled models, relative to the extension
+// kilocode_change end
+
 /**Gemini Embedder */
 export const GEMINI_MAX_ITEM_TOKENS = 2048
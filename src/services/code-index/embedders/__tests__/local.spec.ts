@@ -0,0 +1,173 @@
+// kilocode_change - new file
+// npx vitest services/code-index/embedders/__tests__/local.spec.ts
+
+import type { Mock } from "vitest"
+import * as fs from "fs/promises"
+import { mkdirSync, mkdtempSync, rmSync } from "fs"
+import * as os from "os"
+import * as path from "path"
+import { env, pipeline } from "@huggingface/transformers"
+
+import { getAvailableEmbeddingModelProfiles, LocalEmbedder } from "../local"
+import { LOCAL_EMBEDDER_BATCH_SIZE } from "../../constants"
+
+vitest.mock("fs/promises", () => ({
+	access: vitest.fn(),
+}))
+
+vitest.mock("@huggingface/transformers", () => ({
+	env: {},
+	pipeline: vitest.fn(),
+}))
+
+// Mock TelemetryService
+vitest.mock("@roo-code/telemetry", () => ({
+	TelemetryService: {
+		instance: {
+			captureEvent: vitest.fn(),
+		},
+	},
+}))
+
+// Mock i18n
+vitest.mock("../../../../i18n", () => ({
+	t: (key: string, params?: Record<string, any>) => `${key} ${JSON.stringify(params ?? {})}`,
+}))
+
+// The overloads of pipeline are too complex for vitest.mocked
+const mockPipeline = pipeline as unknown as Mock
+
+describe("LocalEmbedder", () => {
+	const modelsDirectory = "/extension/dist/embedding-models"
+	const extractor = vitest.fn()
+
+	beforeEach(() => {
+		vitest.clearAllMocks()
+		vitest.spyOn(console, "error").mockImplementation(() => {})
+		vitest.mocked(fs.access).mockResolvedValue(undefined)
+		mockPipeline.mockResolvedValue(extractor)
+		extractor.mockImplementation(async (texts: string[]) => ({
+			tolist: () => texts.map((text) => [text.length, 0.5]),
+		}))
+	})
+
+	it("should load the default model from the bundled models directory only", async () => {
+		const embedder = new LocalEmbedder(modelsDirectory)
+
+		await embedder.createEmbeddings(["const a = 1"])
+
+		expect(env).toMatchObject({ allowRemoteModels: false, allowLocalModels: true, localModelPath: modelsDirectory })
+		expect(pipeline).toHaveBeenCalledWith("feature-extraction", "jinaai/jina-embeddings-v2-base-code", {
+			device: "cpu",
+			dtype: "q8",
+		})
+		expect(embedder.embedderInfo).toEqual({ name: "local" })
+	})
+
+	it("should embed texts in batches and keep their order", async () => {
+		const embedder = new LocalEmbedder(modelsDirectory)
+		const texts = Array.from({ length: LOCAL_EMBEDDER_BATCH_SIZE * 2 + 1 }, (_, i) => "x".repeat(i + 1))
+
+		const result = await embedder.createEmbeddings(texts)
+
+		expect(extractor).toHaveBeenCalledTimes(3)
+		expect(extractor.mock.calls[0][0]).toHaveLength(LOCAL_EMBEDDER_BATCH_SIZE)
+		expect(extractor.mock.calls[2][0]).toHaveLength(1)
+		expect(extractor).toHaveBeenCalledWith(expect.any(Array), { pooling: "mean", normalize: true })
+		expect(result.embeddings.map((embedding) => embedding[0])).toEqual(texts.map((text) => text.length))
+	})
+
+	it("should load the model once for concurrent requests", async () => {
+		const embedder = new LocalEmbedder(modelsDirectory)
+
+		await Promise.all([embedder.createEmbeddings(["a"]), embedder.createEmbeddings(["b"])])
+
+		expect(pipeline).toHaveBeenCalledTimes(1)
+	})
+
+	it("should retry loading a model after a failed load", async () => {
+		const embedder = new LocalEmbedder(modelsDirectory)
+		mockPipeline.mockRejectedValueOnce(new Error("corrupt model"))
+
+		await expect(embedder.createEmbeddings(["a"])).rejects.toThrow("embeddings:local.embeddingFailed")
+		await expect(embedder.createEmbeddings(["a"])).resolves.toEqual({ embeddings: [[1, 0.5]] })
+		expect(pipeline).toHaveBeenCalledTimes(2)
+	})
+
+	describe("validateConfiguration", () => {
+		it("should succeed when the model is bundled and embeds a test text", async () => {
+			const embedder = new LocalEmbedder(modelsDirectory, "custom/model")
+
+			expect(await embedder.validateConfiguration()).toEqual({ valid: true })
+			expect(fs.access).toHaveBeenCalledWith(path.join(modelsDirectory, "custom/model"))
+			expect(extractor).toHaveBeenCalledWith(["test"], { pooling: "mean", normalize: true })
+		})
+
+		it("should fail when the model is not bundled", async () => {
+			const embedder = new LocalEmbedder(modelsDirectory)
+			vitest.mocked(fs.access).mockRejectedValue(new Error("ENOENT"))
+
+			const result = await embedder.validateConfiguration()
+
+			expect(result.valid).toBe(false)
+			expect(result.error).toContain("embeddings:local.modelNotFound")
+			expect(pipeline).not.toHaveBeenCalled()
+		})
+
+		it("should fail when the model cannot be loaded", async () => {
+			const embedder = new LocalEmbedder(modelsDirectory)
+			mockPipeline.mockRejectedValue(new Error("unsupported model type"))
+
+			const result = await embedder.validateConfiguration()
+
+			expect(result.valid).toBe(false)
+			expect(result.error).toContain("embeddings:local.modelLoadFailed")
+			expect(result.error).toContain("unsupported model type")
+		})
+
+		it("should fail when the runtime cannot be loaded", async () => {
+			vitest.resetModules()
+			vitest.doMock("@huggingface/transformers", () => {
+				throw new Error("Cannot find module '@huggingface/transformers'")
+			})
+			const { LocalEmbedder: LocalEmbedderWithoutRuntime } = await import("../local")
+			const embedder = new LocalEmbedderWithoutRuntime(modelsDirectory)
+
+			const result = await embedder.validateConfiguration()
+
+			expect(result).toEqual({ valid: false, error: expect.stringContaining("embeddings:local.runtimeNotFound") })
+			expect(fs.access).not.toHaveBeenCalled()
+			vitest.doUnmock("@huggingface/transformers")
+		})
+	})
+})
+
+describe("getAvailableEmbeddingModelProfiles", () => {
+	let extensionPath: string
+
+	beforeEach(() => {
+		extensionPath = mkdtempSync(path.join(os.tmpdir(), "local-embedder-"))
+	})
+
+	afterEach(() => {
+		rmSync(extensionPath, { recursive: true, force: true })
+	})
+
+	it("should not offer the local embedder when its model is not bundled", () => {
+		const profiles = getAvailableEmbeddingModelProfiles(extensionPath)
+
+		expect(profiles.local).toBeUndefined()
+		expect(profiles.openai).toBeDefined()
+		expect(getAvailableEmbeddingModelProfiles(undefined).local).toBeUndefined()
+	})
+
+	it("should offer the local embedder when its model is bundled", () => {
+		mkdirSync(path.join(extensionPath, "dist", "embedding-models", "jinaai", "jina-embeddings-v2-base-code"), {
+			recursive: true,
+		})
+
+		expect(getAvailableEmbeddingModelProfiles(extensionPath).local).toEqual({
+			"jinaai/jina-embeddings-v2-base-code": expect.objectContaining({ dimension: 768 }),
+		})
+	})
+})
@@ -0,0 +1,177 @@
+// kilocode_change - new file
+import { existsSync } from "fs"
+import * as fs from "fs/promises"
+import * as path from "path"
+import type { FeatureExtractionPipeline } from "@huggingface/transformers"
+import { EmbedderInfo, EmbeddingResponse, IEmbedder } from "../interfaces"
+import {
+	EMBEDDING_MODEL_PROFILES,
+	EmbeddingModelProfiles,
+	getDefaultModelId,
+	getModelQueryPrefix,
+} from "../../../shared/embeddingModels"
+import { LOCAL_EMBEDDER_BATCH_SIZE, LOCAL_EMBEDDING_MODELS_PATH } from "../constants"
+import { t } from "../../../i18n"
+import { sanitizeErrorMessage } from "../shared/validation-helpers"
+import { TelemetryService } from "@roo-code/telemetry"
+import { TelemetryEventName } from "@roo-code/types"
+
+/**
+ * Implements the IEmbedder interface with an ONNX model that runs in-process on the CPU.
+ *
+ * Models are loaded from the bundled models directory only, so indexing needs neither network
+ * access nor a sidecar process. The model is loaded on first use and shared by all requests.
+ */
+export class LocalEmbedder implements IEmbedder {
+	private readonly modelsDirectory: string
+	private readonly defaultModelId: string
+	private extractors = new Map<string, Promise<FeatureExtractionPipeline>>()
+
+	/**
+	 * Creates a new local embedder
+	 * @param modelsDirectory Directory containing the bundled models, one subdirectory per model ID
+	 * @param modelId Optional model ID, defaults to the bundled code embedding model
+	 */
+	constructor(modelsDirectory: string, modelId?: string) {
+		this.modelsDirectory = modelsDirectory
+		this.defaultModelId = modelId || getDefaultModelId("local")
+	}
+
+	/**
+	 * Creates embeddings for the given texts, in batches to bound memory use.
+	 * @param texts - An array of strings to embed.
+	 * @param model - Optional model ID to override the default.
+	 * @returns A promise that resolves to an EmbeddingResponse containing the embeddings.
+	 */
+	async createEmbeddings(texts: string[], model?: string): Promise<EmbeddingResponse> {
+		const modelToUse = model || this.defaultModelId
+
+		// Apply model-specific query prefix if required
+		const queryPrefix = getModelQueryPrefix("local", modelToUse)
+		const processedTexts = queryPrefix
+			? texts.map((text) => (text.startsWith(queryPrefix) ? text : `${queryPrefix}${text}`))
+			: texts
+
+		try {
+			const extractor = await this.getExtractor(modelToUse)
+			const embeddings: number[][] = []
+
+			for (let i = 0; i < processedTexts.length; i += LOCAL_EMBEDDER_BATCH_SIZE) {
+				const batch = processedTexts.slice(i, i + LOCAL_EMBEDDER_BATCH_SIZE)
+				const output = await extractor(batch, { pooling: "mean", normalize: true })
+				embeddings.push(...(output.tolist() as number[][]))
+			}
+
+			return { embeddings }
+		} catch (error: any) {
+			TelemetryService.instance.captureEvent(TelemetryEventName.CODE_INDEX_ERROR, {
+				error: sanitizeErrorMessage(error instanceof Error ? error.message : String(error)),
+				stack: error instanceof Error ? sanitizeErrorMessage(error.stack || "") : undefined,
+				location: "LocalEmbedder:createEmbeddings",
+			})
+
+			console.error("Local embedder error in createEmbeddings:", error)
+			throw new Error(t("embeddings:local.embeddingFailed", { message: error.message }))
+		}
+	}
+
+	/**
+	 * Validates the local embedder by checking that the runtime loads on this platform and that the
+	 * model is bundled and can embed a test text.
+	 * @returns Promise resolving to validation result with success status and optional error message
+	 */
+	async validateConfiguration(): Promise<{ valid: boolean; error?: string }> {
+		try {
+			await loadRuntime()
+		} catch (error) {
+			console.error("Local embedder runtime could not be loaded:", error)
+			return { valid: false, error: t("embeddings:local.runtimeNotFound") }
+		}
+
+		const modelPath = path.join(this.modelsDirectory, this.defaultModelId)
+
+		try {
+			await fs.access(modelPath)
+		} catch {
+			return {
+				valid: false,
+				error: t("embeddings:local.modelNotFound", { modelId: this.defaultModelId, modelPath }),
+			}
+		}
+
+		try {
+			const extractor = await this.getExtractor(this.defaultModelId)
+			await extractor(["test"], { pooling: "mean", normalize: true })
+			return { valid: true }
+		} catch (error: any) {
+			TelemetryService.instance.captureEvent(TelemetryEventName.CODE_INDEX_ERROR, {
+				error: sanitizeErrorMessage(error instanceof Error ? error.message : String(error)),
+				stack: error instanceof Error ? sanitizeErrorMessage(error.stack || "") : undefined,
+				location: "LocalEmbedder:validateConfiguration",
+			})
+
+			return {
+				valid: false,
+				error: t("embeddings:local.modelLoadFailed", {
+					modelId: this.defaultModelId,
+					errorMessage: error instanceof Error ? error.message : String(error),
+				}),
+			}
+		}
+	}
+
+	get embedderInfo(): EmbedderInfo {
+		return {
+			name: "local",
+		}
+	}
+
+	/**
+	 * Loads the feature extraction pipeline of a model once, concurrent callers share the same load.
+	 */
+	private getExtractor(modelId: string): Promise<FeatureExtractionPipeline> {
+		let extractor = this.extractors.get(modelId)
+		if (!extractor) {
+			extractor = this.loadExtractor(modelId)
+			// Allow a later call to retry a failed load
+			extractor.catch(() => this.extractors.delete(modelId))
+			this.extractors.set(modelId, extractor)
+		}
+		return extractor
+	}
+
+	private async loadExtractor(modelId: string): Promise<FeatureExtractionPipeline> {
+		const { env, pipeline } = await loadRuntime()
+
+		env.allowRemoteModels = false
+		env.allowLocalModels = true
+		env.localModelPath = this.modelsDirectory
+
+		return pipeline<"feature-extraction">("feature-extraction", modelId, { device: "cpu", dtype: "q8" })
+	}
+}
+
+/**
+ * Loads the ONNX runtime lazily, it is only needed when the local embedder is used. Its native
+ * bindings are shipped in `dist/node_modules` for the platforms onnxruntime-node supports.
+ */
+function loadRuntime() {
+	return import("@huggingface/transformers")
+}
+
+/**
+ * The embedding model profiles offered in the settings. The local embedder is only offered by builds that
+ * bundle its model, see `BUNDLE_EMBEDDING_MODEL` in esbuild.mjs.
+ * @param extensionPath The root directory of the extension
+ */
+export function getAvailableEmbeddingModelProfiles(extensionPath: string | undefined): EmbeddingModelProfiles {
+	const modelPath =
+		extensionPath && path.join(extensionPath, ...LOCAL_EMBEDDING_MODELS_PATH, getDefaultModelId("local"))
+
+	if (modelPath && existsSync(modelPath)) {
+		return EMBEDDING_MODEL_PROFILES
+	}
+
+	const { local: _local, ...profiles } = EMBEDDING_MODEL_PROFILES
+	return profiles
+}
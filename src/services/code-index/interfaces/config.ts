@@ -1,5 +1,5 @@
 import { ApiHandlerOptions } from "../../../shared/api" // Adjust path if needed
-import { EmbedderProvider } from "./manager"
+import { EmbedderProvider, VectorStoreProvider } from "./manager" // kilocode_change
 
 /**
  * Configuration state for the code indexing feature
@@ -15,6 +15,7 @@ export interface CodeIndexConfig {
 	geminiOptions?: { apiKey: string }
 	mistralOptions?: { apiKey: string }
 	vercelAiGatewayOptions?: { apiKey: string }
+	vectorStoreProvider: VectorStoreProvider // kilocode_change
 	qdrantUrl?: string
 	qdrantApiKey?: string
 	searchMinScore?: number
@@ -37,6 +38,8 @@ export type PreviousConfigSnapshot = {
 	geminiApiKey?: string
 	mistralApiKey?: string
 	vercelAiGatewayApiKey?: string
+	vectorStoreProvider?: VectorStoreProvider // kilocode_change
+	searchKeywordWeight?: number // kilocode_change
 	qdrantUrl?: string
 	qdrantApiKey?: string
 }
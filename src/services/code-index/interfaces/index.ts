@@ -2,3 +2,4 @@ export * from "./embedder"
 export * from "./vector-store"
 export * from "./file-processor"
 export * from "./manager"
+export * from "./keyword-index" // kilocode_change
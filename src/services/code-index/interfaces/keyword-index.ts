@@ -0,0 +1,60 @@
+// kilocode_change - new file
+import { PointStruct, VectorStoreSearchResult } from "./vector-store"
+
+/**
+ * A code chunk stored in the keyword index, shares its id and payload with the vector store point
+ */
+export type KeywordIndexPoint = Pick<PointStruct, "id" | "payload">
+
+/**
+ * Interface for the lexical (keyword) index that is maintained alongside the vector store
+ */
+export interface IKeywordIndex {
+	/**
+	 * Initializes the keyword index by loading the persisted index
+	 * @returns Promise resolving to boolean indicating if a new index was created
+	 */
+	initialize(): Promise<boolean>
+
+	/**
+	 * Upserts chunks into the keyword index
+	 * @param points Array of points to upsert, vectors are ignored
+	 */
+	upsertPoints(points: KeywordIndexPoint[]): Promise<void>
+
+	/**
+	 * Searches the index for chunks matching the query terms
+	 * @param query Search query
+	 * @param directoryPrefix Optional directory prefix to filter results
+	 * @param maxResults Optional maximum number of results to return
+	 * @returns Promise resolving to search results ordered by descending score
+	 */
+	search(query: string, directoryPrefix?: string, maxResults?: number): Promise<VectorStoreSearchResult[]>
+
+	/**
+	 * Deletes chunks by file path
+	 * @param filePaths Relative or absolute paths of the files to delete chunks for
+	 */
+	deletePointsByMultipleFilePaths(filePaths: string[]): Promise<void>
+
+	/**
+	 * Checks if the index contains chunks of a file
+	 * @param filePath Relative or absolute path of the file
+	 */
+	hasFile(filePath: string): Promise<boolean>
+
+	/**
+	 * Removes all chunks from the index
+	 */
+	clear(): Promise<void>
+
+	/**
+	 * Writes the pending changes to disk right away
+	 */
+	flush(): Promise<void>
+
+	/**
+	 * Deletes the persisted index
+	 */
+	delete(): Promise<void>
+}
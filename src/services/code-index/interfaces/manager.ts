@@ -70,7 +70,15 @@ export interface ICodeIndexManager {
 }
 
 export type IndexingState = "Standby" | "Indexing" | "Indexed" | "Error"
-export type EmbedderProvider = "openai" | "ollama" | "openai-compatible" | "gemini" | "mistral" | "vercel-ai-gateway"
+export type EmbedderProvider =
+	| "openai"
+	| "ollama"
+	| "openai-compatible"
+	| "gemini"
+	| "mistral"
+	| "vercel-ai-gateway"
+	| "local" // kilocode_change
+export type VectorStoreProvider = "qdrant" | "local" // kilocode_change
 
 export interface IndexProgressUpdate {
 	systemStatus: IndexingState
@@ -62,6 +62,13 @@ export interface IVectorStore {
 	 * @returns Promise resolving to boolean indicating if the collection exists
 	 */
 	collectionExists(): Promise<boolean>
+
+	// kilocode_change start
+	/**
+	 * Writes the pending changes of stores that persist them in the background
+	 */
+	flush?(): Promise<void>
+	// kilocode_change end
 }
 
 export interface VectorStoreSearchResult {
@@ -0,0 +1,145 @@
+// kilocode_change - new file
+// npx vitest services/code-index/keyword-index/__tests__/bm25-index.spec.ts
+
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import { Bm25KeywordIndex, tokenize } from "../bm25-index"
+
+function createPoint(id: string, codeChunk: string, filePath: string) {
+	return { id, payload: { filePath, codeChunk, startLine: 1, endLine: 2 } }
+}
+
+describe("tokenize", () => {
+	it("should keep identifiers whole and split them into words", () => {
+		expect(tokenize("getUserName(user_id)")).toEqual([
+			"getusername",
+			"get",
+			"user",
+			"name",
+			"user_id",
+			"user",
+			"id",
+		])
+		expect(tokenize("parseHTTPResponse")).toEqual(["parsehttpresponse", "parse", "http", "response"])
+	})
+
+	it("should drop punctuation and single characters", () => {
+		expect(tokenize("if (a > b) { throw new Error('ENOENT: no such file') }")).toEqual([
+			"if",
+			"throw",
+			"new",
+			"error",
+			"enoent",
+			"no",
+			"such",
+			"file",
+		])
+	})
+})
+
+describe("Bm25KeywordIndex", () => {
+	const workspacePath = "/test/workspace"
+	let storageDirectory: string
+
+	beforeEach(async () => {
+		storageDirectory = await fs.mkdtemp(path.join(os.tmpdir(), "bm25-index-"))
+	})
+
+	afterEach(async () => {
+		await fs.rm(storageDirectory, { recursive: true, force: true })
+	})
+
+	it("should create a new index on first initialization", async () => {
+		const index = new Bm25KeywordIndex(workspacePath, storageDirectory)
+
+		expect(await index.initialize()).toBe(true)
+		expect(await index.search("anything")).toEqual([])
+	})
+
+	it("should rank exact identifier matches first", async () => {
+		const index = new Bm25KeywordIndex(workspacePath, storageDirectory)
+		await index.upsertPoints([
+			createPoint("a", "function getUserName(user) { return user.name }", "src/user.ts"),
+			createPoint("b", "function getAccount() { return account }", "src/account.ts"),
+			createPoint("c", "const name = 'user'", "src/constants.ts"),
+		])
+
+		const results = await index.search("getUserName")
+
+		expect(results.map((result) => result.id)).toEqual(["a", "c", "b"])
+		expect(results[0].payload?.filePath).toBe("src/user.ts")
+	})
+
+	it("should score rare terms higher than common terms", async () => {
+		const index = new Bm25KeywordIndex(workspacePath, storageDirectory)
+		await index.upsertPoints([
+			createPoint("a", "return value", "a.ts"),
+			createPoint("b", "return value", "b.ts"),
+			createPoint("c", "return ECONNREFUSED", "c.ts"),
+		])
+
+		const results = await index.search("return ECONNREFUSED")
+
+		expect(results.map((result) => result.id)).toEqual(["c", "a", "b"])
+	})
+
+	it("should filter results by directory prefix and limit them", async () => {
+		const index = new Bm25KeywordIndex(workspacePath, storageDirectory)
+		await index.upsertPoints([
+			createPoint("a", "token", "src/utils/a.ts"),
+			createPoint("b", "token", "src/b.ts"),
+			createPoint("c", "token", "test/c.ts"),
+		])
+
+		const ids = async (prefix?: string) => (await index.search("token", prefix)).map((result) => result.id).sort()
+
+		expect(await ids("src")).toEqual(["a", "b"])
+		expect(await ids("./src/utils")).toEqual(["a"])
+		expect(await ids(".")).toEqual(["a", "b", "c"])
+		expect(await index.search("token", undefined, 1)).toHaveLength(1)
+	})
+
+	it("should replace chunks and delete them by relative and absolute file paths", async () => {
+		const index = new Bm25KeywordIndex(workspacePath, storageDirectory)
+		await index.upsertPoints([
+			createPoint("a", "alpha", "src/a.ts"),
+			createPoint("b", "alpha", "src/b.ts"),
+			createPoint("c", "alpha", "src/c.ts"),
+		])
+		await index.upsertPoints([createPoint("c", "beta", "src/c.ts")])
+
+		expect((await index.search("beta")).map((result) => result.id)).toEqual(["c"])
+
+		await index.deletePointsByMultipleFilePaths(["src/a.ts", path.join(workspacePath, "src", "b.ts")])
+
+		expect(await index.search("alpha")).toEqual([])
+		expect(await index.hasFile("src/a.ts")).toBe(false)
+		expect(await index.hasFile(path.join(workspacePath, "src", "c.ts"))).toBe(true)
+	})
+
+	it("should persist chunks across instances", async () => {
+		const index = new Bm25KeywordIndex(workspacePath, storageDirectory)
+		await index.upsertPoints([createPoint("a", "persistedToken", "src/a.ts")])
+		await index.flush()
+
+		const reloaded = new Bm25KeywordIndex(workspacePath, storageDirectory)
+		expect(await reloaded.initialize()).toBe(false)
+		expect((await reloaded.search("persisted token")).map((result) => result.id)).toEqual(["a"])
+	})
+
+	it("should clear and delete the index", async () => {
+		const index = new Bm25KeywordIndex(workspacePath, storageDirectory)
+		await index.upsertPoints([createPoint("a", "alpha", "a.ts")])
+
+		await index.clear()
+		expect(await index.search("alpha")).toEqual([])
+
+		await index.upsertPoints([createPoint("a", "alpha", "a.ts")])
+		await index.delete()
+
+		const reloaded = new Bm25KeywordIndex(workspacePath, storageDirectory)
+		expect(await reloaded.initialize()).toBe(true)
+	})
+})
@@ -0,0 +1,346 @@
+// kilocode_change - new file
+import { createHash } from "crypto"
+import * as fs from "fs/promises"
+import * as path from "path"
+import debounce from "lodash.debounce"
+import { safeWriteJson } from "../../../utils/safeWriteJson"
+import { IKeywordIndex, KeywordIndexPoint } from "../interfaces/keyword-index"
+import { Payload, VectorStoreSearchResult } from "../interfaces"
+import { DEFAULT_MAX_SEARCH_RESULTS } from "../constants"
+import { getPrefixSegments, isInPrefixSegments, toPathSegments } from "../shared/path-segments"
+
+const INDEX_FORMAT_VERSION = 1
+
+/** Term frequency saturation */
+const BM25_K1 = 1.2
+/** Document length normalization */
+const BM25_B = 0.75
+
+interface IndexFile {
+	version: number
+	points: KeywordIndexPoint[]
+}
+
+interface IndexedChunk {
+	payload: Payload
+	/** Normalized relative path of the chunk's file */
+	file: string
+	length: number
+	termFrequencies: Map<string, number>
+}
+
+/**
+ * Splits text into lowercase search terms. Identifiers are kept whole so exact matches rank
+ * highest, and are also split into their camelCase, PascalCase and snake_case words.
+ */
+export function tokenize(text: string): string[] {
+	const terms: string[] = []
+
+	for (const word of text.match(/[\p{L}\p{N}_$]+/gu) ?? []) {
+		const parts = word
+			.split(/[_$]+/)
+			.flatMap((part) => part.split(/(?<=[\p{Ll}\p{N}])(?=\p{Lu})|(?<=\p{Lu})(?=\p{Lu}\p{Ll})/u))
+			.filter((part) => part.length > 1)
+
+		const whole = word.replace(/^[_$]+|[_$]+$/g, "")
+		if (whole.length > 1) {
+			terms.push(whole.toLowerCase())
+		}
+		if (parts.length > 1) {
+			terms.push(...parts.map((part) => part.toLowerCase()))
+		}
+	}
+
+	return terms
+}
+
+/**
+ * Embedded, file-backed BM25 index over the same code chunks as the vector store.
+ *
+ * Vector similarity ranks exact identifiers and error strings poorly, the keyword index
+ * covers those queries and its results are fused with the vector results by the search service.
+ * The chunks are persisted to a JSON file in the extension's global storage, one file per
+ * workspace, and tokenized again when loaded.
+ */
+export class Bm25KeywordIndex implements IKeywordIndex {
+	private readonly indexPath: string
+	private readonly workspacePath: string
+	private chunks = new Map<string, IndexedChunk>()
+	private postings = new Map<string, Set<string>>()
+	private files = new Map<string, Set<string>>()
+	private totalLength = 0
+	private loaded = false
+	private readonly debouncedSave: ReturnType<typeof debounce>
+
+	/**
+	 * Creates a new keyword index
+	 * @param workspacePath Path to the workspace
+	 * @param storageDirectory Directory the index files are stored in
+	 */
+	constructor(workspacePath: string, storageDirectory: string) {
+		const hash = createHash("sha256").update(workspacePath).digest("hex")
+		this.workspacePath = workspacePath
+		this.indexPath = path.join(storageDirectory, "keyword-index", `ws-${hash.substring(0, 16)}.json`)
+		this.debouncedSave = debounce(() => this.save(), 1500)
+	}
+
+	/**
+	 * Initializes the keyword index by loading the persisted index
+	 * @returns Promise resolving to boolean indicating if a new index was created
+	 */
+	async initialize(): Promise<boolean> {
+		this.reset()
+
+		let stored: IndexFile | undefined
+		try {
+			stored = JSON.parse(await fs.readFile(this.indexPath, "utf8"))
+		} catch (error: any) {
+			if (error?.code !== "ENOENT") {
+				console.warn(`[Bm25KeywordIndex] Could not read index at ${this.indexPath}, recreating it:`, error)
+			}
+		}
+
+		this.loaded = true
+
+		if (!stored || stored.version !== INDEX_FORMAT_VERSION) {
+			await this.save()
+			return true
+		}
+
+		for (const point of stored.points) {
+			this.addChunk(point)
+		}
+
+		return false
+	}
+
+	/**
+	 * Upserts chunks into the keyword index
+	 * @param points Array of points to upsert, vectors are ignored
+	 */
+	async upsertPoints(points: KeywordIndexPoint[]): Promise<void> {
+		await this.ensureLoaded()
+
+		for (const point of points) {
+			this.removeChunk(point.id)
+			this.addChunk(point)
+		}
+
+		this.debouncedSave()
+	}
+
+	/**
+	 * Searches the index for chunks matching the query terms
+	 * @param query Search query
+	 * @param directoryPrefix Optional directory prefix to filter results
+	 * @param maxResults Optional maximum number of results to return
+	 * @returns Promise resolving to search results ordered by descending BM25 score
+	 */
+	async search(query: string, directoryPrefix?: string, maxResults?: number): Promise<VectorStoreSearchResult[]> {
+		await this.ensureLoaded()
+
+		const terms = [...new Set(tokenize(query))]
+		if (terms.length === 0 || this.chunks.size === 0) {
+			return []
+		}
+
+		const prefixSegments = getPrefixSegments(directoryPrefix)
+		const averageLength = this.totalLength / this.chunks.size
+		const scores = new Map<string, number>()
+
+		for (const term of terms) {
+			const ids = this.postings.get(term)
+			if (!ids) {
+				continue
+			}
+
+			const idf = Math.log(1 + (this.chunks.size - ids.size + 0.5) / (ids.size + 0.5))
+			for (const id of ids) {
+				const chunk = this.chunks.get(id)!
+				const frequency = chunk.termFrequencies.get(term)!
+				const normalization = BM25_K1 * (1 - BM25_B + (BM25_B * chunk.length) / averageLength)
+				scores.set(id, (scores.get(id) ?? 0) + (idf * frequency * (BM25_K1 + 1)) / (frequency + normalization))
+			}
+		}
+
+		const results: VectorStoreSearchResult[] = []
+		for (const [id, score] of scores) {
+			const chunk = this.chunks.get(id)!
+			if (!isInPrefixSegments(chunk.file, prefixSegments)) {
+				continue
+			}
+			results.push({ id, score, payload: chunk.payload })
+		}
+
+		return results.sort((a, b) => b.score - a.score).slice(0, maxResults ?? DEFAULT_MAX_SEARCH_RESULTS)
+	}
+
+	/**
+	 * Deletes chunks by file path
+	 * @param filePaths Relative or absolute paths of the files to delete chunks for
+	 */
+	async deletePointsByMultipleFilePaths(filePaths: string[]): Promise<void> {
+		if (filePaths.length === 0) {
+			return
+		}
+
+		await this.ensureLoaded()
+
+		let deleted = false
+		for (const filePath of filePaths) {
+			const ids = this.files.get(this.toIndexedFile(filePath))
+			if (ids) {
+				for (const id of [...ids]) {
+					this.removeChunk(id)
+				}
+				deleted = true
+			}
+		}
+
+		if (deleted) {
+			this.debouncedSave()
+		}
+	}
+
+	/**
+	 * Checks if the index contains chunks of a file
+	 * @param filePath Relative or absolute path of the file
+	 */
+	async hasFile(filePath: string): Promise<boolean> {
+		await this.ensureLoaded()
+		return this.files.has(this.toIndexedFile(filePath))
+	}
+
+	/**
+	 * Removes all chunks from the index
+	 */
+	async clear(): Promise<void> {
+		this.reset()
+		this.loaded = true
+		this.debouncedSave.cancel()
+		await this.save()
+	}
+
+	/**
+	 * Deletes the index file
+	 */
+	async delete(): Promise<void> {
+		this.debouncedSave.cancel()
+		this.reset()
+		this.loaded = false
+
+		try {
+			await fs.rm(this.indexPath, { force: true })
+		} catch (error) {
+			console.error(`[Bm25KeywordIndex] Failed to delete index at ${this.indexPath}:`, error)
+			throw error
+		}
+	}
+
+	/**
+	 * Writes the pending changes to disk right away
+	 */
+	async flush(): Promise<void> {
+		await this.debouncedSave.flush()
+	}
+
+	/**
+	 * Writes the index to disk
+	 */
+	private async save(): Promise<void> {
+		const data: IndexFile = {
+			version: INDEX_FORMAT_VERSION,
+			points: Array.from(this.chunks, ([id, chunk]) => ({ id, payload: chunk.payload })),
+		}
+
+		try {
+			await safeWriteJson(this.indexPath, data)
+		} catch (error) {
+			console.error(`[Bm25KeywordIndex] Failed to save index at ${this.indexPath}:`, error)
+		}
+	}
+
+	private async ensureLoaded(): Promise<void> {
+		if (!this.loaded) {
+			await this.initialize()
+		}
+	}
+
+	private reset(): void {
+		this.chunks.clear()
+		this.postings.clear()
+		this.files.clear()
+		this.totalLength = 0
+	}
+
+	private addChunk({ id, payload }: KeywordIndexPoint): void {
+		if (!this.isPayloadValid(payload)) {
+			return
+		}
+
+		const terms = tokenize(payload.codeChunk)
+		const termFrequencies = new Map<string, number>()
+		for (const term of terms) {
+			termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + 1)
+		}
+
+		const file = this.toIndexedFile(payload.filePath)
+		this.chunks.set(id, { payload, file, length: terms.length, termFrequencies })
+		this.totalLength += terms.length
+
+		for (const term of termFrequencies.keys()) {
+			let ids = this.postings.get(term)
+			if (!ids) {
+				ids = new Set()
+				this.postings.set(term, ids)
+			}
+			ids.add(id)
+		}
+
+		let fileIds = this.files.get(file)
+		if (!fileIds) {
+			fileIds = new Set()
+			this.files.set(file, fileIds)
+		}
+		fileIds.add(id)
+	}
+
+	private removeChunk(id: string): void {
+		const chunk = this.chunks.get(id)
+		if (!chunk) {
+			return
+		}
+
+		this.chunks.delete(id)
+		this.totalLength -= chunk.length
+
+		for (const term of chunk.termFrequencies.keys()) {
+			const ids = this.postings.get(term)
+			ids?.delete(id)
+			if (ids?.size === 0) {
+				this.postings.delete(term)
+			}
+		}
+
+		const fileIds = this.files.get(chunk.file)
+		fileIds?.delete(id)
+		if (fileIds?.size === 0) {
+			this.files.delete(chunk.file)
+		}
+	}
+
+	/**
+	 * Chunks store the relative file path, see upsertPoints in the scanner and file watcher
+	 */
+	private toIndexedFile(filePath: string): string {
+		const relativePath = path.isAbsolute(filePath) ? path.relative(this.workspacePath, filePath) : filePath
+		return toPathSegments(path.normalize(relativePath)).join("/")
+	}
+
+	private isPayloadValid(payload: Record<string, unknown> | null | undefined): payload is Payload {
+		if (!payload) {
+			return false
+		}
+		return ["filePath", "codeChunk", "startLine", "endLine"].every((key) => key in payload)
+	}
+}
@@ -63,6 +63,15 @@ export class CodeIndexManager {
 		CodeIndexManager.instances.clear()
 	}
 
+	// kilocode_change start
+	/**
+	 * Writes the index changes that are still pending, before the extension deactivates.
+	 */
+	public static async flushAll(): Promise<void> {
+		await Promise.all(Array.from(CodeIndexManager.instances.values(), (instance) => instance.flush()))
+	}
+	// kilocode_change end
+
 	private readonly workspacePath: string
 	private readonly context: vscode.ExtensionContext
 
@@ -204,6 +213,17 @@ export class CodeIndexManager {
 	}
 
 	// kilocode_change start
+	/**
+	 * Writes the index changes that are still pending.
+	 */
+	public async flush(): Promise<void> {
+		try {
+			await this._orchestrator?.flush()
+		} catch (error) {
+			console.error("Failed to flush the code index:", error)
+		}
+	}
+
 	/**
 	 * Cancel any active indexing activity immediately.
 	 */
@@ -307,6 +327,7 @@ export class CodeIndexManager {
 		if (this._orchestrator) {
 			this.stopWatcher()
 		}
+		await this.flush() // kilocode_change: the replaced vector store keeps no pending writes
 		// Clear existing services to ensure clean state
 		this._orchestrator = undefined
 		this._searchService = undefined
@@ -316,6 +337,7 @@ export class CodeIndexManager {
 			this._configManager!,
 			this.workspacePath,
 			this._cacheManager!,
+			this.context.globalStorageUri.fsPath, // kilocode_change
 		)
 
 		const ignoreInstance = ignore()
@@ -347,7 +369,8 @@ export class CodeIndexManager {
 		await rooIgnoreController.initialize()
 
 		// (Re)Create shared service instances
-		const { embedder, vectorStore, scanner, fileWatcher } = this._serviceFactory.createServices(
+		// kilocode_change: keywordIndex
+		const { embedder, vectorStore, scanner, fileWatcher, keywordIndex } = this._serviceFactory.createServices(
 			this.context,
 			this._cacheManager!,
 			ignoreInstance,
@@ -378,7 +401,10 @@ export class CodeIndexManager {
 			vectorStore,
 			scanner,
 			fileWatcher,
+			keywordIndex, // kilocode_change
 		)
+		// kilocode_change: a file must not be marked as indexed before its points are saved
+		this._cacheManager?.setBeforeSave(() => this.flush())
 
 		// (Re)Initialize search service
 		this._searchService = new CodeIndexSearchService(
@@ -386,6 +412,7 @@ export class CodeIndexManager {
 			this._stateManager,
 			embedder,
 			vectorStore,
+			keywordIndex, // kilocode_change
 		)
 
 		// Clear any error state after successful recreation
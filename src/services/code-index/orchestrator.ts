@@ -2,7 +2,7 @@ import * as vscode from "vscode"
 import * as path from "path"
 import { CodeIndexConfigManager } from "./config-manager"
 import { CodeIndexStateManager, IndexingState } from "./state-manager"
-import { IFileWatcher, IVectorStore, BatchProcessingSummary } from "./interfaces"
+import { IFileWatcher, IVectorStore, BatchProcessingSummary, IKeywordIndex } from "./interfaces" // kilocode_change
 import { DirectoryScanner } from "./processors"
 import { CacheManager } from "./cache-manager"
 import { TelemetryService } from "@roo-code/telemetry"
@@ -25,6 +25,7 @@ export class CodeIndexOrchestrator {
 		private readonly vectorStore: IVectorStore,
 		private readonly scanner: DirectoryScanner,
 		private readonly fileWatcher: IFileWatcher,
+		private readonly keywordIndex?: IKeywordIndex, // kilocode_change
 	) {}
 
 	/**
@@ -130,6 +131,7 @@ export class CodeIndexOrchestrator {
 
 			if (collectionCreated) {
 				await this.cacheManager.clearCacheFile()
+				await this.keywordIndex?.clear() // kilocode_change
 			}
 
 			// kilocode_change start
@@ -234,6 +236,7 @@ export class CodeIndexOrchestrator {
 			})
 			try {
 				await this.vectorStore.clearCollection()
+				await this.keywordIndex?.clear() // kilocode_change
 			} catch (cleanupError) {
 				console.error("[CodeIndexOrchestrator] Failed to clean up after error:", cleanupError)
 				TelemetryService.instance.captureEvent(TelemetryEventName.CODE_INDEX_ERROR, {
@@ -295,6 +298,13 @@ export class CodeIndexOrchestrator {
 		// Clear processing flag
 		this._isProcessing = false
 	}
+
+	/**
+	 * Writes the changes the index still persists in the background
+	 */
+	public async flush(): Promise<void> {
+		await Promise.all([this.vectorStore.flush?.(), this.keywordIndex?.flush()])
+	}
 	// kilocode_change end
 
 	/**
@@ -310,6 +320,7 @@ export class CodeIndexOrchestrator {
 			try {
 				if (this.configManager.isFeatureConfigured) {
 					await this.vectorStore.deleteCollection()
+					await this.keywordIndex?.delete() // kilocode_change
 				} else {
 					console.warn("[CodeIndexOrchestrator] Service not configured, skipping vector collection clear.")
 				}
@@ -395,4 +395,73 @@ describe("DirectoryScanner", () => {
 			expect(points[2].payload.segmentHash).toBe("unique-segment-hash-3")
 		})
 	})
+
+	// kilocode_change start
+	describe("keyword index", () => {
+		let mockKeywordIndex: any
+		const mockBlocks: any[] = [
+			{
+				file_path: "test/file1.js",
+				content: "function getUserName() {}",
+				start_line: 1,
+				end_line: 1,
+				identifier: "getUserName",
+				type: "function",
+				fileHash: "hash",
+				segmentHash: "segment-hash",
+			},
+		]
+
+		beforeEach(async () => {
+			mockKeywordIndex = {
+				upsertPoints: vi.fn().mockResolvedValue(undefined),
+				deletePointsByMultipleFilePaths: vi.fn().mockResolvedValue(undefined),
+				hasFile: vi.fn().mockResolvedValue(false),
+			}
+			scanner = new DirectoryScanner(
+				mockEmbedder,
+				mockVectorStore,
+				mockCodeParser,
+				mockCacheManager,
+				mockIgnoreInstance,
+				undefined,
+				mockKeywordIndex,
+			)
+
+			const { listFiles } = await import("../../../glob/list-files")
+			vi.mocked(listFiles).mockResolvedValue([["test/file1.js"], false])
+			;(mockCodeParser.parseFile as any).mockResolvedValue(mockBlocks)
+		})
+
+		it("should add embedded points to the keyword index", async () => {
+			await scanner.scanDirectory("/test")
+
+			const points = mockVectorStore.upsertPoints.mock.calls[0][0]
+			expect(mockKeywordIndex.upsertPoints).toHaveBeenCalledWith(points)
+		})
+
+		it("should add unchanged files missing from the keyword index without embedding them", async () => {
+			const { createHash } = await import("crypto")
+			;(mockCacheManager.getHash as any).mockReturnValue(
+				createHash("sha256").update("test content").digest("hex"),
+			)
+
+			await scanner.scanDirectory("/test")
+
+			expect(mockEmbedder.createEmbeddings).not.toHaveBeenCalled()
+			expect(mockKeywordIndex.hasFile).toHaveBeenCalledWith("test/file1.js")
+			const [points] = mockKeywordIndex.upsertPoints.mock.calls[0]
+			expect(points).toHaveLength(1)
+			expect(points[0].payload).toMatchObject({ codeChunk: "function getUserName() {}", startLine: 1 })
+		})
+
+		it("should remove deleted files from the keyword index", async () => {
+			;(mockCacheManager.getAllHashes as any).mockReturnValue({ "old/file.js": "old-hash" })
+
+			await scanner.scanDirectory("/test")
+
+			expect(mockKeywordIndex.deletePointsByMultipleFilePaths).toHaveBeenCalledWith(["old/file.js"])
+		})
+	})
+	// kilocode_change end
 })
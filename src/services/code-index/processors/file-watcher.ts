@@ -18,6 +18,7 @@ import {
 	IVectorStore,
 	PointStruct,
 	BatchProcessingSummary,
+	IKeywordIndex, // kilocode_change
 } from "../interfaces"
 import { codeParser } from "./parser"
 import { CacheManager } from "../cache-manager"
@@ -71,6 +72,7 @@ export class FileWatcher implements IFileWatcher {
 	 * @param embedder Optional embedder
 	 * @param vectorStore Optional vector store
 	 * @param cacheManager Cache manager
+	 * @param keywordIndex Optional keyword index, kept in sync with the vector store
 	 */
 	constructor(
 		private workspacePath: string,
@@ -81,6 +83,7 @@ export class FileWatcher implements IFileWatcher {
 		ignoreInstance?: Ignore,
 		ignoreController?: RooIgnoreController,
 		batchSegmentThreshold?: number,
+		private keywordIndex?: IKeywordIndex, // kilocode_change
 	) {
 		this.ignoreController = ignoreController || new RooIgnoreController(workspacePath)
 		if (ignoreInstance) {
@@ -210,6 +213,7 @@ export class FileWatcher implements IFileWatcher {
 		if (allPathsToClearFromDB.size > 0 && this.vectorStore) {
 			try {
 				await this.vectorStore.deletePointsByMultipleFilePaths(Array.from(allPathsToClearFromDB))
+				await this.keywordIndex?.deletePointsByMultipleFilePaths(Array.from(allPathsToClearFromDB)) // kilocode_change
 
 				for (const path of pathsToExplicitlyDelete) {
 					this.cacheManager.deleteHash(path)
@@ -366,6 +370,7 @@ export class FileWatcher implements IFileWatcher {
 					while (retryCount < MAX_BATCH_RETRIES) {
 						try {
 							await this.vectorStore.upsertPoints(batch)
+							await this.keywordIndex?.upsertPoints(batch) // kilocode_change
 							break
 						} catch (error) {
 							upsertError = error as Error
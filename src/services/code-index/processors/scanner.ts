@@ -7,7 +7,7 @@ import { generateNormalizedAbsolutePath, generateRelativeFilePath } from "../sha
 import { getWorkspacePathForContext } from "../../../utils/path"
 import { scannerExtensions } from "../shared/supported-extensions"
 import * as vscode from "vscode"
-import { CodeBlock, ICodeParser, IEmbedder, IVectorStore, IDirectoryScanner } from "../interfaces"
+import { CodeBlock, ICodeParser, IEmbedder, IVectorStore, IDirectoryScanner, IKeywordIndex } from "../interfaces" // kilocode_change
 import { createHash } from "crypto"
 import { v5 as uuidv5 } from "uuid"
 import pLimit from "p-limit"
@@ -42,6 +42,7 @@ export class DirectoryScanner implements IDirectoryScanner {
 		private readonly cacheManager: CacheManager,
 		private readonly ignoreInstance: Ignore,
 		batchSegmentThreshold?: number,
+		private readonly keywordIndex?: IKeywordIndex, // kilocode_change
 	) {
 		// Get the configurable batch size from VSCode settings, fallback to default
 		// If not provided in constructor, try to get from VSCode settings
@@ -72,6 +73,26 @@ export class DirectoryScanner implements IDirectoryScanner {
 	public get isCancelled(): boolean {
 		return this._cancelled
 	}
+
+	/**
+	 * Adds blocks to the keyword index without embedding them, using the same ids and payloads as the vector store
+	 */
+	private async addToKeywordIndex(blocks: CodeBlock[], scanWorkspace: string): Promise<void> {
+		const points = blocks.map((block) => ({
+			id: uuidv5(block.segmentHash, QDRANT_CODE_BLOCK_NAMESPACE),
+			payload: {
+				filePath: generateRelativeFilePath(
+					generateNormalizedAbsolutePath(block.file_path, scanWorkspace),
+					scanWorkspace,
+				),
+				codeChunk: block.content,
+				startLine: block.start_line,
+				endLine: block.end_line,
+				segmentHash: block.segmentHash,
+			},
+		}))
+		await this.keywordIndex?.upsertPoints(points)
+	}
 	// kilocode_change end
 
 	/**
@@ -187,6 +208,17 @@ export class DirectoryScanner implements IDirectoryScanner {
 					const cachedFileHash = this.cacheManager.getHash(filePath)
 					const isNewFile = !cachedFileHash
 					if (cachedFileHash === currentFileHash) {
+						// kilocode_change start
+						// Unchanged files are not re-embedded, but may be missing from a newly created keyword index
+						if (this.keywordIndex && !(await this.keywordIndex.hasFile(filePath))) {
+							const blocks = await this.codeParser.parseFile(filePath, {
+								content,
+								fileHash: currentFileHash,
+							})
+							await this.addToKeywordIndex(blocks, scanWorkspace)
+						}
+						// kilocode_change end
+
 						// File is unchanged
 						skippedCount++
 						return
@@ -373,6 +405,7 @@ export class DirectoryScanner implements IDirectoryScanner {
 				if (this.qdrantClient) {
 					try {
 						await this.qdrantClient.deletePointsByFilePath(cachedFilePath)
+						await this.keywordIndex?.deletePointsByMultipleFilePaths([cachedFilePath]) // kilocode_change
 						await this.cacheManager.deleteHash(cachedFilePath)
 					} catch (error: any) {
 						const errorStatus = error?.status || error?.response?.status || error?.statusCode
@@ -476,6 +509,7 @@ export class DirectoryScanner implements IDirectoryScanner {
 				if (uniqueFilePaths.length > 0) {
 					try {
 						await this.qdrantClient.deletePointsByMultipleFilePaths(uniqueFilePaths)
+						await this.keywordIndex?.deletePointsByMultipleFilePaths(uniqueFilePaths) // kilocode_change
 						// kilocode_change start
 						console.debug(
 							`[DirectoryScanner] Successfully deleted points for ${uniqueFilePaths.length} files`,
@@ -547,6 +581,7 @@ export class DirectoryScanner implements IDirectoryScanner {
 				console.debug("[DirectoryScanner] Starting Qdrant upsert") // kilocode_change
 
 				await this.qdrantClient.upsertPoints(points)
+				await this.keywordIndex?.upsertPoints(points) // kilocode_change
 				console.debug("[DirectoryScanner] Completed Qdrant upsert") // kilocode_change
 				onBlocksIndexed?.(batchBlocks.length)
 
@@ -2,6 +2,8 @@ import * as path from "path"
 import { VectorStoreSearchResult } from "./interfaces"
 import { IEmbedder } from "./interfaces/embedder"
 import { IVectorStore } from "./interfaces/vector-store"
+import { IKeywordIndex } from "./interfaces/keyword-index" // kilocode_change
+import { fuseSearchResults } from "./shared/rank-fusion" // kilocode_change
 import { CodeIndexConfigManager } from "./config-manager"
 import { CodeIndexStateManager } from "./state-manager"
 import { TelemetryService } from "@roo-code/telemetry"
@@ -16,6 +18,7 @@ export class CodeIndexSearchService {
 		private readonly stateManager: CodeIndexStateManager,
 		private readonly embedder: IEmbedder,
 		private readonly vectorStore: IVectorStore,
+		private readonly keywordIndex?: IKeywordIndex, // kilocode_change
 	) {}
 
 	/**
@@ -40,23 +43,30 @@ export class CodeIndexSearchService {
 			throw new Error(`Code index is not ready for search. Current state: ${currentState}`)
 		}
 
-		try {
-			// Generate embedding for query
-			const embeddingResponse = await this.embedder.createEmbeddings([query])
-			const vector = embeddingResponse?.embeddings[0]
-			if (!vector) {
-				throw new Error("Failed to generate embedding for query.")
-			}
+		// kilocode_change start
+		// Keyword matches are only mixed in when a keyword index is maintained
+		const keywordWeight = this.keywordIndex ? this.configManager.currentSearchKeywordWeight : 0
+		// kilocode_change end
 
+		try {
 			// Handle directory prefix
 			let normalizedPrefix: string | undefined = undefined
 			if (directoryPrefix) {
 				normalizedPrefix = path.normalize(directoryPrefix)
 			}
 
-			// Perform search
-			const results = await this.vectorStore.search(vector, normalizedPrefix, minScore, maxResults)
-			return results
+			// kilocode_change start
+			if (keywordWeight <= 0) {
+				return await this.searchVectors(query, normalizedPrefix, minScore, maxResults)
+			}
+
+			// Rank both lists and combine them with reciprocal-rank fusion
+			const [vectorResults, keywordResults] = await Promise.all([
+				keywordWeight < 1 ? this.searchVectors(query, normalizedPrefix, minScore, maxResults) : [],
+				this.keywordIndex!.search(query, normalizedPrefix, maxResults),
+			])
+			return fuseSearchResults(vectorResults, keywordResults, keywordWeight, maxResults)
+			// kilocode_change end
 		} catch (error) {
 			console.error("[CodeIndexSearchService] Error during search:", error)
 			this.stateManager.setSystemState("Error", `Search failed: ${(error as Error).message}`)
@@ -71,4 +81,23 @@ export class CodeIndexSearchService {
 			throw error // Re-throw the error after setting state
 		}
 	}
+
+	// kilocode_change start
+	private async searchVectors(
+		query: string,
+		directoryPrefix: string | undefined,
+		minScore: number,
+		maxResults: number,
+	): Promise<VectorStoreSearchResult[]> {
+		// Generate embedding for query
+		const embeddingResponse = await this.embedder.createEmbeddings([query])
+		const vector = embeddingResponse?.embeddings[0]
+		if (!vector) {
+			throw new Error("Failed to generate embedding for query.")
+		}
+
+		// Perform search
+		return this.vectorStore.search(vector, directoryPrefix, minScore, maxResults)
+	}
+	// kilocode_change end
 }
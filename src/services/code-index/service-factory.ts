@@ -1,4 +1,5 @@
 import * as vscode from "vscode"
+import * as path from "path" // kilocode_change
 import { OpenAiEmbedder } from "./embedders/openai"
 import { CodeIndexOllamaEmbedder } from "./embedders/ollama"
 import { OpenAICompatibleEmbedder } from "./embedders/openai-compatible"
@@ -7,8 +8,13 @@ import { MistralEmbedder } from "./embedders/mistral"
 import { VercelAiGatewayEmbedder } from "./embedders/vercel-ai-gateway"
 import { EmbedderProvider, getDefaultModelId, getModelDimension } from "../../shared/embeddingModels"
 import { QdrantVectorStore } from "./vector-store/qdrant-client"
+// kilocode_change start
+import { LocalVectorStore } from "./vector-store/local-vector-store"
+import { LocalEmbedder } from "./embedders/local"
+import { Bm25KeywordIndex } from "./keyword-index/bm25-index"
+// kilocode_change end
 import { codeParser, DirectoryScanner, FileWatcher } from "./processors"
-import { ICodeParser, IEmbedder, IFileWatcher, IVectorStore } from "./interfaces"
+import { ICodeParser, IEmbedder, IFileWatcher, IVectorStore, IKeywordIndex } from "./interfaces" // kilocode_change
 import { CodeIndexConfigManager } from "./config-manager"
 import { CacheManager } from "./cache-manager"
 import { RooIgnoreController } from "../../core/ignore/RooIgnoreController"
@@ -17,7 +23,7 @@ import { t } from "../../i18n"
 import { TelemetryService } from "@roo-code/telemetry"
 import { TelemetryEventName } from "@roo-code/types"
 import { Package } from "../../shared/package"
-import { BATCH_SEGMENT_THRESHOLD } from "./constants"
+import { BATCH_SEGMENT_THRESHOLD, LOCAL_EMBEDDING_MODELS_PATH } from "./constants" // kilocode_change
 
 /**
  * Factory class responsible for creating and configuring code indexing service dependencies.
@@ -27,6 +33,7 @@ export class CodeIndexServiceFactory {
 		private readonly configManager: CodeIndexConfigManager,
 		private readonly workspacePath: string,
 		private readonly cacheManager: CacheManager,
+		private readonly globalStoragePath?: string, // kilocode_change: where the local vector store and keyword index are persisted
 	) {}
 
 	/**
@@ -79,6 +86,11 @@ export class CodeIndexServiceFactory {
 				throw new Error(t("embeddings:serviceFactory.vercelAiGatewayConfigMissing"))
 			}
 			return new VercelAiGatewayEmbedder(config.vercelAiGatewayOptions.apiKey, config.modelId)
+			// kilocode_change start
+		} else if (provider === "local") {
+			const extensionPath = this.configManager.getContextProxy().extensionUri.fsPath
+			return new LocalEmbedder(path.join(extensionPath, ...LOCAL_EMBEDDING_MODELS_PATH), config.modelId)
+			// kilocode_change end
 		}
 
 		throw new Error(
@@ -141,6 +153,15 @@ export class CodeIndexServiceFactory {
 			}
 		}
 
+		// kilocode_change start
+		if (config.vectorStoreProvider === "local") {
+			if (!this.globalStoragePath) {
+				throw new Error(t("embeddings:serviceFactory.localVectorStoreStorageMissing"))
+			}
+			return new LocalVectorStore(this.workspacePath, this.globalStoragePath, vectorSize)
+		}
+		// kilocode_change end
+
 		if (!config.qdrantUrl) {
 			throw new Error(t("embeddings:serviceFactory.qdrantUrlMissing"))
 		}
@@ -149,6 +170,24 @@ export class CodeIndexServiceFactory {
 		return new QdrantVectorStore(this.workspacePath, config.qdrantUrl, vectorSize, config.qdrantApiKey)
 	}
 
+	// kilocode_change start
+	/**
+	 * Creates the keyword index used for hybrid search, which needs a storage location.
+	 * Hybrid search is opt-in, there is no index while keyword matches have no weight.
+	 */
+	public createKeywordIndex(): IKeywordIndex | undefined {
+		if (!this.globalStoragePath) {
+			return undefined
+		}
+		if (this.configManager.currentSearchKeywordWeight <= 0) {
+			// An index left from when hybrid search was on would be stale once it is turned on again
+			void new Bm25KeywordIndex(this.workspacePath, this.globalStoragePath).delete().catch(() => {})
+			return undefined
+		}
+		return new Bm25KeywordIndex(this.workspacePath, this.globalStoragePath)
+	}
+	// kilocode_change end
+
 	/**
 	 * Creates a directory scanner instance with its required dependencies.
 	 */
@@ -157,6 +196,7 @@ export class CodeIndexServiceFactory {
 		vectorStore: IVectorStore,
 		parser: ICodeParser,
 		ignoreInstance: Ignore,
+		keywordIndex?: IKeywordIndex, // kilocode_change
 	): DirectoryScanner {
 		// Get the configurable batch size from VSCode settings
 		let batchSize: number
@@ -168,7 +208,15 @@ export class CodeIndexServiceFactory {
 			// In test environment, vscode.workspace might not be available
 			batchSize = BATCH_SEGMENT_THRESHOLD
 		}
-		return new DirectoryScanner(embedder, vectorStore, parser, this.cacheManager, ignoreInstance, batchSize)
+		return new DirectoryScanner(
+			embedder,
+			vectorStore,
+			parser,
+			this.cacheManager,
+			ignoreInstance,
+			batchSize,
+			keywordIndex, // kilocode_change
+		)
 	}
 
 	/**
@@ -181,6 +229,7 @@ export class CodeIndexServiceFactory {
 		cacheManager: CacheManager,
 		ignoreInstance: Ignore,
 		rooIgnoreController?: RooIgnoreController,
+		keywordIndex?: IKeywordIndex, // kilocode_change
 	): IFileWatcher {
 		// Get the configurable batch size from VSCode settings
 		let batchSize: number
@@ -201,6 +250,7 @@ export class CodeIndexServiceFactory {
 			ignoreInstance,
 			rooIgnoreController,
 			batchSize,
+			keywordIndex, // kilocode_change
 		)
 	}
 
@@ -219,6 +269,7 @@ export class CodeIndexServiceFactory {
 		parser: ICodeParser
 		scanner: DirectoryScanner
 		fileWatcher: IFileWatcher
+		keywordIndex?: IKeywordIndex // kilocode_change
 	} {
 		if (!this.configManager.isFeatureConfigured) {
 			throw new Error(t("embeddings:serviceFactory.codeIndexingNotConfigured"))
@@ -227,7 +278,8 @@ export class CodeIndexServiceFactory {
 		const embedder = this.createEmbedder()
 		const vectorStore = this.createVectorStore()
 		const parser = codeParser
-		const scanner = this.createDirectoryScanner(embedder, vectorStore, parser, ignoreInstance)
+		const keywordIndex = this.createKeywordIndex() // kilocode_change
+		const scanner = this.createDirectoryScanner(embedder, vectorStore, parser, ignoreInstance, keywordIndex)
 		const fileWatcher = this.createFileWatcher(
 			context,
 			embedder,
@@ -235,6 +287,7 @@ export class CodeIndexServiceFactory {
 			cacheManager,
 			ignoreInstance,
 			rooIgnoreController,
+			keywordIndex, // kilocode_change
 		)
 
 		return {
@@ -243,6 +296,7 @@ export class CodeIndexServiceFactory {
 			parser,
 			scanner,
 			fileWatcher,
+			keywordIndex, // kilocode_change
 		}
 	}
 }
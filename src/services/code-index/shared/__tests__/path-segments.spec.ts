@@ -0,0 +1,27 @@
+// kilocode_change - new file
+// npx vitest services/code-index/shared/__tests__/path-segments.spec.ts
+
+import { getPrefixSegments, isInPrefixSegments, toPathSegments } from "../path-segments"
+
+describe("path segments", () => {
+	it("should split POSIX and Windows paths", () => {
+		expect(toPathSegments("src/utils/a.ts")).toEqual(["src", "utils", "a.ts"])
+		expect(toPathSegments("src\\utils\\a.ts")).toEqual(["src", "utils", "a.ts"])
+	})
+
+	it("should match the whole workspace for an empty or current directory prefix", () => {
+		expect(getPrefixSegments()).toEqual([])
+		expect(getPrefixSegments(".")).toEqual([])
+		expect(getPrefixSegments("./")).toEqual([])
+		expect(getPrefixSegments("./src/utils/")).toEqual(["src", "utils"])
+		expect(getPrefixSegments("src\\utils")).toEqual(["src", "utils"])
+	})
+
+	it("should only match whole directory names", () => {
+		const prefixSegments = getPrefixSegments("src/util")
+		expect(isInPrefixSegments("src/util/a.ts", prefixSegments)).toBe(true)
+		expect(isInPrefixSegments("src\\util\\a.ts", prefixSegments)).toBe(true)
+		expect(isInPrefixSegments("src/utils/a.ts", prefixSegments)).toBe(false)
+		expect(isInPrefixSegments("lib/a.ts", [])).toBe(true)
+	})
+})
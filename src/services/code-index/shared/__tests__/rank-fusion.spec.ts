@@ -0,0 +1,49 @@
+// kilocode_change - new file
+// npx vitest services/code-index/shared/__tests__/rank-fusion.spec.ts
+
+import { fuseSearchResults } from "../rank-fusion"
+
+function createResult(id: string, score: number) {
+	return { id, score, payload: { filePath: `${id}.ts`, codeChunk: id, startLine: 1, endLine: 1 } }
+}
+
+describe("fuseSearchResults", () => {
+	const vectorResults = [createResult("a", 0.9), createResult("b", 0.8), createResult("c", 0.7)]
+	const keywordResults = [createResult("c", 12), createResult("d", 8)]
+
+	it("should rank results found by both searches first", () => {
+		const results = fuseSearchResults(vectorResults, keywordResults, 0.5, 10)
+
+		expect(results.map((result) => result.id).slice(0, 2)).toEqual(["c", "a"])
+		expect(results[0].payload?.filePath).toBe("c.ts")
+	})
+
+	it("should follow a single list when its weight is 1", () => {
+		expect(fuseSearchResults(vectorResults, keywordResults, 0, 10).map((result) => result.id)).toEqual([
+			"a",
+			"b",
+			"c",
+		])
+		expect(fuseSearchResults(vectorResults, keywordResults, 1, 10).map((result) => result.id)).toEqual(["c", "d"])
+	})
+
+	it("should shift the ranking with the keyword weight", () => {
+		const vectorLeaning = fuseSearchResults(vectorResults, keywordResults, 0.2, 10).map((result) => result.id)
+		const keywordLeaning = fuseSearchResults(vectorResults, keywordResults, 0.8, 10).map((result) => result.id)
+
+		expect(vectorLeaning.indexOf("a")).toBeLessThan(vectorLeaning.indexOf("d"))
+		expect(keywordLeaning.indexOf("d")).toBeLessThan(keywordLeaning.indexOf("a"))
+	})
+
+	it("should scale scores so that a result ranked first by both lists scores 1", () => {
+		const results = fuseSearchResults([createResult("a", 0.5)], [createResult("a", 3)], 0.3, 10)
+
+		expect(results).toHaveLength(1)
+		expect(results[0].score).toBeCloseTo(1)
+	})
+
+	it("should limit the number of results without changing the inputs", () => {
+		expect(fuseSearchResults(vectorResults, keywordResults, 0.5, 2)).toHaveLength(2)
+		expect(vectorResults[2].score).toBe(0.7)
+	})
+})
@@ -0,0 +1,33 @@
+// kilocode_change - new file
+import * as path from "path"
+
+/**
+ * Splits a path into its segments, accepting both POSIX and Windows separators
+ */
+export function toPathSegments(filePath: string): string[] {
+	return filePath.split(/[\\/]/).filter(Boolean)
+}
+
+/**
+ * Converts a directory prefix into path segments, an empty list matches the whole workspace
+ */
+export function getPrefixSegments(directoryPrefix?: string): string[] {
+	if (!directoryPrefix) {
+		return []
+	}
+
+	const normalizedPrefix = path.posix.normalize(directoryPrefix.replace(/\\/g, "/"))
+	if (normalizedPrefix === "." || normalizedPrefix === "./") {
+		return []
+	}
+
+	return toPathSegments(normalizedPrefix.startsWith("./") ? normalizedPrefix.slice(2) : normalizedPrefix)
+}
+
+/**
+ * Whether a file is inside the directory of the prefix segments, see {@link getPrefixSegments}
+ */
+export function isInPrefixSegments(filePath: string, prefixSegments: string[]): boolean {
+	const segments = toPathSegments(filePath)
+	return prefixSegments.every((segment, index) => segments[index] === segment)
+}
@@ -0,0 +1,51 @@
+// kilocode_change - new file
+import { VectorStoreSearchResult } from "../interfaces"
+
+/**
+ * Rank constant of reciprocal-rank fusion, dampens the influence of the top ranks
+ */
+export const RRF_K = 60
+
+/**
+ * Combines a vector and a keyword result list with weighted reciprocal-rank fusion.
+ *
+ * Each result scores `weight / (RRF_K + rank)` per list it appears in, so only the ranks and not
+ * the incomparable raw scores matter. Scores are scaled so that a result ranked first by both
+ * lists scores 1.
+ *
+ * @param vectorResults Results of the vector search, ordered by descending score
+ * @param keywordResults Results of the keyword search, ordered by descending score
+ * @param keywordWeight Weight of the keyword results between 0 (vector only) and 1 (keyword only)
+ * @param maxResults Maximum number of results to return
+ * @returns Fused results ordered by descending score
+ */
+export function fuseSearchResults(
+	vectorResults: VectorStoreSearchResult[],
+	keywordResults: VectorStoreSearchResult[],
+	keywordWeight: number,
+	maxResults: number,
+): VectorStoreSearchResult[] {
+	const weight = Math.min(Math.max(keywordWeight, 0), 1)
+	const fused = new Map<string | number, VectorStoreSearchResult>()
+
+	const addRanks = (results: VectorStoreSearchResult[], listWeight: number) => {
+		if (listWeight === 0) {
+			return
+		}
+
+		results.forEach((result, index) => {
+			const score = (listWeight * (RRF_K + 1)) / (RRF_K + index + 1)
+			const existing = fused.get(result.id)
+			if (existing) {
+				existing.score += score
+			} else {
+				fused.set(result.id, { ...result, score })
+			}
+		})
+	}
+
+	addRanks(vectorResults, 1 - weight)
+	addRanks(keywordResults, weight)
+
+	return [...fused.values()].sort((a, b) => b.score - a.score).slice(0, maxResults)
+}
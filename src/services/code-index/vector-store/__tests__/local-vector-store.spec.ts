@@ -0,0 +1,209 @@
+// kilocode_change - new file
+// npx vitest services/code-index/vector-store/__tests__/local-vector-store.spec.ts
+
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import { LocalVectorStore } from "../local-vector-store"
+
+vitest.mock("../../../../i18n", () => ({
+	t: (key: string) => key,
+}))
+
+function createPoint(id: string, vector: number[], filePath: string) {
+	return { id, vector, payload: { filePath, codeChunk: `chunk ${id}`, startLine: 1, endLine: 2 } }
+}
+
+describe("LocalVectorStore", () => {
+	const workspacePath = "/test/workspace"
+	let storageDirectory: string
+
+	beforeEach(async () => {
+		storageDirectory = await fs.mkdtemp(path.join(os.tmpdir(), "local-vector-store-"))
+	})
+
+	afterEach(async () => {
+		await fs.rm(storageDirectory, { recursive: true, force: true })
+	})
+
+	const getStorePath = async () => {
+		const [storeFile] = await fs.readdir(path.join(storageDirectory, "vector-store"))
+		return path.join(storageDirectory, "vector-store", storeFile)
+	}
+
+	it("should create a new index on first initialization", async () => {
+		const store = new LocalVectorStore(workspacePath, storageDirectory, 3)
+
+		expect(await store.collectionExists()).toBe(false)
+		expect(await store.initialize()).toBe(true)
+		expect(await store.collectionExists()).toBe(true)
+	})
+
+	it("should return the most similar points above the minimum score", async () => {
+		const store = new LocalVectorStore(workspacePath, storageDirectory, 3)
+		await store.initialize()
+		await store.upsertPoints([
+			createPoint("a", [1, 0, 0], "src/a.ts"),
+			createPoint("b", [0.8, 0.6, 0], "src/b.ts"),
+			createPoint("c", [0, 0, 1], "src/c.ts"),
+		])
+
+		const results = await store.search([2, 0, 0], undefined, 0.5, 10)
+
+		expect(results.map((result) => result.id)).toEqual(["a", "b"])
+		expect(results[0].score).toBeCloseTo(1)
+		expect(results[1].score).toBeCloseTo(0.8)
+		expect(results[0].payload?.filePath).toBe("src/a.ts")
+	})
+
+	it("should limit the number of results", async () => {
+		const store = new LocalVectorStore(workspacePath, storageDirectory, 2)
+		await store.initialize()
+		await store.upsertPoints([createPoint("a", [1, 0], "a.ts"), createPoint("b", [1, 0.1], "b.ts")])
+
+		expect(await store.search([1, 0], undefined, 0, 1)).toHaveLength(1)
+	})
+
+	it("should filter results by directory prefix", async () => {
+		const store = new LocalVectorStore(workspacePath, storageDirectory, 2)
+		await store.initialize()
+		await store.upsertPoints([
+			createPoint("a", [1, 0], "src/utils/a.ts"),
+			createPoint("b", [1, 0], "src/b.ts"),
+			createPoint("c", [1, 0], "test/c.ts"),
+		])
+
+		const ids = async (prefix?: string) => (await store.search([1, 0], prefix, 0)).map((result) => result.id).sort()
+
+		expect(await ids("src")).toEqual(["a", "b"])
+		expect(await ids("./src/utils")).toEqual(["a"])
+		expect(await ids("src\\utils")).toEqual(["a"])
+		expect(await ids(".")).toEqual(["a", "b", "c"])
+		expect(await ids("sr")).toEqual([])
+	})
+
+	it("should replace points with the same id", async () => {
+		const store = new LocalVectorStore(workspacePath, storageDirectory, 2)
+		await store.initialize()
+		await store.upsertPoints([createPoint("a", [1, 0], "a.ts")])
+		await store.upsertPoints([createPoint("a", [0, 1], "a.ts")])
+
+		const results = await store.search([0, 1], undefined, 0)
+		expect(results).toHaveLength(1)
+		expect(results[0].score).toBeCloseTo(1)
+	})
+
+	it("should delete points by relative and absolute file paths", async () => {
+		const store = new LocalVectorStore(workspacePath, storageDirectory, 2)
+		await store.initialize()
+		await store.upsertPoints([
+			createPoint("a", [1, 0], "src/a.ts"),
+			createPoint("b", [1, 0], "src/b.ts"),
+			createPoint("c", [1, 0], "src/c.ts"),
+		])
+
+		await store.deletePointsByMultipleFilePaths(["src/a.ts", path.join(workspacePath, "src", "b.ts")])
+
+		expect((await store.search([1, 0], undefined, 0)).map((result) => result.id)).toEqual(["c"])
+	})
+
+	it("should persist points across instances", async () => {
+		const store = new LocalVectorStore(workspacePath, storageDirectory, 2)
+		await store.initialize()
+		await store.upsertPoints([createPoint("a", [3, 4], "src/a.ts")])
+		await store.flush()
+
+		const reloaded = new LocalVectorStore(workspacePath, storageDirectory, 2)
+		expect(await reloaded.collectionExists()).toBe(true)
+		expect(await reloaded.initialize()).toBe(false)
+
+		const results = await reloaded.search([3, 4], undefined, 0)
+		expect(results.map((result) => result.id)).toEqual(["a"])
+		expect(results[0].score).toBeCloseTo(1)
+	})
+
+	it("should recreate the index when the vector size changes", async () => {
+		const store = new LocalVectorStore(workspacePath, storageDirectory, 2)
+		await store.initialize()
+		await store.upsertPoints([createPoint("a", [1, 0], "a.ts")])
+		await store.flush()
+
+		const resized = new LocalVectorStore(workspacePath, storageDirectory, 3)
+		expect(await resized.initialize()).toBe(true)
+		expect(await resized.search([1, 0, 0], undefined, 0)).toEqual([])
+	})
+
+	it("should report why an index with another format version is recreated", async () => {
+		const store = new LocalVectorStore(workspacePath, storageDirectory, 2)
+		await store.initialize()
+		await store.upsertPoints([createPoint("a", [1, 0], "a.ts")])
+		await store.flush()
+
+		const storePath = await getStorePath()
+		const [header, ...records] = (await fs.readFile(storePath, "utf8")).split("\n")
+		await fs.writeFile(storePath, [JSON.stringify({ ...JSON.parse(header), version: 0 }), ...records].join("\n"))
+		const warn = vitest.spyOn(console, "warn").mockImplementation(() => {})
+
+		const reloaded = new LocalVectorStore(workspacePath, storageDirectory, 2)
+		expect(await reloaded.initialize()).toBe(true)
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("has format version 0, but expected 2"))
+		warn.mockRestore()
+	})
+
+	it("should only append the points changed since the last save", async () => {
+		const store = new LocalVectorStore(workspacePath, storageDirectory, 2)
+		await store.initialize()
+		await store.upsertPoints([createPoint("a", [1, 0], "src/a.ts"), createPoint("b", [0, 1], "src/b.ts")])
+		await store.flush()
+		await store.upsertPoints([createPoint("c", [1, 1], "src/c.ts")])
+		await store.deletePointsByFilePath("src/a.ts")
+		await store.flush()
+
+		const lines = (await fs.readFile(await getStorePath(), "utf8")).trimEnd().split("\n")
+		expect(lines.map((line) => JSON.parse(line).id)).toEqual([undefined, "a", "b", "c", "a"])
+		expect(JSON.parse(lines[4])).toEqual({ id: "a", deleted: true })
+
+		const reloaded = new LocalVectorStore(workspacePath, storageDirectory, 2)
+		expect(await reloaded.initialize()).toBe(false)
+		expect((await reloaded.search([1, 1], undefined, 0)).map((result) => result.id)).toEqual(["c", "b"])
+	})
+
+	it("should drop a record cut short by an interrupted save and rewrite the index", async () => {
+		const store = new LocalVectorStore(workspacePath, storageDirectory, 2)
+		await store.initialize()
+		await store.upsertPoints([createPoint("a", [1, 0], "src/a.ts")])
+		await store.flush()
+		const storePath = await getStorePath()
+		await fs.appendFile(storePath, '{"id":"b","vec')
+		const warn = vitest.spyOn(console, "warn").mockImplementation(() => {})
+
+		const reloaded = new LocalVectorStore(workspacePath, storageDirectory, 2)
+		expect(await reloaded.initialize()).toBe(false)
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("Dropped 1 malformed records"))
+		expect((await fs.readFile(storePath, "utf8")).trimEnd().split("\n")).toHaveLength(2)
+		expect((await reloaded.search([1, 0], undefined, 0)).map((result) => result.id)).toEqual(["a"])
+		warn.mockRestore()
+	})
+
+	it("should reject vectors of the wrong size", async () => {
+		const store = new LocalVectorStore(workspacePath, storageDirectory, 2)
+		await store.initialize()
+
+		await expect(store.upsertPoints([createPoint("a", [1, 0, 0], "a.ts")])).rejects.toThrow(
+			"embeddings:vectorStore.vectorDimensionMismatch",
+		)
+	})
+
+	it("should clear and delete the index", async () => {
+		const store = new LocalVectorStore(workspacePath, storageDirectory, 2)
+		await store.initialize()
+		await store.upsertPoints([createPoint("a", [1, 0], "a.ts")])
+
+		await store.clearCollection()
+		expect(await store.search([1, 0], undefined, 0)).toEqual([])
+
+		await store.deleteCollection()
+		expect(await store.collectionExists()).toBe(false)
+	})
+})
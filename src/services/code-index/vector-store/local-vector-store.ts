@@ -0,0 +1,433 @@
+// kilocode_change - new file
+import { createHash } from "crypto"
+import * as fs from "fs/promises"
+import * as path from "path"
+import debounce from "lodash.debounce"
+import { IVectorStore, PointStruct } from "../interfaces/vector-store"
+import { Payload, VectorStoreSearchResult } from "../interfaces"
+import { DEFAULT_MAX_SEARCH_RESULTS, DEFAULT_SEARCH_MIN_SCORE } from "../constants"
+import { t } from "../../../i18n"
+import { getPrefixSegments, isInPrefixSegments, toPathSegments } from "../shared/path-segments"
+
+const STORE_FORMAT_VERSION = 2
+
+/** How many stale records the index file can hold beyond twice the number of points before it is compacted */
+const COMPACTION_MIN_STALE_RECORDS = 1000
+
+interface StoredPoint {
+	id: string
+	/** Normalized vector, stored as base64 encoded float32 values */
+	vector: string
+	payload: Record<string, any>
+}
+
+/** A line of the index file after the header, the latest record of an id wins */
+type StoreRecord = StoredPoint | { id: string; deleted: true }
+
+/** The first line of the index file */
+interface StoreHeader {
+	version: number
+	vectorSize: number
+}
+
+interface IndexedPoint {
+	vector: Float32Array
+	payload: Record<string, any>
+}
+
+/**
+ * Embedded, file-backed implementation of the vector store interface.
+ *
+ * Points are kept in memory and searched exhaustively (flat index) using cosine similarity,
+ * which is fast enough for the size of a single workspace and needs no server. The index is
+ * persisted to a JSON Lines file in the extension's global storage, one file per workspace. Each
+ * save appends the points changed since the previous one, and the file is rewritten without the
+ * stale records once they outnumber the points, so the writes stay proportional to the changes.
+ */
+export class LocalVectorStore implements IVectorStore {
+	private readonly storePath: string
+	private readonly workspacePath: string
+	private readonly vectorSize: number
+	private points = new Map<string, IndexedPoint>()
+	private loaded = false
+	/** Ids of the points upserted or deleted since the last save */
+	private changedIds = new Set<string>()
+	/** Number of records in the index file, including the stale ones */
+	private recordCount = 0
+	/** Whether the next save rewrites the whole index file instead of appending to it */
+	private needsRewrite = true
+	private saving: Promise<void> = Promise.resolve()
+	private readonly debouncedSave: ReturnType<typeof debounce>
+
+	/**
+	 * Creates a new local vector store
+	 * @param workspacePath Path to the workspace
+	 * @param storageDirectory Directory the index files are stored in
+	 * @param vectorSize Dimension of the vectors
+	 */
+	constructor(workspacePath: string, storageDirectory: string, vectorSize: number) {
+		const hash = createHash("sha256").update(workspacePath).digest("hex")
+		this.workspacePath = workspacePath
+		this.vectorSize = vectorSize
+		this.storePath = path.join(storageDirectory, "vector-store", `ws-${hash.substring(0, 16)}.jsonl`)
+		this.debouncedSave = debounce(() => this.save(), 1500)
+	}
+
+	/**
+	 * Initializes the vector store by loading the persisted index
+	 * @returns Promise resolving to boolean indicating if a new index was created
+	 */
+	async initialize(): Promise<boolean> {
+		this.points.clear()
+		this.changedIds.clear()
+		this.recordCount = 0
+		this.needsRewrite = true
+
+		let lines: string[] | undefined
+		try {
+			lines = (await fs.readFile(this.storePath, "utf8")).split("\n").filter((line) => line.trim() !== "")
+		} catch (error: any) {
+			if (error?.code !== "ENOENT") {
+				console.warn(`[LocalVectorStore] Could not read index at ${this.storePath}, recreating it:`, error)
+			}
+		}
+
+		this.loaded = true
+
+		const [headerLine, ...recordLines] = lines ?? []
+		const mismatch = headerLine === undefined ? undefined : this.getStoreMismatch(headerLine)
+		if (headerLine === undefined || mismatch) {
+			if (mismatch) {
+				console.warn(`[LocalVectorStore] Index at ${this.storePath} ${mismatch}. Recreating index.`)
+			}
+			await this.save()
+			return true
+		}
+
+		let droppedRecords = 0
+		for (const line of recordLines) {
+			const record = this.parseRecord(line)
+			if (!record) {
+				droppedRecords++
+			} else if ("deleted" in record) {
+				this.points.delete(record.id)
+			} else {
+				// Copy the decoded bytes, pooled buffers are not aligned for a Float32Array view
+				const bytes = new Uint8Array(Buffer.from(record.vector, "base64"))
+				this.points.set(record.id, { vector: new Float32Array(bytes.buffer), payload: record.payload })
+			}
+		}
+
+		this.recordCount = recordLines.length
+		this.needsRewrite = false
+
+		// A record cut short by an interrupted save, the file is rewritten so the next records start on their own line
+		if (droppedRecords > 0) {
+			console.warn(
+				`[LocalVectorStore] Dropped ${droppedRecords} malformed records of the index at ${this.storePath}`,
+			)
+			this.needsRewrite = true
+			await this.save()
+		}
+
+		return false
+	}
+
+	/**
+	 * Upserts points into the vector store
+	 * @param points Array of points to upsert
+	 */
+	async upsertPoints(points: PointStruct[]): Promise<void> {
+		await this.ensureLoaded()
+
+		for (const point of points) {
+			if (point.vector.length !== this.vectorSize) {
+				throw new Error(
+					t("embeddings:vectorStore.vectorDimensionMismatch", {
+						errorMessage: `Expected vectors of size ${this.vectorSize}, received ${point.vector.length}`,
+					}),
+				)
+			}
+			this.points.set(point.id, { vector: this.normalize(point.vector), payload: point.payload })
+			this.changedIds.add(point.id)
+		}
+
+		this.debouncedSave()
+	}
+
+	/**
+	 * Searches for similar vectors
+	 * @param queryVector Vector to search for
+	 * @param directoryPrefix Optional directory prefix to filter results
+	 * @param minScore Optional minimum score threshold
+	 * @param maxResults Optional maximum number of results to return
+	 * @returns Promise resolving to search results
+	 */
+	async search(
+		queryVector: number[],
+		directoryPrefix?: string,
+		minScore?: number,
+		maxResults?: number,
+	): Promise<VectorStoreSearchResult[]> {
+		await this.ensureLoaded()
+
+		const query = this.normalize(queryVector)
+		const prefixSegments = getPrefixSegments(directoryPrefix)
+		const scoreThreshold = minScore ?? DEFAULT_SEARCH_MIN_SCORE
+		const results: VectorStoreSearchResult[] = []
+
+		for (const [id, point] of this.points) {
+			if (!this.isPayloadValid(point.payload)) {
+				continue
+			}
+
+			if (!isInPrefixSegments(point.payload.filePath, prefixSegments)) {
+				continue
+			}
+
+			let score = 0
+			for (let i = 0; i < query.length; i++) {
+				score += query[i] * point.vector[i]
+			}
+
+			if (score >= scoreThreshold) {
+				results.push({ id, score, payload: point.payload })
+			}
+		}
+
+		return results.sort((a, b) => b.score - a.score).slice(0, maxResults ?? DEFAULT_MAX_SEARCH_RESULTS)
+	}
+
+	/**
+	 * Deletes points by file path
+	 * @param filePath Path of the file to delete points for
+	 */
+	async deletePointsByFilePath(filePath: string): Promise<void> {
+		return this.deletePointsByMultipleFilePaths([filePath])
+	}
+
+	/**
+	 * Deletes points by multiple file paths
+	 * @param filePaths Array of file paths to delete points for
+	 */
+	async deletePointsByMultipleFilePaths(filePaths: string[]): Promise<void> {
+		if (filePaths.length === 0) {
+			return
+		}
+
+		await this.ensureLoaded()
+
+		// Points store the relative file path, see upsertPoints in the scanner and file watcher
+		const relativePaths = new Set(
+			filePaths.map((filePath) => {
+				const relativePath = path.isAbsolute(filePath) ? path.relative(this.workspacePath, filePath) : filePath
+				return toPathSegments(path.normalize(relativePath)).join("/")
+			}),
+		)
+
+		let deleted = false
+		for (const [id, point] of this.points) {
+			const filePath = point.payload?.filePath
+			if (typeof filePath === "string" && relativePaths.has(toPathSegments(filePath).join("/"))) {
+				this.points.delete(id)
+				this.changedIds.add(id)
+				deleted = true
+			}
+		}
+
+		if (deleted) {
+			this.debouncedSave()
+		}
+	}
+
+	/**
+	 * Clears all points from the index
+	 */
+	async clearCollection(): Promise<void> {
+		await this.ensureLoaded()
+		this.points.clear()
+		this.changedIds.clear()
+		this.needsRewrite = true
+		this.debouncedSave.cancel()
+		await this.save()
+	}
+
+	/**
+	 * Deletes the index file
+	 */
+	async deleteCollection(): Promise<void> {
+		this.debouncedSave.cancel()
+		this.points.clear()
+		this.changedIds.clear()
+		this.loaded = false
+
+		// Let a save in progress finish first, so that it doesn't recreate the file
+		await this.saving
+
+		try {
+			await fs.rm(this.storePath, { force: true })
+		} catch (error) {
+			console.error(`[LocalVectorStore] Failed to delete index at ${this.storePath}:`, error)
+			throw error
+		}
+	}
+
+	/**
+	 * Checks if the index exists
+	 * @returns Promise resolving to boolean indicating if the index exists
+	 */
+	async collectionExists(): Promise<boolean> {
+		if (this.loaded) {
+			return true
+		}
+
+		try {
+			await fs.access(this.storePath)
+			return true
+		} catch {
+			return false
+		}
+	}
+
+	/**
+	 * Writes the pending changes to disk right away
+	 */
+	async flush(): Promise<void> {
+		await this.debouncedSave.flush()
+		await this.saving
+	}
+
+	/**
+	 * Writes the changes to disk, after the save in progress if there is one
+	 */
+	private save(): Promise<void> {
+		this.saving = this.saving.then(() => this.writeChanges())
+		return this.saving
+	}
+
+	private async writeChanges(): Promise<void> {
+		const changedIds = [...this.changedIds]
+		this.changedIds.clear()
+
+		// Compacting only once the stale records outnumber the points keeps the rewrites proportional to the appends
+		const compact =
+			this.needsRewrite ||
+			this.recordCount + changedIds.length > 2 * this.points.size + COMPACTION_MIN_STALE_RECORDS
+
+		try {
+			if (compact) {
+				const header: StoreHeader = { version: STORE_FORMAT_VERSION, vectorSize: this.vectorSize }
+				const lines = [JSON.stringify(header)]
+				for (const [id, point] of this.points) {
+					lines.push(JSON.stringify(this.toRecord(id, point)))
+				}
+
+				// Write to a temporary file first so that an interrupted rewrite keeps the previous index
+				const tempPath = `${this.storePath}.tmp`
+				await fs.mkdir(path.dirname(this.storePath), { recursive: true })
+				await fs.writeFile(tempPath, lines.join("\n") + "\n", "utf8")
+				await fs.rename(tempPath, this.storePath)
+
+				this.recordCount = this.points.size
+				this.needsRewrite = false
+			} else if (changedIds.length > 0) {
+				const lines = changedIds.map((id) => {
+					const point = this.points.get(id)
+					return JSON.stringify(point ? this.toRecord(id, point) : { id, deleted: true })
+				})
+
+				await fs.appendFile(this.storePath, lines.join("\n") + "\n", "utf8")
+				this.recordCount += changedIds.length
+			}
+		} catch (error) {
+			// The changes are lost from the file unless it is rewritten in full
+			this.needsRewrite = true
+			console.error(`[LocalVectorStore] Failed to save index at ${this.storePath}:`, error)
+		}
+	}
+
+	private toRecord(id: string, point: IndexedPoint): StoredPoint {
+		return {
+			id,
+			vector: Buffer.from(point.vector.buffer, point.vector.byteOffset, point.vector.byteLength).toString(
+				"base64",
+			),
+			payload: point.payload,
+		}
+	}
+
+	/**
+	 * Parses a record line of the index file
+	 * @returns The record, or undefined if the line is not a valid record
+	 */
+	private parseRecord(line: string): StoreRecord | undefined {
+		let record: any
+		try {
+			record = JSON.parse(line)
+		} catch {
+			return undefined
+		}
+
+		if (typeof record?.id !== "string") {
+			return undefined
+		}
+		if (record.deleted === true || (typeof record.vector === "string" && typeof record.payload === "object")) {
+			return record
+		}
+		return undefined
+	}
+
+	/**
+	 * Why a persisted index can't be loaded
+	 * @param headerLine The first line of the index file
+	 * @returns The reason, or undefined if the index matches this store
+	 */
+	private getStoreMismatch(headerLine: string): string | undefined {
+		let header: StoreHeader | undefined
+		try {
+			header = JSON.parse(headerLine)
+		} catch {
+			return "is malformed"
+		}
+
+		if (typeof header !== "object" || header === null || typeof header.version !== "number") {
+			return "is malformed"
+		}
+		if (header.version !== STORE_FORMAT_VERSION) {
+			return `has format version ${header.version}, but expected ${STORE_FORMAT_VERSION}`
+		}
+		if (header.vectorSize !== this.vectorSize) {
+			return `has vector size ${header.vectorSize}, but expected ${this.vectorSize}`
+		}
+		return undefined
+	}
+
+	private async ensureLoaded(): Promise<void> {
+		if (!this.loaded) {
+			await this.initialize()
+		}
+	}
+
+	private normalize(vector: number[]): Float32Array {
+		const normalized = Float32Array.from(vector)
+		let norm = 0
+		for (const value of normalized) {
+			norm += value * value
+		}
+		norm = Math.sqrt(norm)
+
+		if (norm > 0) {
+			for (let i = 0; i < normalized.length; i++) {
+				normalized[i] /= norm
+			}
+		}
+		return normalized
+	}
+
+	private isPayloadValid(payload: Record<string, unknown> | null | undefined): payload is Payload {
+		if (!payload) {
+			return false
+		}
+		return ["filePath", "codeChunk", "startLine", "endLine"].every((key) => key in payload)
+	}
+}
@@ -0,0 +1,149 @@
+// kilocode_change - new file
+import type { McpHub } from "../../mcp/McpHub"
+import type { McpServer } from "../../../shared/mcp"
+import {
+	formatMcpPromptResponse,
+	getMcpPromptCommand,
+	getMcpPromptCommands,
+	parseMcpPromptArguments,
+	runMcpPromptCommand,
+} from "../mcp-prompts"
+
+function createMockHub(servers: McpServer[], getPrompt = vi.fn()): McpHub {
+	return {
+		getServers: vi.fn().mockReturnValue(servers),
+		getPrompt,
+	} as unknown as McpHub
+}
+
+const reviewPrompt = {
+	name: "review",
+	description: "Review a pull request",
+	arguments: [
+		{ name: "pr", description: "Pull request number", required: true },
+		{ name: "focus", description: "Area to focus on" },
+	],
+}
+
+describe("MCP prompt commands", () => {
+	describe("getMcpPromptCommands", () => {
+		it("should return an empty list without an McpHub", () => {
+			expect(getMcpPromptCommands(undefined)).toEqual([])
+		})
+
+		it("should expose every server prompt as a namespaced command", () => {
+			const hub = createMockHub([
+				{ name: "git hub", config: "{}", status: "connected", prompts: [reviewPrompt] },
+				{ name: "docs", config: "{}", status: "connected", prompts: [{ name: "summarize" }] },
+			])
+
+			const commands = getMcpPromptCommands(hub)
+
+			expect(commands.map((command) => command.name)).toEqual(["mcp.git_hub.review", "mcp.docs.summarize"])
+			expect(commands[0]).toMatchObject({
+				source: "mcp",
+				filePath: "<mcp:git hub/review>",
+				description: "Review a pull request",
+				argumentHint: "pr=<value> [focus=<value>]",
+				mcpPrompt: { serverName: "git hub", prompt: reviewPrompt },
+			})
+			expect(commands[1].argumentHint).toBeUndefined()
+		})
+
+		it("should prefer project servers over global servers with the same name", () => {
+			const hub = createMockHub([
+				{ name: "docs", config: "{}", status: "connected", source: "project", prompts: [{ name: "a" }] },
+				{ name: "docs", config: "{}", status: "connected", source: "global", prompts: [{ name: "a" }] },
+			])
+
+			const commands = getMcpPromptCommands(hub)
+
+			expect(commands).toHaveLength(1)
+			expect(commands[0].mcpPrompt?.serverSource).toBe("project")
+		})
+	})
+
+	describe("getMcpPromptCommand", () => {
+		it("should only resolve names with the mcp prefix", () => {
+			const hub = createMockHub([{ name: "docs", config: "{}", status: "connected", prompts: [{ name: "a" }] }])
+
+			expect(getMcpPromptCommand("mcp.docs.a", hub)?.name).toBe("mcp.docs.a")
+			expect(getMcpPromptCommand("docs.a", hub)).toBeUndefined()
+			expect(hub.getServers).toHaveBeenCalledTimes(1)
+		})
+	})
+
+	describe("parseMcpPromptArguments", () => {
+		it("should parse name=value pairs including quoted values", () => {
+			expect(parseMcpPromptArguments(' pr=42 focus="error handling"', reviewPrompt)).toEqual({
+				pr: "42",
+				focus: "error handling",
+			})
+		})
+
+		it("should ignore unknown arguments", () => {
+			expect(parseMcpPromptArguments("pr=1 other=2", reviewPrompt)).toEqual({ pr: "1" })
+		})
+
+		it("should use the whole input for a prompt with a single argument", () => {
+			const prompt = { name: "explain", arguments: [{ name: "topic", required: true }] }
+
+			expect(parseMcpPromptArguments("  closures in JavaScript ", prompt)).toEqual({
+				topic: "closures in JavaScript",
+			})
+		})
+	})
+
+	describe("formatMcpPromptResponse", () => {
+		it("should format each message with its role", () => {
+			const result = formatMcpPromptResponse({
+				description: "Code review",
+				messages: [
+					{ role: "user", content: { type: "text", text: "Review PR 42" } },
+					{
+						role: "assistant",
+						content: { type: "resource", resource: { uri: "file:///a.ts", text: "code" } },
+					},
+					{ role: "user", content: { type: "image", data: "abc", mimeType: "image/png" } },
+				],
+			})
+
+			expect(result).toBe(
+				[
+					"Description: Code review",
+					'<message role="user">\nReview PR 42\n</message>',
+					'<message role="assistant">\ncode\n</message>',
+					'<message role="user">\n[image content (image/png) omitted]\n</message>',
+				].join("\n\n"),
+			)
+		})
+	})
+
+	describe("runMcpPromptCommand", () => {
+		const server: McpServer = { name: "github", config: "{}", status: "connected", prompts: [reviewPrompt] }
+
+		it("should fetch the prompt with the parsed arguments", async () => {
+			const getPrompt = vi.fn().mockResolvedValue({
+				messages: [{ role: "user", content: { type: "text", text: "Please review #42" } }],
+			})
+			const hub = createMockHub([server], getPrompt)
+			const [command] = getMcpPromptCommands(hub)
+
+			const result = await runMcpPromptCommand(hub, command, "pr=42")
+
+			expect(getPrompt).toHaveBeenCalledWith("github", "review", { pr: "42" }, undefined)
+			expect(result).toBe('<message role="user">\nPlease review #42\n</message>')
+		})
+
+		it("should reject when a required argument is missing", async () => {
+			const getPrompt = vi.fn()
+			const hub = createMockHub([server], getPrompt)
+			const [command] = getMcpPromptCommands(hub)
+
+			await expect(runMcpPromptCommand(hub, command, "focus=tests")).rejects.toThrow(
+				"Missing required argument(s): pr",
+			)
+			expect(getPrompt).not.toHaveBeenCalled()
+		})
+	})
+})
@@ -3,21 +3,34 @@ import * as path from "path"
 import matter from "gray-matter"
 import { getGlobalRooDirectory, getProjectRooDirectoryForCwd } from "../roo-config"
 import { getBuiltInCommands, getBuiltInCommand } from "./built-in-commands"
+// kilocode_change start
+import { getMcpPromptCommands, getMcpPromptCommand } from "./mcp-prompts"
+import type { McpHub } from "../mcp/McpHub"
+import type { McpPrompt } from "../../shared/mcp"
+// kilocode_change end
 
 export interface Command {
 	name: string
 	content: string
-	source: "global" | "project" | "built-in"
+	source: "global" | "project" | "built-in" | "mcp" // kilocode_change
 	filePath: string
 	description?: string
 	argumentHint?: string
+	// kilocode_change start
+	mcpPrompt?: {
+		serverName: string
+		serverSource?: "global" | "project"
+		prompt: McpPrompt
+	}
+	// kilocode_change end
 }
 
 /**
  * Get all available commands from built-in, global, and project directories
  * Priority order: project > global > built-in (later sources override earlier ones)
+ * MCP prompts are namespaced under `mcp.` and listed last
  */
-export async function getCommands(cwd: string): Promise<Command[]> {
+export async function getCommands(cwd: string, mcpHub?: McpHub): Promise<Command[]> {
 	const commands = new Map<string, Command>()
 
 	// Add built-in commands first (lowest priority)
@@ -34,6 +47,14 @@ export async function getCommands(cwd: string): Promise<Command[]> {
 	const projectDir = path.join(getProjectRooDirectoryForCwd(cwd), "commands")
 	await scanCommandDirectory(projectDir, "project", commands)
 
+	// kilocode_change start
+	for (const command of getMcpPromptCommands(mcpHub)) {
+		if (!commands.has(command.name)) {
+			commands.set(command.name, command)
+		}
+	}
+	// kilocode_change end
+
 	return Array.from(commands.values())
 }
 
@@ -41,7 +62,7 @@ export async function getCommands(cwd: string): Promise<Command[]> {
  * Get a specific command by name (optimized to avoid scanning all commands)
  * Priority order: project > global > built-in
  */
-export async function getCommand(cwd: string, name: string): Promise<Command | undefined> {
+export async function getCommand(cwd: string, name: string, mcpHub?: McpHub): Promise<Command | undefined> {
 	// Try to find the command directly without scanning all commands
 	const projectDir = path.join(getProjectRooDirectoryForCwd(cwd), "commands")
 	const globalDir = path.join(getGlobalRooDirectory(), "commands")
@@ -59,7 +80,15 @@ export async function getCommand(cwd: string, name: string): Promise<Command | u
 	}
 
 	// Check built-in commands if not found in project or global (lowest priority)
-	return await getBuiltInCommand(name)
+	// kilocode_change start
+	const builtInCommand = await getBuiltInCommand(name)
+	if (builtInCommand) {
+		return builtInCommand
+	}
+
+	// Fall back to prompts published by connected MCP servers
+	return getMcpPromptCommand(name, mcpHub)
+	// kilocode_change end
 }
 
 /**
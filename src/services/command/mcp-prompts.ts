@@ -0,0 +1,161 @@
+// kilocode_change - new file
+import type { McpHub } from "../mcp/McpHub"
+import type { McpPrompt, McpPromptResponse } from "../../shared/mcp"
+import { MCP_PROMPT_COMMAND_PREFIX, getMcpPromptCommandName } from "../../shared/kilocode/mcp"
+import type { Command } from "./commands"
+
+/**
+ * Build an argument hint such as `topic=<value> [style=<value>]` from the prompt arguments
+ */
+function getArgumentHint(prompt: McpPrompt): string | undefined {
+	if (!prompt.arguments?.length) {
+		return undefined
+	}
+
+	return prompt.arguments
+		.map((argument) => (argument.required ? `${argument.name}=<value>` : `[${argument.name}=<value>]`))
+		.join(" ")
+}
+
+/**
+ * Get slash commands for all prompts published by connected MCP servers
+ */
+export function getMcpPromptCommands(mcpHub?: McpHub): Command[] {
+	if (!mcpHub) {
+		return []
+	}
+
+	const commands = new Map<string, Command>()
+
+	for (const server of mcpHub.getServers()) {
+		for (const prompt of server.prompts ?? []) {
+			const name = getMcpPromptCommandName(server.name, prompt.name)
+
+			// Project servers override global servers with the same name
+			if (commands.get(name)?.mcpPrompt?.serverSource === "project") {
+				continue
+			}
+
+			commands.set(name, {
+				name,
+				content: "",
+				source: "mcp",
+				filePath: `<mcp:${server.name}/${prompt.name}>`,
+				description: prompt.description,
+				argumentHint: getArgumentHint(prompt),
+				mcpPrompt: {
+					serverName: server.name,
+					serverSource: server.source,
+					prompt,
+				},
+			})
+		}
+	}
+
+	return Array.from(commands.values())
+}
+
+/**
+ * Get a specific MCP prompt command by its slash command name
+ */
+export function getMcpPromptCommand(name: string, mcpHub?: McpHub): Command | undefined {
+	if (!name.startsWith(MCP_PROMPT_COMMAND_PREFIX)) {
+		return undefined
+	}
+
+	return getMcpPromptCommands(mcpHub).find((command) => command.name === name)
+}
+
+/**
+ * Parse the text typed after an MCP prompt command into prompt arguments.
+ *
+ * Arguments are given as `name=value` pairs, where values containing spaces can be
+ * wrapped in double quotes. A prompt with a single argument also accepts the whole
+ * input as that argument's value.
+ */
+export function parseMcpPromptArguments(input: string, prompt: McpPrompt): Record<string, string> {
+	const promptArguments = prompt.arguments ?? []
+	const result: Record<string, string> = {}
+	const trimmed = input.trim()
+
+	if (!trimmed) {
+		return result
+	}
+
+	const pairRegex = /([a-zA-Z0-9_-]+)=(?:"((?:[^"\\]|\\.)*)"|(\S*))/g
+	let hasPairs = false
+
+	for (const match of trimmed.matchAll(pairRegex)) {
+		const [, name, quotedValue, plainValue] = match
+
+		if (promptArguments.some((argument) => argument.name === name)) {
+			result[name] = quotedValue !== undefined ? quotedValue.replace(/\\(.)/g, "$1") : plainValue
+			hasPairs = true
+		}
+	}
+
+	if (!hasPairs && promptArguments.length === 1) {
+		result[promptArguments[0].name] = trimmed
+	}
+
+	return result
+}
+
+/**
+ * Format the messages returned by `prompts/get` so they can be inserted into the task
+ */
+export function formatMcpPromptResponse(response: McpPromptResponse): string {
+	const parts: string[] = []
+
+	if (response.description) {
+		parts.push(`Description: ${response.description}`)
+	}
+
+	for (const message of response.messages) {
+		const { content } = message
+		let text: string
+
+		switch (content.type) {
+			case "text":
+				text = content.text
+				break
+			case "resource":
+				text = content.resource.text ?? `[Resource: ${content.resource.uri}]`
+				break
+			case "resource_link":
+				text = `[Resource: ${content.uri}]`
+				break
+			default:
+				text = `[${content.type} content (${content.mimeType}) omitted]`
+		}
+
+		parts.push(`<message role="${message.role}">\n${text}\n</message>`)
+	}
+
+	return parts.join("\n\n")
+}
+
+/**
+ * Run an MCP prompt command against its server and return the formatted prompt
+ *
+ * @throws Error if a required argument is missing or the server request fails
+ */
+export async function runMcpPromptCommand(mcpHub: McpHub, command: Command, input: string): Promise<string> {
+	if (!command.mcpPrompt) {
+		throw new Error(`Command '${command.name}' is not an MCP prompt`)
+	}
+
+	const { serverName, serverSource, prompt } = command.mcpPrompt
+	const promptArguments = parseMcpPromptArguments(input, prompt)
+
+	const missingArguments = (prompt.arguments ?? [])
+		.filter((argument) => argument.required && !promptArguments[argument.name])
+		.map((argument) => argument.name)
+
+	if (missingArguments.length > 0) {
+		throw new Error(`Missing required argument(s): ${missingArguments.join(", ")}`)
+	}
+
+	const response = await mcpHub.getPrompt(serverName, prompt.name, promptArguments, serverSource)
+	return formatMcpPromptResponse(response)
+}
@@ -63,6 +63,8 @@ export interface ILLM extends Omit<LLMOptions, RequiredLLMOptions>, Required<Pic
 
 	lastRequestId?: string
 
+	logger?: ILLMLogger
+
 	streamComplete(
 		prompt: string,
 		signal: AbortSignal,
@@ -201,6 +203,8 @@ export interface Usage {
 		cacheWriteTokens?: number
 		audioTokens?: number
 	}
+	/** The cost in USD reported by OpenRouter compatible APIs */
+	cost?: number
 }
 
 export interface AssistantChatMessage {
@@ -25,6 +25,7 @@ import { compileChatMessages, countTokens, pruneRawPromptFromTop } from "./count
 import {
 	fromChatCompletionChunk,
 	fromChatResponse,
+	fromCompletionUsage,
 	LlmApiRequestType,
 	toChatBody,
 	toCompleteBody,
@@ -545,6 +546,7 @@ export abstract class BaseLLM implements ILLM {
 							signal,
 						)
 						this.lastRequestId = response.id ?? this.lastRequestId
+						usage = fromCompletionUsage(response.usage)
 						const msg = fromChatResponse(response)
 						yield msg
 						completion = this._formatChatMessage(msg)
@@ -4,7 +4,7 @@ import { streamSse } from "../../fetch/stream.js"
 import { ChatMessage, CompletionOptions, LLMOptions } from "../../index.js"
 import { renderChatMessage } from "../../util/messageContent.js"
 import { BaseLLM } from "../index.js"
-import { fromChatCompletionChunk, LlmApiRequestType, toChatBody } from "../openaiTypeConverters.js"
+import { fromChatCompletionChunk, fromCompletionUsage, LlmApiRequestType, toChatBody } from "../openaiTypeConverters.js"
 
 const NON_CHAT_MODELS = [
 	"text-davinci-002",
@@ -228,7 +228,7 @@ export class OpenAI extends BaseLLM {
 				return // Aborted by user
 			}
 			const data = await response.json()
-			yield data.choices[0].message
+			yield { ...data.choices[0].message, usage: fromCompletionUsage(data.usage) }
 			return
 		}
 
@@ -5,9 +5,10 @@ import {
 	ChatCompletionCreateParams,
 	ChatCompletionMessageParam,
 	CompletionCreateParams,
+	CompletionUsage,
 } from "openai/resources/index"
 
-import { ChatMessage, CompletionOptions, TextMessagePart } from ".."
+import { ChatMessage, CompletionOptions, TextMessagePart, Usage } from ".."
 
 function toChatMessage(message: ChatMessage): ChatCompletionMessageParam {
 	if (message.role === "system") {
@@ -93,6 +94,33 @@ export function fromChatResponse(response: ChatCompletion): ChatMessage {
 	}
 }
 
+/**
+ * OpenRouter compatible APIs add the cost to the usage, the upstream cost is the part paid to the
+ * provider of a bring your own key request
+ */
+type CompletionUsageWithCost = CompletionUsage & {
+	cost?: number
+	cost_details?: { upstream_inference_cost?: number }
+}
+
+export function fromCompletionUsage(usage: CompletionUsageWithCost | undefined): Usage | undefined {
+	if (!usage) {
+		return undefined
+	}
+
+	const cost =
+		usage.cost === undefined && usage.cost_details?.upstream_inference_cost === undefined
+			? undefined
+			: (usage.cost ?? 0) + (usage.cost_details?.upstream_inference_cost ?? 0)
+
+	return {
+		promptTokens: usage.prompt_tokens,
+		completionTokens: usage.completion_tokens,
+		promptTokensDetails: { cachedTokens: usage.prompt_tokens_details?.cached_tokens },
+		cost,
+	}
+}
+
 export function fromChatCompletionChunk(chunk: ChatCompletionChunk): ChatMessage | undefined {
 	const delta = chunk.choices?.[0]?.delta
 
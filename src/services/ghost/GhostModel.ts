@@ -1,12 +1,16 @@
-import { modelIdKeysByProvider, ProviderSettingsEntry } from "@roo-code/types"
+import { getKiloBaseUriFromToken, modelIdKeysByProvider, ProviderSettingsEntry } from "@roo-code/types"
 import { ApiHandler, buildApiHandler } from "../../api"
 import { ProviderSettingsManager } from "../../core/config/ProviderSettingsManager"
 import { OpenRouterHandler } from "../../api/providers"
 import { ApiStreamChunk } from "../../api/transform/stream"
-import { AUTOCOMPLETE_PROVIDER_MODELS, checkKilocodeBalance } from "./utils/kilocode-utils"
+import { ILLM } from "../continuedev/core/index.js"
+import KiloCode from "../continuedev/core/llm/llms/KiloCode"
+import OpenRouter from "../continuedev/core/llm/llms/OpenRouter"
+import { AUTOCOMPLETE_PROVIDER_MODELS, checkKilocodeBalance, NEXT_EDIT_PROVIDER_MODELS } from "./utils/kilocode-utils"
 
 export class GhostModel {
 	private apiHandler: ApiHandler | null = null
+	private nextEditLlm: ILLM | null = null
 	public loaded = false
 
 	constructor(apiHandler: ApiHandler | null = null) {
@@ -17,6 +21,7 @@ export class GhostModel {
 	}
 	private cleanup(): void {
 		this.apiHandler = null
+		this.nextEditLlm = null
 		this.loaded = false
 	}
 
@@ -24,6 +29,7 @@ export class GhostModel {
 		const profiles = await providerSettingsManager.listConfig()
 
 		this.cleanup()
+		this.nextEditLlm = await this.loadNextEditLlm(profiles, providerSettingsManager)
 
 		// Check providers in order, but skip unusable ones (e.g., kilocode with zero balance)
 		for (const [provider, model] of AUTOCOMPLETE_PROVIDER_MODELS) {
@@ -50,6 +56,48 @@ export class GhostModel {
 		return false
 	}
 
+	/**
+	 * Next edits need a model trained for them, which only the OpenRouter compatible providers serve
+	 */
+	private async loadNextEditLlm(
+		profiles: ProviderSettingsEntry[],
+		providerSettingsManager: ProviderSettingsManager,
+	): Promise<ILLM | null> {
+		for (const [provider, model] of NEXT_EDIT_PROVIDER_MODELS) {
+			const selectedProfile = profiles.find((x) => x?.apiProvider === provider)
+			if (!selectedProfile) continue
+			const profile = await providerSettingsManager.getProfile({ id: selectedProfile.id })
+
+			if (provider === "kilocode" && profile.kilocodeToken) {
+				return new KiloCode({
+					model,
+					apiKey: profile.kilocodeToken,
+					apiBase: `${getKiloBaseUriFromToken(profile.kilocodeToken)}/api/openrouter/v1`,
+					env: {
+						kilocodeTesterWarningsDisabledUntil: profile.kilocodeTesterWarningsDisabledUntil,
+						kilocodeOrganizationId: profile.kilocodeOrganizationId,
+					},
+				})
+			}
+			if (provider === "openrouter" && profile.openRouterApiKey) {
+				return new OpenRouter({
+					model,
+					apiKey: profile.openRouterApiKey,
+					apiBase: profile.openRouterBaseUrl || "https://openrouter.ai/api/v1",
+				})
+			}
+		}
+
+		return null
+	}
+
+	/**
+	 * The model predicting next edits, null when no profile can serve it
+	 */
+	public getNextEditLlm(): ILLM | null {
+		return this.nextEditLlm
+	}
+
 	/**
 	 * Generate response with streaming callback support
 	 */
@@ -1,4 +1,5 @@
 import crypto from "crypto"
+import path from "path"
 import * as vscode from "vscode"
 import { t } from "../../i18n"
 import { GhostDocumentStore } from "./GhostDocumentStore"
@@ -6,6 +7,8 @@ import { GhostModel } from "./GhostModel"
 import { GhostStatusBar } from "./GhostStatusBar"
 import { GhostCodeActionProvider } from "./GhostCodeActionProvider"
 import { GhostInlineCompletionProvider } from "./classic-auto-complete/GhostInlineCompletionProvider"
+import { CompletionEventRecorder } from "./classic-auto-complete/CompletionEventRecorder"
+import { NextEditController } from "./next-edit/NextEditController"
 //import { NewAutocompleteProvider } from "./new-auto-complete/NewAutocompleteProvider"
 import { GhostServiceSettings, TelemetryEventName } from "@roo-code/types"
 import { ContextProxy } from "../../core/config/ContextProxy"
@@ -22,6 +25,7 @@ export class GhostServiceManager {
 	private context: vscode.ExtensionContext
 	private settings: GhostServiceSettings | null = null
 	private ghostContext: GhostContext
+	private completionEventRecorder: CompletionEventRecorder
 
 	private taskId: string | null = null
 	private isProcessing: boolean = false
@@ -34,6 +38,7 @@ export class GhostServiceManager {
 	// VSCode Providers
 	public codeActionProvider: GhostCodeActionProvider
 	public inlineCompletionProvider: GhostInlineCompletionProvider
+	public nextEditController: NextEditController
 	//private newAutocompleteProvider: NewAutocompleteProvider | null = null
 	private inlineCompletionProviderDisposable: vscode.Disposable | null = null
 
@@ -47,6 +52,11 @@ export class GhostServiceManager {
 		this.documentStore = new GhostDocumentStore()
 		this.model = new GhostModel()
 		this.ghostContext = new GhostContext(this.documentStore)
+		this.completionEventRecorder = new CompletionEventRecorder(
+			path.join(context.globalStorageUri.fsPath, "autocomplete-events"),
+			() => this.settings?.recordCompletionEvents ?? false,
+			() => this.settings?.recordCompletionContexts ?? false,
+		)
 
 		// Register the providers
 		this.codeActionProvider = new GhostCodeActionProvider()
@@ -55,6 +65,12 @@ export class GhostServiceManager {
 			this.updateCostTracking.bind(this),
 			this.ghostContext,
 			() => this.settings,
+			this.completionEventRecorder,
+		)
+		this.nextEditController = new NextEditController(
+			context,
+			() => this.model.getNextEditLlm(),
+			this.updateCostTracking.bind(this),
 		)
 
 		// Register document event handlers
@@ -101,6 +117,7 @@ export class GhostServiceManager {
 	private async updateInlineCompletionProviderRegistration() {
 		const shouldBeRegistered = this.settings?.enableAutoTrigger ?? false
 		const useNewAutocomplete = false // this.settings?.useNewAutocomplete ?? false
+		const useNextEdit = this.settings?.enableNextEdit ?? false
 
 		// First, dispose any existing registration
 		if (this.inlineCompletionProviderDisposable) {
@@ -114,6 +131,11 @@ export class GhostServiceManager {
 		//	this.newAutocompleteProvider = null
 		//}
 
+		// Next edits are predicted from the document changes, the inline completions at the cursor keep running
+		if (!shouldBeRegistered || !useNextEdit) {
+			this.nextEditController.cancel()
+		}
+
 		if (shouldBeRegistered) {
 			if (useNewAutocomplete) {
 				// Initialize new autocomplete provider if not already created
@@ -153,6 +175,7 @@ export class GhostServiceManager {
 			return
 		}
 		this.documentStore.removeDocument(document.uri)
+		this.nextEditController.forgetDocument(document)
 	}
 
 	private initializeIgnoreController() {
@@ -185,6 +208,9 @@ export class GhostServiceManager {
 		await this.documentStore.storeDocument({
 			document,
 		})
+		if (this.settings?.enableNextEdit) {
+			await this.nextEditController.trackDocument(document)
+		}
 	}
 
 	private async onDidChangeTextDocument(event: vscode.TextDocumentChangeEvent): Promise<void> {
@@ -192,6 +218,11 @@ export class GhostServiceManager {
 			return
 		}
 
+		// Any change makes the displayed next edit stale
+		if (this.nextEditController.hasNextEdit(event.document)) {
+			this.nextEditController.clear()
+		}
+
 		// Filter out undo/redo operations
 		if (event.reason !== undefined) {
 			return
@@ -223,13 +254,29 @@ export class GhostServiceManager {
 		}
 
 		await this.documentStore.storeDocument({ document: event.document })
+
+		if (
+			this.settings?.enableAutoTrigger &&
+			this.settings?.enableNextEdit &&
+			(await this.hasAccess(event.document))
+		) {
+			this.nextEditController.schedule(editor)
+		}
 	}
 
 	private async onDidChangeTextEditorSelection(event: vscode.TextEditorSelectionChangeEvent): Promise<void> {
-		// No longer needed - gutter animation removed
+		// Moving the cursor away dismisses the next edit, but jumping to it does not
+		if (
+			event.kind !== undefined &&
+			event.kind !== vscode.TextEditorSelectionChangeKind.Command &&
+			this.nextEditController.hasNextEdit(event.textEditor.document)
+		) {
+			this.nextEditController.clear()
+		}
 	}
 
 	private async onDidChangeActiveTextEditor(editor: vscode.TextEditor | undefined) {
+		this.nextEditController.cancel()
 		if (!editor) {
 			return
 		}
@@ -271,6 +318,11 @@ export class GhostServiceManager {
 			await this.load()
 		}
 
+		if (this.settings?.enableNextEdit) {
+			await this.nextEditController.trigger(editor)
+			return
+		}
+
 		// Call the inline completion provider directly with manual trigger context
 		const position = editor.selection.active
 		const context: vscode.InlineCompletionContext = {
@@ -407,8 +459,17 @@ export class GhostServiceManager {
 		this.updateGlobalContext()
 	}
 
+	public async acceptNextEdit() {
+		await this.nextEditController.accept()
+	}
+
+	public dismissNextEdit() {
+		this.nextEditController.cancel()
+	}
+
 	public cancelRequest() {
 		this.stopProcessing()
+		this.nextEditController.cancel()
 		// Check which provider is active and cancel appropriately
 		const useNewAutocomplete = this.settings?.useNewAutocomplete ?? false
 		if (useNewAutocomplete) {
@@ -425,6 +486,7 @@ export class GhostServiceManager {
 		this.cancelRequest()
 
 		this.statusBar?.dispose()
+		this.nextEditController.dispose()
 
 		// Dispose inline completion provider registration
 		if (this.inlineCompletionProviderDisposable) {
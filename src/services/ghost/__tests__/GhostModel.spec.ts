@@ -297,6 +297,50 @@ describe("GhostModel", () => {
 		})
 	})
 
+	describe("getNextEditLlm", () => {
+		it("returns null when no profile serves the next edit model", async () => {
+			const profiles = [{ id: "1", name: "profile1", apiProvider: "mistral" }] as any
+
+			vi.mocked(mockProviderSettingsManager.listConfig).mockResolvedValue(profiles)
+			vi.mocked(mockProviderSettingsManager.getProfile).mockResolvedValue({
+				id: "1",
+				name: "profile1",
+				apiProvider: "mistral",
+				mistralApiKey: "test-key",
+			} as any)
+
+			const model = new GhostModel()
+			await model.reload(mockProviderSettingsManager)
+
+			expect(model.getNextEditLlm()).toBeNull()
+		})
+
+		it("uses the next edit model of the first profile with credentials", async () => {
+			const profiles = [
+				{ id: "1", name: "mistral-profile", apiProvider: "mistral" },
+				{ id: "2", name: "openrouter-profile", apiProvider: "openrouter" },
+			] as any
+
+			vi.mocked(mockProviderSettingsManager.listConfig).mockResolvedValue(profiles)
+			vi.mocked(mockProviderSettingsManager.getProfile).mockImplementation(async (args: any) =>
+				args.id === "1"
+					? ({ id: "1", name: "mistral-profile", apiProvider: "mistral", mistralApiKey: "test-key" } as any)
+					: ({
+							id: "2",
+							name: "openrouter-profile",
+							apiProvider: "openrouter",
+							openRouterApiKey: "test-key",
+						} as any),
+			)
+
+			const model = new GhostModel()
+			await model.reload(mockProviderSettingsManager)
+
+			expect(model.getNextEditLlm()?.providerName).toBe("openrouter")
+			expect(model.getNextEditLlm()?.model).toBe("inception/mercury-coder")
+		})
+	})
+
 	describe("getProviderDisplayName", () => {
 		it("returns undefined when no provider is loaded", () => {
 			const model = new GhostModel()
@@ -0,0 +1,197 @@
+import crypto from "crypto"
+import fs from "fs/promises"
+import path from "path"
+
+export const COMPLETION_EVENTS_FILE = "events.jsonl"
+export const COMPLETION_CONTEXTS_FILE = "contexts.jsonl"
+
+/** Recording stops once a file reaches this size, so that the log cannot grow unbounded */
+const MAX_RECORDING_FILE_BYTES = 20 * 1024 * 1024
+
+export type CompletionOutcome = "accepted" | "partial" | "rejected"
+
+/**
+ * An anonymized completion event: the code around the cursor is only identified
+ * by the hashes of the prefix and suffix, and no file path is recorded
+ */
+export interface CompletionEvent {
+	id: string
+	timestamp: number
+	languageId: string
+	model?: string
+	prefixHash: string
+	suffixHash: string
+	suggestion: string
+	outcome: CompletionOutcome
+	/** Number of characters of the suggestion the user kept */
+	acceptedLength: number
+	latencyMs: number
+}
+
+/**
+ * The context a completion was requested for, recorded once per prefix and suffix,
+ * so that the replay harness can re-run it against other prompts or models. This is
+ * the code around the cursor in plain text, so it is only recorded when context
+ * capture is enabled on top of the events.
+ */
+export interface CompletionContextRecord {
+	prefixHash: string
+	suffixHash: string
+	languageId: string
+	prefix: string
+	suffix: string
+}
+
+interface PendingCompletion {
+	event: Omit<CompletionEvent, "outcome" | "acceptedLength">
+	prefix: string
+	suffix: string
+	acceptedLength: number
+}
+
+export function hashCompletionText(text: string): string {
+	return crypto.createHash("sha256").update(text).digest("hex").slice(0, 16)
+}
+
+/**
+ * Records locally what happens to the shown inline completions. The outcome of
+ * a completion is only known once the user moves on: it is accepted through the
+ * completion command, partially accepted when the user types (or accepts word by
+ * word) a part of it, and rejected otherwise.
+ */
+export class CompletionEventRecorder {
+	private pending: PendingCompletion | null = null
+	private recordedContexts = new Set<string>()
+	private writeQueue: Promise<void> = Promise.resolve()
+	/** The files that reached the size limit, the contexts file fills up long before the events file */
+	private fullFiles = new Set<string>()
+
+	constructor(
+		private storageDir: string,
+		private isEnabled: () => boolean,
+		private isContextCaptureEnabled: () => boolean = () => false,
+	) {}
+
+	/**
+	 * Record that a suggestion was shown for the given context
+	 */
+	public recordShown({
+		prefix,
+		suffix,
+		languageId,
+		model,
+		suggestion,
+		latencyMs,
+	}: {
+		prefix: string
+		suffix: string
+		languageId: string
+		model?: string
+		suggestion: string
+		latencyMs: number
+	}): string | undefined {
+		this.finalizePending()
+
+		if (!this.isEnabled()) {
+			return undefined
+		}
+
+		const prefixHash = hashCompletionText(prefix)
+		const suffixHash = hashCompletionText(suffix)
+		const contextKey = `${prefixHash}:${suffixHash}`
+		if (this.isContextCaptureEnabled() && !this.recordedContexts.has(contextKey)) {
+			this.recordedContexts.add(contextKey)
+			this.append(COMPLETION_CONTEXTS_FILE, { prefixHash, suffixHash, languageId, prefix, suffix })
+		}
+
+		const id = crypto.randomUUID()
+		this.pending = {
+			event: { id, timestamp: Date.now(), languageId, model, prefixHash, suffixHash, suggestion, latencyMs },
+			prefix,
+			suffix,
+			acceptedLength: 0,
+		}
+		return id
+	}
+
+	/**
+	 * Follow the context of a new completion request: typing the beginning of the
+	 * shown suggestion partially accepts it, anything else ends it
+	 */
+	public observe(prefix: string, suffix: string): void {
+		if (!this.pending) {
+			return
+		}
+
+		const { prefix: shownPrefix, suffix: shownSuffix, event } = this.pending
+		if (prefix === shownPrefix && suffix === shownSuffix) {
+			return
+		}
+
+		const typed = prefix.startsWith(shownPrefix) ? prefix.substring(shownPrefix.length) : undefined
+		if (suffix === shownSuffix && typed !== undefined && event.suggestion.startsWith(typed)) {
+			this.pending.acceptedLength = typed.length
+			if (typed.length === event.suggestion.length) {
+				this.finalizePending()
+			}
+			return
+		}
+
+		this.finalizePending()
+	}
+
+	/**
+	 * Record that the whole suggestion was accepted
+	 */
+	public recordAccepted(id: string): void {
+		if (this.pending?.event.id !== id) {
+			return
+		}
+		this.pending.acceptedLength = this.pending.event.suggestion.length
+		this.finalizePending()
+	}
+
+	/**
+	 * Wait for the recorded events to be written
+	 */
+	public flush(): Promise<void> {
+		return this.writeQueue
+	}
+
+	private finalizePending(): void {
+		if (!this.pending) {
+			return
+		}
+
+		const { event, acceptedLength } = this.pending
+		this.pending = null
+
+		const outcome: CompletionOutcome =
+			acceptedLength === event.suggestion.length ? "accepted" : acceptedLength > 0 ? "partial" : "rejected"
+		this.append(COMPLETION_EVENTS_FILE, { ...event, outcome, acceptedLength } satisfies CompletionEvent)
+	}
+
+	private append(fileName: string, record: CompletionEvent | CompletionContextRecord): void {
+		const filePath = path.join(this.storageDir, fileName)
+		this.writeQueue = this.writeQueue.then(async () => {
+			if (this.fullFiles.has(fileName)) {
+				return
+			}
+			try {
+				await fs.mkdir(this.storageDir, { recursive: true })
+				const size = await fs.stat(filePath).then(
+					(stats) => stats.size,
+					() => 0,
+				)
+				if (size >= MAX_RECORDING_FILE_BYTES) {
+					this.fullFiles.add(fileName)
+					console.warn(`[CompletionEventRecorder] ${filePath} is full, it is no longer recorded to`)
+					return
+				}
+				await fs.appendFile(filePath, JSON.stringify(record) + "\n", "utf8")
+			} catch (error) {
+				console.error("[CompletionEventRecorder] Failed to record completion event:", error)
+			}
+		})
+	}
+}
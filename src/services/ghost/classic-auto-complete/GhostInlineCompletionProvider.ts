@@ -6,9 +6,12 @@ import { GhostContext } from "../GhostContext"
 import { ApiStreamChunk } from "../../../api/transform/stream"
 import type { GhostServiceSettings } from "@roo-code/types"
 import { refuseUselessSuggestion } from "./uselessSuggestionFilter"
+import { CompletionEventRecorder } from "./CompletionEventRecorder"
 
 const MAX_SUGGESTIONS_HISTORY = 20
 
+export const INLINE_COMPLETION_ACCEPTED_COMMAND = "kilo-code.ghost.inlineCompletionAccepted"
+
 export type CostTrackingCallback = (
 	cost: number,
 	inputTokens: number,
@@ -76,20 +79,45 @@ export class GhostInlineCompletionProvider implements vscode.InlineCompletionIte
 	private costTrackingCallback: CostTrackingCallback
 	private ghostContext: GhostContext
 	private getSettings: () => GhostServiceSettings | null
+	private eventRecorder?: CompletionEventRecorder
+	private shownCompletionId?: string
 
 	constructor(
 		model: GhostModel,
 		costTrackingCallback: CostTrackingCallback,
 		ghostContext: GhostContext,
 		getSettings: () => GhostServiceSettings | null,
+		eventRecorder?: CompletionEventRecorder,
 	) {
 		this.model = model
 		this.costTrackingCallback = costTrackingCallback
 		this.ghostContext = ghostContext
 		this.getSettings = getSettings
+		this.eventRecorder = eventRecorder
 		this.holeFiller = new HoleFiller()
 	}
 
+	/**
+	 * Called through the command of the inline completion items once one is accepted
+	 */
+	public handleCompletionAccepted(id: string): void {
+		this.eventRecorder?.recordAccepted(id)
+	}
+
+	private createCompletionItem(text: string, position: vscode.Position): vscode.InlineCompletionItem {
+		return {
+			insertText: text,
+			range: new vscode.Range(position, position),
+			...(this.shownCompletionId && {
+				command: {
+					command: INLINE_COMPLETION_ACCEPTED_COMMAND,
+					title: "",
+					arguments: [this.shownCompletionId],
+				},
+			}),
+		}
+	}
+
 	public updateSuggestions(fillInAtCursor: FillInAtCursorSuggestion): void {
 		const isDuplicate = this.suggestionsHistory.some(
 			(existing) =>
@@ -234,6 +262,8 @@ export class GhostInlineCompletionProvider implements vscode.InlineCompletionIte
 	): Promise<vscode.InlineCompletionItem[] | vscode.InlineCompletionList> {
 		const { prefix, suffix } = extractPrefixSuffix(document, position)
 
+		this.eventRecorder?.observe(prefix, suffix)
+
 		const matchingText = findMatchingSuggestion(prefix, suffix, this.suggestionsHistory)
 
 		if (matchingText !== null) {
@@ -241,11 +271,7 @@ export class GhostInlineCompletionProvider implements vscode.InlineCompletionIte
 				return []
 			}
 
-			const item: vscode.InlineCompletionItem = {
-				insertText: matchingText,
-				range: new vscode.Range(position, position),
-			}
-			return [item]
+			return [this.createCompletionItem(matchingText, position)]
 		}
 
 		// No cached suggestion available - invoke LLM
@@ -257,7 +283,9 @@ export class GhostInlineCompletionProvider implements vscode.InlineCompletionIte
 
 			const fullContext = await this.ghostContext.generate(context)
 			try {
+				const startTime = performance.now()
 				const result = await this.getFromLLM(fullContext, this.model)
+				const latencyMs = performance.now() - startTime
 
 				if (this.costTrackingCallback && result.cost > 0) {
 					this.costTrackingCallback(
@@ -273,11 +301,15 @@ export class GhostInlineCompletionProvider implements vscode.InlineCompletionIte
 				this.updateSuggestions(result.suggestion)
 
 				if (result.suggestion.text) {
-					const item: vscode.InlineCompletionItem = {
-						insertText: result.suggestion.text,
-						range: new vscode.Range(position, position),
-					}
-					return [item]
+					this.shownCompletionId = this.eventRecorder?.recordShown({
+						prefix,
+						suffix,
+						languageId: document.languageId,
+						model: this.model.getModelName(),
+						suggestion: result.suggestion.text,
+						latencyMs,
+					})
+					return [this.createCompletionItem(result.suggestion.text, position)]
 				} else {
 					// Empty text means no suggestion to show
 					return []
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import {
+	COMPLETION_CONTEXTS_FILE,
+	COMPLETION_EVENTS_FILE,
+	CompletionEventRecorder,
+	hashCompletionText,
+} from "../CompletionEventRecorder"
+
+describe("CompletionEventRecorder", () => {
+	let storageDir: string
+	let enabled: boolean
+	let contextCaptureEnabled: boolean
+	let recorder: CompletionEventRecorder
+
+	const readLines = (fileName: string) => {
+		const filePath = path.join(storageDir, fileName)
+		if (!fs.existsSync(filePath)) {
+			return []
+		}
+		return fs
+			.readFileSync(filePath, "utf8")
+			.split("\n")
+			.filter(Boolean)
+			.map((line) => JSON.parse(line))
+	}
+
+	const show = (prefix = "const x = ", suffix = "\n", suggestion = "computeValue()") =>
+		recorder.recordShown({
+			prefix,
+			suffix,
+			languageId: "typescript",
+			model: "test-model",
+			suggestion,
+			latencyMs: 42,
+		})
+
+	beforeEach(() => {
+		storageDir = fs.mkdtempSync(path.join(os.tmpdir(), "completion-events-"))
+		enabled = true
+		contextCaptureEnabled = true
+		recorder = new CompletionEventRecorder(
+			storageDir,
+			() => enabled,
+			() => contextCaptureEnabled,
+		)
+	})
+
+	afterEach(() => {
+		fs.rmSync(storageDir, { recursive: true, force: true })
+	})
+
+	it("should record accepted completions with hashed contexts", async () => {
+		const id = show()!
+		recorder.recordAccepted(id)
+		await recorder.flush()
+
+		expect(readLines(COMPLETION_EVENTS_FILE)).toEqual([
+			expect.objectContaining({
+				id,
+				languageId: "typescript",
+				model: "test-model",
+				prefixHash: hashCompletionText("const x = "),
+				suffixHash: hashCompletionText("\n"),
+				suggestion: "computeValue()",
+				outcome: "accepted",
+				acceptedLength: 14,
+				latencyMs: 42,
+			}),
+		])
+		expect(JSON.stringify(readLines(COMPLETION_EVENTS_FILE))).not.toContain("const x = ")
+		expect(readLines(COMPLETION_CONTEXTS_FILE)).toEqual([
+			{
+				prefixHash: hashCompletionText("const x = "),
+				suffixHash: hashCompletionText("\n"),
+				languageId: "typescript",
+				prefix: "const x = ",
+				suffix: "\n",
+			},
+		])
+	})
+
+	it("should record partially accepted completions when the user types the suggestion", async () => {
+		show()
+		recorder.observe("const x = compute", "\n")
+		recorder.observe("const y", "\n")
+		await recorder.flush()
+
+		expect(readLines(COMPLETION_EVENTS_FILE)).toEqual([
+			expect.objectContaining({ outcome: "partial", acceptedLength: 7 }),
+		])
+	})
+
+	it("should record rejected completions when the user moves on", async () => {
+		show()
+		recorder.observe("const x = other", "\n")
+		await recorder.flush()
+
+		expect(readLines(COMPLETION_EVENTS_FILE)).toEqual([
+			expect.objectContaining({ outcome: "rejected", acceptedLength: 0 }),
+		])
+	})
+
+	it("should record each context once", async () => {
+		show()
+		show()
+		recorder.observe("", "")
+		await recorder.flush()
+
+		expect(readLines(COMPLETION_EVENTS_FILE)).toHaveLength(2)
+		expect(readLines(COMPLETION_CONTEXTS_FILE)).toHaveLength(1)
+	})
+
+	it("should only record the code around the cursor when context capture is enabled", async () => {
+		contextCaptureEnabled = false
+
+		const id = show()!
+		recorder.recordAccepted(id)
+		await recorder.flush()
+
+		expect(readLines(COMPLETION_EVENTS_FILE)).toEqual([expect.objectContaining({ id, outcome: "accepted" })])
+		expect(fs.existsSync(path.join(storageDir, COMPLETION_CONTEXTS_FILE))).toBe(false)
+	})
+
+	it("should keep recording events once the contexts file is full", async () => {
+		const contextsPath = path.join(storageDir, COMPLETION_CONTEXTS_FILE)
+		fs.writeFileSync(contextsPath, "")
+		fs.truncateSync(contextsPath, 20 * 1024 * 1024)
+
+		recorder.recordAccepted(show()!)
+		recorder.recordAccepted(show("const y = ")!)
+		await recorder.flush()
+
+		expect(readLines(COMPLETION_EVENTS_FILE)).toHaveLength(2)
+		expect(fs.statSync(contextsPath).size).toBe(20 * 1024 * 1024)
+	})
+
+	it("should not record anything when disabled", async () => {
+		enabled = false
+
+		expect(show()).toBeUndefined()
+		recorder.observe("", "")
+		await recorder.flush()
+
+		expect(fs.existsSync(path.join(storageDir, COMPLETION_EVENTS_FILE))).toBe(false)
+		expect(fs.existsSync(path.join(storageDir, COMPLETION_CONTEXTS_FILE))).toBe(false)
+	})
+})
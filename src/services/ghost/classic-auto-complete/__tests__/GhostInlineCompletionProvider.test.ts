@@ -3,7 +3,9 @@ import {
 	GhostInlineCompletionProvider,
 	findMatchingSuggestion,
 	CostTrackingCallback,
+	INLINE_COMPLETION_ACCEPTED_COMMAND,
 } from "../GhostInlineCompletionProvider"
+import { CompletionEventRecorder } from "../CompletionEventRecorder"
 import { FillInAtCursorSuggestion } from "../HoleFiller"
 import { MockTextDocument } from "../../../mocking/MockTextDocument"
 import { GhostModel } from "../../GhostModel"
@@ -1284,4 +1286,52 @@ describe("GhostInlineCompletionProvider", () => {
 			expect(mockModel.generateResponse).not.toHaveBeenCalled()
 		})
 	})
+
+	describe("completion events", () => {
+		it("should record the shown suggestions and their acceptance", async () => {
+			const eventRecorder = {
+				observe: vi.fn(),
+				recordShown: vi.fn().mockReturnValue("completion-1"),
+				recordAccepted: vi.fn(),
+			} as unknown as CompletionEventRecorder
+			vi.mocked(mockModel.generateResponse).mockImplementation(async (_sys, _user, onChunk) => {
+				onChunk({ type: "text", text: "<COMPLETION>;</COMPLETION>" })
+				return { cost: 0, inputTokens: 0, outputTokens: 0, cacheWriteTokens: 0, cacheReadTokens: 0 }
+			})
+			mockModel.getModelName = vi.fn().mockReturnValue("test-model")
+			provider = new GhostInlineCompletionProvider(
+				mockModel,
+				mockCostTrackingCallback,
+				mockGhostContext,
+				() => mockSettings,
+				eventRecorder,
+			)
+
+			const result = (await provider.provideInlineCompletionItems(
+				mockDocument,
+				mockPosition,
+				mockContext,
+				mockToken,
+			)) as vscode.InlineCompletionItem[]
+
+			expect(eventRecorder.observe).toHaveBeenCalledWith("const x = 1", "\nconst y = 2")
+			expect(eventRecorder.recordShown).toHaveBeenCalledWith(
+				expect.objectContaining({
+					prefix: "const x = 1",
+					suffix: "\nconst y = 2",
+					languageId: "typescript",
+					model: "test-model",
+					suggestion: ";",
+				}),
+			)
+			expect(result[0].command).toEqual({
+				command: INLINE_COMPLETION_ACCEPTED_COMMAND,
+				title: "",
+				arguments: ["completion-1"],
+			})
+
+			provider.handleCompletionAccepted("completion-1")
+			expect(eventRecorder.recordAccepted).toHaveBeenCalledWith("completion-1")
+		})
+	})
 })
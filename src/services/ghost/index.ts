@@ -1,6 +1,7 @@
 // kilocode_change - new file
 import * as vscode from "vscode"
 import { GhostServiceManager } from "./GhostServiceManager"
+import { INLINE_COMPLETION_ACCEPTED_COMMAND } from "./classic-auto-complete/GhostInlineCompletionProvider"
 import { ClineProvider } from "../../core/webview/ClineProvider"
 
 export const registerGhostProvider = (context: vscode.ExtensionContext, cline: ClineProvider) => {
@@ -33,6 +34,21 @@ export const registerGhostProvider = (context: vscode.ExtensionContext, cline: C
 			await ghost.cancelRequest()
 		}),
 	)
+	context.subscriptions.push(
+		vscode.commands.registerCommand(INLINE_COMPLETION_ACCEPTED_COMMAND, (id: string) => {
+			ghost.inlineCompletionProvider.handleCompletionAccepted(id)
+		}),
+	)
+	context.subscriptions.push(
+		vscode.commands.registerCommand("kilo-code.ghost.acceptNextEdit", async () => {
+			await ghost.acceptNextEdit()
+		}),
+	)
+	context.subscriptions.push(
+		vscode.commands.registerCommand("kilo-code.ghost.dismissNextEdit", async () => {
+			ghost.dismissNextEdit()
+		}),
+	)
 	context.subscriptions.push(
 		vscode.commands.registerCommand("kilo-code.ghost.disable", async () => {
 			await ghost.disable()
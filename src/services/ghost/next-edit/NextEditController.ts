@@ -0,0 +1,357 @@
+import crypto from "crypto"
+import * as vscode from "vscode"
+import { t } from "../../../i18n"
+import { ILLM, ILLMLogger } from "../../continuedev/core/index.js"
+import { MinimalConfigProvider } from "../../continuedev/core/autocomplete/MinimalConfig"
+import { getAst } from "../../continuedev/core/autocomplete/util/ast"
+import { createDiff, DiffFormatType } from "../../continuedev/core/nextEdit/context/diffFormatting"
+import { DocumentHistoryTracker } from "../../continuedev/core/nextEdit/DocumentHistoryTracker"
+import { NextEditProvider } from "../../continuedev/core/nextEdit/NextEditProvider"
+import { DEFAULT_AUTOCOMPLETE_OPTS } from "../../continuedev/core/util/parameters"
+import { localPathOrUriToPath } from "../../continuedev/core/util/pathToUri"
+import { VsCodeIde } from "../../continuedev/core/vscode-test-harness/src/VSCodeIde"
+import { getDefinitionsFromLsp } from "../../continuedev/core/vscode-test-harness/src/autocomplete/lsp"
+import type { CostTrackingCallback } from "../classic-auto-complete/GhostInlineCompletionProvider"
+
+/** Delay after the last change before predicting the next edit */
+const NEXT_EDIT_DEBOUNCE_MS = 800
+
+/** Edits further from the cursor than this many lines are reached with a jump first */
+const NEXT_EDIT_JUMP_DISTANCE_LINES = 2
+
+/**
+ * Reduce an edit to the part that actually changes, by dropping the common
+ * prefix and suffix of the replaced text and its replacement
+ * @returns The changed range, as offsets in the replaced text, and the text replacing it
+ */
+export function getMinimalEdit(search: string, replace: string): { start: number; end: number; text: string } {
+	let prefix = 0
+	while (prefix < search.length && prefix < replace.length && search[prefix] === replace[prefix]) {
+		prefix++
+	}
+
+	let suffix = 0
+	while (
+		suffix < search.length - prefix &&
+		suffix < replace.length - prefix &&
+		search[search.length - 1 - suffix] === replace[replace.length - 1 - suffix]
+	) {
+		suffix++
+	}
+
+	return {
+		start: prefix,
+		end: search.length - suffix,
+		text: replace.slice(prefix, replace.length - suffix),
+	}
+}
+
+interface NextEdit {
+	/** Offset in the document of the text to replace */
+	offset: number
+	/** The text to replace */
+	search: string
+	/** The text replacing it */
+	replace: string
+}
+
+interface DisplayedNextEdit {
+	editor: vscode.TextEditor
+	range: vscode.Range
+	text: string
+	needsJump: boolean
+}
+
+/**
+ * Predicts the next edit after the user stops typing with the continuedev
+ * NextEditProvider, and displays it as a diff decoration. Edits far from the
+ * cursor are announced with a jump hint, so that the first Tab moves to the
+ * edit and the second one applies it.
+ */
+export class NextEditController implements vscode.Disposable {
+	private provider: NextEditProvider
+	private costTrackingCallback: CostTrackingCallback
+	private debounceTimer: NodeJS.Timeout | null = null
+	private abortController: AbortController | null = null
+	private current: DisplayedNextEdit | null = null
+
+	private removedDecorationType = vscode.window.createTextEditorDecorationType({
+		backgroundColor: new vscode.ThemeColor("diffEditor.removedTextBackground"),
+		textDecoration: "line-through",
+	})
+	private insertedDecorationType = vscode.window.createTextEditorDecorationType({
+		after: {
+			backgroundColor: new vscode.ThemeColor("diffEditor.insertedTextBackground"),
+			color: new vscode.ThemeColor("editorGhostText.foreground"),
+		},
+	})
+	private jumpHintDecorationType = vscode.window.createTextEditorDecorationType({
+		after: {
+			color: new vscode.ThemeColor("editorGhostText.foreground"),
+			margin: "0 0 0 2em",
+		},
+	})
+
+	constructor(
+		context: vscode.ExtensionContext,
+		getLlm: () => ILLM | null,
+		costTrackingCallback: CostTrackingCallback,
+	) {
+		this.costTrackingCallback = costTrackingCallback
+		this.provider = NextEditProvider.initialize(
+			// The document changes are already debounced by the controller
+			new MinimalConfigProvider({ tabAutocompleteOptions: { ...DEFAULT_AUTOCOMPLETE_OPTS, debounceDelay: 0 } }),
+			new VsCodeIde(context),
+			async () => {
+				const llm = getLlm()
+				if (!llm) {
+					return undefined
+				}
+				llm.logger = this.usageLogger
+				return llm
+			},
+			(error) => console.error("Error predicting the next edit:", error),
+			getDefinitionsFromLsp,
+			"default",
+		)
+	}
+
+	/**
+	 * Reports the usage of every prediction to the cost tracking, the same way
+	 * the classic autocomplete does, including the cancelled and failed ones
+	 */
+	private usageLogger: ILLMLogger = {
+		createInteractionLog: () => ({
+			logItem: (item) => {
+				if (item.kind !== "success" && item.kind !== "cancel" && item.kind !== "error") {
+					return
+				}
+
+				const cost = item.usage?.cost ?? 0
+				if (cost > 0) {
+					this.costTrackingCallback(
+						cost,
+						item.usage?.promptTokens ?? item.promptTokens,
+						item.usage?.completionTokens ?? item.generatedTokens,
+						item.usage?.promptTokensDetails?.cacheWriteTokens ?? 0,
+						item.usage?.promptTokensDetails?.cachedTokens ?? 0,
+					)
+				}
+			},
+		}),
+	}
+
+	/**
+	 * Push the current content of the document to its history, the edits
+	 * since the previous push are what the next edit follows up on. The history
+	 * keeps the syntax tree too, so only the languages tree-sitter parses are tracked.
+	 * @returns The content of the previous push, or null if the document was not tracked yet
+	 */
+	public async trackDocument(document: vscode.TextDocument): Promise<string | null> {
+		const filepath = localPathOrUriToPath(document.uri.toString())
+		const tracker = DocumentHistoryTracker.getInstance()
+		const previousContent = tracker.getMostRecentDocumentHistory(filepath)
+		const content = document.getText()
+
+		if (content !== previousContent) {
+			const ast = await getAst(filepath, content)
+			if (ast) {
+				tracker.push(filepath, content, ast)
+			}
+		}
+
+		return previousContent
+	}
+
+	public forgetDocument(document: vscode.TextDocument): void {
+		DocumentHistoryTracker.getInstance().deleteDocument(localPathOrUriToPath(document.uri.toString()))
+	}
+
+	/**
+	 * Predict the next edit of the editor once the user stops typing
+	 */
+	public schedule(editor: vscode.TextEditor): void {
+		if (this.debounceTimer) {
+			clearTimeout(this.debounceTimer)
+		}
+		this.debounceTimer = setTimeout(() => {
+			this.debounceTimer = null
+			void this.trigger(editor)
+		}, NEXT_EDIT_DEBOUNCE_MS)
+	}
+
+	/**
+	 * Predict the next edit of the editor right away
+	 */
+	public async trigger(editor: vscode.TextEditor): Promise<void> {
+		const document = editor.document
+		const version = document.version
+		const content = document.getText()
+
+		// Without recent edits there is nothing to follow up on
+		const previousContent = await this.trackDocument(document)
+		if (previousContent === null) {
+			return
+		}
+		if (previousContent !== content) {
+			this.provider.addDiffToContext(
+				createDiff({
+					beforeContent: previousContent,
+					afterContent: content,
+					filePath: localPathOrUriToPath(document.uri.toString()),
+					diffType: DiffFormatType.Unified,
+					contextLines: 3,
+					workspaceDir: vscode.workspace.getWorkspaceFolder(document.uri)?.uri.fsPath,
+				}),
+			)
+		}
+
+		this.abortController?.abort()
+		const abortController = new AbortController()
+		this.abortController = abortController
+
+		const position = editor.selection.active
+		const outcome = await this.provider.provideInlineCompletionItems(
+			{
+				isUntitledFile: document.isUntitled,
+				completionId: crypto.randomUUID(),
+				filepath: document.uri.toString(),
+				pos: { line: position.line, character: position.character },
+				recentlyVisitedRanges: [],
+				recentlyEditedRanges: [],
+			},
+			abortController.signal,
+		)
+		// Predictions are not chained, each one starts from the current content
+		await this.provider.deleteChain()
+
+		// The prediction is stale once the user moved on
+		if (
+			!outcome ||
+			abortController.signal.aborted ||
+			document.version !== version ||
+			vscode.window.activeTextEditor !== editor ||
+			outcome.completion === outcome.originalEditableRange
+		) {
+			return
+		}
+
+		// The model rewrites the editable region around the cursor
+		this.show(editor, {
+			offset: document.offsetAt(new vscode.Position(outcome.editableRegionStartLine, 0)),
+			search: outcome.originalEditableRange,
+			replace: outcome.completion,
+		})
+	}
+
+	private show(editor: vscode.TextEditor, edit: NextEdit): void {
+		const { start, end, text } = getMinimalEdit(edit.search, edit.replace)
+		const range = new vscode.Range(
+			editor.document.positionAt(edit.offset + start),
+			editor.document.positionAt(edit.offset + end),
+		)
+		const cursorLine = editor.selection.active.line
+		const needsJump =
+			cursorLine < range.start.line - NEXT_EDIT_JUMP_DISTANCE_LINES ||
+			cursorLine > range.end.line + NEXT_EDIT_JUMP_DISTANCE_LINES
+
+		this.clear()
+		this.current = { editor, range, text, needsJump }
+
+		editor.setDecorations(this.removedDecorationType, range.isEmpty ? [] : [range])
+		editor.setDecorations(
+			this.insertedDecorationType,
+			text
+				? [
+						{
+							range: new vscode.Range(range.end, range.end),
+							renderOptions: { after: { contentText: text.replace(/\r?\n/g, " ⏎ ") } },
+						},
+					]
+				: [],
+		)
+		if (needsJump) {
+			const hintPosition = editor.document.lineAt(cursorLine).range.end
+			editor.setDecorations(this.jumpHintDecorationType, [
+				{
+					range: new vscode.Range(hintPosition, hintPosition),
+					renderOptions: {
+						after: { contentText: t("kilocode:ghost.nextEdit.jumpHint", { line: range.start.line + 1 }) },
+					},
+				},
+			])
+		}
+
+		void vscode.commands.executeCommand("setContext", "kilocode.ghost.hasNextEdit", true)
+	}
+
+	/**
+	 * Jump to the displayed edit if it is far from the cursor, or apply it otherwise
+	 */
+	public async accept(): Promise<void> {
+		if (!this.current) {
+			return
+		}
+
+		const { editor, range, text, needsJump } = this.current
+		if (needsJump) {
+			this.current.needsJump = false
+			editor.setDecorations(this.jumpHintDecorationType, [])
+			editor.selection = new vscode.Selection(range.start, range.start)
+			editor.revealRange(range, vscode.TextEditorRevealType.InCenterIfOutsideViewport)
+			return
+		}
+
+		this.clear()
+		const applied = await editor.edit((editBuilder) => editBuilder.replace(range, text))
+		if (!applied) {
+			return
+		}
+
+		const end = editor.document.positionAt(editor.document.offsetAt(range.start) + text.length)
+		editor.selection = new vscode.Selection(end, end)
+
+		// The following prediction builds on the applied edit
+		this.schedule(editor)
+	}
+
+	/**
+	 * Remove the displayed edit, if any
+	 */
+	public clear(): void {
+		if (!this.current) {
+			return
+		}
+
+		const { editor } = this.current
+		this.current = null
+		editor.setDecorations(this.removedDecorationType, [])
+		editor.setDecorations(this.insertedDecorationType, [])
+		editor.setDecorations(this.jumpHintDecorationType, [])
+		void vscode.commands.executeCommand("setContext", "kilocode.ghost.hasNextEdit", false)
+	}
+
+	/**
+	 * Cancel the pending prediction and remove the displayed edit
+	 */
+	public cancel(): void {
+		if (this.debounceTimer) {
+			clearTimeout(this.debounceTimer)
+			this.debounceTimer = null
+		}
+		this.abortController?.abort()
+		this.abortController = null
+		this.clear()
+	}
+
+	public hasNextEdit(document: vscode.TextDocument): boolean {
+		return this.current?.editor.document === document
+	}
+
+	public dispose(): void {
+		this.cancel()
+		this.removedDecorationType.dispose()
+		this.insertedDecorationType.dispose()
+		this.jumpHintDecorationType.dispose()
+	}
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach } from "vitest"
+import * as vscode from "vscode"
+import { NextEditController, getMinimalEdit } from "../NextEditController"
+import { NextEditProvider } from "../../../continuedev/core/nextEdit/NextEditProvider"
+import { DocumentHistoryTracker } from "../../../continuedev/core/nextEdit/DocumentHistoryTracker"
+import { MockTextDocument } from "../../../mocking/MockTextDocument"
+import type { ILLM } from "../../../continuedev/core/index.js"
+
+vi.mock("../../../continuedev/core/nextEdit/NextEditProvider", () => ({
+	NextEditProvider: {
+		initialize: vi.fn(),
+	},
+}))
+
+vi.mock("../../../continuedev/core/autocomplete/util/ast", () => ({
+	getAst: vi.fn().mockResolvedValue({}),
+}))
+
+vi.mock("../../../continuedev/core/vscode-test-harness/src/VSCodeIde", () => ({
+	VsCodeIde: vi.fn(),
+}))
+
+vi.mock("../../../continuedev/core/vscode-test-harness/src/autocomplete/lsp", () => ({
+	getDefinitionsFromLsp: vi.fn(),
+}))
+
+describe("getMinimalEdit", () => {
+	it("should keep only the changed part of the edit", () => {
+		expect(getMinimalEdit("find(id)", "find(id, { includeDeleted })")).toEqual({
+			start: 7,
+			end: 7,
+			text: ", { includeDeleted }",
+		})
+		expect(getMinimalEdit("const userName = 1", "const name = 1")).toEqual({ start: 6, end: 11, text: "n" })
+	})
+})
+
+describe("NextEditController", () => {
+	const before = ["function getUser(id) {", "  return db.users.find(id)", "}"].join("\n")
+	const after = ["function getUser(id, includeDeleted) {", "  return db.users.find(id)", "}"].join("\n")
+
+	let llm: ILLM
+	let provider: {
+		addDiffToContext: ReturnType<typeof vi.fn>
+		provideInlineCompletionItems: ReturnType<typeof vi.fn>
+		deleteChain: ReturnType<typeof vi.fn>
+	}
+	let costTrackingCallback: ReturnType<typeof vi.fn>
+	let controller: NextEditController
+	let document: MockTextDocument
+	let editor: vscode.TextEditor
+
+	beforeEach(() => {
+		DocumentHistoryTracker.getInstance().clearMap()
+
+		llm = {} as ILLM
+
+		provider = {
+			addDiffToContext: vi.fn(),
+			provideInlineCompletionItems: vi.fn().mockResolvedValue({
+				editableRegionStartLine: 1,
+				editableRegionEndLine: 2,
+				originalEditableRange: "  return db.users.find(id)\n}",
+				completion: "  return db.users.find(id, { includeDeleted })\n}",
+			}),
+			deleteChain: vi.fn().mockResolvedValue(undefined),
+		}
+		vi.mocked(NextEditProvider.initialize).mockReturnValue(provider as unknown as NextEditProvider)
+
+		costTrackingCallback = vi.fn()
+		controller = new NextEditController({} as vscode.ExtensionContext, () => llm, costTrackingCallback)
+		document = new MockTextDocument(vscode.Uri.parse("file:///test.ts"), before)
+		editor = {
+			document,
+			selection: new vscode.Selection(new vscode.Position(0, 38), new vscode.Position(0, 38)),
+			setDecorations: vi.fn(),
+		} as unknown as vscode.TextEditor
+		;(vscode.window as any).activeTextEditor = editor
+	})
+
+	it("should not predict before the document has recent edits", async () => {
+		await controller.trigger(editor)
+
+		expect(provider.provideInlineCompletionItems).not.toHaveBeenCalled()
+		expect(DocumentHistoryTracker.getInstance().getMostRecentDocumentHistory("/test.ts")).toBe(before)
+	})
+
+	it("should predict from the edits since the previous prediction", async () => {
+		await controller.trackDocument(document)
+		document.updateContent(after)
+
+		await controller.trigger(editor)
+
+		expect(provider.addDiffToContext).toHaveBeenCalledWith(
+			expect.stringContaining("+function getUser(id, includeDeleted) {"),
+		)
+		expect(provider.provideInlineCompletionItems).toHaveBeenCalledWith(
+			expect.objectContaining({ filepath: "file:///test.ts", pos: { line: 0, character: 38 } }),
+			expect.any(AbortSignal),
+		)
+		expect(provider.deleteChain).toHaveBeenCalled()
+		expect(DocumentHistoryTracker.getInstance().getMostRecentDocumentHistory("/test.ts")).toBe(after)
+		expect(controller.hasNextEdit(document)).toBe(true)
+	})
+
+	it("should drop predictions that do not change the document", async () => {
+		provider.provideInlineCompletionItems.mockResolvedValue({
+			editableRegionStartLine: 1,
+			editableRegionEndLine: 2,
+			originalEditableRange: "  return db.users.find(id)\n}",
+			completion: "  return db.users.find(id)\n}",
+		})
+		await controller.trackDocument(document)
+		document.updateContent(after)
+
+		await controller.trigger(editor)
+
+		expect(controller.hasNextEdit(document)).toBe(false)
+	})
+	it("should report the usage of predictions to the cost tracking", async () => {
+		provider.provideInlineCompletionItems.mockImplementation(async () => {
+			const getLlm = vi.mocked(NextEditProvider.initialize).mock.lastCall![2]
+			const interaction = (await getLlm())!.logger!.createInteractionLog()
+			interaction.logItem({ kind: "message", message: { role: "assistant", content: "" } })
+			interaction.logItem({
+				kind: "success",
+				promptTokens: 900,
+				generatedTokens: 50,
+				usage: {
+					promptTokens: 1000,
+					completionTokens: 60,
+					promptTokensDetails: { cachedTokens: 200 },
+					cost: 0.002,
+				},
+			})
+			return undefined
+		})
+		await controller.trackDocument(document)
+		document.updateContent(after)
+
+		await controller.trigger(editor)
+
+		expect(costTrackingCallback).toHaveBeenCalledTimes(1)
+		expect(costTrackingCallback).toHaveBeenCalledWith(0.002, 1000, 60, 0, 200)
+	})
+})
@@ -43,3 +43,8 @@ export const AUTOCOMPLETE_PROVIDER_MODELS = new Map([
 	["bedrock", "mistral.codestral-2508-v1:0"],
 ] as const)
 export type AutocompleteProviderKey = typeof AUTOCOMPLETE_PROVIDER_MODELS extends Map<infer K, any> ? K : never
+
+export const NEXT_EDIT_PROVIDER_MODELS = new Map([
+	["kilocode", "inception/mercury-coder"],
+	["openrouter", "inception/mercury-coder"],
+] as const)
@@ -5,9 +5,12 @@ import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/
 import ReconnectingEventSource from "reconnecting-eventsource"
 import {
 	CallToolResultSchema,
+	GetPromptResultSchema, // kilocode_change
+	ListPromptsResultSchema, // kilocode_change
 	ListResourcesResultSchema,
 	ListResourceTemplatesResultSchema,
 	ListToolsResultSchema,
+	PromptListChangedNotificationSchema, // kilocode_change
 	ReadResourceResultSchema,
 } from "@modelcontextprotocol/sdk/types.js"
 import chokidar, { FSWatcher } from "chokidar"
@@ -22,6 +25,8 @@ import { t } from "../../i18n"
 import { ClineProvider } from "../../core/webview/ClineProvider"
 import { GlobalFileNames } from "../../shared/globalFileNames"
 import {
+	McpPrompt, // kilocode_change
+	McpPromptResponse, // kilocode_change
 	McpResource,
 	McpResourceResponse,
 	McpResourceTemplate,
@@ -33,6 +38,11 @@ import { fileExistsAtPath } from "../../utils/fs"
 import { arePathsEqual, getWorkspacePath } from "../../utils/path"
 import { injectVariables } from "../../utils/config"
 import { NotificationService } from "./kilocode/NotificationService"
+// kilocode_change start
+import { ElicitationService } from "./kilocode/ElicitationService"
+import { RootsService } from "./kilocode/RootsService"
+import { SamplingService } from "./kilocode/SamplingService"
+// kilocode_change end
 
 // Discriminated union for connection states
 export type ConnectedMcpConnection = {
@@ -64,6 +74,7 @@ const BaseConfigSchema = z.object({
 	alwaysAllow: z.array(z.string()).default([]),
 	watchPaths: z.array(z.string()).optional(), // paths to watch for changes and restart server
 	disabledTools: z.array(z.string()).default([]),
+	alwaysAllowSampling: z.boolean().optional(), // kilocode_change
 })
 
 // Custom error messages for better user feedback
@@ -151,6 +162,11 @@ export class McpHub {
 	connections: McpConnection[] = []
 	isConnecting: boolean = false
 	readonly kiloNotificationService = new NotificationService()
+	// kilocode_change start
+	readonly kiloSamplingService = new SamplingService(() => this.providerRef.deref())
+	readonly kiloElicitationService = new ElicitationService(() => this.providerRef.deref())
+	readonly kiloRootsService = new RootsService()
+	// kilocode_change end
 	private refCount: number = 0 // Reference counter for active clients
 	private configChangeDebounceTimers: Map<string, NodeJS.Timeout> = new Map()
 
@@ -272,6 +288,13 @@ export class McpHub {
 			vscode.workspace.onDidChangeWorkspaceFolders(async () => {
 				await this.updateProjectMcpServers()
 				await this.watchProjectMcpFile()
+				// kilocode_change start
+				await this.kiloRootsService.notifyRootsListChanged(
+					this.connections
+						.filter((connection): connection is ConnectedMcpConnection => connection.type === "connected")
+						.map((connection) => connection.client),
+				)
+				// kilocode_change end
 			}),
 		)
 	}
@@ -655,7 +678,7 @@ export class McpHub {
 					version: this.providerRef.deref()?.context.extension?.packageJSON?.version ?? "1.0.0",
 				},
 				{
-					capabilities: {},
+					capabilities: { sampling: {}, elicitation: {}, roots: { listChanged: true } }, // kilocode_change
 				},
 			)
 
@@ -829,6 +852,7 @@ export class McpHub {
 					config: JSON.stringify(configInjected),
 					status: "connecting",
 					disabled: configInjected.disabled,
+					alwaysAllowSampling: configInjected.alwaysAllowSampling, // kilocode_change
 					source,
 					projectPath: source === "project" ? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath : undefined,
 					errorHistory: [],
@@ -845,6 +869,17 @@ export class McpHub {
 			connection.server.instructions = client.getInstructions()
 
 			this.kiloNotificationService.connect(name, connection.client)
+			// kilocode_change start
+			this.kiloSamplingService.connect(name, connection.client)
+			this.kiloElicitationService.connect(name, connection.client)
+			this.kiloRootsService.connect(connection.client)
+			if (connection.client.getServerCapabilities()?.prompts?.listChanged) {
+				connection.client.setNotificationHandler(PromptListChangedNotificationSchema, async () => {
+					connection.server.prompts = await this.fetchPromptsList(name, source)
+					await this.notifyWebviewOfServerChanges()
+				})
+			}
+			// kilocode_change end
 
 			// Initial fetch of tools and resources
 			await this.fetchAvailableServerCapabilities(name, source) // kilocode_change: logic moved into method
@@ -932,6 +967,9 @@ export class McpHub {
 			connection.server.resources = await this.fetchResourcesList(serverName, source)
 			connection.server.resourceTemplates = await this.fetchResourceTemplatesList(serverName, source)
 		}
+		if (connection.client.getServerCapabilities()?.prompts) {
+			connection.server.prompts = await this.fetchPromptsList(serverName, source)
+		}
 	}
 	// kilocode_change end
 
@@ -1049,6 +1087,28 @@ export class McpHub {
 		}
 	}
 
+	// kilocode_change start
+	private async fetchPromptsList(serverName: string, source?: "global" | "project"): Promise<McpPrompt[]> {
+		try {
+			const connection = this.findConnection(serverName, source)
+			if (!connection || connection.type !== "connected") {
+				return []
+			}
+
+			// Only proceed if the server defined the prompts capability.
+			if (!connection.client.getServerCapabilities()?.prompts) {
+				return []
+			}
+
+			const response = await connection.client.request({ method: "prompts/list" }, ListPromptsResultSchema)
+			return response?.prompts || []
+		} catch (error) {
+			console.error(`Failed to fetch prompts for ${serverName}:`, error)
+			return []
+		}
+	}
+	// kilocode_change end
+
 	async deleteConnection(name: string, source?: "global" | "project"): Promise<void> {
 		// Clean up file watchers for this server
 		this.removeFileWatchersForServer(name)
@@ -1539,6 +1599,28 @@ export class McpHub {
 		}
 	}
 
+	// kilocode_change start
+	public async toggleServerSamplingAlwaysAllow(
+		serverName: string,
+		source: "global" | "project",
+		alwaysAllowSampling: boolean,
+	): Promise<void> {
+		try {
+			const connection = this.findConnection(serverName, source)
+			if (!connection) {
+				throw new Error(`Server ${serverName} with source ${source} not found`)
+			}
+
+			await this.updateServerConfig(serverName, { alwaysAllowSampling }, connection.server.source || "global")
+
+			await this.notifyWebviewOfServerChanges()
+		} catch (error) {
+			this.showErrorMessage(`Failed to toggle always allow sampling for server "${serverName}"`, error)
+			throw error
+		}
+	}
+	// kilocode_change end
+
 	public async deleteServer(serverName: string, source?: "global" | "project"): Promise<void> {
 		try {
 			// Find the connection to determine if it's a global or project server
@@ -1626,6 +1708,33 @@ export class McpHub {
 		)
 	}
 
+	// kilocode_change start
+	async getPrompt(
+		serverName: string,
+		promptName: string,
+		promptArguments?: Record<string, string>,
+		source?: "global" | "project",
+	): Promise<McpPromptResponse> {
+		const connection = this.findConnection(serverName, source)
+		if (!connection || connection.type !== "connected") {
+			throw new Error(`No connection found for server: ${serverName}${source ? ` with source ${source}` : ""}`)
+		}
+		if (connection.server.disabled) {
+			throw new Error(`Server "${serverName}" is disabled`)
+		}
+		return await connection.client.request(
+			{
+				method: "prompts/get",
+				params: {
+					name: promptName,
+					arguments: promptArguments,
+				},
+			},
+			GetPromptResultSchema,
+		)
+	}
+	// kilocode_change end
+
 	async callTool(
 		serverName: string,
 		toolName: string,
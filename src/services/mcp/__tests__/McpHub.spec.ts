@@ -56,6 +56,25 @@ vi.mock("../kilocode/NotificationService", () => ({
 	})),
 }))
 
+// kilocode_change start
+vi.mock("../kilocode/SamplingService", () => ({
+	SamplingService: vi.fn().mockImplementation(() => ({
+		connect: vi.fn(),
+	})),
+}))
+vi.mock("../kilocode/ElicitationService", () => ({
+	ElicitationService: vi.fn().mockImplementation(() => ({
+		connect: vi.fn(),
+	})),
+}))
+vi.mock("../kilocode/RootsService", () => ({
+	RootsService: vi.fn().mockImplementation(() => ({
+		connect: vi.fn(),
+		notifyRootsListChanged: vi.fn(),
+	})),
+}))
+// kilocode_change end
+
 vi.mock("vscode", () => ({
 	workspace: {
 		createFileSystemWatcher: vi.fn().mockReturnValue({
@@ -1211,6 +1230,47 @@ describe("McpHub", () => {
 		})
 	})
 
+	// kilocode_change start
+	describe("getPrompt", () => {
+		it("should request the prompt with its arguments", async () => {
+			const mockConnection: ConnectedMcpConnection = {
+				type: "connected",
+				server: {
+					name: "test-server",
+					config: JSON.stringify({}),
+					status: "connected" as const,
+					prompts: [{ name: "review", arguments: [{ name: "pr", required: true }] }],
+				},
+				client: {
+					request: vi.fn().mockResolvedValue({ messages: [] }),
+				} as any,
+				transport: {} as any,
+			}
+
+			mcpHub.connections = [mockConnection]
+
+			await mcpHub.getPrompt("test-server", "review", { pr: "42" })
+
+			expect(mockConnection.client.request).toHaveBeenCalledWith(
+				{
+					method: "prompts/get",
+					params: {
+						name: "review",
+						arguments: { pr: "42" },
+					},
+				},
+				expect.any(Object),
+			)
+		})
+
+		it("should throw error if server not found", async () => {
+			await expect(mcpHub.getPrompt("non-existent-server", "review")).rejects.toThrow(
+				"No connection found for server: non-existent-server",
+			)
+		})
+	})
+	// kilocode_change end
+
 	describe("callTool", () => {
 		it("should execute tool successfully", async () => {
 			// Mock the connection with a minimal client implementation
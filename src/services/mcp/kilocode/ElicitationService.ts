@@ -0,0 +1,184 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { ElicitRequest, ElicitRequestSchema, ElicitResult } from "@modelcontextprotocol/sdk/types.js"
+
+import type { ClineProvider } from "../../../core/webview/ClineProvider"
+import { findLast } from "../../../shared/array"
+import type {
+	McpElicitationField,
+	McpElicitationRequest,
+	McpElicitationResponse,
+	McpElicitationValue,
+} from "../../../shared/kilocode/mcp"
+
+/**
+ * Typing this as the answer declines the request, e.g. from the CLI where there is no decline button
+ */
+export const MCP_ELICITATION_DECLINE_ANSWER = "decline"
+
+function coerceValue(name: string, field: McpElicitationField, raw: unknown): McpElicitationValue {
+	switch (field.type) {
+		case "boolean": {
+			if (typeof raw === "boolean") {
+				return raw
+			}
+			const value = String(raw).trim().toLowerCase()
+			if (["true", "yes", "y", "1"].includes(value)) {
+				return true
+			}
+			if (["false", "no", "n", "0"].includes(value)) {
+				return false
+			}
+			throw new Error(`"${name}" must be true or false`)
+		}
+		case "number":
+		case "integer": {
+			const value = typeof raw === "number" ? raw : Number(String(raw).trim())
+			if (String(raw).trim() === "" || Number.isNaN(value)) {
+				throw new Error(`"${name}" must be a number`)
+			}
+			if (field.type === "integer" && !Number.isInteger(value)) {
+				throw new Error(`"${name}" must be an integer`)
+			}
+			if (field.minimum !== undefined && value < field.minimum) {
+				throw new Error(`"${name}" must be at least ${field.minimum}`)
+			}
+			if (field.maximum !== undefined && value > field.maximum) {
+				throw new Error(`"${name}" must be at most ${field.maximum}`)
+			}
+			return value
+		}
+		default: {
+			const value = String(raw)
+			if (field.enum) {
+				const index = field.enumNames?.indexOf(value) ?? -1
+				const enumValue = index >= 0 ? field.enum[index] : value
+				if (!field.enum.includes(enumValue)) {
+					throw new Error(`"${name}" must be one of: ${field.enum.join(", ")}`)
+				}
+				return enumValue
+			}
+			if (field.minLength !== undefined && value.length < field.minLength) {
+				throw new Error(`"${name}" must be at least ${field.minLength} characters`)
+			}
+			if (field.maxLength !== undefined && value.length > field.maxLength) {
+				throw new Error(`"${name}" must be at most ${field.maxLength} characters`)
+			}
+			return value
+		}
+	}
+}
+
+/**
+ * Parse the user's answer to an elicitation request into content matching the requested schema.
+ *
+ * The answer is either a JSON object (sent by the webview form) or `name=value` pairs typed in the
+ * chat, where values containing spaces can be wrapped in double quotes. A schema with a single field
+ * also accepts the whole answer as that field's value.
+ *
+ * @throws Error describing the first invalid or missing field
+ */
+export function parseMcpElicitationAnswer(
+	answer: string,
+	schema: McpElicitationRequest["requestedSchema"],
+): Record<string, McpElicitationValue> {
+	const fieldNames = Object.keys(schema.properties)
+	const trimmed = answer.trim()
+	let values: Record<string, unknown> = {}
+
+	if (trimmed.startsWith("{")) {
+		try {
+			values = JSON.parse(trimmed)
+		} catch {
+			throw new Error("The answer is not valid JSON")
+		}
+	} else {
+		for (const [, name, quotedValue, plainValue] of trimmed.matchAll(
+			/([a-zA-Z0-9_-]+)=(?:"((?:[^"\\]|\\.)*)"|(\S*))/g,
+		)) {
+			if (fieldNames.includes(name)) {
+				values[name] = quotedValue !== undefined ? quotedValue.replace(/\\(.)/g, "$1") : plainValue
+			}
+		}
+
+		if (Object.keys(values).length === 0 && fieldNames.length === 1 && trimmed) {
+			values[fieldNames[0]] = trimmed
+		}
+	}
+
+	const content: Record<string, McpElicitationValue> = {}
+
+	for (const name of fieldNames) {
+		const raw = values[name]
+		if (raw === undefined || raw === null || raw === "") {
+			if (schema.required?.includes(name)) {
+				throw new Error(`"${name}" is required`)
+			}
+			continue
+		}
+		content[name] = coerceValue(name, schema.properties[name], raw)
+	}
+
+	return content
+}
+
+/**
+ * Answers `elicitation/create` requests from MCP servers by asking the user to fill in the
+ * requested fields. Invalid answers are reported and asked again; an aborted task cancels the request,
+ * as does a task that waits for the answer to another ask.
+ */
+export class ElicitationService {
+	constructor(private readonly getProvider: () => ClineProvider | undefined) {}
+
+	connect(name: string, client: Client): void {
+		client.setRequestHandler(ElicitRequestSchema, (request) => this.elicit(name, request.params))
+	}
+
+	async elicit(serverName: string, params: ElicitRequest["params"]): Promise<ElicitResult> {
+		const task = this.getProvider()?.getCurrentTask()
+		// Asking would replace the ask the task waits for
+		if (!task || task.isAskPending) {
+			return { action: "cancel" }
+		}
+
+		const request: McpElicitationRequest = {
+			serverName,
+			message: params.message,
+			requestedSchema: params.requestedSchema as McpElicitationRequest["requestedSchema"],
+		}
+
+		try {
+			while (true) {
+				const { response, text } = await task.ask("mcp_elicitation", JSON.stringify(request))
+				const askTs = findLast(
+					task.clineMessages,
+					(message) => message.type === "ask" && message.ask === "mcp_elicitation",
+				)?.ts
+
+				let result: McpElicitationResponse
+				if (response !== "messageResponse" || text?.trim().toLowerCase() === MCP_ELICITATION_DECLINE_ANSWER) {
+					result = { action: "reject" }
+				} else {
+					try {
+						result = {
+							action: "accept",
+							content: parseMcpElicitationAnswer(text ?? "", request.requestedSchema),
+						}
+					} catch (error) {
+						await task.say("error", error instanceof Error ? error.message : String(error))
+						continue
+					}
+				}
+
+				if (askTs !== undefined) {
+					await task.updateClineMessageText_kilocode(askTs, JSON.stringify({ ...request, response: result }))
+				}
+
+				return result
+			}
+		} catch (error) {
+			// The task was aborted while waiting for the answer
+			console.error(`[ElicitationService] Elicitation from ${serverName} cancelled:`, error)
+			return { action: "cancel" }
+		}
+	}
+}
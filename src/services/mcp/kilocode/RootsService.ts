@@ -0,0 +1,31 @@
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import { ListRootsRequestSchema, Root } from "@modelcontextprotocol/sdk/types.js"
+import * as vscode from "vscode"
+
+/**
+ * The workspace folders open in VS Code, exposed to MCP servers as roots
+ */
+export function getWorkspaceRoots(): Root[] {
+	return (vscode.workspace.workspaceFolders ?? [])
+		.filter((folder) => folder.uri.scheme === "file")
+		.map((folder) => ({ uri: folder.uri.toString(), name: folder.name }))
+}
+
+/**
+ * Answers `roots/list` requests and tells servers when the workspace folders change
+ */
+export class RootsService {
+	connect(client: Client): void {
+		client.setRequestHandler(ListRootsRequestSchema, async () => ({ roots: getWorkspaceRoots() }))
+	}
+
+	async notifyRootsListChanged(clients: Client[]): Promise<void> {
+		await Promise.all(
+			clients.map((client) =>
+				client.sendRootsListChanged().catch((error) => {
+					console.error("[RootsService] Failed to send roots/list_changed:", error)
+				}),
+			),
+		)
+	}
+}
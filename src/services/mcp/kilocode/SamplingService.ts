@@ -0,0 +1,199 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+import { Client } from "@modelcontextprotocol/sdk/client/index.js"
+import {
+	CreateMessageRequest,
+	CreateMessageRequestSchema,
+	CreateMessageResult,
+	ErrorCode,
+	McpError,
+} from "@modelcontextprotocol/sdk/types.js"
+import { getApiProtocol } from "@roo-code/types"
+
+import { buildApiHandler } from "../../../api"
+import type { ClineProvider } from "../../../core/webview/ClineProvider"
+import type { ClineAskUseMcpServer } from "../../../shared/ExtensionMessage"
+import { findLast } from "../../../shared/array"
+import { calculateApiCostAnthropic, calculateApiCostOpenAI } from "../../../shared/cost"
+import { tiktoken } from "../../../utils/tiktoken"
+
+type SamplingMessage = CreateMessageRequest["params"]["messages"][number]
+
+/**
+ * Convert an MCP sampling message into an Anthropic message param
+ */
+export function toAnthropicMessage(message: SamplingMessage): Anthropic.Messages.MessageParam {
+	const { content } = message
+
+	switch (content.type) {
+		case "text":
+			return { role: message.role, content: content.text }
+		case "image":
+			return {
+				role: message.role,
+				content: [
+					{
+						type: "image",
+						source: {
+							type: "base64",
+							media_type: content.mimeType as Anthropic.Messages.Base64ImageSource["media_type"],
+							data: content.data,
+						},
+					},
+				],
+			}
+		default:
+			return { role: message.role, content: `[${content.type} content (${content.mimeType}) omitted]` }
+	}
+}
+
+/**
+ * Summarize a sampling request for the approval prompt shown to the user
+ */
+export function describeSamplingRequest(params: CreateMessageRequest["params"]): string {
+	return JSON.stringify({
+		systemPrompt: params.systemPrompt,
+		maxTokens: params.maxTokens,
+		messages: params.messages.map(({ role, content }) => ({
+			role,
+			content: content.type === "text" ? content.text : `[${content.type}: ${content.mimeType}]`,
+		})),
+	})
+}
+
+/**
+ * Answers `sampling/createMessage` requests from MCP servers.
+ *
+ * Requests are sent to the API profile of the current task after the user approved them, and the
+ * usage is recorded on the approval message so it is included in the task cost. They are rejected
+ * while the task waits for the answer to another ask, as asking for approval would replace it. The
+ * maxTokens the user approved is forwarded to the provider and the response is cut off once it is
+ * reached, for the providers that do not apply it. The server's model preferences, temperature and
+ * stop sequences are advisory and not forwarded to the provider.
+ */
+export class SamplingService {
+	constructor(private readonly getProvider: () => ClineProvider | undefined) {}
+
+	connect(name: string, client: Client): void {
+		client.setRequestHandler(CreateMessageRequestSchema, (request) => this.createMessage(name, request.params))
+	}
+
+	async createMessage(serverName: string, params: CreateMessageRequest["params"]): Promise<CreateMessageResult> {
+		const task = this.getProvider()?.getCurrentTask()
+		if (!task) {
+			throw new McpError(ErrorCode.InvalidRequest, "Sampling requests require an active task")
+		}
+		if (task.isAskPending) {
+			throw new McpError(
+				ErrorCode.InvalidRequest,
+				"Sampling requests are rejected while the task waits for an answer",
+			)
+		}
+
+		const samplingUse: ClineAskUseMcpServer = {
+			type: "sampling",
+			serverName,
+			arguments: describeSamplingRequest(params),
+		}
+
+		const { response } = await task.ask("use_mcp_server", JSON.stringify(samplingUse))
+		if (response !== "yesButtonClicked") {
+			throw new McpError(ErrorCode.InvalidRequest, "The user rejected the sampling request")
+		}
+
+		const askTs = findLast(
+			task.clineMessages,
+			(message) => message.type === "ask" && message.ask === "use_mcp_server",
+		)?.ts
+
+		const api = buildApiHandler({ ...task.apiConfiguration, modelMaxTokens: params.maxTokens })
+		const { id: modelId, info: modelInfo } = api.getModel()
+		const messages = params.messages.map(toAnthropicMessage)
+
+		let text = ""
+		let streamedTokens = 0
+		let stopReason: CreateMessageResult["stopReason"] = "endTurn"
+		let inputTokens = 0
+		let outputTokens = 0
+		let cacheWriteTokens = 0
+		let cacheReadTokens = 0
+		let totalCost: number | undefined
+
+		try {
+			const stream = api.createMessage(params.systemPrompt ?? "", messages, {
+				taskId: task.taskId,
+				mode: await task.getTaskMode(),
+			})
+
+			for await (const chunk of stream) {
+				if (chunk.type === "text" || chunk.type === "reasoning") {
+					if (chunk.type === "text") {
+						text += chunk.text
+					}
+					// Only the new text is counted, the response so far was counted with the earlier chunks
+					streamedTokens += await tiktoken([{ type: "text", text: chunk.text }])
+					if (streamedTokens >= params.maxTokens) {
+						stopReason = "maxTokens"
+						break
+					}
+				} else if (chunk.type === "usage") {
+					inputTokens += chunk.inputTokens
+					outputTokens += chunk.outputTokens
+					cacheWriteTokens += chunk.cacheWriteTokens ?? 0
+					cacheReadTokens += chunk.cacheReadTokens ?? 0
+					if (chunk.totalCost !== undefined) {
+						totalCost = (totalCost ?? 0) + chunk.totalCost
+					}
+				}
+			}
+		} catch (error) {
+			throw new McpError(
+				ErrorCode.InternalError,
+				`Sampling request failed: ${error instanceof Error ? error.message : String(error)}`,
+			)
+		}
+
+		if (stopReason === "maxTokens") {
+			// The usage of a stopped request is not reported in full, so the cost is computed from estimates
+			if (inputTokens === 0) {
+				inputTokens = await tiktoken([
+					{ type: "text", text: params.systemPrompt ?? "" },
+					...messages.flatMap(({ content }) =>
+						typeof content === "string" ? [{ type: "text" as const, text: content }] : content,
+					),
+				])
+			}
+			outputTokens = Math.max(outputTokens, streamedTokens)
+			totalCost = undefined
+		}
+
+		const calculateApiCost =
+			getApiProtocol(task.apiConfiguration.apiProvider, modelId) === "anthropic"
+				? calculateApiCostAnthropic
+				: calculateApiCostOpenAI
+
+		if (askTs !== undefined) {
+			await task.updateClineMessageText_kilocode(
+				askTs,
+				JSON.stringify({
+					...samplingUse,
+					response: text,
+					model: modelId,
+					tokensIn: inputTokens,
+					tokensOut: outputTokens,
+					cacheWrites: cacheWriteTokens,
+					cacheReads: cacheReadTokens,
+					cost:
+						totalCost ??
+						calculateApiCost(modelInfo, inputTokens, outputTokens, cacheWriteTokens, cacheReadTokens),
+				} satisfies ClineAskUseMcpServer),
+			)
+		}
+
+		return {
+			model: modelId,
+			role: "assistant",
+			content: { type: "text", text },
+			stopReason,
+		}
+	}
+}
@@ -0,0 +1,131 @@
+// npx vitest run services/mcp/kilocode/__tests__/ElicitationService.spec.ts
+
+import type { ElicitRequest } from "@modelcontextprotocol/sdk/types.js"
+
+import type { ClineProvider } from "../../../../core/webview/ClineProvider"
+import type { McpElicitationRequest } from "../../../../shared/kilocode/mcp"
+import { ElicitationService, parseMcpElicitationAnswer } from "../ElicitationService"
+
+const schema: McpElicitationRequest["requestedSchema"] = {
+	type: "object",
+	properties: {
+		name: { type: "string", minLength: 2 },
+		age: { type: "integer", minimum: 0 },
+		subscribe: { type: "boolean" },
+		plan: { type: "string", enum: ["free", "pro"], enumNames: ["Free", "Pro"] },
+	},
+	required: ["name"],
+}
+
+function createTask(answers: Array<{ response: string; text?: string }>) {
+	const task = {
+		clineMessages: [] as any[],
+		isAskPending: false,
+		ask: vi.fn().mockImplementation(async (ask: string, text: string) => {
+			task.clineMessages.push({ type: "ask", ask, text, ts: 1000 + task.clineMessages.length })
+			return answers.shift()
+		}),
+		say: vi.fn(),
+		updateClineMessageText_kilocode: vi.fn(),
+	}
+	return task
+}
+
+function createService(task?: ReturnType<typeof createTask>) {
+	const provider = { getCurrentTask: () => task } as unknown as ClineProvider
+	return new ElicitationService(() => provider)
+}
+
+describe("parseMcpElicitationAnswer", () => {
+	it("should parse and coerce a JSON answer", () => {
+		expect(parseMcpElicitationAnswer('{"name":"Ada","age":"36","subscribe":true,"plan":"pro"}', schema)).toEqual({
+			name: "Ada",
+			age: 36,
+			subscribe: true,
+			plan: "pro",
+		})
+	})
+
+	it("should parse name=value pairs and map enum names to values", () => {
+		expect(parseMcpElicitationAnswer('name="Ada Lovelace" subscribe=yes plan=Free', schema)).toEqual({
+			name: "Ada Lovelace",
+			subscribe: true,
+			plan: "free",
+		})
+	})
+
+	it("should use the whole answer for a schema with a single field", () => {
+		const single: McpElicitationRequest["requestedSchema"] = {
+			type: "object",
+			properties: { reason: { type: "string" } },
+		}
+
+		expect(parseMcpElicitationAnswer(" it is late ", single)).toEqual({ reason: "it is late" })
+	})
+
+	it("should reject missing required fields and invalid values", () => {
+		expect(() => parseMcpElicitationAnswer("age=3", schema)).toThrow('"name" is required')
+		expect(() => parseMcpElicitationAnswer("name=Ada age=1.5", schema)).toThrow('"age" must be an integer')
+		expect(() => parseMcpElicitationAnswer("name=Ada plan=team", schema)).toThrow(
+			'"plan" must be one of: free, pro',
+		)
+	})
+})
+
+describe("ElicitationService", () => {
+	const params = { message: "Who are you?", requestedSchema: schema } as ElicitRequest["params"]
+
+	it("should cancel without an active task", async () => {
+		expect(await createService().elicit("docs", params)).toEqual({ action: "cancel" })
+	})
+
+	it("should accept the answer and record it on the ask", async () => {
+		const task = createTask([{ response: "messageResponse", text: '{"name":"Ada"}' }])
+
+		const result = await createService(task).elicit("docs", params)
+
+		expect(result).toEqual({ action: "accept", content: { name: "Ada" } })
+		expect(task.ask).toHaveBeenCalledWith(
+			"mcp_elicitation",
+			JSON.stringify({ serverName: "docs", message: "Who are you?", requestedSchema: schema }),
+		)
+		expect(JSON.parse(task.updateClineMessageText_kilocode.mock.calls[0][1]).response).toEqual(result)
+	})
+
+	it("should report invalid answers and ask again", async () => {
+		const task = createTask([
+			{ response: "messageResponse", text: "age=3" },
+			{ response: "messageResponse", text: "name=Ada" },
+		])
+
+		const result = await createService(task).elicit("docs", params)
+
+		expect(task.say).toHaveBeenCalledWith("error", '"name" is required')
+		expect(task.ask).toHaveBeenCalledTimes(2)
+		expect(result).toEqual({ action: "accept", content: { name: "Ada" } })
+	})
+
+	it("should reject when the user declines", async () => {
+		const declined = createTask([{ response: "noButtonClicked" }])
+		const typedDecline = createTask([{ response: "messageResponse", text: " Decline " }])
+
+		expect(await createService(declined).elicit("docs", params)).toEqual({ action: "reject" })
+		expect(await createService(typedDecline).elicit("docs", params)).toEqual({ action: "reject" })
+	})
+
+	it("should cancel while the task waits for the answer to another ask", async () => {
+		const task = createTask([{ response: "messageResponse", text: "name=Ada" }])
+		task.isAskPending = true
+
+		expect(await createService(task).elicit("docs", params)).toEqual({ action: "cancel" })
+		expect(task.ask).not.toHaveBeenCalled()
+	})
+
+	it("should cancel when the task is aborted while asking", async () => {
+		const task = createTask([])
+		task.ask.mockRejectedValue(new Error("aborted"))
+		vi.spyOn(console, "error").mockImplementation(() => {})
+
+		expect(await createService(task).elicit("docs", params)).toEqual({ action: "cancel" })
+	})
+})
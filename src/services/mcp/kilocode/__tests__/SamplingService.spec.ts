@@ -0,0 +1,139 @@
+// npx vitest run services/mcp/kilocode/__tests__/SamplingService.spec.ts
+
+import { McpError } from "@modelcontextprotocol/sdk/types.js"
+
+import { buildApiHandler } from "../../../../api"
+import type { ClineProvider } from "../../../../core/webview/ClineProvider"
+import { SamplingService, describeSamplingRequest, toAnthropicMessage } from "../SamplingService"
+
+vi.mock("../../../../api", () => ({
+	buildApiHandler: vi.fn(),
+}))
+
+const params = {
+	systemPrompt: "You are a summarizer",
+	maxTokens: 100,
+	messages: [{ role: "user" as const, content: { type: "text" as const, text: "Summarize this" } }],
+}
+
+function createTask(response: string) {
+	const task = {
+		taskId: "task-1",
+		apiConfiguration: { apiProvider: "anthropic" },
+		clineMessages: [] as any[],
+		isAskPending: false,
+		getTaskMode: vi.fn().mockResolvedValue("code"),
+		ask: vi.fn().mockImplementation(async (ask: string, text: string) => {
+			task.clineMessages.push({ type: "ask", ask, text, ts: 1000 })
+			return { response }
+		}),
+		updateClineMessageText_kilocode: vi.fn(),
+	}
+	return task
+}
+
+function createService(task?: ReturnType<typeof createTask>) {
+	const provider = { getCurrentTask: () => task } as unknown as ClineProvider
+	return new SamplingService(() => provider)
+}
+
+describe("SamplingService", () => {
+	beforeEach(() => {
+		vi.mocked(buildApiHandler).mockReturnValue({
+			getModel: () => ({ id: "claude-test", info: { inputPrice: 3, outputPrice: 15 } }),
+			createMessage: async function* () {
+				yield { type: "text", text: "A short " }
+				yield { type: "text", text: "summary" }
+				yield { type: "usage", inputTokens: 20, outputTokens: 5, totalCost: 0.002 }
+			},
+		} as any)
+	})
+
+	it("should reject requests without an active task", async () => {
+		await expect(createService().createMessage("docs", params)).rejects.toThrow(McpError)
+	})
+
+	it("should reject requests while the task waits for an answer", async () => {
+		const task = createTask("yesButtonClicked")
+		task.isAskPending = true
+
+		await expect(createService(task).createMessage("docs", params)).rejects.toThrow(
+			"Sampling requests are rejected while the task waits for an answer",
+		)
+		expect(task.ask).not.toHaveBeenCalled()
+	})
+
+	it("should reject requests the user did not approve", async () => {
+		const task = createTask("noButtonClicked")
+
+		await expect(createService(task).createMessage("docs", params)).rejects.toThrow(
+			"The user rejected the sampling request",
+		)
+		expect(buildApiHandler).not.toHaveBeenCalled()
+	})
+
+	it("should sample with the task profile and record the usage on the approval message", async () => {
+		const task = createTask("yesButtonClicked")
+
+		const result = await createService(task).createMessage("docs", params)
+
+		expect(task.ask).toHaveBeenCalledWith(
+			"use_mcp_server",
+			JSON.stringify({ type: "sampling", serverName: "docs", arguments: describeSamplingRequest(params) }),
+		)
+		expect(buildApiHandler).toHaveBeenCalledWith({ ...task.apiConfiguration, modelMaxTokens: 100 })
+		expect(result).toEqual({
+			model: "claude-test",
+			role: "assistant",
+			content: { type: "text", text: "A short summary" },
+			stopReason: "endTurn",
+		})
+
+		const [ts, text] = task.updateClineMessageText_kilocode.mock.calls[0]
+		expect(ts).toBe(1000)
+		expect(JSON.parse(text)).toMatchObject({
+			type: "sampling",
+			response: "A short summary",
+			model: "claude-test",
+			tokensIn: 20,
+			tokensOut: 5,
+			cost: 0.002,
+		})
+	})
+
+	it("should stop the response at the maxTokens of the request", async () => {
+		const task = createTask("yesButtonClicked")
+		const streamed: string[] = []
+		vi.mocked(buildApiHandler).mockReturnValue({
+			getModel: () => ({ id: "claude-test", info: { inputPrice: 3, outputPrice: 15 } }),
+			createMessage: async function* () {
+				for (let i = 0; i < 1000; i++) {
+					streamed.push("word")
+					yield { type: "text", text: "word " }
+				}
+				yield { type: "usage", inputTokens: 20, outputTokens: 1000, totalCost: 1 }
+			},
+		} as any)
+
+		const result = await createService(task).createMessage("docs", { ...params, maxTokens: 10 })
+
+		expect(result.stopReason).toBe("maxTokens")
+		expect(streamed.length).toBeLessThan(20)
+
+		const [, text] = task.updateClineMessageText_kilocode.mock.calls[0]
+		const { tokensIn, tokensOut, cost } = JSON.parse(text)
+		expect(tokensIn).toBeGreaterThan(0)
+		expect(tokensOut).toBeGreaterThanOrEqual(10)
+		expect(cost).toBeLessThan(1)
+		expect(cost).toBeGreaterThan(0)
+	})
+
+	it("should convert image content to base64 image blocks", () => {
+		expect(
+			toAnthropicMessage({ role: "user", content: { type: "image", data: "abc", mimeType: "image/png" } }),
+		).toEqual({
+			role: "user",
+			content: [{ type: "image", source: { type: "base64", media_type: "image/png", data: "abc" } }],
+		})
+	})
+})
@@ -0,0 +1,295 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+import type { ClineMessage, HistoryItem } from "@roo-code/types"
+
+import type { ApiMessage } from "../../core/task-persistence/apiMessages"
+import { GlobalFileNames } from "../../shared/globalFileNames"
+import { safeWriteJson } from "../../utils/safeWriteJson"
+import { getCacheDirectoryPath, getStorageBasePath } from "../../utils/storage"
+
+const INDEX_VERSION = 1
+const MAX_ENTRY_LENGTH = 4000
+const SNIPPET_CONTEXT_BEFORE = 40
+const SNIPPET_CONTEXT_AFTER = 120
+
+/** The ui messages worth searching, the others are status updates and tool payloads */
+const INDEXED_SAY_TYPES = new Set([
+	"text",
+	"reasoning",
+	"user_feedback",
+	"completion_result",
+	"error",
+	"command_output",
+])
+const INDEXED_ASK_TYPES = new Set(["followup", "command", "command_output", "completion_result"])
+
+interface IndexedEntry {
+	/** Timestamp of the message, used to jump to it when the task is opened */
+	ts: number
+	text: string
+	source: "ui" | "api"
+}
+
+interface IndexedTask {
+	uiMtime: number
+	apiMtime: number
+	entries: IndexedEntry[]
+}
+
+interface IndexFile {
+	version: number
+	tasks: Record<string, IndexedTask>
+}
+
+export interface TaskSearchMatch {
+	ts: number
+	snippet: string
+	/** Character positions of the query terms in the snippet */
+	positions: number[]
+}
+
+function tokenize(text: string): string[] {
+	return text.toLowerCase().match(/[\p{L}\p{N}_]{2,}/gu) ?? []
+}
+
+function getApiMessageText(message: ApiMessage): string {
+	if (typeof message.content === "string") {
+		return message.content
+	}
+	return message.content
+		.map((block) => (block.type === "text" ? block.text : ""))
+		.filter(Boolean)
+		.join("\n")
+}
+
+/**
+ * Incremental full-text index over the saved conversations of the tasks. A task is
+ * re-read when its `ui_messages.json` or `api_conversation_history.json` changed since
+ * it was indexed, the index itself is kept in the cache directory between sessions.
+ */
+export class TaskSearchIndex {
+	private static instances = new Map<string, TaskSearchIndex>()
+
+	private tasks: Record<string, IndexedTask> | undefined
+	private tokens = new Map<string, Set<string>>()
+	private pending: Promise<unknown> = Promise.resolve()
+
+	constructor(private readonly globalStoragePath: string) {}
+
+	static getInstance(globalStoragePath: string): TaskSearchIndex {
+		let instance = TaskSearchIndex.instances.get(globalStoragePath)
+		if (!instance) {
+			instance = new TaskSearchIndex(globalStoragePath)
+			TaskSearchIndex.instances.set(globalStoragePath, instance)
+		}
+		return instance
+	}
+
+	/**
+	 * Search the conversations of the given tasks. Every term of the query has to appear
+	 * in the task, the returned match is the message containing most of them.
+	 */
+	async search(query: string, taskHistory: HistoryItem[]): Promise<Map<string, TaskSearchMatch>> {
+		const terms = [...new Set(tokenize(query))]
+		const matches = new Map<string, TaskSearchMatch>()
+		if (terms.length === 0) {
+			return matches
+		}
+
+		// Serialize the refreshes, the searches are sent while typing
+		const refresh = this.pending.then(() => this.refresh(taskHistory))
+		this.pending = refresh.catch(() => {})
+		await refresh
+
+		for (const taskId of this.findTaskIds(terms)) {
+			const match = this.findBestMatch(this.tasks![taskId].entries, terms)
+			if (match) {
+				matches.set(taskId, match)
+			}
+		}
+		return matches
+	}
+
+	private findTaskIds(terms: string[]): string[] {
+		let taskIds: Set<string> | undefined
+		for (const term of terms) {
+			const termTaskIds = new Set<string>()
+			for (const [token, tokenTaskIds] of this.tokens) {
+				if (token.startsWith(term)) {
+					tokenTaskIds.forEach((taskId) => termTaskIds.add(taskId))
+				}
+			}
+			taskIds = taskIds ? new Set([...taskIds].filter((taskId) => termTaskIds.has(taskId))) : termTaskIds
+		}
+		return [...(taskIds ?? [])]
+	}
+
+	private findBestMatch(entries: IndexedEntry[], terms: string[]): TaskSearchMatch | undefined {
+		let best: { entry: IndexedEntry; score: number } | undefined
+		for (const entry of entries) {
+			const lowerText = entry.text.toLowerCase()
+			const score = terms.filter((term) => lowerText.includes(term)).length
+			const isBetter =
+				!best ||
+				score > best.score ||
+				(score === best.score && entry.source === "ui" && best.entry.source === "api")
+			if (score > 0 && isBetter) {
+				best = { entry, score }
+			}
+		}
+		return best && { ts: best.entry.ts, ...createSnippet(best.entry.text, terms) }
+	}
+
+	private async refresh(taskHistory: HistoryItem[]): Promise<void> {
+		const tasks = await this.load()
+		const tasksDir = path.join(await getStorageBasePath(this.globalStoragePath), "tasks")
+		const taskIds = new Set(taskHistory.map((item) => item.id))
+		let changed = false
+
+		for (const taskId of Object.keys(tasks)) {
+			if (!taskIds.has(taskId)) {
+				this.removeTask(taskId)
+				changed = true
+			}
+		}
+
+		for (const taskId of taskIds) {
+			const uiMessagesPath = path.join(tasksDir, taskId, GlobalFileNames.uiMessages)
+			const apiMessagesPath = path.join(tasksDir, taskId, GlobalFileNames.apiConversationHistory)
+			const uiMtime = (await fs.stat(uiMessagesPath).catch(() => undefined))?.mtimeMs ?? 0
+			const apiMtime = (await fs.stat(apiMessagesPath).catch(() => undefined))?.mtimeMs ?? 0
+
+			const indexed = tasks[taskId]
+			if (indexed && indexed.uiMtime === uiMtime && indexed.apiMtime === apiMtime) {
+				continue
+			}
+
+			try {
+				const uiMessages: ClineMessage[] = uiMtime ? JSON.parse(await fs.readFile(uiMessagesPath, "utf8")) : []
+				const apiMessages: ApiMessage[] = apiMtime ? JSON.parse(await fs.readFile(apiMessagesPath, "utf8")) : []
+				this.removeTask(taskId)
+				this.addTask(taskId, { uiMtime, apiMtime, entries: createEntries(uiMessages, apiMessages) })
+				changed = true
+			} catch (error) {
+				console.error(`[TaskSearchIndex] Failed to index task ${taskId}:`, error)
+			}
+		}
+
+		if (changed) {
+			await this.save()
+		}
+	}
+
+	private async load(): Promise<Record<string, IndexedTask>> {
+		if (this.tasks) {
+			return this.tasks
+		}
+
+		this.tasks = {}
+		try {
+			const indexFile: IndexFile = JSON.parse(await fs.readFile(await this.getIndexFilePath(), "utf8"))
+			if (indexFile.version === INDEX_VERSION) {
+				Object.entries(indexFile.tasks).forEach(([taskId, task]) => this.addTask(taskId, task))
+			}
+		} catch {
+			// Missing or unreadable, the tasks are indexed again
+		}
+		return this.tasks
+	}
+
+	private async save(): Promise<void> {
+		try {
+			const indexFile: IndexFile = { version: INDEX_VERSION, tasks: this.tasks ?? {} }
+			await safeWriteJson(await this.getIndexFilePath(), indexFile)
+		} catch (error) {
+			console.error("[TaskSearchIndex] Failed to save the index:", error)
+		}
+	}
+
+	private async getIndexFilePath(): Promise<string> {
+		return path.join(await getCacheDirectoryPath(this.globalStoragePath), GlobalFileNames.taskSearchIndex)
+	}
+
+	private addTask(taskId: string, task: IndexedTask) {
+		this.tasks![taskId] = task
+		for (const entry of task.entries) {
+			for (const token of tokenize(entry.text)) {
+				let taskIds = this.tokens.get(token)
+				if (!taskIds) {
+					taskIds = new Set()
+					this.tokens.set(token, taskIds)
+				}
+				taskIds.add(taskId)
+			}
+		}
+	}
+
+	private removeTask(taskId: string) {
+		const task = this.tasks![taskId]
+		if (!task) {
+			return
+		}
+		delete this.tasks![taskId]
+		for (const entry of task.entries) {
+			for (const token of tokenize(entry.text)) {
+				const taskIds = this.tokens.get(token)
+				taskIds?.delete(taskId)
+				if (taskIds?.size === 0) {
+					this.tokens.delete(token)
+				}
+			}
+		}
+	}
+}
+
+function createEntries(uiMessages: ClineMessage[], apiMessages: ApiMessage[]): IndexedEntry[] {
+	const entries: IndexedEntry[] = []
+	const texts = new Set<string>()
+	const addEntry = (ts: number | undefined, text: string | undefined, source: IndexedEntry["source"]) => {
+		const trimmed = text?.trim().slice(0, MAX_ENTRY_LENGTH)
+		if (ts && trimmed && !texts.has(trimmed)) {
+			texts.add(trimmed)
+			entries.push({ ts, text: trimmed, source })
+		}
+	}
+
+	for (const message of uiMessages) {
+		const isIndexed =
+			message.type === "say" ? INDEXED_SAY_TYPES.has(message.say!) : INDEXED_ASK_TYPES.has(message.ask!)
+		if (isIndexed) {
+			addEntry(message.ts, message.text, "ui")
+		}
+	}
+	for (const message of apiMessages) {
+		addEntry(message.ts, getApiMessageText(message), "api")
+	}
+	return entries
+}
+
+/**
+ * Cut the text around the first matching term, with the whitespace collapsed so the
+ * snippet fits on a line, and find the positions of the terms to highlight
+ */
+function createSnippet(text: string, terms: string[]): Omit<TaskSearchMatch, "ts"> {
+	const lowerText = text.toLowerCase()
+	const firstIndex = Math.min(...terms.map((term) => lowerText.indexOf(term)).filter((index) => index !== -1))
+	const start = Math.max(0, firstIndex - SNIPPET_CONTEXT_BEFORE)
+	const end = Math.min(text.length, firstIndex + SNIPPET_CONTEXT_AFTER)
+
+	const snippet = [
+		start > 0 ? "…" : "",
+		text.slice(start, end).replace(/\s+/g, " ").trim(),
+		end < text.length ? "…" : "",
+	].join("")
+
+	const lowerSnippet = snippet.toLowerCase()
+	const positions = new Set<number>()
+	for (const term of terms) {
+		for (let index = lowerSnippet.indexOf(term); index !== -1; index = lowerSnippet.indexOf(term, index + 1)) {
+			for (let offset = 0; offset < term.length; offset++) {
+				positions.add(index + offset)
+			}
+		}
+	}
+	return { snippet, positions: [...positions] }
+}
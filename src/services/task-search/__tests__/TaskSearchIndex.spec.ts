@@ -0,0 +1,107 @@
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+import type { ClineMessage, HistoryItem } from "@roo-code/types"
+
+import { TaskSearchIndex } from "../TaskSearchIndex"
+
+describe("TaskSearchIndex", () => {
+	let globalStoragePath: string
+
+	const createHistoryItem = (id: string): HistoryItem => ({
+		id,
+		number: 1,
+		ts: 1,
+		task: `Task ${id}`,
+		tokensIn: 0,
+		tokensOut: 0,
+		totalCost: 0,
+	})
+
+	const writeTask = async (taskId: string, uiMessages: Partial<ClineMessage>[], apiMessages: unknown[] = []) => {
+		const taskDir = path.join(globalStoragePath, "tasks", taskId)
+		await fs.mkdir(taskDir, { recursive: true })
+		await fs.writeFile(path.join(taskDir, "ui_messages.json"), JSON.stringify(uiMessages))
+		await fs.writeFile(path.join(taskDir, "api_conversation_history.json"), JSON.stringify(apiMessages))
+	}
+
+	beforeEach(async () => {
+		globalStoragePath = await fs.mkdtemp(path.join(os.tmpdir(), "task-search-"))
+	})
+
+	afterEach(async () => {
+		await fs.rm(globalStoragePath, { recursive: true, force: true })
+	})
+
+	it("should find the message containing all the terms and highlight them", async () => {
+		await writeTask("task-1", [
+			{ ts: 100, type: "say", say: "text", text: "Let me look at the login form" },
+			{
+				ts: 200,
+				type: "say",
+				say: "text",
+				text: "The OAuth refresh token expired, so the refresh bug is in auth.ts",
+			},
+		])
+		await writeTask("task-2", [{ ts: 300, type: "say", say: "text", text: "Fixed the OAuth scopes" }])
+
+		const matches = await new TaskSearchIndex(globalStoragePath).search("oauth refr", [
+			createHistoryItem("task-1"),
+			createHistoryItem("task-2"),
+		])
+
+		expect([...matches.keys()]).toEqual(["task-1"])
+		const match = matches.get("task-1")!
+		expect(match.ts).toBe(200)
+		expect(match.snippet).toBe("The OAuth refresh token expired, so the refresh bug is in auth.ts")
+		expect(match.positions.map((index) => match.snippet[index]).join("")).toBe("OAuthrefrrefr")
+	})
+
+	it("should search the api conversation history and skip the status messages", async () => {
+		await writeTask(
+			"task-1",
+			[{ ts: 100, type: "say", say: "api_req_started", text: '{"request":"kubernetes"}' }],
+			[{ ts: 150, role: "assistant", content: [{ type: "text", text: "The kubernetes manifest is invalid" }] }],
+		)
+
+		const index = new TaskSearchIndex(globalStoragePath)
+
+		expect((await index.search("kubernetes", [createHistoryItem("task-1")])).get("task-1")).toEqual(
+			expect.objectContaining({ ts: 150, snippet: "The kubernetes manifest is invalid" }),
+		)
+		expect((await index.search("request", [createHistoryItem("task-1")])).size).toBe(0)
+	})
+
+	it("should reindex the changed tasks and drop the deleted ones", async () => {
+		await writeTask("task-1", [{ ts: 100, type: "say", say: "text", text: "first version" }])
+		const index = new TaskSearchIndex(globalStoragePath)
+		expect((await index.search("first", [createHistoryItem("task-1")])).size).toBe(1)
+
+		await writeTask("task-1", [{ ts: 100, type: "say", say: "text", text: "second version" }])
+		const uiMessagesPath = path.join(globalStoragePath, "tasks", "task-1", "ui_messages.json")
+		await fs.utimes(uiMessagesPath, new Date(), new Date(Date.now() + 1000))
+
+		expect((await index.search("first", [createHistoryItem("task-1")])).size).toBe(0)
+		expect((await index.search("second", [createHistoryItem("task-1")])).size).toBe(1)
+		expect((await index.search("second", [])).size).toBe(0)
+	})
+
+	it("should load the saved index without reading the unchanged tasks again", async () => {
+		const uiMessagesPath = path.join(globalStoragePath, "tasks", "task-1", "ui_messages.json")
+		const mtime = new Date(2025, 0, 1)
+		await writeTask("task-1", [{ ts: 100, type: "say", say: "text", text: "persisted message" }])
+		await fs.utimes(uiMessagesPath, mtime, mtime)
+		await new TaskSearchIndex(globalStoragePath).search("persisted", [createHistoryItem("task-1")])
+
+		// Same modification time, a reread would lose the indexed message
+		await fs.writeFile(uiMessagesPath, "[]")
+		await fs.utimes(uiMessagesPath, mtime, mtime)
+
+		const matches = await new TaskSearchIndex(globalStoragePath).search("persisted", [createHistoryItem("task-1")])
+
+		expect(matches.get("task-1")?.ts).toBe(100)
+		await expect(
+			fs.access(path.join(globalStoragePath, "cache", "task_search_index.json")),
+		).resolves.toBeUndefined()
+	})
+})
@@ -0,0 +1,2 @@
+export { TaskSearchIndex } from "./TaskSearchIndex"
+export type { TaskSearchMatch } from "./TaskSearchIndex"
@@ -0,0 +1,114 @@
+// kilocode_change - new file
+import * as fs from "fs/promises"
+import * as path from "path"
+import type { Node } from "web-tree-sitter"
+
+import { listFiles } from "../glob/list-files"
+import { RooIgnoreController } from "../../core/ignore/RooIgnoreController"
+import { loadRequiredLanguageParsers } from "./languageParser"
+import { extensions } from "."
+
+const MAX_SYMBOL_SEARCH_FILES = 2000
+const MAX_SYMBOL_DEFINITIONS = 5
+const MAX_SYMBOL_DEFINITION_LINES = 200
+
+export interface SymbolDefinition {
+	/** Path relative to the workspace */
+	filePath: string
+	/** 1-based line range of the definition */
+	startLine: number
+	endLine: number
+	source: string
+}
+
+function isInsideContainer(node: Node, container: string): boolean {
+	for (let parent = node.parent; parent; parent = parent.parent) {
+		if (parent.childForFieldName("name")?.text === container) {
+			return true
+		}
+	}
+	return false
+}
+
+/**
+ * Find the definitions of a symbol in the workspace with the tree-sitter definition queries.
+ * The symbol can be qualified with its container, e.g. `ClassName.methodName`.
+ */
+export async function findSymbolDefinitions(
+	symbol: string,
+	cwd: string,
+	rooIgnoreController?: RooIgnoreController,
+): Promise<SymbolDefinition[]> {
+	const segments = symbol.split(".")
+	const name = segments.pop()
+	const container = segments.pop()
+	if (!name) {
+		return []
+	}
+
+	const [allFiles] = await listFiles(cwd, true, MAX_SYMBOL_SEARCH_FILES)
+	const sourceFiles = allFiles.filter((file) => {
+		const ext = path.extname(file).toLowerCase()
+		return extensions.includes(ext) && ext !== ".md" && ext !== ".markdown"
+	})
+	const allowedFiles = rooIgnoreController ? rooIgnoreController.filterPaths(sourceFiles) : sourceFiles
+
+	// Only parse the files mentioning the symbol
+	const candidates: { filePath: string; content: string }[] = []
+	for (const filePath of allowedFiles) {
+		const content = await fs.readFile(filePath, "utf8").catch(() => undefined)
+		if (content?.includes(name)) {
+			candidates.push({ filePath, content })
+		}
+	}
+	if (candidates.length === 0) {
+		return []
+	}
+
+	const languageParsers = await loadRequiredLanguageParsers(candidates.map(({ filePath }) => filePath))
+	const definitions: SymbolDefinition[] = []
+
+	for (const { filePath, content } of candidates) {
+		const { parser, query } = languageParsers[path.extname(filePath).toLowerCase().slice(1)] || {}
+		const tree = parser?.parse(content)
+		if (!tree || !query) {
+			continue
+		}
+
+		const lines = content.split("\n")
+		const seen = new Set<number>()
+		for (const { name: captureName, node } of query.captures(tree.rootNode)) {
+			if (!captureName.startsWith("name.definition") || node.text !== name) {
+				continue
+			}
+
+			const definitionNode = node.parent
+			if (!definitionNode || seen.has(definitionNode.startIndex)) {
+				continue
+			}
+			if (container && !isInsideContainer(definitionNode, container)) {
+				continue
+			}
+			seen.add(definitionNode.startIndex)
+
+			const startRow = definitionNode.startPosition.row
+			const endRow = Math.min(definitionNode.endPosition.row, startRow + MAX_SYMBOL_DEFINITION_LINES - 1)
+			let source = lines.slice(startRow, endRow + 1).join("\n")
+			if (endRow < definitionNode.endPosition.row) {
+				source += `\n... (${definitionNode.endPosition.row - endRow} more lines)`
+			}
+
+			definitions.push({
+				filePath: path.relative(cwd, filePath).toPosix(),
+				startLine: startRow + 1,
+				endLine: definitionNode.endPosition.row + 1,
+				source,
+			})
+			if (definitions.length >= MAX_SYMBOL_DEFINITIONS) {
+				return definitions
+			}
+		}
+	}
+
+	return definitions
+}
@@ -15,6 +15,9 @@ import type {
 	OrganizationAllowList,
 	ShareVisibility,
 	QueuedMessage,
+	BackgroundJob, // kilocode_change
+	CostBudgetStatus, // kilocode_change
+	ProviderRouterTrace, // kilocode_change
 } from "@roo-code/types"
 
 import { GitCommit } from "../utils/git"
@@ -29,6 +32,8 @@ import {
 	BalanceDataResponsePayload,
 	TaskHistoryResponsePayload,
 	TasksByIdResponsePayload,
+	CheckpointTimelineResponsePayload,
+	CheckpointTimelineDiffResponsePayload,
 } from "./WebviewMessage"
 import { ClineRulesToggles } from "./cline-rules"
 import { KiloCodeWrapperProperties } from "./kilocode/wrapper"
@@ -37,7 +42,7 @@ import { KiloCodeWrapperProperties } from "./kilocode/wrapper"
 // Command interface for frontend/backend communication
 export interface Command {
 	name: string
-	source: "global" | "project" | "built-in"
+	source: "global" | "project" | "built-in" | "mcp" // kilocode_change
 	filePath?: string
 	description?: string
 	argumentHint?: string
@@ -143,6 +148,10 @@ export interface ExtensionMessage {
 		| "mermaidFixResponse" // kilocode_change
 		| "tasksByIdResponse" // kilocode_change
 		| "taskHistoryResponse" // kilocode_change
+		| "scrollToMessage" // kilocode_change
+		| "taskBundleResult" // kilocode_change
+		| "checkpointTimelineResponse" // kilocode_change
+		| "checkpointTimelineDiffResponse" // kilocode_change
 		| "shareTaskSuccess"
 		| "codeIndexSettingsSaved"
 		| "codeIndexSecretStatus"
@@ -169,6 +178,8 @@ export interface ExtensionMessage {
 		| BalanceDataResponsePayload
 		| TasksByIdResponsePayload
 		| TaskHistoryResponsePayload
+		| CheckpointTimelineResponsePayload
+		| CheckpointTimelineDiffResponsePayload
 	// kilocode_change end
 	action?:
 		| "chatButtonClicked"
@@ -308,6 +319,8 @@ export type ExtensionState = Pick<
 	| "deniedCommands"
 	| "allowedMaxRequests"
 	| "allowedMaxCost"
+	| "taskCostBudget" // kilocode_change
+	| "workspaceDailyCostBudget" // kilocode_change
 	| "browserToolEnabled"
 	| "browserViewportSize"
 	| "showAutoApproveMenu" // kilocode_change
@@ -338,6 +351,8 @@ export type ExtensionState = Pick<
 	| "terminalZshP10k"
 	| "terminalZdotdir"
 	| "terminalCompressProgressBar"
+	| "terminalSandboxModes" // kilocode_change
+	| "terminalSandboxNetworkEnabled" // kilocode_change
 	| "diagnosticsEnabled"
 	| "diffEnabled"
 	| "fuzzyMatchThreshold"
@@ -367,9 +382,12 @@ export type ExtensionState = Pick<
 	| "autoPurgeFavoritedTaskRetentionDays" // kilocode_change
 	| "autoPurgeCompletedTaskRetentionDays" // kilocode_change
 	| "autoPurgeIncompleteTaskRetentionDays" // kilocode_change
+	| "autoPurgeStorageQuotaMb" // kilocode_change
+	| "autoPurgeMaxCheckpointSizeMb" // kilocode_change
 	| "autoPurgeLastRunTimestamp" // kilocode_change
 	| "condensingApiConfigId"
 	| "customCondensingPrompt"
+	| "condensingStrategy" // kilocode_change
 	| "codebaseIndexConfig"
 	| "codebaseIndexModels"
 	| "profileThresholds"
@@ -384,6 +402,8 @@ export type ExtensionState = Pick<
 	clineMessages: ClineMessage[]
 	currentTaskItem?: HistoryItem
 	currentTaskTodos?: TodoItem[] // Initial todos for the current task
+	backgroundJobs?: BackgroundJob[] // kilocode_change
+	costBudget?: CostBudgetStatus // kilocode_change: spending of the current task against the cost budgets
 	apiConfiguration: ProviderSettings
 	uriScheme?: string
 	uiKind?: string // kilocode_change
@@ -479,6 +499,7 @@ export interface ClineSayTool {
 		| "generateImage"
 		| "imageGenerated"
 		| "runSlashCommand"
+		| "killBackgroundJob" // kilocode_change
 	path?: string
 	diff?: string
 	content?: string
@@ -529,6 +550,7 @@ export interface ClineSayTool {
 	args?: string
 	source?: string
 	description?: string
+	jobId?: number // kilocode_change: killBackgroundJob tool
 }
 
 // Must keep in sync with system prompt.
@@ -541,6 +563,15 @@ export const browserActions = [
 	"scroll_up",
 	"resize",
 	"close",
+	// kilocode_change start
+	"snapshot",
+	"fill",
+	"select",
+	"press",
+	"wait_for",
+	"evaluate",
+	"network_log",
+	// kilocode_change end
 ] as const
 
 export type BrowserAction = (typeof browserActions)[number]
@@ -550,6 +581,11 @@ export interface ClineSayBrowserAction {
 	coordinate?: string
 	size?: string
 	text?: string
+	// kilocode_change start
+	selector?: string
+	url?: string
+	status?: string
+	// kilocode_change end
 }
 
 export type BrowserActionResult = {
@@ -557,15 +593,28 @@ export type BrowserActionResult = {
 	logs?: string
 	currentUrl?: string
 	currentMousePosition?: string
+	// kilocode_change start
+	snapshot?: string // Text snapshot of the accessibility tree of the page, with element refs
+	evaluationResult?: string
+	networkLog?: string // Requests and page errors recorded during the session
+	// kilocode_change end
 }
 
 export interface ClineAskUseMcpServer {
 	serverName: string
-	type: "use_mcp_tool" | "access_mcp_resource"
+	type: "use_mcp_tool" | "access_mcp_resource" | "sampling" // kilocode_change
 	toolName?: string
 	arguments?: string
 	uri?: string
 	response?: string
+	// kilocode_change start: usage of a sampling request, filled in once it completes
+	model?: string
+	tokensIn?: number
+	tokensOut?: number
+	cacheWrites?: number
+	cacheReads?: number
+	cost?: number
+	// kilocode_change end
 }
 
 export interface ClineApiReqInfo {
@@ -578,6 +627,7 @@ export interface ClineApiReqInfo {
 	// kilocode_change
 	usageMissing?: boolean
 	inferenceProvider?: string
+	routing?: ProviderRouterTrace
 	// kilocode_change end
 	cancelReason?: ClineApiReqCancelReason
 	streamingFailedMessage?: string
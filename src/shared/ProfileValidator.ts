@@ -102,6 +102,7 @@ export class ProfileValidator {
 			// kilocode_change end
 			case "human-relay":
 			case "fake-ai":
+			case "replay": // kilocode_change
 			default:
 				return undefined
 		}
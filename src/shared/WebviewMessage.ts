@@ -80,6 +80,8 @@ export interface WebviewMessage {
 		| "showTaskWithId"
 		| "deleteTaskWithId"
 		| "exportTaskWithId"
+		| "exportTaskBundle" // kilocode_change
+		| "importTaskBundle" // kilocode_change
 		| "importSettings"
 		| "toggleToolAutoApprove"
 		| "openExtensionSettings"
@@ -108,12 +110,15 @@ export interface WebviewMessage {
 		| "alwaysAllowModeSwitch"
 		| "allowedMaxRequests"
 		| "allowedMaxCost"
+		| "taskCostBudget" // kilocode_change
+		| "workspaceDailyCostBudget" // kilocode_change
 		| "alwaysAllowSubtasks"
 		| "alwaysAllowUpdateTodoList"
 		| "autoCondenseContext"
 		| "autoCondenseContextPercent"
 		| "condensingApiConfigId"
 		| "updateCondensingPrompt"
+		| "condensingStrategy" // kilocode_change
 		| "playSound"
 		| "playTts"
 		| "stopTts"
@@ -132,6 +137,7 @@ export interface WebviewMessage {
 		| "restartMcpServer"
 		| "refreshAllMcpServers"
 		| "toggleToolAlwaysAllow"
+		| "toggleMcpServerSamplingAlwaysAllow" // kilocode_change
 		| "toggleToolEnabledForPrompt"
 		| "toggleMcpServer"
 		| "updateMcpTimeout"
@@ -158,6 +164,8 @@ export interface WebviewMessage {
 		| "terminalZshP10k"
 		| "terminalZdotdir"
 		| "terminalCompressProgressBar"
+		| "terminalSandboxModes" // kilocode_change
+		| "terminalSandboxNetworkEnabled" // kilocode_change
 		| "mcpEnabled"
 		| "enableMcpServerCreation"
 		| "remoteControlEnabled"
@@ -186,6 +194,10 @@ export interface WebviewMessage {
 		| "openCustomModesSettings"
 		| "checkpointDiff"
 		| "checkpointRestore"
+		| "checkpointFork" // kilocode_change
+		| "checkpointTimelineRequest" // kilocode_change
+		| "checkpointTimelineDiffRequest" // kilocode_change
+		| "checkpointRestorePartial" // kilocode_change
 		| "seeNewChanges" // kilocode_change
 		| "deleteMcpServer"
 		| "maxOpenTabsContext"
@@ -285,7 +297,10 @@ export interface WebviewMessage {
 		| "autoPurgeFavoritedTaskRetentionDays" // kilocode_change
 		| "autoPurgeCompletedTaskRetentionDays" // kilocode_change
 		| "autoPurgeIncompleteTaskRetentionDays" // kilocode_change
+		| "autoPurgeStorageQuotaMb" // kilocode_change
+		| "autoPurgeMaxCheckpointSizeMb" // kilocode_change
 		| "manualPurge" // kilocode_change
+		| "previewAutoPurge" // kilocode_change
 		| "shareTaskSuccess"
 		| "exportMode"
 		| "exportModeResult"
@@ -309,6 +324,7 @@ export interface WebviewMessage {
 		| "queueMessage"
 		| "removeQueuedMessage"
 		| "editQueuedMessage"
+		| "killBackgroundJob" // kilocode_change
 		| "dismissUpsell"
 		| "getDismissedUpsells"
 	text?: string
@@ -381,6 +397,7 @@ export interface WebviewMessage {
 		// Global state settings
 		codebaseIndexEnabled: boolean
 		codebaseIndexQdrantUrl: string
+		codebaseIndexVectorStoreProvider?: "qdrant" | "local" // kilocode_change
 		codebaseIndexEmbedderProvider:
 			| "openai"
 			| "ollama"
@@ -388,12 +405,14 @@ export interface WebviewMessage {
 			| "gemini"
 			| "mistral"
 			| "vercel-ai-gateway"
+			| "local" // kilocode_change
 		codebaseIndexEmbedderBaseUrl?: string
 		codebaseIndexEmbedderModelId: string
 		codebaseIndexEmbedderModelDimension?: number // Generic dimension for all providers
 		codebaseIndexOpenAiCompatibleBaseUrl?: string
 		codebaseIndexSearchMaxResults?: number
 		codebaseIndexSearchMinScore?: number
+		codebaseIndexSearchKeywordWeight?: number // kilocode_change
 
 		// Secret settings
 		codeIndexOpenAiKey?: string
@@ -466,9 +485,18 @@ export interface TasksByIdResponsePayload {
 	tasks: HistoryItem[]
 }
 
+/**
+ * Message of a task matching the search, the highlight is the snippet as html with the terms marked
+ */
+export interface TaskContentMatch {
+	ts: number
+	snippet: string
+	highlight: string
+}
+
 export interface TaskHistoryResponsePayload {
 	requestId: string
-	historyItems: HistoryItem[]
+	historyItems: (HistoryItem & { contentMatch?: TaskContentMatch })[]
 	pageIndex: number
 	pageCount: number
 }
@@ -491,6 +519,68 @@ export const checkoutRestorePayloadSchema = z.object({
 
 export type CheckpointRestorePayload = z.infer<typeof checkoutRestorePayloadSchema>
 
+// kilocode_change start
+export const checkpointForkPayloadSchema = z.object({
+	ts: z.number(),
+	commitHash: z.string(),
+})
+
+export type CheckpointForkPayload = z.infer<typeof checkpointForkPayloadSchema>
+
+export const checkpointRestorePartialPayloadSchema = z.object({
+	commitHash: z.string(),
+	nextCommitHash: z.string().optional(),
+	files: z
+		.array(
+			z.object({
+				path: z.string(),
+				hunkIndexes: z.array(z.number().int().nonnegative()).optional(),
+			}),
+		)
+		.min(1),
+})
+
+export type CheckpointRestorePartialPayload = z.infer<typeof checkpointRestorePartialPayloadSchema>
+
+export const checkpointTimelineDiffPayloadSchema = z.object({
+	commitHash: z.string(),
+	nextCommitHash: z.string().optional(),
+})
+
+export type CheckpointTimelineDiffPayload = z.infer<typeof checkpointTimelineDiffPayloadSchema>
+
+export interface CheckpointTimelineHunk {
+	oldStart: number
+	oldLines: number
+	newStart: number
+	newLines: number
+	lines: string[]
+}
+
+export interface CheckpointTimelineFile {
+	path: string
+	insertions: number
+	deletions: number
+	hunks: CheckpointTimelineHunk[]
+}
+
+export interface CheckpointTimelineEntry {
+	ts: number
+	commitHash: string
+	/** The checkpoint the changes are compared with, or undefined for the current workspace */
+	nextCommitHash?: string
+}
+
+export interface CheckpointTimelineResponsePayload {
+	entries: CheckpointTimelineEntry[]
+}
+
+export interface CheckpointTimelineDiffResponsePayload {
+	commitHash: string
+	files: CheckpointTimelineFile[]
+}
+// kilocode_change end
+
 export interface IndexingStatusPayload {
 	state: "Standby" | "Indexing" | "Indexed" | "Error"
 	message: string
@@ -520,6 +610,11 @@ export type WebViewMessagePayload =
 	// kilocode_change end
 	| CheckpointDiffPayload
 	| CheckpointRestorePayload
+	// kilocode_change start
+	| CheckpointForkPayload
+	| CheckpointRestorePartialPayload
+	| CheckpointTimelineDiffPayload
+	// kilocode_change end
 	| IndexingStatusPayload
 	| IndexClearedPayload
 	| InstallMarketplaceItemWithParametersPayload
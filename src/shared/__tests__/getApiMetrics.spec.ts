@@ -326,4 +326,39 @@ describe("getApiMetrics", () => {
 			console.error = originalConsoleError
 		})
 	})
+
+	// kilocode_change start
+	describe("MCP sampling", () => {
+		it("should include the usage of completed sampling requests without changing contextTokens", () => {
+			const messages: ClineMessage[] = [
+				createApiReqStartedMessage('{"tokensIn":10,"tokensOut":20,"cost":0.005}', 1000),
+				{
+					type: "ask",
+					ask: "use_mcp_server",
+					text: JSON.stringify({
+						type: "sampling",
+						serverName: "docs",
+						tokensIn: 100,
+						tokensOut: 50,
+						cost: 0.01,
+					}),
+					ts: 2000,
+				},
+				{
+					type: "ask",
+					ask: "use_mcp_server",
+					text: JSON.stringify({ type: "use_mcp_tool", serverName: "docs", tokensIn: 999 }),
+					ts: 3000,
+				},
+			]
+
+			const result = getApiMetrics(messages)
+
+			expect(result.totalTokensIn).toBe(110)
+			expect(result.totalTokensOut).toBe(70)
+			expect(result.totalCost).toBeCloseTo(0.015)
+			expect(result.contextTokens).toBe(30)
+		})
+	})
+	// kilocode_change end
 })
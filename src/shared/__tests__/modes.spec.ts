@@ -1,5 +1,7 @@
 // npx vitest run shared/__tests__/modes.spec.ts
 
+import * as path from "path" // kilocode_change
+
 import type { ModeConfig, PromptComponent } from "@roo-code/types"
 
 // Mock setup must come before imports
@@ -9,7 +11,15 @@ vi.mock("../../core/prompts/sections/custom-instructions", () => ({
 	addCustomInstructions: vi.fn().mockResolvedValue("Combined instructions"),
 }))
 
-import { isToolAllowedForMode, FileRestrictionError, getFullModeDetails, modes, getModeSelection } from "../modes"
+import {
+	isToolAllowedForMode,
+	FileRestrictionError,
+	getFullModeDetails,
+	modes,
+	getModeSelection,
+	isApprovalRequiredForMode, // kilocode_change
+} from "../modes"
+import { ToolPolicyError } from "../kilocode/toolPolicies" // kilocode_change
 import { addCustomInstructions } from "../../core/prompts/sections/custom-instructions"
 
 describe("isToolAllowedForMode", () => {
@@ -364,6 +374,124 @@ describe("isToolAllowedForMode", () => {
 
 		expect(isToolAllowedForMode("write_to_file", "markdown-editor", customModes, toolRequirements)).toBe(false)
 	})
+
+	// kilocode_change start
+	describe("tool policies", () => {
+		const policyModes: ModeConfig[] = [
+			{
+				slug: "restricted",
+				name: "Restricted",
+				roleDefinition: "You are restricted",
+				groups: [
+					["read", { deniedPaths: [".env*", "secrets/"] }],
+					["command", { allowedCommands: ["npm test", "git status"] }],
+					["mcp", { allowedMcpTools: ["docs", "github/get_issue"] }],
+				],
+				requireApproval: ["write_to_file"],
+			},
+		]
+
+		it("only allows the commands matching the patterns", () => {
+			expect(
+				isToolAllowedForMode("execute_command", "restricted", policyModes, undefined, {
+					command: "npm test -- --watch=false",
+				}),
+			).toBe(true)
+			expect(() =>
+				isToolAllowedForMode("execute_command", "restricted", policyModes, undefined, {
+					command: "npm test && rm -rf /",
+				}),
+			).toThrow("Tool 'execute_command' in mode 'Restricted' can only run commands starting with")
+		})
+
+		it("only allows the MCP servers and tools listed", () => {
+			const useTool = (server_name: string, tool_name: string) =>
+				isToolAllowedForMode("use_mcp_tool", "restricted", policyModes, undefined, { server_name, tool_name })
+
+			expect(useTool("docs", "search")).toBe(true)
+			expect(useTool("github", "get_issue")).toBe(true)
+			expect(() => useTool("github", "delete_repo")).toThrow(ToolPolicyError)
+		})
+
+		it("denies reading the paths matching the patterns", () => {
+			const cwd = path.resolve("/workspace")
+			const readFile = (toolParams: Record<string, string>) =>
+				isToolAllowedForMode(
+					"read_file",
+					"restricted",
+					policyModes,
+					undefined,
+					toolParams,
+					undefined,
+					false,
+					cwd,
+				)
+
+			expect(readFile({ path: "src/app.ts" })).toBe(true)
+			expect(() =>
+				readFile({ args: "<file><path>src/app.ts</path></file><file><path>config/.env.local</path></file>" }),
+			).toThrow("Got: config/.env.local")
+			expect(() => readFile({ path: path.join(cwd, "secrets", "key") })).toThrow(ToolPolicyError)
+			expect(() => readFile({ path: "../workspace/secrets/key" })).toThrow(ToolPolicyError)
+		})
+
+		it("denies searching and listing directories when paths are denied", () => {
+			const cwd = path.resolve("/workspace")
+			for (const tool of ["search_files", "list_files", "list_code_definition_names", "codebase_search"]) {
+				expect(() =>
+					isToolAllowedForMode(
+						tool,
+						"restricted",
+						policyModes,
+						undefined,
+						{ path: "." },
+						undefined,
+						false,
+						cwd,
+					),
+				).toThrow("cannot search or list directories while paths are denied")
+			}
+			expect(
+				isToolAllowedForMode(
+					"search_files",
+					"code",
+					policyModes,
+					undefined,
+					{ path: "." },
+					undefined,
+					false,
+					cwd,
+				),
+			).toBe(true)
+		})
+
+		it("leaves the directory read tools out when listing the tools of a mode that denies paths", () => {
+			expect(isToolAllowedForMode("list_files", "restricted", policyModes)).toBe(false)
+			expect(isToolAllowedForMode("search_files", "restricted", policyModes)).toBe(false)
+			expect(isToolAllowedForMode("read_file", "restricted", policyModes)).toBe(true)
+			expect(isToolAllowedForMode("execute_command", "restricted", policyModes)).toBe(true)
+		})
+
+		it("waits for the complete parameters", () => {
+			expect(
+				isToolAllowedForMode(
+					"execute_command",
+					"restricted",
+					policyModes,
+					undefined,
+					{ command: "npm te" },
+					undefined,
+					true,
+				),
+			).toBe(true)
+		})
+
+		it("reports the tools that require approval", () => {
+			expect(isApprovalRequiredForMode("write_to_file", "restricted", policyModes)).toBe(true)
+			expect(isApprovalRequiredForMode("read_file", "restricted", policyModes)).toBe(false)
+		})
+	})
+	// kilocode_change end
 })
 
 describe("FileRestrictionError", () => {
@@ -26,6 +26,7 @@ export function checkExistKey(config: ProviderSettings | undefined) {
 		config.lmStudioModelId,
 		config.vsCodeLmModelSelector,
 		config.kilocodeModel, // kilocode_change
+		config.replayCassettePath, // kilocode_change
 	].some((value) => value !== undefined)
 
 	return hasSecretKey || hasOtherConfig
@@ -38,6 +38,14 @@ Mention regex:
     - `terminal\b`:
       - **Exact Word ('terminal')**: Matches the exact word 'terminal'.
       - **Word Boundary (`\b`)**: Ensures that 'terminal' is matched as a whole word and not as part of another word (e.g., 'terminals').
+    - `symbol:[\w$]+(?:\.[\w$]+)*`:
+      - **Symbol ('symbol:Name')**: Matches a symbol name, optionally qualified with its container (e.g., 'symbol:Task.abortTask').
+    - `diff:[\w./~^-]+?`:
+      - **Git Diff ('diff:ref')**: Matches a git ref or range (e.g., 'diff:main..HEAD'), non-greedy so trailing punctuation is left out.
+    - `tests\b`:
+      - **Exact Word ('tests')**: Matches the exact word 'tests'.
+    - `folder-tree(?::\/(?:[^\s\\]|\\ )*?)?`:
+      - **Folder Tree ('folder-tree')**: Matches 'folder-tree', optionally followed by a folder path (e.g., 'folder-tree:/src/').
   - `(?=[.,;:!?]?(?=[\s\r\n]|$))`:
 	- **Positive Lookahead (`(?=...)`)**: Ensures that the match is followed by specific patterns without including them in the match.
 	- `[.,;:!?]?`:
@@ -53,6 +61,7 @@ Mention regex:
 	- The exact word 'problems'.
 	- The exact word 'git-changes'.
     - The exact word 'terminal'.
+	- Symbol definitions ('symbol:Name'), git diffs ('diff:main..HEAD'), the exact word 'tests' and folder trees ('folder-tree' or 'folder-tree:/path/').
   - It ensures that any trailing punctuation marks (such as ',', '.', '!', etc.) are not included in the matched mention, allowing the punctuation to follow the mention naturally in the text.
   - **NEW**: The @ symbol must be at the start of a line or preceded by whitespace to prevent accidental matches in pasted logs.
 
@@ -60,8 +69,9 @@ Mention regex:
   - `mentionRegexGlobal`: Creates a global version of the `mentionRegex` to find all matches within a given string.
 
 */
+// kilocode_change: symbol, diff, tests and folder-tree mentions
 export const mentionRegex =
-	/(?:^|(?<=\s))(?<!\\)@((?:\/|\w+:\/\/)(?:[^\s\\]|\\ )+?|[a-f0-9]{7,40}\b|problems\b|git-changes\b|terminal\b)(?=[.,;:!?]?(?=[\s\r\n]|$))/
+	/(?:^|(?<=\s))(?<!\\)@((?:\/|\w+:\/\/)(?:[^\s\\]|\\ )+?|[a-f0-9]{7,40}\b|problems\b|git-changes\b|terminal\b|symbol:[\w$]+(?:\.[\w$]+)*|diff:[\w./~^-]+?|tests\b|folder-tree(?::\/(?:[^\s\\]|\\ )*?)?)(?=[.,;:!?]?(?=[\s\r\n]|$))/
 export const mentionRegexGlobal = new RegExp(mentionRegex.source, "g")
 
 // Regex to match command mentions like /command-name anywhere in text
@@ -1,7 +1,7 @@
 import type { TokenUsage, ClineMessage } from "@roo-code/types"
 
 // kilocode_change start
-import { type ClineSayTool } from "./ExtensionMessage"
+import { type ClineAskUseMcpServer, type ClineSayTool } from "./ExtensionMessage"
 import { safeJsonParse } from "./safeJsonParse"
 // kilocode_change end
 
@@ -79,6 +79,13 @@ export function getApiMetrics(messages: ClineMessage[]) {
 				result.totalTokensIn += fastApplyResult?.tokensIn ?? 0
 				result.totalTokensOut += fastApplyResult?.tokensOut ?? 0
 				result.totalCost += fastApplyResult?.cost ?? 0
+			} else if (message.type === "ask" && message.ask === "use_mcp_server" && message.text) {
+				const mcpServerUse = safeJsonParse<ClineAskUseMcpServer>(message.text)
+				if (mcpServerUse?.type === "sampling") {
+					result.totalTokensIn += mcpServerUse.tokensIn ?? 0
+					result.totalTokensOut += mcpServerUse.tokensOut ?? 0
+					result.totalCost += mcpServerUse.cost ?? 0
+				}
 			}
 			// kilocode_change end
 		}
@@ -6,4 +6,6 @@ export const GlobalFileNames = {
 	taskMetadata: "task_metadata.json",
 	kiloRules: ".kilocode/rules", // kilocode_change
 	workflows: ".kilocode/workflows", // kilocode_change
+	taskSearchIndex: "task_search_index.json", // kilocode_change
+	apiCassette: "api_cassette.jsonl", // kilocode_change
 }
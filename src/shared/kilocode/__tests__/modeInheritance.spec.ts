@@ -0,0 +1,154 @@
+// npx vitest run shared/kilocode/__tests__/modeInheritance.spec.ts
+
+import type { CustomModeConfig, ModeConfig } from "@roo-code/types"
+
+import {
+	getModeInheritanceChain,
+	mergeModeConfigs,
+	resolveModeInheritance,
+	withoutInheritedFields,
+} from "../modeInheritance"
+
+const builtInModes: ModeConfig[] = [
+	{
+		slug: "code",
+		name: "Code",
+		roleDefinition: "You write code",
+		customInstructions: "Write tests",
+		groups: ["read", ["edit", { fileRegex: "\\.ts$", description: "TypeScript files" }], "command"],
+	},
+]
+
+describe("mergeModeConfigs", () => {
+	it("should override the inherited fields and merge the groups", () => {
+		const merged = mergeModeConfigs(builtInModes[0], {
+			slug: "docs",
+			name: "Docs",
+			extends: "code",
+			customInstructions: "Write docs",
+			groups: [["edit", { fileRegex: "\\.md$" }], "browser"],
+			source: "project",
+		})
+
+		expect(merged).toEqual({
+			slug: "docs",
+			name: "Docs",
+			extends: "code",
+			roleDefinition: "You write code",
+			customInstructions: "Write docs",
+			groups: ["read", ["edit", { fileRegex: "\\.md$" }], "command", "browser"],
+			source: "project",
+		})
+	})
+})
+
+describe("resolveModeInheritance", () => {
+	it("should resolve chains of custom modes in any order", () => {
+		const { modes, errors } = resolveModeInheritance(
+			[
+				{ slug: "reviewer", name: "Reviewer", extends: "docs", roleDefinition: "You review docs" },
+				{ slug: "docs", name: "Docs", extends: "code", groups: ["browser"] },
+			],
+			builtInModes,
+		)
+
+		expect(errors).toEqual([])
+		expect(modes[0]).toMatchObject({
+			slug: "reviewer",
+			roleDefinition: "You review docs",
+			customInstructions: "Write tests",
+			groups: [...builtInModes[0].groups, "browser"],
+		})
+	})
+
+	it("should extend the built-in mode when a custom mode extends its own slug", () => {
+		const { modes, errors } = resolveModeInheritance(
+			[{ slug: "code", name: "My Code", extends: "code", customInstructions: "Be brief" }],
+			builtInModes,
+		)
+
+		expect(errors).toEqual([])
+		expect(modes).toEqual([
+			{ ...builtInModes[0], name: "My Code", extends: "code", customInstructions: "Be brief" },
+		])
+	})
+
+	it("should report cycles and unknown modes and keep the modes that are complete on their own", () => {
+		const customModes: CustomModeConfig[] = [
+			{ slug: "a", name: "A", extends: "b" },
+			{ slug: "b", name: "B", extends: "a", roleDefinition: "B", groups: ["read"] },
+			{ slug: "c", name: "C", extends: "a" },
+			{ slug: "d", name: "D", extends: "missing" },
+		]
+
+		const { modes, errors } = resolveModeInheritance(customModes, builtInModes)
+
+		expect(errors).toEqual([
+			{ slug: "b", reason: "cycle", chain: ["a", "b", "a"] },
+			{ slug: "d", reason: "unknown", chain: ["d", "missing"] },
+		])
+		// b is used as it is, so a and c can inherit from it
+		expect(modes.map((mode) => mode.slug)).toEqual(["a", "b", "c"])
+		expect(modes[2]).toMatchObject({ slug: "c", roleDefinition: "B", groups: ["read"] })
+	})
+})
+
+describe("getModeInheritanceChain", () => {
+	it("should list the inherited modes, the mode it extends first", () => {
+		const customModes = [
+			{ slug: "reviewer", name: "Reviewer", extends: "docs", roleDefinition: "", groups: [] },
+			{ slug: "docs", name: "Docs", extends: "code", roleDefinition: "", groups: [] },
+			{ slug: "code", name: "Code", extends: "code", roleDefinition: "", groups: [] },
+		]
+
+		expect(getModeInheritanceChain("reviewer", customModes, builtInModes)).toEqual(["docs", "code", "code"])
+		expect(getModeInheritanceChain("code", customModes, builtInModes)).toEqual(["code"])
+		expect(getModeInheritanceChain("unknown", customModes, builtInModes)).toEqual([])
+	})
+
+	it("should stop at cycles", () => {
+		const customModes = [
+			{ slug: "a", name: "A", extends: "b", roleDefinition: "", groups: [] },
+			{ slug: "b", name: "B", extends: "a", roleDefinition: "", groups: [] },
+		]
+
+		expect(getModeInheritanceChain("a", customModes, builtInModes)).toEqual(["b", "a"])
+	})
+})
+
+describe("withoutInheritedFields", () => {
+	it("should only keep what the mode overrides", () => {
+		const merged = mergeModeConfigs(builtInModes[0], {
+			slug: "docs",
+			name: "Docs",
+			extends: "code",
+			customInstructions: "Write docs",
+			groups: ["browser"],
+		})
+
+		expect(withoutInheritedFields(merged, builtInModes[0])).toEqual({
+			slug: "docs",
+			name: "Docs",
+			extends: "code",
+			customInstructions: "Write docs",
+			groups: ["browser"],
+		})
+	})
+
+	it("should keep the whole list of groups when inherited groups are removed", () => {
+		const merged = mergeModeConfigs(builtInModes[0], { slug: "docs", name: "Docs", extends: "code" })
+		const edited = { ...merged, groups: merged.groups.filter((group) => group !== "command") }
+
+		const saved = withoutInheritedFields(edited, builtInModes[0])
+		expect(saved).toMatchObject({ groups: edited.groups, inheritGroups: false })
+
+		// The removed group stays removed once the mode is loaded again
+		expect(mergeModeConfigs(builtInModes[0], saved).groups).toEqual(edited.groups)
+		// and adding it back inherits the groups again
+		expect(withoutInheritedFields({ ...edited, groups: builtInModes[0].groups }, builtInModes[0])).toEqual({
+			slug: "docs",
+			name: "Docs",
+			extends: "code",
+		})
+	})
+})
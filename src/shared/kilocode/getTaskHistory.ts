@@ -2,6 +2,7 @@ import { Fzf } from "fzf"
 import { HistoryItem } from "@roo-code/types"
 import { highlightFzfMatch } from "../../../webview-ui/src/utils/highlight" // weird hack, but apparently it works
 import { TaskHistoryRequestPayload, TaskHistoryResponsePayload } from "../WebviewMessage"
+import type { TaskSearchMatch } from "../../services/task-search"
 
 const PAGE_SIZE = 10
 
@@ -9,6 +10,7 @@ export function getTaskHistory(
 	taskHistory: HistoryItem[],
 	cwd: string,
 	request: TaskHistoryRequestPayload,
+	contentMatches?: Map<string, TaskSearchMatch>,
 ): TaskHistoryResponsePayload {
 	let tasks = taskHistory.filter((item) => item.ts && item.task)
 
@@ -24,7 +26,7 @@ export function getTaskHistory(
 		const searchResults = new Fzf(tasks, {
 			selector: (item) => item.task,
 		}).find(request.search)
-		tasks = searchResults.map((result) => {
+		const titleMatches = searchResults.map((result) => {
 			const positions = Array.from(result.positions)
 			const taskEndIndex = result.item.task.length
 
@@ -37,6 +39,14 @@ export function getTaskHistory(
 				workspace: result.item.workspace,
 			}
 		})
+
+		// The tasks only matching by their conversation come after the title matches
+		const titleMatchIds = new Set(titleMatches.map((item) => item.id))
+		tasks = [
+			...titleMatches,
+			...tasks.filter((item) => contentMatches?.has(item.id) && !titleMatchIds.has(item.id)),
+		]
+		tasks = tasks.map((item) => withContentMatch(item, contentMatches?.get(item.id)))
 	}
 
 	tasks.sort((a, b) => {
@@ -63,7 +73,35 @@ export function getTaskHistory(
 	const pageIndex = Math.max(0, Math.min(request.pageIndex, pageCount - 1))
 
 	const startIndex = PAGE_SIZE * pageIndex
-	const historyItems = tasks.slice(startIndex, startIndex + PAGE_SIZE)
+	const historyItems = tasks.slice(startIndex, startIndex + PAGE_SIZE).map((item) => withForks(item, taskHistory))
 
 	return { requestId: request.requestId, historyItems, pageIndex, pageCount }
 }
+
+/**
+ * Adds the title of the task an item was forked from and the number of tasks forked from it
+ */
+function withForks(item: HistoryItem, taskHistory: HistoryItem[]) {
+	const forkedFromTask = item.forkedFromTaskId
+		? taskHistory.find((task) => task.id === item.forkedFromTaskId)?.task
+		: undefined
+	const forkCount = taskHistory.filter((task) => task.forkedFromTaskId === item.id).length
+
+	return { ...item, forkedFromTask, forkCount }
+}
+
+/**
+ * Adds the message of the task matching the search, with the terms highlighted
+ */
+function withContentMatch(item: HistoryItem, match: TaskSearchMatch | undefined) {
+	if (!match) {
+		return item
+	}
+
+	const contentMatch = {
+		ts: match.ts,
+		snippet: match.snippet,
+		highlight: highlightFzfMatch(match.snippet, match.positions),
+	}
+	return { ...item, contentMatch }
+}
@@ -4,6 +4,55 @@ export const DEFAULT_MCP_TIMEOUT_SECONDS = 60 // matches Anthropic's default tim
 export const MIN_MCP_TIMEOUT_SECONDS = 1
 export type McpMode = "full" | "server-use-only" | "off"
 
+export const MCP_PROMPT_COMMAND_PREFIX = "mcp."
+
+/**
+ * Build the slash command name used to invoke an MCP prompt, e.g. `mcp.github.review_pr`.
+ * Characters that are not allowed in slash command names are replaced with underscores.
+ */
+export function getMcpPromptCommandName(serverName: string, promptName: string): string {
+	const sanitize = (segment: string) => segment.replace(/[^a-zA-Z0-9_-]/g, "_")
+	return `${MCP_PROMPT_COMMAND_PREFIX}${sanitize(serverName)}.${sanitize(promptName)}`
+}
+
+/**
+ * A field of the flat object schema an MCP server sends with an elicitation request
+ */
+export type McpElicitationField = {
+	type: "string" | "number" | "integer" | "boolean"
+	title?: string
+	description?: string
+	enum?: string[]
+	enumNames?: string[]
+	format?: "email" | "uri" | "date" | "date-time"
+	minLength?: number
+	maxLength?: number
+	minimum?: number
+	maximum?: number
+	default?: string | number | boolean
+}
+
+export type McpElicitationValue = string | number | boolean
+
+export type McpElicitationResponse = {
+	action: "accept" | "reject" | "cancel"
+	content?: Record<string, McpElicitationValue>
+}
+
+/**
+ * Payload of the `mcp_elicitation` ask
+ */
+export interface McpElicitationRequest {
+	serverName: string
+	message: string
+	requestedSchema: {
+		type: "object"
+		properties: Record<string, McpElicitationField>
+		required?: string[]
+	}
+	response?: McpElicitationResponse
+}
+
 export interface McpMarketplaceItem {
 	mcpId: string
 	githubUrl: string
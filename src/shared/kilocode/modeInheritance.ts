@@ -0,0 +1,180 @@
+import { type CustomModeConfig, type GroupEntry, type ModeConfig, DEFAULT_MODES } from "@roo-code/types"
+
+/**
+ * Why a mode could not inherit from the mode it extends
+ */
+export interface ModeInheritanceError {
+	slug: string
+	reason: "cycle" | "unknown"
+	/** The slugs from the mode to the one that could not be resolved */
+	chain: string[]
+}
+
+const groupName = (group: GroupEntry) => (Array.isArray(group) ? group[0] : group)
+
+/**
+ * The mode a mode extends. A custom mode that extends its own slug extends the built-in mode it
+ * overrides, so a built-in mode can be customized without copying it.
+ */
+function findParent<T extends { slug: string }>(
+	mode: CustomModeConfig,
+	customModes: T[],
+	builtInModes: readonly ModeConfig[],
+): T | ModeConfig | undefined {
+	if (!mode.extends) {
+		return undefined
+	}
+	const builtIn = builtInModes.find((candidate) => candidate.slug === mode.extends)
+	if (mode.extends === mode.slug) {
+		return builtIn
+	}
+	return customModes.find((candidate) => candidate.slug === mode.extends) ?? builtIn
+}
+
+/**
+ * Applies a mode on top of the mode it extends:
+ * - the fields the mode sets override the inherited ones, the others are inherited
+ * - the groups are the inherited groups and the groups of the mode, a group listed by both takes
+ *   the options of the mode, so its `fileRegex` replaces the inherited one. With `inheritGroups`
+ *   set to false the groups of the mode replace the inherited ones, so groups can be removed.
+ * - the rules of the inherited modes are loaded before the rules of the mode, see
+ *   {@link getModeInheritanceChain}
+ */
+export function mergeModeConfigs(parent: ModeConfig, mode: CustomModeConfig): ModeConfig {
+	const ownFields = Object.fromEntries(Object.entries(mode).filter(([, value]) => value !== undefined))
+	const ownGroups = mode.groups ?? []
+
+	if (mode.inheritGroups === false) {
+		return { ...parent, ...ownFields, source: mode.source, groups: ownGroups } as ModeConfig
+	}
+
+	const groups = parent.groups.map(
+		(group) => ownGroups.find((ownGroup) => groupName(ownGroup) === groupName(group)) ?? group,
+	)
+	for (const group of ownGroups) {
+		if (!groups.some((existing) => groupName(existing) === groupName(group))) {
+			groups.push(group)
+		}
+	}
+
+	return { ...parent, ...ownFields, source: mode.source, groups } as ModeConfig
+}
+
+/**
+ * Resolves the `extends` chains of the custom modes. Modes that extend an unknown mode or are part
+ * of a cycle keep their own configuration when it is complete, and are left out otherwise.
+ */
+export function resolveModeInheritance(
+	customModes: CustomModeConfig[],
+	builtInModes: readonly ModeConfig[] = DEFAULT_MODES,
+): { modes: ModeConfig[]; errors: ModeInheritanceError[] } {
+	const resolved = new Map<string, ModeConfig | null>()
+	const errors: ModeInheritanceError[] = []
+
+	const resolve = (mode: CustomModeConfig, chain: string[]): ModeConfig | null => {
+		if (resolved.has(mode.slug)) {
+			return resolved.get(mode.slug)!
+		}
+
+		let result: ModeConfig | null = null
+		const parent = findParent(mode, customModes, builtInModes)
+
+		if (!mode.extends) {
+			result = mode as ModeConfig
+		} else if (!parent) {
+			errors.push({ slug: mode.slug, reason: "unknown", chain: [...chain, mode.extends] })
+		} else if (chain.includes(parent.slug) && customModes.includes(parent as CustomModeConfig)) {
+			errors.push({ slug: mode.slug, reason: "cycle", chain: [...chain, parent.slug] })
+		} else {
+			const resolvedParent = customModes.includes(parent as CustomModeConfig)
+				? resolve(parent as CustomModeConfig, [...chain, parent.slug])
+				: (parent as ModeConfig)
+			// Otherwise the error of the parent was already reported
+			if (resolvedParent) {
+				result = mergeModeConfigs(resolvedParent, mode)
+			}
+		}
+
+		if (!result && mode.roleDefinition !== undefined && mode.groups !== undefined) {
+			result = mode as ModeConfig
+		}
+		resolved.set(mode.slug, result)
+		return result
+	}
+
+	const modes = customModes
+		.map((mode) => resolve(mode, [mode.slug]))
+		.filter((mode): mode is ModeConfig => mode !== null)
+
+	return { modes, errors }
+}
+
+/**
+ * The slugs of the modes a mode inherits from, the mode it extends first
+ */
+export function getModeInheritanceChain(
+	slug: string,
+	customModes: ModeConfig[] = [],
+	builtInModes: readonly ModeConfig[] = DEFAULT_MODES,
+): string[] {
+	const chain: string[] = []
+	const visited = new Set<ModeConfig>()
+	let mode: ModeConfig | undefined = customModes.find((candidate) => candidate.slug === slug)
+
+	while (mode?.extends && !visited.has(mode)) {
+		visited.add(mode)
+		const parent: ModeConfig | undefined = findParent(mode, customModes, builtInModes)
+		if (!parent) {
+			break
+		}
+		chain.push(parent.slug)
+		// Built-in modes do not extend other modes
+		mode = customModes.includes(parent) ? parent : undefined
+	}
+
+	return chain
+}
+
+/**
+ * Removes the fields a mode inherits unchanged, so that only what the mode overrides is saved and
+ * later changes of the mode it extends still apply to it. A mode without some of the inherited
+ * groups keeps its whole list of groups, and stops inheriting groups.
+ */
+export function withoutInheritedFields(mode: ModeConfig, parent: ModeConfig): CustomModeConfig {
+	const result: CustomModeConfig = { ...mode }
+	const inheritableFields = [
+		"roleDefinition",
+		"whenToUse",
+		"description",
+		"customInstructions",
+		"iconName",
+		"condensingStrategy",
+	] as const
+
+	for (const field of inheritableFields) {
+		if (result[field] === parent[field]) {
+			delete result[field]
+		}
+	}
+
+	const removesInheritedGroups = parent.groups.some(
+		(inherited) => !mode.groups.some((group) => groupName(group) === groupName(inherited)),
+	)
+	if (removesInheritedGroups) {
+		result.groups = mode.groups
+		result.inheritGroups = false
+		return result
+	}
+
+	delete result.inheritGroups
+	const ownGroups = mode.groups.filter(
+		(group) => !parent.groups.some((inherited) => JSON.stringify(inherited) === JSON.stringify(group)),
+	)
+	if (ownGroups.length > 0) {
+		result.groups = ownGroups
+	} else {
+		delete result.groups
+	}
+
+	return result
+}
@@ -0,0 +1,157 @@
+import * as path from "path"
+import ignore from "ignore"
+
+import type { GroupOptions, ToolGroup } from "@roo-code/types"
+
+// Custom error class for the tool policies of a mode, the message is sent back to the model
+export class ToolPolicyError extends Error {
+	constructor(mode: string, tool: string, reason: string) {
+		super(`Tool '${tool}' in mode '${mode}' ${reason}`)
+		this.name = "ToolPolicyError"
+	}
+}
+
+// Operators chaining commands, `&` of redirections like `2>&1` does not chain commands
+const COMMAND_SEPARATORS = /&&|\|\||\|&|[;|\n]|(?<![<>])&(?!>)/
+const COMMAND_SUBSTITUTION = /\$\(|`|<\(|>\(/
+
+/**
+ * Whether a pattern allows a command: `*` allows any command, other patterns allow the commands
+ * they are a prefix of, ending at a word boundary so `git` allows `git status` but not `gitk`
+ */
+function matchesCommandPattern(command: string, pattern: string): boolean {
+	const prefix = pattern.trim()
+	if (prefix === "*") {
+		return true
+	}
+	if (!command.startsWith(prefix)) {
+		return false
+	}
+	const nextChar = command[prefix.length]
+	return nextChar === undefined || /\s/.test(nextChar)
+}
+
+/**
+ * Whether each of the chained commands of a command line is allowed. Command substitutions could
+ * run any command, so they are only allowed by `*`.
+ */
+export function isCommandAllowed(command: string, patterns: string[]): boolean {
+	if (patterns.some((pattern) => pattern.trim() === "*")) {
+		return true
+	}
+	if (COMMAND_SUBSTITUTION.test(command)) {
+		return false
+	}
+	return command
+		.split(COMMAND_SEPARATORS)
+		.map((part) => part.trim())
+		.filter(Boolean)
+		.every((part) => patterns.some((pattern) => matchesCommandPattern(part, pattern)))
+}
+
+/**
+ * Whether an MCP server, or a tool of it, is allowed by entries naming servers (`server`) or
+ * single tools (`server/tool`)
+ */
+export function isMcpToolAllowed(serverName: string, toolName: string | undefined, allowed: string[]): boolean {
+	return allowed.some((entry) => entry === serverName || (!!toolName && entry === `${serverName}/${toolName}`))
+}
+
+/**
+ * The first path matching one of the gitignore style patterns, relative to the workspace. The
+ * patterns cannot tell which paths outside of the workspace are safe, so these are all denied.
+ */
+export function findDeniedPath(paths: string[], deniedPaths: string[], cwd: string): string | undefined {
+	const matcher = ignore().add(deniedPaths)
+	return paths.find((filePath) => {
+		const relativePath = path.relative(cwd, path.resolve(cwd, filePath))
+		if (relativePath === "") {
+			return false
+		}
+		if (relativePath.startsWith("..") || path.isAbsolute(relativePath)) {
+			return true
+		}
+		return matcher.ignores(relativePath.split(path.sep).join("/"))
+	})
+}
+
+/**
+ * The read tools returning the names or the contents of the files under a directory. The denied
+ * paths cannot be told apart in what they return, so they are denied when there are denied paths.
+ */
+const DIRECTORY_READ_TOOLS = ["search_files", "list_files", "list_code_definition_names", "codebase_search"]
+
+/**
+ * Whether the options of a tool group deny a tool whatever it is called with, these tools are left
+ * out of the tools offered to the model
+ */
+export function isToolDeniedByPolicy(tool: string, groupName: ToolGroup, options: GroupOptions): boolean {
+	return groupName === "read" && !!options.deniedPaths && DIRECTORY_READ_TOOLS.includes(tool)
+}
+
+/**
+ * The paths a read tool is called with, read_file takes them as `path`, as XML `args` or as
+ * native `files`
+ */
+function getReadPaths(toolParams: Record<string, any>): string[] {
+	const paths: string[] = []
+	if (typeof toolParams.path === "string") {
+		paths.push(toolParams.path)
+	}
+	if (typeof toolParams.args === "string") {
+		for (const match of toolParams.args.matchAll(/<path>([^<]+)<\/path>/g)) {
+			paths.push(match[1].trim())
+		}
+	}
+	if (Array.isArray(toolParams.files)) {
+		for (const file of toolParams.files) {
+			if (typeof file?.path === "string") {
+				paths.push(file.path)
+			}
+		}
+	}
+	return paths
+}
+
+/**
+ * Why the options of a tool group do not allow a tool call, undefined when they allow it
+ */
+export function getToolPolicyViolation(
+	tool: string,
+	groupName: ToolGroup,
+	options: GroupOptions,
+	toolParams: Record<string, any> = {},
+	cwd?: string,
+): string | undefined {
+	if (groupName === "command" && options.allowedCommands && tool === "execute_command") {
+		const command = toolParams.command
+		if (typeof command === "string" && !isCommandAllowed(command, options.allowedCommands)) {
+			return `can only run commands starting with: ${options.allowedCommands.join(", ")}. Got: ${command}`
+		}
+	}
+
+	if (groupName === "mcp" && options.allowedMcpTools) {
+		const serverName = toolParams.server_name
+		const toolName = tool === "use_mcp_tool" ? toolParams.tool_name : undefined
+		if (typeof serverName === "string" && !isMcpToolAllowed(serverName, toolName, options.allowedMcpTools)) {
+			const requested = toolName ? `${serverName}/${toolName}` : serverName
+			return `can only use the MCP servers and tools: ${options.allowedMcpTools.join(", ")}. Got: ${requested}`
+		}
+	}
+
+	if (groupName === "read" && options.deniedPaths) {
+		if (isToolDeniedByPolicy(tool, groupName, options)) {
+			return `cannot search or list directories while paths are denied: ${options.deniedPaths.join(", ")}. Read single files with read_file instead`
+		}
+		const readPaths = getReadPaths(toolParams)
+		if (readPaths.length > 0 && !cwd) {
+			return `cannot read paths, the workspace to check them against is unknown`
+		}
+		const deniedPath = cwd && findDeniedPath(readPaths, options.deniedPaths, cwd)
+		if (deniedPath) {
+			return `cannot read paths matching: ${options.deniedPaths.join(", ")} or outside of the workspace. Got: ${deniedPath}`
+		}
+	}
+
+	return undefined
+}
@@ -13,6 +13,8 @@ export type McpServer = {
 	tools?: McpTool[]
 	resources?: McpResource[]
 	resourceTemplates?: McpResourceTemplate[]
+	prompts?: McpPrompt[] // kilocode_change
+	alwaysAllowSampling?: boolean // kilocode_change
 	disabled?: boolean
 	timeout?: number
 	source?: "global" | "project"
@@ -42,6 +44,48 @@ export type McpResourceTemplate = {
 	mimeType?: string
 }
 
+// kilocode_change start
+export type McpPromptArgument = {
+	name: string
+	description?: string
+	required?: boolean
+}
+
+export type McpPrompt = {
+	name: string
+	description?: string
+	arguments?: McpPromptArgument[]
+}
+
+export type McpPromptResponse = {
+	_meta?: Record<string, any>
+	description?: string
+	messages: Array<{
+		role: "user" | "assistant"
+		content:
+			| { type: "text"; text: string }
+			| { type: "image"; data: string; mimeType: string }
+			| { type: "audio"; data: string; mimeType: string }
+			| {
+					type: "resource"
+					resource: {
+						uri: string
+						mimeType?: string
+						text?: string
+						blob?: string
+					}
+			  }
+			| {
+					type: "resource_link"
+					uri: string
+					name?: string
+					description?: string
+					mimeType?: string
+			  }
+	}>
+}
+// kilocode_change end
+
 export type McpResourceResponse = {
 	_meta?: Record<string, any>
 	contents: Array<{
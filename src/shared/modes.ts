@@ -15,6 +15,7 @@ import { addCustomInstructions } from "../core/prompts/sections/custom-instructi
 
 import { EXPERIMENT_IDS } from "./experiments"
 import { TOOL_GROUPS, ALWAYS_AVAILABLE_TOOLS } from "./tools"
+import { ToolPolicyError, getToolPolicyViolation, isToolDeniedByPolicy } from "./kilocode/toolPolicies" // kilocode_change
 
 export type Mode = string
 
@@ -171,6 +172,8 @@ export function isToolAllowedForMode(
 	toolRequirements?: Record<string, boolean>,
 	toolParams?: Record<string, any>, // All tool parameters
 	experiments?: Record<string, boolean>,
+	isPartial?: boolean, // kilocode_change: the parameters are still being streamed
+	cwd?: string, // kilocode_change: the workspace the paths of the parameters are relative to
 ): boolean {
 	// Always allow these tools
 	if (ALWAYS_AVAILABLE_TOOLS.includes(tool as any)) {
@@ -214,6 +217,20 @@ export function isToolAllowedForMode(
 			return true
 		}
 
+		// kilocode_change start: the policies need the complete parameters of a call, without
+		// parameters the tools of the mode are listed and only the tools always denied are left out
+		if (toolParams === undefined) {
+			if (isToolDeniedByPolicy(tool, groupName, options)) {
+				continue
+			}
+		} else if (!isPartial) {
+			const violation = getToolPolicyViolation(tool, groupName, options, toolParams, cwd)
+			if (violation) {
+				throw new ToolPolicyError(mode.name, tool, violation)
+			}
+		}
+		// kilocode_change end
+
 		// For the edit group, check file regex if specified
 		if (groupName === "edit" && options.fileRegex) {
 			const filePath = toolParams?.path
@@ -268,6 +285,16 @@ export function isToolAllowedForMode(
 	return false
 }
 
+// kilocode_change start
+/**
+ * Whether the mode requires the user to approve a tool, even when auto-approval is on
+ */
+export function isApprovalRequiredForMode(tool: string, modeSlug: string, customModes: ModeConfig[]): boolean {
+	const mode = getModeBySlug(modeSlug, customModes)
+	return !!mode?.requireApproval?.some((requiredTool) => requiredTool === tool)
+}
+// kilocode_change end
+
 // Create the mode-specific default prompts
 export const defaultPrompts: Readonly<CustomModePrompts> = Object.freeze(
 	Object.fromEntries(
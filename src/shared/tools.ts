@@ -66,6 +66,12 @@ export const toolParamNames = [
 	"instructions",
 	"code_edit",
 	"files",
+	"selector",
+	"status",
+	"background",
+	"job_id",
+	"pattern",
+	"timeout",
 	// kilocode_change end
 	"args",
 	"start_line",
@@ -91,7 +97,7 @@ export interface ToolUse {
 export interface ExecuteCommandToolUse extends ToolUse {
 	name: "execute_command"
 	// Pick<Record<ToolParamName, string>, "command"> makes "command" required, but Partial<> makes it optional
-	params: Partial<Pick<Record<ToolParamName, string>, "command" | "cwd">>
+	params: Partial<Pick<Record<ToolParamName, string>, "command" | "cwd" | "background">> // kilocode_change
 }
 
 export interface ReadFileToolUse extends ToolUse {
@@ -136,7 +142,9 @@ export interface ListCodeDefinitionNamesToolUse extends ToolUse {
 
 export interface BrowserActionToolUse extends ToolUse {
 	name: "browser_action"
-	params: Partial<Pick<Record<ToolParamName, string>, "action" | "url" | "coordinate" | "text" | "size">>
+	params: Partial<
+		Pick<Record<ToolParamName, string>, "action" | "url" | "coordinate" | "text" | "size" | "selector" | "status">
+	> // kilocode_change
 }
 
 export interface UseMcpToolToolUse extends ToolUse {
@@ -192,6 +200,13 @@ export interface EditFileToolUse extends ToolUse {
 }
 // kilocode_change end
 
+// kilocode_change start
+export interface BackgroundJobToolUse extends ToolUse {
+	name: "background_job"
+	params: Partial<Pick<Record<ToolParamName, string>, "action" | "job_id" | "pattern" | "timeout">>
+}
+// kilocode_change end
+
 export interface GenerateImageToolUse extends ToolUse {
 	name: "generate_image"
 	params: Partial<Pick<Record<ToolParamName, string>, "prompt" | "path" | "image">>
@@ -225,6 +240,7 @@ export const TOOL_DISPLAY_NAMES: Record<ToolName, string> = {
 	new_rule: "create new rule",
 	report_bug: "report bug", // kilocode_change
 	condense: "condense the current context window", // kilocode_change
+	background_job: "manage background jobs", // kilocode_change
 	codebase_search: "codebase search",
 	update_todo_list: "update todo list",
 	run_slash_command: "run slash command",
@@ -258,7 +274,7 @@ export const TOOL_GROUPS: Record<ToolGroup, ToolGroupConfig> = {
 		tools: ["browser_action"],
 	},
 	command: {
-		tools: ["execute_command"],
+		tools: ["execute_command", "background_job"], // kilocode_change
 	},
 	mcp: {
 		tools: ["use_mcp_tool", "access_mcp_resource"],
@@ -0,0 +1,139 @@
+import { describe, expect, it, beforeEach, afterEach } from "vitest"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import {
+	CompletionSource,
+	RecordedCompletion,
+	createFakeSource,
+	loadRecordedCompletions,
+	percentile,
+	replayCompletions,
+	summarizeReplay,
+} from "./replay-harness.js"
+import {
+	COMPLETION_CONTEXTS_FILE,
+	COMPLETION_EVENTS_FILE,
+	CompletionEvent,
+	CompletionOutcome,
+	hashCompletionText,
+} from "../services/ghost/classic-auto-complete/CompletionEventRecorder.js"
+
+function createRecorded(
+	prefix: string,
+	suggestion: string,
+	outcome: CompletionOutcome,
+	acceptedLength = outcome === "accepted" ? suggestion.length : 0,
+): RecordedCompletion {
+	const prefixHash = hashCompletionText(prefix)
+	const suffixHash = hashCompletionText("")
+	return {
+		event: {
+			id: prefix,
+			timestamp: 0,
+			languageId: "javascript",
+			prefixHash,
+			suffixHash,
+			suggestion,
+			outcome,
+			acceptedLength,
+			latencyMs: 100,
+		},
+		context: { prefixHash, suffixHash, languageId: "javascript", prefix, suffix: "" },
+	}
+}
+
+describe("replay-harness", () => {
+	describe("loadRecordedCompletions", () => {
+		let dir: string
+
+		beforeEach(() => {
+			dir = fs.mkdtempSync(path.join(os.tmpdir(), "replay-harness-"))
+		})
+
+		afterEach(() => {
+			fs.rmSync(dir, { recursive: true, force: true })
+		})
+
+		it("should join the events with their contexts", () => {
+			const recorded = createRecorded("const a = ", "1", "accepted")
+			const orphan: CompletionEvent = { ...recorded.event, prefixHash: "unknown" }
+			fs.writeFileSync(
+				path.join(dir, COMPLETION_EVENTS_FILE),
+				[recorded.event, orphan].map((event) => JSON.stringify(event)).join("\n") + "\n",
+			)
+			fs.writeFileSync(path.join(dir, COMPLETION_CONTEXTS_FILE), JSON.stringify(recorded.context) + "\n")
+
+			expect(loadRecordedCompletions(dir)).toEqual({ completions: [recorded], missingContexts: 1 })
+		})
+
+		it("should return nothing for an empty directory", () => {
+			expect(loadRecordedCompletions(dir)).toEqual({ completions: [], missingContexts: 0 })
+		})
+	})
+
+	describe("replayCompletions", () => {
+		it("should replay the recorded contexts with the fake provider", async () => {
+			const completions = [
+				createRecorded("const a = ", "1", "accepted"),
+				createRecorded("let b", " = 2", "rejected"),
+			]
+
+			const results = await replayCompletions(completions, createFakeSource())
+
+			expect(results.map((result) => result.completion)).toEqual(["1", " = 2"])
+		})
+
+		it("should send the hole filler prompts and record errors", async () => {
+			const prompts: string[] = []
+			const source: CompletionSource = {
+				name: "failing",
+				async complete(_systemPrompt, userPrompt) {
+					prompts.push(userPrompt)
+					throw new Error("rate limited")
+				},
+			}
+
+			const results = await replayCompletions([createRecorded("const a = ", "1", "accepted")], source)
+
+			expect(prompts[0]).toContain("const a = {{FILL_HERE}}")
+			expect(results[0]).toEqual(expect.objectContaining({ completion: "", error: "rate limited" }))
+		})
+	})
+
+	describe("summarizeReplay", () => {
+		it("should compute the acceptance proxies and exact-match rate", () => {
+			const results = [
+				{ recorded: createRecorded("a", "foo()", "accepted"), completion: "foo()", latencyMs: 100 },
+				{ recorded: createRecorded("b", "bar(x)", "partial", 4), completion: "bar(y)", latencyMs: 200 },
+				{ recorded: createRecorded("c", "baz", "accepted"), completion: "qux", latencyMs: 300 },
+				{ recorded: createRecorded("d", "nope", "rejected"), completion: "nope", latencyMs: 400 },
+				{ recorded: createRecorded("e", "nope", "rejected"), completion: "", latencyMs: 0, error: "failed" },
+			]
+
+			const summary = summarizeReplay(results)
+
+			expect(summary).toEqual({
+				total: 5,
+				errors: 1,
+				recordedAcceptanceRate: 2 / 5,
+				recordedPartialRate: 1 / 5,
+				exactMatchRate: 1 / 3,
+				acceptanceProxyRate: 2 / 3,
+				repeatedRejectionRate: 1,
+				emptyRate: 0,
+				latency: { p50: 200, p90: 400, p99: 400 },
+			})
+		})
+	})
+
+	describe("percentile", () => {
+		it("should use the nearest rank", () => {
+			const values = [50, 10, 40, 20, 30]
+
+			expect(percentile(values, 50)).toBe(30)
+			expect(percentile(values, 90)).toBe(50)
+			expect(percentile([], 90)).toBe(0)
+		})
+	})
+})
@@ -0,0 +1,215 @@
+import fs from "fs"
+import path from "path"
+import crypto from "crypto"
+import type { ApiHandler } from "../api/index.js"
+import { HoleFiller, parseGhostResponse } from "../services/ghost/classic-auto-complete/HoleFiller.js"
+import {
+	COMPLETION_CONTEXTS_FILE,
+	COMPLETION_EVENTS_FILE,
+	CompletionContextRecord,
+	CompletionEvent,
+} from "../services/ghost/classic-auto-complete/CompletionEventRecorder.js"
+import { AutocompleteInput } from "../services/ghost/types.js"
+
+export interface RecordedCompletion {
+	event: CompletionEvent
+	context: CompletionContextRecord
+}
+
+/**
+ * Anything that can answer the autocomplete prompts
+ */
+export interface CompletionSource {
+	name: string
+	complete(systemPrompt: string, userPrompt: string, recorded: RecordedCompletion): Promise<string>
+}
+
+export interface ReplayResult {
+	recorded: RecordedCompletion
+	completion: string
+	latencyMs: number
+	error?: string
+}
+
+export interface ReplaySummary {
+	total: number
+	errors: number
+	/** Outcomes of the recorded completions, the baseline to compare with */
+	recordedAcceptanceRate: number
+	recordedPartialRate: number
+	/** Share of the accepted and partially accepted completions the replay reproduces exactly */
+	exactMatchRate: number
+	/** Share of the accepted and partially accepted completions the replay keeps at least the accepted part of */
+	acceptanceProxyRate: number
+	/** Share of the rejected completions the replay suggests again */
+	repeatedRejectionRate: number
+	emptyRate: number
+	latency: { p50: number; p90: number; p99: number }
+}
+
+function readJsonLines<T>(filePath: string): T[] {
+	if (!fs.existsSync(filePath)) {
+		return []
+	}
+	return fs
+		.readFileSync(filePath, "utf8")
+		.split("\n")
+		.filter((line) => line.trim())
+		.map((line) => JSON.parse(line) as T)
+}
+
+/**
+ * Load the completion events recorded by the extension, joined with their contexts.
+ * Events whose context was not recorded cannot be replayed and are left out.
+ */
+export function loadRecordedCompletions(dir: string): { completions: RecordedCompletion[]; missingContexts: number } {
+	const contexts = new Map<string, CompletionContextRecord>()
+	for (const context of readJsonLines<CompletionContextRecord>(path.join(dir, COMPLETION_CONTEXTS_FILE))) {
+		contexts.set(`${context.prefixHash}:${context.suffixHash}`, context)
+	}
+
+	const completions: RecordedCompletion[] = []
+	let missingContexts = 0
+	for (const event of readJsonLines<CompletionEvent>(path.join(dir, COMPLETION_EVENTS_FILE))) {
+		const context = contexts.get(`${event.prefixHash}:${event.suffixHash}`)
+		if (context) {
+			completions.push({ event, context })
+		} else {
+			missingContexts++
+		}
+	}
+
+	return { completions, missingContexts }
+}
+
+export function createApiHandlerSource(name: string, handler: ApiHandler): CompletionSource {
+	return {
+		name,
+		async complete(systemPrompt, userPrompt) {
+			let response = ""
+			const stream = handler.createMessage(systemPrompt, [
+				{ role: "user", content: [{ type: "text", text: userPrompt }] },
+			])
+			for await (const chunk of stream) {
+				if (chunk.type === "text") {
+					response += chunk.text
+				}
+			}
+			return response
+		},
+	}
+}
+
+/**
+ * A provider answering with the recorded suggestions, to check the harness itself
+ * or to get the baseline of the recorded model
+ */
+export function createFakeSource(): CompletionSource {
+	return {
+		name: "fake",
+		async complete(_systemPrompt, _userPrompt, recorded) {
+			return `<COMPLETION>${recorded.event.suggestion}</COMPLETION>`
+		},
+	}
+}
+
+export async function replayCompletions(
+	completions: RecordedCompletion[],
+	source: CompletionSource,
+	onResult?: (result: ReplayResult, index: number) => void,
+): Promise<ReplayResult[]> {
+	const holeFiller = new HoleFiller()
+	const results: ReplayResult[] = []
+
+	for (const recorded of completions) {
+		const { prefix, suffix, languageId } = recorded.context
+		const autocompleteInput: AutocompleteInput = {
+			isUntitledFile: false,
+			completionId: crypto.randomUUID(),
+			filepath: "",
+			pos: { line: prefix.split("\n").length - 1, character: prefix.length - prefix.lastIndexOf("\n") - 1 },
+			recentlyVisitedRanges: [],
+			recentlyEditedRanges: [],
+		}
+		const { systemPrompt, userPrompt } = holeFiller.getPrompts(autocompleteInput, prefix, suffix, languageId)
+
+		const startTime = performance.now()
+		let result: ReplayResult
+		try {
+			const response = await source.complete(systemPrompt, userPrompt, recorded)
+			result = {
+				recorded,
+				completion: parseGhostResponse(response, prefix, suffix).text,
+				latencyMs: performance.now() - startTime,
+			}
+		} catch (error) {
+			result = {
+				recorded,
+				completion: "",
+				latencyMs: performance.now() - startTime,
+				error: error instanceof Error ? error.message : String(error),
+			}
+		}
+
+		results.push(result)
+		onResult?.(result, results.length - 1)
+	}
+
+	return results
+}
+
+/**
+ * Nearest-rank percentile of the values
+ */
+export function percentile(values: number[], p: number): number {
+	if (values.length === 0) {
+		return 0
+	}
+	const sorted = [...values].sort((a, b) => a - b)
+	return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)]
+}
+
+function rate(count: number, total: number): number {
+	return total > 0 ? count / total : 0
+}
+
+export function summarizeReplay(results: ReplayResult[]): ReplaySummary {
+	const succeeded = results.filter((result) => result.error === undefined)
+	const kept = succeeded.filter(({ recorded }) => recorded.event.outcome !== "rejected")
+	const rejected = succeeded.filter(({ recorded }) => recorded.event.outcome === "rejected")
+	const keptText = ({ event }: RecordedCompletion) => event.suggestion.slice(0, event.acceptedLength)
+	const latencies = succeeded.map((result) => result.latencyMs)
+
+	return {
+		total: results.length,
+		errors: results.length - succeeded.length,
+		recordedAcceptanceRate: rate(
+			results.filter(({ recorded }) => recorded.event.outcome === "accepted").length,
+			results.length,
+		),
+		recordedPartialRate: rate(
+			results.filter(({ recorded }) => recorded.event.outcome === "partial").length,
+			results.length,
+		),
+		exactMatchRate: rate(
+			kept.filter((result) => result.completion === keptText(result.recorded)).length,
+			kept.length,
+		),
+		acceptanceProxyRate: rate(
+			kept.filter((result) => result.completion && result.completion.startsWith(keptText(result.recorded)))
+				.length,
+			kept.length,
+		),
+		repeatedRejectionRate: rate(
+			rejected.filter((result) => result.completion && result.completion === result.recorded.event.suggestion)
+				.length,
+			rejected.length,
+		),
+		emptyRate: rate(succeeded.filter((result) => !result.completion).length, succeeded.length),
+		latency: {
+			p50: percentile(latencies, 50),
+			p90: percentile(latencies, 90),
+			p99: percentile(latencies, 99),
+		},
+	}
+}
@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+
+import fs from "fs"
+import { LLMClient } from "./llm-client.js"
+import {
+	CompletionSource,
+	createApiHandlerSource,
+	createFakeSource,
+	loadRecordedCompletions,
+	replayCompletions,
+	summarizeReplay,
+} from "./replay-harness.js"
+
+function getOption(args: string[], name: string): string | undefined {
+	const index = args.indexOf(name)
+	return index !== -1 ? args[index + 1] : undefined
+}
+
+async function createSource(args: string[]): Promise<CompletionSource> {
+	if (args.includes("--fake")) {
+		return createFakeSource()
+	}
+
+	const providerSettingsPath = getOption(args, "--provider-settings")
+	if (providerSettingsPath) {
+		// Only loaded when needed, the providers pull in most of the extension
+		const { buildApiHandler } = await import("../api/index.js")
+		const providerSettings = JSON.parse(fs.readFileSync(providerSettingsPath, "utf8"))
+		return createApiHandlerSource(providerSettings.apiProvider ?? "api-handler", buildApiHandler(providerSettings))
+	}
+
+	const llmClient = new LLMClient()
+	return {
+		name: "llm-client",
+		async complete(systemPrompt, userPrompt) {
+			return (await llmClient.sendPrompt(systemPrompt, userPrompt)).content
+		},
+	}
+}
+
+const formatRate = (value: number) => `${(value * 100).toFixed(1)}%`
+
+async function main() {
+	const args = process.argv.slice(2)
+	const dir = args.find((arg, index) => !arg.startsWith("-") && args[index - 1] !== "--provider-settings")
+	const limit = Number(getOption(args, "--limit") ?? Infinity)
+
+	if (!dir) {
+		console.error(
+			"Usage: tsx replay.ts <recorded-events-dir> [--fake | --provider-settings <file.json>] [--limit N]",
+		)
+		process.exit(1)
+	}
+
+	const { completions, missingContexts } = loadRecordedCompletions(dir)
+	const selected = completions.slice(-limit)
+	const source = await createSource(args)
+
+	console.log(`\n🔁 Replaying ${selected.length} recorded completions with ${source.name}`)
+	if (missingContexts > 0) {
+		console.log(
+			`   (${missingContexts} events skipped, their context was not recorded: enable recording the code around the cursor in the Autocomplete settings)`,
+		)
+	}
+	console.log("\n" + "─".repeat(80) + "\n")
+
+	const results = await replayCompletions(selected, source, (result, index) => {
+		const status = result.error ? `✗ ${result.error}` : result.completion ? "✓" : "∅"
+		console.log(`  ${index + 1}/${selected.length} [${result.recorded.event.outcome}] ${status}`)
+	})
+	const summary = summarizeReplay(results)
+
+	console.log("\n" + "═".repeat(80))
+	console.log("\n📊 Replay Summary\n")
+	console.log(`  Completions: ${summary.total} (${summary.errors} errors)`)
+	console.log(`  Recorded acceptance: ${formatRate(summary.recordedAcceptanceRate)}`)
+	console.log(`  Recorded partial acceptance: ${formatRate(summary.recordedPartialRate)}`)
+	console.log(`  Exact match: ${formatRate(summary.exactMatchRate)}`)
+	console.log(`  Acceptance proxy: ${formatRate(summary.acceptanceProxyRate)}`)
+	console.log(`  Repeated rejections: ${formatRate(summary.repeatedRejectionRate)}`)
+	console.log(`  Empty completions: ${formatRate(summary.emptyRate)}`)
+	console.log("\n⚡ Latency:")
+	console.log(`  p50: ${summary.latency.p50.toFixed(0)}ms`)
+	console.log(`  p90: ${summary.latency.p90.toFixed(0)}ms`)
+	console.log(`  p99: ${summary.latency.p99.toFixed(0)}ms`)
+	console.log("\n" + "═".repeat(80) + "\n")
+}
+
+main().catch((error) => {
+	console.error("\n❌ Fatal Error:", error)
+	process.exit(1)
+})
@@ -7,6 +7,7 @@ import {
 	searchCommits,
 	getCommitInfo,
 	getWorkingState,
+	getRefDiff, // kilocode_change
 	getGitRepositoryInfo,
 	sanitizeGitUrl,
 	extractRepositoryName,
@@ -438,6 +439,41 @@ describe("git utils", () => {
 			expect(result).toBe("Not a git repository")
 		})
 	})
+
+	// kilocode_change start
+	describe("getRefDiff", () => {
+		const mockDiff = "@@ -1,1 +1,2 @@\n-old line\n+new line"
+
+		it("should return the diff of a ref range", async () => {
+			const responses = new Map([
+				["git --version", { stdout: "git version 2.39.2", stderr: "" }],
+				["git rev-parse --git-dir", { stdout: ".git", stderr: "" }],
+				["git diff main..HEAD", { stdout: mockDiff, stderr: "" }],
+				["git diff --stat main..HEAD", { stdout: " src/file1.ts | 2 +-", stderr: "" }],
+			])
+
+			vitest.mocked(exec).mockImplementation((command: string, options: any, callback: any) => {
+				const response = responses.get(command)
+				if (response) {
+					callback(null, response)
+				} else {
+					callback(new Error("Unexpected command"))
+				}
+				return {} as any
+			})
+
+			const result = await getRefDiff("main..HEAD", cwd)
+			expect(result).toBe(`Changes in main..HEAD:\n\nsrc/file1.ts | 2 +-\n\n${mockDiff}`)
+			expect(vitest.mocked(truncateOutput)).toHaveBeenCalled()
+		})
+
+		it("should reject refs that are not ref names", async () => {
+			expect(await getRefDiff("main; rm -rf /", cwd)).toBe("Invalid git ref: main; rm -rf /")
+			expect(await getRefDiff("--output=/tmp/x", cwd)).toBe("Invalid git ref: --output=/tmp/x")
+			expect(exec).not.toHaveBeenCalled()
+		})
+	})
+	// kilocode_change end
 })
 
 describe("getGitRepositoryInfo", () => {
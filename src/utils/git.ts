@@ -355,3 +355,39 @@ export async function getWorkingState(cwd: string): Promise<string> {
 		return `Failed to get working state: ${error instanceof Error ? error.message : String(error)}`
 	}
 }
+
+// kilocode_change start
+/**
+ * Gets the diff for a ref or a range such as `main..HEAD`
+ */
+export async function getRefDiff(ref: string, cwd: string): Promise<string> {
+	try {
+		// The ref ends up in a shell command, only allow the characters of ref names and ranges
+		if (!/^[\w./~^-]+$/.test(ref) || ref.startsWith("-")) {
+			return `Invalid git ref: ${ref}`
+		}
+
+		const isInstalled = await checkGitInstalled()
+		if (!isInstalled) {
+			return "Git is not installed"
+		}
+
+		const isRepo = await checkGitRepo(cwd)
+		if (!isRepo) {
+			return "Not a git repository"
+		}
+
+		const { stdout: diff } = await execAsync(`git diff ${ref}`, { cwd })
+		if (!diff.trim()) {
+			return `No changes in ${ref}`
+		}
+
+		const { stdout: stats } = await execAsync(`git diff --stat ${ref}`, { cwd })
+		const output = `Changes in ${ref}:\n\n${stats.trim()}\n\n${diff.trim()}`
+		return truncateOutput(output, GIT_OUTPUT_LINE_LIMIT)
+	} catch (error) {
+		console.error("Error getting diff:", error)
+		return `Failed to get diff for ${ref}: ${error instanceof Error ? error.message : String(error)}`
+	}
+}
+// kilocode_change end
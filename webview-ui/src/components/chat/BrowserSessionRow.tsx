@@ -456,6 +456,7 @@ const BrowserSessionRowContent = ({
 							action={browserAction.action}
 							coordinate={browserAction.coordinate}
 							text={browserAction.text}
+							selector={browserAction.selector} // kilocode_change
 						/>
 					)
 
@@ -493,10 +494,12 @@ const BrowserActionBox = ({
 	action,
 	coordinate,
 	text,
+	selector, // kilocode_change
 }: {
 	action: BrowserAction
 	coordinate?: string
 	text?: string
+	selector?: string // kilocode_change
 }) => {
 	const { t } = useTranslation()
 	const getBrowserActionText = (action: BrowserAction, coordinate?: string, text?: string) => {
@@ -504,6 +507,11 @@ const BrowserActionBox = ({
 			case "launch":
 				return t("chat:browser.actions.launch", { url: text })
 			case "click":
+				// kilocode_change start
+				if (selector) {
+					return t("chat:browser.actions.clickElement", { selector })
+				}
+				// kilocode_change end
 				return t("chat:browser.actions.click", {
 					// kilocode_change start: tasks created by older extension versions may have a different type coordinate
 					coordinate: typeof coordinate === "string" ? coordinate.replace(",", ", ") : coordinate,
@@ -517,6 +525,22 @@ const BrowserActionBox = ({
 				return t("chat:browser.actions.scrollUp")
 			case "close":
 				return t("chat:browser.actions.close")
+			// kilocode_change start
+			case "snapshot":
+				return t("chat:browser.actions.snapshot")
+			case "fill":
+				return t("chat:browser.actions.fill", { selector, text })
+			case "select":
+				return t("chat:browser.actions.select", { selector, text })
+			case "press":
+				return t("chat:browser.actions.press", { key: text })
+			case "wait_for":
+				return t("chat:browser.actions.waitFor", { target: selector ?? text })
+			case "evaluate":
+				return t("chat:browser.actions.evaluate")
+			case "network_log":
+				return t("chat:browser.actions.networkLog")
+			// kilocode_change end
 			default:
 				return action
 		}
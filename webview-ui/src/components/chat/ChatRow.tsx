@@ -41,6 +41,7 @@ import { CommandExecutionError } from "./CommandExecutionError"
 import ReportBugPreview from "./ReportBugPreview"
 
 import { NewTaskPreview } from "../kilocode/chat/NewTaskPreview" // kilocode_change
+import { ProviderRoutingBadge } from "../kilocode/chat/ProviderRoutingBadge" // kilocode_change
 import { KiloChatRowGutterBar } from "../kilocode/chat/KiloChatRowGutterBar" // kilocode_change
 import { AutoApprovedRequestLimitWarning } from "./AutoApprovedRequestLimitWarning"
 import { CondenseContextErrorRow, CondensingContextRow, ContextCondenseRow } from "./ContextCondenseRow"
@@ -52,6 +53,9 @@ import { McpExecution } from "./McpExecution"
 import { ChatTextArea } from "./ChatTextArea"
 import { MAX_IMAGES_PER_MESSAGE } from "./ChatView"
 import { InvalidModelWarning } from "../kilocode/chat/InvalidModelWarning" // kilocode_change
+import { McpSamplingRequest } from "../kilocode/chat/McpSamplingRequest" // kilocode_change
+import { McpElicitationForm } from "../kilocode/chat/McpElicitationForm" // kilocode_change
+import type { McpElicitationRequest } from "../../../../src/shared/kilocode/mcp" // kilocode_change
 import { useSelectedModel } from "../ui/hooks/useSelectedModel"
 import {
 	Eye,
@@ -288,9 +292,12 @@ export const ChatRowContent = ({
 							style={{ color: normalColor, marginBottom: "-1.5px" }}></span>
 					),
 					<span style={{ color: normalColor, fontWeight: "bold" }}>
-						{mcpServerUse.type === "use_mcp_tool"
-							? t("chat:mcp.wantsToUseTool", { serverName: mcpServerUse.serverName })
-							: t("chat:mcp.wantsToAccessResource", { serverName: mcpServerUse.serverName })}
+						{/* kilocode_change: sampling title */}
+						{mcpServerUse.type === "sampling"
+							? t("chat:mcp.wantsToSample", { serverName: mcpServerUse.serverName })
+							: mcpServerUse.type === "use_mcp_tool"
+								? t("chat:mcp.wantsToUseTool", { serverName: mcpServerUse.serverName })
+								: t("chat:mcp.wantsToAccessResource", { serverName: mcpServerUse.serverName })}
 					</span>,
 				]
 			case "completion_result":
@@ -991,6 +998,25 @@ export const ChatRowContent = ({
 					</>
 				)
 			}
+			// kilocode_change start
+			case "killBackgroundJob":
+				return (
+					<>
+						<div style={headerStyle}>
+							{toolIcon("debug-stop")}
+							<span style={{ fontWeight: "bold" }}>
+								{message.type === "ask"
+									? t("chat:backgroundJobs.wantsToKill", { jobId: tool.jobId })
+									: t("chat:backgroundJobs.didKill", { jobId: tool.jobId })}
+							</span>
+						</div>
+						<div className="mt-1 px-3 py-2 rounded border border-vscode-editorGroup-border bg-vscode-editor-background">
+							<code className="font-medium break-all">{tool.command}</code>
+							<div className="text-vscode-descriptionForeground text-sm">{tool.path}</div>
+						</div>
+					</>
+				)
+			// kilocode_change end
 			case "generateImage":
 				return (
 					<>
@@ -1119,6 +1145,9 @@ export const ChatRowContent = ({
 									</div>
 									{/* kilocode_change end */}
 								</div>
+								{/* kilocode_change start */}
+								<ProviderRoutingBadge text={message.text} />
+								{/* kilocode_change end */}
 								<div
 									className="text-xs text-vscode-dropdown-foreground border-vscode-dropdown-border/50 border px-1.5 py-0.5 rounded-lg"
 									style={{ opacity: shouldShowCost ? 1 : 0 }}>
@@ -1562,6 +1591,15 @@ export const ChatRowContent = ({
 										alwaysAllowMcp={alwaysAllowMcp}
 									/>
 								)}
+								{/* kilocode_change start */}
+								{useMcpServer.type === "sampling" && (
+									<McpSamplingRequest
+										useMcpServer={useMcpServer}
+										server={server}
+										alwaysAllowMcp={alwaysAllowMcp}
+									/>
+								)}
+								{/* kilocode_change end */}
 							</div>
 						</>
 					)
@@ -1611,6 +1649,28 @@ export const ChatRowContent = ({
 					)
 
 				// kilocode_change begin
+				case "mcp_elicitation": {
+					const elicitation = safeJsonParse<McpElicitationRequest>(message.text)
+					if (!elicitation) {
+						return null
+					}
+					return (
+						<>
+							<div style={headerStyle}>
+								<span
+									className="codicon codicon-server"
+									style={{ color: normalColor, marginBottom: "-1.5px" }}></span>
+								<span style={{ color: normalColor, fontWeight: "bold" }}>
+									{t("chat:mcp.wantsInput", { serverName: elicitation.serverName })}
+								</span>
+							</div>
+							<div className="flex flex-col gap-2 ml-6">
+								<Markdown markdown={elicitation.message} />
+								<McpElicitationForm request={elicitation} isActive={isLast} />
+							</div>
+						</>
+					)
+				}
 				case "condense":
 					return (
 						<>
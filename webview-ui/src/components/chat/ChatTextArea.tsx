@@ -14,9 +14,12 @@ import {
 	ContextMenuOptionType,
 	getContextMenuOptions,
 	insertMention,
+	insertMentionPrefix, // kilocode_change
 	removeMention,
 	shouldShowContextMenu,
 	SearchResult,
+	SYMBOL_MENTION_PREFIX, // kilocode_change
+	DIFF_MENTION_PREFIX, // kilocode_change
 } from "@src/utils/context-mentions"
 import { convertToMentionPath } from "@/utils/path-mentions"
 import { DropdownOptionType, Button, StandardTooltip } from "@/components/ui" // kilocode_change
@@ -110,6 +113,7 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 			togglePinnedApiConfig,
 			localWorkflows, // kilocode_change
 			globalWorkflows, // kilocode_change
+			mcpServers, // kilocode_change
 			taskHistoryVersion, // kilocode_change
 			clineMessages,
 		} = useExtensionState()
@@ -398,6 +402,27 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 					}
 				}
 
+				// kilocode_change start: symbol and diff mentions need an argument, keep the menu open to type it
+				if (
+					(type === ContextMenuOptionType.Symbol || type === ContextMenuOptionType.Diff) &&
+					!value &&
+					textAreaRef.current
+				) {
+					const prefix = type === ContextMenuOptionType.Symbol ? SYMBOL_MENTION_PREFIX : DIFF_MENTION_PREFIX
+					const { newValue, newPosition } = insertMentionPrefix(
+						textAreaRef.current.value,
+						cursorPosition,
+						prefix,
+					)
+					setInputValue(newValue)
+					setCursorPosition(newPosition)
+					setIntendedCursorPosition(newPosition)
+					setSearchQuery(prefix)
+					setSelectedMenuIndex(0)
+					return
+				}
+				// kilocode_change end
+
 				setShowContextMenu(false)
 				setSelectedType(null)
 
@@ -414,6 +439,12 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 						insertValue = "terminal"
 					} else if (type === ContextMenuOptionType.Git) {
 						insertValue = value || ""
+						// kilocode_change start
+					} else if (type === ContextMenuOptionType.Tests) {
+						insertValue = "tests"
+					} else if (type === ContextMenuOptionType.FolderTree) {
+						insertValue = value || "folder-tree"
+						// kilocode_change end
 					}
 
 					const { newValue, mentionIndex } = insertMention(
@@ -494,6 +525,7 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 								customModes,
 								localWorkflows,
 								globalWorkflows,
+								mcpServers,
 							) // kilocode_change
 
 							if (commands.length === 0) {
@@ -513,6 +545,7 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 							customModes,
 							localWorkflows,
 							globalWorkflows,
+							mcpServers,
 						) // kilocode_change
 						if (commands.length > 0) {
 							handleSlashCommandsSelect(commands[selectedSlashCommandsIndex])
@@ -656,6 +689,7 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 				showSlashCommandsMenu,
 				localWorkflows,
 				globalWorkflows,
+				mcpServers,
 				customModes,
 				handleSlashCommandsSelect,
 				selectedSlashCommandsIndex,
@@ -921,7 +955,7 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 
 				// extract and validate the exact command text
 				const commandText = processedText.substring(slashIndex + 1, endIndex)
-				const isValidCommand = validateSlashCommand(commandText, customModes)
+				const isValidCommand = validateSlashCommand(commandText, customModes, {}, {}, mcpServers) // kilocode_change
 
 				if (isValidCommand) {
 					const fullCommand = processedText.substring(slashIndex, endIndex) // includes slash
@@ -936,7 +970,7 @@ export const ChatTextArea = forwardRef<HTMLTextAreaElement, ChatTextAreaProps>(
 			highlightLayerRef.current.innerHTML = processedText
 			highlightLayerRef.current.scrollTop = textAreaRef.current.scrollTop
 			highlightLayerRef.current.scrollLeft = textAreaRef.current.scrollLeft
-		}, [customModes])
+		}, [customModes, mcpServers]) // kilocode_change
 
 		useLayoutEffect(() => {
 			updateHighlights()
@@ -15,7 +15,7 @@ import type { ClineAsk, ClineMessage, McpServerUse } from "@roo-code/types"
 
 import { ClineSayBrowserAction, ClineSayTool, ExtensionMessage } from "@roo/ExtensionMessage"
 import { McpServer, McpTool } from "@roo/mcp"
-import { findLast } from "@roo/array"
+import { findLast, findLastIndex } from "@roo/array" // kilocode_change: findLastIndex
 import { FollowUpData, SuggestionItem } from "@roo-code/types"
 import { combineApiRequests } from "@roo/combineApiRequests"
 import { combineCommandSequences } from "@roo/combineCommandSequences"
@@ -62,6 +62,7 @@ import { CheckpointWarning } from "./CheckpointWarning"
 import { IdeaSuggestionsBox } from "../kilocode/chat/IdeaSuggestionsBox" // kilocode_change
 import { KilocodeNotifications } from "../kilocode/KilocodeNotifications" // kilocode_change
 import { QueuedMessages } from "./QueuedMessages"
+import { BackgroundJobs } from "../kilocode/chat/BackgroundJobs" // kilocode_change
 import { buildDocLink } from "@/utils/docLinks"
 // import DismissibleUpsell from "../common/DismissibleUpsell" // kilocode_change: unused
 // import { useCloudUpsell } from "@src/hooks/useCloudUpsell" // kilocode_change: unused
@@ -136,6 +137,7 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 		// cloudIsAuthenticated, // kilocode_change
 		messageQueue = [],
 		sendMessageOnEnter, // kilocode_change
+		backgroundJobs = [], // kilocode_change
 	} = useExtensionState()
 
 	const messagesRef = useRef(messages)
@@ -217,6 +219,7 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 	const autoApproveTimeoutRef = useRef<NodeJS.Timeout | null>(null)
 	const userRespondedRef = useRef<boolean>(false)
 	const [currentFollowUpTs, setCurrentFollowUpTs] = useState<number | null>(null)
+	const [pendingScrollTarget, setPendingScrollTarget] = useState<{ taskId: string; ts: number } | null>(null) // kilocode_change
 
 	const clineAskRef = useRef(clineAsk)
 	useEffect(() => {
@@ -438,6 +441,17 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 							setDidClickCancel(false)
 							break
 						// kilocode_change begin
+						case "mcp_elicitation":
+							if (!isPartial) {
+								playSound("notification")
+							}
+							setSendingDisabled(isPartial)
+							setClineAsk("mcp_elicitation")
+							// The form in the chat row has its own buttons
+							setEnableButtons(false)
+							setPrimaryButtonText(undefined)
+							setSecondaryButtonText(undefined)
+							break
 						case "report_bug":
 							if (!isPartial) {
 								playSound("notification")
@@ -669,6 +683,7 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 						case "resume_task":
 						case "resume_completed_task":
 						case "mistake_limit_reached":
+						case "mcp_elicitation": // kilocode_change: answers typed as name=value pairs
 							vscode.postMessage({
 								type: "askResponse",
 								askResponse: "messageResponse",
@@ -868,6 +883,13 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 							break
 					}
 					break
+				// kilocode_change start
+				case "scrollToMessage":
+					if (message.text && message.messageTs) {
+						setPendingScrollTarget({ taskId: message.text, ts: message.messageTs })
+					}
+					break
+				// kilocode_change end
 				case "condenseTaskContextResponse":
 					if (message.text && message.text === currentTaskItem?.id) {
 						if (isCondensing && sendingDisabled) {
@@ -1079,6 +1101,13 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 					const tool = server?.tools?.find((t: McpTool) => t.name === mcpServerUse.toolName)
 					return tool?.alwaysAllow || false
 				}
+
+				// kilocode_change start
+				if (mcpServerUse.type === "sampling") {
+					const server = mcpServers?.find((s: McpServer) => s.name === mcpServerUse.serverName)
+					return server?.alwaysAllowSampling || false
+				}
+				// kilocode_change end
 			}
 
 			return false
@@ -1155,6 +1184,12 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 				return false
 			}
 
+			// kilocode_change start: the mode requires approval for this tool
+			if (message.requiresApproval) {
+				return false
+			}
+			// kilocode_change end
+
 			if (message.ask === "followup") {
 				return alwaysAllowFollowupQuestions
 			}
@@ -1175,6 +1210,11 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 					if (mcpServerUse.type === "use_mcp_tool") {
 						// For tools, check if the specific tool is always allowed
 						return alwaysAllowMcp && isMcpToolAlwaysAllowed(message)
+						// kilocode_change start
+					} else if (mcpServerUse.type === "sampling") {
+						// Sampling is auto-approved per server
+						return alwaysAllowMcp && isMcpToolAlwaysAllowed(message)
+						// kilocode_change end
 					} else if (mcpServerUse.type === "access_mcp_resource") {
 						// For resources, auto-approve if MCP is always allowed
 						// Resources don't have individual alwaysAllow settings like tools do
@@ -1228,6 +1268,12 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 					return alwaysAllowSubtasks
 				}
 
+				// kilocode_change start: stopping a command is allowed along with running commands
+				if (tool?.tool === "killBackgroundJob") {
+					return alwaysAllowExecute
+				}
+				// kilocode_change end
+
 				const isOutsideWorkspace = !!tool.isOutsideWorkspace
 				const isProtected = message.isProtected
 
@@ -1463,6 +1509,24 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 			}
 		}
 	}, [])
+
+	// Scroll to the message found by the history search once its task is shown
+	useEffect(() => {
+		if (!pendingScrollTarget || pendingScrollTarget.taskId !== currentTaskItem?.id) {
+			return
+		}
+
+		// Api messages found by the search are between the visible messages, use the closest one before them
+		const index = findLastIndex(
+			groupedMessages,
+			(group) => (Array.isArray(group) ? group[0] : group).ts <= pendingScrollTarget.ts,
+		)
+		if (index !== -1) {
+			disableAutoScrollRef.current = true
+			handleMessageClick(index)
+			setPendingScrollTarget(null)
+		}
+	}, [pendingScrollTarget, currentTaskItem?.id, groupedMessages, handleMessageClick])
 	// kilocode_change end
 
 	const handleSetExpandedRow = useCallback(
@@ -2172,6 +2236,9 @@ const ChatViewComponent: React.ForwardRefRenderFunction<ChatViewRef, ChatViewPro
 				</>
 			)}
 
+			{/* kilocode_change start */}
+			<BackgroundJobs jobs={backgroundJobs} />
+			{/* kilocode_change end */}
 			<QueuedMessages
 				queue={messageQueue}
 				onRemove={(index) => {
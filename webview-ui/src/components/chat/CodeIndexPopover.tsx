@@ -58,12 +58,14 @@ interface LocalCodeIndexSettings {
 	// Global state settings
 	codebaseIndexEnabled: boolean
 	codebaseIndexQdrantUrl: string
+	codebaseIndexVectorStoreProvider: "qdrant" | "local" // kilocode_change
 	codebaseIndexEmbedderProvider: EmbedderProvider
 	codebaseIndexEmbedderBaseUrl?: string
 	codebaseIndexEmbedderModelId: string
 	codebaseIndexEmbedderModelDimension?: number // Generic dimension for all providers
 	codebaseIndexSearchMaxResults?: number
 	codebaseIndexSearchMinScore?: number
+	codebaseIndexSearchKeywordWeight?: number // kilocode_change
 
 	// Secret settings (start empty, will be loaded separately)
 	codeIndexOpenAiKey?: string
@@ -76,13 +78,22 @@ interface LocalCodeIndexSettings {
 }
 
 // Validation schema for codebase index settings
-const createValidationSchema = (provider: EmbedderProvider, t: any) => {
+const createValidationSchema = (
+	provider: EmbedderProvider,
+	t: any,
+	vectorStoreProvider: LocalCodeIndexSettings["codebaseIndexVectorStoreProvider"] = "qdrant", // kilocode_change
+) => {
 	const baseSchema = z.object({
 		codebaseIndexEnabled: z.boolean(),
-		codebaseIndexQdrantUrl: z
-			.string()
-			.min(1, t("settings:codeIndex.validation.qdrantUrlRequired"))
-			.url(t("settings:codeIndex.validation.invalidQdrantUrl")),
+		// kilocode_change start: the local vector store does not need a Qdrant server
+		codebaseIndexQdrantUrl:
+			vectorStoreProvider === "local"
+				? z.string().optional()
+				: z
+						.string()
+						.min(1, t("settings:codeIndex.validation.qdrantUrlRequired"))
+						.url(t("settings:codeIndex.validation.invalidQdrantUrl")),
+		// kilocode_change end
 		codeIndexQdrantApiKey: z.string().optional(),
 	})
 
@@ -149,6 +160,15 @@ const createValidationSchema = (provider: EmbedderProvider, t: any) => {
 					.min(1, t("settings:codeIndex.validation.modelSelectionRequired")),
 			})
 
+		// kilocode_change start
+		case "local":
+			return baseSchema.extend({
+				codebaseIndexEmbedderModelId: z
+					.string()
+					.min(1, t("settings:codeIndex.validation.modelSelectionRequired")),
+			})
+		// kilocode_change end
+
 		default:
 			return baseSchema
 	}
@@ -181,12 +201,14 @@ export const CodeIndexPopover: React.FC<CodeIndexPopoverProps> = ({
 	const getDefaultSettings = (): LocalCodeIndexSettings => ({
 		codebaseIndexEnabled: true,
 		codebaseIndexQdrantUrl: "",
+		codebaseIndexVectorStoreProvider: "qdrant", // kilocode_change
 		codebaseIndexEmbedderProvider: "openai",
 		codebaseIndexEmbedderBaseUrl: "",
 		codebaseIndexEmbedderModelId: "",
 		codebaseIndexEmbedderModelDimension: undefined,
 		codebaseIndexSearchMaxResults: CODEBASE_INDEX_DEFAULTS.DEFAULT_SEARCH_RESULTS,
 		codebaseIndexSearchMinScore: CODEBASE_INDEX_DEFAULTS.DEFAULT_SEARCH_MIN_SCORE,
+		codebaseIndexSearchKeywordWeight: CODEBASE_INDEX_DEFAULTS.DEFAULT_SEARCH_KEYWORD_WEIGHT, // kilocode_change
 		codeIndexOpenAiKey: "",
 		codeIndexQdrantApiKey: "",
 		codebaseIndexOpenAiCompatibleBaseUrl: "",
@@ -213,6 +235,7 @@ export const CodeIndexPopover: React.FC<CodeIndexPopoverProps> = ({
 			const settings = {
 				codebaseIndexEnabled: codebaseIndexConfig.codebaseIndexEnabled ?? true,
 				codebaseIndexQdrantUrl: codebaseIndexConfig.codebaseIndexQdrantUrl || "",
+				codebaseIndexVectorStoreProvider: codebaseIndexConfig.codebaseIndexVectorStoreProvider || "qdrant", // kilocode_change
 				codebaseIndexEmbedderProvider: codebaseIndexConfig.codebaseIndexEmbedderProvider || "openai",
 				codebaseIndexEmbedderBaseUrl: codebaseIndexConfig.codebaseIndexEmbedderBaseUrl || "",
 				codebaseIndexEmbedderModelId: codebaseIndexConfig.codebaseIndexEmbedderModelId || "",
@@ -222,6 +245,11 @@ export const CodeIndexPopover: React.FC<CodeIndexPopoverProps> = ({
 					codebaseIndexConfig.codebaseIndexSearchMaxResults ?? CODEBASE_INDEX_DEFAULTS.DEFAULT_SEARCH_RESULTS,
 				codebaseIndexSearchMinScore:
 					codebaseIndexConfig.codebaseIndexSearchMinScore ?? CODEBASE_INDEX_DEFAULTS.DEFAULT_SEARCH_MIN_SCORE,
+				// kilocode_change start
+				codebaseIndexSearchKeywordWeight:
+					codebaseIndexConfig.codebaseIndexSearchKeywordWeight ??
+					CODEBASE_INDEX_DEFAULTS.DEFAULT_SEARCH_KEYWORD_WEIGHT,
+				// kilocode_change end
 				codeIndexOpenAiKey: "",
 				codeIndexQdrantApiKey: "",
 				codebaseIndexOpenAiCompatibleBaseUrl: codebaseIndexConfig.codebaseIndexOpenAiCompatibleBaseUrl || "",
@@ -405,7 +433,11 @@ export const CodeIndexPopover: React.FC<CodeIndexPopoverProps> = ({
 
 	// Validation function
 	const validateSettings = (): boolean => {
-		const schema = createValidationSchema(currentSettings.codebaseIndexEmbedderProvider, t)
+		const schema = createValidationSchema(
+			currentSettings.codebaseIndexEmbedderProvider,
+			t,
+			currentSettings.codebaseIndexVectorStoreProvider, // kilocode_change
+		)
 
 		// Prepare data for validation
 		const dataToValidate: any = {}
@@ -680,6 +712,13 @@ export const CodeIndexPopover: React.FC<CodeIndexPopoverProps> = ({
 												<SelectItem value="vercel-ai-gateway">
 													{t("settings:codeIndex.vercelAiGatewayProvider")}
 												</SelectItem>
+												{/* kilocode_change start: only offered by builds that bundle its model */}
+												{codebaseIndexModels?.local && (
+													<SelectItem value="local">
+														{t("settings:codeIndex.localProvider")}
+													</SelectItem>
+												)}
+												{/* kilocode_change end */}
 											</SelectContent>
 										</Select>
 									</div>
@@ -1142,54 +1181,132 @@ export const CodeIndexPopover: React.FC<CodeIndexPopoverProps> = ({
 										</>
 									)}
 
-									{/* Qdrant Settings */}
-									<div className="space-y-2">
-										<label className="text-sm font-medium">
-											{t("settings:codeIndex.qdrantUrlLabel")}
-										</label>
-										<VSCodeTextField
-											value={currentSettings.codebaseIndexQdrantUrl || ""}
-											onInput={(e: any) =>
-												updateSetting("codebaseIndexQdrantUrl", e.target.value)
-											}
-											onBlur={(e: any) => {
-												// Set default Qdrant URL if field is empty
-												if (!e.target.value.trim()) {
-													currentSettings.codebaseIndexQdrantUrl = DEFAULT_QDRANT_URL
-													updateSetting("codebaseIndexQdrantUrl", DEFAULT_QDRANT_URL)
-												}
-											}}
-											placeholder={t("settings:codeIndex.qdrantUrlPlaceholder")}
-											className={cn("w-full", {
-												"border-red-500": formErrors.codebaseIndexQdrantUrl,
-											})}
-										/>
-										{formErrors.codebaseIndexQdrantUrl && (
-											<p className="text-xs text-vscode-errorForeground mt-1 mb-0">
-												{formErrors.codebaseIndexQdrantUrl}
+									{/* kilocode_change start */}
+									{currentSettings.codebaseIndexEmbedderProvider === "local" && (
+										<div className="space-y-2">
+											<p className="text-xs text-vscode-descriptionForeground m-0">
+												{t("settings:codeIndex.localProviderDescription")}
 											</p>
-										)}
-									</div>
+											<label className="text-sm font-medium">
+												{t("settings:codeIndex.modelLabel")}
+											</label>
+											<VSCodeDropdown
+												value={currentSettings.codebaseIndexEmbedderModelId}
+												onChange={(e: any) =>
+													updateSetting("codebaseIndexEmbedderModelId", e.target.value)
+												}
+												className={cn("w-full", {
+													"border-red-500": formErrors.codebaseIndexEmbedderModelId,
+												})}>
+												<VSCodeOption value="" className="p-2">
+													{t("settings:codeIndex.selectModel")}
+												</VSCodeOption>
+												{getAvailableModels().map((modelId) => {
+													const model = codebaseIndexModels?.local?.[modelId]
+													return (
+														<VSCodeOption key={modelId} value={modelId} className="p-2">
+															{modelId}{" "}
+															{model
+																? t("settings:codeIndex.modelDimensions", {
+																		dimension: model.dimension,
+																	})
+																: ""}
+														</VSCodeOption>
+													)
+												})}
+											</VSCodeDropdown>
+											{formErrors.codebaseIndexEmbedderModelId && (
+												<p className="text-xs text-vscode-errorForeground mt-1 mb-0">
+													{formErrors.codebaseIndexEmbedderModelId}
+												</p>
+											)}
+										</div>
+									)}
 
 									<div className="space-y-2">
 										<label className="text-sm font-medium">
-											{t("settings:codeIndex.qdrantApiKeyLabel")}
+											{t("settings:codeIndex.vectorStoreProviderLabel")}
 										</label>
-										<VSCodeTextField
-											type="password"
-											value={currentSettings.codeIndexQdrantApiKey || ""}
-											onInput={(e: any) => updateSetting("codeIndexQdrantApiKey", e.target.value)}
-											placeholder={t("settings:codeIndex.qdrantApiKeyPlaceholder")}
-											className={cn("w-full", {
-												"border-red-500": formErrors.codeIndexQdrantApiKey,
-											})}
-										/>
-										{formErrors.codeIndexQdrantApiKey && (
-											<p className="text-xs text-vscode-errorForeground mt-1 mb-0">
-												{formErrors.codeIndexQdrantApiKey}
+										<Select
+											value={currentSettings.codebaseIndexVectorStoreProvider}
+											onValueChange={(
+												value: LocalCodeIndexSettings["codebaseIndexVectorStoreProvider"],
+											) => updateSetting("codebaseIndexVectorStoreProvider", value)}>
+											<SelectTrigger className="w-full">
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												<SelectItem value="qdrant">
+													{t("settings:codeIndex.qdrantVectorStore")}
+												</SelectItem>
+												<SelectItem value="local">
+													{t("settings:codeIndex.localVectorStore")}
+												</SelectItem>
+											</SelectContent>
+										</Select>
+										{currentSettings.codebaseIndexVectorStoreProvider === "local" && (
+											<p className="text-xs text-vscode-descriptionForeground mt-1 mb-0">
+												{t("settings:codeIndex.localVectorStoreDescription")}
 											</p>
 										)}
 									</div>
+									{/* kilocode_change end */}
+
+									{/* Qdrant Settings */}
+									{/* kilocode_change: only for the Qdrant vector store */}
+									{currentSettings.codebaseIndexVectorStoreProvider === "qdrant" && (
+										<>
+											<div className="space-y-2">
+												<label className="text-sm font-medium">
+													{t("settings:codeIndex.qdrantUrlLabel")}
+												</label>
+												<VSCodeTextField
+													value={currentSettings.codebaseIndexQdrantUrl || ""}
+													onInput={(e: any) =>
+														updateSetting("codebaseIndexQdrantUrl", e.target.value)
+													}
+													onBlur={(e: any) => {
+														// Set default Qdrant URL if field is empty
+														if (!e.target.value.trim()) {
+															currentSettings.codebaseIndexQdrantUrl = DEFAULT_QDRANT_URL
+															updateSetting("codebaseIndexQdrantUrl", DEFAULT_QDRANT_URL)
+														}
+													}}
+													placeholder={t("settings:codeIndex.qdrantUrlPlaceholder")}
+													className={cn("w-full", {
+														"border-red-500": formErrors.codebaseIndexQdrantUrl,
+													})}
+												/>
+												{formErrors.codebaseIndexQdrantUrl && (
+													<p className="text-xs text-vscode-errorForeground mt-1 mb-0">
+														{formErrors.codebaseIndexQdrantUrl}
+													</p>
+												)}
+											</div>
+
+											<div className="space-y-2">
+												<label className="text-sm font-medium">
+													{t("settings:codeIndex.qdrantApiKeyLabel")}
+												</label>
+												<VSCodeTextField
+													type="password"
+													value={currentSettings.codeIndexQdrantApiKey || ""}
+													onInput={(e: any) =>
+														updateSetting("codeIndexQdrantApiKey", e.target.value)
+													}
+													placeholder={t("settings:codeIndex.qdrantApiKeyPlaceholder")}
+													className={cn("w-full", {
+														"border-red-500": formErrors.codeIndexQdrantApiKey,
+													})}
+												/>
+												{formErrors.codeIndexQdrantApiKey && (
+													<p className="text-xs text-vscode-errorForeground mt-1 mb-0">
+														{formErrors.codeIndexQdrantApiKey}
+													</p>
+												)}
+											</div>
+										</>
+									)}
 								</div>
 							)}
 						</div>
@@ -1298,6 +1415,54 @@ export const CodeIndexPopover: React.FC<CodeIndexPopoverProps> = ({
 											</VSCodeButton>
 										</div>
 									</div>
+
+									{/* kilocode_change start */}
+									{/* Keyword Weight Slider */}
+									<div className="space-y-2">
+										<div className="flex items-center gap-2">
+											<label className="text-sm font-medium">
+												{t("settings:codeIndex.searchKeywordWeightLabel")}
+											</label>
+											<StandardTooltip
+												content={t("settings:codeIndex.searchKeywordWeightDescription")}>
+												<span className="codicon codicon-info text-xs text-vscode-descriptionForeground cursor-help" />
+											</StandardTooltip>
+										</div>
+										<div className="flex items-center gap-2">
+											<Slider
+												min={CODEBASE_INDEX_DEFAULTS.MIN_SEARCH_KEYWORD_WEIGHT}
+												max={CODEBASE_INDEX_DEFAULTS.MAX_SEARCH_KEYWORD_WEIGHT}
+												step={CODEBASE_INDEX_DEFAULTS.SEARCH_KEYWORD_WEIGHT_STEP}
+												value={[
+													currentSettings.codebaseIndexSearchKeywordWeight ??
+														CODEBASE_INDEX_DEFAULTS.DEFAULT_SEARCH_KEYWORD_WEIGHT,
+												]}
+												onValueChange={(values) =>
+													updateSetting("codebaseIndexSearchKeywordWeight", values[0])
+												}
+												className="flex-1"
+												data-testid="search-keyword-weight-slider"
+											/>
+											<span className="w-12 text-center">
+												{(
+													currentSettings.codebaseIndexSearchKeywordWeight ??
+													CODEBASE_INDEX_DEFAULTS.DEFAULT_SEARCH_KEYWORD_WEIGHT
+												).toFixed(2)}
+											</span>
+											<VSCodeButton
+												appearance="icon"
+												title={t("settings:codeIndex.resetToDefault")}
+												onClick={() =>
+													updateSetting(
+														"codebaseIndexSearchKeywordWeight",
+														CODEBASE_INDEX_DEFAULTS.DEFAULT_SEARCH_KEYWORD_WEIGHT,
+													)
+												}>
+												<span className="codicon codicon-discard" />
+											</VSCodeButton>
+										</div>
+									</div>
+									{/* kilocode_change end */}
 								</div>
 							)}
 						</div>
@@ -7,7 +7,13 @@ import type { ContextCondense } from "@roo-code/types"
 import { Markdown } from "./Markdown"
 import { ProgressIndicator } from "./ProgressIndicator"
 
-export const ContextCondenseRow = ({ cost, prevContextTokens, newContextTokens, summary }: ContextCondense) => {
+export const ContextCondenseRow = ({
+	cost,
+	prevContextTokens,
+	newContextTokens,
+	summary,
+	strategies, // kilocode_change
+}: ContextCondense) => {
 	const { t } = useTranslation()
 	const [isExpanded, setIsExpanded] = useState(false)
 
@@ -49,6 +55,24 @@ export const ContextCondenseRow = ({ cost, prevContextTokens, newContextTokens,
 
 			{isExpanded && (
 				<div className="mt-2 ml-0 p-4 bg-vscode-editor-background rounded text-vscode-foreground text-sm">
+					{/* kilocode_change start */}
+					{!!strategies?.length && (
+						<ul
+							className="m-0 mb-2 pl-4 text-vscode-descriptionForeground"
+							data-testid="condense-strategies">
+							{strategies.map(({ strategy, tokensSaved }) => (
+								<li key={strategy}>
+									{t("kilocode:chat.condense.tokensSaved", {
+										strategy: t(
+											`kilocode:settings.contextManagement.condensingStrategy.strategies.${strategy}`,
+										),
+										tokens: tokensSaved.toLocaleString(),
+									})}
+								</li>
+							))}
+						</ul>
+					)}
+					{/* kilocode_change end */}
 					<Markdown markdown={summary} />
 				</div>
 			)}
@@ -149,6 +149,30 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 			// kilocode_change start
 			case ContextMenuOptionType.Image:
 				return <span>Add Image</span>
+			case ContextMenuOptionType.Tests:
+				return <span>{t("kilocode:contextMenu.tests")}</span>
+			case ContextMenuOptionType.Symbol:
+			case ContextMenuOptionType.Diff:
+			case ContextMenuOptionType.FolderTree:
+				if (option.value && option.label) {
+					return (
+						<div style={{ display: "flex", flexDirection: "column", gap: 0 }}>
+							<span style={{ lineHeight: "1.2" }}>{option.label}</span>
+							<span style={{ fontSize: "0.85em", opacity: 0.7, lineHeight: "1.2" }}>
+								{option.description}
+							</span>
+						</div>
+					)
+				}
+				return (
+					<span>
+						{option.type === ContextMenuOptionType.Symbol
+							? t("kilocode:contextMenu.symbol")
+							: option.type === ContextMenuOptionType.Diff
+								? t("kilocode:contextMenu.diff")
+								: t("kilocode:contextMenu.folderTree")}
+					</span>
+				)
 			// kilocode_change end
 			case ContextMenuOptionType.Git:
 				if (option.value) {
@@ -235,6 +259,14 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 			// kilocode_change start
 			case ContextMenuOptionType.Image:
 				return "device-camera"
+			case ContextMenuOptionType.Symbol:
+				return "symbol-class"
+			case ContextMenuOptionType.Diff:
+				return "git-compare"
+			case ContextMenuOptionType.Tests:
+				return "beaker"
+			case ContextMenuOptionType.FolderTree:
+				return "list-tree"
 			// kilocode_change end
 			case ContextMenuOptionType.Git:
 				return "git-commit"
@@ -419,7 +451,9 @@ const ContextMenu: React.FC<ContextMenuProps> = ({
 							</div>
 							{(option.type === ContextMenuOptionType.File ||
 								option.type === ContextMenuOptionType.Folder ||
-								option.type === ContextMenuOptionType.Git) &&
+								option.type === ContextMenuOptionType.Git ||
+								option.type === ContextMenuOptionType.Symbol || // kilocode_change
+								option.type === ContextMenuOptionType.Diff) && // kilocode_change
 								!option.value && (
 									<i
 										className="codicon codicon-chevron-right"
@@ -19,7 +19,7 @@ const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({
 	query,
 	customModes,
 }) => {
-	const { localWorkflows, globalWorkflows } = useExtensionState() // kilocode_change
+	const { localWorkflows, globalWorkflows, mcpServers } = useExtensionState() // kilocode_change
 	const menuRef = useRef<HTMLDivElement>(null)
 
 	const handleClick = useCallback(
@@ -47,7 +47,7 @@ const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({
 	}, [selectedIndex])
 
 	// Filter commands based on query
-	const filteredCommands = getMatchingSlashCommands(query, customModes, localWorkflows, globalWorkflows) // kilocode_change
+	const filteredCommands = getMatchingSlashCommands(query, customModes, localWorkflows, globalWorkflows, mcpServers) // kilocode_change
 
 	return (
 		<div
@@ -71,6 +71,13 @@ const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({
 							onMouseEnter={() => setSelectedIndex(index)}>
 							<div className="font-bold whitespace-nowrap overflow-hidden text-ellipsis">
 								/{command.name}
+								{/* kilocode_change start */}
+								{command.argumentHint && (
+									<span className="ml-1.5 font-normal text-[var(--vscode-descriptionForeground)]">
+										{command.argumentHint}
+									</span>
+								)}
+								{/* kilocode_change end */}
 							</div>
 							<div className="text-[0.85em] text-[var(--vscode-descriptionForeground)] whitespace-normal overflow-hidden text-ellipsis">
 								{command.description}
@@ -8,6 +8,7 @@ import { useCopyToClipboard } from "@/utils/clipboard"
 
 import { DeleteTaskDialog } from "../history/DeleteTaskDialog"
 import { IconButton } from "./IconButton"
+import { CheckpointTimelineDialog } from "./checkpoints/CheckpointTimelineDialog" // kilocode_change
 // import { ShareButton } from "./ShareButton" // kilocode_change unused
 // import { CloudTaskButton } from "./CloudTaskButton" // kilocode_change: unused
 
@@ -18,6 +19,7 @@ interface TaskActionsProps {
 
 export const TaskActions = ({ item, buttonsDisabled }: TaskActionsProps) => {
 	const [deleteTaskId, setDeleteTaskId] = useState<string | null>(null)
+	const [showCheckpointTimeline, setShowCheckpointTimeline] = useState(false) // kilocode_change
 	const { t } = useTranslation()
 	const { copyWithFeedback, showCopyFeedback } = useCopyToClipboard()
 
@@ -35,6 +37,21 @@ export const TaskActions = ({ item, buttonsDisabled }: TaskActionsProps) => {
 					onClick={(e) => copyWithFeedback(item.task, e)}
 				/>
 			)}
+			{/* kilocode_change start */}
+			<IconButton
+				iconClass="codicon-history"
+				title={t("chat:checkpoint.timeline.open")}
+				onClick={() => setShowCheckpointTimeline(true)}
+			/>
+			<CheckpointTimelineDialog open={showCheckpointTimeline} onOpenChange={setShowCheckpointTimeline} />
+			{item?.id && (
+				<IconButton
+					iconClass="codicon-package"
+					title={t("kilocode:taskBundle.export")}
+					onClick={() => vscode.postMessage({ type: "exportTaskBundle", text: item.id })}
+				/>
+			)}
+			{/* kilocode_change end */}
 			{!!item?.size && item.size > 0 && (
 				<>
 					<div className="flex items-center">
@@ -35,6 +35,7 @@ export const CheckpointMenu = ({
 	const { t } = useTranslation()
 	const [internalOpen, setInternalOpen] = useState(false)
 	const [isConfirming, setIsConfirming] = useState(false)
+	const [isConfirmingFork, setIsConfirmingFork] = useState(false) // kilocode_change
 	const portalContainer = useRooPortal("roo-portal")
 
 	const isCurrent = currentHash === commitHash
@@ -61,11 +62,19 @@ export const CheckpointMenu = ({
 		setOpen(false)
 	}, [ts, commitHash, setOpen])
 
+	// kilocode_change start
+	const onFork = useCallback(() => {
+		vscode.postMessage({ type: "checkpointFork", payload: { ts, commitHash } })
+		setOpen(false)
+	}, [ts, commitHash, setOpen])
+	// kilocode_change end
+
 	const handleOpenChange = useCallback(
 		(open: boolean) => {
 			setOpen(open)
 			if (!open) {
 				setIsConfirming(false)
+				setIsConfirmingFork(false) // kilocode_change
 			}
 		},
 		[setOpen],
@@ -142,6 +151,46 @@ export const CheckpointMenu = ({
 								</div>
 							</div>
 						)}
+						{/* kilocode_change start */}
+						<div className="flex flex-col gap-1 group hover:text-foreground">
+							{!isConfirmingFork ? (
+								<Button
+									variant="secondary"
+									onClick={() => setIsConfirmingFork(true)}
+									data-testid="fork-task-btn">
+									{t("chat:checkpoint.menu.fork")}
+								</Button>
+							) : (
+								<>
+									<Button
+										variant="default"
+										onClick={onFork}
+										className="grow"
+										data-testid="confirm-fork-btn">
+										<div className="flex flex-row gap-1">
+											<CheckIcon />
+											<div>{t("chat:checkpoint.menu.confirm")}</div>
+										</div>
+									</Button>
+									<Button variant="secondary" onClick={() => setIsConfirmingFork(false)}>
+										<div className="flex flex-row gap-1">
+											<Cross2Icon />
+											<div>{t("chat:checkpoint.menu.cancel")}</div>
+										</div>
+									</Button>
+								</>
+							)}
+							{isConfirmingFork ? (
+								<div data-testid="fork-confirm-warning" className="text-destructive font-bold">
+									{t("chat:checkpoint.menu.forkWarning")}
+								</div>
+							) : (
+								<div className="text-muted transition-colors group-hover:text-foreground">
+									{t("chat:checkpoint.menu.forkDescription")}
+								</div>
+							)}
+						</div>
+						{/* kilocode_change end */}
 					</div>
 				</PopoverContent>
 			</Popover>
@@ -0,0 +1,186 @@
+// kilocode_change - new file
+import { useCallback, useEffect, useState } from "react"
+import { useEvent } from "react-use"
+
+import type { ExtensionMessage } from "@roo/ExtensionMessage"
+import type { CheckpointTimelineEntry, CheckpointTimelineFile } from "@roo/WebviewMessage"
+
+import { vscode } from "@src/utils/vscode"
+import { useAppTranslation } from "@src/i18n/TranslationContext"
+import { Button, Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui"
+
+type CheckpointTimelineDialogProps = {
+	open: boolean
+	onOpenChange: (open: boolean) => void
+}
+
+export const CheckpointTimelineDialog = ({ open, onOpenChange }: CheckpointTimelineDialogProps) => {
+	const { t } = useAppTranslation()
+	const [entries, setEntries] = useState<CheckpointTimelineEntry[] | undefined>(undefined)
+	// The changed files of the expanded entries, by commit hash
+	const [diffs, setDiffs] = useState<Record<string, CheckpointTimelineFile[]>>({})
+
+	useEffect(() => {
+		if (open) {
+			setEntries(undefined)
+			vscode.postMessage({ type: "checkpointTimelineRequest" })
+		}
+	}, [open])
+
+	const onMessage = useCallback((event: MessageEvent) => {
+		const message: ExtensionMessage = event.data
+
+		if (message.type === "checkpointTimelineResponse" && message.payload && "entries" in message.payload) {
+			setEntries(message.payload.entries)
+			// Restoring files changes the diffs, the expanded entries request them again
+			setDiffs({})
+		}
+
+		if (message.type === "checkpointTimelineDiffResponse" && message.payload && "files" in message.payload) {
+			const { commitHash, files } = message.payload
+			setDiffs((diffs) => ({ ...diffs, [commitHash]: files }))
+		}
+	}, [])
+
+	useEvent("message", onMessage)
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="sm:max-w-[600px] overflow-y-auto max-h-[80vh]">
+				<DialogHeader>
+					<DialogTitle>{t("chat:checkpoint.timeline.title")}</DialogTitle>
+				</DialogHeader>
+				{!entries ? (
+					<div className="text-vscode-descriptionForeground">{t("chat:checkpoint.timeline.loading")}</div>
+				) : entries.length === 0 ? (
+					<div className="text-vscode-descriptionForeground">{t("chat:checkpoint.timeline.empty")}</div>
+				) : (
+					<div className="flex flex-col gap-4" data-testid="checkpoint-timeline">
+						{entries.map((entry) => (
+							<CheckpointTimelineEntryRow
+								key={entry.commitHash}
+								entry={entry}
+								files={diffs[entry.commitHash]}
+							/>
+						))}
+					</div>
+				)}
+			</DialogContent>
+		</Dialog>
+	)
+}
+
+const CheckpointTimelineEntryRow = ({
+	entry,
+	files,
+}: {
+	entry: CheckpointTimelineEntry
+	files?: CheckpointTimelineFile[]
+}) => {
+	const { t } = useAppTranslation()
+	const [expanded, setExpanded] = useState(false)
+	const { commitHash, nextCommitHash } = entry
+
+	// Diffing every checkpoint is slow for long tasks, so the changes are only requested once expanded
+	useEffect(() => {
+		if (expanded && !files) {
+			vscode.postMessage({ type: "checkpointTimelineDiffRequest", payload: { commitHash, nextCommitHash } })
+		}
+	}, [expanded, files, commitHash, nextCommitHash])
+
+	return (
+		<div data-testid={`checkpoint-timeline-entry-${commitHash}`}>
+			<button
+				type="button"
+				className="flex flex-row items-center gap-2 p-0 bg-transparent border-none text-inherit cursor-pointer"
+				title={expanded ? t("chat:checkpoint.timeline.hideHunks") : t("chat:checkpoint.timeline.showHunks")}
+				onClick={() => setExpanded(!expanded)}>
+				<span className={`codicon codicon-chevron-${expanded ? "down" : "right"}`} />
+				<span className="codicon codicon-git-commit" />
+				<span>{new Date(entry.ts).toLocaleString()}</span>
+				{files && (
+					<span className="text-vscode-descriptionForeground text-xs">
+						{t("chat:checkpoint.timeline.filesChanged", { count: files.length })}
+					</span>
+				)}
+			</button>
+			{expanded &&
+				(!files ? (
+					<div className="ml-6 mt-1 text-sm text-vscode-descriptionForeground">
+						{t("chat:checkpoint.timeline.loadingChanges")}
+					</div>
+				) : (
+					files.map((file) => <CheckpointTimelineFileRow key={file.path} entry={entry} file={file} />)
+				))}
+		</div>
+	)
+}
+
+const CheckpointTimelineFileRow = ({
+	entry,
+	file,
+}: {
+	entry: CheckpointTimelineEntry
+	file: CheckpointTimelineFile
+}) => {
+	const { t } = useAppTranslation()
+	const [showHunks, setShowHunks] = useState(false)
+
+	const restore = (hunkIndexes?: number[]) =>
+		vscode.postMessage({
+			type: "checkpointRestorePartial",
+			payload: {
+				commitHash: entry.commitHash,
+				nextCommitHash: entry.nextCommitHash,
+				files: [{ path: file.path, hunkIndexes }],
+			},
+		})
+
+	return (
+		<div className="ml-6 mt-1">
+			<div className="flex flex-row items-center gap-2 text-sm">
+				<button
+					type="button"
+					className="flex flex-row items-center gap-1 min-w-0 p-0 bg-transparent border-none text-inherit cursor-pointer"
+					title={
+						showHunks ? t("chat:checkpoint.timeline.hideHunks") : t("chat:checkpoint.timeline.showHunks")
+					}
+					onClick={() => setShowHunks(!showHunks)}>
+					<span className={`codicon codicon-chevron-${showHunks ? "down" : "right"}`} />
+					<span className="truncate">{file.path}</span>
+				</button>
+				<span className="text-vscode-charts-green">+{file.insertions}</span>
+				<span className="text-vscode-charts-red">-{file.deletions}</span>
+				<Button variant="secondary" size="sm" className="ml-auto" onClick={() => restore()}>
+					{t("chat:checkpoint.timeline.restoreFile")}
+				</Button>
+			</div>
+			{showHunks &&
+				file.hunks.map((hunk, index) => (
+					<div key={index} className="mt-1 border border-vscode-panel-border rounded">
+						<div className="flex flex-row items-center justify-between px-2 py-1 text-xs text-vscode-descriptionForeground">
+							<span>{`@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`}</span>
+							<Button variant="secondary" size="sm" onClick={() => restore([index])}>
+								{t("chat:checkpoint.timeline.restoreHunk")}
+							</Button>
+						</div>
+						<pre className="m-0 px-2 py-1 text-xs overflow-x-auto">
+							{hunk.lines.map((line, lineIndex) => (
+								<div
+									key={lineIndex}
+									className={
+										line.startsWith("+")
+											? "text-vscode-charts-green"
+											: line.startsWith("-")
+												? "text-vscode-charts-red"
+												: undefined
+									}>
+									{line}
+								</div>
+							))}
+						</pre>
+					</div>
+				))}
+		</div>
+	)
+}
@@ -138,4 +138,22 @@ describe("CheckpointSaved popover visibility", () => {
 			expect(menuContainer().className).toContain("hidden")
 		})
 	})
+
+	// kilocode_change start
+	it("asks for confirmation before forking the task", async () => {
+		const { getByTestId } = render(<CheckpointSaved {...baseProps} />)
+
+		await waitForOpenHandler()
+		lastOnOpenChange?.(true)
+
+		await userEvent.click(await waitFor(() => getByTestId("fork-task-btn")))
+		expect(getByTestId("fork-confirm-warning")).toBeTruthy()
+		expect(screen.queryByTestId("fork-task-btn")).toBeNull()
+
+		await userEvent.click(getByTestId("confirm-fork-btn"))
+		await waitFor(() => {
+			expect(getByTestId("popover-root").getAttribute("data-open")).toBe("false")
+		})
+	})
+	// kilocode_change end
 })
@@ -0,0 +1,96 @@
+// kilocode_change - new file
+// npx vitest run src/components/chat/checkpoints/__tests__/CheckpointTimelineDialog.spec.tsx
+
+import { render, screen, fireEvent, act } from "@/utils/test-utils"
+
+import { vscode } from "@src/utils/vscode"
+
+import { CheckpointTimelineDialog } from "../CheckpointTimelineDialog"
+
+vi.mock("@src/utils/vscode")
+
+vi.mock("@/components/ui", () => ({
+	Button: ({ children, ...rest }: any) => <button {...rest}>{children}</button>,
+	Dialog: ({ children, open }: any) => (open ? <div>{children}</div> : null),
+	DialogContent: ({ children }: any) => <div>{children}</div>,
+	DialogHeader: ({ children }: any) => <div>{children}</div>,
+	DialogTitle: ({ children }: any) => <div>{children}</div>,
+}))
+
+const entries = [{ ts: 1, commitHash: "commit1", nextCommitHash: "commit2" }]
+
+const files = [
+	{
+		path: "src/a.ts",
+		insertions: 1,
+		deletions: 1,
+		hunks: [{ oldStart: 1, oldLines: 1, newStart: 1, newLines: 1, lines: ["-one", "+1"] }],
+	},
+]
+
+const respond = (data: Record<string, unknown>) =>
+	act(() => {
+		window.dispatchEvent(new MessageEvent("message", { data }))
+	})
+
+const respondTimeline = () => respond({ type: "checkpointTimelineResponse", payload: { entries } })
+
+const respondDiff = () => respond({ type: "checkpointTimelineDiffResponse", payload: { commitHash: "commit1", files } })
+
+describe("CheckpointTimelineDialog", () => {
+	beforeEach(() => {
+		vi.clearAllMocks()
+	})
+
+	it("requests the timeline when opened and the changed files once an entry is expanded", () => {
+		render(<CheckpointTimelineDialog open onOpenChange={vi.fn()} />)
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({ type: "checkpointTimelineRequest" })
+
+		respondTimeline()
+
+		expect(screen.getByTestId("checkpoint-timeline-entry-commit1")).toBeInTheDocument()
+		expect(vscode.postMessage).not.toHaveBeenCalledWith(
+			expect.objectContaining({ type: "checkpointTimelineDiffRequest" }),
+		)
+
+		fireEvent.click(screen.getByTitle("chat:checkpoint.timeline.showHunks"))
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({
+			type: "checkpointTimelineDiffRequest",
+			payload: { commitHash: "commit1", nextCommitHash: "commit2" },
+		})
+		expect(screen.getByText("chat:checkpoint.timeline.loadingChanges")).toBeInTheDocument()
+
+		respondDiff()
+
+		expect(screen.getByText("src/a.ts")).toBeInTheDocument()
+		expect(screen.getByText("+1")).toBeInTheDocument()
+	})
+
+	it("restores a whole file or a single hunk", () => {
+		render(<CheckpointTimelineDialog open onOpenChange={vi.fn()} />)
+		respondTimeline()
+		fireEvent.click(screen.getByTitle("chat:checkpoint.timeline.showHunks"))
+		respondDiff()
+
+		fireEvent.click(screen.getByText("chat:checkpoint.timeline.restoreFile"))
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({
+			type: "checkpointRestorePartial",
+			payload: { commitHash: "commit1", nextCommitHash: "commit2", files: [{ path: "src/a.ts" }] },
+		})
+
+		fireEvent.click(screen.getByText("src/a.ts"))
+		fireEvent.click(screen.getByText("chat:checkpoint.timeline.restoreHunk"))
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({
+			type: "checkpointRestorePartial",
+			payload: {
+				commitHash: "commit1",
+				nextCommitHash: "commit2",
+				files: [{ path: "src/a.ts", hunkIndexes: [0] }],
+			},
+		})
+	})
+})
@@ -17,6 +17,7 @@ import {
 	StandardTooltip,
 } from "@/components/ui"
 import { useAppTranslation } from "@/i18n/TranslationContext"
+import { vscode } from "@/utils/vscode" // kilocode_change
 
 import { Tab, TabContent, TabHeader } from "../common/Tab"
 import { useTaskSearch } from "./useTaskSearch"
@@ -112,6 +113,17 @@ const HistoryView = ({ onDone }: HistoryViewProps) => {
 								{isSelectionMode ? t("history:exitSelection") : t("history:selectionMode")}
 							</Button>
 						</StandardTooltip>
+						{/* kilocode_change start */}
+						<StandardTooltip content={t("kilocode:taskBundle.importTooltip")}>
+							<Button
+								variant="secondary"
+								onClick={() => vscode.postMessage({ type: "importTaskBundle" })}
+								data-testid="import-task-bundle-button">
+								<span className="codicon codicon-package mr-1" />
+								{t("kilocode:taskBundle.import")}
+							</Button>
+						</StandardTooltip>
+						{/* kilocode_change end */}
 						<Button onClick={onDone}>{t("history:done")}</Button>
 					</div>
 				</div>
@@ -1,14 +1,21 @@
 import { memo } from "react"
 import type { HistoryItem } from "@roo-code/types"
+import type { TaskContentMatch } from "@roo/WebviewMessage" // kilocode_change
 
 import { vscode } from "@/utils/vscode"
 import { cn } from "@/lib/utils"
 import { Checkbox } from "@/components/ui/checkbox"
+import { useAppTranslation } from "@/i18n/TranslationContext" // kilocode_change
 
 import TaskItemFooter from "./TaskItemFooter"
 
 interface DisplayHistoryItem extends HistoryItem {
 	highlight?: string
+	// kilocode_change start
+	forkedFromTask?: string
+	forkCount?: number
+	contentMatch?: TaskContentMatch
+	// kilocode_change end
 }
 
 interface TaskItemProps {
@@ -32,11 +39,19 @@ const TaskItem = ({
 	onDelete,
 	className,
 }: TaskItemProps) => {
+	const { t } = useAppTranslation() // kilocode_change
+
 	const handleClick = () => {
 		if (isSelectionMode && onToggleSelection) {
 			onToggleSelection(item.id, !isSelected)
 		} else {
-			vscode.postMessage({ type: "showTaskWithId", text: item.id })
+			// kilocode_change start: jump to the message matching the search
+			vscode.postMessage({
+				type: "showTaskWithId",
+				text: item.id,
+				...(item.contentMatch ? { messageTs: item.contentMatch.ts } : {}),
+			})
+			// kilocode_change end
 		}
 	}
 
@@ -84,6 +99,15 @@ const TaskItem = ({
 						{...(item.highlight ? { dangerouslySetInnerHTML: { __html: item.highlight } } : {})}>
 						{item.highlight ? undefined : item.task}
 					</div>
+					{/* kilocode_change start */}
+					{item.contentMatch && (
+						<div
+							className="overflow-hidden whitespace-pre-wrap text-vscode-descriptionForeground text-xs text-ellipsis line-clamp-2 mb-1"
+							data-testid="task-content-match"
+							dangerouslySetInnerHTML={{ __html: item.contentMatch.highlight }}
+						/>
+					)}
+					{/* kilocode_change end */}
 					<TaskItemFooter
 						item={item}
 						variant={variant}
@@ -91,6 +115,32 @@ const TaskItem = ({
 						onDelete={onDelete}
 					/>
 
+					{/* kilocode_change start */}
+					{(item.forkedFromTaskId || !!item.forkCount) && (
+						<div
+							className="flex flex-row gap-2 text-vscode-descriptionForeground text-xs mt-1"
+							data-testid="task-forks">
+							{item.forkedFromTaskId && (
+								<button
+									type="button"
+									className="flex flex-row gap-1 min-w-0 p-0 bg-transparent border-none text-inherit cursor-pointer hover:underline"
+									onClick={(e) => {
+										e.stopPropagation()
+										vscode.postMessage({ type: "showTaskWithId", text: item.forkedFromTaskId })
+									}}>
+									<span className="codicon codicon-repo-forked scale-80" />
+									<span className="truncate">
+										{t("history:forkedFrom", {
+											task: item.forkedFromTask ?? item.forkedFromTaskId,
+										})}
+									</span>
+								</button>
+							)}
+							{!!item.forkCount && <span>{t("history:forkCount", { count: item.forkCount })}</span>}
+						</div>
+					)}
+					{/* kilocode_change end */}
+
 					{showWorkspace && item.workspace && (
 						<div className="flex flex-row gap-1 text-vscode-descriptionForeground text-xs mt-1">
 							<span className="codicon codicon-folder scale-80" />
@@ -1,5 +1,7 @@
 import { render, screen, fireEvent } from "@/utils/test-utils"
 
+import { vscode } from "@src/utils/vscode" // kilocode_change
+
 import TaskItem from "../TaskItem"
 
 vi.mock("@src/utils/vscode")
@@ -109,4 +111,44 @@ describe("TaskItem", () => {
 		const taskItem = screen.getByTestId("task-item-1")
 		expect(taskItem).toHaveClass("hover:bg-vscode-list-hoverBackground")
 	})
+
+	// kilocode_change start
+	it("shows the task it was forked from and opens it on click", () => {
+		render(
+			<TaskItem
+				item={{ ...mockTask, forkedFromTaskId: "0", forkedFromTask: "Parent task", forkCount: 2 }}
+				variant="full"
+			/>,
+		)
+
+		expect(screen.getByTestId("task-forks")).toHaveTextContent("history:forkCount")
+
+		fireEvent.click(screen.getByText("history:forkedFrom"))
+
+		expect(vscode.postMessage).toHaveBeenCalledTimes(1)
+		expect(vscode.postMessage).toHaveBeenCalledWith({ type: "showTaskWithId", text: "0" })
+	})
+
+	it("does not show forks for tasks without forks", () => {
+		render(<TaskItem item={mockTask} variant="full" />)
+
+		expect(screen.queryByTestId("task-forks")).not.toBeInTheDocument()
+	})
+
+	it("shows the matching message and opens the task at it", () => {
+		const contentMatch = {
+			ts: 42,
+			snippet: "the refresh bug",
+			highlight: 'the <span class="history-item-highlight">refresh</span> bug',
+		}
+		render(<TaskItem item={{ ...mockTask, contentMatch }} variant="full" />)
+
+		expect(screen.getByTestId("task-content-match")).toHaveTextContent("the refresh bug")
+		expect(screen.getByText("refresh")).toHaveClass("history-item-highlight")
+
+		fireEvent.click(screen.getByTestId("task-item-1"))
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({ type: "showTaskWithId", text: "1", messageTs: 42 })
+	})
+	// kilocode_change end
 })
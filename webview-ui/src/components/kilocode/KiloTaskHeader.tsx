@@ -25,6 +25,7 @@ import { mentionRegexGlobal } from "@roo/context-mentions"
 
 import { vscode } from "@/utils/vscode"
 import { TodoListDisplay } from "../chat/TodoListDisplay"
+import { CostBudgetIndicator } from "./chat/CostBudgetIndicator"
 
 export interface TaskHeaderProps {
 	task: ClineMessage
@@ -61,7 +62,7 @@ const KiloTaskHeader = ({
 }: TaskHeaderProps) => {
 	const { t } = useTranslation()
 	const { showTaskTimeline } = useExtensionState()
-	const { apiConfiguration, currentTaskItem, customModes } = useExtensionState()
+	const { apiConfiguration, currentTaskItem, customModes, costBudget } = useExtensionState()
 	const { id: modelId, info: model } = useSelectedModel(apiConfiguration)
 	const [isTaskExpanded, setIsTaskExpanded] = useState(false)
 
@@ -140,7 +141,11 @@ const KiloTaskHeader = ({
 							/>
 							{condenseButton}
 							<ShareButton item={currentTaskItem} disabled={buttonsDisabled} />
-							{!!totalCost && <span>${totalCost.toFixed(2)}</span>}
+							{costBudget ? (
+								<CostBudgetIndicator status={costBudget} />
+							) : (
+								!!totalCost && <span>${totalCost.toFixed(2)}</span>
+							)}
 						</div>
 					</div>
 				)}
@@ -212,7 +217,9 @@ const KiloTaskHeader = ({
 										</span>
 									)}
 								</div>
-								{!totalCost && <TaskActions item={currentTaskItem} buttonsDisabled={buttonsDisabled} />}
+								{!totalCost && !costBudget && (
+									<TaskActions item={currentTaskItem} buttonsDisabled={buttonsDisabled} />
+								)}
 							</div>
 
 							{((typeof cacheReads === "number" && cacheReads > 0) ||
@@ -234,11 +241,15 @@ const KiloTaskHeader = ({
 								</div>
 							)}
 
-							{!!totalCost && (
+							{(!!totalCost || !!costBudget) && (
 								<div className="flex justify-between items-center h-[20px]">
 									<div className="flex items-center gap-1">
 										<span className="font-bold">{t("chat:task.apiCost")}</span>
-										<span>${totalCost?.toFixed(2)}</span>
+										{costBudget ? (
+											<CostBudgetIndicator status={costBudget} />
+										) : (
+											<span>${totalCost?.toFixed(2)}</span>
+										)}
 									</div>
 									<TaskActions item={currentTaskItem} buttonsDisabled={buttonsDisabled} />
 								</div>
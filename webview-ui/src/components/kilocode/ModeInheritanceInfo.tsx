@@ -0,0 +1,46 @@
+import { type ModeConfig, DEFAULT_MODES } from "@roo-code/types"
+
+import { getModeInheritanceChain } from "@roo/kilocode/modeInheritance"
+
+import { useAppTranslation } from "@/i18n/TranslationContext"
+
+/**
+ * Shows which modes a custom mode inherits from and where its rules are loaded from, the tools and
+ * instructions shown in the mode editor are the effective ones
+ */
+export function ModeInheritanceInfo({ mode, customModes }: { mode: ModeConfig; customModes: ModeConfig[] }) {
+	const { t } = useAppTranslation()
+
+	if (!mode.extends) {
+		return null
+	}
+
+	const chain = getModeInheritanceChain(mode.slug, customModes)
+	// A mode that extends its own slug extends the built-in mode
+	const modeName = (slug: string) =>
+		(slug !== mode.slug && customModes.find((candidate) => candidate.slug === slug)?.name) ||
+		DEFAULT_MODES.find((candidate) => candidate.slug === slug)?.name ||
+		slug
+	const ruleDirectories = [...new Set([...chain].reverse().filter((slug) => slug !== mode.slug)), mode.slug].map(
+		(slug) => `rules-${slug}`,
+	)
+
+	return (
+		<div className="mb-4 p-3 border border-vscode-inputValidation-infoBorder rounded">
+			<div className="flex items-start gap-2">
+				<span className="codicon codicon-type-hierarchy-sub mt-0.5"></span>
+				<div className="text-sm">
+					<div className="font-semibold mb-1">
+						{t("prompts:modeInheritance.title", {
+							chain: chain.map(modeName).join(" → "),
+						})}
+					</div>
+					<div>{t("prompts:modeInheritance.description")}</div>
+					<div className="mt-1 text-vscode-descriptionForeground">
+						{t("prompts:modeInheritance.rules", { directories: ruleDirectories.join(", ") })}
+					</div>
+				</div>
+			</div>
+		</div>
+	)
+}
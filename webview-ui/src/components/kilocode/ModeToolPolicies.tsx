@@ -0,0 +1,34 @@
+import type { ModeConfig } from "@roo-code/types"
+
+import { useAppTranslation } from "@/i18n/TranslationContext"
+
+/**
+ * Lists the tool policies of a mode, they are set in the mode configuration file
+ */
+export function ModeToolPolicies({ mode }: { mode: ModeConfig }) {
+	const { t } = useAppTranslation()
+
+	const options = Object.fromEntries(
+		mode.groups
+			.filter((group) => Array.isArray(group))
+			.map(([groupName, groupOptions]) => [groupName, groupOptions]),
+	)
+	const policies = [
+		{ key: "allowedCommands", values: options.command?.allowedCommands },
+		{ key: "allowedMcpTools", values: options.mcp?.allowedMcpTools },
+		{ key: "deniedPaths", values: options.read?.deniedPaths },
+		{ key: "requireApproval", values: mode.requireApproval },
+	].filter((policy) => policy.values?.length)
+
+	if (policies.length === 0) {
+		return null
+	}
+
+	return (
+		<ul className="text-sm text-vscode-descriptionForeground mt-1 mb-2 pl-4 list-disc">
+			{policies.map(({ key, values }) => (
+				<li key={key}>{t(`prompts:toolPolicies.${key}`, { list: values!.join(", ") })}</li>
+			))}
+		</ul>
+	)
+}
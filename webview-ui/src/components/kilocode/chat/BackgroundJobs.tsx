@@ -0,0 +1,74 @@
+// kilocode_change - new file
+import { useTranslation } from "react-i18next"
+
+import type { BackgroundJob } from "@roo-code/types"
+
+import { Button, StandardTooltip } from "@src/components/ui"
+import { vscode } from "@src/utils/vscode"
+
+interface BackgroundJobsProps {
+	jobs: BackgroundJob[]
+}
+
+export const BackgroundJobs = ({ jobs }: BackgroundJobsProps) => {
+	const { t } = useTranslation("chat")
+
+	if (jobs.length === 0) {
+		return null
+	}
+
+	const getStatusText = (job: BackgroundJob) => {
+		if (job.status === "running") {
+			return t("backgroundJobs.running")
+		}
+
+		if (job.status === "killed") {
+			return t("backgroundJobs.killed")
+		}
+
+		return job.exitCode !== undefined
+			? t("backgroundJobs.exitedWithCode", { exitCode: job.exitCode })
+			: t("backgroundJobs.exited")
+	}
+
+	return (
+		<div className="px-[15px] py-[10px] pr-[6px]" data-testid="background-jobs">
+			<div className="text-vscode-descriptionForeground text-md mb-2">{t("backgroundJobs.title")}</div>
+			<div className="flex flex-col gap-1 max-h-[150px] overflow-y-auto pr-2">
+				{jobs.map((job) => (
+					<div
+						key={job.id}
+						className="flex items-center gap-2 bg-vscode-editor-background border rounded-xs px-2 py-1"
+						data-testid={`background-job-${job.id}`}>
+						<span
+							className={
+								job.status === "running"
+									? "codicon codicon-loading codicon-modifier-spin shrink-0"
+									: job.status === "killed" || (job.exitCode ?? 0) !== 0
+										? "codicon codicon-error text-vscode-errorForeground shrink-0"
+										: "codicon codicon-check text-vscode-charts-green shrink-0"
+							}
+						/>
+						<span className="text-vscode-descriptionForeground shrink-0">#{job.id}</span>
+						<code className="flex-grow truncate" title={job.command}>
+							{job.command}
+						</code>
+						<span className="text-vscode-descriptionForeground shrink-0">{getStatusText(job)}</span>
+						{job.status === "running" && (
+							<StandardTooltip content={t("backgroundJobs.kill")}>
+								<Button
+									variant="ghost"
+									size="icon"
+									className="shrink-0"
+									aria-label={t("backgroundJobs.kill")}
+									onClick={() => vscode.postMessage({ type: "killBackgroundJob", value: job.id })}>
+									<span className="codicon codicon-debug-stop" />
+								</Button>
+							</StandardTooltip>
+						)}
+					</div>
+				))}
+			</div>
+		</div>
+	)
+}
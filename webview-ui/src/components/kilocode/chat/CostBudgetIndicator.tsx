@@ -0,0 +1,59 @@
+import { useTranslation } from "react-i18next"
+
+import type { CostBudgetStatus } from "@roo-code/types"
+
+import { cn } from "@/lib/utils"
+import { StandardTooltip } from "@/components/ui"
+
+/** Share of a budget from which the cost is highlighted */
+const NEAR_BUDGET_RATIO = 0.8
+
+const isNearBudget = (cost: number, budget?: number) => budget !== undefined && cost >= budget * NEAR_BUDGET_RATIO
+
+type CostBudgetIndicatorProps = {
+	status: CostBudgetStatus
+}
+
+/**
+ * Cost of the current task against its budget, with the daily spending of the workspace in the tooltip
+ */
+export const CostBudgetIndicator = ({ status }: CostBudgetIndicatorProps) => {
+	const { t } = useTranslation()
+	const { taskCost, taskBudget, workspaceCost, workspaceBudget, exceeded } = status
+	const formatBudget = (budget?: number) =>
+		budget === undefined ? t("kilocode:costBudget.settings.unlimited") : `$${budget.toFixed(2)}`
+
+	return (
+		<StandardTooltip
+			content={
+				<div className="flex flex-col gap-1">
+					<div>
+						{t("kilocode:costBudget.header.task", {
+							cost: taskCost.toFixed(2),
+							budget: formatBudget(taskBudget),
+						})}
+					</div>
+					<div>
+						{t("kilocode:costBudget.header.workspace", {
+							cost: workspaceCost.toFixed(2),
+							budget: formatBudget(workspaceBudget),
+						})}
+					</div>
+					{exceeded && <div className="font-medium">{t("kilocode:costBudget.header.exceeded")}</div>}
+				</div>
+			}>
+			<span
+				className={cn(
+					"whitespace-nowrap",
+					exceeded
+						? "text-vscode-errorForeground"
+						: (isNearBudget(taskCost, taskBudget) || isNearBudget(workspaceCost, workspaceBudget)) &&
+								"text-vscode-editorWarning-foreground",
+				)}
+				data-testid="cost-budget-indicator">
+				${taskCost.toFixed(2)}
+				{taskBudget !== undefined && ` / $${taskBudget.toFixed(2)}`}
+			</span>
+		</StandardTooltip>
+	)
+}
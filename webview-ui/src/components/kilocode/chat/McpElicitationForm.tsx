@@ -0,0 +1,134 @@
+import { useState } from "react"
+
+import type { McpElicitationRequest, McpElicitationValue } from "../../../../../src/shared/kilocode/mcp"
+
+import { useAppTranslation } from "@src/i18n/TranslationContext"
+import { vscode } from "@src/utils/vscode"
+import {
+	Button,
+	Checkbox,
+	Input,
+	Select,
+	SelectContent,
+	SelectGroup,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui"
+
+type McpElicitationFormProps = {
+	request: McpElicitationRequest
+	isActive: boolean
+}
+
+export const McpElicitationForm = ({ request, isActive }: McpElicitationFormProps) => {
+	const { t } = useAppTranslation()
+	const { properties, required = [] } = request.requestedSchema
+
+	const [values, setValues] = useState<Record<string, McpElicitationValue | undefined>>(() =>
+		Object.fromEntries(Object.entries(properties).map(([name, field]) => [name, field.default])),
+	)
+	const [submitted, setSubmitted] = useState(false)
+
+	const setValue = (name: string, value: McpElicitationValue | undefined) =>
+		setValues((current) => ({ ...current, [name]: value }))
+
+	const isComplete = required.every((name) => values[name] !== undefined && values[name] !== "")
+	const isDisabled = !isActive || submitted || request.response !== undefined
+
+	const handleSubmit = () => {
+		setSubmitted(true)
+		const content = Object.fromEntries(
+			Object.entries(values).filter(([, value]) => value !== undefined && value !== ""),
+		)
+		vscode.postMessage({ type: "askResponse", askResponse: "messageResponse", text: JSON.stringify(content) })
+	}
+
+	const handleDecline = () => {
+		setSubmitted(true)
+		vscode.postMessage({ type: "askResponse", askResponse: "noButtonClicked" })
+	}
+
+	if (request.response && request.response.action !== "accept") {
+		return (
+			<div className="text-sm text-vscode-descriptionForeground">
+				{t(`mcp:elicitation.${request.response.action}`)}
+			</div>
+		)
+	}
+
+	return (
+		<div className="flex flex-col gap-3">
+			{Object.entries(properties).map(([name, field]) => {
+				const label = `${field.title ?? name}${required.includes(name) ? " *" : ""}`
+				const value = request.response?.content?.[name] ?? values[name]
+
+				return (
+					<div key={name} className="flex flex-col gap-1">
+						{field.type === "boolean" ? (
+							<label className="flex items-center gap-2">
+								<Checkbox
+									checked={value === true}
+									disabled={isDisabled}
+									onCheckedChange={(checked) => setValue(name, checked === true)}
+								/>
+								<span>{label}</span>
+							</label>
+						) : (
+							<>
+								<label className="font-medium">{label}</label>
+								{field.enum ? (
+									<Select
+										value={value === undefined ? undefined : String(value)}
+										disabled={isDisabled}
+										onValueChange={(selected) => setValue(name, selected)}>
+										<SelectTrigger className="w-full">
+											<SelectValue placeholder={t("mcp:elicitation.select")} />
+										</SelectTrigger>
+										<SelectContent>
+											<SelectGroup>
+												{field.enum.map((option, index) => (
+													<SelectItem key={option} value={option}>
+														{field.enumNames?.[index] ?? option}
+													</SelectItem>
+												))}
+											</SelectGroup>
+										</SelectContent>
+									</Select>
+								) : (
+									<Input
+										type={field.type === "string" ? "text" : "number"}
+										value={value === undefined ? "" : String(value)}
+										disabled={isDisabled}
+										min={field.minimum}
+										max={field.maximum}
+										onChange={(event) => {
+											const input = event.target.value
+											setValue(
+												name,
+												field.type === "string" || input === "" ? input : Number(input),
+											)
+										}}
+									/>
+								)}
+							</>
+						)}
+						{field.description && (
+							<div className="text-xs text-vscode-descriptionForeground">{field.description}</div>
+						)}
+					</div>
+				)
+			})}
+			{!isDisabled && (
+				<div className="flex gap-2">
+					<Button onClick={handleSubmit} disabled={!isComplete}>
+						{t("mcp:elicitation.submit")}
+					</Button>
+					<Button variant="secondary" onClick={handleDecline}>
+						{t("mcp:elicitation.decline")}
+					</Button>
+				</div>
+			)}
+		</div>
+	)
+}
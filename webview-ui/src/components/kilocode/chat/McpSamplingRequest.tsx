@@ -0,0 +1,78 @@
+import { VSCodeCheckbox } from "@vscode/webview-ui-toolkit/react"
+
+import type { ClineAskUseMcpServer } from "@roo/ExtensionMessage"
+import type { McpServer } from "@roo/mcp"
+import { safeJsonParse } from "@roo/safeJsonParse"
+
+import { useAppTranslation } from "@src/i18n/TranslationContext"
+import { formatLargeNumber } from "@src/utils/format"
+import { vscode } from "@src/utils/vscode"
+import { Markdown } from "../../chat/Markdown"
+
+type SamplingRequest = {
+	systemPrompt?: string
+	maxTokens?: number
+	messages?: Array<{ role: string; content: string }>
+}
+
+type McpSamplingRequestProps = {
+	useMcpServer: ClineAskUseMcpServer
+	server?: McpServer
+	alwaysAllowMcp?: boolean
+}
+
+export const McpSamplingRequest = ({ useMcpServer, server, alwaysAllowMcp }: McpSamplingRequestProps) => {
+	const { t } = useAppTranslation()
+	const request = safeJsonParse<SamplingRequest>(useMcpServer.arguments, {}) ?? {}
+
+	const handleAlwaysAllowChange = () => {
+		if (!server) return
+		vscode.postMessage({
+			type: "toggleMcpServerSamplingAlwaysAllow",
+			serverName: server.name,
+			source: server.source || "global",
+			alwaysAllow: !server.alwaysAllowSampling,
+		})
+	}
+
+	return (
+		<div className="flex flex-col gap-2 text-sm">
+			{request.systemPrompt && (
+				<div>
+					<div className="text-xs text-vscode-descriptionForeground">{t("mcp:sampling.systemPrompt")}</div>
+					<div className="whitespace-pre-wrap break-words">{request.systemPrompt}</div>
+				</div>
+			)}
+			{request.messages?.map((message, index) => (
+				<div key={index}>
+					<div className="text-xs text-vscode-descriptionForeground">{message.role}</div>
+					<div className="whitespace-pre-wrap break-words">{message.content}</div>
+				</div>
+			))}
+			{useMcpServer.response !== undefined && (
+				<div className="border-t border-vscode-panel-border pt-2">
+					<div className="text-xs text-vscode-descriptionForeground">{t("mcp:sampling.response")}</div>
+					<Markdown markdown={useMcpServer.response} />
+				</div>
+			)}
+			{useMcpServer.model && (
+				<div className="text-xs text-vscode-descriptionForeground">
+					{t("mcp:sampling.usage", {
+						model: useMcpServer.model,
+						tokensIn: formatLargeNumber(useMcpServer.tokensIn ?? 0),
+						tokensOut: formatLargeNumber(useMcpServer.tokensOut ?? 0),
+						cost: (useMcpServer.cost ?? 0).toFixed(4),
+					})}
+				</div>
+			)}
+			{alwaysAllowMcp && server && (
+				<VSCodeCheckbox
+					checked={server.alwaysAllowSampling}
+					onChange={handleAlwaysAllowChange}
+					className="text-xs">
+					<span className="text-vscode-descriptionForeground">{t("mcp:sampling.alwaysAllow")}</span>
+				</VSCodeCheckbox>
+			)}
+		</div>
+	)
+}
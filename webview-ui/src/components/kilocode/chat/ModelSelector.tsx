@@ -67,7 +67,7 @@ export const ModelSelector = ({
 	}
 
 	// kilocode_change start: Display active model for virtual quota fallback
-	if (provider === "virtual-quota-fallback" && virtualQuotaActiveModel) {
+	if ((provider === "virtual-quota-fallback" || provider === "provider-router") && virtualQuotaActiveModel) {
 		return (
 			<span className="text-xs text-vscode-descriptionForeground opacity-70 truncate">
 				{prettyModelName(virtualQuotaActiveModel.id)}
@@ -0,0 +1,53 @@
+import { useMemo } from "react"
+import { useTranslation } from "react-i18next"
+
+import type { ClineApiReqInfo } from "@roo/ExtensionMessage"
+import { safeJsonParse } from "@roo/safeJsonParse"
+
+import { StandardTooltip } from "@/components/ui"
+
+type ProviderRoutingBadgeProps = {
+	/** Text of the api_req_started message */
+	text?: string
+}
+
+/**
+ * Shows the profile a provider router sent the request to, with why the other profiles were not used
+ */
+export const ProviderRoutingBadge = ({ text }: ProviderRoutingBadgeProps) => {
+	const { t } = useTranslation()
+	const routing = useMemo(() => safeJsonParse<ClineApiReqInfo>(text)?.routing, [text])
+
+	const selected = routing?.candidates.find((candidate) => candidate.status === "selected")
+	if (!routing || !selected) {
+		return null
+	}
+
+	return (
+		<StandardTooltip
+			content={
+				<div className="flex flex-col gap-1">
+					<div className="font-medium">
+						{t("kilocode:providerRouter.trace.title", {
+							strategy: t(`kilocode:providerRouter.strategy.${routing.strategy}`),
+						})}
+					</div>
+					{routing.candidates.map((candidate, index) => (
+						<div key={index}>
+							{candidate.profileName}
+							{candidate.modelId && ` (${candidate.modelId})`}:{" "}
+							{t(`kilocode:providerRouter.trace.${candidate.status}`)}
+							{candidate.reason && ` - ${candidate.reason}`}
+						</div>
+					))}
+				</div>
+			}>
+			<div
+				className="flex items-center text-xs text-vscode-dropdown-foreground border-vscode-dropdown-border/50 border px-1.5 py-0.5 rounded-lg whitespace-nowrap max-w-40"
+				data-testid="provider-routing-badge">
+				<span className="codicon codicon-git-compare pr-1"></span>
+				<span className="truncate">{selected.profileName}</span>
+			</div>
+		</StandardTooltip>
+	)
+}
@@ -42,6 +42,8 @@ describe("getModelsByProvider", () => {
 			"openai", // not implemented
 			"roo", // don't care
 			"virtual-quota-fallback", // no models
+			"provider-router", // no models, kilocode_change
+			"replay", // models come from the cassette, kilocode_change
 			"zai", // has weird mainland/international distiction
 			"vercel-ai-gateway", // different structure
 		]
@@ -0,0 +1,59 @@
+import { useTranslation } from "react-i18next"
+
+import { FormattedTextField, unlimitedDecimalFormatter } from "../../common/FormattedTextField"
+
+type CostBudgetInputsProps = {
+	taskCostBudget?: number
+	workspaceDailyCostBudget?: number
+	onTaskCostBudgetChange: (value: number | undefined) => void
+	onWorkspaceDailyCostBudgetChange: (value: number | undefined) => void
+}
+
+/**
+ * Hard cost limits, unlike the auto-approval limits they stop the task whether or not requests are
+ * auto-approved
+ */
+export const CostBudgetInputs = ({
+	taskCostBudget,
+	workspaceDailyCostBudget,
+	onTaskCostBudgetChange,
+	onWorkspaceDailyCostBudgetChange,
+}: CostBudgetInputsProps) => {
+	const { t } = useTranslation()
+
+	return (
+		<div className="space-y-2">
+			<div className="grid grid-cols-[auto_1fr] gap-x-2 gap-y-2 items-center">
+				<label className="flex items-center gap-2 text-sm font-medium whitespace-nowrap">
+					<span className="codicon codicon-shield" />
+					{t("kilocode:costBudget.settings.task")}:
+				</label>
+				<FormattedTextField
+					value={taskCostBudget}
+					onValueChange={onTaskCostBudgetChange}
+					formatter={unlimitedDecimalFormatter}
+					placeholder={t("kilocode:costBudget.settings.unlimited")}
+					style={{ maxWidth: "200px" }}
+					data-testid="task-cost-budget-input"
+					leftNodes={[<span key="dollar">$</span>]}
+				/>
+				<label className="flex items-center gap-2 text-sm font-medium whitespace-nowrap">
+					<span className="codicon codicon-calendar" />
+					{t("kilocode:costBudget.settings.workspaceDaily")}:
+				</label>
+				<FormattedTextField
+					value={workspaceDailyCostBudget}
+					onValueChange={onWorkspaceDailyCostBudgetChange}
+					formatter={unlimitedDecimalFormatter}
+					placeholder={t("kilocode:costBudget.settings.unlimited")}
+					style={{ maxWidth: "200px" }}
+					data-testid="workspace-daily-cost-budget-input"
+					leftNodes={[<span key="dollar">$</span>]}
+				/>
+			</div>
+			<div className="text-xs text-vscode-descriptionForeground">
+				{t("kilocode:costBudget.settings.description")}
+			</div>
+		</div>
+	)
+}
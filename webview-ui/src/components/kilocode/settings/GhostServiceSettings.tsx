@@ -31,6 +31,9 @@ export const GhostServiceSettingsView = ({
 		enableQuickInlineTaskKeybinding,
 		enableSmartInlineTaskKeybinding,
 		useNewAutocomplete,
+		enableNextEdit,
+		recordCompletionEvents,
+		recordCompletionContexts,
 		provider,
 		model,
 	} = ghostServiceSettings || {}
@@ -57,6 +60,27 @@ export const GhostServiceSettingsView = ({
 		[onGhostServiceSettingsChange],
 	)
 
+	const onEnableNextEditChange = useCallback(
+		(e: any) => {
+			onGhostServiceSettingsChange("enableNextEdit", e.target.checked)
+		},
+		[onGhostServiceSettingsChange],
+	)
+
+	const onRecordCompletionEventsChange = useCallback(
+		(e: any) => {
+			onGhostServiceSettingsChange("recordCompletionEvents", e.target.checked)
+		},
+		[onGhostServiceSettingsChange],
+	)
+
+	const onRecordCompletionContextsChange = useCallback(
+		(e: any) => {
+			onGhostServiceSettingsChange("recordCompletionContexts", e.target.checked)
+		},
+		[onGhostServiceSettingsChange],
+	)
+
 	const onUseNewAutocompleteChange = useCallback(
 		(e: any) => {
 			onGhostServiceSettingsChange("useNewAutocomplete", e.target.checked)
@@ -95,6 +119,18 @@ export const GhostServiceSettingsView = ({
 						</div>
 					</div>
 
+					<div className="flex flex-col gap-1">
+						<VSCodeCheckbox
+							checked={enableNextEdit || false}
+							disabled={!enableAutoTrigger}
+							onChange={onEnableNextEditChange}>
+							<span className="font-medium">{t("kilocode:ghost.settings.enableNextEdit.label")}</span>
+						</VSCodeCheckbox>
+						<div className="text-vscode-descriptionForeground text-sm mt-1">
+							{t("kilocode:ghost.settings.enableNextEdit.description")}
+						</div>
+					</div>
+
 					<div className="flex flex-col gap-1">
 						<VSCodeCheckbox
 							checked={enableQuickInlineTaskKeybinding || false}
@@ -145,6 +181,33 @@ export const GhostServiceSettingsView = ({
 						</div>
 					</div>
 
+					<div className="flex flex-col gap-1">
+						<VSCodeCheckbox
+							checked={recordCompletionEvents || false}
+							onChange={onRecordCompletionEventsChange}>
+							<span className="font-medium">
+								{t("kilocode:ghost.settings.recordCompletionEvents.label")}
+							</span>
+						</VSCodeCheckbox>
+						<div className="text-vscode-descriptionForeground text-sm mt-1">
+							{t("kilocode:ghost.settings.recordCompletionEvents.description")}
+						</div>
+					</div>
+
+					<div className="flex flex-col gap-1">
+						<VSCodeCheckbox
+							checked={recordCompletionContexts || false}
+							disabled={!recordCompletionEvents}
+							onChange={onRecordCompletionContextsChange}>
+							<span className="font-medium">
+								{t("kilocode:ghost.settings.recordCompletionContexts.label")}
+							</span>
+						</VSCodeCheckbox>
+						<div className="text-vscode-descriptionForeground text-sm mt-1">
+							{t("kilocode:ghost.settings.recordCompletionContexts.description")}
+						</div>
+					</div>
+
 					{process.env.NODE_ENV === "development" && (
 						<div className="flex flex-col gap-1">
 							<VSCodeCheckbox checked={useNewAutocomplete || false} onChange={onUseNewAutocompleteChange}>
@@ -170,6 +170,21 @@ describe("GhostServiceSettingsView", () => {
 		expect(onGhostServiceSettingsChange).toHaveBeenCalledWith("enableSmartInlineTaskKeybinding", true)
 	})
 
+	it("toggles next edit prediction checkbox correctly", () => {
+		const onGhostServiceSettingsChange = vi.fn()
+		renderComponent({
+			ghostServiceSettings: { ...defaultGhostServiceSettings, enableAutoTrigger: true },
+			onGhostServiceSettingsChange,
+		})
+
+		const checkboxLabel = screen.getByText(/kilocode:ghost.settings.enableNextEdit.label/).closest("label")
+		const checkbox = checkboxLabel?.querySelector('input[type="checkbox"]') as HTMLInputElement
+
+		fireEvent.click(checkbox)
+
+		expect(onGhostServiceSettingsChange).toHaveBeenCalledWith("enableNextEdit", true)
+	})
+
 	it("renders Trans components with proper structure", () => {
 		renderComponent()
 
@@ -0,0 +1,47 @@
+// kilocode_change - new file
+import { McpPrompt } from "@roo/mcp"
+
+import { useAppTranslation } from "@src/i18n/TranslationContext"
+
+import { getMcpPromptCommandName } from "../../../../src/shared/kilocode/mcp"
+
+type McpPromptRowProps = {
+	prompt: McpPrompt
+	serverName: string
+}
+
+const McpPromptRow = ({ prompt, serverName }: McpPromptRowProps) => {
+	const { t } = useAppTranslation()
+
+	return (
+		<div className="py-[3px]">
+			<div className="flex items-center mb-1">
+				<span className="codicon codicon-comment-discussion mr-1.5" />
+				<span className="font-medium break-all">{prompt.name}</span>
+			</div>
+			{prompt.description && <div className="text-xs opacity-80 my-1">{prompt.description}</div>}
+			<div className="text-xs">
+				<span className="opacity-80">{t("mcp:prompts.invokeWith")} </span>
+				<code className="text-vscode-textPreformat-foreground bg-vscode-textPreformat-background px-1 rounded-[3px]">
+					/{getMcpPromptCommandName(serverName, prompt.name)}
+				</code>
+			</div>
+			{prompt.arguments && prompt.arguments.length > 0 && (
+				<div className="mt-2 text-xs border border-vscode-panel-border rounded p-2">
+					<div className="mb-1 opacity-80 uppercase">{t("mcp:prompts.arguments")}</div>
+					{prompt.arguments.map((argument) => (
+						<div key={argument.name} className="flex items-baseline gap-2 mt-1">
+							<code className="text-vscode-textPreformat-foreground">{argument.name}</code>
+							{argument.required && <span className="text-vscode-errorForeground">*</span>}
+							{argument.description && (
+								<span className="opacity-80 break-words">{argument.description}</span>
+							)}
+						</div>
+					))}
+				</div>
+			)}
+		</div>
+	)
+}
+
+export default McpPromptRow
@@ -31,6 +31,7 @@ import { Tab, TabContent, TabHeader } from "../common/Tab"
 
 import McpToolRow from "./McpToolRow"
 import McpResourceRow from "./McpResourceRow"
+import McpPromptRow from "./McpPromptRow" // kilocode_change
 // import McpEnabledToggle from "./McpEnabledToggle" // kilocode_change not used
 import { McpErrorRow } from "./McpErrorRow"
 
@@ -379,6 +380,11 @@ const ServerRow = ({ server, alwaysAllowMcp }: { server: McpServer; alwaysAllowM
 									{t("mcp:tabs.resources")} (
 									{[...(server.resourceTemplates || []), ...(server.resources || [])].length || 0})
 								</VSCodePanelTab>
+								{/* kilocode_change start */}
+								<VSCodePanelTab id="prompts">
+									{t("mcp:tabs.prompts")} ({server.prompts?.length || 0})
+								</VSCodePanelTab>
+								{/* kilocode_change end */}
 								{server.instructions && (
 									<VSCodePanelTab id="instructions">{t("mcp:instructions")}</VSCodePanelTab>
 								)}
@@ -440,6 +446,26 @@ const ServerRow = ({ server, alwaysAllowMcp }: { server: McpServer; alwaysAllowM
 									)}
 								</VSCodePanelView>
 
+								{/* kilocode_change start */}
+								<VSCodePanelView id="prompts-view">
+									{server.prompts && server.prompts.length > 0 ? (
+										<div className="flex flex-col gap-2 w-full">
+											{server.prompts.map((prompt) => (
+												<McpPromptRow
+													key={`${prompt.name}-${server.name}-${server.source || "global"}`}
+													prompt={prompt}
+													serverName={server.name}
+												/>
+											))}
+										</div>
+									) : (
+										<div className="py-2.5 text-vscode-descriptionForeground">
+											{t("mcp:emptyState.noPrompts")}
+										</div>
+									)}
+								</VSCodePanelView>
+								{/* kilocode_change end */}
+
 								{server.instructions && (
 									<VSCodePanelView id="instructions-view">
 										<div style={{ padding: "10px 0", fontSize: "12px" }}>
@@ -52,6 +52,8 @@ import {
 import { DeleteModeDialog } from "@src/components/modes/DeleteModeDialog"
 import { useEscapeKey } from "@src/hooks/useEscapeKey"
 import { OrganizationModeWarning } from "../kilocode/OrganizationModeWarning"
+import { ModeInheritanceInfo } from "../kilocode/ModeInheritanceInfo" // kilocode_change
+import { ModeToolPolicies } from "../kilocode/ModeToolPolicies" // kilocode_change
 
 // Get all available groups that should show in prompts view
 const availableGroups = (Object.keys(TOOL_GROUPS) as ToolGroup[]).filter((group) => !TOOL_GROUPS[group].alwaysAvailable)
@@ -750,6 +752,10 @@ const ModesView = ({ onDone }: ModesViewProps) => {
 				{/* Name section */}
 				<div className="mb-5">
 					{isOrganizationMode && <OrganizationModeWarning />} {/* kilocode_change start */}
+					{(() => {
+						const customMode = findModeBySlug(visualMode, customModes)
+						return customMode && <ModeInheritanceInfo mode={customMode} customModes={customModes ?? []} />
+					})()}
 					{/* Only show name and delete for custom modes that are not organization modes */}
 					{/* kilocode_change end */}
 					{visualMode && findModeBySlug(visualMode, customModes) && !isOrganizationMode && (
@@ -1101,6 +1107,12 @@ const ModesView = ({ onDone }: ModesViewProps) => {
 									})()}
 								</div>
 							)}
+							{/* kilocode_change start */}
+							{(() => {
+								const currentMode = getCurrentMode()
+								return currentMode && <ModeToolPolicies mode={currentMode} />
+							})()}
+							{/* kilocode_change end */}
 						</div>
 					</>
 					{/* Role definition for both built-in and custom modes */}
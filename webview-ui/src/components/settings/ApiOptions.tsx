@@ -100,6 +100,7 @@ import {
 	// kilocode_change start
 	GeminiCli,
 	VirtualQuotaFallbackProvider,
+	ProviderRouter,
 	Synthetic,
 	OvhCloudAiEndpoints,
 	Inception,
@@ -724,6 +725,13 @@ const ApiOptions = ({
 					setApiConfigurationField={setApiConfigurationField}
 				/>
 			)}
+
+			{selectedProvider === "provider-router" && (
+				<ProviderRouter
+					apiConfiguration={apiConfiguration}
+					setApiConfigurationField={setApiConfigurationField}
+				/>
+			)}
 			{/* kilocode_change end */}
 
 			{selectedProvider === "litellm" && (
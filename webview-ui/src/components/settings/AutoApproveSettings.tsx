@@ -13,6 +13,7 @@ import { SectionHeader } from "./SectionHeader"
 import { Section } from "./Section"
 import { AutoApproveToggle } from "./AutoApproveToggle"
 import { MaxLimitInputs } from "./MaxLimitInputs"
+import { CostBudgetInputs } from "../kilocode/settings/CostBudgetInputs" // kilocode_change
 import { useExtensionState } from "@/context/ExtensionStateContext"
 import { useAutoApprovalState } from "@/hooks/useAutoApprovalState"
 import { useAutoApprovalToggles } from "@/hooks/useAutoApprovalToggles"
@@ -36,6 +37,8 @@ type AutoApproveSettingsProps = HTMLAttributes<HTMLDivElement> & {
 	allowedCommands?: string[]
 	allowedMaxRequests?: number | undefined
 	allowedMaxCost?: number | undefined
+	taskCostBudget?: number // kilocode_change
+	workspaceDailyCostBudget?: number // kilocode_change
 	showAutoApproveMenu?: boolean // kilocode_change
 	yoloMode?: boolean // kilocode_change
 	deniedCommands?: string[]
@@ -57,6 +60,8 @@ type AutoApproveSettingsProps = HTMLAttributes<HTMLDivElement> & {
 		| "allowedCommands"
 		| "allowedMaxRequests"
 		| "allowedMaxCost"
+		| "taskCostBudget" // kilocode_change
+		| "workspaceDailyCostBudget" // kilocode_change
 		| "showAutoApproveMenu" // kilocode_change
 		| "yoloMode" // kilocode_change
 		| "deniedCommands"
@@ -83,6 +88,8 @@ export const AutoApproveSettings = ({
 	allowedCommands,
 	allowedMaxRequests,
 	allowedMaxCost,
+	taskCostBudget, // kilocode_change
+	workspaceDailyCostBudget, // kilocode_change
 	showAutoApproveMenu, // kilocode_change
 	yoloMode, // kilocode_change
 	deniedCommands,
@@ -241,6 +248,17 @@ export const AutoApproveSettings = ({
 						onMaxRequestsChange={(value) => setCachedStateField("allowedMaxRequests", value)}
 						onMaxCostChange={(value) => setCachedStateField("allowedMaxCost", value)}
 					/>
+
+					{/* kilocode_change start */}
+					<CostBudgetInputs
+						taskCostBudget={taskCostBudget}
+						workspaceDailyCostBudget={workspaceDailyCostBudget}
+						onTaskCostBudgetChange={(value) => setCachedStateField("taskCostBudget", value ?? null)}
+						onWorkspaceDailyCostBudgetChange={(value) =>
+							setCachedStateField("workspaceDailyCostBudget", value ?? null)
+						}
+					/>
+					{/* kilocode_change end */}
 				</div>
 
 				{/* ADDITIONAL SETTINGS */}
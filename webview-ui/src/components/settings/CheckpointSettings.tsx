@@ -17,6 +17,8 @@ type CheckpointSettingsProps = HTMLAttributes<HTMLDivElement> & {
 	autoPurgeFavoritedTaskRetentionDays?: number | null
 	autoPurgeCompletedTaskRetentionDays?: number
 	autoPurgeIncompleteTaskRetentionDays?: number
+	autoPurgeStorageQuotaMb?: number | null
+	autoPurgeMaxCheckpointSizeMb?: number | null
 	autoPurgeLastRunTimestamp?: number
 	setCachedStateField: SetCachedStateField<
 		| "enableCheckpoints"
@@ -25,8 +27,11 @@ type CheckpointSettingsProps = HTMLAttributes<HTMLDivElement> & {
 		| "autoPurgeFavoritedTaskRetentionDays"
 		| "autoPurgeCompletedTaskRetentionDays"
 		| "autoPurgeIncompleteTaskRetentionDays"
+		| "autoPurgeStorageQuotaMb"
+		| "autoPurgeMaxCheckpointSizeMb"
 	>
 	onManualPurge?: () => void
+	onPreviewPurge?: () => void
 	// kilocode_change end
 }
 
@@ -38,9 +43,12 @@ export const CheckpointSettings = ({
 	autoPurgeFavoritedTaskRetentionDays,
 	autoPurgeCompletedTaskRetentionDays,
 	autoPurgeIncompleteTaskRetentionDays,
+	autoPurgeStorageQuotaMb,
+	autoPurgeMaxCheckpointSizeMb,
 	autoPurgeLastRunTimestamp,
 	setCachedStateField,
 	onManualPurge,
+	onPreviewPurge,
 	// kilocode_change end
 	...props
 }: CheckpointSettingsProps) => {
@@ -187,6 +195,42 @@ export const CheckpointSettings = ({
 								</div>
 							</div>
 
+							<div>
+								<label className="block text-sm font-medium mb-1">
+									{t("settings:autoPurge.storageQuota.label")}
+								</label>
+								<VSCodeTextField
+									value={autoPurgeStorageQuotaMb ? String(autoPurgeStorageQuotaMb) : ""}
+									onInput={(e: any) => {
+										const value = parseInt(e.target.value)
+										setCachedStateField("autoPurgeStorageQuotaMb", value > 0 ? value : null)
+									}}
+									placeholder={t("settings:autoPurge.noLimit")}
+									data-testid="auto-purge-storage-quota-input"
+								/>
+								<div className="text-vscode-descriptionForeground text-xs mt-1">
+									{t("settings:autoPurge.storageQuota.description")}
+								</div>
+							</div>
+
+							<div>
+								<label className="block text-sm font-medium mb-1">
+									{t("settings:autoPurge.maxCheckpointSize.label")}
+								</label>
+								<VSCodeTextField
+									value={autoPurgeMaxCheckpointSizeMb ? String(autoPurgeMaxCheckpointSizeMb) : ""}
+									onInput={(e: any) => {
+										const value = parseInt(e.target.value)
+										setCachedStateField("autoPurgeMaxCheckpointSizeMb", value > 0 ? value : null)
+									}}
+									placeholder={t("settings:autoPurge.noLimit")}
+									data-testid="auto-purge-max-checkpoint-size-input"
+								/>
+								<div className="text-vscode-descriptionForeground text-xs mt-1">
+									{t("settings:autoPurge.maxCheckpointSize.description")}
+								</div>
+							</div>
+
 							<div className="flex items-center justify-between pt-2">
 								<div>
 									{autoPurgeLastRunTimestamp && (
@@ -197,9 +241,14 @@ export const CheckpointSettings = ({
 										</div>
 									)}
 								</div>
-								<VSCodeButton onClick={onManualPurge} appearance="secondary">
-									{t("settings:autoPurge.manualPurge.button")}
-								</VSCodeButton>
+								<div className="flex gap-2">
+									<VSCodeButton onClick={onPreviewPurge} appearance="secondary">
+										{t("settings:autoPurge.previewPurge.button")}
+									</VSCodeButton>
+									<VSCodeButton onClick={onManualPurge} appearance="secondary">
+										{t("settings:autoPurge.manualPurge.button")}
+									</VSCodeButton>
+								</div>
 							</div>
 						</div>
 					)}
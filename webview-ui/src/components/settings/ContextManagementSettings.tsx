@@ -4,6 +4,8 @@ import { useAppTranslation } from "@/i18n/TranslationContext"
 import { VSCodeCheckbox } from "@vscode/webview-ui-toolkit/react"
 import { Database, FoldVertical } from "lucide-react"
 
+import { type CondensingStrategy, condensingStrategies } from "@roo-code/types" // kilocode_change
+
 import { cn } from "@/lib/utils"
 import { Input, Select, SelectContent, SelectItem, SelectTrigger, SelectValue, Slider, Button } from "@/components/ui"
 
@@ -24,6 +26,7 @@ type ContextManagementSettingsProps = HTMLAttributes<HTMLDivElement> & {
 	maxTotalImageSize?: number
 	maxConcurrentFileReads?: number
 	allowVeryLargeReads?: boolean // kilocode_change
+	condensingStrategy?: CondensingStrategy // kilocode_change
 	profileThresholds?: Record<string, number>
 	includeDiagnosticMessages?: boolean
 	maxDiagnosticMessages?: number
@@ -39,6 +42,7 @@ type ContextManagementSettingsProps = HTMLAttributes<HTMLDivElement> & {
 		| "maxTotalImageSize"
 		| "maxConcurrentFileReads"
 		| "allowVeryLargeReads" // kilocode_change
+		| "condensingStrategy" // kilocode_change
 		| "profileThresholds"
 		| "includeDiagnosticMessages"
 		| "maxDiagnosticMessages"
@@ -59,6 +63,7 @@ export const ContextManagementSettings = ({
 	maxTotalImageSize,
 	maxConcurrentFileReads,
 	allowVeryLargeReads, // kilocode_change
+	condensingStrategy, // kilocode_change
 	profileThresholds = {},
 	includeDiagnosticMessages,
 	maxDiagnosticMessages,
@@ -454,6 +459,32 @@ export const ContextManagementSettings = ({
 						</div>
 					</div>
 				)}
+				{/* kilocode_change start */}
+				<div>
+					<div className="font-medium mb-1">
+						{t("kilocode:settings.contextManagement.condensingStrategy.label")}
+					</div>
+					<Select
+						value={condensingStrategy ?? "llmSummary"}
+						onValueChange={(value) =>
+							setCachedStateField("condensingStrategy", value as CondensingStrategy)
+						}>
+						<SelectTrigger className="w-full" data-testid="condensing-strategy-select">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{condensingStrategies.map((strategy) => (
+								<SelectItem key={strategy} value={strategy}>
+									{t(`kilocode:settings.contextManagement.condensingStrategy.strategies.${strategy}`)}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+					<div className="text-vscode-descriptionForeground text-sm mt-1">
+						{t("kilocode:settings.contextManagement.condensingStrategy.description")}
+					</div>
+				</div>
+				{/* kilocode_change end */}
 			</Section>
 		</div>
 	)
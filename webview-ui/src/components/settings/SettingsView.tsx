@@ -164,6 +164,8 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 		deniedCommands,
 		allowedMaxRequests,
 		allowedMaxCost,
+		taskCostBudget, // kilocode_change
+		workspaceDailyCostBudget, // kilocode_change
 		language,
 		alwaysAllowBrowser,
 		alwaysAllowExecute,
@@ -220,7 +222,10 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 		terminalCompressProgressBar,
 		maxConcurrentFileReads,
 		allowVeryLargeReads, // kilocode_change
+		condensingStrategy, // kilocode_change
 		terminalCommandApiConfigId, // kilocode_change
+		terminalSandboxModes, // kilocode_change
+		terminalSandboxNetworkEnabled, // kilocode_change
 		condensingApiConfigId,
 		customCondensingPrompt,
 		customSupportPrompts,
@@ -236,6 +241,8 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 		autoPurgeFavoritedTaskRetentionDays,
 		autoPurgeCompletedTaskRetentionDays,
 		autoPurgeIncompleteTaskRetentionDays,
+		autoPurgeStorageQuotaMb,
+		autoPurgeMaxCheckpointSizeMb,
 		autoPurgeLastRunTimestamp,
 		// kilocode_change end - Auto-purge settings
 		includeDiagnosticMessages,
@@ -447,6 +454,8 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 			vscode.postMessage({ type: "deniedCommands", commands: deniedCommands ?? [] })
 			vscode.postMessage({ type: "allowedMaxRequests", value: allowedMaxRequests ?? undefined })
 			vscode.postMessage({ type: "allowedMaxCost", value: allowedMaxCost ?? undefined })
+			vscode.postMessage({ type: "taskCostBudget", value: taskCostBudget ?? undefined }) // kilocode_change
+			vscode.postMessage({ type: "workspaceDailyCostBudget", value: workspaceDailyCostBudget ?? undefined }) // kilocode_change
 			vscode.postMessage({ type: "autoCondenseContext", bool: autoCondenseContext })
 			vscode.postMessage({ type: "autoCondenseContextPercent", value: autoCondenseContextPercent })
 			vscode.postMessage({ type: "browserToolEnabled", bool: browserToolEnabled })
@@ -474,6 +483,8 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 			vscode.postMessage({ type: "terminalZdotdir", bool: terminalZdotdir })
 			vscode.postMessage({ type: "terminalCompressProgressBar", bool: terminalCompressProgressBar })
 			vscode.postMessage({ type: "terminalCommandApiConfigId", text: terminalCommandApiConfigId || "" }) // kilocode_change
+			vscode.postMessage({ type: "terminalSandboxModes", ids: terminalSandboxModes ?? [] }) // kilocode_change
+			vscode.postMessage({ type: "terminalSandboxNetworkEnabled", bool: terminalSandboxNetworkEnabled }) // kilocode_change
 			vscode.postMessage({ type: "mcpEnabled", bool: mcpEnabled })
 			vscode.postMessage({ type: "alwaysApproveResubmit", bool: alwaysApproveResubmit })
 			vscode.postMessage({ type: "requestDelaySeconds", value: requestDelaySeconds })
@@ -487,6 +498,7 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 			vscode.postMessage({ type: "maxTotalImageSize", value: maxTotalImageSize ?? 20 })
 			vscode.postMessage({ type: "maxConcurrentFileReads", value: cachedState.maxConcurrentFileReads ?? 5 })
 			vscode.postMessage({ type: "allowVeryLargeReads", bool: allowVeryLargeReads }) // kilocode_change
+			vscode.postMessage({ type: "condensingStrategy", text: condensingStrategy }) // kilocode_change
 			vscode.postMessage({ type: "includeDiagnosticMessages", bool: includeDiagnosticMessages })
 			vscode.postMessage({ type: "maxDiagnosticMessages", value: maxDiagnosticMessages ?? 50 })
 			vscode.postMessage({ type: "currentApiConfigName", text: currentApiConfigName })
@@ -533,6 +545,11 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 				type: "autoPurgeIncompleteTaskRetentionDays",
 				value: autoPurgeIncompleteTaskRetentionDays,
 			})
+			vscode.postMessage({ type: "autoPurgeStorageQuotaMb", value: autoPurgeStorageQuotaMb ?? undefined })
+			vscode.postMessage({
+				type: "autoPurgeMaxCheckpointSizeMb",
+				value: autoPurgeMaxCheckpointSizeMb ?? undefined,
+			})
 			// kilocode_change end
 			// Update cachedState to match the current state to prevent isChangeDetected from being set back to true
 			setCachedState((prevState) => ({ ...prevState, ...extensionState }))
@@ -869,6 +886,8 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 							allowedCommands={allowedCommands}
 							allowedMaxRequests={allowedMaxRequests ?? undefined}
 							allowedMaxCost={allowedMaxCost ?? undefined}
+							taskCostBudget={taskCostBudget ?? undefined} // kilocode_change
+							workspaceDailyCostBudget={workspaceDailyCostBudget ?? undefined} // kilocode_change
 							deniedCommands={deniedCommands}
 							setCachedStateField={setCachedStateField}
 						/>
@@ -900,10 +919,15 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 							autoPurgeFavoritedTaskRetentionDays={autoPurgeFavoritedTaskRetentionDays}
 							autoPurgeCompletedTaskRetentionDays={autoPurgeCompletedTaskRetentionDays}
 							autoPurgeIncompleteTaskRetentionDays={autoPurgeIncompleteTaskRetentionDays}
+							autoPurgeStorageQuotaMb={autoPurgeStorageQuotaMb}
+							autoPurgeMaxCheckpointSizeMb={autoPurgeMaxCheckpointSizeMb}
 							autoPurgeLastRunTimestamp={autoPurgeLastRunTimestamp}
 							onManualPurge={() => {
 								vscode.postMessage({ type: "manualPurge" })
 							}}
+							onPreviewPurge={() => {
+								vscode.postMessage({ type: "previewAutoPurge" })
+							}}
 							// kilocode_change end
 						/>
 					)}
@@ -954,6 +978,7 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 							maxTotalImageSize={maxTotalImageSize}
 							maxConcurrentFileReads={maxConcurrentFileReads}
 							allowVeryLargeReads={allowVeryLargeReads /* kilocode_change */}
+							condensingStrategy={condensingStrategy /* kilocode_change */}
 							profileThresholds={profileThresholds}
 							includeDiagnosticMessages={includeDiagnosticMessages}
 							maxDiagnosticMessages={maxDiagnosticMessages}
@@ -977,6 +1002,8 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 							terminalZdotdir={terminalZdotdir}
 							terminalCompressProgressBar={terminalCompressProgressBar}
 							terminalCommandApiConfigId={terminalCommandApiConfigId} // kilocode_change
+							terminalSandboxModes={terminalSandboxModes} // kilocode_change
+							terminalSandboxNetworkEnabled={terminalSandboxNetworkEnabled} // kilocode_change
 							setCachedStateField={setCachedStateField}
 						/>
 					)}
@@ -0,0 +1,83 @@
+// kilocode_change - new file
+import { HTMLAttributes } from "react"
+import { useAppTranslation } from "@/i18n/TranslationContext"
+import { Shield } from "lucide-react"
+import { VSCodeCheckbox } from "@vscode/webview-ui-toolkit/react"
+
+import { getAllModes } from "@roo/modes"
+
+import { useExtensionState } from "@/context/ExtensionStateContext"
+import { cn } from "@/lib/utils"
+
+import { SetCachedStateField } from "./types"
+
+type TerminalSandboxSettingsProps = HTMLAttributes<HTMLDivElement> & {
+	terminalSandboxModes?: string[]
+	terminalSandboxNetworkEnabled?: boolean
+	setCachedStateField: SetCachedStateField<"terminalSandboxModes" | "terminalSandboxNetworkEnabled">
+}
+
+export const TerminalSandboxSettings = ({
+	terminalSandboxModes = [],
+	terminalSandboxNetworkEnabled,
+	setCachedStateField,
+	className,
+	...props
+}: TerminalSandboxSettingsProps) => {
+	const { t } = useAppTranslation()
+	const { customModes } = useExtensionState()
+
+	const toggleMode = (slug: string, checked: boolean) =>
+		setCachedStateField(
+			"terminalSandboxModes",
+			checked
+				? [...terminalSandboxModes.filter((mode) => mode !== slug), slug]
+				: terminalSandboxModes.filter((mode) => mode !== slug),
+		)
+
+	return (
+		<div className={cn("flex flex-col gap-3", className)} {...props}>
+			<div className="flex flex-col gap-1">
+				<div className="flex items-center gap-2 font-bold">
+					<Shield className="w-4" />
+					<div>{t("kilocode:settings.terminal.sandbox.label")}</div>
+				</div>
+				<div className="text-vscode-descriptionForeground">
+					{t("kilocode:settings.terminal.sandbox.description")}
+				</div>
+			</div>
+			<div className="flex flex-col gap-3 pl-3 border-l-2 border-vscode-button-background">
+				<div>
+					<label className="block font-medium mb-1">
+						{t("kilocode:settings.terminal.sandbox.modes.label")}
+					</label>
+					<div className="flex flex-col gap-1">
+						{getAllModes(customModes).map((mode) => (
+							<VSCodeCheckbox
+								key={mode.slug}
+								checked={terminalSandboxModes.includes(mode.slug)}
+								onChange={(e: any) => toggleMode(mode.slug, e.target.checked)}
+								data-testid={`terminal-sandbox-mode-${mode.slug}-checkbox`}>
+								{mode.name}
+							</VSCodeCheckbox>
+						))}
+					</div>
+					<div className="text-vscode-descriptionForeground text-sm mt-1">
+						{t("kilocode:settings.terminal.sandbox.modes.description")}
+					</div>
+				</div>
+				<div>
+					<VSCodeCheckbox
+						checked={terminalSandboxNetworkEnabled ?? false}
+						onChange={(e: any) => setCachedStateField("terminalSandboxNetworkEnabled", e.target.checked)}
+						data-testid="terminal-sandbox-network-checkbox">
+						<span className="font-medium">{t("kilocode:settings.terminal.sandbox.network.label")}</span>
+					</VSCodeCheckbox>
+					<div className="text-vscode-descriptionForeground text-sm mt-1">
+						{t("kilocode:settings.terminal.sandbox.network.description")}
+					</div>
+				</div>
+			</div>
+		</div>
+	)
+}
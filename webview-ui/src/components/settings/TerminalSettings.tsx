@@ -13,6 +13,7 @@ import { cn } from "@/lib/utils"
 import { Slider } from "@/components/ui"
 
 import { TerminalCommandGeneratorSettings } from "./TerminalCommandGeneratorSettings" // kilocode_change
+import { TerminalSandboxSettings } from "./TerminalSandboxSettings" // kilocode_change
 import { SetCachedStateField } from "./types"
 import { SectionHeader } from "./SectionHeader"
 import { Section } from "./Section"
@@ -29,7 +30,11 @@ type TerminalSettingsProps = HTMLAttributes<HTMLDivElement> & {
 	terminalZshP10k?: boolean
 	terminalZdotdir?: boolean
 	terminalCompressProgressBar?: boolean
-	terminalCommandApiConfigId?: string // kilocode_change
+	// kilocode_change start
+	terminalCommandApiConfigId?: string
+	terminalSandboxModes?: string[]
+	terminalSandboxNetworkEnabled?: boolean
+	// kilocode_change end
 	setCachedStateField: SetCachedStateField<
 		| "terminalOutputLineLimit"
 		| "terminalOutputCharacterLimit"
@@ -42,7 +47,11 @@ type TerminalSettingsProps = HTMLAttributes<HTMLDivElement> & {
 		| "terminalZshP10k"
 		| "terminalZdotdir"
 		| "terminalCompressProgressBar"
-		| "terminalCommandApiConfigId" // kilocode_change
+		// kilocode_change start
+		| "terminalCommandApiConfigId"
+		| "terminalSandboxModes"
+		| "terminalSandboxNetworkEnabled"
+		// kilocode_change end
 	>
 }
 
@@ -58,7 +67,11 @@ export const TerminalSettings = ({
 	terminalZshP10k,
 	terminalZdotdir,
 	terminalCompressProgressBar,
-	terminalCommandApiConfigId, // kilocode_change
+	// kilocode_change start
+	terminalCommandApiConfigId,
+	terminalSandboxModes,
+	terminalSandboxNetworkEnabled,
+	// kilocode_change end
 	setCachedStateField,
 	className,
 	...props
@@ -445,6 +458,11 @@ export const TerminalSettings = ({
 					terminalCommandApiConfigId={terminalCommandApiConfigId}
 					setCachedStateField={setCachedStateField}
 				/>
+				<TerminalSandboxSettings
+					terminalSandboxModes={terminalSandboxModes}
+					terminalSandboxNetworkEnabled={terminalSandboxNetworkEnabled}
+					setCachedStateField={setCachedStateField}
+				/>
 				{/* kilocode_change end */}
 			</Section>
 		</div>
@@ -116,7 +116,8 @@ export const ThinkingBudget = ({ apiConfiguration, setApiConfigurationField, mod
 	return isReasoningBudgetSupported && !!modelInfo.maxTokens ? (
 		<>
 			{!isReasoningBudgetRequired &&
-				apiConfiguration.apiProvider !== "virtual-quota-fallback" /*kilocode_change*/ && (
+				apiConfiguration.apiProvider !== "virtual-quota-fallback" /*kilocode_change*/ &&
+				apiConfiguration.apiProvider !== "provider-router" /*kilocode_change*/ && (
 					<div className="flex flex-col gap-1">
 						<Checkbox
 							checked={enableReasoningEffort}
@@ -377,9 +377,9 @@ describe("ContextManagementSettings", () => {
 		const slider = screen.getByTestId("condense-threshold-slider")
 		expect(slider).toBeInTheDocument()
 
-		// Should render the profile select dropdown
+		// Should render the profile and condensing strategy select dropdowns
 		const selects = screen.getAllByRole("combobox")
-		expect(selects).toHaveLength(1)
+		expect(selects).toHaveLength(2) // kilocode_change
 	})
 
 	describe("Auto Condense Context functionality", () => {
@@ -412,8 +412,11 @@ describe("ContextManagementSettings", () => {
 
 			// Threshold settings should be visible
 			expect(screen.getByTestId("condense-threshold-slider")).toBeInTheDocument()
-			// One combobox for profile selection
-			expect(screen.getAllByRole("combobox")).toHaveLength(1)
+			// kilocode_change start
+			// One combobox for profile selection and one for the condensing strategy
+			expect(screen.getAllByRole("combobox")).toHaveLength(2)
+			expect(screen.getByTestId("condensing-strategy-select")).toBeInTheDocument()
+			// kilocode_change end
 		})
 
 		it("updates auto condense context percent", () => {
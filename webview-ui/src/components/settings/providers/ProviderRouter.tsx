@@ -0,0 +1,269 @@
+// kilocode_change - new file
+import { useCallback, useMemo } from "react"
+import { VSCodeButton, VSCodeDropdown, VSCodeOption, VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
+import { PlusIcon, TrashIcon } from "@radix-ui/react-icons"
+import { ChevronUp, ChevronDown } from "lucide-react"
+
+import {
+	providerRouterStrategies,
+	type ProviderRouterCandidate,
+	type ProviderRouterRules,
+	type ProviderSettings,
+	type ProviderSettingsEntry,
+} from "@roo-code/types"
+
+import { useAppTranslation } from "@src/i18n/TranslationContext"
+import { useExtensionState } from "@src/context/ExtensionStateContext"
+import { SearchableSelect } from "@src/components/ui"
+
+import { inputEventTransform } from "../transforms"
+
+type ProviderRouterProps = {
+	apiConfiguration: ProviderSettings
+	setApiConfigurationField: (field: keyof ProviderSettings, value: ProviderSettings[keyof ProviderSettings]) => void
+}
+
+const toNumber = (value: string) => (value.trim() === "" || isNaN(Number(value)) ? undefined : Number(value))
+
+export const ProviderRouter = ({ apiConfiguration, setApiConfigurationField }: ProviderRouterProps) => {
+	const { t } = useAppTranslation()
+	const { listApiConfigMeta, currentApiConfigName } = useExtensionState()
+
+	const currentProfileId = listApiConfigMeta?.find((config) => config.name === currentApiConfigName)?.id
+
+	const availableProfiles = useMemo(
+		() =>
+			listApiConfigMeta?.filter(
+				(profile: ProviderSettingsEntry) =>
+					profile.apiProvider !== "provider-router" && profile.id !== currentProfileId,
+			) ?? [],
+		[listApiConfigMeta, currentProfileId],
+	)
+
+	const candidates: ProviderRouterCandidate[] = useMemo(
+		() => (apiConfiguration.routerCandidates?.length ? apiConfiguration.routerCandidates : [{}]),
+		[apiConfiguration.routerCandidates],
+	)
+
+	const updateCandidates = useCallback(
+		(newCandidates: ProviderRouterCandidate[]) => setApiConfigurationField("routerCandidates", newCandidates),
+		[setApiConfigurationField],
+	)
+
+	const updateCandidate = useCallback(
+		(index: number, candidate: ProviderRouterCandidate) =>
+			updateCandidates(candidates.map((existing, i) => (i === index ? candidate : existing))),
+		[candidates, updateCandidates],
+	)
+
+	const updateRule = useCallback(
+		<K extends keyof ProviderRouterRules>(index: number, rule: K, value: ProviderRouterRules[K]) =>
+			updateCandidate(index, {
+				...candidates[index],
+				rules: { ...candidates[index].rules, [rule]: value },
+			}),
+		[candidates, updateCandidate],
+	)
+
+	const moveCandidate = useCallback(
+		(fromIndex: number, toIndex: number) => {
+			const newCandidates = [...candidates]
+			;[newCandidates[fromIndex], newCandidates[toIndex]] = [newCandidates[toIndex], newCandidates[fromIndex]]
+			updateCandidates(newCandidates)
+		},
+		[candidates, updateCandidates],
+	)
+
+	return (
+		<>
+			<h3 className="text-lg font-medium mb-0">{t("kilocode:providerRouter.title")}</h3>
+			<div className="text-sm text-vscode-descriptionForeground mb-4">
+				{t("kilocode:providerRouter.description")}
+			</div>
+
+			<div>
+				<label className="block font-medium mb-1">{t("kilocode:providerRouter.strategy.label")}</label>
+				<VSCodeDropdown
+					value={apiConfiguration.routerStrategy ?? "order"}
+					onChange={(event) => setApiConfigurationField("routerStrategy", inputEventTransform(event))}
+					className="w-full"
+					data-testid="provider-router-strategy">
+					{providerRouterStrategies.map((strategy) => (
+						<VSCodeOption key={strategy} value={strategy} className="p-2">
+							{t(`kilocode:providerRouter.strategy.${strategy}`)}
+						</VSCodeOption>
+					))}
+				</VSCodeDropdown>
+				<div className="text-xs text-vscode-descriptionForeground mt-1">
+					{t("kilocode:providerRouter.strategy.description")}
+				</div>
+			</div>
+
+			<div className="space-y-1">
+				{candidates.map((candidate, index) => {
+					const usedProfileIds = candidates
+						.filter((_, i) => i !== index)
+						.map((other) => other.profileId)
+						.filter(Boolean)
+					const availableForThisSlot = availableProfiles.filter(
+						(profile) => !usedProfileIds.includes(profile.id),
+					)
+					const rules = candidate.rules ?? {}
+
+					return (
+						<div key={index} className="border border-vscode-settings-sashBorder rounded-md p-2">
+							<div className="flex items-center justify-between mb-3">
+								<label className="block font-medium">
+									{t("kilocode:virtualProvider.profileLabel", { number: index + 1 })}
+								</label>
+								<div className="flex items-center gap-1">
+									<VSCodeButton
+										appearance="icon"
+										onClick={() => moveCandidate(index, index - 1)}
+										disabled={index === 0}
+										title={t("kilocode:virtualProvider.moveProfileUp")}>
+										<ChevronUp size={16} />
+									</VSCodeButton>
+									<VSCodeButton
+										appearance="icon"
+										onClick={() => moveCandidate(index, index + 1)}
+										disabled={index === candidates.length - 1}
+										title={t("kilocode:virtualProvider.moveProfileDown")}>
+										<ChevronDown size={16} />
+									</VSCodeButton>
+									{candidates.length > 1 && (
+										<VSCodeButton
+											appearance="icon"
+											onClick={() => updateCandidates(candidates.filter((_, i) => i !== index))}
+											title={t("kilocode:virtualProvider.removeProfile")}>
+											<TrashIcon />
+										</VSCodeButton>
+									)}
+								</div>
+							</div>
+							<SearchableSelect
+								value={candidate.profileId || ""}
+								onValueChange={(value) => {
+									const profile = availableProfiles.find((p) => p.id === value)
+									if (profile) {
+										updateCandidate(index, {
+											...candidate,
+											profileId: profile.id,
+											profileName: profile.name,
+										})
+									}
+								}}
+								disabled={availableForThisSlot.length === 0}
+								options={availableForThisSlot.map((p) => ({ value: p.id, label: p.name }))}
+								placeholder={t("kilocode:virtualProvider.selectProfilePlaceholder")}
+								searchPlaceholder={t("settings:providers.searchPlaceholder")}
+								emptyMessage={t("settings:providers.noMatchFound")}
+								className="w-full"
+							/>
+
+							{candidate.profileId && (
+								<div className="space-y-2 p-2 mt-2">
+									<div className="text-xs text-vscode-descriptionForeground">
+										{t("kilocode:providerRouter.rulesDescription")}
+									</div>
+									<VSCodeTextField
+										value={rules.modes?.join(", ") ?? ""}
+										onInput={(event) => {
+											const modes = String(inputEventTransform(event))
+												.split(",")
+												.map((mode) => mode.trim())
+												.filter(Boolean)
+											updateRule(index, "modes", modes.length ? modes : undefined)
+										}}
+										placeholder={t("kilocode:providerRouter.modesPlaceholder")}
+										className="w-full">
+										<label className="block text-xs mb-1">
+											{t("kilocode:providerRouter.modes")}
+										</label>
+									</VSCodeTextField>
+									<div className="grid grid-cols-2 gap-x-4 gap-y-2">
+										<VSCodeTextField
+											value={rules.minPromptTokens?.toString() ?? ""}
+											onInput={(event) =>
+												updateRule(
+													index,
+													"minPromptTokens",
+													toNumber(inputEventTransform(event)),
+												)
+											}
+											className="[--input-min-width:100%]">
+											<label className="block text-xs mb-1">
+												{t("kilocode:providerRouter.minPromptTokens")}
+											</label>
+										</VSCodeTextField>
+										<VSCodeTextField
+											value={rules.maxPromptTokens?.toString() ?? ""}
+											onInput={(event) =>
+												updateRule(
+													index,
+													"maxPromptTokens",
+													toNumber(inputEventTransform(event)),
+												)
+											}
+											className="[--input-min-width:100%]">
+											<label className="block text-xs mb-1">
+												{t("kilocode:providerRouter.maxPromptTokens")}
+											</label>
+										</VSCodeTextField>
+										<VSCodeTextField
+											value={rules.maxLatencyMs?.toString() ?? ""}
+											onInput={(event) =>
+												updateRule(index, "maxLatencyMs", toNumber(inputEventTransform(event)))
+											}
+											className="[--input-min-width:100%]">
+											<label className="block text-xs mb-1">
+												{t("kilocode:providerRouter.maxLatencyMs")}
+											</label>
+										</VSCodeTextField>
+										<VSCodeTextField
+											value={
+												rules.maxErrorRate !== undefined
+													? String(Math.round(rules.maxErrorRate * 100))
+													: ""
+											}
+											onInput={(event) => {
+												const percent = toNumber(inputEventTransform(event))
+												updateRule(
+													index,
+													"maxErrorRate",
+													percent === undefined
+														? undefined
+														: Math.min(100, Math.max(0, percent)) / 100,
+												)
+											}}
+											className="[--input-min-width:100%]">
+											<label className="block text-xs mb-1">
+												{t("kilocode:providerRouter.maxErrorRate")}
+											</label>
+										</VSCodeTextField>
+									</div>
+								</div>
+							)}
+						</div>
+					)
+				})}
+
+				<div className="flex justify-center p-4">
+					<VSCodeButton
+						appearance="secondary"
+						onClick={() => updateCandidates([...candidates, {}])}
+						disabled={availableProfiles.length <= candidates.length}>
+						<PlusIcon className="mr-2" />
+						{t("kilocode:virtualProvider.addProfile")}
+					</VSCodeButton>
+				</div>
+
+				{availableProfiles.length === 0 && (
+					<div className="text-sm text-vscode-descriptionForeground text-center p-4 border border-vscode-settings-sashBorder rounded-md">
+						{t("kilocode:virtualProvider.noProfilesAvailable")}
+					</div>
+				)}
+			</div>
+		</>
+	)
+}
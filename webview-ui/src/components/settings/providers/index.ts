@@ -28,6 +28,7 @@ export { XAI } from "./XAI"
 export { OvhCloudAiEndpoints } from "./OvhCloud"
 export { GeminiCli } from "./GeminiCli"
 export { VirtualQuotaFallbackProvider } from "./VirtualQuotaFallbackProvider"
+export { ProviderRouter } from "./ProviderRouter"
 export { Inception } from "./Inception"
 export { Synthetic } from "./Synthetic"
 // kilocode_change end
@@ -378,7 +378,8 @@ function getSelectedModel({
 			const info = geminiCliModels[id as keyof typeof geminiCliModels]
 			return { id, info }
 		}
-		case "virtual-quota-fallback": {
+		case "virtual-quota-fallback":
+		case "provider-router": {
 			if (virtualQuotaActiveModel) {
 				return virtualQuotaActiveModel
 			}
@@ -482,6 +483,7 @@ function getSelectedModel({
 				| "qwen-code"
 				| "human-relay"
 				| "fake-ai"
+				| "replay" // kilocode_change
 				| "kilocode-openrouter"
 			const id = apiConfiguration.apiModelId ?? anthropicDefaultModelId
 			const baseInfo = anthropicModels[id as keyof typeof anthropicModels]
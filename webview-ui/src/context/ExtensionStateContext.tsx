@@ -57,6 +57,10 @@ export interface ExtensionStateContextType extends ExtensionState {
 	setAutoPurgeCompletedTaskRetentionDays: (value: number) => void
 	autoPurgeIncompleteTaskRetentionDays?: number
 	setAutoPurgeIncompleteTaskRetentionDays: (value: number) => void
+	autoPurgeStorageQuotaMb?: number | null
+	setAutoPurgeStorageQuotaMb: (value: number | null) => void
+	autoPurgeMaxCheckpointSizeMb?: number | null
+	setAutoPurgeMaxCheckpointSizeMb: (value: number | null) => void
 	autoPurgeLastRunTimestamp?: number
 	setAutoPurgeLastRunTimestamp: (value: number) => void
 	// kilocode_change end
@@ -331,6 +335,8 @@ export const ExtensionStateContextProvider: React.FC<{ children: React.ReactNode
 		autoPurgeFavoritedTaskRetentionDays: null,
 		autoPurgeCompletedTaskRetentionDays: 30,
 		autoPurgeIncompleteTaskRetentionDays: 7,
+		autoPurgeStorageQuotaMb: null,
+		autoPurgeMaxCheckpointSizeMb: null,
 		autoPurgeLastRunTimestamp: undefined,
 		// kilocode_change end
 		openRouterImageGenerationSelectedModel: "",
@@ -690,6 +696,10 @@ export const ExtensionStateContextProvider: React.FC<{ children: React.ReactNode
 			setState((prevState) => ({ ...prevState, autoPurgeCompletedTaskRetentionDays: value })),
 		setAutoPurgeIncompleteTaskRetentionDays: (value) =>
 			setState((prevState) => ({ ...prevState, autoPurgeIncompleteTaskRetentionDays: value })),
+		setAutoPurgeStorageQuotaMb: (value) =>
+			setState((prevState) => ({ ...prevState, autoPurgeStorageQuotaMb: value })),
+		setAutoPurgeMaxCheckpointSizeMb: (value) =>
+			setState((prevState) => ({ ...prevState, autoPurgeMaxCheckpointSizeMb: value })),
 		setAutoPurgeLastRunTimestamp: (value) =>
 			setState((prevState) => ({ ...prevState, autoPurgeLastRunTimestamp: value })),
 		// kilocode_change end
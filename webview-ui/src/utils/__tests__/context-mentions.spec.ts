@@ -1,5 +1,6 @@
 import {
 	insertMention,
+	insertMentionPrefix, // kilocode_change
 	removeMention,
 	getContextMenuOptions,
 	shouldShowContextMenu,
@@ -238,7 +239,7 @@ describe("getContextMenuOptions", () => {
 
 	it("should return all option types for empty query", () => {
 		const result = getContextMenuOptions("", null, [])
-		expect(result).toHaveLength(7) // kilocode_change: added image option
+		expect(result).toHaveLength(11) // kilocode_change: added image, symbol, diff, tests and folder tree options
 		expect(result.map((item) => item.type)).toEqual([
 			ContextMenuOptionType.Problems,
 			ContextMenuOptionType.Terminal,
@@ -247,6 +248,12 @@ describe("getContextMenuOptions", () => {
 			ContextMenuOptionType.File,
 			ContextMenuOptionType.Image, // kilocode_change
 			ContextMenuOptionType.Git,
+			// kilocode_change start
+			ContextMenuOptionType.Symbol,
+			ContextMenuOptionType.Diff,
+			ContextMenuOptionType.Tests,
+			ContextMenuOptionType.FolderTree,
+			// kilocode_change end
 		])
 	})
 
@@ -547,9 +554,60 @@ describe("getContextMenuOptions", () => {
 		})
 	})
 
+	// kilocode_change start
+	it("should suggest the symbol mention for the typed name", () => {
+		expect(getContextMenuOptions("symbol:Task.abort", null, mockQueryItems)).toEqual([
+			{
+				type: ContextMenuOptionType.Symbol,
+				value: "symbol:Task.abort",
+				label: "Task.abort",
+				description: "Symbol definition",
+			},
+		])
+		expect(getContextMenuOptions("symbol:", null, mockQueryItems)).toEqual([
+			{ type: ContextMenuOptionType.NoResults },
+		])
+	})
+
+	it("should suggest common refs for the diff mention", () => {
+		expect(getContextMenuOptions("diff:", null, mockQueryItems).map((item) => item.value)).toEqual([
+			"diff:main..HEAD",
+			"diff:HEAD~1",
+			"diff:HEAD",
+		])
+		expect(getContextMenuOptions("diff:develop", null, mockQueryItems).map((item) => item.value)).toEqual([
+			"diff:develop",
+			"diff:develop..HEAD",
+		])
+	})
+
+	it("should suggest folders for the folder tree mention", () => {
+		const result = getContextMenuOptions("folder-tree:sr", null, mockQueryItems)
+		expect(result.map((item) => [item.type, item.value])).toEqual([
+			[ContextMenuOptionType.FolderTree, "folder-tree:src"],
+		])
+	})
+
+	it("should match the tests and folder tree mentions", () => {
+		expect(getContextMenuOptions("te", null, []).map((item) => item.type)).toContain(ContextMenuOptionType.Tests)
+		expect(getContextMenuOptions("folder-t", null, []).map((item) => item.value)).toContain("folder-tree")
+	})
+	// kilocode_change end
+
 	// Add more tests for filtering, fuzzy search interaction if needed
 })
 
+// kilocode_change start
+describe("insertMentionPrefix", () => {
+	it("should replace the mention being typed with the prefix", () => {
+		expect(insertMentionPrefix("Explain @sym please", 12, "symbol:")).toEqual({
+			newValue: "Explain @symbol: please",
+			newPosition: 16,
+		})
+	})
+})
+// kilocode_change end
+
 describe("shouldShowContextMenu", () => {
 	it("should return true for @ symbol", () => {
 		expect(shouldShowContextMenu("@", 1)).toBe(true)
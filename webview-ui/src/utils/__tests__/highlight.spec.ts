@@ -0,0 +1,17 @@
+// npx vitest src/utils/__tests__/highlight.spec.ts
+
+import { highlightFzfMatch } from "../highlight"
+
+describe("highlightFzfMatch", () => {
+	it("should highlight the matched characters and escape the text", () => {
+		expect(highlightFzfMatch("<b>ab</b>", [3])).toBe(
+			'&lt;b&gt;<span class="history-item-highlight">a</span>b&lt;/b&gt;',
+		)
+	})
+
+	it("should escape the text without matched characters", () => {
+		expect(highlightFzfMatch('<img src=x onerror="alert(1)">', [])).toBe(
+			"&lt;img src=x onerror=&quot;alert(1)&quot;&gt;",
+		)
+	})
+})
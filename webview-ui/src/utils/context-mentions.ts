@@ -108,6 +108,12 @@ export enum ContextMenuOptionType {
 	NoResults = "noResults",
 	Mode = "mode", // Add mode type
 	Image = "image", // kilocode_change
+	// kilocode_change start
+	Symbol = "symbol",
+	Diff = "diff",
+	Tests = "tests",
+	FolderTree = "folderTree",
+	// kilocode_change end
 	Command = "command", // Add command type
 	SectionHeader = "sectionHeader", // Add section header type
 }
@@ -258,12 +264,30 @@ export function getContextMenuOptions(
 			{ type: ContextMenuOptionType.File },
 			{ type: ContextMenuOptionType.Image }, // kilocode_change
 			{ type: ContextMenuOptionType.Git },
+			// kilocode_change start
+			{ type: ContextMenuOptionType.Symbol },
+			{ type: ContextMenuOptionType.Diff },
+			{ type: ContextMenuOptionType.Tests },
+			{ type: ContextMenuOptionType.FolderTree },
+			// kilocode_change end
 		]
 	}
 
 	const lowerQuery = query.toLowerCase()
 	const suggestions: ContextMenuQueryItem[] = []
 
+	// kilocode_change start
+	if (lowerQuery.startsWith(SYMBOL_MENTION_PREFIX)) {
+		return getSymbolOptions(query.slice(SYMBOL_MENTION_PREFIX.length))
+	}
+	if (lowerQuery.startsWith(DIFF_MENTION_PREFIX)) {
+		return getDiffOptions(query.slice(DIFF_MENTION_PREFIX.length))
+	}
+	if (lowerQuery.startsWith(FOLDER_TREE_MENTION_PREFIX)) {
+		return getFolderTreeOptions(query.slice(FOLDER_TREE_MENTION_PREFIX.length), queryItems)
+	}
+	// kilocode_change end
+
 	// Check for top-level option matches
 	if ("git".startsWith(lowerQuery)) {
 		suggestions.push({
@@ -281,6 +305,21 @@ export function getContextMenuOptions(
 	if ("terminal".startsWith(lowerQuery)) {
 		suggestions.push({ type: ContextMenuOptionType.Terminal })
 	}
+	// kilocode_change start: listed after the matching files, so that they don't get in the way of file searches
+	const mentionSuggestions: ContextMenuQueryItem[] = []
+	if ("symbol".startsWith(lowerQuery)) {
+		mentionSuggestions.push({ type: ContextMenuOptionType.Symbol })
+	}
+	if ("diff".startsWith(lowerQuery)) {
+		mentionSuggestions.push({ type: ContextMenuOptionType.Diff })
+	}
+	if ("tests".startsWith(lowerQuery)) {
+		mentionSuggestions.push({ type: ContextMenuOptionType.Tests, value: "tests" })
+	}
+	if ("folder-tree".startsWith(lowerQuery)) {
+		mentionSuggestions.push({ type: ContextMenuOptionType.FolderTree, value: "folder-tree" })
+	}
+	// kilocode_change end
 	if (query.startsWith("http")) {
 		suggestions.push({ type: ContextMenuOptionType.URL, value: query })
 	}
@@ -342,7 +381,7 @@ export function getContextMenuOptions(
 		}
 	})
 
-	const allItems = [...suggestions, ...openedFileMatches, ...searchResultItems, ...gitMatches]
+	const allItems = [...suggestions, ...openedFileMatches, ...searchResultItems, ...gitMatches, ...mentionSuggestions] // kilocode_change
 
 	// Remove duplicates - normalize paths by ensuring all have leading slashes
 	const seen = new Set()
@@ -367,6 +406,69 @@ export function getContextMenuOptions(
 	return deduped.length > 0 ? deduped : [{ type: ContextMenuOptionType.NoResults }]
 }
 
+// kilocode_change start
+export const SYMBOL_MENTION_PREFIX = "symbol:"
+export const DIFF_MENTION_PREFIX = "diff:"
+export const FOLDER_TREE_MENTION_PREFIX = "folder-tree:"
+
+const DEFAULT_DIFF_REFS = ["main..HEAD", "HEAD~1", "HEAD"]
+
+function getSymbolOptions(name: string): ContextMenuQueryItem[] {
+	if (!/^[\w$]+(?:\.[\w$]+)*$/.test(name)) {
+		return [{ type: ContextMenuOptionType.NoResults }]
+	}
+	return [
+		{
+			type: ContextMenuOptionType.Symbol,
+			value: `${SYMBOL_MENTION_PREFIX}${name}`,
+			label: name,
+			description: "Symbol definition",
+		},
+	]
+}
+
+function getDiffOptions(ref: string): ContextMenuQueryItem[] {
+	if (ref && !/^[\w./~^-]+$/.test(ref)) {
+		return [{ type: ContextMenuOptionType.NoResults }]
+	}
+	const refs = ref ? [ref, ...(ref.includes("..") ? [] : [`${ref}..HEAD`])] : DEFAULT_DIFF_REFS
+	return refs.map((diffRef) => ({
+		type: ContextMenuOptionType.Diff,
+		value: `${DIFF_MENTION_PREFIX}${diffRef}`,
+		label: diffRef,
+		description: "Git diff",
+	}))
+}
+
+function getFolderTreeOptions(folderQuery: string, queryItems: ContextMenuQueryItem[]): ContextMenuQueryItem[] {
+	const folders = queryItems.filter((item) => item.type === ContextMenuOptionType.Folder && item.value)
+	const fzf = new Fzf(folders, { selector: (item) => item.value! })
+	const matches = folderQuery ? fzf.find(folderQuery).map((result) => result.item) : folders
+	const options = matches.map((folder) => ({
+		type: ContextMenuOptionType.FolderTree,
+		value: `${FOLDER_TREE_MENTION_PREFIX}${folder.value}`,
+		label: folder.value,
+		description: "Folder tree",
+	}))
+	return options.length > 0 ? options : [{ type: ContextMenuOptionType.NoResults }]
+}
+
+/**
+ * Replace the mention being typed with a mention prefix, so that its argument can be typed next
+ */
+export function insertMentionPrefix(
+	text: string,
+	position: number,
+	prefix: string,
+): { newValue: string; newPosition: number } {
+	const beforeCursor = text.slice(0, position)
+	const lastAtIndex = beforeCursor.lastIndexOf("@")
+	const mentionStart = lastAtIndex !== -1 ? lastAtIndex : position
+	const newValue = `${text.slice(0, mentionStart)}@${prefix}${text.slice(position)}`
+	return { newValue, newPosition: mentionStart + 1 + prefix.length }
+}
+// kilocode_change end
+
 export function shouldShowContextMenu(text: string, position: number): boolean {
 	const beforeCursor = text.slice(0, position)
 
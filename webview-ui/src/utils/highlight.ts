@@ -29,7 +29,7 @@ export function highlightFzfMatch(
 	positions: number[],
 	highlightClassName: string = "history-item-highlight",
 ) {
-	if (!positions.length) return text
+	if (!positions.length) return escapeHtml(text) // kilocode_change: the result is rendered as HTML
 
 	const parts: { text: string; highlight: boolean }[] = []
 	let lastIndex = 0
@@ -4,11 +4,14 @@
 import { getAllModes } from "@roo/modes"
 import { getBasename } from "./kilocode/path-webview"
 import { ClineRulesToggles } from "@roo/cline-rules"
+import { McpServer } from "@roo/mcp"
+import { getMcpPromptCommandName } from "../../../src/shared/kilocode/mcp"
 
 export interface SlashCommand {
 	name: string
 	description?: string
-	section?: "default" | "custom"
+	argumentHint?: string
+	section?: "default" | "custom" | "mcp"
 }
 
 // Create a function to get all supported slash commands
@@ -16,6 +19,7 @@ export function getSupportedSlashCommands(
 	customModes?: any[],
 	localWorkflowToggles: ClineRulesToggles = {},
 	globalWorkflowToggles: ClineRulesToggles = {},
+	mcpServers: McpServer[] = [],
 ): SlashCommand[] {
 	// Start with non-mode commands
 	const baseCommands: SlashCommand[] = [
@@ -39,7 +43,10 @@ export function getSupportedSlashCommands(
 
 	// add workflow commands
 	const workflowCommands = getWorkflowCommands(localWorkflowToggles, globalWorkflowToggles)
-	return [...baseCommands, ...modeCommands, ...workflowCommands]
+
+	// add prompts published by connected MCP servers
+	const mcpPromptCommands = getMcpPromptCommands(mcpServers)
+	return [...baseCommands, ...modeCommands, ...workflowCommands, ...mcpPromptCommands]
 }
 
 // Export a default instance for backward compatibility
@@ -95,6 +102,34 @@ export function getWorkflowCommands(
 	return [...enabledWorkflowToggles(localWorkflowToggles), ...enabledWorkflowToggles(globalWorkflowToggles)]
 }
 
+export function getMcpPromptCommands(mcpServers: McpServer[] = []): SlashCommand[] {
+	const commands = new Map<string, SlashCommand>()
+
+	for (const server of mcpServers) {
+		if (server.disabled || server.status !== "connected") {
+			continue
+		}
+
+		for (const prompt of server.prompts ?? []) {
+			const name = getMcpPromptCommandName(server.name, prompt.name)
+			if (commands.has(name)) {
+				continue
+			}
+
+			commands.set(name, {
+				name,
+				description: prompt.description ?? `Run the "${prompt.name}" prompt from ${server.name}`,
+				argumentHint: prompt.arguments
+					?.map((argument) => (argument.required ? `${argument.name}=<value>` : `[${argument.name}=<value>]`))
+					.join(" "),
+				section: "mcp",
+			})
+		}
+	}
+
+	return Array.from(commands.values())
+}
+
 /**
  * Gets filtered slash commands that match the current input
  */
@@ -103,8 +138,9 @@ export function getMatchingSlashCommands(
 	customModes?: any[],
 	localWorkflowToggles: ClineRulesToggles = {},
 	globalWorkflowToggles: ClineRulesToggles = {},
+	mcpServers: McpServer[] = [],
 ): SlashCommand[] {
-	const commands = getSupportedSlashCommands(customModes, localWorkflowToggles, globalWorkflowToggles)
+	const commands = getSupportedSlashCommands(customModes, localWorkflowToggles, globalWorkflowToggles, mcpServers)
 
 	if (!query) {
 		return [...commands]
@@ -139,13 +175,14 @@ export function validateSlashCommand(
 	customModes?: any[],
 	localWorkflowToggles: ClineRulesToggles = {},
 	globalWorkflowToggles: ClineRulesToggles = {},
+	mcpServers: McpServer[] = [],
 ): "full" | "partial" | null {
 	if (!command) {
 		return null
 	}
 
 	// case sensitive matching
-	const commands = getSupportedSlashCommands(customModes, localWorkflowToggles, globalWorkflowToggles)
+	const commands = getSupportedSlashCommands(customModes, localWorkflowToggles, globalWorkflowToggles, mcpServers)
 
 	const exactMatch = commands.some((cmd) => cmd.name === command)
 